@@ -0,0 +1,14 @@
+import { createHash, randomBytes } from "node:crypto";
+import { isSessionTokenEqual } from "./session.js";
+
+export const APP_TOKEN_PREFIX = "nbapp_";
+export const APP_TOKEN_BYTES = 32;
+
+export const createAppToken = () =>
+  `${APP_TOKEN_PREFIX}${randomBytes(APP_TOKEN_BYTES).toString("base64url")}`;
+
+export const hashAppToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+export const isAppTokenValid = (token: string, expectedHash: string) =>
+  isSessionTokenEqual(hashAppToken(token), expectedHash);
@@ -0,0 +1,488 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+  MagicContext,
+  MagicDefinition,
+  MagicExecution,
+} from "@nodebooks/cell-plugin-api";
+import {
+  redactOutput,
+  type CellDependencies,
+  type DisplayDataOutput,
+  type KernelVariable,
+  type Redactor,
+  type StreamOutput,
+} from "@nodebooks/notebook-schema";
+import type { ExecuteResult } from "@nodebooks/runtime-host";
+
+const LINE_MAGIC_RE = /^\s*%([A-Za-z_][\w-]*)(?:[ \t]+(.*))?$/;
+const CELL_MAGIC_RE = /^\s*%%([A-Za-z_][\w-]*)(?:[ \t]+(.*))?$/;
+const ENV_NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const TIMEIT_DEFAULT_REPEAT = 7;
+
+export class MagicUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export type MagicSegment =
+  | { kind: "code"; code: string; line: number }
+  | {
+      kind: "magic";
+      type: "line" | "cell";
+      name: string;
+      args: string;
+      body: string;
+      line: number;
+    };
+
+/**
+ * Splits a cell into plain code and magic invocations. A `%%name` first line
+ * turns the whole cell into a cell magic; `%name` lines are line magics.
+ * Returns null when the cell has no magics so callers can run it untouched.
+ */
+export const parseMagics = (code: string): MagicSegment[] | null => {
+  const lines = code.split("\n");
+  const cellMagic = lines[0]?.match(CELL_MAGIC_RE);
+  if (cellMagic) {
+    return [
+      {
+        kind: "magic",
+        type: "cell",
+        name: cellMagic[1]!,
+        args: (cellMagic[2] ?? "").trim(),
+        body: lines.slice(1).join("\n"),
+        line: 0,
+      },
+    ];
+  }
+
+  const segments: MagicSegment[] = [];
+  let pending: { lines: string[]; line: number } | null = null;
+  const flush = () => {
+    if (pending && pending.lines.join("").trim().length > 0) {
+      segments.push({
+        kind: "code",
+        code: pending.lines.join("\n"),
+        line: pending.line,
+      });
+    }
+    pending = null;
+  };
+
+  lines.forEach((text, index) => {
+    const magic = text.match(LINE_MAGIC_RE);
+    if (!magic) {
+      pending ??= { lines: [], line: index };
+      pending.lines.push(text);
+      return;
+    }
+    flush();
+    segments.push({
+      kind: "magic",
+      type: "line",
+      name: magic[1]!,
+      args: (magic[2] ?? "").trim(),
+      body: "",
+      line: index,
+    });
+  });
+  flush();
+
+  return segments.some((segment) => segment.kind === "magic") ? segments : null;
+};
+
+/**
+ * Blanks out magic lines so the remaining code keeps its line numbers, or
+ * returns null when a cell magic owns the whole cell.
+ */
+export const stripMagics = (code: string, segments: MagicSegment[]) => {
+  if (segments.some((item) => item.kind === "magic" && item.type === "cell")) {
+    return null;
+  }
+  const lines = code.split("\n");
+  for (const segment of segments) {
+    if (segment.kind === "magic") {
+      lines[segment.line] = "";
+    }
+  }
+  return lines.join("\n");
+};
+
+type KernelOutput = ExecuteResult["outputs"][number];
+
+export interface MagicRunOptions {
+  notebookId: string;
+  cellId: string;
+  language: "js" | "ts";
+  workspaceDir: string;
+  signal: AbortSignal;
+  magics: MagicDefinition[];
+  execute(code: string): Promise<ExecuteResult>;
+  listVariables(): Promise<KernelVariable[]>;
+  getEnv(): Record<string, string>;
+  setEnv(name: string, value?: string): void;
+  // Kernel output arrives redacted; this covers what magics print themselves
+  redact: Redactor;
+  onStream(output: StreamOutput): void;
+}
+
+export interface MagicRunResult extends ExecuteResult {
+  // Set when a magic replaced the cell source instead of running it
+  source?: string;
+}
+
+const mergeDependencies = (
+  current: CellDependencies | undefined,
+  next: CellDependencies | undefined
+): CellDependencies | undefined => {
+  if (!current || !next) {
+    return current ?? next;
+  }
+  return {
+    defines: Array.from(new Set([...current.defines, ...next.defines])),
+    reads: Array.from(new Set([...current.reads, ...next.reads])),
+  };
+};
+
+/**
+ * Runs parsed segments in order, stopping at the first one that fails.
+ * Code segments are padded so kernel line numbers match the cell.
+ */
+export const runMagics = async (
+  segments: MagicSegment[],
+  options: MagicRunOptions
+): Promise<MagicRunResult> => {
+  const registry = new Map<string, MagicDefinition>();
+  for (const magic of options.magics) {
+    const key = `${magic.kind}:${magic.name}`;
+    if (!registry.has(key)) {
+      registry.set(key, magic);
+    }
+  }
+
+  const started = Date.now();
+  const outputs: KernelOutput[] = [];
+  let status: MagicExecution["status"] = "ok";
+  let globals: Record<string, unknown> | undefined;
+  let dependencies: CellDependencies | undefined;
+  let source: string | undefined;
+
+  const execute = async (code: string, line: number) => {
+    const result = await options.execute(`${"\n".repeat(line)}${code}`);
+    outputs.push(...result.outputs);
+    globals = result.globals ?? globals;
+    dependencies = mergeDependencies(dependencies, result.dependencies);
+    if (result.execution.status !== "ok") {
+      status = result.execution.status;
+    }
+    return {
+      status: result.execution.status,
+      started: result.execution.started,
+      ended: result.execution.ended,
+    };
+  };
+
+  const write = (name: StreamOutput["name"], text: string) => {
+    if (!text) {
+      return;
+    }
+    const output: StreamOutput = {
+      type: "stream",
+      name,
+      text: options.redact(text),
+    };
+    outputs.push(output);
+    options.onStream(output);
+  };
+
+  for (const segment of segments) {
+    if (segment.kind === "code") {
+      await execute(segment.code, segment.line);
+    } else {
+      const magic = registry.get(`${segment.type}:${segment.name}`);
+      const prefix = segment.type === "cell" ? "%%" : "%";
+      const codeLine =
+        segment.type === "cell" ? segment.line + 1 : segment.line;
+      try {
+        if (!magic) {
+          throw new MagicUsageError(
+            `${segment.type === "cell" ? "Cell" : "Line"} magic function \`${prefix}${segment.name}\` not found.`
+          );
+        }
+        const context: MagicContext = {
+          name: segment.name,
+          args: segment.args,
+          body: segment.body,
+          notebookId: options.notebookId,
+          cellId: options.cellId,
+          language: options.language,
+          workspaceDir: options.workspaceDir,
+          signal: options.signal,
+          execute: (code) => execute(code, codeLine),
+          listVariables: options.listVariables,
+          getEnv: options.getEnv,
+          setEnv: options.setEnv,
+          stdout: (text) => write("stdout", text),
+          stderr: (text) => write("stderr", text),
+          display: (data) => {
+            const output: DisplayDataOutput = { type: "display_data", data };
+            outputs.push(redactOutput(output, options.redact));
+          },
+          setSource: (next) => {
+            source = next;
+          },
+        };
+        await magic.run(context);
+      } catch (error) {
+        const err =
+          error instanceof Error ? error : new Error(String(error ?? ""));
+        outputs.push(
+          redactOutput(
+            {
+              type: "error",
+              ename: options.signal.aborted ? "KeyboardInterrupt" : err.name,
+              evalue: err.message,
+              traceback: [],
+            },
+            options.redact
+          )
+        );
+        status = options.signal.aborted ? "aborted" : "error";
+      }
+    }
+    if (status !== "ok" || source !== undefined) {
+      break;
+    }
+  }
+
+  return {
+    outputs,
+    execution: { started, ended: Date.now(), status },
+    globals,
+    dependencies,
+    source,
+  };
+};
+
+// Same units as the kernel-side formatter in TIMEIT_FORMAT
+const formatSeconds = (seconds: number) => {
+  if (seconds >= 1) return `${Number(seconds.toPrecision(3))} s`;
+  if (seconds >= 1e-3) return `${Number((seconds * 1e3).toPrecision(3))} ms`;
+  if (seconds >= 1e-6) return `${Number((seconds * 1e6).toPrecision(3))} µs`;
+  return `${Number((seconds * 1e9).toPrecision(3))} ns`;
+};
+
+const TIMEIT_FORMAT = `(seconds) => {
+  if (seconds >= 1) return Number(seconds.toPrecision(3)) + " s";
+  if (seconds >= 1e-3) return Number((seconds * 1e3).toPrecision(3)) + " ms";
+  if (seconds >= 1e-6) return Number((seconds * 1e6).toPrecision(3)) + " µs";
+  return Number((seconds * 1e9).toPrecision(3)) + " ns";
+}`;
+
+const plural = (count: number | string, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+// `%timeit` flags come first; everything after them is the statement
+const parseTimeitArgs = (args: string) => {
+  let rest = args;
+  let loops: number | undefined;
+  let repeat = TIMEIT_DEFAULT_REPEAT;
+  for (;;) {
+    const flag = /^-([nr])\s*(\d+)\s*/.exec(rest);
+    if (!flag) {
+      break;
+    }
+    const value = Number(flag[2]);
+    if (value < 1) {
+      throw new MagicUsageError(`-${flag[1]} must be at least 1`);
+    }
+    if (flag[1] === "n") {
+      loops = value;
+    } else {
+      repeat = value;
+    }
+    rest = rest.slice(flag[0].length);
+  }
+  return { loops, repeat, rest };
+};
+
+/**
+ * Kernel code that benchmarks `statement`. Without `-n` the loop count grows
+ * tenfold until one run takes 0.2s, as IPython does.
+ */
+export const buildTimeitCode = (
+  statement: string,
+  loops: number | undefined,
+  repeat: number
+) => {
+  const isAsync = /\bawait\b/.test(statement);
+  const call = isAsync ? "await __nb_stmt()" : "__nb_stmt()";
+  return [
+    "await (async () => {",
+    `const __nb_stmt = ${isAsync ? "async " : ""}() => {`,
+    statement,
+    "};",
+    "const __nb_time = async (loops) => {",
+    "  const start = process.hrtime();",
+    `  for (let i = 0; i < loops; i++) ${call};`,
+    "  const [seconds, nanos] = process.hrtime(start);",
+    "  return seconds + nanos / 1e9;",
+    "};",
+    `let loops = ${loops ?? 0};`,
+    "if (!loops) {",
+    "  for (loops = 1; loops < 1e8; loops *= 10) {",
+    "    if ((await __nb_time(loops)) >= 0.2) break;",
+    "  }",
+    "}",
+    "const runs = [];",
+    `for (let r = 0; r < ${repeat}; r++) runs.push((await __nb_time(loops)) / loops);`,
+    "const mean = runs.reduce((sum, value) => sum + value, 0) / runs.length;",
+    "const std = Math.sqrt(runs.reduce((sum, value) => sum + (value - mean) ** 2, 0) / runs.length);",
+    `const fmt = ${TIMEIT_FORMAT};`,
+    `console.log(fmt(mean) + " ± " + fmt(std) + " per loop (mean ± std. dev. of ${plural(repeat, "run")}, " + loops + (loops === 1 ? " loop" : " loops") + " each)");`,
+    "})();",
+  ].join("\n");
+};
+
+const requireStatement = (statement: string, name: string) => {
+  if (!statement.trim()) {
+    throw new MagicUsageError(`%${name} needs a statement to run`);
+  }
+  return statement;
+};
+
+const time = async (context: MagicContext, statement: string) => {
+  const code = requireStatement(statement, "time");
+  const start = performance.now();
+  const result = await context.execute(code);
+  if (result.status === "ok") {
+    context.stdout(
+      `Wall time: ${formatSeconds((performance.now() - start) / 1000)}\n`
+    );
+  }
+};
+
+const timeit = async (context: MagicContext, args: string, body: string) => {
+  const { loops, repeat, rest } = parseTimeitArgs(args);
+  const statement = requireStatement(body || rest, "timeit");
+  await context.execute(buildTimeitCode(statement, loops, repeat));
+};
+
+const env = (context: MagicContext) => {
+  const values = context.getEnv();
+  const args = context.args;
+  if (!args) {
+    const lines = Object.keys(values)
+      .sort()
+      .map((name) => `${name}=${values[name]}`);
+    context.stdout(lines.length > 0 ? `${lines.join("\n")}\n` : "");
+    return;
+  }
+  const unset = /^-u\s+(\S+)$/.exec(args);
+  if (unset) {
+    context.setEnv(unset[1]!);
+    context.stdout(`env: unset ${unset[1]}\n`);
+    return;
+  }
+  const assignment = /^([^=\s]+)(?:\s*=\s*|\s+)([\s\S]*)$/.exec(args);
+  const name = assignment?.[1] ?? args;
+  if (!ENV_NAME_RE.test(name)) {
+    throw new MagicUsageError(`Invalid environment variable name: ${name}`);
+  }
+  if (!assignment) {
+    if (!(name in values)) {
+      throw new MagicUsageError(`Environment does not have key: ${name}`);
+    }
+    context.stdout(`${values[name]}\n`);
+    return;
+  }
+  const value = assignment[2]!.replace(/^(["'])([\s\S]*)\1$/, "$2");
+  context.setEnv(name, value);
+  context.stdout(`env: ${name}=${value}\n`);
+};
+
+const who = async (context: MagicContext) => {
+  const filter = context.args.toLowerCase();
+  const names = (await context.listVariables())
+    .filter((item) => !filter || item.valueType.toLowerCase() === filter)
+    .map((item) => item.name)
+    .sort();
+  context.stdout(
+    names.length > 0
+      ? `${names.join("\t")}\n`
+      : "Interactive namespace is empty.\n"
+  );
+};
+
+const load = async (context: MagicContext) => {
+  const target = context.args;
+  if (!target) {
+    throw new MagicUsageError("%load needs a file path or URL");
+  }
+  let content: string;
+  if (/^https?:\/\//i.test(target)) {
+    const response = await fetch(target, { signal: context.signal });
+    if (!response.ok) {
+      throw new Error(`Failed to load ${target}: HTTP ${response.status}`);
+    }
+    content = await response.text();
+  } else {
+    const resolved = path.resolve(context.workspaceDir, target);
+    const relative = path.relative(context.workspaceDir, resolved);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new MagicUsageError(
+        "%load can only read files inside the notebook workspace"
+      );
+    }
+    content = await readFile(resolved, "utf8");
+  }
+  context.setSource(`// %load ${target}\n${content}`);
+};
+
+export const builtinMagics: MagicDefinition[] = [
+  {
+    name: "time",
+    kind: "line",
+    description: "Run a statement and report its wall time",
+    run: (context) => time(context, context.args),
+  },
+  {
+    name: "time",
+    kind: "cell",
+    description: "Run the cell and report its wall time",
+    run: (context) => time(context, context.body),
+  },
+  {
+    name: "timeit",
+    kind: "line",
+    description: "Benchmark a statement: %timeit [-n loops] [-r runs] stmt",
+    run: (context) => timeit(context, context.args, ""),
+  },
+  {
+    name: "timeit",
+    kind: "cell",
+    description: "Benchmark the cell: %%timeit [-n loops] [-r runs]",
+    run: (context) => timeit(context, context.args, context.body),
+  },
+  {
+    name: "env",
+    kind: "line",
+    description: "List, read or set environment variables for this session",
+    run: env,
+  },
+  {
+    name: "who",
+    kind: "line",
+    description: "List kernel globals, optionally of one type",
+    run: who,
+  },
+  {
+    name: "load",
+    kind: "line",
+    description: "Replace the cell with the contents of a file or URL",
+    run: load,
+  },
+];
@@ -0,0 +1,11 @@
+import { PackageStore } from "@nodebooks/runtime-node/package-store";
+
+export type {
+  PackageStoreEntry,
+  PackageStoreGcResult,
+  PackageStoreUsage,
+} from "@nodebooks/runtime-node/package-store";
+
+// Kernel workers keep their sandboxes in the default runtime workspace, so
+// the server and the CLI see the same store.
+export const openRuntimePackageStore = () => new PackageStore();
@@ -1,19 +1,39 @@
+import { randomUUID } from "node:crypto";
 import type { IncomingMessage } from "node:http";
 import type { Socket } from "node:net";
+import os from "node:os";
+import path from "node:path";
 import WebSocket, { WebSocketServer, type RawData } from "ws";
 import { z } from "zod";
 import {
   KernelClientMessageSchema,
+  collectSensitiveValues,
+  createRedactor,
+  mergeProjectEnv,
   type KernelClientMessage,
+  type KernelCompleteRequest,
+  type KernelDeleteVariableRequest,
   type KernelExecuteRequest,
+  type KernelInputReply,
+  type KernelInspectRequest,
   type KernelUiEventRequest,
   type KernelServerMessage,
 } from "@nodebooks/notebook-schema";
 import type {
+  CellDependencies,
   CodeCell,
+  Notebook,
+  NotebookEnv,
   OutputExecution,
   NotebookOutput,
+  ProjectDefaults,
+  Redactor,
 } from "@nodebooks/notebook-schema";
+import type {
+  MagicDefinition,
+  NotebookSecretResolver,
+  ProjectDefaultsResolver,
+} from "@nodebooks/cell-plugin-api";
 import type {
   NotebookStore,
   SessionManager,
@@ -21,12 +41,29 @@ import type {
   SafeUser,
   AuthSession,
 } from "../types.js";
-import { WorkerClient } from "@nodebooks/runtime-host";
+import { KernelLimitError, WorkerClient } from "@nodebooks/runtime-host";
 import { getWorkerPool } from "./runtime-pool.js";
+import { createTypeCheckError, typeCheckCellInWorker } from "./type-check.js";
+import { captureInstalledLockfile } from "../notebooks/lockfile.js";
+import {
+  builtinMagics,
+  parseMagics,
+  runMagics,
+  stripMagics,
+} from "./magics.js";
 import { loadServerConfig } from "@nodebooks/config";
 
 const runtimes = new Map<string, WorkerClient>();
 const sessionGlobals = new Map<string, Record<string, unknown>>();
+// `%env` overrides layered over the notebook's variables, per session
+const sessionEnv = new Map<string, Record<string, string>>();
+// Interrupts abort in-flight magics (e.g. `%%sh`) through these
+const runningMagics = new WeakMap<WebSocket, AbortController>();
+// prompt() calls waiting on the browser, per socket and request id
+const pendingInputs = new WeakMap<
+  WebSocket,
+  Map<string, (value: string | null) => void>
+>();
 
 export const getSessionGlobals = (
   sessionId: string
@@ -53,6 +90,23 @@ const coerceGlobals = (value: unknown): Record<string, unknown> | undefined => {
   return value as Record<string, unknown>;
 };
 
+const resolveSessionEnv = (sessionId: string, env: NotebookEnv) => {
+  const overrides = sessionEnv.get(sessionId);
+  return overrides
+    ? { ...env, variables: { ...env.variables, ...overrides } }
+    : env;
+};
+
+const setSessionEnv = (sessionId: string, name: string, value?: string) => {
+  const overrides = { ...sessionEnv.get(sessionId) };
+  if (value === undefined) {
+    delete overrides[name];
+  } else {
+    overrides[name] = value;
+  }
+  sessionEnv.set(sessionId, overrides);
+};
+
 const setSessionGlobals = (
   sessionId: string,
   globals: Record<string, unknown> | undefined
@@ -84,6 +138,10 @@ interface KernelUpgradeOptions {
   authenticate?: (
     req: IncomingMessage
   ) => Promise<KernelUpgradeAuthResult | null>;
+  // Magics contributed by enabled plugins; builtins are always available
+  getPluginMagics?: () => Promise<MagicDefinition[]>;
+  resolveSecrets?: NotebookSecretResolver;
+  resolveProjectDefaults?: ProjectDefaultsResolver;
 }
 
 export const createKernelUpgradeHandler = (
@@ -134,7 +192,8 @@ export const createKernelUpgradeHandler = (
             { id },
             sessions,
             store,
-            authResult
+            authResult,
+            options
           );
         });
       } catch (err) {
@@ -164,9 +223,9 @@ const handleConnection = async (
   params: unknown,
   sessions: SessionManager,
   store: NotebookStore,
-  auth: KernelUpgradeAuthResult | null
+  auth: KernelUpgradeAuthResult | null,
+  options: KernelUpgradeOptions
 ) => {
-  void auth;
   const { id } = z.object({ id: z.string() }).parse(params);
   const allSessions = await sessions.listSessions();
   const session = allSessions.find((item) => item.id === id);
@@ -201,7 +260,10 @@ const handleConnection = async (
     sessionId: session.id,
   });
 
-  const runtime = ensureRuntime(session.id);
+  const runtime = ensureRuntime(
+    session.id,
+    `${notebook.id}:${auth?.user.id ?? ""}`
+  );
 
   // --- WebSocket heartbeat (server -> client ping, client -> server pong) ---
   // Browsers automatically reply to ping frames with a pong. This maintains
@@ -259,6 +321,12 @@ const handleConnection = async (
         runtime,
         session,
         store,
+        getPluginMagics: options.getPluginMagics,
+        // Secrets are resolved per run so edits apply without reconnecting
+        getSecrets: async (target) =>
+          (await options.resolveSecrets?.(target, auth?.user.id)) ?? {},
+        getProjectDefaults: async (target) =>
+          (await options.resolveProjectDefaults?.(target)) ?? null,
       });
     } catch (error) {
       const cellId =
@@ -278,14 +346,13 @@ const handleConnection = async (
 
   connection.on("close", () => {
     clearInterval(hb);
-    const rt = runtimes.get(session.id);
-    try {
-      (rt as unknown as { release?: () => void })?.release?.();
-    } catch (err) {
-      void err;
+    cancelPendingInputs(connection);
+    // Sticky kernels outlive the socket so a reconnect finds the same live
+    // state; they are shut down when a session on them is deleted or they go
+    // idle.
+    if (loadServerConfig().kernelMode !== "sticky") {
+      disposeSessionRuntime(session.id);
     }
-    runtimes.delete(session.id);
-    sessionGlobals.delete(session.id);
     void sessions.closeSession(session.id);
   });
 };
@@ -331,6 +398,9 @@ interface HandleMessageArgs {
   runtime: WorkerClient;
   session: NotebookSession;
   store: NotebookStore;
+  getPluginMagics?: () => Promise<MagicDefinition[]>;
+  getSecrets?: (notebook: Notebook) => Promise<Record<string, string>>;
+  getProjectDefaults?: (notebook: Notebook) => Promise<ProjectDefaults | null>;
 }
 
 const handleKernelMessage = async ({
@@ -339,6 +409,9 @@ const handleKernelMessage = async ({
   runtime,
   session,
   store,
+  getPluginMagics,
+  getSecrets,
+  getProjectDefaults,
 }: HandleMessageArgs) => {
   switch (message.type) {
     case "execute_request":
@@ -348,6 +421,9 @@ const handleKernelMessage = async ({
         runtime,
         session,
         store,
+        getPluginMagics,
+        getSecrets,
+        getProjectDefaults,
       });
       break;
     case "ui_event":
@@ -357,9 +433,31 @@ const handleKernelMessage = async ({
         runtime,
         session,
         store,
+        getSecrets,
+        getProjectDefaults,
       });
       break;
+    case "input_reply":
+      resolveInput(connection, message);
+      break;
+    case "complete_request":
+      await handleCompleteRequest(connection, message, runtime);
+      break;
+    case "inspect_request":
+      await handleInspectRequest(connection, message, runtime);
+      break;
+    case "variables_request":
+      await handleVariablesRequest(connection, runtime);
+      break;
+    case "delete_variable_request":
+      await handleDeleteVariableRequest(connection, message, runtime, session);
+      break;
+    case "debug_request":
+      await runtime.debug(message.action).catch(() => undefined);
+      break;
     case "interrupt_request": {
+      cancelPendingInputs(connection);
+      runningMagics.get(connection)?.abort();
       try {
         runtime.cancel();
       } catch (err) {
@@ -371,12 +469,128 @@ const handleKernelMessage = async ({
   }
 };
 
+const handleCompleteRequest = async (
+  connection: WebSocket,
+  message: KernelCompleteRequest,
+  runtime: WorkerClient
+) => {
+  const result = await runtime
+    .complete({ code: message.code, cursorPos: message.cursorPos })
+    .catch(() => null);
+  sendMessage(connection, {
+    type: "complete_reply",
+    requestId: message.requestId,
+    matches: result?.matches ?? [],
+    cursorStart: result?.cursorStart ?? message.cursorPos,
+    cursorEnd: result?.cursorEnd ?? message.cursorPos,
+  });
+};
+
+const handleInspectRequest = async (
+  connection: WebSocket,
+  message: KernelInspectRequest,
+  runtime: WorkerClient
+) => {
+  const result = await runtime
+    .inspect({ code: message.code, cursorPos: message.cursorPos })
+    .catch(() => null);
+  sendMessage(connection, {
+    type: "inspect_reply",
+    requestId: message.requestId,
+    found: result?.found ?? false,
+    name: result?.name,
+    valueType: result?.valueType,
+    preview: result?.preview,
+  });
+};
+
+const handleVariablesRequest = async (
+  connection: WebSocket,
+  runtime: WorkerClient
+) => {
+  const result = await runtime.listVariables().catch(() => null);
+  sendMessage(connection, {
+    type: "variables_reply",
+    variables: result?.variables ?? [],
+  });
+};
+
+const handleDeleteVariableRequest = async (
+  connection: WebSocket,
+  message: KernelDeleteVariableRequest,
+  runtime: WorkerClient,
+  session: NotebookSession
+) => {
+  // Drop it from the snapshot too, or the next run would inject it again
+  const snapshot = getSessionGlobals(session.id);
+  if (snapshot && message.name in snapshot) {
+    const next = { ...snapshot };
+    delete next[message.name];
+    setSessionGlobals(session.id, next);
+  }
+  const result = await runtime.deleteVariable(message.name).catch(() => null);
+  sendMessage(connection, {
+    type: "variables_reply",
+    variables: result?.variables ?? [],
+  });
+};
+
+const requestInput = (
+  connection: WebSocket,
+  cellId: string,
+  request: { prompt: string; password: boolean }
+) =>
+  new Promise<string | null>((resolve) => {
+    if (connection.readyState !== WebSocket.OPEN) {
+      resolve(null);
+      return;
+    }
+    let pending = pendingInputs.get(connection);
+    if (!pending) {
+      pending = new Map();
+      pendingInputs.set(connection, pending);
+    }
+    const requestId = randomUUID();
+    pending.set(requestId, resolve);
+    sendMessage(connection, {
+      type: "input_request",
+      cellId,
+      requestId,
+      prompt: request.prompt,
+      password: request.password,
+    });
+  });
+
+const resolveInput = (connection: WebSocket, reply: KernelInputReply) => {
+  const pending = pendingInputs.get(connection);
+  const resolve = pending?.get(reply.requestId);
+  if (!pending || !resolve) {
+    return;
+  }
+  pending.delete(reply.requestId);
+  resolve(reply.cancelled ? null : reply.value);
+};
+
+const cancelPendingInputs = (connection: WebSocket) => {
+  const pending = pendingInputs.get(connection);
+  if (!pending) {
+    return;
+  }
+  for (const resolve of pending.values()) {
+    resolve(null);
+  }
+  pending.clear();
+};
+
 interface ExecuteArgs {
   connection: WebSocket;
   message: KernelExecuteRequest;
   runtime: WorkerClient;
   session: NotebookSession;
   store: NotebookStore;
+  getPluginMagics?: () => Promise<MagicDefinition[]>;
+  getSecrets?: (notebook: Notebook) => Promise<Record<string, string>>;
+  getProjectDefaults?: (notebook: Notebook) => Promise<ProjectDefaults | null>;
 }
 
 const handleExecuteRequest = async ({
@@ -385,6 +599,9 @@ const handleExecuteRequest = async ({
   runtime,
   session,
   store,
+  getPluginMagics,
+  getSecrets,
+  getProjectDefaults,
 }: ExecuteArgs) => {
   const notebook = await store.get(session.notebookId);
   if (!notebook) {
@@ -410,6 +627,11 @@ const handleExecuteRequest = async ({
     return;
   }
 
+  // Project defaults only apply to the run; the notebook is saved without them
+  const env = mergeProjectEnv(
+    notebook.env,
+    await getProjectDefaults?.(notebook)
+  );
   const codeCell = cell as CodeCell;
   const runnableCell: CodeCell = {
     ...codeCell,
@@ -434,44 +656,154 @@ const handleExecuteRequest = async ({
       status: "ok" | "error" | "aborted";
     };
     globals?: Record<string, unknown>;
+    dependencies?: CellDependencies;
+    source?: string;
   } | null = null;
+  const segments = parseMagics(message.code);
+  // Magic lines are not TypeScript; cell magics are not checked at all
+  const checkedCode = segments
+    ? stripMagics(message.code, segments)
+    : message.code;
   try {
     const cfg = loadServerConfig();
     const effectiveTimeoutMs = message.timeoutMs ?? cfg.kernelTimeoutMs;
+    // Strict notebooks refuse to run TS cells that do not type-check
+    if (
+      notebook.strict &&
+      runnableCell.language === "ts" &&
+      checkedCode !== null
+    ) {
+      const started = Date.now();
+      const refuse = (output: {
+        type: "error";
+        ename: string;
+        evalue: string;
+        traceback: string[];
+      }) => ({
+        outputs: [output],
+        execution: {
+          started,
+          ended: Date.now(),
+          status: "error" as const,
+        },
+        // Nothing ran, so the kernel state is unchanged
+        globals: getSessionGlobals(session.id) ?? {},
+        dependencies: codeCell.metadata?.dependencies,
+      });
+      try {
+        const diagnostics = await typeCheckCellInWorker(
+          { ...notebook, env },
+          cell.id,
+          checkedCode,
+          effectiveTimeoutMs
+        );
+        sendMessage(connection, {
+          type: "diagnostics",
+          cellId: cell.id,
+          diagnostics,
+        });
+        if (diagnostics.some((item) => item.severity === "error")) {
+          result = refuse(createTypeCheckError(cell.id, diagnostics));
+        }
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        result = refuse({
+          type: "error",
+          ename: "TypeCheckError",
+          evalue: err.message,
+          traceback: [],
+        });
+      }
+    }
     // Touch the pool so per-job defaults stay in sync with latest config
     void getWorkerPool();
-    result = await runtime.execute({
-      cell: runnableCell,
-      code: message.code,
-      notebookId: notebook.id,
-      env: notebook.env,
-      timeoutMs: effectiveTimeoutMs,
-      globals: message.globals,
-      onStream: (stream: {
-        type: "stream";
-        name: "stdout" | "stderr";
-        text: string;
-      }) => {
-        sendMessage(connection, { ...stream, cellId: cell.id });
-      },
-      onDisplay: (display) => {
-        // Stream UI displays as they are emitted
-        const enriched = {
-          ...display,
-          metadata: {
-            ...display.metadata,
-            __serverSentAt: Date.now(),
-          },
-        };
-        sendMessage(connection, { ...enriched, cellId: cell.id });
-      },
+    const secrets = await getSecrets?.(notebook);
+    const redact = createRedactor({
+      values: collectSensitiveValues({
+        ...resolveSessionEnv(session.id, env),
+        secrets,
+      }),
+      patterns: cfg.redactionPatterns,
     });
+    const execute = (code: string) =>
+      runtime.execute({
+        cell: runnableCell,
+        code,
+        notebookId: notebook.id,
+        env: {
+          ...resolveSessionEnv(session.id, env),
+          secrets,
+          redactionPatterns: cfg.redactionPatterns,
+        },
+        timeoutMs: effectiveTimeoutMs,
+        globals: message.globals,
+        onStream: (stream: {
+          type: "stream";
+          name: "stdout" | "stderr";
+          text: string;
+        }) => {
+          sendMessage(connection, { ...stream, cellId: cell.id });
+        },
+        onDisplay: (display) => {
+          // Stream UI displays as they are emitted
+          const enriched = {
+            ...display,
+            metadata: {
+              ...display.metadata,
+              __serverSentAt: Date.now(),
+            },
+          };
+          sendMessage(connection, { ...enriched, cellId: cell.id });
+        },
+        onInput: (request) => requestInput(connection, cell.id, request),
+        debug: message.debug
+          ? {
+              breakpoints: message.debug.breakpoints,
+              onPaused: ({ reason, frames }) => {
+                sendMessage(connection, {
+                  type: "debug_paused",
+                  cellId: cell.id,
+                  reason,
+                  frames,
+                });
+              },
+              onResumed: () => {
+                sendMessage(connection, {
+                  type: "debug_resumed",
+                  cellId: cell.id,
+                });
+              },
+            }
+          : undefined,
+      });
+    if (!result && segments) {
+      result = await runCellMagics({
+        connection,
+        notebook: { ...notebook, env },
+        cell: runnableCell,
+        session,
+        runtime,
+        segments,
+        execute,
+        redact,
+        getPluginMagics,
+      });
+    }
+    result ??= await execute(message.code);
     // Ensure globals are always present, even if runtime didn't return them
     if (result.globals === undefined) {
       result.globals = {};
     }
   } catch (e) {
-    void e;
+    if (e instanceof KernelLimitError) {
+      sendMessage(connection, {
+        type: "error",
+        cellId: cell.id,
+        ename: e.name,
+        evalue: e.message,
+        traceback: [],
+      });
+    }
     // Treat cancellations as aborted without tearing down the session context
     sendMessage(connection, {
       type: "execute_reply",
@@ -519,17 +851,32 @@ const handleExecuteRequest = async ({
     status: result.execution.status,
     execTimeMs: result.execution.ended - result.execution.started,
     globals: globalsPayload,
+    dependencies: result.dependencies,
   });
 
+  if (result.source !== undefined) {
+    sendMessage(connection, {
+      type: "cell_source",
+      cellId: cell.id,
+      source: result.source,
+    });
+  }
+
   sendMessage(connection, { type: "status", state: "idle" });
 
+  const dependencies = result.dependencies;
+  const lockedEnv = await captureInstalledLockfile(notebook, env.packages);
   await store.save({
     ...notebook,
+    ...(lockedEnv ? { env: lockedEnv } : {}),
     cells: notebook.cells.map((item) =>
       item.id === cell.id
         ? {
             ...item,
-            source: message.code,
+            metadata: dependencies
+              ? { ...(item.metadata ?? {}), dependencies }
+              : item.metadata,
+            source: result.source ?? message.code,
             outputs: result.outputs as unknown as NotebookOutput[],
             execution: result.execution as unknown as OutputExecution,
             language: runnableCell.language,
@@ -539,12 +886,68 @@ const handleExecuteRequest = async ({
   });
 };
 
+interface CellMagicsArgs {
+  connection: WebSocket;
+  notebook: Notebook;
+  cell: CodeCell;
+  session: NotebookSession;
+  runtime: WorkerClient;
+  segments: NonNullable<ReturnType<typeof parseMagics>>;
+  execute: (code: string) => ReturnType<WorkerClient["execute"]>;
+  redact: Redactor;
+  getPluginMagics?: () => Promise<MagicDefinition[]>;
+}
+
+const runCellMagics = async ({
+  connection,
+  notebook,
+  cell,
+  session,
+  runtime,
+  segments,
+  execute,
+  redact,
+  getPluginMagics,
+}: CellMagicsArgs) => {
+  const controller = new AbortController();
+  runningMagics.set(connection, controller);
+  try {
+    const pluginMagics = (await getPluginMagics?.().catch(() => [])) ?? [];
+    const result = await runMagics(segments, {
+      notebookId: notebook.id,
+      cellId: cell.id,
+      language: cell.language,
+      workspaceDir: path.join(os.tmpdir(), "nodebooks-runtime", notebook.id),
+      signal: controller.signal,
+      magics: [...builtinMagics, ...pluginMagics],
+      execute,
+      listVariables: async () =>
+        (await runtime.listVariables())?.variables ?? [],
+      getEnv: () => ({
+        ...resolveSessionEnv(session.id, notebook.env).variables,
+      }),
+      setEnv: (name, value) => setSessionEnv(session.id, name, value),
+      redact,
+      onStream: (stream) => {
+        sendMessage(connection, { ...stream, cellId: cell.id });
+      },
+    });
+    // Magics that never reached the kernel leave its globals as they were
+    result.globals ??= getSessionGlobals(session.id) ?? {};
+    return result;
+  } finally {
+    runningMagics.delete(connection);
+  }
+};
+
 interface UiEventArgs {
   connection: WebSocket;
   message: KernelUiEventRequest;
   runtime: WorkerClient;
   session: NotebookSession;
   store: NotebookStore;
+  getSecrets?: (notebook: Notebook) => Promise<Record<string, string>>;
+  getProjectDefaults?: (notebook: Notebook) => Promise<ProjectDefaults | null>;
 }
 
 const handleUiEvent = async ({
@@ -553,6 +956,8 @@ const handleUiEvent = async ({
   runtime,
   session,
   store,
+  getSecrets,
+  getProjectDefaults,
 }: UiEventArgs) => {
   const notebook = await store.get(session.notebookId);
   if (!notebook) {
@@ -602,7 +1007,14 @@ const handleUiEvent = async ({
     result = await runtime.invokeInteraction({
       handlerId: message.handlerId,
       notebookId: notebook.id,
-      env: notebook.env,
+      env: {
+        ...resolveSessionEnv(
+          session.id,
+          mergeProjectEnv(notebook.env, await getProjectDefaults?.(notebook))
+        ),
+        secrets: await getSecrets?.(notebook),
+        redactionPatterns: cfg.redactionPatterns,
+      },
       event: message.event,
       payload: message.payload,
       componentId: message.componentId,
@@ -658,16 +1070,35 @@ const handleUiEvent = async ({
   }
 };
 
-const ensureRuntime = (sessionId: string) => {
+// Sticky kernels are keyed by notebook and user rather than by session, so
+// the new session a reload opens picks up the kernel the closed one left
+// running instead of starting another process.
+const ensureRuntime = (sessionId: string, kernelKey: string) => {
   const pool = getWorkerPool();
   let runtime = runtimes.get(sessionId);
   if (!runtime) {
-    runtime = new WorkerClient(pool);
+    runtime =
+      loadServerConfig().kernelMode === "sticky"
+        ? new WorkerClient(pool, { kernelKey })
+        : new WorkerClient(pool);
     runtimes.set(sessionId, runtime);
   }
   return runtime;
 };
 
+// Stops the worker backing a session and forgets its globals.
+export const disposeSessionRuntime = (sessionId: string) => {
+  const runtime = runtimes.get(sessionId);
+  try {
+    runtime?.release();
+  } catch (err) {
+    void err;
+  }
+  runtimes.delete(sessionId);
+  sessionGlobals.delete(sessionId);
+  sessionEnv.delete(sessionId);
+};
+
 const sendMessage = (connection: WebSocket, message: KernelServerMessage) => {
   if (connection.readyState === WebSocket.OPEN) {
     connection.send(JSON.stringify(message));
@@ -5,12 +5,37 @@ let pool: WorkerPool | null = null;
 let lastTimeoutMs: number | null = null;
 
 export const getWorkerPool = () => {
-  const { kernelTimeoutMs } = loadServerConfig();
+  const { kernelTimeoutMs, kernelMaxProcesses, kernelIdleTimeoutMs } =
+    loadServerConfig();
   if (!pool) {
-    pool = new WorkerPool({ perJobTimeoutMs: kernelTimeoutMs });
+    pool = new WorkerPool({
+      perJobTimeoutMs: kernelTimeoutMs,
+      maxKernels: kernelMaxProcesses,
+      kernelIdleMs: kernelIdleTimeoutMs,
+    });
   } else if (lastTimeoutMs !== kernelTimeoutMs) {
     pool.setPerJobTimeoutMs(kernelTimeoutMs);
   }
   lastTimeoutMs = kernelTimeoutMs;
   return pool;
 };
+
+let appPool: WorkerPool | null = null;
+
+// Notebook apps get their own pool so API traffic cannot evict the kernels
+// of people working in the editor.
+export const getAppWorkerPool = () => {
+  const { kernelTimeoutMs, kernelMaxProcesses } = loadServerConfig();
+  if (!appPool) {
+    appPool = new WorkerPool({
+      size: 1,
+      perJobTimeoutMs: kernelTimeoutMs,
+      maxKernels: kernelMaxProcesses,
+      // Every app request runs in a fresh kernel that is released right away
+      kernelIdleMs: 0,
+    });
+  } else {
+    appPool.setPerJobTimeoutMs(kernelTimeoutMs);
+  }
+  return appPool;
+};
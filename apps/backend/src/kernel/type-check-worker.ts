@@ -0,0 +1,28 @@
+import { parentPort } from "node:worker_threads";
+import {
+  typeCheckCell,
+  type TypeCheckRequest,
+  type TypeCheckResponse,
+} from "./type-check.js";
+
+// Entry of the thread behind `typeCheckCellInWorker`; requests are handled
+// one at a time, in the order they arrive
+parentPort?.on("message", (request: TypeCheckRequest) => {
+  let response: TypeCheckResponse;
+  try {
+    response = {
+      id: request.id,
+      diagnostics: typeCheckCell(
+        request.notebook,
+        request.cellId,
+        request.code
+      ),
+    };
+  } catch (error) {
+    response = {
+      id: request.id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  parentPort?.postMessage(response);
+});
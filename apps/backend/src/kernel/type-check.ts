@@ -0,0 +1,406 @@
+import { statSync } from "node:fs";
+import { createRequire } from "node:module";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Worker } from "node:worker_threads";
+import ts from "typescript";
+import {
+  formatCellLocation,
+  type CodeCell,
+  type KernelDiagnostic,
+  type Notebook,
+} from "@nodebooks/notebook-schema";
+
+const { uiHelpersModuleDts } =
+  await import("@nodebooks/ui-runtime/runtime/ui-helpers-dts");
+
+const RUNTIME_WORKSPACE_ROOT = path.join(os.tmpdir(), "nodebooks-runtime");
+const MAX_SERVICES = 8;
+const ENTRY_FILE = "__nodebooks_typecheck__.ts";
+const GLOBALS_FILE = "__nodebooks_globals__.d.ts";
+const IDENTIFIER_RE = /^[A-Za-z_$][\w$]*$/;
+// Redeclarations are expected when cells are re-run, and untyped packages
+// are plain `any` rather than a mistake in the cell
+const IGNORED_CODES = new Set([2300, 2393, 2440, 2451, 7016]);
+const MISSING_MODULE_CODES = new Set([2307, 2792]);
+
+const require = createRequire(import.meta.url);
+// Fallback @types/node for sandboxes that have not installed their own
+const BUNDLED_TYPE_ROOT = path.dirname(
+  path.dirname(require.resolve("@types/node/package.json"))
+);
+
+const PROMPT_DECLARATION =
+  "declare function prompt(message?: string, options?: { password?: boolean }): Promise<string | null>;";
+
+interface VirtualFile {
+  text: string;
+  version: number;
+}
+
+interface TypeCheckService {
+  service: ts.LanguageService;
+  files: Map<string, VirtualFile>;
+  nodeModulesStamp: number;
+}
+
+const services = new Map<string, TypeCheckService>();
+const documentRegistry = ts.createDocumentRegistry();
+
+const getSandboxDir = (notebookId: string) =>
+  path.join(RUNTIME_WORKSPACE_ROOT, notebookId);
+
+const getMtime = (file: string) => {
+  try {
+    return statSync(file).mtimeMs;
+  } catch {
+    return 0;
+  }
+};
+
+const createCompilerOptions = (sandboxDir: string): ts.CompilerOptions => ({
+  strict: true,
+  noEmit: true,
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  lib: ["lib.es2022.d.ts"],
+  types: ["node"],
+  typeRoots: [
+    path.join(sandboxDir, "node_modules", "@types"),
+    BUNDLED_TYPE_ROOT,
+  ],
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+  resolveJsonModule: true,
+  skipLibCheck: true,
+  allowJs: false,
+});
+
+const createService = (notebookId: string): TypeCheckService => {
+  const sandboxDir = getSandboxDir(notebookId);
+  const files = new Map<string, VirtualFile>();
+  const options = createCompilerOptions(sandboxDir);
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => options,
+    getScriptFileNames: () => Array.from(files.keys()),
+    getScriptVersion: (fileName) => {
+      const file = files.get(fileName);
+      return file ? String(file.version) : String(getMtime(fileName));
+    },
+    getScriptSnapshot: (fileName) => {
+      const file = files.get(fileName);
+      if (file) {
+        return ts.ScriptSnapshot.fromString(file.text);
+      }
+      const text = ts.sys.readFile(fileName);
+      return text === undefined
+        ? undefined
+        : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => sandboxDir,
+    getDefaultLibFileName: (compilerOptions) =>
+      ts.getDefaultLibFilePath(compilerOptions),
+    fileExists: (fileName) =>
+      files.has(fileName) || ts.sys.fileExists(fileName),
+    readFile: (fileName) =>
+      files.get(fileName)?.text ?? ts.sys.readFile(fileName),
+    readDirectory: ts.sys.readDirectory,
+    directoryExists: ts.sys.directoryExists,
+    getDirectories: ts.sys.getDirectories,
+    realpath: ts.sys.realpath,
+  };
+  return {
+    service: ts.createLanguageService(host, documentRegistry),
+    files,
+    nodeModulesStamp: getMtime(path.join(sandboxDir, "node_modules")),
+  };
+};
+
+const acquireService = (notebookId: string): TypeCheckService => {
+  const stamp = getMtime(path.join(getSandboxDir(notebookId), "node_modules"));
+  let entry = services.get(notebookId);
+  // Installs change what resolves; start over rather than trust stale lookups
+  if (entry && entry.nodeModulesStamp !== stamp) {
+    entry.service.dispose();
+    services.delete(notebookId);
+    entry = undefined;
+  }
+  if (entry) {
+    services.delete(notebookId);
+  } else {
+    entry = createService(notebookId);
+  }
+  services.set(notebookId, entry);
+  while (services.size > MAX_SERVICES) {
+    const oldest = services.keys().next().value as string;
+    services.get(oldest)?.service.dispose();
+    services.delete(oldest);
+  }
+  return entry;
+};
+
+const writeFile = (entry: TypeCheckService, fileName: string, text: string) => {
+  const current = entry.files.get(fileName);
+  if (current?.text === text) {
+    return;
+  }
+  entry.files.set(fileName, { text, version: (current?.version ?? 0) + 1 });
+};
+
+const buildGlobalsDeclarations = (priorCells: CodeCell[]) => {
+  const names = new Set<string>();
+  for (const cell of priorCells) {
+    if (cell.language !== "js") {
+      continue;
+    }
+    for (const name of cell.metadata?.dependencies?.defines ?? []) {
+      if (IDENTIFIER_RE.test(name)) {
+        names.add(name);
+      }
+    }
+  }
+  return [
+    PROMPT_DECLARATION,
+    ...Array.from(names, (name) => `declare var ${name}: any;`),
+    uiHelpersModuleDts,
+  ].join("\n");
+};
+
+const toPackageName = (specifier: string) => {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0]!;
+};
+
+const flattenMessage = (message: string | ts.DiagnosticMessageChain) =>
+  ts.flattenDiagnosticMessageText(message, "\n");
+
+const toSeverity = (
+  category: ts.DiagnosticCategory
+): KernelDiagnostic["severity"] => {
+  if (category === ts.DiagnosticCategory.Error) {
+    return "error";
+  }
+  if (category === ts.DiagnosticCategory.Warning) {
+    return "warning";
+  }
+  return "info";
+};
+
+/**
+ * Type-checks `code` as the body of `cellId`, with every earlier TypeScript
+ * cell in scope. Only diagnostics inside the cell are returned, positioned
+ * relative to it (1-based).
+ */
+export const typeCheckCell = (
+  notebook: Notebook,
+  cellId: string,
+  code: string
+): KernelDiagnostic[] => {
+  const index = notebook.cells.findIndex((cell) => cell.id === cellId);
+  const priorCells = notebook.cells
+    .slice(0, Math.max(index, 0))
+    .filter((cell): cell is CodeCell => cell.type === "code");
+
+  const prelude = priorCells
+    .filter((cell) => cell.language === "ts")
+    .map((cell) => `${cell.source}\n;\n`)
+    .join("");
+  const entry = acquireService(notebook.id);
+  const sandboxDir = getSandboxDir(notebook.id);
+  const entryFile = path.join(sandboxDir, ENTRY_FILE);
+  writeFile(entry, entryFile, `${prelude}${code}\n;\nexport {};\n`);
+  writeFile(
+    entry,
+    path.join(sandboxDir, GLOBALS_FILE),
+    buildGlobalsDeclarations(priorCells)
+  );
+
+  const program = entry.service.getProgram();
+  const sourceFile = program?.getSourceFile(entryFile);
+  if (!sourceFile) {
+    return [];
+  }
+  const cellStart = prelude.length;
+  const cellEnd = cellStart + code.length;
+  const startLine = sourceFile.getLineAndCharacterOfPosition(cellStart).line;
+  // Packages from the notebook env are installed right before the run
+  const pendingPackages = new Set(Object.keys(notebook.env.packages ?? {}));
+
+  const diagnostics = [
+    ...entry.service.getSyntacticDiagnostics(entryFile),
+    ...entry.service.getSemanticDiagnostics(entryFile),
+  ];
+  const results: KernelDiagnostic[] = [];
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.start === undefined || IGNORED_CODES.has(diagnostic.code)) {
+      continue;
+    }
+    if (diagnostic.start < cellStart || diagnostic.start > cellEnd) {
+      continue;
+    }
+    const message = flattenMessage(diagnostic.messageText);
+    if (MISSING_MODULE_CODES.has(diagnostic.code)) {
+      const specifier = /'([^']+)'/.exec(message)?.[1];
+      if (specifier && pendingPackages.has(toPackageName(specifier))) {
+        continue;
+      }
+    }
+    const start = sourceFile.getLineAndCharacterOfPosition(diagnostic.start);
+    const end = sourceFile.getLineAndCharacterOfPosition(
+      Math.min(diagnostic.start + (diagnostic.length ?? 0), cellEnd)
+    );
+    results.push({
+      line: start.line - startLine + 1,
+      column: start.character + 1,
+      endLine: end.line - startLine + 1,
+      endColumn: end.character + 1,
+      message,
+      code: diagnostic.code,
+      severity: toSeverity(diagnostic.category),
+    });
+  }
+  return results;
+};
+
+export interface TypeCheckRequest {
+  id: number;
+  notebook: Notebook;
+  cellId: string;
+  code: string;
+}
+
+export type TypeCheckResponse =
+  | { id: number; diagnostics: KernelDiagnostic[] }
+  | { id: number; error: string };
+
+// Building a program for a notebook can take seconds; run it off the main
+// loop so other connections keep being served
+const WORKER_EXTENSION = path.extname(fileURLToPath(import.meta.url));
+const WORKER_URL = new URL(
+  `./type-check-worker${WORKER_EXTENSION}`,
+  import.meta.url
+);
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingChecks = new Map<
+  number,
+  {
+    resolve: (diagnostics: KernelDiagnostic[]) => void;
+    reject: (error: Error) => void;
+  }
+>();
+
+// Pending checks all belong to the current thread, so they fail with it
+const retireWorker = (target: Worker, error: Error) => {
+  if (worker !== target) {
+    return;
+  }
+  worker = null;
+  for (const { reject } of pendingChecks.values()) {
+    reject(error);
+  }
+  pendingChecks.clear();
+  void target.terminate();
+};
+
+const getWorker = () => {
+  if (worker) {
+    return worker;
+  }
+  // tsx does not carry its loader into threads, so from source the thread
+  // registers it before loading the entry
+  const created =
+    WORKER_EXTENSION === ".ts"
+      ? new Worker(
+          `import(${JSON.stringify(import.meta.resolve("tsx/esm/api"))})
+            .then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); });`,
+          { eval: true }
+        )
+      : new Worker(WORKER_URL);
+  const fail = (error: Error) => retireWorker(created, error);
+  created.on("message", (response: TypeCheckResponse) => {
+    const pending = pendingChecks.get(response.id);
+    pendingChecks.delete(response.id);
+    if (pendingChecks.size === 0) {
+      created.unref();
+    }
+    if (!pending) {
+      return;
+    }
+    if ("error" in response) {
+      pending.reject(new Error(response.error));
+    } else {
+      pending.resolve(response.diagnostics);
+    }
+  });
+  created.on("error", fail);
+  created.on("exit", (code) => {
+    fail(new Error(`Type-check worker exited with code ${code}`));
+  });
+  worker = created;
+  return created;
+};
+
+/**
+ * {@link typeCheckCell} on a shared worker thread, which keeps the language
+ * services (and their programs) of recently checked notebooks warm. Rejects
+ * after `timeoutMs` and replaces the thread, which is likely wedged.
+ */
+export const typeCheckCellInWorker = (
+  notebook: Notebook,
+  cellId: string,
+  code: string,
+  timeoutMs?: number
+) =>
+  new Promise<KernelDiagnostic[]>((resolve, reject) => {
+    const target = getWorker();
+    const id = ++nextRequestId;
+    const timer =
+      timeoutMs === undefined
+        ? null
+        : setTimeout(() => {
+            pendingChecks.delete(id);
+            reject(new Error(`Type check timed out after ${timeoutMs}ms`));
+            retireWorker(target, new Error("Type-check worker was restarted"));
+          }, timeoutMs);
+    pendingChecks.set(id, {
+      resolve: (diagnostics) => {
+        if (timer) clearTimeout(timer);
+        resolve(diagnostics);
+      },
+      reject: (error) => {
+        if (timer) clearTimeout(timer);
+        reject(error);
+      },
+    });
+    // Only hold the process open while a check is outstanding
+    target.ref();
+    target.postMessage({
+      id,
+      notebook,
+      cellId,
+      code,
+    } satisfies TypeCheckRequest);
+  });
+
+export const createTypeCheckError = (
+  cellId: string,
+  diagnostics: KernelDiagnostic[]
+) => {
+  const errors = diagnostics.filter((item) => item.severity === "error");
+  return {
+    type: "error" as const,
+    ename: "TypeCheckError",
+    evalue:
+      errors.length === 1
+        ? "Found 1 type error"
+        : `Found ${errors.length} type errors`,
+    traceback: errors.map(
+      (item) =>
+        `${formatCellLocation({ cellId, language: "ts", line: item.line, column: item.column })} - error TS${item.code}: ${item.message}`
+    ),
+  };
+};
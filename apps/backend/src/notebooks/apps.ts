@@ -0,0 +1,203 @@
+import type {
+  MagicDefinition,
+  ProjectDefaultsResolver,
+} from "@nodebooks/cell-plugin-api";
+import {
+  NODEBOOKS_UI_MIME,
+  UiResponseSchema,
+  type CodeCell,
+  type Notebook,
+  type NotebookApp,
+  type NotebookOutput,
+} from "@nodebooks/notebook-schema";
+import type { WorkerPool } from "@nodebooks/runtime-host";
+import type { NotebookStore } from "../types.js";
+import { isAppTokenValid } from "../auth/app-token.js";
+import type { SecretsService } from "../secrets/service.js";
+import { runNotebook } from "./runner.js";
+
+export class NotebookAppBusyError extends Error {
+  constructor(limit: number) {
+    super(
+      `This app is already handling ${limit} request${limit === 1 ? "" : "s"}. Try again shortly.`
+    );
+    this.name = "NotebookAppBusyError";
+  }
+}
+
+export interface NotebookAppResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export const findNotebookApp = async (store: NotebookStore, slug: string) => {
+  const notebook = await store.getByAppSlug(slug);
+  return notebook?.app?.enabled && notebook.app.slug === slug ? notebook : null;
+};
+
+// Accepts `Authorization: Bearer <token>` or an `x-nodebooks-token` header
+export const readAppToken = (
+  headers: Record<string, string | string[] | undefined>
+) => {
+  const authorization = headers.authorization;
+  if (typeof authorization === "string") {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+    if (match) {
+      return match[1]!;
+    }
+  }
+  const header = headers["x-nodebooks-token"];
+  return typeof header === "string" && header.length > 0 ? header : null;
+};
+
+export const isAppRequestAuthorized = (
+  app: NotebookApp,
+  token: string | null
+) => {
+  if (app.auth === "public") {
+    return true;
+  }
+  if (!token || !app.tokenHash) {
+    return false;
+  }
+  return isAppTokenValid(token, app.tokenHash);
+};
+
+const outputToBody = (output: NotebookOutput): unknown => {
+  if (output.type === "stream") {
+    return output.text;
+  }
+  if (output.type === "error") {
+    return { error: `${output.ename}: ${output.evalue}` };
+  }
+  const ui = output.data[NODEBOOKS_UI_MIME] as
+    | { ui?: unknown; json?: unknown }
+    | undefined;
+  if (ui && typeof ui === "object") {
+    return ui.ui === "json" ? ui.json : ui;
+  }
+  if ("application/json" in output.data) {
+    return output.data["application/json"];
+  }
+  return output.data["text/plain"] ?? output.data;
+};
+
+/**
+ * Builds the HTTP response from a finished app run. A `respond()` display
+ * anywhere in the notebook wins (the last one if several cells call it);
+ * otherwise the last output of the app's output cell, or of the last code
+ * cell that produced any, becomes a 200 response.
+ */
+export const extractAppResponse = (
+  notebook: Notebook,
+  app: Pick<NotebookApp, "outputCellId">
+): NotebookAppResponse => {
+  const cells = notebook.cells.filter(
+    (cell): cell is CodeCell => cell.type === "code"
+  );
+
+  let explicit: NotebookAppResponse | null = null;
+  for (const cell of cells) {
+    for (const output of cell.outputs) {
+      if (output.type !== "display_data" && output.type !== "execute_result") {
+        continue;
+      }
+      const parsed = UiResponseSchema.safeParse(output.data[NODEBOOKS_UI_MIME]);
+      if (parsed.success) {
+        explicit = {
+          status: parsed.data.status,
+          headers: parsed.data.headers ?? {},
+          body: parsed.data.body,
+        };
+      }
+    }
+  }
+  if (explicit) {
+    return explicit;
+  }
+
+  const source = app.outputCellId
+    ? cells.find((cell) => cell.id === app.outputCellId)
+    : [...cells].reverse().find((cell) => cell.outputs.length > 0);
+  const outputs = source?.outputs ?? [];
+  const last = [...outputs]
+    .reverse()
+    .find((output) => output.type !== "stream");
+  if (last) {
+    return { status: 200, headers: {}, body: outputToBody(last) };
+  }
+  const text = outputs
+    .map((output) => (output.type === "stream" ? output.text : ""))
+    .join("");
+  return text
+    ? { status: 200, headers: {}, body: text }
+    : { status: 204, headers: {}, body: null };
+};
+
+export interface NotebookAppRunnerOptions {
+  getPool: () => WorkerPool;
+  getMagics?: () => Promise<MagicDefinition[]>;
+  secrets?: SecretsService;
+  resolveProjectDefaults?: ProjectDefaultsResolver;
+}
+
+/**
+ * Runs notebook apps, each request in a fresh kernel, and keeps every app
+ * within its `maxConcurrency`. Requests over the limit are turned away with
+ * a `NotebookAppBusyError` rather than queued.
+ */
+export class NotebookAppRunner {
+  private readonly inFlight = new Map<string, number>();
+
+  constructor(private readonly options: NotebookAppRunnerOptions) {}
+
+  activeRequests(notebookId: string) {
+    return this.inFlight.get(notebookId) ?? 0;
+  }
+
+  async run(
+    notebook: Notebook & { app: NotebookApp },
+    parameters: Record<string, unknown>
+  ): Promise<NotebookAppResponse> {
+    const { app } = notebook;
+    const active = this.activeRequests(notebook.id);
+    if (active >= app.maxConcurrency) {
+      throw new NotebookAppBusyError(app.maxConcurrency);
+    }
+    this.inFlight.set(notebook.id, active + 1);
+    try {
+      const result = await runNotebook(notebook, {
+        pool: this.options.getPool(),
+        timeoutMs: app.timeoutMs,
+        magics: await this.options.getMagics?.(),
+        parameters,
+        secrets: await this.options.secrets?.resolve(notebook),
+        projectDefaults: await this.options.resolveProjectDefaults?.(notebook),
+      });
+      const failed = result.cells.find(
+        (cell) => cell.status === "error" || cell.status === "aborted"
+      );
+      if (failed) {
+        return {
+          status: 500,
+          headers: {},
+          body: {
+            error: failed.error
+              ? `${failed.error.ename}: ${failed.error.evalue}`
+              : `Cell ${failed.index + 1} ${failed.status}`,
+            cellId: failed.cellId,
+          },
+        };
+      }
+      return extractAppResponse(result.notebook, app);
+    } finally {
+      const remaining = this.activeRequests(notebook.id) - 1;
+      if (remaining > 0) {
+        this.inFlight.set(notebook.id, remaining);
+      } else {
+        this.inFlight.delete(notebook.id);
+      }
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import type { MarkdownCell, Notebook } from "@nodebooks/notebook-schema";
+
+// Markdown embeds attachments through their content URL,
+// `<api base>/notebooks/<notebookId>/attachments/<attachmentId>/content`
+const ATTACHMENT_URL =
+  /[^\s()"'<>]*\/notebooks\/([^/\s()"'<>]+)\/attachments\/([^/\s()"'<>]+)\/content/g;
+
+export interface AttachmentContent {
+  filename: string;
+  mimeType: string;
+  content: Uint8Array;
+}
+
+// Ids of the notebook's own attachments its markdown links to
+export const findMarkdownAttachmentIds = (notebook: Notebook) => {
+  const ids = new Set<string>();
+  for (const cell of notebook.cells) {
+    if (cell.type !== "markdown") {
+      continue;
+    }
+    const { source } = cell as MarkdownCell;
+    for (const match of source.matchAll(ATTACHMENT_URL)) {
+      if (decodeURIComponent(match[1]!) === notebook.id) {
+        ids.add(decodeURIComponent(match[2]!));
+      }
+    }
+  }
+  return Array.from(ids);
+};
+
+// Rewrites links to the notebook's own attachments; links `replace` returns
+// null for are kept
+export const replaceAttachmentLinks = (
+  notebookId: string,
+  source: string,
+  replace: (attachmentId: string) => string | null
+) =>
+  source.replace(ATTACHMENT_URL, (match, owner: string, id: string) =>
+    decodeURIComponent(owner) === notebookId
+      ? (replace(decodeURIComponent(id)) ?? match)
+      : match
+  );
@@ -200,6 +200,30 @@ export class NotebookCollaborationService {
     };
   }
 
+  /**
+   * Replaces the shared copy of a notebook that changed outside the editor,
+   * e.g. its file was edited on disk. Unsaved edits are dropped in favour of
+   * the new version and open sessions receive it as fresh state.
+   */
+  reload(notebook: Notebook) {
+    const state = this.states.get(notebook.id);
+    if (!state) {
+      return;
+    }
+    if (state.persistTimer) {
+      clearTimeout(state.persistTimer);
+      state.persistTimer = null;
+    }
+    state.pendingPersist = null;
+    state.version += 1;
+    state.notebook = sanitizeNotebook(notebook);
+    this.broadcast(state, {
+      type: "state",
+      version: state.version,
+      notebook: state.notebook,
+    });
+  }
+
   private async ensureState(notebookId: string): Promise<CollaborationState> {
     let state = this.states.get(notebookId);
     if (!state) {
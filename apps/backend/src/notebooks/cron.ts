@@ -0,0 +1,181 @@
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronExpressionError";
+  }
+}
+
+interface CronField {
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  {
+    min: 1,
+    max: 12,
+    names: [
+      "jan",
+      "feb",
+      "mar",
+      "apr",
+      "may",
+      "jun",
+      "jul",
+      "aug",
+      "sep",
+      "oct",
+      "nov",
+      "dec",
+    ],
+  },
+  // 7 is accepted as Sunday and folded into 0
+  {
+    min: 0,
+    max: 7,
+    names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"],
+  },
+];
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+export interface CronSchedule {
+  matches(date: Date): boolean;
+  /** First matching minute strictly after `from`, or null within a year. */
+  next(from: Date): Date | null;
+}
+
+const parseValue = (raw: string, field: CronField, expression: string) => {
+  const named = field.names?.indexOf(raw.toLowerCase()) ?? -1;
+  if (named >= 0) {
+    return named + field.min;
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new CronExpressionError(`Invalid value "${raw}" in "${expression}"`);
+  }
+  const value = Number(raw);
+  if (value < field.min || value > field.max) {
+    throw new CronExpressionError(
+      `Value ${value} out of range ${field.min}-${field.max} in "${expression}"`
+    );
+  }
+  return value;
+};
+
+const parseField = (
+  source: string,
+  field: CronField,
+  expression: string
+): Set<number> => {
+  const values = new Set<number>();
+  for (const part of source.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!range || !Number.isInteger(step) || step <= 0) {
+      throw new CronExpressionError(
+        `Invalid field "${part}" in "${expression}"`
+      );
+    }
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from ?? "", field, expression);
+      end = parseValue(to ?? "", field, expression);
+      if (start > end) {
+        throw new CronExpressionError(
+          `Invalid range "${range}" in "${expression}"`
+        );
+      }
+    } else {
+      start = parseValue(range, field, expression);
+      end = stepRaw === undefined ? start : field.max;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+};
+
+/**
+ * Parses a standard five-field cron expression (minute, hour, day of month,
+ * month, day of week) or one of the `@daily`-style macros. Times are
+ * evaluated in the server's local timezone.
+ */
+export const parseCronExpression = (expression: string): CronSchedule => {
+  const trimmed = expression.trim();
+  const source = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const parts = source.split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new CronExpressionError(
+      `Expected 5 fields in cron expression "${expression}"`
+    );
+  }
+  const [minutes, hours, days, months, weekdays] = parts.map((part, index) =>
+    parseField(part, FIELDS[index]!, expression)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  // Like classic cron, a restricted day of month and day of week match
+  // when either one does.
+  const daysRestricted = parts[2] !== "*";
+  const weekdaysRestricted = parts[4] !== "*";
+
+  const matchesDay = (date: Date) => {
+    const dayMatch = days.has(date.getDate());
+    const weekdayMatch = weekdays.has(date.getDay());
+    if (daysRestricted && weekdaysRestricted) {
+      return dayMatch || weekdayMatch;
+    }
+    return dayMatch && weekdayMatch;
+  };
+
+  const matches = (date: Date) =>
+    minutes.has(date.getMinutes()) &&
+    hours.has(date.getHours()) &&
+    months.has(date.getMonth() + 1) &&
+    matchesDay(date);
+
+  const next = (from: Date) => {
+    const candidate = new Date(from);
+    candidate.setSeconds(0, 0);
+    candidate.setMinutes(candidate.getMinutes() + 1);
+    const limit = candidate.getTime() + 366 * 24 * 60 * 60 * 1000;
+    while (candidate.getTime() <= limit) {
+      if (!months.has(candidate.getMonth() + 1) || !matchesDay(candidate)) {
+        candidate.setDate(candidate.getDate() + 1);
+        candidate.setHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!hours.has(candidate.getHours())) {
+        candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (!minutes.has(candidate.getMinutes())) {
+        candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+        continue;
+      }
+      return candidate;
+    }
+    return null;
+  };
+
+  return { matches, next };
+};
@@ -1,3 +1,4 @@
+import YAML from "yaml";
 import {
   createCodeCell,
   createEmptyNotebook,
@@ -5,6 +6,7 @@ import {
   createUnknownCell,
   ensureNotebookRuntimeVersion,
   NotebookEnvSchema,
+  NotebookFileSchema,
   NotebookSqlSchema,
   type CodeCell,
   type MarkdownCell,
@@ -101,6 +103,12 @@ export const createNotebookFromFileDefinition = (
       env,
       sql,
       cells,
+      ...(file.notebook.reactive ? { reactive: true } : {}),
+      ...(file.notebook.strict ? { strict: true } : {}),
+      ...(file.notebook.parameters?.length
+        ? { parameters: file.notebook.parameters }
+        : {}),
+      ...(file.notebook.schedule ? { schedule: file.notebook.schedule } : {}),
     })
   );
 };
@@ -123,6 +131,12 @@ const serializeEnv = (env: NotebookEnv): NotebookFileNotebook["env"] => {
   if (!isEmptyRecord(env.variables)) {
     result.variables = env.variables;
   }
+  if (env.sensitive?.length) {
+    result.sensitive = env.sensitive;
+  }
+  if (env.lockfile) {
+    result.lockfile = env.lockfile;
+  }
   return result;
 };
 
@@ -211,8 +225,27 @@ export const serializeNotebookToFileDefinition = (
   if (sql) {
     notebookDefinition.sql = sql;
   }
+  if (notebook.reactive) {
+    notebookDefinition.reactive = true;
+  }
+  if (notebook.strict) {
+    notebookDefinition.strict = true;
+  }
+  if (notebook.parameters && notebook.parameters.length > 0) {
+    notebookDefinition.parameters = notebook.parameters;
+  }
+  if (notebook.schedule) {
+    notebookDefinition.schedule = notebook.schedule;
+  }
   return {
     title: notebook.name,
     notebook: notebookDefinition,
   };
 };
+
+// Reads a `.nb.yml` document; throws when it is not valid YAML or not a notebook
+export const parseNotebookFile = (contents: string): NotebookFile =>
+  NotebookFileSchema.parse(YAML.parse(contents));
+
+export const stringifyNotebookFile = (file: NotebookFile) =>
+  YAML.stringify(file);
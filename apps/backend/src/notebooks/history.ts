@@ -0,0 +1,135 @@
+import { randomUUID } from "node:crypto";
+import type {
+  CodeCell,
+  Notebook,
+  NotebookOutput,
+  NotebookRun,
+  NotebookRunTrigger,
+} from "@nodebooks/notebook-schema";
+import type { NotebookRunStore } from "../types.js";
+import { resolveNotebookParameters } from "./parameters.js";
+import {
+  runNotebook,
+  type NotebookRunOptions,
+  type NotebookRunResult,
+} from "./runner.js";
+
+// Runs kept per notebook; older ones are pruned after each run
+export const RUN_HISTORY_LIMIT = 50;
+const MAX_LOG_LENGTH = 64 * 1024;
+
+export interface RecordNotebookRunOptions extends Pick<
+  NotebookRunOptions,
+  | "pool"
+  | "timeoutMs"
+  | "continueOnError"
+  | "magics"
+  | "parameters"
+  | "secrets"
+  | "projectDefaults"
+> {
+  runs: NotebookRunStore;
+  trigger: NotebookRunTrigger;
+}
+
+export interface RecordedNotebookRun {
+  run: NotebookRun;
+  result?: NotebookRunResult;
+}
+
+const describeFailure = (result: NotebookRunResult) => {
+  const failed = result.cells.find(
+    (cell) => cell.status === "error" || cell.status === "aborted"
+  );
+  if (!failed) {
+    return null;
+  }
+  const reason = failed.error
+    ? `${failed.error.ename}: ${failed.error.evalue}`
+    : failed.status;
+  return `Cell ${failed.index + 1} failed (${reason})`;
+};
+
+/**
+ * Runs the notebook and keeps a record of it in the run history. The record
+ * is written as "running" first so in-flight runs show up, then replaced
+ * with the outcome and a snapshot of the outputs. Invalid parameters throw
+ * before anything is stored.
+ */
+export const recordNotebookRun = async (
+  notebook: Notebook,
+  { runs, trigger, ...options }: RecordNotebookRunOptions
+): Promise<RecordedNotebookRun> => {
+  const parameters = resolveNotebookParameters(
+    notebook.parameters ?? [],
+    options.parameters
+  );
+  const started = Date.now();
+  let run: NotebookRun = {
+    id: randomUUID(),
+    notebookId: notebook.id,
+    trigger,
+    status: "running",
+    startedAt: new Date(started).toISOString(),
+    finishedAt: null,
+    durationMs: null,
+    parameters,
+    cells: [],
+    error: null,
+    outputs: {},
+    logs: "",
+  };
+  await runs.save(run);
+
+  let logs = "";
+  const finish = async (
+    patch: Pick<NotebookRun, "status" | "error"> & Partial<NotebookRun>
+  ) => {
+    const finishedAt = Date.now();
+    run = {
+      ...run,
+      ...patch,
+      finishedAt: new Date(finishedAt).toISOString(),
+      durationMs: finishedAt - started,
+      logs: logs.slice(0, MAX_LOG_LENGTH),
+    };
+    await runs.save(run);
+    await runs.prune(notebook.id, RUN_HISTORY_LIMIT);
+  };
+
+  let result: NotebookRunResult;
+  try {
+    result = await runNotebook(notebook, {
+      ...options,
+      onStream: (_cell, output) => {
+        if (logs.length < MAX_LOG_LENGTH) {
+          logs += output.text;
+        }
+      },
+    });
+  } catch (error) {
+    await finish({
+      status: "error",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { run };
+  }
+
+  const outputs: Record<string, NotebookOutput[]> = {};
+  for (const cell of result.cells) {
+    const executed = result.notebook.cells.find(
+      (candidate) => candidate.id === cell.cellId
+    ) as CodeCell | undefined;
+    if (cell.status !== "skipped" && executed?.type === "code") {
+      outputs[cell.cellId] = executed.outputs;
+    }
+  }
+  await finish({
+    status: result.status,
+    error: describeFailure(result),
+    cells: result.cells,
+    parameters: result.parameters,
+    outputs,
+  });
+  return { run, result };
+};
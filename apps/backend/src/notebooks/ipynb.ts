@@ -0,0 +1,473 @@
+import { Buffer } from "node:buffer";
+import YAML from "yaml";
+import { z } from "zod";
+import {
+  NotebookFileSchema,
+  type MarkdownCell,
+  type Notebook,
+  type NotebookFile,
+  type NotebookFileCell,
+  type NotebookFileCodeCell,
+  type NotebookFileNotebook,
+  type NotebookOutput,
+} from "@nodebooks/notebook-schema";
+import { serializeNotebookToFileDefinition } from "./file.js";
+import {
+  replaceAttachmentLinks,
+  type AttachmentContent,
+} from "./attachment-links.js";
+
+// Converts between notebooks and Jupyter's nbformat v4. Everything Jupyter
+// has no place for (env, SQL connections, parameters, plugin cells) travels
+// in `metadata.nodebooks`, so a notebook survives the round trip.
+
+const MultilineSchema = z.union([z.string(), z.array(z.string())]);
+
+const IpynbOutputSchema = z
+  .object({
+    output_type: z.string(),
+    name: z.string().optional(),
+    text: MultilineSchema.optional(),
+    data: z.record(z.string(), z.unknown()).optional(),
+    metadata: z.record(z.string(), z.unknown()).optional(),
+    execution_count: z.number().nullable().optional(),
+    ename: z.string().optional(),
+    evalue: z.string().optional(),
+    traceback: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+const IpynbCellSchema = z
+  .object({
+    id: z.string().optional(),
+    cell_type: z.string(),
+    source: MultilineSchema.default(""),
+    metadata: z.record(z.string(), z.unknown()).default({}),
+    attachments: z
+      .record(z.string(), z.record(z.string(), MultilineSchema))
+      .optional(),
+    outputs: z.array(IpynbOutputSchema).optional(),
+    execution_count: z.number().nullable().optional(),
+  })
+  .passthrough();
+
+export const IpynbNotebookSchema = z
+  .object({
+    nbformat: z.literal(4),
+    nbformat_minor: z.number().int().nonnegative(),
+    metadata: z.record(z.string(), z.unknown()).default({}),
+    cells: z.array(IpynbCellSchema),
+  })
+  .passthrough();
+
+export type IpynbNotebook = z.infer<typeof IpynbNotebookSchema>;
+type IpynbCell = z.infer<typeof IpynbCellSchema>;
+type IpynbOutput = z.infer<typeof IpynbOutputSchema>;
+
+export interface IpynbAttachment extends AttachmentContent {
+  // Unique across the notebook; markdown refers to it as `attachment:<key>`
+  key: string;
+}
+
+const KERNELS = {
+  ts: {
+    kernelspec: {
+      name: "tslab",
+      display_name: "TypeScript",
+      language: "typescript",
+    },
+    language_info: {
+      name: "typescript",
+      file_extension: ".ts",
+      mimetype: "text/typescript",
+    },
+  },
+  js: {
+    kernelspec: {
+      name: "jslab",
+      display_name: "JavaScript",
+      language: "javascript",
+    },
+    language_info: {
+      name: "javascript",
+      file_extension: ".js",
+      mimetype: "text/javascript",
+    },
+  },
+} as const;
+
+type CodeLanguage = keyof typeof KERNELS;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const joinMultiline = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value.join("") : (value ?? "");
+
+// nbformat stores text as lines that keep their trailing newline
+const splitLines = (text: string) => text.split(/(?<=\n)/).filter(Boolean);
+
+const toLanguage = (value: unknown): CodeLanguage | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const normalized = value.toLowerCase();
+  if (normalized === "js" || normalized === "javascript") {
+    return "js";
+  }
+  if (normalized === "ts" || normalized === "typescript") {
+    return "ts";
+  }
+  return null;
+};
+
+const readNotebookLanguage = (metadata: Record<string, unknown>) => {
+  const kernelspec = isRecord(metadata.kernelspec) ? metadata.kernelspec : {};
+  const languageInfo = isRecord(metadata.language_info)
+    ? metadata.language_info
+    : {};
+  return toLanguage(kernelspec.language) ?? toLanguage(languageInfo.name);
+};
+
+const isTextMimeType = (mimeType: string) =>
+  mimeType.startsWith("text/") ||
+  mimeType === "application/javascript" ||
+  mimeType === "image/svg+xml";
+
+const isJsonMimeType = (mimeType: string) =>
+  mimeType === "application/json" || mimeType.endsWith("+json");
+
+const importMimeBundle = (data: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(data).map(([mimeType, value]) => [
+      mimeType,
+      !isJsonMimeType(mimeType) &&
+      Array.isArray(value) &&
+      value.every((line) => typeof line === "string")
+        ? value.join("")
+        : value,
+    ])
+  );
+
+const exportMimeBundle = (data: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(data).map(([mimeType, value]) => [
+      mimeType,
+      typeof value === "string" && isTextMimeType(mimeType)
+        ? splitLines(value)
+        : value,
+    ])
+  );
+
+const importOutput = (output: IpynbOutput): NotebookOutput | null => {
+  switch (output.output_type) {
+    case "stream":
+      return {
+        type: "stream",
+        name: output.name === "stderr" ? "stderr" : "stdout",
+        text: joinMultiline(output.text),
+      };
+    case "display_data":
+    case "execute_result":
+      return {
+        type: output.output_type,
+        data: importMimeBundle(output.data ?? {}),
+        ...(output.metadata && Object.keys(output.metadata).length > 0
+          ? { metadata: output.metadata }
+          : {}),
+      };
+    case "error":
+      return {
+        type: "error",
+        ename: output.ename ?? "Error",
+        evalue: output.evalue ?? "",
+        traceback: output.traceback ?? [],
+      };
+    default:
+      return null;
+  }
+};
+
+const exportOutput = (output: NotebookOutput): IpynbOutput => {
+  switch (output.type) {
+    case "stream":
+      return {
+        output_type: "stream",
+        name: output.name,
+        text: splitLines(output.text),
+      };
+    case "error":
+      return {
+        output_type: "error",
+        ename: output.ename,
+        evalue: output.evalue,
+        traceback: output.traceback,
+      };
+    case "execute_result":
+      return {
+        output_type: "execute_result",
+        execution_count: null,
+        data: exportMimeBundle(output.data),
+        metadata: output.metadata ?? {},
+      };
+    default:
+      // Display updates are folded into the output they replaced when saved
+      return {
+        output_type: "display_data",
+        data: exportMimeBundle(output.data),
+        metadata: output.metadata ?? {},
+      };
+  }
+};
+
+const ATTACHMENT_REFERENCE = /attachment:([^\s)"'<>]+)/g;
+
+const importAttachments = (
+  cell: IpynbCell,
+  source: string,
+  attachments: IpynbAttachment[]
+) => {
+  const bundles = cell.attachments ?? {};
+  const keys = new Map<string, string>();
+  for (const [filename, bundle] of Object.entries(bundles)) {
+    const [mimeType, data] = Object.entries(bundle)[0] ?? [];
+    if (!mimeType || data === undefined) {
+      continue;
+    }
+    let key = filename;
+    for (let n = 2; attachments.some((item) => item.key === key); n += 1) {
+      key = `${n}-${filename}`;
+    }
+    keys.set(filename, key);
+    attachments.push({
+      key,
+      filename,
+      mimeType,
+      content: isTextMimeType(mimeType)
+        ? Buffer.from(joinMultiline(data), "utf8")
+        : Buffer.from(joinMultiline(data), "base64"),
+    });
+  }
+  return source.replace(ATTACHMENT_REFERENCE, (match, name: string) => {
+    const key = keys.get(decodeURIComponent(name));
+    return key ? `attachment:${encodeURIComponent(key)}` : match;
+  });
+};
+
+const importCell = (
+  cell: IpynbCell,
+  language: CodeLanguage,
+  attachments: IpynbAttachment[]
+): NotebookFileCell => {
+  const nodebooks = isRecord(cell.metadata.nodebooks)
+    ? cell.metadata.nodebooks
+    : {};
+  if (isRecord(nodebooks.cell) && typeof nodebooks.cell.type === "string") {
+    return nodebooks.cell as NotebookFileCell;
+  }
+  const source = joinMultiline(cell.source);
+  const metadata = isRecord(nodebooks.metadata) ? nodebooks.metadata : {};
+
+  if (cell.cell_type === "code") {
+    const outputs = (cell.outputs ?? [])
+      .map(importOutput)
+      .filter((output): output is NotebookOutput => output !== null);
+    return {
+      type: "code",
+      language: toLanguage(nodebooks.language) ?? language,
+      source,
+      metadata,
+      ...(outputs.length > 0 ? { outputs } : {}),
+    };
+  }
+  if (cell.cell_type === "markdown") {
+    return {
+      type: "markdown",
+      source: importAttachments(cell, source, attachments),
+      metadata,
+    };
+  }
+  // Raw cells have no notebook equivalent; keep their text visible
+  return {
+    type: "markdown",
+    source: source.trim().length > 0 ? `\`\`\`\n${source}\n\`\`\`` : "",
+    metadata,
+  };
+};
+
+export const isIpynbContents = (contents: string) => {
+  try {
+    const parsed: unknown = JSON.parse(contents);
+    return isRecord(parsed) && "nbformat" in parsed && "cells" in parsed;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads an `.ipynb` document into a notebook file definition. Markdown
+ * attachments are returned separately so the caller can store them; the
+ * markdown keeps `attachment:<key>` links until `linkIpynbAttachments`.
+ */
+export const parseIpynbNotebook = (
+  contents: string,
+  fallbackTitle?: string
+): { file: NotebookFile; attachments: IpynbAttachment[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(contents);
+  } catch {
+    throw new Error("Jupyter notebook is not valid JSON");
+  }
+  const parsed = IpynbNotebookSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error("Only nbformat 4 Jupyter notebooks can be imported");
+  }
+  const ipynb = parsed.data;
+  const nodebooks = isRecord(ipynb.metadata.nodebooks)
+    ? ipynb.metadata.nodebooks
+    : {};
+  const language = readNotebookLanguage(ipynb.metadata) ?? "ts";
+  const attachments: IpynbAttachment[] = [];
+  const cells = ipynb.cells.map((cell) =>
+    importCell(cell, language, attachments)
+  );
+  const file = NotebookFileSchema.parse({
+    title:
+      typeof ipynb.metadata.title === "string"
+        ? ipynb.metadata.title
+        : fallbackTitle,
+    notebook: {
+      ...(isRecord(nodebooks.notebook) ? nodebooks.notebook : {}),
+      cells,
+    },
+  });
+  return { file, attachments };
+};
+
+// Points `attachment:<key>` links at the attachments the import stored
+export const linkIpynbAttachments = (
+  notebook: Notebook,
+  urls: Map<string, string>
+): Notebook => ({
+  ...notebook,
+  cells: notebook.cells.map((cell) =>
+    cell.type === "markdown"
+      ? {
+          ...cell,
+          source: (cell as MarkdownCell).source.replace(
+            ATTACHMENT_REFERENCE,
+            (match, key: string) => urls.get(decodeURIComponent(key)) ?? match
+          ),
+        }
+      : cell
+  ),
+});
+
+const exportMarkdownCell = (
+  notebookId: string,
+  source: string,
+  attachments: Map<string, AttachmentContent>
+) => {
+  const embedded: Record<string, Record<string, string>> = {};
+  const rewritten = replaceAttachmentLinks(notebookId, source, (id) => {
+    const attachment = attachments.get(id);
+    if (!attachment) {
+      return null;
+    }
+    let name = attachment.filename;
+    for (let n = 2; name in embedded; n += 1) {
+      name = `${n}-${attachment.filename}`;
+    }
+    embedded[name] = {
+      [attachment.mimeType]: Buffer.from(attachment.content).toString(
+        isTextMimeType(attachment.mimeType) ? "utf8" : "base64"
+      ),
+    };
+    return `attachment:${encodeURIComponent(name)}`;
+  });
+  return { source: rewritten, embedded };
+};
+
+const pickNotebookLanguage = (cells: NotebookFileCell[]): CodeLanguage => {
+  const code = cells.filter(
+    (cell): cell is NotebookFileCodeCell => cell.type === "code"
+  );
+  const js = code.filter((cell) => cell.language === "js").length;
+  return js > code.length - js ? "js" : "ts";
+};
+
+/**
+ * Writes a notebook as nbformat 4.5. `attachments` holds the contents of the
+ * attachments its markdown links to, keyed by id, which get embedded in the
+ * cells that reference them.
+ */
+export const serializeNotebookToIpynb = (
+  notebook: Notebook,
+  attachments: Map<string, AttachmentContent> = new Map()
+): IpynbNotebook => {
+  const file = serializeNotebookToFileDefinition(notebook);
+  const { cells: fileCells, ...settings } = file.notebook;
+  const language = pickNotebookLanguage(fileCells);
+
+  const cells = fileCells.map((fileCell, index): IpynbCell => {
+    const id = notebook.cells[index]?.id ?? `cell-${index}`;
+    const metadata = isRecord(fileCell.metadata) ? fileCell.metadata : {};
+    const nodebooks: Record<string, unknown> =
+      Object.keys(metadata).length > 0 ? { metadata } : {};
+
+    if (fileCell.type === "code") {
+      const codeCell = fileCell as NotebookFileCodeCell;
+      const cellLanguage = codeCell.language ?? "ts";
+      if (cellLanguage !== language) {
+        nodebooks.language = cellLanguage;
+      }
+      return {
+        id,
+        cell_type: "code",
+        execution_count: null,
+        metadata: Object.keys(nodebooks).length > 0 ? { nodebooks } : {},
+        source: splitLines(codeCell.source),
+        outputs: (codeCell.outputs ?? []).map(exportOutput),
+      };
+    }
+
+    if (fileCell.type === "markdown") {
+      const { source, embedded } = exportMarkdownCell(
+        notebook.id,
+        String(fileCell.source ?? ""),
+        attachments
+      );
+      return {
+        id,
+        cell_type: "markdown",
+        metadata: Object.keys(nodebooks).length > 0 ? { nodebooks } : {},
+        source: splitLines(source),
+        ...(Object.keys(embedded).length > 0 ? { attachments: embedded } : {}),
+      };
+    }
+
+    // Jupyter shows plugin cells as raw text; the metadata restores them
+    return {
+      id,
+      cell_type: "raw",
+      metadata: { nodebooks: { cell: fileCell } },
+      source: splitLines(YAML.stringify(fileCell)),
+    };
+  });
+
+  const notebookSettings: Omit<NotebookFileNotebook, "cells"> = settings;
+  return {
+    nbformat: 4,
+    nbformat_minor: 5,
+    metadata: {
+      ...KERNELS[language],
+      title: notebook.name,
+      nodebooks: { notebook: notebookSettings },
+    },
+    cells,
+  };
+};
+
+export const stringifyIpynbNotebook = (notebook: IpynbNotebook) =>
+  `${JSON.stringify(notebook, null, 1)}\n`;
@@ -0,0 +1,61 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import {
+  getLockfileFingerprint,
+  lockfileMatchesPackages,
+  NotebookLockfileSchema,
+  type Notebook,
+  type NotebookEnv,
+  type NotebookLockfile,
+} from "@nodebooks/notebook-schema";
+import { DEFAULT_RUNTIME_WORKSPACE_ROOT } from "@nodebooks/runtime-node/package-store";
+
+const sandboxDir = (notebookId: string) =>
+  path.join(DEFAULT_RUNTIME_WORKSPACE_ROOT, notebookId);
+
+// The package-lock.json npm left in the notebook's sandbox, if any
+export const readSandboxLockfile = async (
+  notebookId: string
+): Promise<NotebookLockfile | null> => {
+  try {
+    const raw = await fs.readFile(
+      path.join(sandboxDir(notebookId), "package-lock.json"),
+      "utf8"
+    );
+    const parsed = NotebookLockfileSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Returns the notebook env pinned to what the last install resolved, or null
+ * when the stored lockfile is already current. `packages` are the ranges that
+ * install used, project defaults included.
+ */
+export const captureInstalledLockfile = async (
+  notebook: Pick<Notebook, "id" | "env">,
+  packages: Record<string, string>
+): Promise<NotebookEnv | null> => {
+  const current = notebook.env.lockfile;
+  if (Object.keys(packages).length === 0) {
+    if (!current) {
+      return null;
+    }
+    const { lockfile: _lockfile, ...env } = notebook.env;
+    return env;
+  }
+  const lockfile = await readSandboxLockfile(notebook.id);
+  if (!lockfile || !lockfileMatchesPackages(lockfile, packages)) {
+    return null;
+  }
+  if (
+    current &&
+    lockfileMatchesPackages(current, packages) &&
+    getLockfileFingerprint(current) === getLockfileFingerprint(lockfile)
+  ) {
+    return null;
+  }
+  return { ...notebook.env, lockfile };
+};
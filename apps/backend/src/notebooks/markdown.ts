@@ -0,0 +1,411 @@
+import { Buffer } from "node:buffer";
+import { randomUUID } from "node:crypto";
+import YAML from "yaml";
+import {
+  NODEBOOKS_UI_MIME,
+  NotebookFileSchema,
+  type CodeCell,
+  type MarkdownCell,
+  type Notebook,
+  type NotebookFile,
+  type NotebookFileCell,
+  type NotebookOutput,
+} from "@nodebooks/notebook-schema";
+import { serializeNotebookToFileDefinition } from "./file.js";
+import {
+  replaceAttachmentLinks,
+  type AttachmentContent,
+} from "./attachment-links.js";
+
+// Info string of the fenced blocks plugin cells are written as
+export const MARKDOWN_PLUGIN_CELL_INFO = "nodebooks-cell";
+
+// Comments around the outputs of a code cell so imports can tell them from
+// prose; they render as nothing
+const OUTPUTS_START = "<!-- nodebooks:outputs -->";
+const OUTPUTS_END = "<!-- /nodebooks:outputs -->";
+
+// A fence one backtick longer than any run inside the text
+const fence = (text: string, info = "") => {
+  const longest = Math.max(
+    2,
+    ...Array.from(text.matchAll(/`+/g), (match) => match[0].length)
+  );
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${info}\n${text.replace(/\n$/, "")}\n${marker}`;
+};
+
+const quote = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => (line.length > 0 ? `> ${line}` : ">"))
+    .join("\n");
+
+const toDataUrl = (mimeType: string, value: string) =>
+  value.startsWith("data:")
+    ? value
+    : mimeType === "image/svg+xml" && value.trimStart().startsWith("<")
+      ? `data:${mimeType};base64,${Buffer.from(value, "utf8").toString("base64")}`
+      : `data:${mimeType};base64,${value}`;
+
+const escapeTableCell = (value: unknown) =>
+  (typeof value === "string" ? value : (JSON.stringify(value) ?? ""))
+    .replace(/\|/g, "\\|")
+    .replace(/\r?\n/g, " ");
+
+const renderTable = (
+  rows: Array<Record<string, unknown>>,
+  columns?: Array<{ key: string; label?: string }>
+) => {
+  const keys =
+    columns?.map((column) => column.key) ??
+    Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  if (keys.length === 0) {
+    return "_Empty table_";
+  }
+  const labels = keys.map(
+    (key) => columns?.find((column) => column.key === key)?.label ?? key
+  );
+  return [
+    `| ${labels.map(escapeTableCell).join(" | ")} |`,
+    `| ${keys.map(() => "---").join(" | ")} |`,
+    ...rows.map(
+      (row) => `| ${keys.map((key) => escapeTableCell(row[key])).join(" | ")} |`
+    ),
+  ].join("\n");
+};
+
+// Structured displays that read well as static Markdown; charts, maps and
+// other interactive components are only named
+const renderUiDisplay = (display: Record<string, unknown>): string | null => {
+  switch (display.ui) {
+    case "markdown":
+      return typeof display.markdown === "string" ? display.markdown : null;
+    case "html":
+      return typeof display.html === "string" ? display.html : null;
+    case "code":
+      return typeof display.code === "string"
+        ? fence(
+            display.code,
+            typeof display.language === "string" ? display.language : ""
+          )
+        : null;
+    case "json":
+      return fence(JSON.stringify(display.json, null, 2), "json");
+    case "image":
+      return typeof display.src === "string"
+        ? `![${typeof display.alt === "string" ? display.alt : "Output"}](${
+            /^(https?:|data:)/.test(display.src)
+              ? display.src
+              : toDataUrl(
+                  typeof display.mimeType === "string"
+                    ? display.mimeType
+                    : "image/png",
+                  display.src
+                )
+          })`
+        : null;
+    case "table":
+      return Array.isArray(display.rows)
+        ? renderTable(
+            display.rows as Array<Record<string, unknown>>,
+            display.columns as Array<{ key: string; label?: string }>
+          )
+        : null;
+    default:
+      return `_Interactive ${String(display.ui)} output, open the notebook to view it._`;
+  }
+};
+
+const renderDisplayData = (data: Record<string, unknown>) => {
+  const ui = data[NODEBOOKS_UI_MIME];
+  if (ui && typeof ui === "object") {
+    const rendered = renderUiDisplay(ui as Record<string, unknown>);
+    if (rendered) {
+      return quote(rendered);
+    }
+  }
+  for (const mimeType of ["image/png", "image/jpeg", "image/gif"]) {
+    if (typeof data[mimeType] === "string") {
+      return `![Output](${toDataUrl(mimeType, data[mimeType])})`;
+    }
+  }
+  if (typeof data["image/svg+xml"] === "string") {
+    return `![Output](${toDataUrl("image/svg+xml", data["image/svg+xml"])})`;
+  }
+  if (typeof data["text/markdown"] === "string") {
+    return quote(data["text/markdown"]);
+  }
+  if (typeof data["text/html"] === "string") {
+    return quote(data["text/html"]);
+  }
+  if (data["application/json"] !== undefined) {
+    return quote(fence(JSON.stringify(data["application/json"], null, 2)));
+  }
+  if (typeof data["text/plain"] === "string") {
+    return quote(fence(data["text/plain"], "text"));
+  }
+  return null;
+};
+
+const renderOutputs = (outputs: NotebookOutput[]) => {
+  const blocks: string[] = [];
+  let stream = "";
+  const flushStream = () => {
+    if (stream.length > 0) {
+      blocks.push(quote(fence(stream, "text")));
+      stream = "";
+    }
+  };
+  for (const output of outputs) {
+    if (output.type === "stream") {
+      // Consecutive writes read as one block
+      stream += output.text;
+      continue;
+    }
+    flushStream();
+    if (output.type === "error") {
+      blocks.push(
+        quote(`**${output.ename}**${output.evalue ? `: ${output.evalue}` : ""}`)
+      );
+      continue;
+    }
+    const rendered = renderDisplayData(output.data);
+    if (rendered) {
+      blocks.push(rendered);
+    }
+  }
+  flushStream();
+  return blocks;
+};
+
+/**
+ * Writes a notebook as a Markdown document: code as fenced blocks followed by
+ * its outputs, images inlined as data URLs so the file stands on its own.
+ * `attachments` holds the attachments markdown cells link to, keyed by id.
+ */
+export const serializeNotebookToMarkdown = (
+  notebook: Notebook,
+  attachments: Map<string, AttachmentContent> = new Map()
+) => {
+  const fileCells = serializeNotebookToFileDefinition(notebook).notebook.cells;
+  const blocks = [`# ${notebook.name}`];
+  notebook.cells.forEach((cell, index) => {
+    if (cell.type === "markdown") {
+      const source = replaceAttachmentLinks(
+        notebook.id,
+        (cell as MarkdownCell).source,
+        (id) => {
+          const attachment = attachments.get(id);
+          return attachment
+            ? toDataUrl(
+                attachment.mimeType,
+                Buffer.from(attachment.content).toString("base64")
+              )
+            : null;
+        }
+      );
+      if (source.trim().length > 0) {
+        blocks.push(source.trim());
+      }
+      return;
+    }
+    if (cell.type === "code") {
+      const codeCell = cell as CodeCell;
+      blocks.push(fence(codeCell.source, codeCell.language));
+      const outputs = renderOutputs(codeCell.outputs);
+      if (outputs.length > 0) {
+        blocks.push(OUTPUTS_START, ...outputs, OUTPUTS_END);
+      }
+      return;
+    }
+    const fileCell = fileCells[index];
+    if (fileCell) {
+      blocks.push(fence(YAML.stringify(fileCell), MARKDOWN_PLUGIN_CELL_INFO));
+    }
+  });
+  return `${blocks.join("\n\n")}\n`;
+};
+
+const CODE_LANGUAGES: Record<string, "ts" | "js"> = {
+  ts: "ts",
+  typescript: "ts",
+  js: "js",
+  javascript: "js",
+  mjs: "js",
+};
+
+// `METHOD url`, header lines, a blank line and the body, as in `.http` files
+const parseHttpRequest = (text: string) => {
+  const [head = "", ...rest] = text.replace(/^\s+/, "").split("\n");
+  const requestLine = /^([A-Za-z]+)\s+(\S+)/.exec(head.trim());
+  const method = requestLine?.[1]?.toUpperCase() ?? "GET";
+  const url = requestLine?.[2] ?? head.trim();
+  const blank = rest.findIndex((line) => line.trim().length === 0);
+  const headerLines = blank === -1 ? rest : rest.slice(0, blank);
+  const headers = headerLines
+    .map((line) => /^([^:\s]+)\s*:\s*(.*)$/.exec(line.trim()))
+    .filter((match) => match !== null)
+    .map(([, name, value]) => ({
+      id: randomUUID(),
+      name: name!,
+      value: value!,
+      enabled: true,
+    }));
+  const bodyText =
+    blank === -1
+      ? ""
+      : rest
+          .slice(blank + 1)
+          .join("\n")
+          .trim();
+  const contentType =
+    headers.find((header) => header.name.toLowerCase() === "content-type")
+      ?.value ?? "application/json";
+  return {
+    method,
+    url,
+    headers,
+    query: [],
+    body: {
+      mode:
+        bodyText.length === 0
+          ? "none"
+          : contentType.includes("json")
+            ? "json"
+            : "text",
+      text: bodyText,
+      contentType,
+    },
+  };
+};
+
+/**
+ * Builds the file definition of a plugin cell from the body of a fenced block
+ * or script section: `sql` holds the query and `http` a request, while other
+ * types carry their YAML definition as exported. Returns null for anything
+ * that isn't a cell.
+ */
+export const createPluginFileCell = (
+  type: string,
+  text: string
+): NotebookFileCell | null => {
+  if (type === "sql" || type === "http") {
+    // Exported notebooks write the YAML definition for these too
+    try {
+      const parsed: unknown = YAML.parse(text);
+      if (
+        parsed &&
+        typeof parsed === "object" &&
+        (parsed as { type?: unknown }).type === type
+      ) {
+        return parsed as NotebookFileCell;
+      }
+    } catch {
+      // Plain SQL or a request line
+    }
+    return type === "sql"
+      ? { type: "sql", query: text.replace(/\n$/, "") }
+      : { type: "http", request: parseHttpRequest(text) };
+  }
+  try {
+    const parsed: unknown = YAML.parse(text);
+    return parsed &&
+      typeof parsed === "object" &&
+      typeof (parsed as { type?: unknown }).type === "string"
+      ? (parsed as NotebookFileCell)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)[^`]*$/;
+// Outputs are exported right after their code fence between the output
+// markers; any other quote or image is the author's. Returns the first line
+// past the outputs.
+const skipRenderedOutputs = (lines: string[], start: number) => {
+  let index = start;
+  while (index < lines.length && lines[index]!.trim().length === 0) {
+    index += 1;
+  }
+  if (lines[index]?.trim() !== OUTPUTS_START) {
+    return start;
+  }
+  const end = lines.findIndex(
+    (candidate, position) =>
+      position > index && candidate.trim() === OUTPUTS_END
+  );
+  return end === -1 ? start : end + 1;
+};
+
+/**
+ * Reads a Markdown document into a notebook file definition. `ts`/`js`
+ * fences become code cells, `sql` and `http` fences plugin cells and the
+ * prose between them markdown cells. Outputs an export wrote after a code
+ * fence are dropped; quotes and images the author wrote are kept.
+ * A leading `# Heading` names the notebook.
+ */
+export const parseMarkdownNotebook = (
+  contents: string,
+  fallbackTitle?: string
+): NotebookFile => {
+  const lines = contents.replace(/\r\n?/g, "\n").split("\n");
+  const cells: NotebookFileCell[] = [];
+  let prose: string[] = [];
+  let title: string | undefined;
+
+  const flushProse = () => {
+    const source = prose.join("\n").trim();
+    if (source.length > 0) {
+      cells.push({ type: "markdown", source });
+    }
+    prose = [];
+  };
+
+  const firstLine = lines.findIndex((line) => line.trim().length > 0);
+  const heading = /^#\s+(.+?)\s*#*\s*$/.exec(lines[firstLine] ?? "");
+  if (heading) {
+    title = heading[1];
+    lines.splice(firstLine, 1);
+  }
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const open = FENCE_OPEN.exec(lines[index]!);
+    if (!open) {
+      prose.push(lines[index]!);
+      continue;
+    }
+    const marker = open[1]!;
+    const info = open[2]!.toLowerCase();
+    const close = new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`);
+    let end = index + 1;
+    while (end < lines.length && !close.test(lines[end]!)) {
+      end += 1;
+    }
+    const body = lines.slice(index + 1, end).join("\n");
+    const language = CODE_LANGUAGES[info];
+    const cell = language
+      ? ({ type: "code", language, source: body } as NotebookFileCell)
+      : info === "sql" || info === "http" || info === MARKDOWN_PLUGIN_CELL_INFO
+        ? createPluginFileCell(info, body)
+        : null;
+    if (cell) {
+      flushProse();
+      cells.push(cell);
+      if (language) {
+        end = skipRenderedOutputs(lines, end + 1) - 1;
+      }
+    } else {
+      // Other fences are part of the prose
+      prose.push(...lines.slice(index, end + 1));
+    }
+    index = end;
+  }
+  flushProse();
+
+  return NotebookFileSchema.parse({
+    title: title ?? fallbackTitle,
+    notebook: { cells },
+  });
+};
@@ -0,0 +1,109 @@
+import type {
+  Notebook,
+  NotebookCell,
+  NotebookParameter,
+} from "@nodebooks/notebook-schema";
+
+export class NotebookParameterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotebookParameterError";
+  }
+}
+
+const BOOLEAN_STRINGS: Record<string, boolean> = {
+  true: true,
+  false: false,
+  "1": true,
+  "0": false,
+  yes: true,
+  no: false,
+};
+
+// Strings are read according to the declared type so the CLI and HTML
+// forms can pass every value as text.
+const coerceParameterValue = (
+  parameter: NotebookParameter,
+  value: unknown
+): unknown => {
+  const { name, type } = parameter;
+  switch (type) {
+    case "string":
+      if (typeof value === "string") return value;
+      if (typeof value === "number" || typeof value === "boolean") {
+        return String(value);
+      }
+      break;
+    case "number": {
+      const parsed =
+        typeof value === "string" && value.trim() !== ""
+          ? Number(value)
+          : value;
+      if (typeof parsed === "number" && Number.isFinite(parsed)) {
+        return parsed;
+      }
+      break;
+    }
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (typeof value === "string") {
+        const parsed = BOOLEAN_STRINGS[value.trim().toLowerCase()];
+        if (parsed !== undefined) return parsed;
+      }
+      break;
+    case "json":
+      if (typeof value !== "string") return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        throw new NotebookParameterError(
+          `Parameter "${name}" must be valid JSON`
+        );
+      }
+  }
+  throw new NotebookParameterError(`Parameter "${name}" must be a ${type}`);
+};
+
+/**
+ * Merges run overrides over the declared defaults. Parameters without a
+ * default that were not passed are left out, so the parameters cell keeps
+ * its own value for them.
+ */
+export const resolveNotebookParameters = (
+  declared: NotebookParameter[],
+  overrides: Record<string, unknown> = {}
+): Record<string, unknown> => {
+  const byName = new Map(
+    declared.map((parameter) => [parameter.name, parameter])
+  );
+  for (const name of Object.keys(overrides)) {
+    if (!byName.has(name)) {
+      throw new NotebookParameterError(`Unknown parameter "${name}"`);
+    }
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const parameter of declared) {
+    const value =
+      parameter.name in overrides
+        ? overrides[parameter.name]
+        : parameter.default;
+    if (value === undefined) {
+      continue;
+    }
+    values[parameter.name] = coerceParameterValue(parameter, value);
+  }
+  return values;
+};
+
+// Index of the code cell flagged as the parameters cell, or -1
+export const findParametersCellIndex = (notebook: Notebook) =>
+  notebook.cells.findIndex(
+    (cell: NotebookCell) =>
+      cell.type === "code" && cell.metadata?.parameters === true
+  );
+
+export const buildParametersSource = (values: Record<string, unknown>) =>
+  Object.entries(values)
+    .map(([name, value]) => `const ${name} = ${JSON.stringify(value)};`)
+    .join("\n");
@@ -0,0 +1,423 @@
+import { randomUUID } from "node:crypto";
+import os from "node:os";
+import path from "node:path";
+import type { MagicDefinition } from "@nodebooks/cell-plugin-api";
+import { loadServerConfig } from "@nodebooks/config";
+import {
+  collectSensitiveValues,
+  createRedactor,
+  mergeProjectEnv,
+  mergeProjectSql,
+  type CodeCell,
+  type Notebook,
+  type NotebookCell,
+  type NotebookOutput,
+  type NotebookRunCell,
+  type OutputExecution,
+  type ProjectDefaults,
+  type StreamOutput,
+} from "@nodebooks/notebook-schema";
+import {
+  WorkerClient,
+  WorkerPool,
+  type ExecuteResult,
+} from "@nodebooks/runtime-host";
+import {
+  getHttpResponseGlobals,
+  runHttpCell,
+} from "@nodebooks/http-cell/backend";
+import { HttpCellSchema } from "@nodebooks/http-cell/schema";
+import { getSqlResultGlobals, runSqlCell } from "@nodebooks/sql-cell/backend";
+import { SqlCellSchema } from "@nodebooks/sql-cell/schema";
+import {
+  builtinMagics,
+  parseMagics,
+  runMagics,
+  stripMagics,
+  type MagicRunResult,
+} from "../kernel/magics.js";
+import {
+  createTypeCheckError,
+  typeCheckCellInWorker,
+} from "../kernel/type-check.js";
+import {
+  buildParametersSource,
+  findParametersCellIndex,
+  resolveNotebookParameters,
+} from "./parameters.js";
+import { captureInstalledLockfile } from "./lockfile.js";
+
+export type CellRunResult = NotebookRunCell;
+export type CellRunStatus = CellRunResult["status"];
+
+export interface NotebookRunOptions {
+  // Defaults to a private single-worker pool that is closed afterwards
+  pool?: WorkerPool;
+  timeoutMs?: number;
+  // Keep going after a failing cell instead of skipping the rest
+  continueOnError?: boolean;
+  magics?: MagicDefinition[];
+  // Overrides for the notebook's declared parameters
+  parameters?: Record<string, unknown>;
+  // Decrypted secrets exposed to cells through process.env
+  secrets?: Record<string, string>;
+  // Packages and variables inherited from the notebook's project
+  projectDefaults?: ProjectDefaults | null;
+  onCellStart?: (cell: NotebookCell, index: number) => void;
+  onStream?: (cell: CodeCell, output: StreamOutput) => void;
+  onCellEnd?: (cell: NotebookCell, result: CellRunResult) => void;
+}
+
+export interface NotebookRunResult {
+  notebook: Notebook;
+  cells: CellRunResult[];
+  // Parameter values the run injected
+  parameters: Record<string, unknown>;
+  status: "ok" | "error";
+}
+
+// Cells the editor runs through their cell plugin's backend. SQL and HTTP
+// cells run here through the same plugin functions; plot cells only render
+// in the editor, so they fail the run instead of silently keeping their
+// previous results.
+const PLUGIN_RUNNABLE_CELLS: Record<string, string> = {
+  sql: "SQL",
+  http: "HTTP",
+  plot: "Plot",
+};
+
+export const isRunnableCell = (cell: NotebookCell) =>
+  cell.type === "code" || cell.type in PLUGIN_RUNNABLE_CELLS;
+
+const findError = (outputs: ExecuteResult["outputs"]) => {
+  for (const output of outputs) {
+    if (output.type === "error") {
+      return { ename: output.ename, evalue: output.evalue };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Runs every code cell of `notebook` top to bottom in a fresh kernel, the
+ * way the editor would, and returns a copy with outputs filled in. Without
+ * `continueOnError` the cells after the first failure are skipped and keep
+ * their previous outputs. SQL and HTTP cells run through their plugins and
+ * hand what they assign to the code cells after them; plot cells cannot run
+ * headless and are reported as `UnsupportedCellError` failures.
+ *
+ * Parameter values are assigned right after the parameters cell (or before
+ * the first code cell when none is flagged). Invalid overrides throw a
+ * `NotebookParameterError` before any kernel starts.
+ */
+export const runNotebook = async (
+  notebook: Notebook,
+  options: NotebookRunOptions = {}
+): Promise<NotebookRunResult> => {
+  const parameters = resolveNotebookParameters(
+    notebook.parameters ?? [],
+    options.parameters
+  );
+  const parametersSource = buildParametersSource(parameters);
+  const parametersIndex = findParametersCellIndex(notebook);
+  let pendingParameters = parametersSource.length > 0;
+
+  const pool = options.pool ?? new WorkerPool({ size: 1 });
+  const runtime = new WorkerClient(pool, {
+    kernelKey: `run:${notebook.id}:${randomUUID()}`,
+  });
+  const envOverrides: Record<string, string> = {};
+  const { redactionPatterns } = loadServerConfig();
+  const env = mergeProjectEnv(notebook.env, options.projectDefaults);
+  const resolveEnv = () => ({
+    ...env,
+    variables: { ...env.variables, ...envOverrides },
+    secrets: options.secrets,
+    redactionPatterns,
+  });
+  // What SQL and HTTP cells assigned, injected into every later run
+  const pluginGlobals: Record<string, unknown> = {};
+
+  const execute = async (
+    cell: CodeCell,
+    code: string
+  ): Promise<MagicRunResult> => {
+    const started = Date.now();
+    try {
+      return await runtime.execute({
+        cell,
+        code,
+        notebookId: notebook.id,
+        env: resolveEnv(),
+        timeoutMs: options.timeoutMs,
+        globals: pluginGlobals,
+        onStream: (output) => options.onStream?.(cell, output),
+        // Headless runs have nobody to answer prompt()
+        onInput: async () => null,
+      });
+    } catch (error) {
+      // Timeouts and crashed kernels reject instead of reporting an error
+      const err = error instanceof Error ? error : new Error(String(error));
+      return {
+        outputs: [
+          {
+            type: "error",
+            ename: err.name,
+            evalue: err.message,
+            traceback: [],
+          },
+        ],
+        execution: { started, ended: Date.now(), status: "aborted" },
+      };
+    }
+  };
+
+  const runCell = async (cell: CodeCell): Promise<MagicRunResult> => {
+    const segments = parseMagics(cell.source);
+    const checkedCode = segments
+      ? stripMagics(cell.source, segments)
+      : cell.source;
+    const diagnostics =
+      notebook.strict && cell.language === "ts" && checkedCode !== null
+        ? await typeCheckCellInWorker(
+            { ...notebook, env },
+            cell.id,
+            checkedCode
+          )
+        : [];
+    if (diagnostics.some((entry) => entry.severity === "error")) {
+      const now = Date.now();
+      return {
+        outputs: [createTypeCheckError(cell.id, diagnostics)],
+        execution: { started: now, ended: now, status: "error" },
+        dependencies: cell.metadata?.dependencies,
+      };
+    }
+    if (!segments) {
+      return execute(cell, cell.source);
+    }
+    const redact = createRedactor({
+      values: collectSensitiveValues(resolveEnv()),
+      patterns: redactionPatterns,
+    });
+    return runMagics(segments, {
+      notebookId: notebook.id,
+      cellId: cell.id,
+      language: cell.language,
+      workspaceDir: path.join(os.tmpdir(), "nodebooks-runtime", notebook.id),
+      signal: new AbortController().signal,
+      magics: [...builtinMagics, ...(options.magics ?? [])],
+      execute: (code) => execute(cell, code),
+      listVariables: async () =>
+        (await runtime.listVariables())?.variables ?? [],
+      getEnv: () => ({ ...resolveEnv().variables }),
+      setEnv: (name, value) => {
+        if (value === undefined) {
+          delete envOverrides[name];
+        } else {
+          envOverrides[name] = value;
+        }
+      },
+      redact,
+      onStream: (output) => options.onStream?.(cell, output),
+    });
+  };
+
+  // Runs the injected assignments under the cell they belong to; only a
+  // failure is reported back since a successful injection prints nothing.
+  const injectParameters = async (cell: CodeCell) => {
+    pendingParameters = false;
+    const result = await execute(cell, parametersSource);
+    return result.execution.status === "ok" ? null : result;
+  };
+
+  // Runs a SQL or HTTP cell the way its plugin route does for the editor
+  const runPluginCell = async (
+    item: NotebookCell
+  ): Promise<{ cell: NotebookCell; error?: CellRunResult["error"] }> => {
+    const { variables } = resolveEnv();
+    const secrets = options.secrets ?? {};
+    const redact = createRedactor({
+      values: collectSensitiveValues(resolveEnv()),
+      patterns: redactionPatterns,
+    });
+    try {
+      if (item.type === "sql") {
+        const cell = SqlCellSchema.parse(item);
+        const result = await runSqlCell({
+          notebook: {
+            env,
+            sql: mergeProjectSql(notebook.sql, options.projectDefaults),
+          },
+          connectionId: cell.connectionId,
+          query: cell.query,
+          assignVariable: cell.assignVariable,
+          variables,
+          secrets,
+          redact,
+        });
+        Object.assign(pluginGlobals, getSqlResultGlobals(result));
+        return {
+          cell: { ...item, result },
+          error: result.error
+            ? { ename: "SqlError", evalue: result.error }
+            : undefined,
+        };
+      }
+      const cell = HttpCellSchema.parse(item);
+      const response = await runHttpCell({
+        notebook: { env },
+        request: cell.request,
+        assignVariable: cell.assignVariable,
+        assignBody: cell.assignBody,
+        assignHeaders: cell.assignHeaders,
+        variables,
+        secrets,
+        redact,
+      });
+      Object.assign(pluginGlobals, getHttpResponseGlobals(response));
+      const failure =
+        response.error ??
+        (response.ok === false
+          ? `${response.status ?? ""} ${response.statusText ?? ""}`.trim()
+          : undefined);
+      return {
+        cell: { ...item, response },
+        error:
+          failure !== undefined
+            ? { ename: "HttpError", evalue: failure }
+            : undefined,
+      };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      return { cell: item, error: { ename: err.name, evalue: err.message } };
+    }
+  };
+
+  const cells = [...notebook.cells];
+  const results: CellRunResult[] = [];
+  let failed = false;
+
+  try {
+    for (const [index, item] of cells.entries()) {
+      if (!isRunnableCell(item)) {
+        continue;
+      }
+      if (failed && !options.continueOnError) {
+        const skipped: CellRunResult = {
+          cellId: item.id,
+          index,
+          status: "skipped",
+          durationMs: 0,
+        };
+        results.push(skipped);
+        options.onCellEnd?.(item, skipped);
+        continue;
+      }
+
+      options.onCellStart?.(item, index);
+      if (item.type === "sql" || item.type === "http") {
+        const started = Date.now();
+        const { cell, error } = await runPluginCell(item);
+        cells[index] = cell;
+        const cellResult: CellRunResult = {
+          cellId: item.id,
+          index,
+          status: error ? "error" : "ok",
+          durationMs: Date.now() - started,
+          error,
+        };
+        results.push(cellResult);
+        options.onCellEnd?.(item, cellResult);
+        if (error) {
+          failed = true;
+        }
+        continue;
+      }
+      if (item.type !== "code") {
+        const unsupported: CellRunResult = {
+          cellId: item.id,
+          index,
+          status: "error",
+          durationMs: 0,
+          error: {
+            ename: "UnsupportedCellError",
+            evalue: `${PLUGIN_RUNNABLE_CELLS[item.type]} cells cannot run outside the editor`,
+          },
+        };
+        results.push(unsupported);
+        options.onCellEnd?.(item, unsupported);
+        failed = true;
+        continue;
+      }
+      const cell = item as CodeCell;
+      let result: MagicRunResult | null = null;
+      if (pendingParameters && parametersIndex === -1) {
+        result = await injectParameters(cell);
+      }
+      result ??= await runCell(cell);
+      if (pendingParameters && index === parametersIndex) {
+        const injection = await injectParameters(cell);
+        if (injection) {
+          result = {
+            ...result,
+            outputs: [...result.outputs, ...injection.outputs],
+            execution: {
+              ...result.execution,
+              ended: injection.execution.ended,
+              status:
+                result.execution.status === "ok"
+                  ? injection.execution.status
+                  : result.execution.status,
+            },
+          };
+        }
+      }
+
+      const dependencies = result.dependencies;
+      cells[index] = {
+        ...cell,
+        // `%load` swaps the source instead of running anything
+        source: result.source ?? cell.source,
+        metadata: dependencies
+          ? { ...(cell.metadata ?? {}), dependencies }
+          : cell.metadata,
+        outputs: result.outputs as unknown as NotebookOutput[],
+        execution: result.execution as unknown as OutputExecution,
+      };
+
+      const status = result.execution.status;
+      const cellResult: CellRunResult = {
+        cellId: cell.id,
+        index,
+        status,
+        durationMs: result.execution.ended - result.execution.started,
+        error: findError(result.outputs),
+      };
+      results.push(cellResult);
+      options.onCellEnd?.(cell, cellResult);
+      if (status !== "ok") {
+        failed = true;
+      }
+    }
+  } finally {
+    runtime.release();
+    if (!options.pool) {
+      pool.close();
+    }
+  }
+
+  return {
+    notebook: {
+      ...notebook,
+      env:
+        (await captureInstalledLockfile(notebook, env.packages)) ??
+        notebook.env,
+      cells,
+      updatedAt: new Date().toISOString(),
+    },
+    cells: results,
+    parameters,
+    status: failed ? "error" : "ok",
+  };
+};
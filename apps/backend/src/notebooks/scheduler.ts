@@ -0,0 +1,162 @@
+import type { FastifyBaseLogger } from "fastify";
+import type {
+  MagicDefinition,
+  ProjectDefaultsResolver,
+} from "@nodebooks/cell-plugin-api";
+import type { Notebook } from "@nodebooks/notebook-schema";
+import type { WorkerPool } from "@nodebooks/runtime-host";
+import type { NotebookRunStore, NotebookStore } from "../types.js";
+import type { SecretsService } from "../secrets/service.js";
+import { parseCronExpression, type CronSchedule } from "./cron.js";
+import { recordNotebookRun } from "./history.js";
+
+const MINUTE_MS = 60_000;
+const DEFAULT_INTERVAL_MS = 30_000;
+
+export interface NotebookSchedulerOptions {
+  store: NotebookStore;
+  runs: NotebookRunStore;
+  getPool: () => WorkerPool;
+  getMagics?: () => Promise<MagicDefinition[]>;
+  secrets?: SecretsService;
+  resolveProjectDefaults?: ProjectDefaultsResolver;
+  log?: Pick<FastifyBaseLogger, "info" | "warn" | "error">;
+  intervalMs?: number;
+  now?: () => Date;
+}
+
+const startOfMinute = (date: Date) => {
+  const copy = new Date(date);
+  copy.setSeconds(0, 0);
+  return copy;
+};
+
+/**
+ * Starts notebook runs whose cron schedule falls due. Each tick checks every
+ * minute since the previous tick, so a slow tick does not drop a run, and a
+ * notebook is never started again while its previous run is in flight.
+ */
+export class NotebookScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private lastCheck: Date;
+  private readonly active = new Map<string, Promise<void>>();
+  private readonly parsed = new Map<string, CronSchedule | null>();
+
+  constructor(private readonly options: NotebookSchedulerOptions) {
+    this.lastCheck = startOfMinute(this.now());
+  }
+
+  private now() {
+    return this.options.now?.() ?? new Date();
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+    this.lastCheck = startOfMinute(this.now());
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.options.intervalMs ?? DEFAULT_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await Promise.allSettled(this.active.values());
+  }
+
+  isRunning(notebookId: string) {
+    return this.active.has(notebookId);
+  }
+
+  // Cached so a bad expression is only reported once
+  private schedule(cron: string) {
+    if (!this.parsed.has(cron)) {
+      try {
+        this.parsed.set(cron, parseCronExpression(cron));
+      } catch (error) {
+        this.options.log?.warn(
+          { err: error },
+          `Ignoring invalid notebook schedule "${cron}"`
+        );
+        this.parsed.set(cron, null);
+      }
+    }
+    return this.parsed.get(cron) ?? null;
+  }
+
+  nextRunAt(notebook: Notebook): Date | null {
+    if (!notebook.schedule?.enabled) {
+      return null;
+    }
+    return this.schedule(notebook.schedule.cron)?.next(this.now()) ?? null;
+  }
+
+  async tick(): Promise<void> {
+    const now = startOfMinute(this.now());
+    const due: Date[] = [];
+    for (
+      let minute = this.lastCheck.getTime() + MINUTE_MS;
+      minute <= now.getTime();
+      minute += MINUTE_MS
+    ) {
+      due.push(new Date(minute));
+    }
+    if (due.length === 0) {
+      return;
+    }
+    this.lastCheck = now;
+
+    let notebooks: Notebook[];
+    try {
+      notebooks = await this.options.store.all();
+    } catch (error) {
+      this.options.log?.error({ err: error }, "Failed to load notebooks");
+      return;
+    }
+    for (const notebook of notebooks) {
+      const schedule = notebook.schedule;
+      if (!schedule?.enabled || this.active.has(notebook.id)) {
+        continue;
+      }
+      const cron = this.schedule(schedule.cron);
+      if (cron && due.some((minute) => cron.matches(minute))) {
+        this.launch(notebook);
+      }
+    }
+  }
+
+  private launch(notebook: Notebook) {
+    const { runs, getPool, getMagics, secrets, resolveProjectDefaults, log } =
+      this.options;
+    const task = (async () => {
+      try {
+        const { run } = await recordNotebookRun(notebook, {
+          runs,
+          trigger: "schedule",
+          pool: getPool(),
+          parameters: notebook.schedule?.parameters,
+          magics: await getMagics?.(),
+          secrets: await secrets?.resolve(notebook),
+          projectDefaults: await resolveProjectDefaults?.(notebook),
+        });
+        log?.info(
+          { notebookId: notebook.id, runId: run.id, status: run.status },
+          "Scheduled notebook run finished"
+        );
+      } catch (error) {
+        log?.error(
+          { err: error, notebookId: notebook.id },
+          "Scheduled notebook run failed"
+        );
+      } finally {
+        this.active.delete(notebook.id);
+      }
+    })();
+    this.active.set(notebook.id, task);
+  }
+}
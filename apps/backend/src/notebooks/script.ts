@@ -0,0 +1,407 @@
+import YAML from "yaml";
+import { strToU8, zipSync } from "fflate";
+import ts from "typescript";
+import {
+  NotebookFileSchema,
+  type CodeCell,
+  type MarkdownCell,
+  type Notebook,
+  type NotebookFile,
+  type NotebookFileCell,
+} from "@nodebooks/notebook-schema";
+import { parseMagics } from "../kernel/magics.js";
+import { serializeNotebookToFileDefinition } from "./file.js";
+import { createPluginFileCell } from "./markdown.js";
+
+// Cells become sections separated by `// %%` lines, the convention VS Code,
+// Jupytext and friends use for "percent" scripts. Non-code sections name
+// their kind in brackets and keep their content in comments.
+export const SCRIPT_CELL_MARKER = "// %%";
+
+// Installs and runs TypeScript without a build step
+const TSX_VERSION = "^4.21.0";
+
+// Magics only run in a notebook; they are exported as comments behind this
+// prefix and turned back into magics on import
+const MAGIC_COMMENT = "// [magic] ";
+const MAGIC_COMMENT_LINE = /^(\s*)\/\/ \[magic\] (%.*)$/;
+
+// `@nodebooks/ui` (display, respond, expect, ...) only resolves inside the
+// notebook sandbox, so its imports are commented out the same way
+const UI_MODULE = "@nodebooks/ui";
+const UI_IMPORT_COMMENT = "// [notebook] ";
+const UI_IMPORT_COMMENT_LINE = /^(\s*)\/\/ \[notebook\] (.*)$/;
+
+const comment = (text: string) =>
+  text
+    .replace(/\n$/, "")
+    .split("\n")
+    .map((line) => (line.length > 0 ? `// ${line}` : "//"))
+    .join("\n");
+
+const uncomment = (lines: string[]) =>
+  lines.map((line) => line.replace(/^\s*\/\/ ?/, "")).join("\n");
+
+const isCommentOrBlank = (line: string) =>
+  line.trim().length === 0 || line.trimStart().startsWith("//");
+
+const commentMagics = (source: string) => {
+  const segments = parseMagics(source);
+  if (!segments) {
+    return source;
+  }
+  const lines = source.split("\n");
+  if (segments.some((item) => item.kind === "magic" && item.type === "cell")) {
+    const body = lines.slice(1).join("\n");
+    return [
+      `${MAGIC_COMMENT}${lines[0]!.trim()}`,
+      ...(body.trim().length > 0 ? [comment(body)] : []),
+    ].join("\n");
+  }
+  for (const segment of segments) {
+    if (segment.kind === "magic") {
+      const line = lines[segment.line]!;
+      const indent = /^\s*/.exec(line)![0];
+      lines[segment.line] = `${indent}${MAGIC_COMMENT}${line.trim()}`;
+    }
+  }
+  return lines.join("\n");
+};
+
+const commentUiImports = (source: string, language: "ts" | "js") => {
+  const file = ts.createSourceFile(
+    `cell.${language}`,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    language === "ts" ? ts.ScriptKind.TS : ts.ScriptKind.JS
+  );
+  const imports = file.statements.filter(
+    (statement) =>
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      statement.moduleSpecifier.text === UI_MODULE
+  );
+  let result = source;
+  for (const statement of imports.reverse()) {
+    const start = statement.getStart(file);
+    const text = statement
+      .getText(file)
+      .split("\n")
+      .map((line) => `${UI_IMPORT_COMMENT}${line}`)
+      .join("\n");
+    result = `${result.slice(0, start)}${text}${result.slice(statement.getEnd())}`;
+  }
+  return result;
+};
+
+const restoreMagics = (lines: string[]) => {
+  const first = lines.findIndex((line) => line.trim().length > 0);
+  const cellMagic = MAGIC_COMMENT_LINE.exec(lines[first] ?? "");
+  if (cellMagic?.[2]!.startsWith("%%")) {
+    return [cellMagic[2]!, uncomment(lines.slice(first + 1))];
+  }
+  return lines.map((line) =>
+    line
+      .replace(MAGIC_COMMENT_LINE, "$1$2")
+      .replace(UI_IMPORT_COMMENT_LINE, "$1$2")
+  );
+};
+
+const bindingNames = (name: ts.BindingName): string[] =>
+  ts.isIdentifier(name)
+    ? [name.text]
+    : name.elements.flatMap((element) =>
+        ts.isOmittedExpression(element) ? [] : bindingNames(element.name)
+      );
+
+// Names a top-level statement binds when the script runs
+const declaredNames = (statement: ts.Statement): string[] => {
+  if (ts.isVariableStatement(statement)) {
+    const ambient = statement.modifiers?.some(
+      (modifier) => modifier.kind === ts.SyntaxKind.DeclareKeyword
+    );
+    return ambient
+      ? []
+      : statement.declarationList.declarations.flatMap((declaration) =>
+          bindingNames(declaration.name)
+        );
+  }
+  if (
+    (ts.isFunctionDeclaration(statement) && statement.body) ||
+    ts.isClassDeclaration(statement)
+  ) {
+    return statement.name ? [statement.name.text] : [];
+  }
+  if (ts.isImportDeclaration(statement)) {
+    const clause = statement.importClause;
+    if (!clause || clause.isTypeOnly) {
+      return [];
+    }
+    const bindings = clause.namedBindings;
+    return [
+      ...(clause.name ? [clause.name.text] : []),
+      ...(bindings && ts.isNamespaceImport(bindings)
+        ? [bindings.name.text]
+        : (bindings?.elements ?? [])
+            .filter((element) => !element.isTypeOnly)
+            .map((element) => element.name.text)),
+    ];
+  }
+  return [];
+};
+
+// Rewrites a statement that declares `names` again as assignments; `fresh`
+// are the names it declares for the first time. Null keeps it as is.
+const redeclare = (
+  statement: ts.Statement,
+  file: ts.SourceFile,
+  fresh: string[]
+): string | null => {
+  const prefix = fresh.length > 0 ? `let ${fresh.join(", ")};\n` : "";
+  if (ts.isVariableStatement(statement)) {
+    const assignments = statement.declarationList.declarations.map(
+      (declaration) => {
+        const target = declaration.name.getText(file);
+        const value = declaration.initializer?.getText(file) ?? "undefined";
+        return ts.isIdentifier(declaration.name)
+          ? `${target} = ${value};`
+          : `(${target} = ${value});`;
+      }
+    );
+    return `${prefix}${assignments.join("\n")}`;
+  }
+  if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+    const text = statement
+      .getText(file)
+      .replace(/^export\s+(?:default\s+)?/, "");
+    return `${statement.name!.text} = ${text};`;
+  }
+  // Importing the same names again is a no-op in a notebook
+  return ts.isImportDeclaration(statement) && fresh.length === 0
+    ? comment(statement.getText(file))
+    : null;
+};
+
+/**
+ * Notebooks let a later cell declare a name again (`const df` in two
+ * cells), which a module rejects. The first declaration becomes a `let` and
+ * the later ones plain assignments, so each cell still sees the value the
+ * cells before it left.
+ */
+const rewriteRedeclarations = (
+  cells: Array<{ source: string; language: "ts" | "js" }>
+) => {
+  const files = cells.map(({ source, language }) =>
+    ts.createSourceFile(
+      `cell.${language}`,
+      source,
+      ts.ScriptTarget.Latest,
+      true,
+      language === "ts" ? ts.ScriptKind.TS : ts.ScriptKind.JS
+    )
+  );
+  const seen = new Set<string>();
+  const redeclared = new Set<string>();
+  for (const file of files) {
+    for (const statement of file.statements) {
+      for (const name of new Set(declaredNames(statement))) {
+        if (seen.has(name)) {
+          redeclared.add(name);
+        }
+        seen.add(name);
+      }
+    }
+  }
+  if (redeclared.size === 0) {
+    return cells.map((cell) => cell.source);
+  }
+
+  const declared = new Set<string>();
+  return files.map((file, index) => {
+    let source = cells[index]!.source;
+    const edits: Array<{ start: number; end: number; text: string }> = [];
+    for (const statement of file.statements) {
+      const names = declaredNames(statement);
+      if (names.some((name) => declared.has(name))) {
+        const text = redeclare(
+          statement,
+          file,
+          names.filter((name) => !declared.has(name))
+        );
+        if (text !== null) {
+          edits.push({
+            start: statement.getStart(file),
+            end: statement.getEnd(),
+            text,
+          });
+        }
+      } else if (
+        ts.isVariableStatement(statement) &&
+        statement.declarationList.flags & ts.NodeFlags.Const &&
+        names.some((name) => redeclared.has(name))
+      ) {
+        const start = statement.declarationList.getStart(file);
+        edits.push({ start, end: start + "const".length, text: "let" });
+      }
+      names.forEach((name) => declared.add(name));
+    }
+    for (const { start, end, text } of edits.reverse()) {
+      source = `${source.slice(0, start)}${text}${source.slice(end)}`;
+    }
+    return source;
+  });
+};
+
+export interface NotebookScript {
+  // `<name>.ts` when any cell is TypeScript, `<name>.mjs` otherwise
+  filename: string;
+  script: string;
+  packageJson: Record<string, unknown>;
+}
+
+/**
+ * Writes a notebook as a `// %%` script that runs with `npm start`. Names a
+ * later cell declares again become assignments; magics and `@nodebooks/ui`
+ * imports are commented out, so helpers only a notebook provides, such as
+ * `prompt()` or `display()`, are not there.
+ */
+export const serializeNotebookToScript = (
+  notebook: Notebook,
+  baseName: string
+): NotebookScript => {
+  const typescript = notebook.cells.some(
+    (cell) => cell.type === "code" && (cell as CodeCell).language === "ts"
+  );
+  const filename = `${baseName}.${typescript ? "ts" : "mjs"}`;
+  const fileCells = serializeNotebookToFileDefinition(notebook).notebook.cells;
+  const variables = Object.keys(notebook.env.variables);
+
+  // Comments ahead of the first marker belong to no cell
+  const header = comment(
+    [
+      notebook.name,
+      "",
+      "Exported from NodeBooks. Install dependencies with `npm install`,",
+      "then run `npm start`. Magics and @nodebooks/ui imports are commented",
+      "out; notebook-only helpers such as prompt(), display() and expect()",
+      "are not available.",
+      ...(variables.length > 0
+        ? ["", `Reads these environment variables: ${variables.join(", ")}`]
+        : []),
+    ].join("\n")
+  );
+
+  const codeCells = notebook.cells.filter(
+    (cell): cell is CodeCell => cell.type === "code"
+  );
+  const codeSources = rewriteRedeclarations(
+    codeCells.map((cell) => ({
+      source: commentUiImports(commentMagics(cell.source), cell.language),
+      language: cell.language,
+    }))
+  );
+
+  const sections = notebook.cells.map((cell, index) => {
+    if (cell.type === "code") {
+      const source = codeSources[codeCells.indexOf(cell as CodeCell)]!;
+      return `${SCRIPT_CELL_MARKER}\n${source.replace(/\n$/, "")}`;
+    }
+    if (cell.type === "markdown") {
+      return `${SCRIPT_CELL_MARKER} [markdown]\n${comment((cell as MarkdownCell).source)}`;
+    }
+    // Plugin cells don't run outside a notebook; their definition is kept so
+    // the script can be imported back
+    const fileCell = fileCells[index]!;
+    return `${SCRIPT_CELL_MARKER} [${fileCell.type}]\n${comment(YAML.stringify(fileCell))}`;
+  });
+
+  const nodeMajor = /^v?(\d+)/.exec(notebook.env.version)?.[1];
+  const packageJson: Record<string, unknown> = {
+    name: baseName,
+    version: "0.1.0",
+    private: true,
+    type: "module",
+    scripts: {
+      start: typescript ? `tsx ${filename}` : `node ${filename}`,
+    },
+    dependencies: { ...notebook.env.packages },
+    ...(typescript ? { devDependencies: { tsx: TSX_VERSION } } : {}),
+    ...(nodeMajor ? { engines: { node: `>=${nodeMajor}` } } : {}),
+  };
+
+  return {
+    filename,
+    script: `${[header, ...sections].join("\n\n")}\n`,
+    packageJson,
+  };
+};
+
+// The script and its package.json as a zip archive
+export const packNotebookScript = ({
+  filename,
+  script,
+  packageJson,
+}: NotebookScript) =>
+  zipSync({
+    [filename]: strToU8(script),
+    "package.json": strToU8(`${JSON.stringify(packageJson, null, 2)}\n`),
+  });
+
+const SCRIPT_MARKER_LINE = /^\s*\/\/ %%(?:\s+\[([\w-]+)\])?/;
+
+export const isScriptContents = (contents: string) =>
+  contents.split(/\r?\n/).some((line) => SCRIPT_MARKER_LINE.test(line));
+
+/**
+ * Reads a `// %%` script into a notebook file definition, one cell per
+ * section. Code before the first marker becomes a cell of its own unless it
+ * is only comments, like the header written on export. Magics commented out
+ * on export are restored. `language` comes from the file extension.
+ */
+export const parseScriptNotebook = (
+  contents: string,
+  language: "ts" | "js",
+  title?: string
+): NotebookFile => {
+  const sections: Array<{ kind?: string; lines: string[] }> = [{ lines: [] }];
+  for (const line of contents.replace(/\r\n?/g, "\n").split("\n")) {
+    const marker = SCRIPT_MARKER_LINE.exec(line);
+    if (marker) {
+      sections.push({ kind: marker[1]?.toLowerCase(), lines: [] });
+    } else {
+      sections[sections.length - 1]!.lines.push(line);
+    }
+  }
+  const preamble = sections[0]!.lines.every(isCommentOrBlank) ? 1 : 0;
+
+  const cells: NotebookFileCell[] = [];
+  for (const section of sections.slice(preamble)) {
+    if (!section.kind) {
+      const source = restoreMagics(section.lines)
+        .join("\n")
+        .replace(/^\s*\n/, "")
+        .trimEnd();
+      if (source.length > 0) {
+        cells.push({ type: "code", language, source });
+      }
+      continue;
+    }
+    const text = uncomment(section.lines).trim();
+    if (section.kind === "markdown" || section.kind === "md") {
+      if (text.length > 0) {
+        cells.push({ type: "markdown", source: text });
+      }
+      continue;
+    }
+    const cell = createPluginFileCell(section.kind, text);
+    if (cell) {
+      cells.push(cell);
+    } else if (text.length > 0) {
+      // Sections of unknown kinds keep their text as prose
+      cells.push({ type: "markdown", source: text });
+    }
+  }
+
+  return NotebookFileSchema.parse({ title, notebook: { cells } });
+};
@@ -0,0 +1,179 @@
+import type {
+  CodeCell,
+  Notebook,
+  NotebookCell,
+  NotebookTestCase,
+  NotebookTestReport,
+  NotebookTestStatus,
+} from "@nodebooks/notebook-schema";
+import {
+  runNotebook,
+  type CellRunResult,
+  type NotebookRunOptions,
+  type NotebookRunResult,
+} from "./runner.js";
+
+export type NotebookTestOptions = Omit<NotebookRunOptions, "continueOnError">;
+
+export interface NotebookTestResult {
+  report: NotebookTestReport;
+  result: NotebookRunResult;
+}
+
+export const isTestCell = (cell: NotebookCell): cell is CodeCell =>
+  cell.type === "code" && cell.metadata?.test === true;
+
+// A leading `// comment` names the test; otherwise the cell position does
+export const describeTestCell = (cell: CodeCell, index: number) => {
+  const firstLine = cell.source.trimStart().split("\n", 1)[0] ?? "";
+  const comment = /^\/\/\s*(.+)$/.exec(firstLine.trim());
+  return comment ? comment[1]!.trim() : `Cell ${index + 1}`;
+};
+
+const toTestStatus = (result: CellRunResult): NotebookTestStatus => {
+  if (result.status === "ok") {
+    return "passed";
+  }
+  if (result.status === "skipped") {
+    return "skipped";
+  }
+  return result.error?.ename === "AssertionError" ? "failed" : "error";
+};
+
+/**
+ * Runs the notebook in a fresh kernel and reports every test cell as a test
+ * case. All cells run even after a failure so each test gets a verdict; a
+ * failing setup cell is reported as an error case since the tests after it
+ * cannot be trusted.
+ */
+export const runNotebookTests = async (
+  notebook: Notebook,
+  options: NotebookTestOptions = {}
+): Promise<NotebookTestResult> => {
+  const started = Date.now();
+  const result = await runNotebook(notebook, {
+    ...options,
+    continueOnError: true,
+  });
+
+  const cases: NotebookTestCase[] = [];
+  for (const cellResult of result.cells) {
+    const cell = notebook.cells[cellResult.index];
+    if (!cell) {
+      continue;
+    }
+    const status = toTestStatus(cellResult);
+    const test = isTestCell(cell);
+    if (!test && status === "passed") {
+      continue;
+    }
+    cases.push({
+      cellId: cellResult.cellId,
+      index: cellResult.index,
+      name: test
+        ? describeTestCell(cell, cellResult.index)
+        : `Setup: cell ${cellResult.index + 1}`,
+      kind: test ? "test" : "setup",
+      status,
+      durationMs: cellResult.durationMs,
+      ...(cellResult.error
+        ? {
+            message: `${cellResult.error.ename}: ${cellResult.error.evalue}`,
+          }
+        : {}),
+    });
+  }
+
+  const count = (status: NotebookTestStatus) =>
+    cases.filter((entry) => entry.status === status).length;
+  const summary = {
+    total: cases.length,
+    passed: count("passed"),
+    failed: count("failed"),
+    errors: count("error"),
+    skipped: count("skipped"),
+  };
+  return {
+    report: {
+      notebookId: notebook.id,
+      name: notebook.name,
+      startedAt: new Date(started).toISOString(),
+      durationMs: Date.now() - started,
+      status:
+        summary.failed + summary.errors > 0 || result.status === "error"
+          ? "failed"
+          : "passed",
+      summary,
+      cases,
+    },
+    result,
+  };
+};
+
+const escapeXml = (value: string) =>
+  value
+    // Control characters are not allowed in XML 1.0, even escaped
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+const formatTestCase = (
+  report: NotebookTestReport,
+  entry: NotebookTestCase
+) => {
+  const open = `    <testcase classname="${escapeXml(report.name)}" name="${escapeXml(
+    entry.name
+  )}" time="${seconds(entry.durationMs)}">`;
+  const message = escapeXml(entry.message ?? entry.status);
+  switch (entry.status) {
+    case "failed":
+      return `${open}\n      <failure message="${message}" type="AssertionError">${message}</failure>\n    </testcase>`;
+    case "error":
+      return `${open}\n      <error message="${message}">${message}</error>\n    </testcase>`;
+    case "skipped":
+      return `${open}\n      <skipped/>\n    </testcase>`;
+    default:
+      return `${open}</testcase>`;
+  }
+};
+
+/** JUnit XML with one `<testsuite>` per notebook, as CI servers expect. */
+export const formatJUnitReport = (reports: NotebookTestReport[]) => {
+  const total = (key: keyof NotebookTestReport["summary"]) =>
+    reports.reduce((sum, report) => sum + report.summary[key], 0);
+  const time = seconds(
+    reports.reduce((sum, report) => sum + report.durationMs, 0)
+  );
+  const suites = reports.map((report) => {
+    const { summary } = report;
+    const attributes = [
+      `name="${escapeXml(report.name)}"`,
+      `id="${escapeXml(report.notebookId)}"`,
+      `tests="${summary.total}"`,
+      `failures="${summary.failed}"`,
+      `errors="${summary.errors}"`,
+      `skipped="${summary.skipped}"`,
+      `time="${seconds(report.durationMs)}"`,
+      `timestamp="${report.startedAt}"`,
+    ].join(" ");
+    const cases = report.cases.map((entry) => formatTestCase(report, entry));
+    return [`  <testsuite ${attributes}>`, ...cases, "  </testsuite>"].join(
+      "\n"
+    );
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="nodebooks" tests="${total("total")}" failures="${total(
+      "failed"
+    )}" errors="${total("errors")}" skipped="${total("skipped")}" time="${time}">`,
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n");
+};
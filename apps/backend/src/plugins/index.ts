@@ -1,5 +1,6 @@
 import type { FastifyInstance } from "fastify";
 import type {
+  MagicDefinition,
   NotebookStore,
   NotebookCollaboratorStore,
   SessionManager,
@@ -223,3 +224,22 @@ export async function loadPlugins(
 
   return loadedPlugins;
 }
+
+/**
+ * Collects the magics of every loaded plugin that is currently enabled.
+ */
+export async function getEnabledPluginMagics(
+  pluginSettings?: PluginSettingsManager
+): Promise<MagicDefinition[]> {
+  const magics: MagicDefinition[] = [];
+  for (const plugin of backendPluginRegistry.getAllPlugins()) {
+    if (!plugin.magics?.length) {
+      continue;
+    }
+    if (pluginSettings && !(await pluginSettings.getPluginEnabled(plugin.id))) {
+      continue;
+    }
+    magics.push(...plugin.magics);
+  }
+  return magics;
+}
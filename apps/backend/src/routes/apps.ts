@@ -0,0 +1,124 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { KernelLimitError } from "@nodebooks/runtime-host";
+import type { NotebookCollaboratorStore, NotebookStore } from "../types.js";
+import { createAppToken, hashAppToken } from "../auth/app-token.js";
+import {
+  NotebookAppBusyError,
+  findNotebookApp,
+  isAppRequestAuthorized,
+  readAppToken,
+  type NotebookAppRunner,
+} from "../notebooks/apps.js";
+import { NotebookParameterError } from "../notebooks/parameters.js";
+import { ensureNotebookAccess } from "../notebooks/permissions.js";
+
+const AppRequestBodySchema = z.record(z.string(), z.unknown());
+
+export interface NotebookAppRouteOptions {
+  store: NotebookStore;
+  collaborators: NotebookCollaboratorStore;
+  runner: NotebookAppRunner;
+}
+
+export const registerNotebookAppRoutes = (
+  app: FastifyInstance,
+  { store, collaborators, runner }: NotebookAppRouteOptions
+) => {
+  // Session auth is skipped for this path; apps check their own token.
+  app.post("/apps/:slug", async (request, reply) => {
+    const params = z
+      .object({ slug: z.string().min(1) })
+      .safeParse(request.params);
+    if (!params.success) {
+      void reply.code(400).send({ error: "Invalid app slug" });
+      return;
+    }
+    const notebook = await findNotebookApp(store, params.data.slug);
+    if (!notebook?.app) {
+      reply.code(404);
+      return { error: "App not found" };
+    }
+    if (!isAppRequestAuthorized(notebook.app, readAppToken(request.headers))) {
+      reply.code(401);
+      return { error: "Invalid or missing API token" };
+    }
+    const body = AppRequestBodySchema.safeParse(request.body ?? {});
+    if (!body.success) {
+      reply.code(400);
+      return { error: "Request body must be a JSON object" };
+    }
+
+    try {
+      const response = await runner.run(
+        { ...notebook, app: notebook.app },
+        body.data
+      );
+      reply.code(response.status);
+      for (const [name, value] of Object.entries(response.headers)) {
+        reply.header(name, value);
+      }
+      if (response.status === 204) {
+        return reply.send();
+      }
+      if (typeof response.body === "string") {
+        return reply.send(response.body);
+      }
+      if (!reply.hasHeader("content-type")) {
+        reply.type("application/json; charset=utf-8");
+      }
+      return reply.send(JSON.stringify(response.body ?? null));
+    } catch (error) {
+      if (error instanceof NotebookParameterError) {
+        reply.code(400);
+        return { error: error.message };
+      }
+      if (
+        error instanceof NotebookAppBusyError ||
+        error instanceof KernelLimitError
+      ) {
+        reply.code(429);
+        return { error: error.message };
+      }
+      throw error;
+    }
+  });
+
+  // The token is only ever returned here; the notebook keeps its hash.
+  app.post("/notebooks/:id/app/token", async (request, reply) => {
+    const params = z
+      .object({ id: z.string().min(1) })
+      .safeParse(request.params);
+    if (!params.success) {
+      void reply.code(400).send({ error: "Invalid notebook id" });
+      return;
+    }
+    const notebook = await store.get(params.data.id);
+    if (!notebook) {
+      reply.code(404);
+      return { error: "Notebook not found" };
+    }
+    if (
+      !(await ensureNotebookAccess(
+        request,
+        reply,
+        collaborators,
+        notebook.id,
+        "editor"
+      ))
+    ) {
+      return;
+    }
+    if (!notebook.app) {
+      reply.code(400);
+      return { error: "Configure the notebook as an app first" };
+    }
+
+    const token = createAppToken();
+    await store.save({
+      ...notebook,
+      app: { ...notebook.app, tokenHash: hashAppToken(token) },
+    });
+    return { data: { token } };
+  });
+};
@@ -48,7 +48,10 @@ const nanoid = customAlphabet("1234567890abcdefghijklmnopqrstuvwxyz", 16);
 
 const encodeUrlComponent = (value: string) => encodeURIComponent(value);
 
-const buildAttachmentContentUrl = (notebookId: string, attachmentId: string) =>
+export const buildAttachmentContentUrl = (
+  notebookId: string,
+  attachmentId: string
+) =>
   `/api/notebooks/${encodeUrlComponent(notebookId)}/attachments/${encodeUrlComponent(
     attachmentId
   )}/content`;
@@ -3,13 +3,18 @@ import { z } from "zod";
 import {
   createCodeCell,
   ensureNotebookRuntimeVersion,
+  getLockedVersions,
+  mergeProjectEnv,
   NotebookSchema,
+  type Notebook,
 } from "@nodebooks/notebook-schema";
+import type { ProjectDefaultsResolver } from "@nodebooks/cell-plugin-api";
 import type { NotebookCollaboratorStore, NotebookStore } from "../types.js";
 import { WorkerClient } from "@nodebooks/runtime-host";
 import { getWorkerPool } from "../kernel/runtime-pool.js";
 import { loadServerConfig } from "@nodebooks/config";
 import { ensureNotebookAccess } from "../notebooks/permissions.js";
+import { captureInstalledLockfile } from "../notebooks/lockfile.js";
 
 const encodePackagePath = (name: string) => {
   // Encode each path component while preserving slashes
@@ -35,8 +40,57 @@ const resolveVersion = async (name: string, version: string) => {
 export const registerDependencyRoutes = (
   app: FastifyInstance,
   store: NotebookStore,
-  collaborators: NotebookCollaboratorStore
+  collaborators: NotebookCollaboratorStore,
+  resolveProjectDefaults?: ProjectDefaultsResolver
 ) => {
+  // Installs run with the project's packages too, as cells do
+  const resolveInstallEnv = async (notebook: Notebook) =>
+    mergeProjectEnv(notebook.env, await resolveProjectDefaults?.(notebook));
+
+  // Keeps the versions the install just resolved with the notebook
+  const saveInstalledLockfile = async (
+    notebook: Notebook,
+    packages: Record<string, string>
+  ) => {
+    const env = await captureInstalledLockfile(notebook, packages);
+    return env ? store.save({ ...notebook, env }) : notebook;
+  };
+
+  app.get("/notebooks/:id/dependencies", async (request, reply) => {
+    const params = z.object({ id: z.string() }).parse(request.params);
+    const notebook = await store.get(params.id);
+    if (!notebook) {
+      reply.code(404);
+      return { error: "Notebook not found" };
+    }
+
+    if (
+      !(await ensureNotebookAccess(
+        request,
+        reply,
+        collaborators,
+        notebook.id,
+        "viewer"
+      ))
+    ) {
+      return;
+    }
+
+    const locked = getLockedVersions(notebook.env.lockfile);
+    const { packages } = await resolveInstallEnv(notebook);
+    const dependencies = await Promise.all(
+      Object.entries(packages).map(async ([name, range]) => ({
+        name,
+        range,
+        // Comes from the project's defaults
+        inherited: !(name in notebook.env.packages),
+        locked: locked[name] ?? null,
+        latest: await resolveVersion(name, "latest").catch(() => null),
+      }))
+    );
+    return { data: dependencies };
+  });
+
   app.post("/notebooks/:id/dependencies", async (request, reply) => {
     const params = z.object({ id: z.string() }).parse(request.params);
     const body = z
@@ -84,14 +138,16 @@ export const registerDependencyRoutes = (
     try {
       const runtime = new WorkerClient(getWorkerPool());
       const { kernelTimeoutMs } = loadServerConfig();
+      const env = await resolveInstallEnv(updated);
       const result = await runtime.execute({
         cell: createCodeCell({ language: "js", source: "" }),
         code: "",
         notebookId: updated.id,
-        env: updated.env,
+        env,
         timeoutMs: kernelTimeoutMs,
       });
-      return { data: { env: updated.env, outputs: result.outputs } };
+      const saved = await saveInstalledLockfile(updated, env.packages);
+      return { data: { env: saved.env, outputs: result.outputs } };
     } catch (error) {
       // Roll back env change on failure
       await store.save(
@@ -157,14 +213,16 @@ export const registerDependencyRoutes = (
     try {
       const runtime = new WorkerClient(getWorkerPool());
       const { kernelTimeoutMs } = loadServerConfig();
+      const env = await resolveInstallEnv(updated);
       const result = await runtime.execute({
         cell: createCodeCell({ language: "js", source: "" }),
         code: "",
         notebookId: updated.id,
-        env: updated.env,
+        env,
         timeoutMs: kernelTimeoutMs,
       });
-      return { data: { env: updated.env, outputs: result.outputs } };
+      const saved = await saveInstalledLockfile(updated, env.packages);
+      return { data: { env: saved.env, outputs: result.outputs } };
     } catch (error) {
       // Roll back on failure
       await store.save(
@@ -1,19 +1,23 @@
+import { Buffer } from "node:buffer";
 import type { FastifyInstance } from "fastify";
 import { z } from "zod";
-import YAML from "yaml";
 import {
   ensureNotebookRuntimeVersion,
+  NotebookAppSchema,
   NotebookCellSchema,
   NotebookEnvSchema,
+  NotebookParameterSchema,
+  NotebookScheduleSchema,
   NotebookSchema,
-  NotebookFileSchema,
   SLUG_MAX_LENGTH,
   type NotebookEnv,
 } from "@nodebooks/notebook-schema";
 import type { Notebook } from "@nodebooks/notebook-schema";
 import type {
+  NotebookAttachmentContent,
   NotebookCollaboratorStore,
   NotebookRole,
+  NotebookRunStore,
   NotebookStore,
 } from "../types.js";
 import {
@@ -22,9 +26,32 @@ import {
 } from "../templates/index.js";
 import {
   createNotebookFromFileDefinition,
+  parseNotebookFile,
   serializeNotebookToFileDefinition,
+  stringifyNotebookFile,
 } from "../notebooks/file.js";
+import { findMarkdownAttachmentIds } from "../notebooks/attachment-links.js";
+import {
+  isIpynbContents,
+  linkIpynbAttachments,
+  parseIpynbNotebook,
+  serializeNotebookToIpynb,
+  stringifyIpynbNotebook,
+  type IpynbAttachment,
+} from "../notebooks/ipynb.js";
+import {
+  parseMarkdownNotebook,
+  serializeNotebookToMarkdown,
+} from "../notebooks/markdown.js";
+import {
+  isScriptContents,
+  packNotebookScript,
+  parseScriptNotebook,
+  serializeNotebookToScript,
+} from "../notebooks/script.js";
 import { generateUniqueNotebookSlug } from "../notebooks/slug.js";
+import { buildAttachmentContentUrl } from "./attachments.js";
+import { CronExpressionError, parseCronExpression } from "../notebooks/cron.js";
 
 const NotebookMutationSchema = z.object({
   name: z.string().min(1).optional(),
@@ -32,6 +59,12 @@ const NotebookMutationSchema = z.object({
   cells: z.array(NotebookCellSchema).optional(),
   projectId: z.string().nullable().optional(),
   projectOrder: z.number().int().nonnegative().nullable().optional(),
+  reactive: z.boolean().optional(),
+  strict: z.boolean().optional(),
+  parameters: z.array(NotebookParameterSchema).optional(),
+  schedule: NotebookScheduleSchema.nullable().optional(),
+  // The token hash is only ever set by the token endpoint
+  app: NotebookAppSchema.omit({ tokenHash: true }).nullable().optional(),
 });
 
 const NotebookCreateSchema = NotebookMutationSchema.extend({
@@ -40,6 +73,14 @@ const NotebookCreateSchema = NotebookMutationSchema.extend({
 
 const NotebookImportSchema = z.object({
   contents: z.string().min(1),
+  // Names notebooks whose file carries no title
+  filename: z.string().optional(),
+});
+
+const SCRIPT_EXTENSIONS = new Set(["ts", "mts", "js", "mjs"]);
+
+const NotebookExportQuerySchema = z.object({
+  format: z.enum(["nb.yml", "ipynb", "md", "script"]).default("nb.yml"),
 });
 
 const NotebookPublishSchema = z
@@ -95,20 +136,46 @@ const mergeNotebookEnv = (
   });
 };
 
+const withLockfile = (
+  env: NotebookEnv,
+  lockfile: NotebookEnv["lockfile"]
+): NotebookEnv => {
+  const { lockfile: _lockfile, ...rest } = env;
+  return lockfile ? { ...rest, lockfile } : rest;
+};
+
 export const registerNotebookRoutes = (
   app: FastifyInstance,
   store: NotebookStore,
-  collaborators: NotebookCollaboratorStore
+  collaborators: NotebookCollaboratorStore,
+  runs?: NotebookRunStore
 ) => {
+  // Contents of the attachments a notebook's markdown shows, by id
+  const loadMarkdownAttachments = async (notebook: Notebook) => {
+    const attachments = new Map<string, NotebookAttachmentContent>();
+    for (const attachmentId of findMarkdownAttachmentIds(notebook)) {
+      const attachment = await store.getAttachment(notebook.id, attachmentId);
+      if (attachment) {
+        attachments.set(attachmentId, attachment);
+      }
+    }
+    return attachments;
+  };
+
   app.get("/notebooks", async (request, reply) => {
     if (!ensureAuthenticated(request, reply)) {
       return;
     }
     const notebooks = await store.all();
+    // Lets the list flag notebooks whose latest run failed
+    const lastRuns = new Map(
+      (runs ? await runs.listLatest() : []).map((run) => [run.notebookId, run])
+    );
     if (request.user.role === "admin") {
       const enriched = notebooks.map((notebook) => ({
         ...formatNotebook(notebook),
         accessRole: "editor" as NotebookRole,
+        lastRun: lastRuns.get(notebook.id) ?? null,
       }));
       void reply.send({ data: enriched });
       return;
@@ -125,6 +192,7 @@ export const registerNotebookRoutes = (
     const enriched = filtered.map((notebook) => ({
       ...formatNotebook(notebook),
       accessRole: roleByNotebook.get(notebook.id) ?? "viewer",
+      lastRun: lastRuns.get(notebook.id) ?? null,
     }));
     void reply.send({ data: enriched });
   });
@@ -230,12 +298,45 @@ export const registerNotebookRoutes = (
     }
 
     const body = NotebookMutationSchema.parse(request.body ?? {});
+    if (body.schedule) {
+      try {
+        parseCronExpression(body.schedule.cron);
+      } catch (error) {
+        if (error instanceof CronExpressionError) {
+          reply.code(400);
+          return { error: error.message };
+        }
+        throw error;
+      }
+    }
+    const { app: appConfig, ...changes } = body;
+    if (appConfig) {
+      const taken = (await store.all()).some(
+        (other) =>
+          other.id !== notebook.id && other.app?.slug === appConfig.slug
+      );
+      if (taken) {
+        reply.code(409);
+        return { error: "App slug already in use" };
+      }
+    }
 
     const updated = await store.save(
       formatNotebook({
         ...notebook,
-        ...body,
-        env: body.env ?? notebook.env,
+        ...changes,
+        ...(appConfig !== undefined
+          ? {
+              app: appConfig
+                ? { ...appConfig, tokenHash: notebook.app?.tokenHash }
+                : null,
+            }
+          : {}),
+        // The lockfile only changes through installs, so an editor holding an
+        // older copy can't roll the pinned versions back
+        env: body.env
+          ? withLockfile(body.env, notebook.env.lockfile)
+          : notebook.env,
         cells: body.cells ?? notebook.cells,
         authorEmail: request.user?.email ?? notebook.authorEmail ?? null,
       })
@@ -419,9 +520,31 @@ export const registerNotebookRoutes = (
       return { error: "Invalid import payload" };
     }
 
+    const { contents, filename } = body.data;
+    const extension = /\.([^.]+)$/.exec(filename ?? "")?.[1]?.toLowerCase();
+    const title = filename?.replace(/\.[^.]+$/, "");
     let parsedFile;
+    let attachments: IpynbAttachment[] = [];
     try {
-      parsedFile = NotebookFileSchema.parse(YAML.parse(body.data.contents));
+      if (isIpynbContents(contents)) {
+        ({ file: parsedFile, attachments } = parseIpynbNotebook(
+          contents,
+          title
+        ));
+      } else if (extension === "md" || extension === "markdown") {
+        parsedFile = parseMarkdownNotebook(contents, title);
+      } else if (
+        (extension && SCRIPT_EXTENSIONS.has(extension)) ||
+        (!extension && isScriptContents(contents))
+      ) {
+        parsedFile = parseScriptNotebook(
+          contents,
+          extension === "js" || extension === "mjs" ? "js" : "ts",
+          title
+        );
+      } else {
+        parsedFile = parseNotebookFile(contents);
+      }
     } catch (error) {
       reply.code(400);
       const message =
@@ -429,9 +552,20 @@ export const registerNotebookRoutes = (
       return { error: message };
     }
 
-    const notebook = await store.save(
+    let notebook = await store.save(
       formatNotebook(createNotebookFromFileDefinition(parsedFile))
     );
+    if (attachments.length > 0) {
+      const urls = new Map<string, string>();
+      for (const attachment of attachments) {
+        const saved = await store.saveAttachment(notebook.id, attachment);
+        urls.set(
+          attachment.key,
+          buildAttachmentContentUrl(notebook.id, saved.id)
+        );
+      }
+      notebook = await store.save(linkIpynbAttachments(notebook, urls));
+    }
 
     reply.code(201);
     void reply.send({
@@ -447,6 +581,11 @@ export const registerNotebookRoutes = (
       void reply.code(400).send({ error: "Invalid notebook id" });
       return;
     }
+    const query = NotebookExportQuerySchema.safeParse(request.query ?? {});
+    if (!query.success) {
+      reply.code(400);
+      return { error: "Unsupported export format" };
+    }
     const { id } = parsedParams.data;
     const notebook = await store.get(id);
     if (!notebook) {
@@ -458,20 +597,48 @@ export const registerNotebookRoutes = (
     ) {
       return;
     }
-    const serialized = serializeNotebookToFileDefinition(
-      formatNotebook(notebook)
-    );
-    const yamlText = YAML.stringify(serialized);
     const baseName =
       notebook.name
         .toLowerCase()
         .replace(/[^a-z0-9]+/g, "-")
         .replace(/^-+|-+$/g, "")
         .slice(0, 64) || "notebook";
-    const filename = `${baseName}.nb.yml`;
+    const { format } = query.data;
+    const filename = `${baseName}.${format === "script" ? "zip" : format}`;
+    reply.header("Content-Disposition", `attachment; filename="${filename}"`);
+
+    if (format === "ipynb") {
+      // Jupyter embeds images in the markdown cells that show them
+      reply.header("Content-Type", "application/x-ipynb+json; charset=utf-8");
+      return stringifyIpynbNotebook(
+        serializeNotebookToIpynb(
+          formatNotebook(notebook),
+          await loadMarkdownAttachments(notebook)
+        )
+      );
+    }
+
+    if (format === "md") {
+      reply.header("Content-Type", "text/markdown; charset=utf-8");
+      return serializeNotebookToMarkdown(
+        formatNotebook(notebook),
+        await loadMarkdownAttachments(notebook)
+      );
+    }
 
+    if (format === "script") {
+      reply.header("Content-Type", "application/zip");
+      return Buffer.from(
+        packNotebookScript(
+          serializeNotebookToScript(formatNotebook(notebook), baseName)
+        )
+      );
+    }
+
+    const serialized = serializeNotebookToFileDefinition(
+      formatNotebook(notebook)
+    );
     reply.header("Content-Type", "application/x-yaml; charset=utf-8");
-    reply.header("Content-Disposition", `attachment; filename="${filename}"`);
-    return yamlText;
+    return stringifyNotebookFile(serialized);
   });
 };
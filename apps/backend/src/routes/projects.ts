@@ -7,6 +7,7 @@ import {
 } from "../notebooks/permissions.js";
 import {
   ensureNotebookRuntimeVersion,
+  ProjectDefaultsSchema,
   SLUG_MAX_LENGTH,
   type Notebook,
 } from "@nodebooks/notebook-schema";
@@ -285,6 +286,46 @@ export const registerProjectRoutes = (
     }
   });
 
+  // Admins and project editors manage what the project's notebooks inherit
+  app.put("/projects/:projectId/defaults", async (request, reply) => {
+    if (!ensureAuthenticated(request, reply)) {
+      return;
+    }
+    const params = z
+      .object({ projectId: z.string().min(1) })
+      .safeParse(request.params);
+    if (!params.success) {
+      void reply.code(400).send({ error: "Invalid project id" });
+      return;
+    }
+    const body = ProjectDefaultsSchema.safeParse(request.body ?? {});
+    if (!body.success) {
+      void reply.code(400).send({ error: "Invalid project defaults" });
+      return;
+    }
+    const project = await options.projects.get(params.data.projectId);
+    if (!project) {
+      void reply.code(404).send({ error: "Project not found" });
+      return;
+    }
+    if (request.user.role !== "admin") {
+      const member = await options.projectCollaborators.get(
+        project.id,
+        request.user.id
+      );
+      if (member?.role !== "editor") {
+        void reply
+          .code(403)
+          .send({ error: "Project permission level is insufficient" });
+        return;
+      }
+    }
+    const updated = await options.projects.update(project.id, {
+      defaults: body.data,
+    });
+    void reply.send({ data: updated });
+  });
+
   app.post("/projects/:projectId/publish", async (request, reply) => {
     if (!ensureAdmin(request, reply)) {
       return;
@@ -82,10 +82,12 @@ const buildPublicPayload = async (
     .map((entry) => ensureNotebookRuntimeVersion(entry))
     .sort(compareByProjectOrder);
 
+  // Defaults may hold connection strings and other private variables
+  const { defaults: _defaults, ...publicProject } = project;
   return {
     notebook: formattedNotebook,
     project: {
-      project,
+      project: publicProject,
       notebooks: projectNotebooks,
     },
   } as const;
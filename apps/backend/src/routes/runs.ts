@@ -0,0 +1,238 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import type {
+  MagicDefinition,
+  ProjectDefaultsResolver,
+} from "@nodebooks/cell-plugin-api";
+import { ensureNotebookRuntimeVersion } from "@nodebooks/notebook-schema";
+import type {
+  NotebookCollaboratorStore,
+  NotebookRunStore,
+  NotebookStore,
+} from "../types.js";
+import { getWorkerPool } from "../kernel/runtime-pool.js";
+import { parseCronExpression } from "../notebooks/cron.js";
+import { RUN_HISTORY_LIMIT, recordNotebookRun } from "../notebooks/history.js";
+import { ensureNotebookAccess } from "../notebooks/permissions.js";
+import { NotebookParameterError } from "../notebooks/parameters.js";
+import { formatJUnitReport, runNotebookTests } from "../notebooks/testing.js";
+import type { SecretsService } from "../secrets/service.js";
+
+const NotebookRunRequestSchema = z.object({
+  parameters: z.record(z.string(), z.unknown()).optional(),
+  continueOnError: z.boolean().optional(),
+});
+
+const NotebookTestRequestSchema = z.object({
+  parameters: z.record(z.string(), z.unknown()).optional(),
+});
+
+export interface NotebookRunRouteOptions {
+  store: NotebookStore;
+  collaborators: NotebookCollaboratorStore;
+  runs: NotebookRunStore;
+  getMagics?: () => Promise<MagicDefinition[]>;
+  secrets?: SecretsService;
+  resolveProjectDefaults?: ProjectDefaultsResolver;
+}
+
+export const registerNotebookRunRoutes = (
+  app: FastifyInstance,
+  {
+    store,
+    collaborators,
+    runs,
+    getMagics,
+    secrets,
+    resolveProjectDefaults,
+  }: NotebookRunRouteOptions
+) => {
+  const nextRunAt = (cron: string) => {
+    try {
+      return parseCronExpression(cron).next(new Date())?.toISOString() ?? null;
+    } catch {
+      return null;
+    }
+  };
+
+  app.get("/notebooks/:id/runs", async (request, reply) => {
+    const params = z
+      .object({ id: z.string().min(1) })
+      .safeParse(request.params);
+    if (!params.success) {
+      void reply.code(400).send({ error: "Invalid notebook id" });
+      return;
+    }
+    const notebook = await store.get(params.data.id);
+    if (!notebook) {
+      reply.code(404);
+      return { error: "Notebook not found" };
+    }
+    if (
+      !(await ensureNotebookAccess(
+        request,
+        reply,
+        collaborators,
+        notebook.id,
+        "viewer"
+      ))
+    ) {
+      return;
+    }
+    const schedule = notebook.schedule;
+    return {
+      data: await runs.listByNotebook(notebook.id, RUN_HISTORY_LIMIT),
+      nextRunAt: schedule?.enabled ? nextRunAt(schedule.cron) : null,
+    };
+  });
+
+  app.get("/notebooks/:id/runs/:runId", async (request, reply) => {
+    const params = z
+      .object({ id: z.string().min(1), runId: z.string().min(1) })
+      .safeParse(request.params);
+    if (!params.success) {
+      void reply.code(400).send({ error: "Invalid run id" });
+      return;
+    }
+    if (
+      !(await ensureNotebookAccess(
+        request,
+        reply,
+        collaborators,
+        params.data.id,
+        "viewer"
+      ))
+    ) {
+      return;
+    }
+    const run = await runs.get(params.data.runId);
+    if (!run || run.notebookId !== params.data.id) {
+      reply.code(404);
+      return { error: "Run not found" };
+    }
+    return { data: run };
+  });
+
+  // Runs a fresh copy of the notebook and returns it with outputs; the stored
+  // notebook is left untouched so reports can be run with different inputs.
+  // The run is also added to the notebook's history.
+  app.post("/notebooks/:id/runs", async (request, reply) => {
+    const params = z
+      .object({ id: z.string().min(1) })
+      .safeParse(request.params);
+    if (!params.success) {
+      void reply.code(400).send({ error: "Invalid notebook id" });
+      return;
+    }
+    const body = NotebookRunRequestSchema.safeParse(request.body ?? {});
+    if (!body.success) {
+      reply.code(400);
+      return { error: "Invalid run payload" };
+    }
+
+    const notebook = await store.get(params.data.id);
+    if (!notebook) {
+      reply.code(404);
+      return { error: "Notebook not found" };
+    }
+    if (
+      !(await ensureNotebookAccess(
+        request,
+        reply,
+        collaborators,
+        notebook.id,
+        "editor"
+      ))
+    ) {
+      return;
+    }
+
+    try {
+      const { run, result } = await recordNotebookRun(notebook, {
+        runs,
+        trigger: "manual",
+        pool: getWorkerPool(),
+        parameters: body.data.parameters,
+        continueOnError: body.data.continueOnError,
+        magics: await getMagics?.(),
+        secrets: await secrets?.resolve(notebook, request.user?.id),
+        projectDefaults: await resolveProjectDefaults?.(notebook),
+      });
+      if (!result) {
+        reply.code(500);
+        return { error: run.error ?? "Run failed", runId: run.id };
+      }
+      void reply.send({
+        data: {
+          ...result,
+          runId: run.id,
+          notebook: ensureNotebookRuntimeVersion(result.notebook),
+        },
+      });
+    } catch (error) {
+      if (error instanceof NotebookParameterError) {
+        reply.code(400);
+        return { error: error.message };
+      }
+      throw error;
+    }
+  });
+
+  // Runs the notebook's test cells; `?format=junit` answers with JUnit XML
+  // for CI jobs instead of the JSON report.
+  app.post("/notebooks/:id/tests", async (request, reply) => {
+    const params = z
+      .object({ id: z.string().min(1) })
+      .safeParse(request.params);
+    if (!params.success) {
+      void reply.code(400).send({ error: "Invalid notebook id" });
+      return;
+    }
+    const query = z
+      .object({ format: z.enum(["json", "junit"]).optional() })
+      .safeParse(request.query ?? {});
+    const body = NotebookTestRequestSchema.safeParse(request.body ?? {});
+    if (!query.success || !body.success) {
+      reply.code(400);
+      return { error: "Invalid test payload" };
+    }
+
+    const notebook = await store.get(params.data.id);
+    if (!notebook) {
+      reply.code(404);
+      return { error: "Notebook not found" };
+    }
+    if (
+      !(await ensureNotebookAccess(
+        request,
+        reply,
+        collaborators,
+        notebook.id,
+        "editor"
+      ))
+    ) {
+      return;
+    }
+
+    try {
+      const { report } = await runNotebookTests(notebook, {
+        pool: getWorkerPool(),
+        parameters: body.data.parameters,
+        magics: await getMagics?.(),
+        secrets: await secrets?.resolve(notebook, request.user?.id),
+        projectDefaults: await resolveProjectDefaults?.(notebook),
+      });
+      if (query.data.format === "junit") {
+        reply.type("application/xml; charset=utf-8");
+        return reply.send(formatJUnitReport([report]));
+      }
+      return { data: report };
+    } catch (error) {
+      if (error instanceof NotebookParameterError) {
+        reply.code(400);
+        return { error: error.message };
+      }
+      throw error;
+    }
+  });
+};
@@ -0,0 +1,211 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
+import {
+  NotebookSecretScopeSchema,
+  type Notebook,
+  type NotebookSecretScope,
+} from "@nodebooks/notebook-schema";
+import type {
+  NotebookCollaboratorStore,
+  NotebookStore,
+  ProjectCollaboratorStore,
+  SafeUser,
+} from "../types.js";
+import { ensureNotebookAccess } from "../notebooks/permissions.js";
+import {
+  InvalidSecretNameError,
+  SecretsUnavailableError,
+  type SecretsService,
+} from "../secrets/service.js";
+
+const SecretParamsSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+});
+
+const SecretWriteSchema = z.object({
+  value: z.string(),
+  scope: NotebookSecretScopeSchema.default("notebook"),
+});
+
+const SecretScopeQuerySchema = z.object({
+  scope: NotebookSecretScopeSchema.default("notebook"),
+});
+
+export interface SecretRouteOptions {
+  store: NotebookStore;
+  collaborators: NotebookCollaboratorStore;
+  projectCollaborators: ProjectCollaboratorStore;
+  secrets: SecretsService;
+}
+
+export const registerSecretRoutes = (
+  app: FastifyInstance,
+  { store, collaborators, projectCollaborators, secrets }: SecretRouteOptions
+) => {
+  const loadNotebook = async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    id: string
+  ) => {
+    const notebook = await store.get(id);
+    if (!notebook) {
+      void reply.code(404).send({ error: "Notebook not found" });
+      return null;
+    }
+    const role = await ensureNotebookAccess(
+      request,
+      reply,
+      collaborators,
+      notebook.id,
+      "viewer"
+    );
+    return role ? notebook : null;
+  };
+
+  // Returns the id secrets of `scope` are stored under once the user is
+  // allowed to change them. Anyone with access manages their own secrets.
+  const authorizeScope = async (
+    request: FastifyRequest & { user: SafeUser },
+    reply: FastifyReply,
+    notebook: Notebook,
+    scope: NotebookSecretScope
+  ): Promise<string | null> => {
+    switch (scope) {
+      case "user":
+        return request.user.id;
+      case "notebook":
+        return (await ensureNotebookAccess(
+          request,
+          reply,
+          collaborators,
+          notebook.id,
+          "editor"
+        ))
+          ? notebook.id
+          : null;
+      case "project": {
+        const projectId = notebook.projectId;
+        if (!projectId) {
+          void reply
+            .code(400)
+            .send({ error: "Notebook does not belong to a project" });
+          return null;
+        }
+        if (request.user.role !== "admin") {
+          const member = await projectCollaborators.get(
+            projectId,
+            request.user.id
+          );
+          if (member?.role !== "editor") {
+            void reply
+              .code(403)
+              .send({ error: "Project permission level is insufficient" });
+            return null;
+          }
+        }
+        return projectId;
+      }
+    }
+  };
+
+  // Names and scopes only; values never leave the server
+  app.get("/notebooks/:id/secrets", async (request, reply) => {
+    const params = z
+      .object({ id: z.string().min(1) })
+      .safeParse(request.params);
+    if (!params.success) {
+      void reply.code(400).send({ error: "Invalid notebook id" });
+      return;
+    }
+    const notebook = await loadNotebook(request, reply, params.data.id);
+    if (!notebook || !request.user) {
+      return;
+    }
+    const [project, own, user] = await Promise.all([
+      notebook.projectId
+        ? secrets.list("project", notebook.projectId)
+        : Promise.resolve([]),
+      secrets.list("notebook", notebook.id),
+      secrets.list("user", request.user.id),
+    ]);
+    return {
+      data: [...project, ...own, ...user],
+      enabled: await secrets.isAvailable(),
+    };
+  });
+
+  app.put("/notebooks/:id/secrets/:name", async (request, reply) => {
+    const params = SecretParamsSchema.safeParse(request.params);
+    const body = SecretWriteSchema.safeParse(request.body ?? {});
+    if (!params.success || !body.success) {
+      void reply.code(400).send({ error: "Invalid secret payload" });
+      return;
+    }
+    const notebook = await loadNotebook(request, reply, params.data.id);
+    if (!notebook || !request.user) {
+      return;
+    }
+    const scopeId = await authorizeScope(
+      request as FastifyRequest & { user: SafeUser },
+      reply,
+      notebook,
+      body.data.scope
+    );
+    if (!scopeId) {
+      return;
+    }
+    try {
+      const secret = await secrets.set({
+        scope: body.data.scope,
+        scopeId,
+        name: params.data.name,
+        value: body.data.value,
+        updatedBy: request.user.id,
+      });
+      return { data: secret };
+    } catch (error) {
+      if (error instanceof InvalidSecretNameError) {
+        reply.code(400);
+        return { error: error.message };
+      }
+      if (error instanceof SecretsUnavailableError) {
+        reply.code(503);
+        return { error: error.message };
+      }
+      throw error;
+    }
+  });
+
+  app.delete("/notebooks/:id/secrets/:name", async (request, reply) => {
+    const params = SecretParamsSchema.safeParse(request.params);
+    const query = SecretScopeQuerySchema.safeParse(request.query ?? {});
+    if (!params.success || !query.success) {
+      void reply.code(400).send({ error: "Invalid secret" });
+      return;
+    }
+    const notebook = await loadNotebook(request, reply, params.data.id);
+    if (!notebook || !request.user) {
+      return;
+    }
+    const scopeId = await authorizeScope(
+      request as FastifyRequest & { user: SafeUser },
+      reply,
+      notebook,
+      query.data.scope
+    );
+    if (!scopeId) {
+      return;
+    }
+    const removed = await secrets.remove(
+      query.data.scope,
+      scopeId,
+      params.data.name
+    );
+    if (!removed) {
+      reply.code(404);
+      return { error: "Secret not found" };
+    }
+    void reply.code(204).send();
+  });
+};
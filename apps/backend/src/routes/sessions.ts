@@ -6,6 +6,7 @@ import type {
   SessionManager,
 } from "../types.js";
 import { ensureNotebookAccess } from "../notebooks/permissions.js";
+import { disposeSessionRuntime } from "../kernel/router.js";
 
 export const registerSessionRoutes = (
   app: FastifyInstance,
@@ -93,6 +94,7 @@ export const registerSessionRoutes = (
       reply.code(404);
       return { error: "Session not found" };
     }
+    disposeSessionRuntime(session.id);
 
     return { data: session };
   });
@@ -1,5 +1,7 @@
 import type { FastifyInstance } from "fastify";
 import { z } from "zod";
+import { isValidRedactionPattern } from "@nodebooks/notebook-schema";
+import type { PackageStore } from "@nodebooks/runtime-node/package-store";
 
 import type { SettingsService, SettingsUpdate } from "../settings/service.js";
 import type { PluginSettingsManager } from "../settings/plugins.js";
@@ -100,12 +102,21 @@ const SettingsUpdateSchema = z
       .optional(),
     aiEnabled: z.boolean().optional(),
     ai: AiSettingsSchema.optional(),
+    redactionPatterns: z
+      .array(
+        z.string().max(500).refine(isValidRedactionPattern, {
+          message: "Invalid regular expression",
+        })
+      )
+      .max(100)
+      .optional(),
   })
   .strict();
 
 export interface RegisterSettingsRoutesOptions {
   settings: SettingsService;
   pluginSettings: PluginSettingsManager;
+  packageStore?: PackageStore;
 }
 
 export const registerSettingsRoutes = async (
@@ -129,7 +140,8 @@ export const registerSettingsRoutes = async (
       return { error: "Invalid settings payload" };
     }
 
-    const { theme, kernelTimeoutMs, ai, aiEnabled } = result.data;
+    const { theme, kernelTimeoutMs, ai, aiEnabled, redactionPatterns } =
+      result.data;
     const updates: SettingsUpdate = {};
     if (theme !== undefined) {
       updates.theme = theme;
@@ -143,6 +155,9 @@ export const registerSettingsRoutes = async (
     if (ai !== undefined) {
       updates.ai = ai;
     }
+    if (redactionPatterns !== undefined) {
+      updates.redactionPatterns = redactionPatterns;
+    }
 
     let snapshot = options.settings.getSnapshot();
     if (Object.keys(updates).length > 0) {
@@ -152,6 +167,28 @@ export const registerSettingsRoutes = async (
     return { data: snapshot };
   });
 
+  app.get("/settings/package-store", async (request, reply) => {
+    if (!ensureAdmin(request, reply)) {
+      return;
+    }
+    if (!options.packageStore) {
+      reply.code(404);
+      return { error: "Package store is not available" };
+    }
+    return { data: await options.packageStore.usage() };
+  });
+
+  app.post("/settings/package-store/gc", async (request, reply) => {
+    if (!ensureAdmin(request, reply)) {
+      return;
+    }
+    if (!options.packageStore) {
+      reply.code(404);
+      return { error: "Package store is not available" };
+    }
+    return { data: await options.packageStore.gc() };
+  });
+
   // Plugin management endpoints
   app.get("/settings/plugins", async (_request, _reply) => {
     if (!ensureAdmin(_request, _reply)) {
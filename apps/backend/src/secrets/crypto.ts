@@ -0,0 +1,78 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { ServerConfig } from "@nodebooks/config";
+import { getCliConfigDir } from "@nodebooks/config/cli";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const ENVELOPE_VERSION = "v1";
+
+// Any string works as a key; hashing stretches it to the 32 bytes AES needs
+export const deriveSecretsKey = (secret: string) =>
+  createHash("sha256").update(secret).digest();
+
+/**
+ * Returns the key secrets are encrypted with. Production servers must set
+ * NODEBOOKS_SECRETS_KEY; development falls back to a generated key kept in
+ * the nbks config directory so secrets survive restarts.
+ */
+export const loadSecretsKey = async (
+  config: ServerConfig
+): Promise<Buffer | null> => {
+  if (config.secretsKey) {
+    return deriveSecretsKey(config.secretsKey);
+  }
+  if (config.isProd) {
+    return null;
+  }
+  const file = path.join(getCliConfigDir(), "secrets.key");
+  try {
+    return deriveSecretsKey((await fs.readFile(file, "utf8")).trim());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+  const generated = randomBytes(32).toString("base64url");
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${generated}\n`, { mode: 0o600, flag: "wx" });
+  return deriveSecretsKey(generated);
+};
+
+// `aad` binds a ciphertext to where it is stored, so rows cannot be swapped
+export const encryptSecret = (key: Buffer, value: string, aad: string) => {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad, "utf8"));
+  const data = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return [
+    ENVELOPE_VERSION,
+    iv.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+    data.toString("base64url"),
+  ].join(".");
+};
+
+export const decryptSecret = (key: Buffer, envelope: string, aad: string) => {
+  const [version, iv, tag, data] = envelope.split(".");
+  if (version !== ENVELOPE_VERSION || !iv || !tag || data === undefined) {
+    throw new Error("Unsupported secret envelope");
+  }
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    key,
+    Buffer.from(iv, "base64url")
+  );
+  decipher.setAAD(Buffer.from(aad, "utf8"));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(data, "base64url")),
+    decipher.final(),
+  ]).toString("utf8");
+};
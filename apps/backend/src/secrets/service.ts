@@ -0,0 +1,152 @@
+import { randomUUID } from "node:crypto";
+import { loadServerConfig } from "@nodebooks/config";
+import {
+  NotebookSecretSchema,
+  SECRET_NAME_PATTERN,
+  type Notebook,
+  type NotebookSecret,
+  type NotebookSecretScope,
+} from "@nodebooks/notebook-schema";
+import type { SecretStore, StoredSecret } from "../types.js";
+import { decryptSecret, encryptSecret, loadSecretsKey } from "./crypto.js";
+
+export class SecretsUnavailableError extends Error {
+  constructor(
+    message = "Secrets are disabled. Set NODEBOOKS_SECRETS_KEY to enable them."
+  ) {
+    super(message);
+    this.name = "SecretsUnavailableError";
+  }
+}
+
+export class InvalidSecretNameError extends Error {
+  constructor(name: string) {
+    super(
+      `Invalid secret name "${name}". Use letters, digits and underscores, not starting with a digit.`
+    );
+    this.name = "InvalidSecretNameError";
+  }
+}
+
+// Later scopes override earlier ones, so a user's own secret wins over the
+// notebook's and the notebook's over the project's.
+const RESOLUTION_ORDER: NotebookSecretScope[] = ["project", "notebook", "user"];
+
+const toSummary = ({ ciphertext: _ciphertext, ...secret }: StoredSecret) =>
+  NotebookSecretSchema.parse(secret);
+
+const secretAad = (scope: NotebookSecretScope, scopeId: string, name: string) =>
+  `${scope}:${scopeId}:${name}`;
+
+export interface SecretsServiceOptions {
+  // Defaults to the configured server key
+  key?: Buffer | null;
+}
+
+export class SecretsService {
+  private keyPromise: Promise<Buffer | null> | null;
+
+  constructor(
+    private readonly store: SecretStore,
+    options: SecretsServiceOptions = {}
+  ) {
+    this.keyPromise =
+      options.key !== undefined ? Promise.resolve(options.key) : null;
+  }
+
+  private getKey(): Promise<Buffer | null> {
+    this.keyPromise ??= loadSecretsKey(loadServerConfig());
+    return this.keyPromise;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return (await this.getKey()) !== null;
+  }
+
+  async list(
+    scope: NotebookSecretScope,
+    scopeId: string
+  ): Promise<NotebookSecret[]> {
+    return (await this.store.list(scope, scopeId)).map(toSummary);
+  }
+
+  async set(input: {
+    scope: NotebookSecretScope;
+    scopeId: string;
+    name: string;
+    value: string;
+    updatedBy?: string | null;
+  }): Promise<NotebookSecret> {
+    if (!SECRET_NAME_PATTERN.test(input.name)) {
+      throw new InvalidSecretNameError(input.name);
+    }
+    const key = await this.getKey();
+    if (!key) {
+      throw new SecretsUnavailableError();
+    }
+    const existing = await this.store.get(
+      input.scope,
+      input.scopeId,
+      input.name
+    );
+    const now = new Date().toISOString();
+    const saved = await this.store.save({
+      id: existing?.id ?? randomUUID(),
+      name: input.name,
+      scope: input.scope,
+      scopeId: input.scopeId,
+      ciphertext: encryptSecret(
+        key,
+        input.value,
+        secretAad(input.scope, input.scopeId, input.name)
+      ),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      updatedBy: input.updatedBy ?? null,
+    });
+    return toSummary(saved);
+  }
+
+  remove(scope: NotebookSecretScope, scopeId: string, name: string) {
+    return this.store.remove(scope, scopeId, name);
+  }
+
+  /**
+   * Decrypts every secret a run of the notebook can see. Runs without a user
+   * (schedules, app endpoints) only get project and notebook secrets.
+   * Secrets that no longer decrypt, e.g. after a key change, are left out.
+   */
+  async resolve(
+    notebook: Pick<Notebook, "id" | "projectId">,
+    userId?: string | null
+  ): Promise<Record<string, string>> {
+    const key = await this.getKey();
+    if (!key) {
+      return {};
+    }
+    const scopeIds: Record<NotebookSecretScope, string | null | undefined> = {
+      project: notebook.projectId,
+      notebook: notebook.id,
+      user: userId,
+    };
+    const resolved: Record<string, string> = {};
+    for (const scope of RESOLUTION_ORDER) {
+      const scopeId = scopeIds[scope];
+      if (!scopeId) {
+        continue;
+      }
+      for (const secret of await this.store.list(scope, scopeId)) {
+        try {
+          resolved[secret.name] = decryptSecret(
+            key,
+            secret.ciphertext,
+            secretAad(scope, scopeId, secret.name)
+          );
+        } catch {
+          // Unreadable with the current key; the UI still lists it
+        }
+      }
+    }
+    return resolved;
+  }
+}
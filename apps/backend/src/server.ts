@@ -16,8 +16,16 @@ import { fileURLToPath } from "node:url";
 import { z } from "zod";
 import { InMemorySessionManager as InMemoryKernelSessionManager } from "./store/memory.js";
 import type { SafeUser, AuthSession } from "./types.js";
+import type {
+  NotebookSecretResolver,
+  ProjectDefaultsResolver,
+  RedactionPatternsProvider,
+} from "@nodebooks/cell-plugin-api";
 import { registerNotebookRoutes } from "./routes/notebooks.js";
 import { registerDependencyRoutes } from "./routes/dependencies.js";
+import { registerNotebookRunRoutes } from "./routes/runs.js";
+import { registerSecretRoutes } from "./routes/secrets.js";
+import { registerNotebookAppRoutes } from "./routes/apps.js";
 import { registerSessionRoutes } from "./routes/sessions.js";
 import { registerTemplateRoutes } from "./routes/templates.js";
 import { registerTypesRoutes } from "./routes/types.js";
@@ -31,7 +39,11 @@ import {
   createKernelUpgradeHandler,
   getSessionGlobals,
 } from "./kernel/router.js";
+import { getAppWorkerPool, getWorkerPool } from "./kernel/runtime-pool.js";
 import { NotebookCollaborationService } from "./notebooks/collaboration.js";
+import { NotebookScheduler } from "./notebooks/scheduler.js";
+import { NotebookAppRunner } from "./notebooks/apps.js";
+import { SecretsService } from "./secrets/service.js";
 import {
   AuthService,
   CannotRemoveLastAdminError,
@@ -44,11 +56,17 @@ import {
   parseCookieHeader,
 } from "./auth/session.js";
 import { registerSettingsRoutes } from "./routes/settings.js";
+import { openRuntimePackageStore } from "./kernel/package-store.js";
 import { loadServerConfig } from "@nodebooks/config";
 import { SettingsService } from "./settings/service.js";
 import { setSettingsService } from "./settings/index.js";
 import { createNotebookStore } from "./store/factory.js";
-import { loadPlugins, type LoadedPlugin } from "./plugins/index.js";
+import type { NotebookChangeListener } from "./store/filesystem.js";
+import {
+  getEnabledPluginMagics,
+  loadPlugins,
+  type LoadedPlugin,
+} from "./plugins/index.js";
 import { PluginSettingsManager } from "./settings/plugins.js";
 
 export { createNotebookStore } from "./store/factory.js";
@@ -96,6 +114,8 @@ export const createServer = async ({ logger }: CreateServerOptions = {}) => {
     projects,
     projectInvitations,
     projectCollaborators,
+    runs,
+    secrets: secretStore,
   } = createNotebookStore({}, baseConfig);
   const settingsService = new SettingsService(settings);
   await settingsService.whenReady();
@@ -163,6 +183,9 @@ export const createServer = async ({ logger }: CreateServerOptions = {}) => {
     if (url === "/api/public" || url.startsWith("/api/public/")) {
       return true;
     }
+    if (url.startsWith("/api/apps/")) {
+      return true;
+    }
     if (url.startsWith("/login")) {
       return true;
     }
@@ -623,6 +646,45 @@ export const createServer = async ({ logger }: CreateServerOptions = {}) => {
 
   const kernelSessions = new InMemoryKernelSessionManager(store);
   const collaboration = new NotebookCollaborationService(store, collaborators);
+  const secrets = new SecretsService(secretStore);
+  const resolveNotebookSecrets: NotebookSecretResolver = (notebook, userId) =>
+    secrets.resolve(notebook, userId);
+  const resolveProjectDefaults: ProjectDefaultsResolver = async (notebook) =>
+    notebook.projectId
+      ? ((await projects.get(notebook.projectId))?.defaults ?? null)
+      : null;
+
+  const scheduler = new NotebookScheduler({
+    store,
+    runs,
+    getPool: getWorkerPool,
+    getMagics: () => getEnabledPluginMagics(pluginSettings),
+    secrets,
+    resolveProjectDefaults,
+    log: app.log,
+  });
+  scheduler.start();
+  const appRunner = new NotebookAppRunner({
+    getPool: getAppWorkerPool,
+    getMagics: () => getEnabledPluginMagics(pluginSettings),
+    secrets,
+    resolveProjectDefaults,
+  });
+  app.addHook("onClose", async () => {
+    await scheduler.stop();
+  });
+
+  const maybeWatchable = store as {
+    onExternalChange?: (listener: NotebookChangeListener) => () => void;
+  };
+  if (typeof maybeWatchable.onExternalChange === "function") {
+    const unsubscribe = maybeWatchable.onExternalChange((notebook) => {
+      collaboration.reload(notebook);
+    });
+    app.addHook("onClose", async () => {
+      unsubscribe();
+    });
+  }
 
   const maybeClosable = store as { close?: () => Promise<void> | void };
   if (typeof maybeClosable.close === "function") {
@@ -649,10 +711,11 @@ export const createServer = async ({ logger }: CreateServerOptions = {}) => {
       await registerSettingsRoutes(api, {
         settings: settingsService,
         pluginSettings,
+        packageStore: openRuntimePackageStore(),
       });
       await registerAiRoutes(api, { settings: settingsService });
       registerAttachmentRoutes(api, store, collaborators);
-      registerNotebookRoutes(api, store, collaborators);
+      registerNotebookRoutes(api, store, collaborators, runs);
       registerProjectRoutes(api, {
         store,
         projects,
@@ -663,11 +726,43 @@ export const createServer = async ({ logger }: CreateServerOptions = {}) => {
       registerPublicViewRoutes(api, { store, projects });
       registerNotebookSharingRoutes(api, { auth: authService });
       registerProjectSharingRoutes(api, { auth: authService });
-      registerDependencyRoutes(api, store, collaborators);
+      registerDependencyRoutes(
+        api,
+        store,
+        collaborators,
+        resolveProjectDefaults
+      );
+      registerNotebookRunRoutes(api, {
+        store,
+        collaborators,
+        runs,
+        getMagics: () => getEnabledPluginMagics(pluginSettings),
+        secrets,
+        resolveProjectDefaults,
+      });
+      registerSecretRoutes(api, {
+        store,
+        collaborators,
+        projectCollaborators,
+        secrets,
+      });
+      registerNotebookAppRoutes(api, {
+        store,
+        collaborators,
+        runner: appRunner,
+      });
       registerSessionRoutes(api, kernelSessions, store, collaborators);
       registerTemplateRoutes(api);
       registerTypesRoutes(api);
 
+      // Cell backends (SQL, HTTP) substitute secrets and project defaults
+      // into requests and redact responses
+      api.decorate("resolveNotebookSecrets", resolveNotebookSecrets);
+      api.decorate("resolveProjectDefaults", resolveProjectDefaults);
+      const getRedactionPatterns: RedactionPatternsProvider = () =>
+        loadServerConfig().redactionPatterns;
+      api.decorate("getRedactionPatterns", getRedactionPatterns);
+
       // Load plugins and register their routes within the API router
       // This allows plugins to register routes under /api prefix
       const loadedPlugins = await loadPlugins({
@@ -710,6 +805,9 @@ export const createServer = async ({ logger }: CreateServerOptions = {}) => {
     store,
     {
       authenticate: authenticateUpgrade,
+      getPluginMagics: () => getEnabledPluginMagics(pluginSettings),
+      resolveSecrets: resolveNotebookSecrets,
+      resolveProjectDefaults,
     }
   );
   const collabUpgrade = collaboration.getUpgradeHandler(
@@ -2,6 +2,7 @@ import { loadServerConfig } from "@nodebooks/config";
 import {
   AiSettingsSchema,
   GlobalSettingsSchema,
+  isValidRedactionPattern,
   ThemeModeSchema,
   type AiProvider,
   type AiSettings,
@@ -57,6 +58,17 @@ const normalizeBooleanSetting = (value: unknown): boolean | undefined => {
   return value;
 };
 
+const normalizeRedactionPatterns = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  const patterns = value
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0 && isValidRedactionPattern(item));
+  return patterns.length > 0 ? Array.from(new Set(patterns)) : undefined;
+};
+
 const hasSecretValue = (value: unknown): boolean => {
   return typeof value === "string" && value.trim().length > 0;
 };
@@ -103,6 +115,7 @@ export interface SettingsSnapshot {
   theme: ThemeMode;
   kernelTimeoutMs: number;
   aiEnabled: boolean;
+  redactionPatterns: string[];
   ai: {
     provider: AiProvider;
     openai: { model: string | null; apiKeyConfigured: boolean };
@@ -119,6 +132,7 @@ export interface SettingsUpdate {
   kernelTimeoutMs?: number;
   aiEnabled?: boolean;
   ai?: AiSettings | null;
+  redactionPatterns?: string[];
 }
 
 export class SettingsService {
@@ -157,6 +171,7 @@ export class SettingsService {
       theme: cfg.theme,
       kernelTimeoutMs: cfg.kernelTimeoutMs,
       aiEnabled: cfg.ai.enabled,
+      redactionPatterns: cfg.redactionPatterns,
       ai: {
         provider: cfg.ai.provider,
         openai: {
@@ -187,6 +202,9 @@ export class SettingsService {
     if (update.ai !== undefined) {
       await this.applyAi(update.ai);
     }
+    if (update.redactionPatterns !== undefined) {
+      await this.applyRedactionPatterns(update.redactionPatterns);
+    }
 
     this.applyRuntimeOverrides();
     return this.getSnapshot();
@@ -234,6 +252,15 @@ export class SettingsService {
       delete normalized.ai;
     }
 
+    const redactionPatterns = normalizeRedactionPatterns(
+      normalized.redactionPatterns
+    );
+    if (redactionPatterns) {
+      normalized.redactionPatterns = redactionPatterns;
+    } else {
+      delete normalized.redactionPatterns;
+    }
+
     return normalized;
   }
 
@@ -281,6 +308,17 @@ export class SettingsService {
     await this.store.delete("ai");
   }
 
+  private async applyRedactionPatterns(value: string[]) {
+    const patterns = normalizeRedactionPatterns(value);
+    if (!patterns) {
+      delete this.settings.redactionPatterns;
+      await this.store.delete("redactionPatterns");
+      return;
+    }
+    this.settings.redactionPatterns = patterns;
+    await this.store.set("redactionPatterns", patterns);
+  }
+
   private applyRuntimeOverrides() {
     const snapshot: Partial<GlobalSettings> = { ...this.settings };
 
@@ -1,11 +1,14 @@
+import { FileSystemNotebookStore } from "./filesystem.js";
 import {
   InMemoryAuthSessionStore,
   InMemoryInvitationStore,
   InMemoryNotebookCollaboratorStore,
+  InMemoryNotebookRunStore,
   InMemoryNotebookStore,
   InMemoryProjectCollaboratorStore,
   InMemoryProjectInvitationStore,
   InMemoryProjectStore,
+  InMemorySecretStore,
   InMemorySettingsStore,
   InMemoryUserStore,
 } from "./memory.js";
@@ -13,10 +16,12 @@ import {
   PostgresAuthSessionStore,
   PostgresInvitationStore,
   PostgresNotebookCollaboratorStore,
+  PostgresNotebookRunStore,
   PostgresNotebookStore,
   PostgresProjectCollaboratorStore,
   PostgresProjectInvitationStore,
   PostgresProjectStore,
+  PostgresSecretStore,
   PostgresSettingsStore,
   PostgresUserStore,
 } from "./postgres.js";
@@ -24,10 +29,12 @@ import {
   SqliteAuthSessionStore,
   SqliteInvitationStore,
   SqliteNotebookCollaboratorStore,
+  SqliteNotebookRunStore,
   SqliteNotebookStore,
   SqliteProjectCollaboratorStore,
   SqliteProjectInvitationStore,
   SqliteProjectStore,
+  SqliteSecretStore,
   SqliteSettingsStore,
   SqliteUserStore,
 } from "./sqlite.js";
@@ -35,22 +42,29 @@ import type {
   AuthSessionStore,
   InvitationStore,
   NotebookCollaboratorStore,
+  NotebookRunStore,
   NotebookStore,
   ProjectCollaboratorStore,
   ProjectInvitationStore,
   ProjectStore,
+  SecretStore,
   SettingsStore,
   UserStore,
 } from "../types.js";
 import { loadServerConfig } from "@nodebooks/config";
 import type { ServerConfig } from "@nodebooks/config";
 
-export type PersistenceDriver = "in-memory" | "sqlite" | "postgres";
+export type PersistenceDriver =
+  | "in-memory"
+  | "sqlite"
+  | "postgres"
+  | "filesystem";
 
 export interface CreateNotebookStoreOptions {
   driver?: string;
   sqlitePath?: string;
   databaseUrl?: string;
+  notebooksDir?: string;
 }
 
 export interface NotebookStoreResult {
@@ -63,6 +77,8 @@ export interface NotebookStoreResult {
   projects: ProjectStore;
   projectInvitations: ProjectInvitationStore;
   projectCollaborators: ProjectCollaboratorStore;
+  runs: NotebookRunStore;
+  secrets: SecretStore;
   driver: PersistenceDriver;
 }
 
@@ -79,8 +95,11 @@ export const resolvePersistenceDriver = (
   if (normalized === "postgres" || normalized === "postgresql") {
     return "postgres";
   }
+  if (normalized === "filesystem" || normalized === "fs") {
+    return "filesystem";
+  }
   throw new Error(
-    `Unsupported NODEBOOKS_PERSISTENCE value "${raw}". Use "in-memory", "sqlite", or "postgres".`
+    `Unsupported NODEBOOKS_PERSISTENCE value "${raw}". Use "in-memory", "sqlite", "postgres", or "filesystem".`
   );
 };
 
@@ -103,6 +122,8 @@ export const createNotebookStore = (
         projects: new InMemoryProjectStore(),
         projectInvitations: new InMemoryProjectInvitationStore(),
         projectCollaborators: new InMemoryProjectCollaboratorStore(),
+        runs: new InMemoryNotebookRunStore(),
+        secrets: new InMemorySecretStore(),
         driver,
       };
     case "sqlite": {
@@ -119,6 +140,33 @@ export const createNotebookStore = (
         projects: new SqliteProjectStore(sqliteStore),
         projectInvitations: new SqliteProjectInvitationStore(sqliteStore),
         projectCollaborators: new SqliteProjectCollaboratorStore(sqliteStore),
+        runs: new SqliteNotebookRunStore(sqliteStore),
+        secrets: new SqliteSecretStore(sqliteStore),
+        driver,
+      };
+    }
+    case "filesystem": {
+      // Notebooks live in files; users, projects, runs and the rest in SQLite
+      const sqliteStore = new SqliteNotebookStore({
+        databaseFile: options.sqlitePath ?? config.persistence.sqlitePath,
+      });
+      const projects = new SqliteProjectStore(sqliteStore);
+      return {
+        store: new FileSystemNotebookStore({
+          directory: options.notebooksDir ?? config.persistence.notebooksDir,
+          index: sqliteStore,
+          projects,
+        }),
+        settings: new SqliteSettingsStore(sqliteStore),
+        users: new SqliteUserStore(sqliteStore),
+        authSessions: new SqliteAuthSessionStore(sqliteStore),
+        invitations: new SqliteInvitationStore(sqliteStore),
+        collaborators: new SqliteNotebookCollaboratorStore(sqliteStore),
+        projects,
+        projectInvitations: new SqliteProjectInvitationStore(sqliteStore),
+        projectCollaborators: new SqliteProjectCollaboratorStore(sqliteStore),
+        runs: new SqliteNotebookRunStore(sqliteStore),
+        secrets: new SqliteSecretStore(sqliteStore),
         driver,
       };
     }
@@ -138,6 +186,8 @@ export const createNotebookStore = (
         projectCollaborators: new PostgresProjectCollaboratorStore(
           postgresStore
         ),
+        runs: new PostgresNotebookRunStore(postgresStore),
+        secrets: new PostgresSecretStore(postgresStore),
         driver,
       };
     }
@@ -0,0 +1,771 @@
+import { watch, type FSWatcher, promises as fs } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import YAML from "yaml";
+import { z } from "zod";
+import { customAlphabet } from "nanoid";
+import {
+  ensureNotebookRuntimeVersion,
+  normalizeSlug,
+  suggestSlug,
+  NotebookFileSchema,
+  NotebookSchema,
+  type Notebook,
+  type NotebookFileCell,
+} from "@nodebooks/notebook-schema";
+import {
+  createNotebookFromFileDefinition,
+  serializeNotebookToFileDefinition,
+} from "../notebooks/file.js";
+import type {
+  NotebookAttachment,
+  NotebookAttachmentContent,
+  NotebookStore,
+  ProjectStore,
+} from "../types.js";
+
+const nanoid = customAlphabet("1234567890abcdefghijklmnopqrstuvwxyz", 12);
+
+const NOTEBOOK_EXTENSION = ".nb.yml";
+const ATTACHMENTS_SUFFIX = ".attachments";
+// Editors and git touch a file several times in a row
+const WATCH_DEBOUNCE_MS = 150;
+
+// What the database drivers keep in columns is written under `nodebooks:`
+// next to the regular `.nb.yml` definition. `updatedAt` is the file's mtime
+// so saving an unchanged notebook doesn't show up in `git diff`.
+const StoredAttachmentSchema = z.object({
+  // Part of the file name, so only what `nanoid` generates
+  id: z.string().regex(/^[a-z0-9]+$/),
+  filename: z.string(),
+  mimeType: z.string(),
+  createdAt: z.string(),
+});
+
+const StoredMetadataSchema = z.object({
+  createdAt: z.string().optional(),
+  projectId: z.string().nullish(),
+  projectOrder: z.number().int().nonnegative().nullish(),
+  published: z.boolean().optional(),
+  publicSlug: z.string().nullish(),
+  authorEmail: z.string().nullish(),
+  app: z.unknown().optional(),
+  attachments: z.array(StoredAttachmentSchema).default([]),
+});
+
+type StoredAttachment = z.infer<typeof StoredAttachmentSchema>;
+
+interface NotebookEntry {
+  notebook: Notebook;
+  // Relative to the store directory, with forward slashes
+  path: string;
+  attachments: StoredAttachment[];
+}
+
+export type NotebookChangeListener = (notebook: Notebook) => void;
+
+export interface FileSystemNotebookStoreOptions {
+  directory?: string;
+  // Mirrors notebooks into a database store so the tables that reference
+  // them (runs, collaborators, secrets) keep working
+  index?: NotebookStore;
+  // Names project folders after project slugs
+  projects?: Pick<ProjectStore, "get" | "getBySlug">;
+  watch?: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isMissingFile = (error: unknown) =>
+  (error as NodeJS.ErrnoException | undefined)?.code === "ENOENT";
+
+const fileExists = (file: string) =>
+  fs.access(file).then(
+    () => true,
+    () => false
+  );
+
+const toPosix = (value: string) => value.split(path.sep).join("/");
+
+const safeFilename = (filename: string) =>
+  // eslint-disable-next-line no-control-regex
+  filename.replace(/[\\/:*?"<>|\u0000-\u001f]/g, "_") || "attachment";
+
+const attachmentsDirectory = (notebookPath: string) =>
+  `${notebookPath.slice(0, -NOTEBOOK_EXTENSION.length)}${ATTACHMENTS_SUFFIX}`;
+
+const attachmentPath = (notebookPath: string, attachment: StoredAttachment) =>
+  `${attachmentsDirectory(notebookPath)}/${attachment.id}-${safeFilename(
+    attachment.filename
+  )}`;
+
+const sanitizeNotebook = (notebook: Notebook): Notebook => {
+  const parsed = ensureNotebookRuntimeVersion(NotebookSchema.parse(notebook));
+  return {
+    ...parsed,
+    publicSlug: normalizeSlug(parsed.publicSlug ?? "") || null,
+    published: Boolean(parsed.published),
+  };
+};
+
+const serializeEntry = ({ notebook, attachments }: NotebookEntry) => {
+  const file = serializeNotebookToFileDefinition(notebook);
+  const cells = file.notebook.cells.map((cell, index) => {
+    // Unknown cells carry the id they were read with in their original data
+    const { id: _staleId, ...rest } = cell as NotebookFileCell & {
+      id?: unknown;
+    };
+    return { id: notebook.cells[index]!.id, ...rest };
+  });
+  const metadata: Record<string, unknown> = { createdAt: notebook.createdAt };
+  if (notebook.projectId) {
+    metadata.projectId = notebook.projectId;
+  }
+  if (notebook.projectOrder !== undefined && notebook.projectOrder !== null) {
+    metadata.projectOrder = notebook.projectOrder;
+  }
+  if (notebook.published) {
+    metadata.published = true;
+  }
+  if (notebook.publicSlug) {
+    metadata.publicSlug = notebook.publicSlug;
+  }
+  if (notebook.authorEmail) {
+    metadata.authorEmail = notebook.authorEmail;
+  }
+  if (notebook.app) {
+    metadata.app = notebook.app;
+  }
+  if (attachments.length > 0) {
+    metadata.attachments = attachments;
+  }
+  return YAML.stringify({
+    id: notebook.id,
+    ...file,
+    notebook: { ...file.notebook, cells },
+    nodebooks: metadata,
+  });
+};
+
+/**
+ * Reads a `.nb.yml` file written by this store or by hand. `complete` is
+ * false when the notebook or one of its cells had no id yet, in which case
+ * the file should be written back so the ids stay stable.
+ */
+const parseEntry = (
+  contents: string,
+  modifiedAt: string
+): {
+  notebook: Notebook;
+  attachments: StoredAttachment[];
+  complete: boolean;
+} => {
+  const raw: unknown = YAML.parse(contents);
+  const file = NotebookFileSchema.parse(raw);
+  const document = isRecord(raw) ? raw : {};
+  const metadata = StoredMetadataSchema.parse(
+    isRecord(document.nodebooks) ? document.nodebooks : {}
+  );
+  const rawCells =
+    isRecord(document.notebook) && Array.isArray(document.notebook.cells)
+      ? (document.notebook.cells as unknown[])
+      : [];
+
+  const created = createNotebookFromFileDefinition(file);
+  const storedId =
+    typeof document.id === "string" && document.id.length > 0
+      ? document.id
+      : null;
+  let complete = storedId !== null;
+  const cells = created.cells.map((cell, index) => {
+    const stored = rawCells[index];
+    if (isRecord(stored) && typeof stored.id === "string" && stored.id) {
+      return { ...cell, id: stored.id };
+    }
+    complete = false;
+    return cell;
+  });
+
+  const notebook = sanitizeNotebook({
+    ...created,
+    id: storedId ?? created.id,
+    cells,
+    createdAt: metadata.createdAt ?? modifiedAt,
+    updatedAt: modifiedAt,
+    projectId: metadata.projectId ?? null,
+    projectOrder: metadata.projectOrder ?? null,
+    published: metadata.published ?? false,
+    publicSlug: metadata.publicSlug ?? null,
+    authorEmail: metadata.authorEmail ?? null,
+    app: (metadata.app ?? null) as Notebook["app"],
+  });
+  return { notebook, attachments: metadata.attachments, complete };
+};
+
+/**
+ * Keeps every notebook as a `.nb.yml` file in a directory, in a folder per
+ * project, with attachments in a sibling `<name>.attachments` folder. Files
+ * changed on disk (a `git pull`, an editor) are picked up by a watcher and
+ * reported to `onExternalChange` listeners.
+ */
+export class FileSystemNotebookStore implements NotebookStore {
+  private readonly directory: string;
+  private readonly index?: NotebookStore;
+  private readonly projects?: Pick<ProjectStore, "get" | "getBySlug">;
+  private readonly entries = new Map<string, NotebookEntry>();
+  // Last contents this store wrote per file, to tell its own writes apart
+  // from external edits
+  private readonly written = new Map<string, string>();
+  private readonly listeners = new Set<NotebookChangeListener>();
+  private readonly pendingReloads = new Map<string, NodeJS.Timeout>();
+  private readonly ready: Promise<void>;
+  private watcher: FSWatcher | null = null;
+  // File moves and rewrites run one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: FileSystemNotebookStoreOptions = {}) {
+    const here = path.dirname(fileURLToPath(import.meta.url));
+    const apiRoot = path.resolve(here, "../../");
+    this.directory = path.resolve(
+      apiRoot,
+      "../../",
+      options.directory ?? ".data/notebooks"
+    );
+    this.index = options.index;
+    this.projects = options.projects;
+    this.ready = this.initialize(options.watch ?? true);
+  }
+
+  async all(): Promise<Notebook[]> {
+    await this.ready;
+    return Array.from(this.entries.values(), (entry) => entry.notebook).sort(
+      (a, b) =>
+        b.updatedAt.localeCompare(a.updatedAt) || a.id.localeCompare(b.id)
+    );
+  }
+
+  async get(id: string): Promise<Notebook | undefined> {
+    await this.ready;
+    return this.entries.get(id)?.notebook;
+  }
+
+  async getByPublicSlug(slug: string): Promise<Notebook | undefined> {
+    await this.ready;
+    const normalized = normalizeSlug(slug);
+    if (!normalized) {
+      return undefined;
+    }
+    for (const { notebook } of this.entries.values()) {
+      if (notebook.publicSlug === normalized) {
+        return notebook;
+      }
+    }
+    return undefined;
+  }
+
+  async getByAppSlug(slug: string): Promise<Notebook | undefined> {
+    await this.ready;
+    for (const { notebook } of this.entries.values()) {
+      if (notebook.app?.enabled && notebook.app.slug === slug) {
+        return notebook;
+      }
+    }
+    return undefined;
+  }
+
+  async save(notebook: Notebook): Promise<Notebook> {
+    await this.ready;
+    return this.enqueue(async () => {
+      const sanitized = sanitizeNotebook({
+        ...notebook,
+        updatedAt: new Date().toISOString(),
+      });
+      const previous = this.entries.get(sanitized.id);
+      const target = await this.resolvePath(sanitized, previous?.path);
+      const entry: NotebookEntry = {
+        notebook: sanitized,
+        path: target,
+        attachments: previous?.attachments ?? [],
+      };
+      // The old file is only removed once the new one is written
+      await this.writeEntry(entry);
+      if (previous && previous.path !== target) {
+        await this.move(previous, target);
+      }
+      this.entries.set(sanitized.id, entry);
+      await this.index?.save(sanitized);
+      return sanitized;
+    });
+  }
+
+  async remove(id: string): Promise<Notebook | undefined> {
+    await this.ready;
+    return this.enqueue(async () => {
+      const entry = this.entries.get(id);
+      if (!entry) {
+        return undefined;
+      }
+      this.entries.delete(id);
+      this.written.delete(this.resolve(entry.path));
+      await fs.rm(this.resolve(entry.path), { force: true });
+      await fs.rm(this.resolve(attachmentsDirectory(entry.path)), {
+        recursive: true,
+        force: true,
+      });
+      await this.index?.remove(id);
+      return entry.notebook;
+    });
+  }
+
+  async listAttachments(notebookId: string): Promise<NotebookAttachment[]> {
+    await this.ready;
+    const entry = this.entries.get(notebookId);
+    if (!entry) {
+      return [];
+    }
+    const attachments = await Promise.all(
+      entry.attachments.map(async (attachment) => {
+        try {
+          const stats = await fs.stat(this.attachmentFile(entry, attachment));
+          return this.toAttachment(
+            notebookId,
+            attachment,
+            stats.size,
+            stats.mtime
+          );
+        } catch (error) {
+          if (isMissingFile(error)) {
+            return null;
+          }
+          throw error;
+        }
+      })
+    );
+    return attachments
+      .filter((attachment) => attachment !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getAttachment(
+    notebookId: string,
+    attachmentId: string
+  ): Promise<NotebookAttachmentContent | undefined> {
+    await this.ready;
+    const entry = this.entries.get(notebookId);
+    const attachment = entry?.attachments.find(
+      (item) => item.id === attachmentId
+    );
+    if (!entry || !attachment) {
+      return undefined;
+    }
+    const file = this.attachmentFile(entry, attachment);
+    try {
+      const [content, stats] = await Promise.all([
+        fs.readFile(file),
+        fs.stat(file),
+      ]);
+      return {
+        ...this.toAttachment(
+          notebookId,
+          attachment,
+          content.byteLength,
+          stats.mtime
+        ),
+        content: new Uint8Array(content),
+      };
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async saveAttachment(
+    notebookId: string,
+    input: {
+      filename: string;
+      mimeType: string;
+      content: Uint8Array;
+    }
+  ): Promise<NotebookAttachment> {
+    await this.ready;
+    return this.enqueue(async () => {
+      const entry = this.entries.get(notebookId);
+      if (!entry) {
+        throw new Error(`Notebook ${notebookId} not found`);
+      }
+      const now = new Date();
+      const attachment: StoredAttachment = {
+        id: nanoid(),
+        filename: input.filename,
+        mimeType: input.mimeType,
+        createdAt: now.toISOString(),
+      };
+      const file = this.attachmentFile(entry, attachment);
+      const attachments = [...entry.attachments, attachment];
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, input.content);
+      try {
+        await this.writeEntry({ ...entry, attachments });
+      } catch (error) {
+        await fs.rm(file, { force: true });
+        throw error;
+      }
+      entry.attachments = attachments;
+      return this.toAttachment(
+        notebookId,
+        attachment,
+        input.content.byteLength,
+        now
+      );
+    });
+  }
+
+  async removeAttachment(
+    notebookId: string,
+    attachmentId: string
+  ): Promise<boolean> {
+    await this.ready;
+    return this.enqueue(async () => {
+      const entry = this.entries.get(notebookId);
+      const attachment = entry?.attachments.find(
+        (item) => item.id === attachmentId
+      );
+      if (!entry || !attachment) {
+        return false;
+      }
+      const attachments = entry.attachments.filter(
+        (item) => item.id !== attachmentId
+      );
+      await this.writeEntry({ ...entry, attachments });
+      entry.attachments = attachments;
+      await fs.rm(this.attachmentFile(entry, attachment), { force: true });
+      return true;
+    });
+  }
+
+  /**
+   * Calls `listener` with the new version of a notebook whenever its file
+   * is changed by something other than this store. Returns an unsubscribe
+   * function.
+   */
+  onExternalChange(listener: NotebookChangeListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async ensureReady() {
+    await this.ready;
+  }
+
+  async close() {
+    await this.ready;
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.pendingReloads.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingReloads.clear();
+    await this.queue;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private resolve(relative: string) {
+    return path.join(this.directory, ...relative.split("/"));
+  }
+
+  // Attachments live directly in the notebook's attachments folder; refuse
+  // any other path the metadata might lead to
+  private attachmentFile(entry: NotebookEntry, attachment: StoredAttachment) {
+    const directory = this.resolve(attachmentsDirectory(entry.path));
+    const file = this.resolve(attachmentPath(entry.path, attachment));
+    if (path.dirname(file) !== directory) {
+      throw new Error(
+        `Attachment ${attachment.id} is outside ${attachmentsDirectory(entry.path)}`
+      );
+    }
+    return file;
+  }
+
+  private toAttachment(
+    notebookId: string,
+    attachment: StoredAttachment,
+    size: number,
+    modifiedAt: Date
+  ): NotebookAttachment {
+    return {
+      id: attachment.id,
+      notebookId,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      size,
+      createdAt: attachment.createdAt,
+      updatedAt: modifiedAt.toISOString(),
+    };
+  }
+
+  // `<project slug>/<notebook slug>.nb.yml`, numbered when another notebook
+  // already has that name. Notebooks outside projects stay in whatever
+  // folder they were put in. Renaming a project doesn't move its folder;
+  // each notebook moves to the new one the next time it is saved.
+  private async resolvePath(notebook: Notebook, current?: string) {
+    const project = notebook.projectId
+      ? await this.projects?.get(notebook.projectId)
+      : undefined;
+    const currentFolder = current?.includes("/")
+      ? current.slice(0, current.lastIndexOf("/"))
+      : "";
+    let folder = project?.slug ?? currentFolder;
+    if (
+      !project &&
+      currentFolder &&
+      (await this.projects?.getBySlug(currentFolder.split("/")[0]!))
+    ) {
+      // Moved out of its project
+      folder = "";
+    }
+    const prefix = folder ? `${folder}/` : "";
+    const base =
+      suggestSlug(notebook.name, notebook.id) ?? notebook.id.toLowerCase();
+    const taken = new Set(
+      Array.from(this.entries.values())
+        .filter((entry) => entry.notebook.id !== notebook.id)
+        .map((entry) => entry.path)
+    );
+    for (let n = 1; ; n += 1) {
+      const candidate = `${prefix}${n === 1 ? base : `${base}-${n}`}${NOTEBOOK_EXTENSION}`;
+      if (candidate === current || !taken.has(candidate)) {
+        if (
+          candidate !== current &&
+          (await fileExists(this.resolve(candidate)))
+        ) {
+          continue;
+        }
+        return candidate;
+      }
+    }
+  }
+
+  // Runs once the notebook is written at `target`: takes its attachments
+  // along and removes the old file. When the attachments can't be moved the
+  // new file is removed again and the notebook stays where it was.
+  private async move(entry: NotebookEntry, target: string) {
+    const from = this.resolve(entry.path);
+    try {
+      await fs.rename(
+        this.resolve(attachmentsDirectory(entry.path)),
+        this.resolve(attachmentsDirectory(target))
+      );
+    } catch (error) {
+      if (!isMissingFile(error)) {
+        const to = this.resolve(target);
+        this.written.delete(to);
+        await fs.rm(to, { force: true });
+        throw error;
+      }
+    }
+    this.written.delete(from);
+    await fs.rm(from, { force: true });
+  }
+
+  private async writeEntry(entry: NotebookEntry) {
+    const file = this.resolve(entry.path);
+    const contents = serializeEntry(entry);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const previous = this.written.get(file);
+    this.written.set(file, contents);
+    try {
+      await fs.writeFile(file, contents, "utf8");
+    } catch (error) {
+      if (previous === undefined) {
+        this.written.delete(file);
+      } else {
+        this.written.set(file, previous);
+      }
+      throw error;
+    }
+  }
+
+  // Reads a notebook file, assigning ids it lacks. Null when the file is
+  // gone or isn't a notebook.
+  private async readEntry(relative: string): Promise<NotebookEntry | null> {
+    const file = this.resolve(relative);
+    let contents: string;
+    let modifiedAt: Date;
+    try {
+      [contents, { mtime: modifiedAt }] = await Promise.all([
+        fs.readFile(file, "utf8"),
+        fs.stat(file),
+      ]);
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return null;
+      }
+      throw error;
+    }
+    let parsed;
+    try {
+      parsed = parseEntry(contents, modifiedAt.toISOString());
+    } catch (error) {
+      console.warn(
+        `[nodebooks] Skipping unreadable notebook ${relative}`,
+        error
+      );
+      return null;
+    }
+    let { notebook } = parsed;
+    const duplicate = this.entries.get(notebook.id);
+    if (
+      duplicate &&
+      duplicate.path !== relative &&
+      (await fileExists(this.resolve(duplicate.path)))
+    ) {
+      // A copied file; it becomes a notebook of its own
+      notebook = { ...notebook, id: nanoid() };
+      parsed.complete = false;
+    }
+    if (!notebook.projectId && relative.includes("/")) {
+      // Files dropped into a project folder join that project
+      const slug = relative.slice(0, relative.indexOf("/"));
+      const project = await this.projects?.getBySlug(slug);
+      if (project) {
+        notebook = { ...notebook, projectId: project.id };
+      }
+    }
+    const entry: NotebookEntry = {
+      notebook,
+      path: relative,
+      attachments: parsed.attachments,
+    };
+    if (parsed.complete) {
+      this.written.set(file, contents);
+    } else {
+      await this.writeEntry(entry);
+    }
+    return entry;
+  }
+
+  private async ensureIndexed(notebook: Notebook) {
+    if (this.index && !(await this.index.get(notebook.id))) {
+      await this.index.save(notebook);
+    }
+  }
+
+  private async scan(relative = ""): Promise<string[]> {
+    const dirents = await fs.readdir(this.resolve(relative), {
+      withFileTypes: true,
+    });
+    const files: string[] = [];
+    for (const dirent of dirents) {
+      const child = relative ? `${relative}/${dirent.name}` : dirent.name;
+      if (dirent.isDirectory()) {
+        if (
+          !dirent.name.startsWith(".") &&
+          !dirent.name.endsWith(ATTACHMENTS_SUFFIX) &&
+          dirent.name !== "node_modules"
+        ) {
+          files.push(...(await this.scan(child)));
+        }
+      } else if (dirent.isFile() && dirent.name.endsWith(NOTEBOOK_EXTENSION)) {
+        files.push(child);
+      }
+    }
+    return files;
+  }
+
+  private async initialize(watchDirectory: boolean) {
+    await fs.mkdir(this.directory, { recursive: true });
+    for (const relative of (await this.scan()).sort()) {
+      const entry = await this.readEntry(relative);
+      if (entry) {
+        this.entries.set(entry.notebook.id, entry);
+        await this.ensureIndexed(entry.notebook);
+      }
+    }
+    if (watchDirectory) {
+      this.watcher = watch(
+        this.directory,
+        { recursive: true },
+        (_event, filename) => {
+          if (!filename) {
+            return;
+          }
+          const relative = toPosix(filename.toString());
+          if (
+            relative.endsWith(NOTEBOOK_EXTENSION) &&
+            !relative.split("/").some((part) => part.startsWith("."))
+          ) {
+            this.scheduleReload(relative);
+          }
+        }
+      );
+      this.watcher.on("error", (error) => {
+        console.warn("[nodebooks] Notebook directory watch failed", error);
+      });
+    }
+  }
+
+  private scheduleReload(relative: string) {
+    const pending = this.pendingReloads.get(relative);
+    if (pending) {
+      clearTimeout(pending);
+    }
+    this.pendingReloads.set(
+      relative,
+      setTimeout(() => {
+        this.pendingReloads.delete(relative);
+        void this.enqueue(() => this.reload(relative)).catch((error) => {
+          console.warn(`[nodebooks] Failed to reload ${relative}`, error);
+        });
+      }, WATCH_DEBOUNCE_MS)
+    );
+  }
+
+  private async reload(relative: string) {
+    const file = this.resolve(relative);
+    const contents = await fs.readFile(file, "utf8").catch((error) => {
+      if (isMissingFile(error)) {
+        return null;
+      }
+      throw error;
+    });
+    if (contents === null) {
+      // Deleted or moved away. The index row stays so collaborators and runs
+      // survive switching to a branch without the notebook.
+      for (const [id, entry] of this.entries) {
+        if (entry.path === relative) {
+          this.entries.delete(id);
+        }
+      }
+      this.written.delete(file);
+      return;
+    }
+    if (this.written.get(file) === contents) {
+      return;
+    }
+    const entry = await this.readEntry(relative);
+    if (!entry) {
+      return;
+    }
+    for (const [id, existing] of this.entries) {
+      // The file now holds another notebook, e.g. after a checkout
+      if (existing.path === relative && id !== entry.notebook.id) {
+        this.entries.delete(id);
+      }
+    }
+    this.entries.set(entry.notebook.id, entry);
+    await this.ensureIndexed(entry.notebook);
+    for (const listener of this.listeners) {
+      listener(entry.notebook);
+    }
+  }
+}
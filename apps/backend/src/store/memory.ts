@@ -4,14 +4,21 @@ import {
   normalizeSlug,
   suggestSlug,
   NotebookSchema,
+  toNotebookRunSummary,
   type Notebook,
+  type NotebookRun,
+  type NotebookRunSummary,
+  type NotebookSecretScope,
 } from "@nodebooks/notebook-schema";
 import { customAlphabet } from "nanoid";
 import type {
   NotebookStore,
+  NotebookRunStore,
   NotebookSession,
+  SecretStore,
   SessionManager,
   SettingsStore,
+  StoredSecret,
   NotebookAttachment,
   NotebookAttachmentContent,
   User,
@@ -157,6 +164,15 @@ export class InMemoryNotebookStore implements NotebookStore {
     return this.notebooks.get(id);
   }
 
+  async getByAppSlug(slug: string): Promise<Notebook | undefined> {
+    for (const notebook of this.notebooks.values()) {
+      if (notebook.app?.enabled && notebook.app.slug === slug) {
+        return notebook;
+      }
+    }
+    return undefined;
+  }
+
   async listAttachments(notebookId: string): Promise<NotebookAttachment[]> {
     const bucket = this.attachments.get(notebookId);
     if (!bucket) {
@@ -230,6 +246,100 @@ export class InMemoryNotebookStore implements NotebookStore {
   }
 }
 
+export class InMemoryNotebookRunStore implements NotebookRunStore {
+  private readonly runs = new Map<string, NotebookRun>();
+
+  private byNotebook(notebookId: string): NotebookRun[] {
+    return Array.from(this.runs.values())
+      .filter((run) => run.notebookId === notebookId)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  async save(run: NotebookRun): Promise<NotebookRun> {
+    this.runs.set(run.id, structuredClone(run));
+    return run;
+  }
+
+  async get(id: string): Promise<NotebookRun | undefined> {
+    const run = this.runs.get(id);
+    return run ? structuredClone(run) : undefined;
+  }
+
+  async listByNotebook(
+    notebookId: string,
+    limit = 50
+  ): Promise<NotebookRunSummary[]> {
+    return this.byNotebook(notebookId)
+      .slice(0, limit)
+      .map(toNotebookRunSummary);
+  }
+
+  async listLatest(): Promise<NotebookRunSummary[]> {
+    const latest = new Map<string, NotebookRun>();
+    for (const run of this.runs.values()) {
+      const current = latest.get(run.notebookId);
+      if (!current || run.startedAt > current.startedAt) {
+        latest.set(run.notebookId, run);
+      }
+    }
+    return Array.from(latest.values()).map(toNotebookRunSummary);
+  }
+
+  async prune(notebookId: string, keep: number): Promise<void> {
+    for (const run of this.byNotebook(notebookId).slice(keep)) {
+      this.runs.delete(run.id);
+    }
+  }
+}
+
+const secretKey = (scope: NotebookSecretScope, scopeId: string, name = "") =>
+  `${scope}:${scopeId}:${name}`;
+
+export class InMemorySecretStore implements SecretStore {
+  private readonly secrets = new Map<string, StoredSecret>();
+
+  async list(
+    scope: NotebookSecretScope,
+    scopeId: string
+  ): Promise<StoredSecret[]> {
+    const prefix = secretKey(scope, scopeId);
+    return Array.from(this.secrets.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, secret]) => ({ ...secret }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(
+    scope: NotebookSecretScope,
+    scopeId: string,
+    name: string
+  ): Promise<StoredSecret | undefined> {
+    const secret = this.secrets.get(secretKey(scope, scopeId, name));
+    return secret ? { ...secret } : undefined;
+  }
+
+  async save(secret: StoredSecret): Promise<StoredSecret> {
+    this.secrets.set(secretKey(secret.scope, secret.scopeId, secret.name), {
+      ...secret,
+    });
+    return secret;
+  }
+
+  async remove(
+    scope: NotebookSecretScope,
+    scopeId: string,
+    name: string
+  ): Promise<boolean> {
+    return this.secrets.delete(secretKey(scope, scopeId, name));
+  }
+
+  async removeAll(scope: NotebookSecretScope, scopeId: string): Promise<void> {
+    for (const secret of await this.list(scope, scopeId)) {
+      this.secrets.delete(secretKey(scope, scopeId, secret.name));
+    }
+  }
+}
+
 export class InMemorySettingsStore implements SettingsStore {
   private readonly settings = new Map<string, unknown>();
 
@@ -854,6 +964,9 @@ export class InMemoryProjectStore implements ProjectStore {
     if (typeof updates.published === "boolean") {
       existing.published = updates.published;
     }
+    if (updates.defaults !== undefined) {
+      existing.defaults = updates.defaults;
+    }
     existing.updatedAt = new Date().toISOString();
     return cloneProject(existing);
   }
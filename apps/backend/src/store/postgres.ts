@@ -4,14 +4,23 @@ import {
   ensureNotebookRuntimeVersion,
   normalizeSlug,
   suggestSlug,
+  NotebookRunSchema,
   NotebookSchema,
+  ProjectDefaultsSchema,
+  toNotebookRunSummary,
   type Notebook,
+  type NotebookRun,
+  type NotebookRunSummary,
+  type NotebookSecretScope,
 } from "@nodebooks/notebook-schema";
 import type {
   NotebookAttachment,
   NotebookAttachmentContent,
   NotebookStore,
+  NotebookRunStore,
+  SecretStore,
   SettingsStore,
+  StoredSecret,
   User,
   UserStore,
   CreateUserInput,
@@ -53,6 +62,7 @@ const mapProjectRow = (row: {
   name: string;
   slug: string | null;
   published: boolean | null;
+  defaults: unknown;
   created_at: Date;
   updated_at: Date;
 }): Project => ({
@@ -63,6 +73,9 @@ const mapProjectRow = (row: {
       ? normalizeSlug(row.slug)
       : normalizeSlug(row.name) || normalizeSlug(row.id) || row.id,
   published: Boolean(row.published),
+  defaults: row.defaults
+    ? ProjectDefaultsSchema.safeParse(row.defaults).data
+    : undefined,
   createdAt: row.created_at.toISOString(),
   updatedAt: row.updated_at.toISOString(),
 });
@@ -218,6 +231,16 @@ export class PostgresNotebookStore implements NotebookStore {
     return row ? this.deserialize(row.data) : undefined;
   }
 
+  async getByAppSlug(slug: string): Promise<Notebook | undefined> {
+    await this.ready;
+    const result = await this.pool.query<NotebookRow>(
+      "SELECT data FROM notebooks WHERE app_slug = $1 LIMIT 1",
+      [slug]
+    );
+    const row = result.rows[0];
+    return row ? this.deserialize(row.data) : undefined;
+  }
+
   async save(notebook: Notebook): Promise<Notebook> {
     await this.ready;
     const parsed = ensureNotebookRuntimeVersion(
@@ -240,14 +263,15 @@ export class PostgresNotebookStore implements NotebookStore {
     };
 
     await this.pool.query(
-      `INSERT INTO notebooks (id, name, data, created_at, updated_at, published, public_slug)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
+      `INSERT INTO notebooks (id, name, data, created_at, updated_at, published, public_slug, app_slug)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
        ON CONFLICT (id) DO UPDATE SET
          name = EXCLUDED.name,
          data = EXCLUDED.data,
          updated_at = EXCLUDED.updated_at,
          published = EXCLUDED.published,
-         public_slug = EXCLUDED.public_slug`,
+         public_slug = EXCLUDED.public_slug,
+         app_slug = EXCLUDED.app_slug`,
       [
         sanitized.id,
         sanitized.name,
@@ -256,6 +280,7 @@ export class PostgresNotebookStore implements NotebookStore {
         sanitized.updatedAt,
         sanitized.published,
         sanitized.publicSlug,
+        sanitized.app?.enabled ? sanitized.app.slug : null,
       ]
     );
 
@@ -269,6 +294,10 @@ export class PostgresNotebookStore implements NotebookStore {
       return undefined;
     }
 
+    await this.pool.query(
+      "DELETE FROM secrets WHERE scope = 'notebook' AND scope_id = $1",
+      [id]
+    );
     await this.pool.query("DELETE FROM notebooks WHERE id = $1", [id]);
     return existing;
   }
@@ -437,6 +466,21 @@ export class PostgresNotebookStore implements NotebookStore {
         ON notebooks (public_slug) WHERE public_slug IS NOT NULL
     `);
 
+    await this.pool.query(`
+      ALTER TABLE notebooks
+        ADD COLUMN IF NOT EXISTS app_slug TEXT
+    `);
+    // Notebooks saved before the column existed
+    await this.pool.query(`
+      UPDATE notebooks SET app_slug = data->'app'->>'slug'
+        WHERE app_slug IS NULL AND (data->'app'->>'enabled')::boolean
+    `);
+
+    await this.pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_notebooks_app_slug
+        ON notebooks (app_slug) WHERE app_slug IS NOT NULL
+    `);
+
     await this.pool.query(`
       CREATE TABLE IF NOT EXISTS attachments (
         id TEXT PRIMARY KEY,
@@ -455,6 +499,39 @@ export class PostgresNotebookStore implements NotebookStore {
         ON attachments (notebook_id, created_at DESC, id ASC)
     `);
 
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS notebook_runs (
+        id TEXT PRIMARY KEY,
+        notebook_id TEXT NOT NULL REFERENCES notebooks(id) ON DELETE CASCADE,
+        trigger TEXT NOT NULL,
+        status TEXT NOT NULL,
+        started_at TIMESTAMPTZ NOT NULL,
+        finished_at TIMESTAMPTZ,
+        summary JSONB NOT NULL,
+        outputs JSONB NOT NULL,
+        logs TEXT NOT NULL
+      )
+    `);
+
+    await this.pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_notebook_runs_notebook
+        ON notebook_runs (notebook_id, started_at DESC)
+    `);
+
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS secrets (
+        id TEXT PRIMARY KEY,
+        scope TEXT NOT NULL,
+        scope_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        ciphertext TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL,
+        updated_by TEXT,
+        UNIQUE (scope, scope_id, name)
+      )
+    `);
+
     await this.pool.query(`
       CREATE TABLE IF NOT EXISTS settings (
         key TEXT PRIMARY KEY,
@@ -506,6 +583,11 @@ export class PostgresNotebookStore implements NotebookStore {
         ADD COLUMN IF NOT EXISTS published BOOLEAN NOT NULL DEFAULT FALSE
     `);
 
+    await this.pool.query(`
+      ALTER TABLE projects
+        ADD COLUMN IF NOT EXISTS defaults JSONB
+    `);
+
     await this.pool.query(`
       CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_slug
         ON projects (slug) WHERE slug IS NOT NULL
@@ -678,6 +760,212 @@ export class PostgresSettingsStore implements SettingsStore {
   }
 }
 
+type SecretRow = {
+  id: string;
+  scope: NotebookSecretScope;
+  scope_id: string;
+  name: string;
+  ciphertext: string;
+  created_at: Date;
+  updated_at: Date;
+  updated_by: string | null;
+};
+
+const SECRET_COLUMNS =
+  "id, scope, scope_id, name, ciphertext, created_at, updated_at, updated_by";
+
+const mapSecretRow = (row: SecretRow): StoredSecret => ({
+  id: row.id,
+  scope: row.scope,
+  scopeId: row.scope_id,
+  name: row.name,
+  ciphertext: row.ciphertext,
+  createdAt: row.created_at.toISOString(),
+  updatedAt: row.updated_at.toISOString(),
+  updatedBy: row.updated_by ?? null,
+});
+
+export class PostgresSecretStore implements SecretStore {
+  constructor(private readonly notebooks: PostgresNotebookStore) {}
+
+  private async getPool(): Promise<Pool> {
+    await this.notebooks.ensureReady();
+    return this.notebooks.getPool();
+  }
+
+  async list(
+    scope: NotebookSecretScope,
+    scopeId: string
+  ): Promise<StoredSecret[]> {
+    const pool = await this.getPool();
+    const result = await pool.query<SecretRow>(
+      `SELECT ${SECRET_COLUMNS} FROM secrets
+       WHERE scope = $1 AND scope_id = $2
+       ORDER BY name ASC`,
+      [scope, scopeId]
+    );
+    return result.rows.map(mapSecretRow);
+  }
+
+  async get(
+    scope: NotebookSecretScope,
+    scopeId: string,
+    name: string
+  ): Promise<StoredSecret | undefined> {
+    const pool = await this.getPool();
+    const result = await pool.query<SecretRow>(
+      `SELECT ${SECRET_COLUMNS} FROM secrets
+       WHERE scope = $1 AND scope_id = $2 AND name = $3 LIMIT 1`,
+      [scope, scopeId, name]
+    );
+    const row = result.rows[0];
+    return row ? mapSecretRow(row) : undefined;
+  }
+
+  async save(secret: StoredSecret): Promise<StoredSecret> {
+    const pool = await this.getPool();
+    await pool.query(
+      `INSERT INTO secrets (${SECRET_COLUMNS})
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (scope, scope_id, name) DO UPDATE SET
+         ciphertext = EXCLUDED.ciphertext,
+         updated_at = EXCLUDED.updated_at,
+         updated_by = EXCLUDED.updated_by`,
+      [
+        secret.id,
+        secret.scope,
+        secret.scopeId,
+        secret.name,
+        secret.ciphertext,
+        secret.createdAt,
+        secret.updatedAt,
+        secret.updatedBy,
+      ]
+    );
+    return secret;
+  }
+
+  async remove(
+    scope: NotebookSecretScope,
+    scopeId: string,
+    name: string
+  ): Promise<boolean> {
+    const pool = await this.getPool();
+    const result = await pool.query(
+      "DELETE FROM secrets WHERE scope = $1 AND scope_id = $2 AND name = $3",
+      [scope, scopeId, name]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async removeAll(scope: NotebookSecretScope, scopeId: string): Promise<void> {
+    const pool = await this.getPool();
+    await pool.query("DELETE FROM secrets WHERE scope = $1 AND scope_id = $2", [
+      scope,
+      scopeId,
+    ]);
+  }
+}
+
+export class PostgresNotebookRunStore implements NotebookRunStore {
+  constructor(private readonly notebooks: PostgresNotebookStore) {}
+
+  private async getPool(): Promise<Pool> {
+    await this.notebooks.ensureReady();
+    return this.notebooks.getPool();
+  }
+
+  async save(run: NotebookRun): Promise<NotebookRun> {
+    const pool = await this.getPool();
+    await pool.query(
+      `INSERT INTO notebook_runs (id, notebook_id, trigger, status, started_at, finished_at, summary, outputs, logs)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (id) DO UPDATE SET
+         status = EXCLUDED.status,
+         finished_at = EXCLUDED.finished_at,
+         summary = EXCLUDED.summary,
+         outputs = EXCLUDED.outputs,
+         logs = EXCLUDED.logs`,
+      [
+        run.id,
+        run.notebookId,
+        run.trigger,
+        run.status,
+        run.startedAt,
+        run.finishedAt,
+        JSON.stringify(toNotebookRunSummary(run)),
+        JSON.stringify(run.outputs),
+        run.logs,
+      ]
+    );
+    return run;
+  }
+
+  async get(id: string): Promise<NotebookRun | undefined> {
+    const pool = await this.getPool();
+    const result = await pool.query<{
+      summary: unknown;
+      outputs: unknown;
+      logs: string;
+    }>(
+      "SELECT summary, outputs, logs FROM notebook_runs WHERE id = $1 LIMIT 1",
+      [id]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return undefined;
+    }
+    return NotebookRunSchema.parse({
+      ...(row.summary as object),
+      outputs: row.outputs,
+      logs: row.logs,
+    });
+  }
+
+  async listByNotebook(
+    notebookId: string,
+    limit = 50
+  ): Promise<NotebookRunSummary[]> {
+    const pool = await this.getPool();
+    const result = await pool.query<{ summary: unknown }>(
+      `SELECT summary FROM notebook_runs
+       WHERE notebook_id = $1
+       ORDER BY started_at DESC
+       LIMIT $2`,
+      [notebookId, limit]
+    );
+    return result.rows.map((row) =>
+      toNotebookRunSummary(NotebookRunSchema.parse(row.summary))
+    );
+  }
+
+  async listLatest(): Promise<NotebookRunSummary[]> {
+    const pool = await this.getPool();
+    const result = await pool.query<{ summary: unknown }>(
+      `SELECT DISTINCT ON (notebook_id) summary FROM notebook_runs
+       ORDER BY notebook_id, started_at DESC`
+    );
+    return result.rows.map((row) =>
+      toNotebookRunSummary(NotebookRunSchema.parse(row.summary))
+    );
+  }
+
+  async prune(notebookId: string, keep: number): Promise<void> {
+    const pool = await this.getPool();
+    await pool.query(
+      `DELETE FROM notebook_runs
+       WHERE notebook_id = $1
+         AND id NOT IN (
+           SELECT id FROM notebook_runs
+           WHERE notebook_id = $1
+           ORDER BY started_at DESC
+           LIMIT $2
+         )`,
+      [notebookId, keep]
+    );
+  }
+}
+
 const toIsoString = (value: unknown): string => {
   if (value instanceof Date) {
     return value.toISOString();
@@ -1347,7 +1635,7 @@ export class PostgresProjectStore implements ProjectStore {
   async list(): Promise<Project[]> {
     const pool = await this.getPool();
     const result = await pool.query(
-      `SELECT id, name, slug, published, created_at, updated_at
+      `SELECT id, name, slug, published, defaults, created_at, updated_at
        FROM projects
        ORDER BY created_at ASC, id ASC`
     );
@@ -1357,7 +1645,7 @@ export class PostgresProjectStore implements ProjectStore {
   async get(id: string): Promise<Project | undefined> {
     const pool = await this.getPool();
     const result = await pool.query(
-      `SELECT id, name, slug, published, created_at, updated_at
+      `SELECT id, name, slug, published, defaults, created_at, updated_at
        FROM projects
        WHERE id = $1
        LIMIT 1`,
@@ -1374,7 +1662,7 @@ export class PostgresProjectStore implements ProjectStore {
       return undefined;
     }
     const result = await pool.query(
-      `SELECT id, name, slug, published, created_at, updated_at
+      `SELECT id, name, slug, published, defaults, created_at, updated_at
          FROM projects
          WHERE slug = $1
          LIMIT 1`,
@@ -1399,7 +1687,7 @@ export class PostgresProjectStore implements ProjectStore {
     const result = await pool.query(
       `INSERT INTO projects (id, name, slug, published, created_at, updated_at)
        VALUES ($1, $2, $3, $4, $5, $6)
-       RETURNING id, name, slug, published, created_at, updated_at`,
+       RETURNING id, name, slug, published, defaults, created_at, updated_at`,
       [id, name, slug, published, now, now]
     );
     const row = result.rows[0];
@@ -1447,6 +1735,12 @@ export class PostgresProjectStore implements ProjectStore {
       values.push(updates.published);
     }
 
+    if (updates.defaults !== undefined) {
+      const nextIndex = values.length + 2;
+      fields.push(`defaults = $${nextIndex}`);
+      values.push(JSON.stringify(updates.defaults));
+    }
+
     if (fields.length === 0) {
       return current;
     }
@@ -1460,7 +1754,7 @@ export class PostgresProjectStore implements ProjectStore {
       `UPDATE projects
          SET ${fields.join(", ")}
        WHERE id = $1
-       RETURNING id, name, slug, published, created_at, updated_at`,
+       RETURNING id, name, slug, published, defaults, created_at, updated_at`,
       [id, ...values]
     );
     const row = result.rows[0];
@@ -8,14 +8,23 @@ import {
   ensureNotebookRuntimeVersion,
   normalizeSlug,
   suggestSlug,
+  NotebookRunSchema,
   NotebookSchema,
+  ProjectDefaultsSchema,
+  toNotebookRunSummary,
   type Notebook,
+  type NotebookRun,
+  type NotebookRunSummary,
+  type NotebookSecretScope,
 } from "@nodebooks/notebook-schema";
 import type {
   NotebookAttachment,
   NotebookAttachmentContent,
   NotebookStore,
+  NotebookRunStore,
+  SecretStore,
   SettingsStore,
+  StoredSecret,
   User,
   UserStore,
   CreateUserInput,
@@ -311,6 +320,19 @@ export class SqliteNotebookStore implements NotebookStore {
     return this.deserialize(row.data);
   }
 
+  async getByAppSlug(slug: string): Promise<Notebook | undefined> {
+    await this.ready;
+    const row = await getRow<{ data?: string } | undefined>(
+      this.db,
+      "SELECT data FROM notebooks WHERE app_slug = ? LIMIT 1",
+      [slug]
+    );
+    if (!row?.data) {
+      return undefined;
+    }
+    return this.deserialize(row.data);
+  }
+
   async save(notebook: Notebook): Promise<Notebook> {
     await this.ready;
     const parsed = ensureNotebookRuntimeVersion(
@@ -335,14 +357,15 @@ export class SqliteNotebookStore implements NotebookStore {
 
     await runSql(
       this.db,
-      `INSERT INTO notebooks (id, name, data, created_at, updated_at, published, public_slug)
-       VALUES (?, ?, ?, ?, ?, ?, ?)
+      `INSERT INTO notebooks (id, name, data, created_at, updated_at, published, public_slug, app_slug)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
        ON CONFLICT(id) DO UPDATE SET
          name = excluded.name,
          data = excluded.data,
          updated_at = excluded.updated_at,
          published = excluded.published,
-         public_slug = excluded.public_slug`,
+         public_slug = excluded.public_slug,
+         app_slug = excluded.app_slug`,
       [
         sanitized.id,
         sanitized.name,
@@ -351,6 +374,7 @@ export class SqliteNotebookStore implements NotebookStore {
         sanitized.updatedAt,
         sanitized.published ? 1 : 0,
         sanitized.publicSlug ?? null,
+        sanitized.app?.enabled ? sanitized.app.slug : null,
       ]
     );
     return sanitized;
@@ -366,6 +390,14 @@ export class SqliteNotebookStore implements NotebookStore {
     await runSql(this.db, "DELETE FROM attachments WHERE notebook_id = ?", [
       id,
     ]);
+    await runSql(this.db, "DELETE FROM notebook_runs WHERE notebook_id = ?", [
+      id,
+    ]);
+    await runSql(
+      this.db,
+      "DELETE FROM secrets WHERE scope = 'notebook' AND scope_id = ?",
+      [id]
+    );
 
     await runSql(this.db, "DELETE FROM notebooks WHERE id = ?", [id]);
     return existing;
@@ -563,6 +595,24 @@ export class SqliteNotebookStore implements NotebookStore {
         ON notebooks (public_slug)`
     );
 
+    try {
+      await execSql(this.db, `ALTER TABLE notebooks ADD COLUMN app_slug TEXT`);
+      // Notebooks saved before the column existed
+      await execSql(
+        this.db,
+        `UPDATE notebooks SET app_slug = json_extract(data, '$.app.slug')
+          WHERE json_extract(data, '$.app.enabled') = 1`
+      );
+    } catch (error) {
+      void error;
+    }
+
+    await execSql(
+      this.db,
+      `CREATE INDEX IF NOT EXISTS idx_notebooks_app_slug
+        ON notebooks (app_slug)`
+    );
+
     await execSql(
       this.db,
       `CREATE TABLE IF NOT EXISTS attachments (
@@ -584,6 +634,43 @@ export class SqliteNotebookStore implements NotebookStore {
         ON attachments (notebook_id, created_at DESC, id ASC)`
     );
 
+    await execSql(
+      this.db,
+      `CREATE TABLE IF NOT EXISTS notebook_runs (
+        id TEXT PRIMARY KEY,
+        notebook_id TEXT NOT NULL,
+        trigger TEXT NOT NULL,
+        status TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        summary TEXT NOT NULL,
+        outputs TEXT NOT NULL,
+        logs TEXT NOT NULL,
+        FOREIGN KEY (notebook_id) REFERENCES notebooks(id) ON DELETE CASCADE
+      )`
+    );
+
+    await execSql(
+      this.db,
+      `CREATE INDEX IF NOT EXISTS idx_notebook_runs_notebook
+        ON notebook_runs (notebook_id, started_at DESC)`
+    );
+
+    await execSql(
+      this.db,
+      `CREATE TABLE IF NOT EXISTS secrets (
+        id TEXT PRIMARY KEY,
+        scope TEXT NOT NULL,
+        scope_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        ciphertext TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        updated_by TEXT,
+        UNIQUE (scope, scope_id, name)
+      )`
+    );
+
     await execSql(
       this.db,
       `CREATE TABLE IF NOT EXISTS settings (
@@ -619,6 +706,7 @@ export class SqliteNotebookStore implements NotebookStore {
         name TEXT NOT NULL,
         slug TEXT UNIQUE,
         published INTEGER NOT NULL DEFAULT 0,
+        defaults TEXT,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL
       )`
@@ -630,6 +718,12 @@ export class SqliteNotebookStore implements NotebookStore {
       void error;
     }
 
+    try {
+      await execSql(this.db, `ALTER TABLE projects ADD COLUMN defaults TEXT`);
+    } catch (error) {
+      void error;
+    }
+
     try {
       await execSql(
         this.db,
@@ -855,6 +949,228 @@ export class SqliteSettingsStore implements SettingsStore {
   }
 }
 
+type SecretRow = {
+  id: string;
+  scope: NotebookSecretScope;
+  scope_id: string;
+  name: string;
+  ciphertext: string;
+  created_at: string;
+  updated_at: string;
+  updated_by: string | null;
+};
+
+const SECRET_COLUMNS =
+  "id, scope, scope_id, name, ciphertext, created_at, updated_at, updated_by";
+
+const mapSecretRow = (row: SecretRow): StoredSecret => ({
+  id: row.id,
+  scope: row.scope,
+  scopeId: row.scope_id,
+  name: row.name,
+  ciphertext: row.ciphertext,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  updatedBy: row.updated_by ?? null,
+});
+
+export class SqliteSecretStore implements SecretStore {
+  constructor(private readonly notebooks: SqliteNotebookStore) {}
+
+  private async getDb(): Promise<SqlDatabase> {
+    await this.notebooks.ensureReady();
+    return this.notebooks.getDatabase();
+  }
+
+  async list(
+    scope: NotebookSecretScope,
+    scopeId: string
+  ): Promise<StoredSecret[]> {
+    const db = await this.getDb();
+    const rows = await getAllRows<SecretRow>(
+      db,
+      `SELECT ${SECRET_COLUMNS} FROM secrets
+       WHERE scope = ? AND scope_id = ?
+       ORDER BY name ASC`,
+      [scope, scopeId]
+    );
+    return rows.map(mapSecretRow);
+  }
+
+  async get(
+    scope: NotebookSecretScope,
+    scopeId: string,
+    name: string
+  ): Promise<StoredSecret | undefined> {
+    const db = await this.getDb();
+    const row = await getRow<SecretRow | undefined>(
+      db,
+      `SELECT ${SECRET_COLUMNS} FROM secrets
+       WHERE scope = ? AND scope_id = ? AND name = ? LIMIT 1`,
+      [scope, scopeId, name]
+    );
+    return row ? mapSecretRow(row) : undefined;
+  }
+
+  async save(secret: StoredSecret): Promise<StoredSecret> {
+    const db = await this.getDb();
+    await runSql(
+      db,
+      `INSERT INTO secrets (${SECRET_COLUMNS})
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(scope, scope_id, name) DO UPDATE SET
+         ciphertext = excluded.ciphertext,
+         updated_at = excluded.updated_at,
+         updated_by = excluded.updated_by`,
+      [
+        secret.id,
+        secret.scope,
+        secret.scopeId,
+        secret.name,
+        secret.ciphertext,
+        secret.createdAt,
+        secret.updatedAt,
+        secret.updatedBy,
+      ]
+    );
+    await this.notebooks.flush();
+    return secret;
+  }
+
+  async remove(
+    scope: NotebookSecretScope,
+    scopeId: string,
+    name: string
+  ): Promise<boolean> {
+    const db = await this.getDb();
+    const result = await runSql(
+      db,
+      "DELETE FROM secrets WHERE scope = ? AND scope_id = ? AND name = ?",
+      [scope, scopeId, name]
+    );
+    const removed = Number(result.changes ?? 0) > 0;
+    if (removed) {
+      await this.notebooks.flush();
+    }
+    return removed;
+  }
+
+  async removeAll(scope: NotebookSecretScope, scopeId: string): Promise<void> {
+    const db = await this.getDb();
+    await runSql(db, "DELETE FROM secrets WHERE scope = ? AND scope_id = ?", [
+      scope,
+      scopeId,
+    ]);
+    await this.notebooks.flush();
+  }
+}
+
+// Outputs and logs get their own columns so listing runs stays cheap
+const parseRunSummary = (summary: string): NotebookRunSummary =>
+  toNotebookRunSummary(NotebookRunSchema.parse(JSON.parse(summary)));
+
+export class SqliteNotebookRunStore implements NotebookRunStore {
+  constructor(private readonly notebooks: SqliteNotebookStore) {}
+
+  private async getDb(): Promise<SqlDatabase> {
+    await this.notebooks.ensureReady();
+    return this.notebooks.getDatabase();
+  }
+
+  async save(run: NotebookRun): Promise<NotebookRun> {
+    const db = await this.getDb();
+    await runSql(
+      db,
+      `INSERT INTO notebook_runs (id, notebook_id, trigger, status, started_at, finished_at, summary, outputs, logs)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         status = excluded.status,
+         finished_at = excluded.finished_at,
+         summary = excluded.summary,
+         outputs = excluded.outputs,
+         logs = excluded.logs`,
+      [
+        run.id,
+        run.notebookId,
+        run.trigger,
+        run.status,
+        run.startedAt,
+        run.finishedAt,
+        JSON.stringify(toNotebookRunSummary(run)),
+        JSON.stringify(run.outputs),
+        run.logs,
+      ]
+    );
+    await this.notebooks.flush();
+    return run;
+  }
+
+  async get(id: string): Promise<NotebookRun | undefined> {
+    const db = await this.getDb();
+    const row = await getRow<
+      { summary: string; outputs: string; logs: string } | undefined
+    >(
+      db,
+      "SELECT summary, outputs, logs FROM notebook_runs WHERE id = ? LIMIT 1",
+      [id]
+    );
+    if (!row) {
+      return undefined;
+    }
+    return NotebookRunSchema.parse({
+      ...JSON.parse(row.summary),
+      outputs: JSON.parse(row.outputs),
+      logs: row.logs,
+    });
+  }
+
+  async listByNotebook(
+    notebookId: string,
+    limit = 50
+  ): Promise<NotebookRunSummary[]> {
+    const db = await this.getDb();
+    const rows = await getAllRows<{ summary: string }>(
+      db,
+      `SELECT summary FROM notebook_runs
+       WHERE notebook_id = ?
+       ORDER BY started_at DESC
+       LIMIT ?`,
+      [notebookId, limit]
+    );
+    return rows.map((row) => parseRunSummary(row.summary));
+  }
+
+  async listLatest(): Promise<NotebookRunSummary[]> {
+    const db = await this.getDb();
+    const rows = await getAllRows<{ summary: string }>(
+      db,
+      `SELECT summary FROM notebook_runs AS r
+       WHERE started_at = (
+         SELECT MAX(started_at) FROM notebook_runs
+         WHERE notebook_id = r.notebook_id
+       )`
+    );
+    return rows.map((row) => parseRunSummary(row.summary));
+  }
+
+  async prune(notebookId: string, keep: number): Promise<void> {
+    const db = await this.getDb();
+    await runSql(
+      db,
+      `DELETE FROM notebook_runs
+       WHERE notebook_id = ?
+         AND id NOT IN (
+           SELECT id FROM notebook_runs
+           WHERE notebook_id = ?
+           ORDER BY started_at DESC
+           LIMIT ?
+         )`,
+      [notebookId, notebookId, keep]
+    );
+    await this.notebooks.flush();
+  }
+}
+
 const mapUserRow = (row: {
   id: string;
   email: string;
@@ -915,11 +1231,24 @@ const mapCollaboratorRow = (row: {
   updatedAt: row.updated_at,
 });
 
+const parseProjectDefaults = (raw: string | null) => {
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    const parsed = ProjectDefaultsSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
 const mapProjectRow = (row: {
   id: string;
   name: string;
   slug: string | null;
   published: number | null;
+  defaults: string | null;
   created_at: string;
   updated_at: string;
 }): Project => ({
@@ -930,6 +1259,7 @@ const mapProjectRow = (row: {
       ? normalizeSlug(row.slug)
       : normalizeSlug(row.name) || normalizeSlug(row.id) || row.id,
   published: Boolean(row.published),
+  defaults: parseProjectDefaults(row.defaults),
   createdAt: row.created_at,
   updatedAt: row.updated_at,
 });
@@ -1791,11 +2121,12 @@ export class SqliteProjectStore implements ProjectStore {
       name: string;
       slug: string | null;
       published: number | null;
+      defaults: string | null;
       created_at: string;
       updated_at: string;
     }>(
       db,
-      `SELECT id, name, slug, published, created_at, updated_at FROM projects ORDER BY created_at ASC, id ASC`
+      `SELECT id, name, slug, published, defaults, created_at, updated_at FROM projects ORDER BY created_at ASC, id ASC`
     );
     return rows.map(mapProjectRow);
   }
@@ -1808,13 +2139,14 @@ export class SqliteProjectStore implements ProjectStore {
           name: string;
           slug: string | null;
           published: number | null;
+          defaults: string | null;
           created_at: string;
           updated_at: string;
         }
       | undefined
     >(
       db,
-      `SELECT id, name, slug, published, created_at, updated_at FROM projects WHERE id = ? LIMIT 1`,
+      `SELECT id, name, slug, published, defaults, created_at, updated_at FROM projects WHERE id = ? LIMIT 1`,
       [id]
     );
     return row ? mapProjectRow(row) : undefined;
@@ -1832,13 +2164,14 @@ export class SqliteProjectStore implements ProjectStore {
           name: string;
           slug: string | null;
           published: number | null;
+          defaults: string | null;
           created_at: string;
           updated_at: string;
         }
       | undefined
     >(
       db,
-      `SELECT id, name, slug, published, created_at, updated_at FROM projects WHERE slug = ? LIMIT 1`,
+      `SELECT id, name, slug, published, defaults, created_at, updated_at FROM projects WHERE slug = ? LIMIT 1`,
       [normalized]
     );
     return row ? mapProjectRow(row) : undefined;
@@ -1905,6 +2238,11 @@ export class SqliteProjectStore implements ProjectStore {
       values.push(updates.published ? 1 : 0);
     }
 
+    if (updates.defaults !== undefined) {
+      fragments.push("defaults = ?");
+      values.push(JSON.stringify(updates.defaults));
+    }
+
     if (fragments.length === 0) {
       return current;
     }
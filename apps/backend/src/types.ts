@@ -1,4 +1,11 @@
-import type { Notebook } from "@nodebooks/notebook-schema";
+import type {
+  Notebook,
+  NotebookRun,
+  NotebookRunSummary,
+  NotebookSecret,
+  NotebookSecretScope,
+  ProjectDefaults,
+} from "@nodebooks/notebook-schema";
 
 export type UserRole = "admin" | "editor" | "viewer";
 export type NotebookRole = "editor" | "viewer";
@@ -135,6 +142,8 @@ export interface Project {
   name: string;
   slug: string;
   published: boolean;
+  // Environment and SQL connections inherited by the project's notebooks
+  defaults?: ProjectDefaults;
   createdAt: string;
   updatedAt: string;
 }
@@ -149,6 +158,7 @@ export interface UpdateProjectInput {
   name?: string;
   slug?: string | null;
   published?: boolean;
+  defaults?: ProjectDefaults;
 }
 
 export interface ProjectStore {
@@ -260,6 +270,8 @@ export interface NotebookStore {
   all(): Promise<Notebook[]>;
   get(id: string): Promise<Notebook | undefined>;
   getByPublicSlug(slug: string): Promise<Notebook | undefined>;
+  // The notebook whose enabled app is served at `/api/apps/:slug`
+  getByAppSlug(slug: string): Promise<Notebook | undefined>;
   save(notebook: Notebook): Promise<Notebook>;
   remove(id: string): Promise<Notebook | undefined>;
   listAttachments(notebookId: string): Promise<NotebookAttachment[]>;
@@ -278,6 +290,42 @@ export interface NotebookStore {
   removeAttachment(notebookId: string, attachmentId: string): Promise<boolean>;
 }
 
+export interface NotebookRunStore {
+  save(run: NotebookRun): Promise<NotebookRun>;
+  get(id: string): Promise<NotebookRun | undefined>;
+  // Newest first, without outputs and logs
+  listByNotebook(
+    notebookId: string,
+    limit?: number
+  ): Promise<NotebookRunSummary[]>;
+  // The most recent run of every notebook that has one
+  listLatest(): Promise<NotebookRunSummary[]>;
+  // Drops all but the newest `keep` runs of a notebook
+  prune(notebookId: string, keep: number): Promise<void>;
+}
+
+// `ciphertext` is the AES-GCM envelope produced by secrets/crypto.ts
+export interface StoredSecret extends NotebookSecret {
+  ciphertext: string;
+}
+
+export interface SecretStore {
+  list(scope: NotebookSecretScope, scopeId: string): Promise<StoredSecret[]>;
+  get(
+    scope: NotebookSecretScope,
+    scopeId: string,
+    name: string
+  ): Promise<StoredSecret | undefined>;
+  // Upserts by scope, scope id and name
+  save(secret: StoredSecret): Promise<StoredSecret>;
+  remove(
+    scope: NotebookSecretScope,
+    scopeId: string,
+    name: string
+  ): Promise<boolean>;
+  removeAll(scope: NotebookSecretScope, scopeId: string): Promise<void>;
+}
+
 export interface SettingsStore {
   all(): Promise<Record<string, unknown>>;
   get<T = unknown>(key: string): Promise<T | undefined>;
@@ -0,0 +1,253 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import YAML from "yaml";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createCodeCell,
+  createEmptyNotebook,
+  createMarkdownCell,
+  type Notebook,
+} from "@nodebooks/notebook-schema";
+import { FileSystemNotebookStore } from "../src/store/filesystem.js";
+import { InMemoryNotebookStore } from "../src/store/memory.js";
+
+const projects = {
+  get: async (id: string) =>
+    id === "project-1"
+      ? {
+          id,
+          name: "Ops",
+          slug: "ops",
+          createdAt: "",
+          updatedAt: "",
+        }
+      : undefined,
+  getBySlug: async (slug: string) =>
+    slug === "ops"
+      ? { id: "project-1", name: "Ops", slug, createdAt: "", updatedAt: "" }
+      : undefined,
+} as unknown as ConstructorParameters<
+  typeof FileSystemNotebookStore
+>[0]["projects"];
+
+describe("FileSystemNotebookStore", () => {
+  let directory: string;
+  const stores: FileSystemNotebookStore[] = [];
+
+  const open = (watch = false) => {
+    const store = new FileSystemNotebookStore({ directory, projects, watch });
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "nodebooks-fs-"));
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.splice(0).map((store) => store.close()));
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("keeps notebooks and attachments as files in project folders", async () => {
+    const index = new InMemoryNotebookStore();
+    const store = new FileSystemNotebookStore({
+      directory,
+      projects,
+      index,
+      watch: false,
+    });
+    stores.push(store);
+    const notebook = createEmptyNotebook({
+      name: "Restart Worker",
+      projectId: "project-1",
+      cells: [
+        createMarkdownCell({ source: "# Steps" }),
+        createCodeCell({ language: "ts", source: "const a = 1;" }),
+      ],
+    });
+
+    const saved = await store.save(notebook);
+    const file = path.join(directory, "ops", "restart-worker.nb.yml");
+    const document = YAML.parse(readFileSync(file, "utf8"));
+    expect(document.id).toBe(notebook.id);
+    expect(document.notebook.cells[1]).toMatchObject({
+      id: notebook.cells[1]!.id,
+      type: "code",
+      source: "const a = 1;",
+    });
+    expect(document.nodebooks).toMatchObject({ projectId: "project-1" });
+    expect(await index.get(notebook.id)).toBeDefined();
+
+    const attachment = await store.saveAttachment(notebook.id, {
+      filename: "diagram.png",
+      mimeType: "image/png",
+      content: Buffer.from("png"),
+    });
+    expect(
+      existsSync(
+        path.join(
+          directory,
+          "ops",
+          "restart-worker.attachments",
+          `${attachment.id}-diagram.png`
+        )
+      )
+    ).toBe(true);
+
+    const renamed = await store.save({ ...saved, name: "Restart workers" });
+    expect(existsSync(file)).toBe(false);
+
+    const reopened = open();
+    const found = await reopened.get(notebook.id);
+    expect(found?.name).toBe("Restart workers");
+    expect(found?.cells.map((cell) => cell.id)).toEqual(
+      notebook.cells.map((cell) => cell.id)
+    );
+    expect(found?.createdAt).toBe(renamed.createdAt);
+    expect(await reopened.listAttachments(notebook.id)).toEqual([
+      expect.objectContaining({ id: attachment.id, size: 3 }),
+    ]);
+    const content = await reopened.getAttachment(notebook.id, attachment.id);
+    expect(Buffer.from(content!.content).toString()).toBe("png");
+
+    expect(await reopened.removeAttachment(notebook.id, attachment.id)).toBe(
+      true
+    );
+    expect(await reopened.listAttachments(notebook.id)).toEqual([]);
+    await reopened.remove(notebook.id);
+    expect(await reopened.all()).toEqual([]);
+    expect(
+      existsSync(path.join(directory, "ops", "restart-workers.nb.yml"))
+    ).toBe(false);
+  });
+
+  it("keeps the old file when a move can't be written", async () => {
+    const store = open();
+    const notebook = await store.save(createEmptyNotebook({ name: "Cleanup" }));
+    const file = path.join(directory, "cleanup.nb.yml");
+    expect(existsSync(file)).toBe(true);
+    // A file where the project folder should go makes the write fail
+    writeFileSync(path.join(directory, "ops"), "");
+
+    await expect(
+      store.save({ ...notebook, projectId: "project-1" })
+    ).rejects.toThrow();
+    expect(existsSync(file)).toBe(true);
+    expect((await store.get(notebook.id))?.projectId).toBeNull();
+    rmSync(path.join(directory, "ops"));
+
+    const reopened = open();
+    expect((await reopened.get(notebook.id))?.name).toBe("Cleanup");
+  });
+
+  it("adopts hand-written files and gives copies their own id", async () => {
+    mkdirSync(path.join(directory, "ops"));
+    const contents = YAML.stringify({
+      notebook: {
+        name: "Runbook",
+        cells: [{ type: "markdown", source: "Check the queue" }],
+      },
+    });
+    writeFileSync(path.join(directory, "ops", "runbook.nb.yml"), contents);
+
+    const store = open();
+    const [notebook] = await store.all();
+    expect(notebook).toMatchObject({ name: "Runbook", projectId: "project-1" });
+    // Ids are written back so they survive a restart
+    const document = YAML.parse(
+      readFileSync(path.join(directory, "ops", "runbook.nb.yml"), "utf8")
+    );
+    expect(document.id).toBe(notebook!.id);
+    expect(document.notebook.cells[0].id).toBe(notebook!.cells[0]!.id);
+
+    writeFileSync(
+      path.join(directory, "runbook-copy.nb.yml"),
+      YAML.stringify(document)
+    );
+    const ids = (await open().all()).map((item) => item.id);
+    expect(ids).toHaveLength(2);
+    expect(new Set(ids).size).toBe(2);
+  });
+
+  it("refuses attachment ids that lead out of the attachments folder", async () => {
+    writeFileSync(path.join(directory, "secret.txt"), "keep");
+    writeFileSync(
+      path.join(directory, "notes.nb.yml"),
+      YAML.stringify({
+        id: "notes",
+        notebook: { name: "Notes", cells: [] },
+        nodebooks: {
+          attachments: [
+            {
+              id: "../../secret.txt#",
+              filename: "x",
+              mimeType: "text/plain",
+              createdAt: "",
+            },
+          ],
+        },
+      })
+    );
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const store = open();
+      expect(await store.get("notes")).toBeUndefined();
+      expect(
+        await store.getAttachment("notes", "../../secret.txt#")
+      ).toBeUndefined();
+      expect(await store.removeAttachment("notes", "../../secret.txt#")).toBe(
+        false
+      );
+    } finally {
+      warn.mockRestore();
+    }
+    expect(readFileSync(path.join(directory, "secret.txt"), "utf8")).toBe(
+      "keep"
+    );
+  });
+
+  it("reports files changed on disk but not its own writes", async () => {
+    const store = open(true);
+    await store.ensureReady();
+    const changes: Notebook[] = [];
+    store.onExternalChange((notebook) => changes.push(notebook));
+
+    const saved = await store.save(
+      createEmptyNotebook({
+        name: "Watched",
+        cells: [createCodeCell({ language: "js", source: "1" })],
+      })
+    );
+    // Past the watcher's debounce, so the save itself would have shown up
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    expect(changes).toEqual([]);
+
+    const file = path.join(directory, "watched.nb.yml");
+    const document = YAML.parse(readFileSync(file, "utf8"));
+    document.notebook.cells[0].source = "2";
+    writeFileSync(file, YAML.stringify(document));
+
+    await vi.waitFor(
+      () => {
+        expect(changes).toHaveLength(1);
+      },
+      { timeout: 5000, interval: 50 }
+    );
+    expect(changes[0]).toMatchObject({
+      id: saved.id,
+      cells: [{ id: saved.cells[0]!.id, source: "2" }],
+    });
+    expect((await store.get(saved.id))?.cells[0]).toMatchObject({
+      source: "2",
+    });
+  });
+});
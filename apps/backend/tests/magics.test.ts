@@ -0,0 +1,272 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ExecuteResult } from "@nodebooks/runtime-host";
+import { createRedactor } from "@nodebooks/notebook-schema";
+import {
+  buildTimeitCode,
+  builtinMagics,
+  parseMagics,
+  runMagics,
+  stripMagics,
+  type MagicRunOptions,
+} from "../src/kernel/magics.js";
+
+const ok = (): ExecuteResult => ({
+  outputs: [],
+  execution: { started: 0, ended: 1, status: "ok" },
+  globals: {},
+});
+
+const createOptions = (
+  overrides: Partial<MagicRunOptions> = {}
+): MagicRunOptions => {
+  const env: Record<string, string> = { BASE: "1" };
+  return {
+    notebookId: "nb",
+    cellId: "cell",
+    language: "js",
+    workspaceDir: os.tmpdir(),
+    signal: new AbortController().signal,
+    magics: builtinMagics,
+    execute: vi.fn(async () => ok()),
+    listVariables: async () => [],
+    getEnv: () => ({ ...env }),
+    setEnv: (name, value) => {
+      if (value === undefined) {
+        delete env[name];
+      } else {
+        env[name] = value;
+      }
+    },
+    redact: (text) => text,
+    onStream: () => {},
+    ...overrides,
+  };
+};
+
+const stdoutOf = (outputs: ExecuteResult["outputs"]) =>
+  outputs
+    .map((output) =>
+      output.type === "stream" && output.name === "stdout" ? output.text : ""
+    )
+    .join("");
+
+describe("parseMagics", () => {
+  it("returns null for plain code", () => {
+    expect(parseMagics("const a = 1 % 2;\nconsole.log(a);")).toBeNull();
+  });
+
+  it("splits line magics from code and keeps line numbers", () => {
+    const code = "const a = 1;\n%time a + 1\n\nconsole.log(a);";
+    const segments = parseMagics(code);
+    expect(segments).toEqual([
+      { kind: "code", code: "const a = 1;", line: 0 },
+      {
+        kind: "magic",
+        type: "line",
+        name: "time",
+        args: "a + 1",
+        body: "",
+        line: 1,
+      },
+      { kind: "code", code: "\nconsole.log(a);", line: 2 },
+    ]);
+    expect(stripMagics(code, segments!)).toBe(
+      "const a = 1;\n\n\nconsole.log(a);"
+    );
+  });
+
+  it("treats a %% first line as a cell magic", () => {
+    const segments = parseMagics("%%sh -x\nls\npwd");
+    expect(segments).toEqual([
+      {
+        kind: "magic",
+        type: "cell",
+        name: "sh",
+        args: "-x",
+        body: "ls\npwd",
+        line: 0,
+      },
+    ]);
+    expect(stripMagics("%%sh -x\nls\npwd", segments!)).toBeNull();
+  });
+});
+
+describe("runMagics", () => {
+  let tempDir: string | null = null;
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+      tempDir = null;
+    }
+  });
+
+  it("pads code so kernel lines match the cell", async () => {
+    const options = createOptions();
+    const result = await runMagics(
+      parseMagics("%time work()\nconst b = 2;")!,
+      options
+    );
+    expect(options.execute).toHaveBeenNthCalledWith(1, "work()");
+    expect(options.execute).toHaveBeenNthCalledWith(2, "\nconst b = 2;");
+    expect(stdoutOf(result.outputs)).toMatch(/^Wall time: [\d.]+ \S+\n$/);
+    expect(result.execution.status).toBe("ok");
+  });
+
+  it("stops at the first failing segment", async () => {
+    const options = createOptions({
+      execute: vi.fn(async () => ({
+        ...ok(),
+        outputs: [
+          {
+            type: "error" as const,
+            ename: "Error",
+            evalue: "x",
+            traceback: [],
+          },
+        ],
+        execution: { started: 0, ended: 1, status: "error" as const },
+      })),
+    });
+    const result = await runMagics(
+      parseMagics("throw new Error('x');\n%env A=1")!,
+      options
+    );
+    expect(result.execution.status).toBe("error");
+    expect(options.getEnv()).not.toHaveProperty("A");
+  });
+
+  it("reports unknown magics as usage errors", async () => {
+    const result = await runMagics(parseMagics("%nope")!, createOptions());
+    expect(result.outputs).toEqual([
+      expect.objectContaining({
+        type: "error",
+        ename: "UsageError",
+        evalue: "Line magic function `%nope` not found.",
+      }),
+    ]);
+    expect(result.globals).toBeUndefined();
+  });
+
+  it("reads and sets environment overrides with %env", async () => {
+    const options = createOptions();
+    const set = await runMagics(parseMagics('%env TOKEN="abc"')!, options);
+    expect(stdoutOf(set.outputs)).toBe("env: TOKEN=abc\n");
+    const read = await runMagics(parseMagics("%env TOKEN")!, options);
+    expect(stdoutOf(read.outputs)).toBe("abc\n");
+    const list = await runMagics(parseMagics("%env")!, options);
+    expect(stdoutOf(list.outputs)).toBe("BASE=1\nTOKEN=abc\n");
+  });
+
+  it("redacts secrets in what magics print, display and throw", async () => {
+    const streamed: string[] = [];
+    const options = createOptions({
+      getEnv: () => ({ TOKEN: "s3cr3t-value" }),
+      redact: createRedactor({ values: ["s3cr3t-value"] }),
+      onStream: (output) => streamed.push(output.text),
+      magics: [
+        ...builtinMagics,
+        {
+          kind: "line",
+          name: "leak",
+          description: "Leaks a secret",
+          run: (context) => {
+            context.display({ "text/plain": "token s3cr3t-value" });
+            throw new Error("rejected s3cr3t-value");
+          },
+        },
+      ],
+    });
+    const read = await runMagics(parseMagics("%env TOKEN")!, options);
+    expect(stdoutOf(read.outputs)).toBe("[redacted]\n");
+    const list = await runMagics(parseMagics("%env")!, options);
+    expect(stdoutOf(list.outputs)).toBe("TOKEN=[redacted]\n");
+    expect(streamed.join("")).not.toContain("s3cr3t-value");
+
+    const leak = await runMagics(parseMagics("%leak")!, options);
+    expect(leak.outputs).toEqual([
+      { type: "display_data", data: { "text/plain": "token [redacted]" } },
+      expect.objectContaining({ type: "error", evalue: "rejected [redacted]" }),
+    ]);
+  });
+
+  it("lists globals with %who", async () => {
+    const options = createOptions({
+      listVariables: async () => [
+        { name: "total", valueType: "number" },
+        { name: "rows", valueType: "Array" },
+      ],
+    });
+    const all = await runMagics(parseMagics("%who")!, options);
+    expect(stdoutOf(all.outputs)).toBe("rows\ttotal\n");
+    const numbers = await runMagics(parseMagics("%who number")!, options);
+    expect(stdoutOf(numbers.outputs)).toBe("total\n");
+    const empty = await runMagics(
+      parseMagics("%who")!,
+      createOptions({ listVariables: async () => [] })
+    );
+    expect(stdoutOf(empty.outputs)).toBe("Interactive namespace is empty.\n");
+  });
+
+  it("replaces the cell source with %load", async () => {
+    tempDir = await mkdtemp(path.join(os.tmpdir(), "nodebooks-magics-"));
+    await writeFile(path.join(tempDir, "snippet.js"), "console.log(1);\n");
+    const options = createOptions({ workspaceDir: tempDir });
+    const result = await runMagics(
+      parseMagics("%load snippet.js\nnotRun();")!,
+      options
+    );
+    expect(result.source).toBe("// %load snippet.js\nconsole.log(1);\n");
+    expect(options.execute).not.toHaveBeenCalled();
+
+    const escaped = await runMagics(
+      parseMagics("%load ../secret.txt")!,
+      options
+    );
+    expect(escaped.execution.status).toBe("error");
+  });
+
+  it("runs plugin magics with the cell body", async () => {
+    const seen: string[] = [];
+    const options = createOptions({
+      magics: [
+        ...builtinMagics,
+        {
+          name: "upper",
+          kind: "cell",
+          description: "",
+          run: (context) => {
+            seen.push(context.args);
+            context.stdout(context.body.toUpperCase());
+          },
+        },
+      ],
+    });
+    const result = await runMagics(parseMagics("%%upper -q\nhi")!, options);
+    expect(seen).toEqual(["-q"]);
+    expect(stdoutOf(result.outputs)).toBe("HI");
+  });
+});
+
+describe("buildTimeitCode", () => {
+  it("reports per-loop statistics", async () => {
+    const lines: string[] = [];
+    const code = buildTimeitCode("Math.sqrt(2);", 5, 3);
+    const run = new Function(
+      "process",
+      "console",
+      `return (async () => { ${code} })();`
+    ) as (
+      process: NodeJS.Process,
+      console: { log: (line: string) => void }
+    ) => Promise<void>;
+    await run(process, { log: (line) => lines.push(line) });
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatch(
+      /^[\d.]+ (ns|µs|ms|s) ± [\d.]+ (ns|µs|ms|s) per loop \(mean ± std\. dev\. of 3 runs, 5 loops each\)$/
+    );
+  });
+});
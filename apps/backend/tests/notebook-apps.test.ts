@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createCodeCell,
+  createEmptyNotebook,
+  NODEBOOKS_UI_MIME,
+  NotebookAppSchema,
+  type Notebook,
+  type NotebookOutput,
+} from "@nodebooks/notebook-schema";
+import type { WorkerPool } from "@nodebooks/runtime-host";
+
+const runNotebook = vi.fn();
+
+vi.mock("../src/notebooks/runner.js", () => ({
+  runNotebook: (...args: unknown[]) => runNotebook(...args),
+}));
+
+import { createAppToken, hashAppToken } from "../src/auth/app-token.js";
+import {
+  NotebookAppBusyError,
+  NotebookAppRunner,
+  extractAppResponse,
+  isAppRequestAuthorized,
+  readAppToken,
+} from "../src/notebooks/apps.js";
+
+const notebookWithOutputs = (...outputs: NotebookOutput[][]): Notebook =>
+  createEmptyNotebook({
+    cells: outputs.map((cellOutputs) => ({
+      ...createCodeCell({ source: "" }),
+      outputs: cellOutputs,
+    })),
+  });
+
+const ui = (display: Record<string, unknown>): NotebookOutput => ({
+  type: "display_data",
+  data: { [NODEBOOKS_UI_MIME]: display },
+});
+
+describe("extractAppResponse", () => {
+  it("prefers the last respond() display", () => {
+    const notebook = notebookWithOutputs(
+      [ui({ ui: "response", status: 201, body: { first: true } })],
+      [
+        ui({
+          ui: "response",
+          status: 202,
+          headers: { "x-app": "yes" },
+          body: { ok: true },
+        }),
+      ],
+      [{ type: "stream", name: "stdout", text: "ignored\n" }]
+    );
+    expect(extractAppResponse(notebook, {})).toEqual({
+      status: 202,
+      headers: { "x-app": "yes" },
+      body: { ok: true },
+    });
+  });
+
+  it("falls back to the output cell, then the last cell with output", () => {
+    const notebook = notebookWithOutputs(
+      [ui({ ui: "json", json: { total: 3 } })],
+      [{ type: "display_data", data: { "text/plain": "42" } }],
+      []
+    );
+    const outputCellId = notebook.cells[0]!.id;
+    expect(extractAppResponse(notebook, { outputCellId }).body).toEqual({
+      total: 3,
+    });
+    expect(extractAppResponse(notebook, {}).body).toBe("42");
+    expect(extractAppResponse(notebookWithOutputs([]), {}).status).toBe(204);
+  });
+});
+
+describe("app authentication", () => {
+  it("accepts the current token from either header", () => {
+    const token = createAppToken();
+    const app = NotebookAppSchema.parse({
+      enabled: true,
+      slug: "prices",
+      tokenHash: hashAppToken(token),
+    });
+    expect(readAppToken({ authorization: `Bearer ${token}` })).toBe(token);
+    expect(readAppToken({ "x-nodebooks-token": token })).toBe(token);
+    expect(isAppRequestAuthorized(app, token)).toBe(true);
+    expect(isAppRequestAuthorized(app, createAppToken())).toBe(false);
+    expect(isAppRequestAuthorized(app, null)).toBe(false);
+    expect(
+      isAppRequestAuthorized(
+        { ...app, auth: "public", tokenHash: undefined },
+        null
+      )
+    ).toBe(true);
+  });
+});
+
+describe("NotebookAppRunner", () => {
+  beforeEach(() => {
+    runNotebook.mockReset();
+  });
+
+  it("turns away requests beyond the app's concurrency", async () => {
+    let finish: () => void = () => {};
+    const notebook = notebookWithOutputs([]);
+    runNotebook.mockReturnValue(
+      new Promise((resolve) => {
+        finish = () =>
+          resolve({ notebook, cells: [], parameters: {}, status: "ok" });
+      })
+    );
+    const runner = new NotebookAppRunner({
+      getPool: () => ({}) as WorkerPool,
+    });
+    const app = NotebookAppSchema.parse({
+      enabled: true,
+      slug: "busy",
+      maxConcurrency: 1,
+      timeoutMs: 500,
+    });
+
+    const first = runner.run({ ...notebook, app }, { limit: 5 });
+    await expect(runner.run({ ...notebook, app }, {})).rejects.toBeInstanceOf(
+      NotebookAppBusyError
+    );
+    finish();
+    await expect(first).resolves.toMatchObject({ status: 204 });
+    expect(runner.activeRequests(notebook.id)).toBe(0);
+    expect(runNotebook.mock.calls[0]![1]).toMatchObject({
+      timeoutMs: 500,
+      parameters: { limit: 5 },
+    });
+  });
+
+  it("reports failed cells as a server error", async () => {
+    const notebook = notebookWithOutputs([]);
+    runNotebook.mockResolvedValue({
+      notebook,
+      cells: [
+        {
+          cellId: notebook.cells[0]!.id,
+          index: 0,
+          status: "error",
+          durationMs: 1,
+          error: { ename: "TypeError", evalue: "boom" },
+        },
+      ],
+      parameters: {},
+      status: "error",
+    });
+    const runner = new NotebookAppRunner({
+      getPool: () => ({}) as WorkerPool,
+    });
+    const app = NotebookAppSchema.parse({ enabled: true, slug: "broken" });
+    await expect(runner.run({ ...notebook, app }, {})).resolves.toMatchObject({
+      status: 500,
+      body: { error: "TypeError: boom" },
+    });
+  });
+});
@@ -0,0 +1,442 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { strFromU8, unzipSync } from "fflate";
+import {
+  NODEBOOKS_UI_MIME,
+  createCodeCell,
+  createEmptyNotebook,
+  createMarkdownCell,
+  createUnknownCell,
+  type CodeCell,
+  type MarkdownCell,
+} from "@nodebooks/notebook-schema";
+import { createNotebookFromFileDefinition } from "../src/notebooks/file.js";
+import {
+  parseMarkdownNotebook,
+  serializeNotebookToMarkdown,
+} from "../src/notebooks/markdown.js";
+import {
+  isScriptContents,
+  packNotebookScript,
+  parseScriptNotebook,
+  serializeNotebookToScript,
+} from "../src/notebooks/script.js";
+
+const createReport = (language: "ts" | "js") => ({
+  ...createEmptyNotebook({
+    name: "Quarterly report",
+    env: {
+      runtime: "node",
+      version: "22.x",
+      packages: { zod: "^4.0.0" },
+      variables: { API_TOKEN: "secret" },
+    },
+    cells: [
+      createMarkdownCell({
+        source:
+          "## Chart\n![chart](/api/notebooks/REPORT/attachments/a1/content)",
+      }),
+      createCodeCell({
+        language,
+        source: "console.log('a');\nconsole.log('b');\n",
+        outputs: [
+          { type: "stream", name: "stdout", text: "a\n" },
+          { type: "stream", name: "stdout", text: "b\n" },
+          {
+            type: "display_data",
+            data: {
+              [NODEBOOKS_UI_MIME]: {
+                ui: "table",
+                rows: [{ region: "EU", total: 2 }],
+              },
+            },
+          },
+          { type: "error", ename: "TypeError", evalue: "boom", traceback: [] },
+        ],
+      }),
+      createCodeCell({ language, source: "const fence = '```';" }),
+      createUnknownCell("sql", {
+        type: "sql",
+        query: "select 1",
+        connectionId: "warehouse",
+      }),
+    ],
+  }),
+  id: "REPORT",
+});
+
+describe("notebook export", () => {
+  it("writes Markdown with fenced code, quoted outputs and inlined images", () => {
+    const markdown = serializeNotebookToMarkdown(
+      createReport("ts"),
+      new Map([
+        [
+          "a1",
+          {
+            filename: "chart.png",
+            mimeType: "image/png",
+            content: Buffer.from("png"),
+          },
+        ],
+      ])
+    );
+
+    expect(markdown.startsWith("# Quarterly report\n\n## Chart\n")).toBe(true);
+    expect(markdown).toContain("![chart](data:image/png;base64,cG5n)");
+    expect(markdown).toContain(
+      "```ts\nconsole.log('a');\nconsole.log('b');\n```"
+    );
+    expect(markdown).toContain("> ```text\n> a\n> b\n> ```");
+    expect(markdown).toContain(
+      "> | region | total |\n> | --- | --- |\n> | EU | 2 |"
+    );
+    expect(markdown).toContain("> **TypeError**: boom");
+    expect(markdown).toContain("````ts\nconst fence = '```';\n````");
+    expect(markdown).toMatch(/```nodebooks-cell\n[\s\S]*query: select 1/);
+  });
+
+  it("turns cells into a percent script with a package.json", () => {
+    const script = serializeNotebookToScript(
+      createReport("ts"),
+      "quarterly-report"
+    );
+
+    expect(script.filename).toBe("quarterly-report.ts");
+    expect(script.script.startsWith("// Quarterly report\n")).toBe(true);
+    expect(script.script).toContain(
+      "// Reads these environment variables: API_TOKEN"
+    );
+    expect(script.script).not.toContain("secret");
+    expect(script.script).toContain(
+      "// %% [markdown]\n// ## Chart\n// ![chart]"
+    );
+    expect(script.script).toContain(
+      "// %%\nconsole.log('a');\nconsole.log('b');\n\n// %%\nconst fence"
+    );
+    expect(script.script).toMatch(
+      /\/\/ %% \[sql\]\n[\s\S]*\/\/ query: select 1/
+    );
+    expect(script.packageJson).toMatchObject({
+      name: "quarterly-report",
+      type: "module",
+      scripts: { start: "tsx quarterly-report.ts" },
+      dependencies: { zod: "^4.0.0" },
+      devDependencies: { tsx: expect.any(String) },
+      engines: { node: ">=22" },
+    });
+
+    const javascript = serializeNotebookToScript(
+      createReport("js"),
+      "quarterly-report"
+    );
+    expect(javascript.filename).toBe("quarterly-report.mjs");
+    expect(javascript.packageJson).not.toHaveProperty("devDependencies");
+
+    const archive = unzipSync(packNotebookScript(javascript));
+    expect(Object.keys(archive).sort()).toEqual([
+      "package.json",
+      "quarterly-report.mjs",
+    ]);
+    expect(strFromU8(archive["quarterly-report.mjs"]!)).toBe(javascript.script);
+    expect(JSON.parse(strFromU8(archive["package.json"]!))).toEqual(
+      javascript.packageJson
+    );
+  });
+
+  it("turns redeclared bindings into assignments and comments out magics", () => {
+    const notebook = createEmptyNotebook({
+      name: "Redeclared",
+      cells: [
+        createCodeCell({
+          language: "js",
+          source: 'import os from "node:os";\nconst df = [1, 2];',
+        }),
+        createCodeCell({
+          language: "js",
+          source:
+            '%env MODE=fast\nimport os from "node:os";\nconst df = df.map((n) => n * 10), label = "x";\nfunction show() { return df; }',
+        }),
+        createCodeCell({
+          language: "js",
+          source:
+            "let { length } = df;\nfunction show() { return `${label}:${df}:${length}`; }\nconsole.log(show(), typeof os.EOL);",
+        }),
+        createCodeCell({ language: "js", source: "%%sh\necho hi" }),
+      ],
+    });
+
+    const { script } = serializeNotebookToScript(notebook, "redeclared");
+    expect(script).toContain("let df = [1, 2];");
+    expect(script).toContain("df = df.map((n) => n * 10);");
+    expect(script).toContain("// [magic] %env MODE=fast");
+    expect(script).toContain("// [magic] %%sh\n// echo hi");
+
+    const directory = mkdtempSync(path.join(tmpdir(), "nodebooks-script-"));
+    try {
+      const file = path.join(directory, "redeclared.mjs");
+      writeFileSync(file, script);
+      expect(execFileSync(process.execPath, [file], { encoding: "utf8" })).toBe(
+        "x:10,20:2 string\n"
+      );
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+
+    const cells = parseScriptNotebook(script, "js").notebook.cells;
+    expect(cells[1]).toMatchObject({
+      source: expect.stringMatching(/^%env MODE=fast\n/),
+    });
+    expect(cells[3]).toMatchObject({ source: "%%sh\necho hi" });
+  });
+
+  it("comments out @nodebooks/ui imports and restores them on import", () => {
+    const notebook = createEmptyNotebook({
+      name: "Checks",
+      cells: [
+        createCodeCell({
+          language: "js",
+          source:
+            'import {\n  display,\n  expect,\n} from "@nodebooks/ui";\nimport os from "node:os";\nconsole.log(typeof os.EOL);',
+        }),
+      ],
+    });
+
+    const { script } = serializeNotebookToScript(notebook, "checks");
+    expect(script).toContain(
+      '// [notebook] import {\n// [notebook]   display,\n// [notebook]   expect,\n// [notebook] } from "@nodebooks/ui";'
+    );
+    expect(script).toContain('import os from "node:os";');
+
+    const directory = mkdtempSync(path.join(tmpdir(), "nodebooks-script-"));
+    try {
+      const file = path.join(directory, "checks.mjs");
+      writeFileSync(file, script);
+      expect(execFileSync(process.execPath, [file], { encoding: "utf8" })).toBe(
+        "string\n"
+      );
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+
+    const cells = parseScriptNotebook(script, "js").notebook.cells;
+    expect(cells).toEqual([
+      {
+        type: "code",
+        language: "js",
+        source: notebook.cells[0]!.source,
+      },
+    ]);
+  });
+});
+
+const runbook = [
+  "# Restart the worker",
+  "",
+  "Check the queue first.",
+  "",
+  "```sql",
+  "select count(*) from jobs",
+  "```",
+  "",
+  "```http",
+  "POST https://ops.example.com/workers/restart",
+  "Content-Type: application/json",
+  "Authorization: Bearer {{TOKEN}}",
+  "",
+  '{ "force": true }',
+  "```",
+  "",
+  "```ts",
+  "const answer: number = 42;",
+  "```",
+  "",
+  "```bash",
+  "kubectl get pods",
+  "```",
+].join("\n");
+
+describe("notebook import", () => {
+  it("reads Markdown fences into code, SQL and HTTP cells", () => {
+    const file = parseMarkdownNotebook(runbook, "restart");
+
+    expect(file.title).toBe("Restart the worker");
+    expect(file.notebook.cells).toEqual([
+      { type: "markdown", source: "Check the queue first." },
+      { type: "sql", query: "select count(*) from jobs" },
+      {
+        type: "http",
+        request: {
+          method: "POST",
+          url: "https://ops.example.com/workers/restart",
+          headers: [
+            expect.objectContaining({
+              name: "Content-Type",
+              value: "application/json",
+            }),
+            expect.objectContaining({
+              name: "Authorization",
+              value: "Bearer {{TOKEN}}",
+            }),
+          ],
+          query: [],
+          body: {
+            mode: "json",
+            text: '{ "force": true }',
+            contentType: "application/json",
+          },
+        },
+      },
+      { type: "code", language: "ts", source: "const answer: number = 42;" },
+      { type: "markdown", source: "```bash\nkubectl get pods\n```" },
+    ]);
+    expect(parseMarkdownNotebook("Just prose", "notes").title).toBe("notes");
+  });
+
+  it("reads exported Markdown and scripts back into cells", () => {
+    const notebook = createReport("ts");
+    const fromMarkdown = createNotebookFromFileDefinition(
+      parseMarkdownNotebook(serializeNotebookToMarkdown(notebook))
+    );
+    expect(fromMarkdown.name).toBe("Quarterly report");
+    expect(fromMarkdown.cells.map((cell) => cell.type)).toEqual([
+      "markdown",
+      "code",
+      "code",
+      "unknown",
+    ]);
+    expect(fromMarkdown.cells[3]).toMatchObject({
+      originalData: { type: "sql", query: "select 1" },
+    });
+
+    const { script } = serializeNotebookToScript(notebook, "quarterly-report");
+    expect(isScriptContents(script)).toBe(true);
+    expect(isScriptContents("console.log(1)")).toBe(false);
+    const fromScript = createNotebookFromFileDefinition(
+      parseScriptNotebook(script, "ts", "quarterly-report")
+    );
+    expect(fromScript.name).toBe("quarterly-report");
+    expect(fromScript.cells.map((cell) => cell.type)).toEqual([
+      "markdown",
+      "code",
+      "code",
+      "unknown",
+    ]);
+    expect((fromScript.cells[0] as MarkdownCell).source).toBe(
+      (notebook.cells[0] as MarkdownCell).source
+    );
+    expect((fromScript.cells[1] as CodeCell).source).toBe(
+      "console.log('a');\nconsole.log('b');"
+    );
+    expect(fromScript.cells[3]).toMatchObject({
+      originalData: { type: "sql", query: "select 1" },
+    });
+  });
+
+  it("drops exported outputs but keeps the prose after them", () => {
+    const notebook = createEmptyNotebook({
+      name: "Outputs",
+      cells: [
+        createCodeCell({
+          language: "js",
+          source: "console.log('a\\n\\nb');",
+          outputs: [
+            { type: "stream", name: "stdout", text: "a\n\nb\n" },
+            { type: "display_data", data: { "image/png": "cG5n" } },
+            { type: "display_data", data: { "text/markdown": "> nested" } },
+          ],
+        }),
+        createMarkdownCell({ source: "Then:\n\n> A quote the author wrote" }),
+        createCodeCell({
+          language: "ts",
+          source: "throw new Error('x');",
+          outputs: [
+            { type: "error", ename: "Error", evalue: "x", traceback: [] },
+          ],
+        }),
+        createMarkdownCell({ source: "Done." }),
+      ],
+    });
+
+    const markdown = serializeNotebookToMarkdown(notebook);
+    expect(markdown).toContain("![Output](data:image/png;base64,cG5n)");
+    expect(markdown).toContain(
+      "```\n\n<!-- nodebooks:outputs -->\n\n> ```text"
+    );
+    const file = parseMarkdownNotebook(markdown);
+    expect(file.notebook.cells).toEqual([
+      { type: "code", language: "js", source: "console.log('a\\n\\nb');" },
+      // Quotes that do not directly follow a code fence are the author's
+      { type: "markdown", source: "Then:\n\n> A quote the author wrote" },
+      { type: "code", language: "ts", source: "throw new Error('x');" },
+      { type: "markdown", source: "Done." },
+    ]);
+  });
+
+  it("keeps quotes and images the author wrote after a code fence", () => {
+    const file = parseMarkdownNotebook(
+      [
+        "```bash",
+        "echo setup",
+        "```",
+        "",
+        "```js",
+        "await restart();",
+        "```",
+        "",
+        "> Note: restarts drop in-flight jobs.",
+        "",
+        "![Output](data:image/png;base64,cG5n)",
+        "",
+        "```ts",
+        "console.log('done');",
+        "```",
+        "",
+        "> ```text",
+        "> done",
+        "> ```",
+      ].join("\n"),
+      "runbook"
+    );
+    expect(file.notebook.cells).toEqual([
+      { type: "markdown", source: "```bash\necho setup\n```" },
+      { type: "code", language: "js", source: "await restart();" },
+      {
+        type: "markdown",
+        source:
+          "> Note: restarts drop in-flight jobs.\n\n![Output](data:image/png;base64,cG5n)",
+      },
+      { type: "code", language: "ts", source: "console.log('done');" },
+      { type: "markdown", source: "> ```text\n> done\n> ```" },
+    ]);
+  });
+
+  it("keeps code ahead of the first marker as a cell", () => {
+    const file = parseScriptNotebook(
+      [
+        'import { readFile } from "node:fs/promises";',
+        "",
+        "// %% Load",
+        "  const data = await readFile('data.json', 'utf8');",
+        "// %% [sql]",
+        "// select 1",
+      ].join("\n"),
+      "js"
+    );
+    expect(file.notebook.cells).toEqual([
+      {
+        type: "code",
+        language: "js",
+        source: 'import { readFile } from "node:fs/promises";',
+      },
+      {
+        type: "code",
+        language: "js",
+        source: "  const data = await readFile('data.json', 'utf8');",
+      },
+      { type: "sql", query: "select 1" },
+    ]);
+  });
+});
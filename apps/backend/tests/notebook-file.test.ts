@@ -180,4 +180,26 @@ describe("notebook file helpers", () => {
     expect(serializedCell?.query).toBe("select 1;");
     expect(serializedCell?.assignVariable).toBe("rows");
   });
+
+  it("keeps the resolved lockfile with the notebook", () => {
+    const lockfile = {
+      lockfileVersion: 3,
+      packages: {
+        "": { dependencies: { lodash: "^4.17.0" } },
+        "node_modules/lodash": { version: "4.17.21" },
+      },
+    };
+    const notebook = createNotebookFromFileDefinition({
+      notebook: {
+        name: "Pinned",
+        env: { packages: { lodash: "^4.17.0" }, lockfile },
+        cells: [],
+      },
+    });
+
+    expect(notebook.env.lockfile).toEqual(lockfile);
+    expect(serializeNotebookToFileDefinition(notebook).notebook.env).toEqual(
+      expect.objectContaining({ packages: { lodash: "^4.17.0" }, lockfile })
+    );
+  });
 });
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import {
+  createCodeCell,
+  createEmptyNotebook,
+  createMarkdownCell,
+  createUnknownCell,
+  type CodeCell,
+  type MarkdownCell,
+} from "@nodebooks/notebook-schema";
+import { createNotebookFromFileDefinition } from "../src/notebooks/file.js";
+import { findMarkdownAttachmentIds } from "../src/notebooks/attachment-links.js";
+import {
+  isIpynbContents,
+  linkIpynbAttachments,
+  parseIpynbNotebook,
+  serializeNotebookToIpynb,
+  stringifyIpynbNotebook,
+} from "../src/notebooks/ipynb.js";
+
+const jupyterNotebook = {
+  nbformat: 4,
+  nbformat_minor: 4,
+  metadata: {
+    kernelspec: {
+      name: "deno",
+      display_name: "Deno",
+      language: "typescript",
+    },
+  },
+  cells: [
+    {
+      cell_type: "markdown",
+      metadata: {},
+      source: ["# Report\n", "![chart](attachment:chart.png)"],
+      attachments: { "chart.png": { "image/png": "iVBORw0KGgo=" } },
+    },
+    {
+      cell_type: "code",
+      execution_count: 3,
+      metadata: { tags: ["setup"] },
+      source: ["const total = 1 + 1;\n", "total"],
+      outputs: [
+        { output_type: "stream", name: "stdout", text: ["a\n", "b\n"] },
+        {
+          output_type: "execute_result",
+          execution_count: 3,
+          data: { "text/plain": ["2"], "application/json": { total: 2 } },
+          metadata: {},
+        },
+        {
+          output_type: "error",
+          ename: "TypeError",
+          evalue: "boom",
+          traceback: ["TypeError: boom"],
+        },
+      ],
+    },
+    { cell_type: "raw", metadata: {}, source: "plain text" },
+  ],
+};
+
+describe("ipynb conversion", () => {
+  it("imports Jupyter cells, outputs and attachments", () => {
+    const contents = JSON.stringify(jupyterNotebook);
+    expect(isIpynbContents(contents)).toBe(true);
+    expect(isIpynbContents("notebook:\n  cells: []\n")).toBe(false);
+
+    const { file, attachments } = parseIpynbNotebook(contents, "report");
+    const notebook = createNotebookFromFileDefinition(file);
+    expect(notebook.name).toBe("report");
+
+    const [markdown, code, raw] = notebook.cells as [
+      MarkdownCell,
+      CodeCell,
+      MarkdownCell,
+    ];
+    expect(markdown.source).toBe("# Report\n![chart](attachment:chart.png)");
+    expect(attachments).toHaveLength(1);
+    expect(attachments[0]).toMatchObject({
+      key: "chart.png",
+      mimeType: "image/png",
+    });
+    expect(Buffer.from(attachments[0]!.content).toString("base64")).toBe(
+      "iVBORw0KGgo="
+    );
+
+    expect(code.language).toBe("ts");
+    expect(code.source).toBe("const total = 1 + 1;\ntotal");
+    expect(code.outputs).toEqual([
+      { type: "stream", name: "stdout", text: "a\nb\n" },
+      {
+        type: "execute_result",
+        data: { "text/plain": "2", "application/json": { total: 2 } },
+      },
+      {
+        type: "error",
+        ename: "TypeError",
+        evalue: "boom",
+        traceback: ["TypeError: boom"],
+      },
+    ]);
+    expect(raw.source).toBe("```\nplain text\n```");
+
+    const linked = linkIpynbAttachments(
+      notebook,
+      new Map([["chart.png", "/api/notebooks/nb/attachments/att-1/content"]])
+    );
+    expect((linked.cells[0] as MarkdownCell).source).toContain(
+      "![chart](/api/notebooks/nb/attachments/att-1/content)"
+    );
+  });
+
+  it("round-trips languages, settings, attachments and plugin cells", () => {
+    // Stands in for a plugin cell without loading the plugin
+    const sqlCell = createUnknownCell("sql", {
+      type: "sql",
+      query: "select 1",
+      connectionId: "warehouse",
+    });
+    const notebook = createEmptyNotebook({
+      name: "Round trip",
+      env: {
+        runtime: "node",
+        version: "22.x",
+        packages: { zod: "^4.0.0" },
+        variables: {},
+      },
+      reactive: true,
+      cells: [
+        createMarkdownCell({
+          source: "![logo](/api/notebooks/ROUND/attachments/logo-1/content)",
+        }),
+        createCodeCell({ language: "ts", source: "const a = 1;\n" }),
+        createCodeCell({
+          language: "js",
+          source: "console.log(a)",
+          outputs: [{ type: "stream", name: "stdout", text: "1\n" }],
+        }),
+        sqlCell,
+      ],
+    });
+    const withId = { ...notebook, id: "ROUND" };
+
+    expect(findMarkdownAttachmentIds(withId)).toEqual(["logo-1"]);
+    const ipynb = serializeNotebookToIpynb(
+      withId,
+      new Map([
+        [
+          "logo-1",
+          {
+            filename: "logo.svg",
+            mimeType: "image/svg+xml",
+            content: Buffer.from("<svg/>"),
+          },
+        ],
+      ])
+    );
+    expect(ipynb.metadata.kernelspec).toMatchObject({ language: "typescript" });
+    expect(ipynb.cells[0]).toMatchObject({
+      cell_type: "markdown",
+      source: ["![logo](attachment:logo.svg)"],
+      attachments: { "logo.svg": { "image/svg+xml": "<svg/>" } },
+    });
+    expect(ipynb.cells[2]).toMatchObject({
+      metadata: { nodebooks: { language: "js" } },
+      outputs: [{ output_type: "stream", name: "stdout", text: ["1\n"] }],
+    });
+    expect(ipynb.cells[3]?.cell_type).toBe("raw");
+
+    const { file, attachments } = parseIpynbNotebook(
+      stringifyIpynbNotebook(ipynb)
+    );
+    const restored = createNotebookFromFileDefinition(file);
+    expect(restored.name).toBe("Round trip");
+    expect(restored.reactive).toBe(true);
+    expect(restored.env.packages).toEqual({ zod: "^4.0.0" });
+    expect(attachments.map((item) => item.filename)).toEqual(["logo.svg"]);
+    expect(
+      restored.cells.map((cell) =>
+        cell.type === "code" ? (cell as CodeCell).language : cell.type
+      )
+    ).toEqual(["markdown", "ts", "js", "unknown"]);
+    expect((restored.cells[2] as CodeCell).outputs).toEqual([
+      { type: "stream", name: "stdout", text: "1\n" },
+    ]);
+    expect(restored.cells[3]).toMatchObject({
+      originalData: { type: "sql", query: "select 1" },
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { NotebookParameter } from "@nodebooks/notebook-schema";
+import {
+  buildParametersSource,
+  NotebookParameterError,
+  resolveNotebookParameters,
+} from "../src/notebooks/parameters.js";
+
+const declared: NotebookParameter[] = [
+  { name: "region", type: "string", default: "us" },
+  { name: "limit", type: "number", default: 10 },
+  { name: "dryRun", type: "boolean" },
+  { name: "filters", type: "json" },
+];
+
+describe("resolveNotebookParameters", () => {
+  it("falls back to defaults and leaves out unset parameters", () => {
+    expect(resolveNotebookParameters(declared)).toEqual({
+      region: "us",
+      limit: 10,
+    });
+  });
+
+  it("coerces string overrides by declared type", () => {
+    expect(
+      resolveNotebookParameters(declared, {
+        limit: "25",
+        dryRun: "true",
+        filters: '{"status":["open"]}',
+      })
+    ).toEqual({
+      region: "us",
+      limit: 25,
+      dryRun: true,
+      filters: { status: ["open"] },
+    });
+  });
+
+  it("rejects unknown names and mistyped values", () => {
+    expect(() => resolveNotebookParameters(declared, { nope: 1 })).toThrow(
+      NotebookParameterError
+    );
+    expect(() => resolveNotebookParameters(declared, { limit: "ten" })).toThrow(
+      'Parameter "limit" must be a number'
+    );
+    expect(() => resolveNotebookParameters(declared, { filters: "{" })).toThrow(
+      'Parameter "filters" must be valid JSON'
+    );
+  });
+});
+
+describe("buildParametersSource", () => {
+  it("emits one declaration per value", () => {
+    expect(buildParametersSource({ region: "eu", filters: { a: 1 } })).toBe(
+      'const region = "eu";\nconst filters = {"a":1};'
+    );
+  });
+});
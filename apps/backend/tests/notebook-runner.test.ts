@@ -0,0 +1,162 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createCodeCell,
+  createEmptyNotebook,
+  createMarkdownCell,
+} from "@nodebooks/notebook-schema";
+import { runNotebook } from "../src/notebooks/runner.js";
+
+const streamText = (outputs: unknown[]) =>
+  outputs
+    .map((output) => {
+      const entry = output as { type: string; text?: string };
+      return entry.type === "stream" ? (entry.text ?? "") : "";
+    })
+    .join("");
+
+describe("runNotebook", () => {
+  it("runs code cells in order and skips the rest after a failure", async () => {
+    const notebook = createEmptyNotebook({
+      cells: [
+        createMarkdownCell({ source: "# Intro" }),
+        createCodeCell({ source: "const a = 2;" }),
+        createCodeCell({ source: "console.log(a * 21);" }),
+        createCodeCell({ source: 'throw new Error("boom");' }),
+        createCodeCell({ source: 'console.log("after");' }),
+      ],
+    });
+
+    const streamed: string[] = [];
+    const result = await runNotebook(notebook, {
+      timeoutMs: 20_000,
+      onStream: (_cell, output) => streamed.push(output.text),
+    });
+
+    expect(result.status).toBe("error");
+    expect(result.cells.map((cell) => cell.status)).toEqual([
+      "ok",
+      "ok",
+      "error",
+      "skipped",
+    ]);
+    expect(result.cells[2]?.error).toEqual({ ename: "Error", evalue: "boom" });
+    expect(streamed.join("")).toContain("42");
+
+    const [, , printed, failed, skipped] = result.notebook.cells;
+    expect(printed?.type === "code" && streamText(printed.outputs)).toContain(
+      "42"
+    );
+    expect(failed?.type === "code" && failed.execution?.status).toBe("error");
+    expect(skipped?.type === "code" && skipped.outputs).toEqual([]);
+  }, 60_000);
+
+  it("fails invalid SQL cells and plot cells instead of skipping them", async () => {
+    const notebook = createEmptyNotebook({
+      cells: [
+        createCodeCell({ source: "const a = 1;" }),
+        { id: "sql-1", type: "sql", metadata: {}, query: "select 1" },
+        { id: "plot-1", type: "plot", metadata: {} },
+        createCodeCell({ source: 'console.log("after");' }),
+      ],
+    });
+
+    const started: string[] = [];
+    const result = await runNotebook(notebook, {
+      timeoutMs: 20_000,
+      continueOnError: true,
+      onCellStart: (cell) => started.push(cell.id),
+    });
+
+    expect(result.status).toBe("error");
+    expect(started).toContain("sql-1");
+    expect(result.cells.map((cell) => cell.status)).toEqual([
+      "ok",
+      "error",
+      "error",
+      "ok",
+    ]);
+    expect(result.cells[1]).toMatchObject({
+      cellId: "sql-1",
+      index: 1,
+      error: {
+        ename: "SqlCellError",
+        evalue: "Database connection not found",
+      },
+    });
+    expect(result.cells[2]).toMatchObject({
+      cellId: "plot-1",
+      error: { ename: "UnsupportedCellError" },
+    });
+  }, 60_000);
+
+  it("runs HTTP cells and hands their assignments to later cells", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify([{ id: 1 }, { id: 2 }]), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+    const notebook = createEmptyNotebook({
+      env: {
+        runtime: "node",
+        version: "20.10.0",
+        packages: {},
+        variables: { API_URL: "https://api.example.com" },
+      },
+      cells: [
+        {
+          id: "http-1",
+          type: "http",
+          metadata: {},
+          request: { method: "GET", url: "{{API_URL}}/items" },
+          assignBody: "items",
+        },
+        createCodeCell({ source: "console.log(items.json.length);" }),
+      ],
+    });
+
+    try {
+      const result = await runNotebook(notebook, { timeoutMs: 20_000 });
+
+      expect(fetchSpy.mock.calls[0]?.[0]).toBe("https://api.example.com/items");
+      expect(result.status).toBe("ok");
+      expect(result.notebook.cells[0]).toMatchObject({
+        response: { status: 200, assignedBody: "items" },
+      });
+      const [, printed] = result.notebook.cells;
+      expect(printed?.type === "code" && streamText(printed.outputs)).toBe(
+        "2\n"
+      );
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  }, 60_000);
+
+  it("injects parameter overrides after the parameters cell", async () => {
+    const notebook = createEmptyNotebook({
+      parameters: [
+        { name: "limit", type: "number", default: 5 },
+        { name: "region", type: "string" },
+      ],
+      cells: [
+        createCodeCell({
+          source: 'const limit = 1;\nconst region = "us";',
+          metadata: { parameters: true },
+        }),
+        createCodeCell({ source: "console.log(`${region}:${limit * 2}`);" }),
+      ],
+    });
+
+    const result = await runNotebook(notebook, {
+      timeoutMs: 20_000,
+      parameters: { region: "eu" },
+    });
+
+    expect(result.status).toBe("ok");
+    expect(result.parameters).toEqual({ limit: 5, region: "eu" });
+    const printed = result.notebook.cells[1];
+    expect(printed?.type === "code" && streamText(printed.outputs)).toBe(
+      "eu:10\n"
+    );
+  }, 60_000);
+});
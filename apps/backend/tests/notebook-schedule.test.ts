@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createEmptyNotebook } from "@nodebooks/notebook-schema";
+import type { WorkerPool } from "@nodebooks/runtime-host";
+
+const recordNotebookRun = vi.fn();
+
+vi.mock("../src/notebooks/history.js", () => ({
+  recordNotebookRun: (...args: unknown[]) => recordNotebookRun(...args),
+}));
+
+import {
+  CronExpressionError,
+  parseCronExpression,
+} from "../src/notebooks/cron.js";
+import { NotebookScheduler } from "../src/notebooks/scheduler.js";
+import {
+  InMemoryNotebookRunStore,
+  InMemoryNotebookStore,
+} from "../src/store/memory.js";
+
+describe("parseCronExpression", () => {
+  it("matches ranges, steps, lists and names", () => {
+    const cron = parseCronExpression("*/15 9-17 * * mon-fri");
+    // 2026-03-02 is a Monday
+    expect(cron.matches(new Date(2026, 2, 2, 9, 30))).toBe(true);
+    expect(cron.matches(new Date(2026, 2, 2, 9, 31))).toBe(false);
+    expect(cron.matches(new Date(2026, 2, 2, 18, 0))).toBe(false);
+    expect(cron.matches(new Date(2026, 2, 1, 9, 30))).toBe(false);
+
+    const listed = parseCronExpression("0 6,18 1 jan,jul *");
+    expect(listed.matches(new Date(2026, 6, 1, 18, 0))).toBe(true);
+    expect(listed.matches(new Date(2026, 5, 1, 18, 0))).toBe(false);
+  });
+
+  it("treats day of month and day of week as alternatives", () => {
+    const cron = parseCronExpression("0 0 13 * 5");
+    expect(cron.matches(new Date(2026, 1, 13, 0, 0))).toBe(true);
+    // Friday 2026-03-06
+    expect(cron.matches(new Date(2026, 2, 6, 0, 0))).toBe(true);
+    expect(cron.matches(new Date(2026, 2, 7, 0, 0))).toBe(false);
+  });
+
+  it("finds the next run time", () => {
+    const daily = parseCronExpression("@daily");
+    expect(daily.next(new Date(2026, 2, 2, 10, 15))).toEqual(
+      new Date(2026, 2, 3, 0, 0)
+    );
+    const sundays = parseCronExpression("30 8 * * 7");
+    expect(sundays.next(new Date(2026, 2, 2, 10, 15))).toEqual(
+      new Date(2026, 2, 8, 8, 30)
+    );
+    expect(parseCronExpression("0 0 30 2 *").next(new Date())).toBeNull();
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCronExpression("* * *")).toThrow(CronExpressionError);
+    expect(() => parseCronExpression("60 * * * *")).toThrow(/out of range/);
+    expect(() => parseCronExpression("*/0 * * * *")).toThrow(
+      CronExpressionError
+    );
+    expect(() => parseCronExpression("0 0 * * funday")).toThrow(
+      CronExpressionError
+    );
+  });
+});
+
+describe("NotebookScheduler", () => {
+  beforeEach(() => {
+    recordNotebookRun.mockReset();
+    recordNotebookRun.mockResolvedValue({ run: { id: "run", status: "ok" } });
+  });
+
+  it("runs notebooks whose schedule fell due since the last tick", async () => {
+    const store = new InMemoryNotebookStore();
+    const hourly = await store.save(
+      createEmptyNotebook({
+        name: "Hourly",
+        schedule: { cron: "0 * * * *", enabled: true, parameters: { a: 1 } },
+      })
+    );
+    await store.save(
+      createEmptyNotebook({
+        name: "Paused",
+        schedule: { cron: "* * * * *", enabled: false },
+      })
+    );
+    await store.save(createEmptyNotebook({ name: "Unscheduled" }));
+
+    let now = new Date(2026, 2, 2, 9, 58, 20);
+    const scheduler = new NotebookScheduler({
+      store,
+      runs: new InMemoryNotebookRunStore(),
+      getPool: () => ({}) as WorkerPool,
+      now: () => now,
+    });
+
+    now = new Date(2026, 2, 2, 9, 59, 10);
+    await scheduler.tick();
+    expect(recordNotebookRun).not.toHaveBeenCalled();
+
+    // A late tick still picks up the 10:00 slot
+    now = new Date(2026, 2, 2, 10, 1, 5);
+    await scheduler.tick();
+    await scheduler.stop();
+
+    expect(recordNotebookRun).toHaveBeenCalledTimes(1);
+    const [notebook, options] = recordNotebookRun.mock.calls[0]!;
+    expect(notebook.id).toBe(hourly.id);
+    expect(options).toMatchObject({
+      trigger: "schedule",
+      parameters: { a: 1 },
+    });
+  });
+
+  it("does not start a notebook again while it is still running", async () => {
+    const store = new InMemoryNotebookStore();
+    await store.save(
+      createEmptyNotebook({
+        schedule: { cron: "* * * * *", enabled: true },
+      })
+    );
+    let finish: () => void = () => {};
+    recordNotebookRun.mockReturnValue(
+      new Promise((resolve) => {
+        finish = () => resolve({ run: { id: "run", status: "ok" } });
+      })
+    );
+
+    let now = new Date(2026, 2, 2, 10, 0, 0);
+    const scheduler = new NotebookScheduler({
+      store,
+      runs: new InMemoryNotebookRunStore(),
+      getPool: () => ({}) as WorkerPool,
+      now: () => now,
+    });
+
+    now = new Date(2026, 2, 2, 10, 1, 0);
+    await scheduler.tick();
+    now = new Date(2026, 2, 2, 10, 2, 0);
+    await scheduler.tick();
+    expect(recordNotebookRun).toHaveBeenCalledTimes(1);
+
+    finish();
+    await scheduler.stop();
+  });
+});
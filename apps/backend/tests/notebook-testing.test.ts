@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createCodeCell,
+  createEmptyNotebook,
+  createMarkdownCell,
+} from "@nodebooks/notebook-schema";
+
+const runNotebook = vi.fn();
+
+vi.mock("../src/notebooks/runner.js", () => ({
+  runNotebook: (...args: unknown[]) => runNotebook(...args),
+}));
+
+import {
+  describeTestCell,
+  formatJUnitReport,
+  runNotebookTests,
+} from "../src/notebooks/testing.js";
+
+const notebook = createEmptyNotebook({
+  name: "API <contract>",
+  cells: [
+    createCodeCell({ id: "setup", source: "const api = createClient();" }),
+    createMarkdownCell({ id: "notes", source: "## Checks" }),
+    createCodeCell({
+      id: "status",
+      source: "// health returns 200\nexpect(status).toBe(200);",
+      metadata: { test: true },
+    }),
+    createCodeCell({
+      id: "shape",
+      source: "expect(body).toHaveProperty('id');",
+      metadata: { test: true },
+    }),
+    createCodeCell({
+      id: "crash",
+      source: "undefinedFn();",
+      metadata: { test: true },
+    }),
+  ],
+});
+
+describe("runNotebookTests", () => {
+  beforeEach(() => {
+    runNotebook.mockReset();
+  });
+
+  it("reports test cells and failing setup cells", async () => {
+    runNotebook.mockResolvedValue({
+      notebook,
+      parameters: {},
+      status: "error",
+      cells: [
+        { cellId: "setup", index: 0, status: "ok", durationMs: 5 },
+        { cellId: "status", index: 2, status: "ok", durationMs: 12 },
+        {
+          cellId: "shape",
+          index: 3,
+          status: "error",
+          durationMs: 3,
+          error: {
+            ename: "AssertionError",
+            evalue: 'Expected {} to have property "id"',
+          },
+        },
+        {
+          cellId: "crash",
+          index: 4,
+          status: "error",
+          durationMs: 1,
+          error: { ename: "ReferenceError", evalue: "undefinedFn" },
+        },
+      ],
+    });
+
+    const { report } = await runNotebookTests(notebook, { timeoutMs: 1000 });
+
+    expect(runNotebook.mock.calls[0]![1]).toMatchObject({
+      continueOnError: true,
+      timeoutMs: 1000,
+    });
+    expect(report.status).toBe("failed");
+    expect(report.summary).toEqual({
+      total: 3,
+      passed: 1,
+      failed: 1,
+      errors: 1,
+      skipped: 0,
+    });
+    expect(report.cases.map((entry) => [entry.name, entry.status])).toEqual([
+      ["health returns 200", "passed"],
+      ["Cell 4", "failed"],
+      ["Cell 5", "error"],
+    ]);
+  });
+
+  it("fails the report when a setup cell breaks", async () => {
+    runNotebook.mockResolvedValue({
+      notebook,
+      parameters: {},
+      status: "error",
+      cells: [
+        {
+          cellId: "setup",
+          index: 0,
+          status: "error",
+          durationMs: 5,
+          error: { ename: "Error", evalue: "no network" },
+        },
+      ],
+    });
+
+    const { report } = await runNotebookTests(notebook);
+    expect(report.status).toBe("failed");
+    expect(report.cases).toEqual([
+      expect.objectContaining({
+        kind: "setup",
+        name: "Setup: cell 1",
+        status: "error",
+        message: "Error: no network",
+      }),
+    ]);
+  });
+});
+
+describe("formatJUnitReport", () => {
+  it("writes one escaped test suite per notebook", async () => {
+    runNotebook.mockResolvedValue({
+      notebook,
+      parameters: {},
+      status: "error",
+      cells: [
+        { cellId: "status", index: 2, status: "ok", durationMs: 1500 },
+        {
+          cellId: "shape",
+          index: 3,
+          status: "error",
+          durationMs: 3,
+          error: { ename: "AssertionError", evalue: "a < b" },
+        },
+        { cellId: "crash", index: 4, status: "skipped", durationMs: 0 },
+      ],
+    });
+    const { report } = await runNotebookTests(notebook);
+    const xml = formatJUnitReport([report]);
+
+    expect(xml).toContain(
+      '<testsuites name="nodebooks" tests="3" failures="1" errors="0" skipped="1"'
+    );
+    expect(xml).toContain('<testsuite name="API &lt;contract&gt;"');
+    expect(xml).toContain(
+      '<testcase classname="API &lt;contract&gt;" name="health returns 200" time="1.500"></testcase>'
+    );
+    expect(xml).toContain(
+      '<failure message="AssertionError: a &lt; b" type="AssertionError">'
+    );
+    expect(xml).toContain("<skipped/>");
+  });
+
+  it("names tests after a leading comment", () => {
+    expect(
+      describeTestCell(createCodeCell({ source: "  // lists users\nx" }), 0)
+    ).toBe("lists users");
+    expect(describeTestCell(createCodeCell({ source: "x" }), 6)).toBe("Cell 7");
+  });
+});
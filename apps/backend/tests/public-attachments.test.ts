@@ -93,6 +93,11 @@ const createStores = () => {
         (entry) => entry.publicSlug === slug
       );
     },
+    async getByAppSlug(slug: string) {
+      return Array.from(notebooks.values()).find(
+        (entry) => entry.app?.enabled && entry.app.slug === slug
+      );
+    },
     async save(notebook: Notebook) {
       notebooks.set(notebook.id, notebook);
       return notebook;
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { InMemorySecretStore } from "../src/store/memory.js";
+import {
+  decryptSecret,
+  deriveSecretsKey,
+  encryptSecret,
+} from "../src/secrets/crypto.js";
+import {
+  InvalidSecretNameError,
+  SecretsService,
+  SecretsUnavailableError,
+} from "../src/secrets/service.js";
+
+const key = deriveSecretsKey("test-key");
+
+describe("secret encryption", () => {
+  it("round-trips values bound to their location", () => {
+    const envelope = encryptSecret(key, "s3cr3t", "notebook:nb-1:TOKEN");
+    expect(envelope).not.toContain("s3cr3t");
+    expect(decryptSecret(key, envelope, "notebook:nb-1:TOKEN")).toBe("s3cr3t");
+    expect(() => decryptSecret(key, envelope, "notebook:nb-2:TOKEN")).toThrow();
+    expect(() =>
+      decryptSecret(deriveSecretsKey("other"), envelope, "notebook:nb-1:TOKEN")
+    ).toThrow();
+  });
+});
+
+describe("SecretsService", () => {
+  const notebook = { id: "nb-1", projectId: "project-1" };
+
+  it("never returns values from list or set", async () => {
+    const store = new InMemorySecretStore();
+    const service = new SecretsService(store, { key });
+    const saved = await service.set({
+      scope: "notebook",
+      scopeId: notebook.id,
+      name: "API_TOKEN",
+      value: "hunter2",
+      updatedBy: "user-1",
+    });
+    expect(JSON.stringify(saved)).not.toContain("hunter2");
+    expect(saved).not.toHaveProperty("ciphertext");
+
+    const listed = await service.list("notebook", notebook.id);
+    expect(listed.map((secret) => secret.name)).toEqual(["API_TOKEN"]);
+    expect(JSON.stringify(listed)).not.toContain("hunter2");
+
+    const stored = await store.get("notebook", notebook.id, "API_TOKEN");
+    expect(stored?.ciphertext).not.toContain("hunter2");
+  });
+
+  it("resolves user over notebook over project secrets", async () => {
+    const service = new SecretsService(new InMemorySecretStore(), { key });
+    await service.set({
+      scope: "project",
+      scopeId: "project-1",
+      name: "DB_URL",
+      value: "postgres://project",
+    });
+    await service.set({
+      scope: "project",
+      scopeId: "project-1",
+      name: "SHARED",
+      value: "project",
+    });
+    await service.set({
+      scope: "notebook",
+      scopeId: notebook.id,
+      name: "DB_URL",
+      value: "postgres://notebook",
+    });
+    await service.set({
+      scope: "user",
+      scopeId: "user-1",
+      name: "DB_URL",
+      value: "postgres://mine",
+    });
+
+    expect(await service.resolve(notebook, "user-1")).toEqual({
+      DB_URL: "postgres://mine",
+      SHARED: "project",
+    });
+    expect(await service.resolve(notebook)).toEqual({
+      DB_URL: "postgres://notebook",
+      SHARED: "project",
+    });
+  });
+
+  it("rejects invalid names and works only with a key", async () => {
+    const service = new SecretsService(new InMemorySecretStore(), { key });
+    await expect(
+      service.set({
+        scope: "notebook",
+        scopeId: notebook.id,
+        name: "NOT-VALID",
+        value: "x",
+      })
+    ).rejects.toBeInstanceOf(InvalidSecretNameError);
+
+    const disabled = new SecretsService(new InMemorySecretStore(), {
+      key: null,
+    });
+    expect(await disabled.isAvailable()).toBe(false);
+    await expect(
+      disabled.set({
+        scope: "notebook",
+        scopeId: notebook.id,
+        name: "TOKEN",
+        value: "x",
+      })
+    ).rejects.toBeInstanceOf(SecretsUnavailableError);
+    expect(await disabled.resolve(notebook)).toEqual({});
+  });
+
+  it("skips secrets that no longer decrypt", async () => {
+    const store = new InMemorySecretStore();
+    await new SecretsService(store, { key: deriveSecretsKey("old") }).set({
+      scope: "notebook",
+      scopeId: notebook.id,
+      name: "TOKEN",
+      value: "x",
+    });
+    const service = new SecretsService(store, { key });
+    expect(await service.resolve(notebook)).toEqual({});
+    expect(await service.list("notebook", notebook.id)).toHaveLength(1);
+  });
+});
@@ -91,6 +91,12 @@ vi.mock("../src/store/sqlite.js", () => ({
   SqliteProjectCollaboratorStore: class {
     constructor(_store: unknown) {}
   },
+  SqliteNotebookRunStore: class {
+    constructor(_store: unknown) {}
+  },
+  SqliteSecretStore: class {
+    constructor(_store: unknown) {}
+  },
 }));
 vi.mock("../src/store/memory.js", () => ({
   InMemoryNotebookStore: class {
@@ -137,6 +143,12 @@ vi.mock("../src/store/memory.js", () => ({
   InMemoryProjectCollaboratorStore: class {
     constructor() {}
   },
+  InMemoryNotebookRunStore: class {
+    constructor() {}
+  },
+  InMemorySecretStore: class {
+    constructor() {}
+  },
 }));
 vi.mock("../src/store/postgres.js", () => ({
   PostgresNotebookStore: class {
@@ -178,6 +190,12 @@ vi.mock("../src/store/postgres.js", () => ({
   PostgresProjectCollaboratorStore: class {
     constructor(_store: unknown) {}
   },
+  PostgresNotebookRunStore: class {
+    constructor(_store: unknown) {}
+  },
+  PostgresSecretStore: class {
+    constructor(_store: unknown) {}
+  },
 }));
 vi.mock("../src/routes/notebooks.js", () => ({
   registerNotebookRoutes: () => {},
@@ -67,6 +67,7 @@ describe("settings routes", () => {
         theme: "light",
         kernelTimeoutMs: 10_000,
         aiEnabled: false,
+        redactionPatterns: [],
         ai: {
           provider: "openai",
           openai: { model: "gpt-4o-mini", apiKeyConfigured: false },
@@ -94,6 +95,7 @@ describe("settings routes", () => {
         theme: "dark",
         kernelTimeoutMs: 15_000,
         aiEnabled: false,
+        redactionPatterns: [],
         ai: {
           provider: "openai",
           openai: { model: "gpt-4o-mini", apiKeyConfigured: false },
@@ -111,6 +113,7 @@ describe("settings routes", () => {
       theme: "dark",
       kernelTimeoutMs: 15_000,
       aiEnabled: false,
+      redactionPatterns: [],
       ai: {
         provider: "openai",
         openai: { model: "gpt-4o-mini", apiKeyConfigured: false },
@@ -137,6 +140,7 @@ describe("settings routes", () => {
       theme: "light",
       kernelTimeoutMs: 10_000,
       aiEnabled: false,
+      redactionPatterns: [],
       ai: {
         provider: "openai",
         openai: { model: "gpt-4o-mini", apiKeyConfigured: false },
@@ -198,4 +202,32 @@ describe("settings routes", () => {
 
     await app.close();
   });
+
+  it("stores redaction patterns and rejects invalid expressions", async () => {
+    const { app, settingsService } = await createApp();
+    const invalid = await app.inject({
+      method: "PUT",
+      url: "/settings",
+      payload: { redactionPatterns: ["sk-[a-z"] },
+    });
+    expect(invalid.statusCode).toBe(400);
+
+    const res = await app.inject({
+      method: "PUT",
+      url: "/settings",
+      payload: { redactionPatterns: ["sk-[A-Za-z0-9]{20,}", " "] },
+    });
+    expect(res.statusCode).toBe(200);
+    expect(settingsService.getSnapshot().redactionPatterns).toEqual([
+      "sk-[A-Za-z0-9]{20,}",
+    ]);
+
+    const cleared = await app.inject({
+      method: "PUT",
+      url: "/settings",
+      payload: { redactionPatterns: [] },
+    });
+    expect(cleared.json().data.redactionPatterns).toEqual([]);
+    await app.close();
+  });
 });
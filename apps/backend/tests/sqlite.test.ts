@@ -6,7 +6,12 @@ import {
   createCodeCell,
   createEmptyNotebook,
 } from "@nodebooks/notebook-schema";
-import { SqliteNotebookStore } from "../src/store/sqlite.js";
+import {
+  SqliteNotebookRunStore,
+  SqliteNotebookStore,
+  SqliteProjectStore,
+  SqliteSecretStore,
+} from "../src/store/sqlite.js";
 
 describe("SqliteNotebookStore", () => {
   let directory: string;
@@ -66,6 +71,30 @@ describe("SqliteNotebookStore", () => {
     expect(all.map((item) => item.id)).toContain(notebook.id);
   });
 
+  it("finds notebooks by the slug of their enabled app", async () => {
+    const store = new SqliteNotebookStore({ databaseFile });
+    const notebook = await store.save(
+      createEmptyNotebook({
+        name: "Pricing API",
+        app: {
+          enabled: true,
+          slug: "pricing",
+          auth: "public",
+          maxConcurrency: 2,
+        },
+      })
+    );
+
+    expect((await store.getByAppSlug("pricing"))?.id).toBe(notebook.id);
+    expect(await store.getByAppSlug("missing")).toBeUndefined();
+
+    await store.save({
+      ...notebook,
+      app: { ...notebook.app!, enabled: false },
+    });
+    expect(await store.getByAppSlug("pricing")).toBeUndefined();
+  });
+
   it("stores attachments and cleans them up", async () => {
     const store = new SqliteNotebookStore({ databaseFile });
     const notebook = createEmptyNotebook({ name: "Attachments" });
@@ -105,4 +134,137 @@ describe("SqliteNotebookStore", () => {
     await store.remove(notebook.id);
     expect(await store.getAttachment(notebook.id, second.id)).toBeUndefined();
   });
+
+  it("keeps run history with outputs and prunes old runs", async () => {
+    const store = new SqliteNotebookStore({ databaseFile });
+    const runs = new SqliteNotebookRunStore(store);
+    const notebook = createEmptyNotebook({ name: "Scheduled" });
+    await store.save(notebook);
+
+    const base = {
+      notebookId: notebook.id,
+      trigger: "schedule" as const,
+      finishedAt: null,
+      durationMs: null,
+      parameters: {},
+      cells: [],
+      error: null,
+      logs: "",
+    };
+    await runs.save({
+      ...base,
+      id: "run-1",
+      status: "ok",
+      startedAt: "2026-01-01T00:00:00.000Z",
+      outputs: {
+        cell: [{ type: "stream", name: "stdout", text: "first\n" }],
+      },
+    });
+    await runs.save({
+      ...base,
+      id: "run-2",
+      status: "error",
+      startedAt: "2026-01-02T00:00:00.000Z",
+      outputs: {},
+      logs: "second\n",
+    });
+
+    const listed = await runs.listByNotebook(notebook.id);
+    expect(listed.map((run) => run.id)).toEqual(["run-2", "run-1"]);
+    expect(listed[0]).not.toHaveProperty("outputs");
+
+    const latest = await runs.listLatest();
+    expect(latest.map((run) => run.status)).toEqual(["error"]);
+
+    const first = await runs.get("run-1");
+    expect(first?.outputs.cell?.[0]).toMatchObject({ text: "first\n" });
+
+    await runs.prune(notebook.id, 1);
+    expect(await runs.get("run-1")).toBeUndefined();
+    expect((await runs.get("run-2"))?.logs).toBe("second\n");
+
+    await store.remove(notebook.id);
+    expect(await runs.listByNotebook(notebook.id)).toEqual([]);
+  });
+
+  it("stores secrets per scope and drops notebook secrets with the notebook", async () => {
+    const store = new SqliteNotebookStore({ databaseFile });
+    const secrets = new SqliteSecretStore(store);
+    const notebook = createEmptyNotebook({ name: "Secretive" });
+    await store.save(notebook);
+
+    const base = {
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      updatedBy: null,
+    };
+    await secrets.save({
+      ...base,
+      id: "secret-1",
+      name: "API_TOKEN",
+      scope: "notebook",
+      scopeId: notebook.id,
+      ciphertext: "first",
+    });
+    await secrets.save({
+      ...base,
+      id: "secret-1",
+      name: "API_TOKEN",
+      scope: "notebook",
+      scopeId: notebook.id,
+      ciphertext: "second",
+    });
+    await secrets.save({
+      ...base,
+      id: "secret-2",
+      name: "API_TOKEN",
+      scope: "user",
+      scopeId: "user-1",
+      ciphertext: "mine",
+    });
+
+    const listed = await secrets.list("notebook", notebook.id);
+    expect(listed).toHaveLength(1);
+    expect(listed[0]?.ciphertext).toBe("second");
+    expect((await secrets.get("user", "user-1", "API_TOKEN"))?.ciphertext).toBe(
+      "mine"
+    );
+
+    await store.remove(notebook.id);
+    expect(await secrets.list("notebook", notebook.id)).toEqual([]);
+    expect(await secrets.remove("user", "user-1", "API_TOKEN")).toBe(true);
+    expect(await secrets.get("user", "user-1", "API_TOKEN")).toBeUndefined();
+  });
+
+  it("stores project defaults", async () => {
+    const projects = new SqliteProjectStore(
+      new SqliteNotebookStore({ databaseFile })
+    );
+    const project = await projects.create({ name: "Analytics" });
+    expect(project.defaults).toBeUndefined();
+
+    const defaults = {
+      env: {
+        packages: { pg: "^8.11.0" },
+        variables: { DATABASE_URL: "postgres://db" },
+        sensitive: ["DATABASE_URL"],
+      },
+      sql: {
+        connections: [
+          {
+            id: "warehouse",
+            driver: "postgres" as const,
+            name: "Warehouse",
+            config: { connectionString: "postgres://db" },
+          },
+        ],
+      },
+    };
+    await projects.update(project.id, { defaults });
+
+    const reopened = new SqliteProjectStore(
+      new SqliteNotebookStore({ databaseFile })
+    );
+    expect((await reopened.get(project.id))?.defaults).toEqual(defaults);
+  });
 });
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  createCodeCell,
+  createEmptyNotebook,
+  type Notebook,
+} from "@nodebooks/notebook-schema";
+import {
+  createTypeCheckError,
+  typeCheckCell,
+  typeCheckCellInWorker,
+} from "../src/kernel/type-check.js";
+
+const makeNotebook = (...sources: Array<[string, "js" | "ts"]>): Notebook =>
+  createEmptyNotebook({
+    cells: sources.map(([source, language]) =>
+      createCodeCell({ source, language })
+    ),
+  });
+
+describe("typeCheckCell", () => {
+  it("reports type errors relative to the cell", () => {
+    const notebook = makeNotebook(["const count: number = 1;", "ts"]);
+    const cell = notebook.cells[0]!;
+    const diagnostics = typeCheckCell(
+      notebook,
+      cell.id,
+      "const count: number = 1;\nconst label: string = count;"
+    );
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        line: 2,
+        column: 7,
+        code: 2322,
+        severity: "error",
+      }),
+    ]);
+    const error = createTypeCheckError(cell.id, diagnostics);
+    expect(error.ename).toBe("TypeCheckError");
+    expect(error.traceback[0]).toMatch(
+      new RegExp(`^${cell.id}\\.ts:2:7 - error TS2322: `)
+    );
+  }, 30000);
+
+  it("sees declarations from earlier cells", () => {
+    const notebook = createEmptyNotebook({
+      cells: [
+        createCodeCell({
+          source:
+            "interface User { name: string }\nconst user: User = { name: 'a' };",
+        }),
+        createCodeCell({
+          language: "js",
+          source: "var legacy = 1;",
+          metadata: { dependencies: { defines: ["legacy"], reads: [] } },
+        }),
+        createCodeCell({ source: "" }),
+      ],
+    });
+    const target = notebook.cells[2]!;
+    expect(
+      typeCheckCell(notebook, target.id, "user.name.toUpperCase() + legacy;")
+    ).toEqual([]);
+    expect(
+      typeCheckCell(notebook, target.id, "user.age;").map((item) => item.code)
+    ).toEqual([2339]);
+  }, 30000);
+
+  it("ignores redeclarations from re-running cells", () => {
+    const notebook = makeNotebook(["const total = 1;", "ts"], ["", "ts"]);
+    expect(
+      typeCheckCell(notebook, notebook.cells[1]!.id, "const total = 2;")
+    ).toEqual([]);
+  }, 30000);
+
+  it("checks on a worker thread without blocking the caller", async () => {
+    const notebook = makeNotebook(["", "ts"]);
+    let ticks = 0;
+    const timer = setInterval(() => {
+      ticks += 1;
+    }, 5);
+    try {
+      const diagnostics = await typeCheckCellInWorker(
+        notebook,
+        notebook.cells[0]!.id,
+        "const label: string = 1;"
+      );
+      expect(diagnostics.map((item) => item.code)).toEqual([2322]);
+    } finally {
+      clearInterval(timer);
+    }
+    expect(ticks).toBeGreaterThan(0);
+  }, 30000);
+
+  it("gives up on checks that outlast the timeout", async () => {
+    const notebook = makeNotebook(["", "ts"]);
+    const cellId = notebook.cells[0]!.id;
+    await expect(
+      typeCheckCellInWorker(notebook, cellId, "const label: string = 1;", 1)
+    ).rejects.toThrow(/timed out after 1ms/);
+    // The next check gets a fresh thread
+    const diagnostics = await typeCheckCellInWorker(
+      notebook,
+      cellId,
+      "const label: string = 1;"
+    );
+    expect(diagnostics.map((item) => item.code)).toEqual([2322]);
+  }, 30000);
+});
@@ -0,0 +1,87 @@
+import type { Command } from "commander";
+import chalk from "chalk";
+import {
+  openRuntimePackageStore,
+  type PackageStoreEntry,
+} from "@nodebooks/server/kernel/package-store";
+
+interface GcCommandOptions {
+  olderThan?: string;
+  dryRun?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const formatBytes = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
+const describeEntry = (entry: PackageStoreEntry) => {
+  const packages = Object.entries(entry.packages)
+    .map(([name, version]) => `${name}@${version}`)
+    .join(", ");
+  return `${packages || "(empty)"} ${chalk.dim(
+    `${formatBytes(entry.sizeBytes)}, ${entry.notebooks} notebook(s)`
+  )}`;
+};
+
+export const registerPackagesCommand = (program: Command) => {
+  const packages = program
+    .command("packages")
+    .description("Inspect and clean the shared notebook package store");
+
+  packages
+    .command("usage")
+    .description("Show the disk space used by cached dependency sets")
+    .action(async () => {
+      const usage = await openRuntimePackageStore().usage();
+      for (const entry of usage.entries) {
+        console.log(describeEntry(entry));
+      }
+      console.log(
+        chalk.bold(formatBytes(usage.totalBytes)),
+        `in ${usage.entries.length} dependency set(s)`,
+        chalk.dim(`(${usage.root})`)
+      );
+    });
+
+  packages
+    .command("gc")
+    .description(
+      "Remove cached dependency sets that no notebook sandbox uses anymore"
+    )
+    .option(
+      "--older-than <days>",
+      "only remove sets not used in the last <days> days"
+    )
+    .option("--dry-run", "list what would be removed without deleting it")
+    .action(async (options: GcCommandOptions) => {
+      const days = options.olderThan ? Number.parseFloat(options.olderThan) : 0;
+      if (!Number.isFinite(days) || days < 0) {
+        throw new Error(`Invalid number of days: ${options.olderThan}`);
+      }
+      const result = await openRuntimePackageStore().gc({
+        olderThanMs: days * DAY_MS,
+        dryRun: options.dryRun,
+      });
+      for (const entry of result.removed) {
+        console.log(
+          chalk.dim(options.dryRun ? "would remove" : "removed"),
+          describeEntry(entry)
+        );
+      }
+      console.log(
+        chalk.green("✔"),
+        options.dryRun ? "Would free" : "Freed",
+        formatBytes(result.freedBytes),
+        `from ${result.removed.length} dependency set(s)`
+      );
+    });
+};
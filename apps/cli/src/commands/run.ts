@@ -0,0 +1,219 @@
+import type { Command } from "commander";
+import { existsSync, promises as fs } from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import { loadServerConfig } from "@nodebooks/config";
+import { buildCliEnvironment, loadCliConfig } from "@nodebooks/config/cli";
+import {
+  createNotebookFromFileDefinition,
+  parseNotebookFile,
+  serializeNotebookToFileDefinition,
+  stringifyNotebookFile,
+} from "@nodebooks/server/notebooks/file";
+import {
+  isRunnableCell,
+  runNotebook,
+  type NotebookRunOptions,
+  type NotebookRunResult,
+} from "@nodebooks/server/notebooks/runner";
+import { SecretsService } from "@nodebooks/server/secrets/service";
+import { createNotebookContext, disposeNotebookContext } from "../admin.js";
+
+interface RunCommandOptions {
+  output?: string;
+  continueOnError?: boolean;
+  timeout?: string;
+  quiet?: boolean;
+  param: string[];
+}
+
+type Notebook = NotebookRunResult["notebook"];
+
+export const isNotebookFile = (target: string) =>
+  /\.ya?ml$/i.test(target) || existsSync(target);
+
+export const collectParam = (value: string, previous: string[]) => [
+  ...previous,
+  value,
+];
+
+// `-p name=value` pairs; values stay strings and are coerced by the
+// parameter's declared type.
+export const parseParams = (pairs: string[]) => {
+  const parameters: Record<string, string> = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`Invalid parameter "${pair}", expected name=value`);
+    }
+    parameters[pair.slice(0, separator).trim()] = pair.slice(separator + 1);
+  }
+  return parameters;
+};
+
+export const formatDuration = (ms: number) =>
+  ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+
+const writeNotebookFile = async (file: string, notebook: Notebook) => {
+  const contents = stringifyNotebookFile(
+    serializeNotebookToFileDefinition(notebook)
+  );
+  await fs.writeFile(file, contents, "utf8");
+};
+
+const execute = async (
+  notebook: Notebook,
+  options: RunCommandOptions,
+  stored: Pick<NotebookRunOptions, "secrets" | "projectDefaults"> = {}
+) => {
+  const timeoutMs = options.timeout
+    ? Number.parseInt(options.timeout, 10)
+    : loadServerConfig().kernelTimeoutMs;
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    throw new Error(`Invalid timeout: ${options.timeout}`);
+  }
+  const total = notebook.cells.filter(isRunnableCell).length;
+  let position = 0;
+
+  return runNotebook(notebook, {
+    timeoutMs,
+    continueOnError: options.continueOnError,
+    parameters: parseParams(options.param),
+    ...stored,
+    onCellStart: (cell, index) => {
+      position += 1;
+      console.error(
+        chalk.dim(`[${position}/${total}]`),
+        `Running cell ${index + 1}`,
+        chalk.dim(`(${cell.id})`)
+      );
+    },
+    onStream: (_cell, output) => {
+      if (options.quiet) return;
+      (output.name === "stderr" ? process.stderr : process.stdout).write(
+        output.text
+      );
+    },
+    onCellEnd: (cell, result) => {
+      if (result.status === "skipped") {
+        position += 1;
+        console.error(
+          chalk.dim(`[${position}/${total}]`),
+          chalk.yellow("Skipped"),
+          `cell ${result.index + 1}`,
+          chalk.dim(`(${cell.id})`)
+        );
+        return;
+      }
+      if (result.status !== "ok") {
+        const reason = result.error
+          ? `${result.error.ename}: ${result.error.evalue}`
+          : result.status;
+        console.error(chalk.red("✖"), `Cell ${result.index + 1}`, reason);
+      }
+    },
+  });
+};
+
+const report = (result: NotebookRunResult, startedAt: number) => {
+  const ran = result.cells.filter((cell) => cell.status !== "skipped").length;
+  const elapsed = formatDuration(Date.now() - startedAt);
+  if (result.status === "ok") {
+    console.error(chalk.green("✔"), `Ran ${ran} cells in ${elapsed}`);
+    return;
+  }
+  const failed = result.cells.filter(
+    (cell) => cell.status === "error" || cell.status === "aborted"
+  ).length;
+  console.error(
+    chalk.red("✖"),
+    `${failed} of ${ran} cells failed (${elapsed})`
+  );
+  process.exitCode = 1;
+};
+
+const runFile = async (target: string, options: RunCommandOptions) => {
+  const file = path.resolve(target);
+  const notebook = createNotebookFromFileDefinition(
+    parseNotebookFile(await fs.readFile(file, "utf8"))
+  );
+  const startedAt = Date.now();
+  const result = await execute(notebook, options);
+  const destination = options.output ? path.resolve(options.output) : file;
+  await writeNotebookFile(destination, result.notebook);
+  report(result, startedAt);
+  console.error(chalk.dim("Saved outputs to"), chalk.cyan(destination));
+};
+
+const runStored = async (id: string, options: RunCommandOptions) => {
+  const config = await loadCliConfig();
+  if (!config) {
+    console.error(
+      chalk.red("✖"),
+      "Configuration not found. Run",
+      chalk.cyan("nbks config"),
+      "or pass a notebook file."
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const envOverrides = buildCliEnvironment(config);
+  envOverrides.NODEBOOKS_LOG_LEVEL ??= "warn";
+  const context = createNotebookContext(config, envOverrides);
+  try {
+    const notebook = await context.bundle.store.get(id);
+    if (!notebook) {
+      console.error(chalk.red("✖"), `Notebook ${chalk.cyan(id)} not found.`);
+      process.exitCode = 1;
+      return;
+    }
+    const secrets = await new SecretsService(context.bundle.secrets).resolve(
+      notebook
+    );
+    const project = notebook.projectId
+      ? await context.bundle.projects.get(notebook.projectId)
+      : undefined;
+    const startedAt = Date.now();
+    const result = await execute(notebook, options, {
+      secrets,
+      projectDefaults: project?.defaults,
+    });
+    await context.bundle.store.save(result.notebook);
+    if (options.output) {
+      await writeNotebookFile(path.resolve(options.output), result.notebook);
+    }
+    report(result, startedAt);
+  } finally {
+    await disposeNotebookContext(context);
+  }
+};
+
+export const registerRunCommand = (program: Command) => {
+  program
+    .command("run")
+    .description(
+      "Run every code cell of a notebook file or stored notebook and save the outputs"
+    )
+    .argument("<notebook>", "path to a .nb.yml file or a notebook id")
+    .option(
+      "-o, --output <file>",
+      "write the executed notebook here instead of in place"
+    )
+    .option(
+      "-p, --param <name=value>",
+      "override a notebook parameter (repeatable)",
+      collectParam,
+      []
+    )
+    .option("--continue-on-error", "keep running cells after a failure")
+    .option("--timeout <ms>", "per-cell timeout in milliseconds")
+    .option("-q, --quiet", "do not print cell output")
+    .action(async (target: string, options: RunCommandOptions) => {
+      if (isNotebookFile(target)) {
+        await runFile(target, options);
+      } else {
+        await runStored(target, options);
+      }
+    });
+};
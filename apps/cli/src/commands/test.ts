@@ -0,0 +1,207 @@
+import type { Command } from "commander";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import { loadServerConfig } from "@nodebooks/config";
+import { buildCliEnvironment, loadCliConfig } from "@nodebooks/config/cli";
+import {
+  createNotebookFromFileDefinition,
+  parseNotebookFile,
+} from "@nodebooks/server/notebooks/file";
+import {
+  formatJUnitReport,
+  runNotebookTests,
+  type NotebookTestOptions,
+} from "@nodebooks/server/notebooks/testing";
+import { SecretsService } from "@nodebooks/server/secrets/service";
+import {
+  createNotebookContext,
+  disposeNotebookContext,
+  type NotebookContext,
+} from "../admin.js";
+import {
+  collectParam,
+  formatDuration,
+  isNotebookFile,
+  parseParams,
+} from "./run.js";
+
+interface TestCommandOptions {
+  junit?: string;
+  json?: string;
+  timeout?: string;
+  quiet?: boolean;
+  param: string[];
+}
+
+type NotebookTestReport = Awaited<
+  ReturnType<typeof runNotebookTests>
+>["report"];
+type Notebook = Parameters<typeof runNotebookTests>[0];
+
+const statusIcon: Record<
+  NotebookTestReport["cases"][number]["status"],
+  string
+> = {
+  passed: chalk.green("✔"),
+  failed: chalk.red("✖"),
+  error: chalk.red("✖"),
+  skipped: chalk.yellow("○"),
+};
+
+const printReport = (report: NotebookTestReport) => {
+  console.error(chalk.bold(report.name));
+  if (report.cases.length === 0) {
+    console.error(
+      chalk.dim("  No test cells. Mark cells as tests to run them.")
+    );
+  }
+  for (const entry of report.cases) {
+    console.error(
+      ` ${statusIcon[entry.status]}`,
+      entry.name,
+      chalk.dim(`(${formatDuration(entry.durationMs)})`)
+    );
+    if (entry.message && entry.status !== "passed") {
+      console.error(chalk.red(`     ${entry.message}`));
+    }
+  }
+};
+
+const printSummary = (reports: NotebookTestReport[], startedAt: number) => {
+  const sum = (key: keyof NotebookTestReport["summary"]) =>
+    reports.reduce((total, report) => total + report.summary[key], 0);
+  const failed = sum("failed") + sum("errors");
+  const parts = [
+    chalk.green(`${sum("passed")} passed`),
+    failed > 0 ? chalk.red(`${failed} failed`) : null,
+    sum("skipped") > 0 ? chalk.yellow(`${sum("skipped")} skipped`) : null,
+  ].filter(Boolean);
+  console.error(
+    `\nTests: ${parts.join(", ")}`,
+    chalk.dim(`(${formatDuration(Date.now() - startedAt)})`)
+  );
+};
+
+const writeReport = async (file: string, contents: string, label: string) => {
+  const destination = path.resolve(file);
+  await fs.mkdir(path.dirname(destination), { recursive: true });
+  await fs.writeFile(destination, contents, "utf8");
+  console.error(chalk.dim(`Wrote ${label} report to`), chalk.cyan(destination));
+};
+
+export const registerTestCommand = (program: Command) => {
+  program
+    .command("test")
+    .description(
+      "Run the test cells of notebook files or stored notebooks and report the results"
+    )
+    .argument("<notebooks...>", "paths to .nb.yml files or notebook ids")
+    .option("--junit <file>", "write a JUnit XML report")
+    .option("--json <file>", "write a JSON report")
+    .option(
+      "-p, --param <name=value>",
+      "override a notebook parameter (repeatable)",
+      collectParam,
+      []
+    )
+    .option("--timeout <ms>", "per-cell timeout in milliseconds")
+    .option("-q, --quiet", "do not print cell output")
+    .action(async (targets: string[], options: TestCommandOptions) => {
+      const timeoutMs = options.timeout
+        ? Number.parseInt(options.timeout, 10)
+        : loadServerConfig().kernelTimeoutMs;
+      if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+        throw new Error(`Invalid timeout: ${options.timeout}`);
+      }
+      const parameters = parseParams(options.param);
+
+      // Only opened when a stored notebook is requested
+      let context: NotebookContext | null = null;
+      // Stored notebooks also get their secrets and project defaults
+      const loadNotebook = async (
+        target: string
+      ): Promise<
+        { notebook: Notebook } & Pick<
+          NotebookTestOptions,
+          "secrets" | "projectDefaults"
+        >
+      > => {
+        if (isNotebookFile(target)) {
+          return {
+            notebook: createNotebookFromFileDefinition(
+              parseNotebookFile(await fs.readFile(path.resolve(target), "utf8"))
+            ),
+          };
+        }
+        if (!context) {
+          const config = await loadCliConfig();
+          if (!config) {
+            throw new Error(
+              `Configuration not found. Run "nbks config" or pass notebook files.`
+            );
+          }
+          const envOverrides = buildCliEnvironment(config);
+          envOverrides.NODEBOOKS_LOG_LEVEL ??= "warn";
+          context = createNotebookContext(config, envOverrides);
+        }
+        const notebook = await context.bundle.store.get(target);
+        if (!notebook) {
+          throw new Error(`Notebook ${target} not found.`);
+        }
+        const secrets = await new SecretsService(
+          context.bundle.secrets
+        ).resolve(notebook);
+        const project = notebook.projectId
+          ? await context.bundle.projects.get(notebook.projectId)
+          : undefined;
+        return { notebook, secrets, projectDefaults: project?.defaults };
+      };
+
+      const startedAt = Date.now();
+      const reports: NotebookTestReport[] = [];
+      try {
+        for (const target of targets) {
+          const { notebook, ...stored } = await loadNotebook(target);
+          const { report } = await runNotebookTests(notebook, {
+            timeoutMs,
+            parameters,
+            ...stored,
+            onStream: (_cell, output) => {
+              if (options.quiet) return;
+              (output.name === "stderr"
+                ? process.stderr
+                : process.stdout
+              ).write(output.text);
+            },
+          });
+          printReport(report);
+          reports.push(report);
+        }
+      } finally {
+        if (context) {
+          await disposeNotebookContext(context);
+        }
+      }
+
+      printSummary(reports, startedAt);
+      if (options.junit) {
+        await writeReport(options.junit, formatJUnitReport(reports), "JUnit");
+      }
+      if (options.json) {
+        const failed = reports.some((report) => report.status === "failed");
+        await writeReport(
+          options.json,
+          `${JSON.stringify(
+            { status: failed ? "failed" : "passed", reports },
+            null,
+            2
+          )}\n`,
+          "JSON"
+        );
+      }
+      if (reports.some((report) => report.status === "failed")) {
+        process.exitCode = 1;
+      }
+    });
+};
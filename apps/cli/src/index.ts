@@ -2,7 +2,10 @@
 import { Command } from "commander";
 import { createRequire } from "node:module";
 import { registerConfigCommand } from "./commands/config.js";
+import { registerPackagesCommand } from "./commands/packages.js";
 import { registerResetCommand } from "./commands/reset.js";
+import { registerRunCommand } from "./commands/run.js";
+import { registerTestCommand } from "./commands/test.js";
 import { registerStartCommand, startServer } from "./commands/start.js";
 
 const require = createRequire(import.meta.url);
@@ -18,6 +21,9 @@ program
 registerStartCommand(program);
 registerConfigCommand(program);
 registerResetCommand(program);
+registerRunCommand(program);
+registerTestCommand(program);
+registerPackagesCommand(program);
 
 program
   .action(async () => {
@@ -36,7 +36,6 @@ import NewNotebookCallout from "@/components/notebook/new-notebook-callout";
 import {
   Play,
   Trash2,
-  Download,
   Upload,
   Loader2,
   Users,
@@ -47,6 +46,8 @@ import {
   EyeOff,
   ExternalLink,
   Globe2,
+  AlertTriangle,
+  Settings,
 } from "lucide-react";
 import { useCurrentUser } from "@/components/notebook/hooks/use-current-user";
 import type {
@@ -57,6 +58,11 @@ import { useProjectSharing } from "@/components/notebook/hooks/use-project-shari
 import ProjectSharingDialog from "@/components/notebook/project-sharing-dialog";
 import { useTheme } from "@/components/theme-context";
 import PublishDialog from "@/components/notebook/publish-dialog";
+import ExportMenu, {
+  createNotebookExport,
+  getExportExtension,
+  type NotebookExportFormat,
+} from "@/components/notebook/export-menu";
 import {
   publishNotebook,
   unpublishNotebook,
@@ -103,7 +109,10 @@ interface NotebookCardProps {
   index: number;
   isAdmin: boolean;
   onOpen: (id: string) => void;
-  onExport: (notebook: NotebookWithAccess) => void;
+  onExport: (
+    notebook: NotebookWithAccess,
+    format: NotebookExportFormat
+  ) => void;
   onDelete: (id: string) => void;
   exporting: boolean;
   onMove: (
@@ -199,6 +208,16 @@ const NotebookCard = ({
                 Published
               </Badge>
             ) : null}
+            {notebook.lastRun?.status === "error" ? (
+              <Badge
+                variant="destructive"
+                className="flex items-center gap-1 text-xs"
+                title={notebook.lastRun.error ?? undefined}
+              >
+                <AlertTriangle className="h-3 w-3" />
+                Last run failed
+              </Badge>
+            ) : null}
           </div>
           <p className="text-sm text-muted-foreground">
             Updated {formatTimestamp(notebook.updatedAt)}
@@ -263,20 +282,11 @@ const NotebookCard = ({
             <ExternalLink className="h-4 w-4" />
           </Button>
         ) : null}
-        <Button
-          variant="ghost"
-          size="icon"
-          onClick={() => onExport(notebook)}
-          disabled={exporting}
-          aria-label={`Export ${notebook.name}`}
-          title="Export notebook"
-        >
-          {exporting ? (
-            <Loader2 className="h-4 w-4 animate-spin" />
-          ) : (
-            <Download className="h-4 w-4" />
-          )}
-        </Button>
+        <ExportMenu
+          onExport={(format) => onExport(notebook, format)}
+          exporting={exporting}
+          label={`Export ${notebook.name}`}
+        />
         {isAdmin ? (
           <Button
             variant="ghost"
@@ -299,7 +309,10 @@ interface NotebookGroupProps {
   notebooks: NotebookWithAccess[];
   isAdmin: boolean;
   onOpenNotebook: (id: string) => void;
-  onExportNotebook: (notebook: NotebookWithAccess) => void;
+  onExportNotebook: (
+    notebook: NotebookWithAccess,
+    format: NotebookExportFormat
+  ) => void;
   onDeleteNotebook: (id: string) => void;
   onMoveNotebook: (
     item: DragNotebookItem,
@@ -1121,7 +1134,7 @@ export default function NotebooksPage() {
         const res = await fetch(`${API_BASE_URL}/notebooks/import`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ contents }),
+          body: JSON.stringify({ contents, filename: file.name }),
         });
         const payload = await res.json().catch(() => null);
         if (!res.ok) {
@@ -1160,26 +1173,15 @@ export default function NotebooksPage() {
   }, []);
 
   const handleExport = useCallback(
-    async (notebook: NotebookWithAccess) => {
+    async (notebook: NotebookWithAccess, format: NotebookExportFormat) => {
       setExportingId(notebook.id);
       setActionError(null);
       try {
-        const res = await fetch(
-          `${API_BASE_URL}/notebooks/${notebook.id}/export`
-        );
-        if (!res.ok) {
-          const payload = await res.json().catch(() => null);
-          const message =
-            typeof payload?.error === "string"
-              ? payload.error
-              : "Failed to export notebook";
-          throw new Error(message);
-        }
-        const blob = await res.blob();
+        const blob = await createNotebookExport(notebook, format, theme);
         const url = window.URL.createObjectURL(blob);
         const link = document.createElement("a");
         link.href = url;
-        link.download = `${slugify(notebook.name)}.nb.yml`;
+        link.download = `${slugify(notebook.name)}.${getExportExtension(format)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -1192,7 +1194,7 @@ export default function NotebooksPage() {
         setExportingId(null);
       }
     },
-    [slugify]
+    [slugify, theme]
   );
 
   const persistMove = useCallback(
@@ -1576,7 +1578,7 @@ export default function NotebooksPage() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".yaml,.yml"
+              accept=".yaml,.yml,.ipynb,.md,.markdown,.ts,.mts,.js,.mjs"
               className="hidden"
               onChange={handleImportFile}
             />
@@ -1712,6 +1714,16 @@ export default function NotebooksPage() {
                       >
                         <Users className="h-4 w-4" /> Share
                       </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() =>
+                          router.push(`/projects/${group.project.id}/settings`)
+                        }
+                        title="Project settings"
+                      >
+                        <Settings className="h-4 w-4" />
+                      </Button>
                       <Button
                         size="icon"
                         variant="ghost"
@@ -0,0 +1,17 @@
+import type { Metadata } from "next";
+import ProjectSettingsView from "@/components/project-settings-view";
+
+interface ProjectSettingsPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export const metadata: Metadata = {
+  title: "Project settings",
+};
+
+const ProjectSettingsPage = async ({ params }: ProjectSettingsPageProps) => {
+  const { id } = await params;
+  return <ProjectSettingsView projectId={id} />;
+};
+
+export default ProjectSettingsPage;
@@ -19,6 +19,7 @@ import {
   Button,
   Separator,
   Switch,
+  Textarea,
   LoadingOverlay,
   Tabs,
   TabsList,
@@ -31,6 +32,7 @@ import { useCurrentUser } from "@/components/notebook/hooks/use-current-user";
 import type { SafeWorkspaceUser } from "@/components/notebook/types";
 import { gravatarUrlForEmail } from "@/lib/avatar";
 import PluginManager from "@/components/settings/plugin-manager";
+import PackageStoreUsage from "@/components/settings/package-store-usage";
 
 import { clientConfig } from "@nodebooks/config/client";
 const API_BASE_URL = clientConfig().apiBaseUrl;
@@ -51,12 +53,14 @@ interface SettingsPayload {
   theme: ThemeMode;
   kernelTimeoutMs: number;
   aiEnabled: boolean;
+  redactionPatterns: string[];
   ai: AiSettingsPayload;
 }
 
 type SavingSection =
   | "theme"
   | "kernel"
+  | "redaction"
   | "ai"
   | "aiEnabled"
   | "password"
@@ -141,10 +145,16 @@ const parseSettings = (value: unknown): SettingsPayload | null => {
   const ai = parseAiSettings(record.ai);
   const aiEnabled =
     typeof record.aiEnabled === "boolean" ? record.aiEnabled : false;
+  const redactionPatterns = Array.isArray(record.redactionPatterns)
+    ? record.redactionPatterns.filter(
+        (item): item is string => typeof item === "string"
+      )
+    : [];
   return {
     theme: record.theme,
     kernelTimeoutMs: record.kernelTimeoutMs,
     aiEnabled,
+    redactionPatterns,
     ai,
   };
 };
@@ -229,6 +239,43 @@ const KernelSection = ({
   );
 };
 
+const RedactionSection = ({
+  value,
+  onChange,
+  onSubmit,
+  saving,
+}: {
+  value: string;
+  onChange: (next: string) => void;
+  onSubmit: () => void;
+  saving: boolean;
+}) => {
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold text-foreground">
+          Output redaction
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Regular expressions masked in every notebook output, one per line.
+          Secrets and sensitive variables are always masked.
+        </p>
+      </div>
+      <Textarea
+        rows={4}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        placeholder={"sk-[A-Za-z0-9]{20,}\neyJ[\\w-]+\\.[\\w-]+\\.[\\w-]+"}
+        className="font-mono text-xs"
+        aria-label="Redaction patterns"
+      />
+      <Button type="button" onClick={onSubmit} disabled={saving}>
+        {saving ? "Saving…" : "Update"}
+      </Button>
+    </div>
+  );
+};
+
 const AiEnabledSection = ({
   enabled,
   onToggle,
@@ -502,6 +549,7 @@ const SettingsPage = () => {
   const { theme, setTheme } = useTheme();
   const [themeValue, setThemeValue] = useState<ThemeMode>(theme);
   const [kernelTimeout, setKernelTimeout] = useState("10000");
+  const [redactionPatterns, setRedactionPatterns] = useState("");
   const [aiEnabled, setAiEnabled] = useState(true);
   const [aiProvider, setAiProvider] = useState<AiProvider>("openai");
   const [openaiModel, setOpenaiModel] = useState("");
@@ -581,6 +629,7 @@ const SettingsPage = () => {
       setTheme(parsed.theme);
       setThemeValue(parsed.theme);
       setKernelTimeout(String(parsed.kernelTimeoutMs));
+      setRedactionPatterns(parsed.redactionPatterns.join("\n"));
       setAiEnabled(parsed.aiEnabled);
       setAiProvider(parsed.ai.provider);
       setOpenaiModel(parsed.ai.openai.model ?? "");
@@ -662,6 +711,7 @@ const SettingsPage = () => {
       setTheme(data.theme);
       setThemeValue(data.theme);
       setKernelTimeout(String(data.kernelTimeoutMs));
+      setRedactionPatterns(data.redactionPatterns.join("\n"));
       setAiEnabled(data.aiEnabled);
       setAiProvider(data.ai.provider);
       setOpenaiModel(data.ai.openai.model ?? "");
@@ -761,6 +811,58 @@ const SettingsPage = () => {
     savingSection,
   ]);
 
+  const handleRedactionSubmit = useCallback(async () => {
+    if (savingSection === "redaction") {
+      return;
+    }
+    const patterns = redactionPatterns
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+    for (const pattern of patterns) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        pushFeedback("runtime", "error", `Invalid pattern: ${pattern}`);
+        return;
+      }
+    }
+    setSavingSection("redaction");
+    resetFeedback();
+    try {
+      const response = await fetch(`${API_BASE_URL}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ redactionPatterns: patterns }),
+      });
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+      const payload = await response.json();
+      const parsedSettings = parseSettings(payload?.data);
+      if (!parsedSettings) {
+        throw new Error("Received malformed settings payload");
+      }
+      applyResponse(parsedSettings);
+      pushFeedback("runtime", "success", "Redaction patterns updated.");
+    } catch (err) {
+      console.error(err);
+      pushFeedback(
+        "runtime",
+        "error",
+        "Unable to update the redaction patterns."
+      );
+    } finally {
+      setSavingSection(null);
+    }
+  }, [
+    applyResponse,
+    pushFeedback,
+    redactionPatterns,
+    resetFeedback,
+    savingSection,
+  ]);
+
   const handleAiSave = useCallback(async () => {
     if (savingSection === "ai") {
       return;
@@ -1118,6 +1220,15 @@ const SettingsPage = () => {
                   onSubmit={handleKernelSubmit}
                   saving={savingSection === "kernel" || loading}
                 />
+                <Separator />
+                <RedactionSection
+                  value={redactionPatterns}
+                  onChange={setRedactionPatterns}
+                  onSubmit={handleRedactionSubmit}
+                  saving={savingSection === "redaction" || loading}
+                />
+                <Separator />
+                <PackageStoreUsage />
               </CardContent>
             </Card>
           </TabsContent>
@@ -15,7 +15,18 @@ import { useRouter, useSearchParams } from "next/navigation";
 import {
   createCodeCell,
   createMarkdownCell,
+  type KernelCompleteReply,
+  type KernelCompleteRequest,
+  type KernelDebugAction,
+  type KernelDebugPausedMessage,
+  type KernelDiagnostic,
+  type KernelDebugRequest,
   type KernelExecuteRequest,
+  type KernelInputReply,
+  type KernelInspectReply,
+  type KernelVariable,
+  type KernelInspectRequest,
+  type KernelInputRequestMessage,
   type KernelServerMessage,
   type KernelInterruptRequest,
 } from "@nodebooks/notebook-schema";
@@ -36,32 +47,60 @@ import {
   parseMultipleDependencies,
   buildOutlineItems,
 } from "@/components/notebook/utils";
+import {
+  findDependentCells,
+  getCellDependencies,
+  orderCellsByDependencies,
+} from "@/components/notebook/reactive";
+import {
+  createNotebookExport,
+  getExportExtension,
+  type NotebookExportFormat,
+} from "@/components/notebook/export-menu";
 import OutlinePanel from "@/components/notebook/outline-panel";
 import SetupPanel from "@/components/notebook/setup-panel";
 import AttachmentsPanel from "@/components/notebook/attachments-panel";
+import VariablesPanel from "@/components/notebook/variables-panel";
 import {
   syncNotebookContext,
   setDiagnosticPolicy,
+  setKernelIntrospection,
 } from "@nodebooks/client-ui/components/monaco";
 import { useTheme } from "@/components/theme-context";
 import { pluginRegistry } from "@/lib/plugins";
 import NotebookEditorView from "@/components/notebook/notebook-editor-view";
 import NotebookHeaderMain from "@/components/notebook/notebook-header-main";
 import NotebookHeaderRight from "@/components/notebook/notebook-header-right";
-import NotebookSecondaryHeader from "@/components/notebook/notebook-secondary-header";
+import NotebookSecondaryHeader, {
+  type NotebookSidebarView,
+} from "@/components/notebook/notebook-secondary-header";
 import NotebookSharingDialog from "@/components/notebook/notebook-sharing-dialog";
 import PublishDialog from "@/components/notebook/publish-dialog";
+import RunDialog from "@/components/notebook/run-dialog";
+import RunsPanel from "@/components/notebook/runs-panel";
+import TestResultsDialog from "@/components/notebook/test-results-dialog";
 import {
   API_BASE_URL,
   publishNotebook,
+  runNotebookTests,
+  runNotebookWithParameters,
   unpublishNotebook,
+  type NotebookRunPayload,
 } from "@/components/notebook/api";
 import { Badge } from "@nodebooks/client-ui/components/ui";
 import { useCurrentUser } from "@/components/notebook/hooks/use-current-user";
 import { useNotebookAttachments } from "@/components/notebook/hooks/use-notebook-attachments";
 import { useNotebookSharing } from "@/components/notebook/hooks/use-notebook-sharing";
 import { gravatarUrlForEmail } from "@/lib/avatar";
-import { suggestSlug } from "@nodebooks/notebook-schema";
+import {
+  mergeProjectSql,
+  suggestSlug,
+  type NotebookApp,
+  type NotebookParameter,
+  type NotebookSchedule,
+  type NotebookTestReport,
+  type ProjectDefaults,
+} from "@nodebooks/notebook-schema";
 import {
   isAiCell,
   isCodeCell,
@@ -92,6 +131,9 @@ const normalizeNotebookState = (
 
 const SQL_IDENTIFIER_PATTERN = IDENTIFIER_PATTERN;
 
+// Read-only panels that viewers may open
+const VIEWER_SIDEBAR_VIEWS = new Set<NotebookSidebarView>(["outline", "runs"]);
+
 const hasLayoutOverrides = (layout?: Record<string, unknown>) => {
   if (!layout) {
     return false;
@@ -117,9 +159,36 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
   const [socketReady, setSocketReady] = useState(false);
   const [activeCellId, setActiveCellId] = useState<string | null>(null);
   const [runQueue, setRunQueue] = useState<string[]>([]);
-  const [sidebarView, setSidebarView] = useState<
-    "outline" | "attachments" | "setup"
-  >("outline");
+  // Cells whose inputs changed since they last ran
+  const [staleCellIds, setStaleCellIds] = useState<Set<string>>(
+    () => new Set()
+  );
+  // Completion/inspection requests awaiting a kernel reply, by requestId
+  const introspectionRequestsRef = useRef(
+    new Map<
+      string,
+      (reply: KernelCompleteReply | KernelInspectReply | null) => void
+    >()
+  );
+  // Open prompt() requests from the kernel, by cell
+  const [pendingInputs, setPendingInputs] = useState<
+    Record<string, KernelInputRequestMessage>
+  >({});
+  // Gutter breakpoints (1-based lines) and paused debugger state, by cell
+  const [breakpoints, setBreakpoints] = useState<Record<string, number[]>>({});
+  const [debugStates, setDebugStates] = useState<
+    Record<string, KernelDebugPausedMessage>
+  >({});
+  // Type-check results for TS cells in strict notebooks
+  const [diagnostics, setDiagnostics] = useState<
+    Record<string, KernelDiagnostic[]>
+  >({});
+  const [sidebarView, setSidebarView] =
+    useState<NotebookSidebarView>("outline");
+  // Last variables_reply from the kernel; null until one arrives
+  const [kernelVariables, setKernelVariables] = useState<
+    KernelVariable[] | null
+  >(null);
   // Navigation handled by App Router; NotebookView focuses on editor only
   const [isRenaming, setIsRenaming] = useState(false);
   const [renameDraft, setRenameDraft] = useState("");
@@ -149,6 +218,7 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
     name: string;
     slug: string | null;
     published: boolean;
+    defaults: ProjectDefaults | null;
     notebooks: NotebookWithAccess[];
   } | null>(null);
   const [projectNavLoading, setProjectNavLoading] = useState(false);
@@ -158,6 +228,15 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
   const [publishDialogError, setPublishDialogError] = useState<string | null>(
     null
   );
+  const [runDialogOpen, setRunDialogOpen] = useState(false);
+  const [runPending, setRunPending] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [runResult, setRunResult] = useState<NotebookRunPayload | null>(null);
+  const [testDialogOpen, setTestDialogOpen] = useState(false);
+  const [testPending, setTestPending] = useState(false);
+  const [testError, setTestError] = useState<string | null>(null);
+  const [testReport, setTestReport] = useState<NotebookTestReport | null>(null);
+  const [runsRefreshKey, setRunsRefreshKey] = useState(0);
   const [unpublishConfirmOpen, setUnpublishConfirmOpen] = useState(false);
   const [unpublishSubmitting, setUnpublishSubmitting] = useState(false);
   const [addConnectionTrigger, setAddConnectionTrigger] = useState(0);
@@ -244,6 +323,16 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
     return `/v/${encodeURIComponent(identifier)}`;
   }, [notebook, projectNav]);
 
+  const projectDefaults =
+    notebook?.projectId && projectNav?.id === notebook.projectId
+      ? projectNav.defaults
+      : null;
+  // SQL cells may also pick the project's connections
+  const sqlConnections = useMemo(
+    () => mergeProjectSql(notebook?.sql, projectDefaults).connections,
+    [notebook?.sql, projectDefaults]
+  );
+
   const safeDeleteAttachment = useCallback(
     async (attachmentId: string) => {
       if (!ensureEditable()) {
@@ -261,14 +350,14 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
   }, [isAdmin]);
 
   useEffect(() => {
-    if (isViewer && sidebarView !== "outline") {
+    if (isViewer && !VIEWER_SIDEBAR_VIEWS.has(sidebarView)) {
       setSidebarView("outline");
     }
   }, [isViewer, sidebarView]);
 
   const handleSidebarChange = useCallback(
-    (next: "outline" | "attachments" | "setup") => {
-      if (isViewer && next !== "outline") {
+    (next: NotebookSidebarView) => {
+      if (isViewer && !VIEWER_SIDEBAR_VIEWS.has(next)) {
         return;
       }
       setSidebarView(next);
@@ -595,6 +684,67 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
     });
   }, [notebook, activeCellId, runningCellId]);
 
+  // Let Monaco ask the live kernel for completions and hover previews
+  useEffect(() => {
+    if (!socketReady) return;
+    const pending = introspectionRequestsRef.current;
+    const request = (message: KernelCompleteRequest | KernelInspectRequest) =>
+      new Promise<KernelCompleteReply | KernelInspectReply | null>(
+        (resolve) => {
+          const socket = socketRef.current;
+          if (!socket || socket.readyState !== WebSocket.OPEN) {
+            resolve(null);
+            return;
+          }
+          const timer = setTimeout(() => {
+            pending.delete(message.requestId);
+            resolve(null);
+          }, 3000);
+          pending.set(message.requestId, (reply) => {
+            clearTimeout(timer);
+            resolve(reply);
+          });
+          try {
+            socket.send(JSON.stringify(message));
+          } catch {
+            pending.get(message.requestId)?.(null);
+            pending.delete(message.requestId);
+          }
+        }
+      );
+    const nextRequestId = () =>
+      typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+        ? crypto.randomUUID()
+        : `${Date.now()}-${Math.round(Math.random() * 1e6)}`;
+    setKernelIntrospection({
+      complete: async (code, cursorPos) => {
+        const reply = await request({
+          type: "complete_request",
+          requestId: nextRequestId(),
+          code,
+          cursorPos,
+        });
+        return reply?.type === "complete_reply" ? reply : null;
+      },
+      inspect: async (code, cursorPos) => {
+        const reply = await request({
+          type: "inspect_request",
+          requestId: nextRequestId(),
+          code,
+          cursorPos,
+        });
+        return reply?.type === "inspect_reply" ? reply : null;
+      },
+    });
+    return () => {
+      setKernelIntrospection(null);
+      for (const resolve of pending.values()) {
+        resolve(null);
+      }
+      pending.clear();
+    };
+  }, [socketReady]);
+
   // Re-sync once Monaco becomes ready (first editor mount)
   useEffect(() => {
     const handler = () => {
@@ -624,6 +774,11 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
       // New session, start counter from 1 regardless of persisted counts
       runCounterRef.current = 0;
       runPendingRef.current.clear();
+      setStaleCellIds(new Set());
+      setPendingInputs({});
+      setBreakpoints({});
+      setDebugStates({});
+      setDiagnostics({});
     }
   }, [notebook?.id, currentUser?.id]);
 
@@ -734,6 +889,11 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
               name: current.name,
               env: current.env,
               cells: current.cells,
+              reactive: current.reactive ?? false,
+              strict: current.strict ?? false,
+              parameters: current.parameters ?? [],
+              schedule: current.schedule ?? null,
+              app: current.app ?? null,
             }),
           }
         );
@@ -842,17 +1002,92 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
         runPendingRef.current.clear();
         // Clear any queued runs on fresh session
         setRunQueue([]);
+        setStaleCellIds((prev) => (prev.size > 0 ? new Set() : prev));
+        setPendingInputs({});
+        setDebugStates({});
         setKernelGlobals((prev) => (Object.keys(prev).length > 0 ? {} : prev));
+        setKernelVariables(null);
         return;
       }
       if (message.type === "status") {
         if (message.state === "idle") {
           setRunningCellId(null);
           runningRef.current = null;
+          setPendingInputs((prev) =>
+            Object.keys(prev).length > 0 ? {} : prev
+          );
+          setDebugStates((prev) => (Object.keys(prev).length > 0 ? {} : prev));
         }
         return;
       }
+      if (message.type === "diagnostics") {
+        setDiagnostics((prev) => {
+          if (message.diagnostics.length > 0) {
+            return { ...prev, [message.cellId]: message.diagnostics };
+          }
+          if (!(message.cellId in prev)) {
+            return prev;
+          }
+          const { [message.cellId]: _cleared, ...rest } = prev;
+          return rest;
+        });
+        return;
+      }
+      if (message.type === "cell_source") {
+        updateNotebookCell(
+          message.cellId,
+          (cell) =>
+            isCodeCell(cell) ? { ...cell, source: message.source } : cell,
+          { persist: false }
+        );
+        return;
+      }
+      if (message.type === "debug_paused") {
+        setDebugStates((prev) => ({ ...prev, [message.cellId]: message }));
+        return;
+      }
+      if (message.type === "debug_resumed") {
+        setDebugStates((prev) => {
+          if (!(message.cellId in prev)) {
+            return prev;
+          }
+          const { [message.cellId]: _resumed, ...rest } = prev;
+          return rest;
+        });
+        return;
+      }
+      if (message.type === "variables_reply") {
+        setKernelVariables(message.variables);
+        return;
+      }
+      if (
+        message.type === "complete_reply" ||
+        message.type === "inspect_reply"
+      ) {
+        const resolve = introspectionRequestsRef.current.get(message.requestId);
+        introspectionRequestsRef.current.delete(message.requestId);
+        resolve?.(message);
+        return;
+      }
+      if (message.type === "input_request") {
+        setPendingInputs((prev) => ({ ...prev, [message.cellId]: message }));
+        return;
+      }
       if (message.type === "execute_reply") {
+        setPendingInputs((prev) => {
+          if (!(message.cellId in prev)) {
+            return prev;
+          }
+          const { [message.cellId]: _answered, ...rest } = prev;
+          return rest;
+        });
+        setDebugStates((prev) => {
+          if (!(message.cellId in prev)) {
+            return prev;
+          }
+          const { [message.cellId]: _finished, ...rest } = prev;
+          return rest;
+        });
         // Only update globals if they are explicitly provided in the message
         // Undefined means "no change", not "clear all globals"
         if (message.globals !== undefined) {
@@ -864,6 +1099,12 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
         if (runningRef.current === message.cellId) {
           runningRef.current = null;
         }
+        const previousCell = notebookRef.current?.cells.find(
+          (cell) => cell.id === message.cellId
+        );
+        const previousDefines = previousCell
+          ? getCellDependencies(previousCell).defines
+          : [];
         updateNotebookCell(
           message.cellId,
           (cell) => {
@@ -891,6 +1132,9 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
               metadata: {
                 ...cell.metadata,
                 display: { ...prevDisplay, execCount },
+                ...(message.dependencies
+                  ? { dependencies: message.dependencies }
+                  : {}),
               },
               execution: {
                 started: ended - message.execTimeMs,
@@ -901,6 +1145,37 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
           },
           { persist: false }
         );
+        if (message.status !== "aborted") {
+          // Globals defined by this cell may have changed: cells reading them
+          // are now stale, and re-run right away in reactive mode.
+          const current = notebookRef.current;
+          const changed = Array.from(
+            new Set([
+              ...previousDefines,
+              ...(message.dependencies?.defines ?? []),
+            ])
+          );
+          const dependents = current
+            ? findDependentCells(current.cells, message.cellId, changed)
+            : [];
+          setStaleCellIds((prev) => {
+            if (!prev.has(message.cellId) && dependents.length === 0) {
+              return prev;
+            }
+            const next = new Set(prev);
+            next.delete(message.cellId);
+            for (const id of dependents) {
+              next.add(id);
+            }
+            return next;
+          });
+          if (current?.reactive && message.status === "ok") {
+            setRunQueue((prev) => {
+              const additions = dependents.filter((id) => !prev.includes(id));
+              return additions.length > 0 ? [...prev, ...additions] : prev;
+            });
+          }
+        }
         scheduleAutoSave({ markDirty: true });
         return;
       }
@@ -1314,6 +1589,7 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
               name: string;
               slug?: string | null;
               published?: boolean;
+              defaults?: ProjectDefaults;
             };
             notebooks?: NotebookWithAccess[];
           };
@@ -1347,6 +1623,7 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
                   ? null
                   : null,
             published: Boolean(payload.data.project.published),
+            defaults: payload.data.project.defaults ?? null,
             notebooks: list,
           });
         }
@@ -1530,7 +1807,22 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
       if (!ensureEditable()) {
         return;
       }
+      const before = notebookRef.current?.cells.find((cell) => cell.id === id);
       updateNotebookCell(id, updater, options);
+      const after = notebookRef.current?.cells.find((cell) => cell.id === id);
+      // Editing the source of a cell that already ran leaves its outputs stale
+      if (
+        before &&
+        after &&
+        isCodeCell(before) &&
+        isCodeCell(after) &&
+        before.execution &&
+        before.source !== after.source
+      ) {
+        setStaleCellIds((prev) =>
+          prev.has(id) ? prev : new Set(prev).add(id)
+        );
+      }
     },
     [ensureEditable, updateNotebookCell]
   );
@@ -1773,8 +2065,91 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
     [runtimeGlobals]
   );
 
+  const handleInputReply = useCallback(
+    (cellId: string, value: string | null) => {
+      const request = pendingInputs[cellId];
+      if (!request) {
+        return;
+      }
+      setPendingInputs((prev) => {
+        const { [cellId]: _answered, ...rest } = prev;
+        return rest;
+      });
+      const socket = socketRef.current;
+      if (!socket || socket.readyState !== WebSocket.OPEN) {
+        setError("Kernel is not connected yet");
+        return;
+      }
+      const payload: KernelInputReply =
+        value === null
+          ? {
+              type: "input_reply",
+              requestId: request.requestId,
+              value: "",
+              cancelled: true,
+            }
+          : { type: "input_reply", requestId: request.requestId, value };
+      try {
+        socket.send(JSON.stringify(payload));
+      } catch (err) {
+        console.error("Failed to send input reply", err);
+      }
+    },
+    [pendingInputs]
+  );
+
+  const handleRefreshVariables = useCallback(() => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    try {
+      socket.send(JSON.stringify({ type: "variables_request" }));
+    } catch (err) {
+      void err;
+    }
+  }, []);
+
+  const handleDeleteVariable = useCallback(
+    (name: string) => {
+      if (!ensureEditable()) {
+        return;
+      }
+      const socket = socketRef.current;
+      if (!socket || socket.readyState !== WebSocket.OPEN) {
+        setError("Kernel is not connected yet");
+        return;
+      }
+      // Otherwise the next run would inject the stale snapshot value again
+      setKernelGlobals((prev) => {
+        if (!(name in prev)) {
+          return prev;
+        }
+        const { [name]: _deleted, ...rest } = prev;
+        return rest;
+      });
+      setKernelVariables((prev) =>
+        prev ? prev.filter((variable) => variable.name !== name) : prev
+      );
+      try {
+        socket.send(JSON.stringify({ type: "delete_variable_request", name }));
+      } catch (err) {
+        void err;
+      }
+    },
+    [ensureEditable]
+  );
+
+  // Keep the variables panel in sync whenever the kernel settles
+  useEffect(() => {
+    if (sidebarView !== "variables" || !socketReady || runningCellId) {
+      return;
+    }
+    handleRefreshVariables();
+  }, [sidebarView, socketReady, runningCellId, handleRefreshVariables]);
+
   const handleRunCell = useCallback(
-    (id: string) => {
+    (id: string, options: { debug?: boolean } = {}) => {
       if (!notebook) return;
       if (!ensureEditable()) {
         return;
@@ -2332,7 +2707,7 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
           );
           return;
         }
-        const connection = (notebook.sql?.connections ?? []).find(
+        const connection = sqlConnections.find(
           (candidate) => candidate.id === connectionId
         );
         if (!connection) {
@@ -2613,10 +2988,14 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
         language: cell.language,
         timeoutMs: cell.metadata.timeoutMs,
         globals: globalsMap,
+        debug: options.debug
+          ? { breakpoints: breakpoints[id] ?? [] }
+          : undefined,
       };
       socket.send(JSON.stringify(payload));
     },
     [
+      breakpoints,
       clearPendingSave,
       ensureEditable,
       markTerminalPendingPersistence,
@@ -2625,11 +3004,47 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
       runningCellId,
       sessionId,
       saveNotebookNow,
+      sqlConnections,
       updateNotebook,
       updateNotebookCell,
     ]
   );
 
+  const handleDebugCell = useCallback(
+    (id: string) => {
+      handleRunCell(id, { debug: true });
+    },
+    [handleRunCell]
+  );
+
+  const handleToggleBreakpoint = useCallback((cellId: string, line: number) => {
+    setBreakpoints((prev) => {
+      const current = prev[cellId] ?? [];
+      const next = current.includes(line)
+        ? current.filter((item) => item !== line)
+        : [...current, line].sort((a, b) => a - b);
+      if (next.length === 0) {
+        const { [cellId]: _cleared, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [cellId]: next };
+    });
+  }, []);
+
+  const handleDebugAction = useCallback((action: KernelDebugAction) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      setError("Kernel is not connected yet");
+      return;
+    }
+    const payload: KernelDebugRequest = { type: "debug_request", action };
+    try {
+      socket.send(JSON.stringify(payload));
+    } catch (err) {
+      console.error("Failed to send debugger command", err);
+    }
+  }, []);
+
   // When a cell completes and queue has items, run the next one.
   useEffect(() => {
     if (!runningCellId && socketReady && runQueue.length > 0) {
@@ -2786,18 +3201,46 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
       { persist: false }
     );
 
-    notebook.cells.forEach((cell) => {
-      if (
+    const runnable = notebook.cells.filter(
+      (cell) =>
         isCodeCell(cell) ||
         isHttpCell(cell) ||
         isSqlCell(cell) ||
         isPlotCell(cell)
-      ) {
-        handleRunCell(cell.id);
-      }
+    );
+    // Reactive notebooks run cells after the cells they depend on
+    const order = notebook.reactive
+      ? orderCellsByDependencies(runnable)
+      : runnable.map((cell) => cell.id);
+    order.forEach((id) => {
+      handleRunCell(id);
     });
   }, [ensureEditable, notebook, handleRunCell, updateNotebook]);
 
+  const handleToggleReactive = useCallback(() => {
+    if (!ensureEditable()) {
+      return;
+    }
+    updateNotebook((current) => ({
+      ...current,
+      reactive: !current.reactive,
+    }));
+    scheduleAutoSave();
+  }, [ensureEditable, scheduleAutoSave, updateNotebook]);
+
+  const handleToggleStrict = useCallback(() => {
+    if (!ensureEditable()) {
+      return;
+    }
+    updateNotebook((current) => ({
+      ...current,
+      strict: !current.strict,
+    }));
+    // Markers from the previous mode no longer apply
+    setDiagnostics({});
+    scheduleAutoSave();
+  }, [ensureEditable, scheduleAutoSave, updateNotebook]);
+
   const slugify = useCallback((value: string) => {
     return (
       value
@@ -2808,41 +3251,33 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
     );
   }, []);
 
-  const handleExportNotebook = useCallback(async () => {
-    if (!notebook) {
-      return;
-    }
-    setExporting(true);
-    setActionError(null);
-    try {
-      const res = await fetch(
-        `${API_BASE_URL}/notebooks/${notebook.id}/export`
-      );
-      if (!res.ok) {
-        const payload = await res.json().catch(() => null);
+  const handleExportNotebook = useCallback(
+    async (format: NotebookExportFormat) => {
+      if (!notebook) {
+        return;
+      }
+      setExporting(true);
+      setActionError(null);
+      try {
+        const blob = await createNotebookExport(notebook, format, theme);
+        const url = window.URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `${slugify(notebook.name)}.${getExportExtension(format)}`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        window.URL.revokeObjectURL(url);
+      } catch (error) {
         const message =
-          typeof payload?.error === "string"
-            ? payload.error
-            : "Failed to export notebook";
-        throw new Error(message);
-      }
-      const blob = await res.blob();
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `${slugify(notebook.name)}.nb.yml`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-    } catch (error) {
-      const message =
-        error instanceof Error ? error.message : "Failed to export notebook";
-      setActionError(message);
-    } finally {
-      setExporting(false);
-    }
-  }, [notebook, slugify]);
+          error instanceof Error ? error.message : "Failed to export notebook";
+        setActionError(message);
+      } finally {
+        setExporting(false);
+      }
+    },
+    [notebook, slugify, theme]
+  );
 
   const handleRestartKernel = useCallback(async () => {
     if (!ensureEditable()) {
@@ -3005,19 +3440,25 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
   );
 
   const handleAddVariable = useCallback(
-    (name: string, value: string) => {
+    (name: string, value: string, sensitive = false) => {
       const key = name.trim();
       if (!notebook || !key) return;
       if (!ensureEditable()) {
         return;
       }
-      updateNotebook((current) => ({
-        ...current,
-        env: {
-          ...current.env,
-          variables: { ...current.env.variables, [key]: String(value) },
-        },
-      }));
+      updateNotebook((current) => {
+        const others = (current.env.sensitive ?? []).filter(
+          (item) => item !== key
+        );
+        return {
+          ...current,
+          env: {
+            ...current.env,
+            variables: { ...current.env.variables, [key]: String(value) },
+            sensitive: sensitive ? [...others, key] : others,
+          },
+        };
+      });
       scheduleAutoSave({ markDirty: true });
     },
     [ensureEditable, notebook, updateNotebook, scheduleAutoSave]
@@ -3034,13 +3475,198 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
       updateNotebook((current) => {
         const nextVars = { ...current.env.variables } as Record<string, string>;
         delete nextVars[key];
-        return { ...current, env: { ...current.env, variables: nextVars } };
+        return {
+          ...current,
+          env: {
+            ...current.env,
+            variables: nextVars,
+            sensitive: (current.env.sensitive ?? []).filter(
+              (item) => item !== key
+            ),
+          },
+        };
       });
       scheduleAutoSave({ markDirty: true });
     },
     [ensureEditable, notebook, updateNotebook, scheduleAutoSave]
   );
 
+  const handleSaveParameter = useCallback(
+    (parameter: NotebookParameter, originalName?: string | null) => {
+      if (!notebook) return;
+      if (!ensureEditable()) {
+        return;
+      }
+      updateNotebook((current) => {
+        const existing = current.parameters ?? [];
+        const replaced = originalName ?? parameter.name;
+        const index = existing.findIndex((item) => item.name === replaced);
+        const next = existing.filter(
+          (item) => item.name !== replaced && item.name !== parameter.name
+        );
+        next.splice(index === -1 ? next.length : index, 0, parameter);
+        return { ...current, parameters: next };
+      });
+      scheduleAutoSave({ markDirty: true });
+    },
+    [ensureEditable, notebook, updateNotebook, scheduleAutoSave]
+  );
+
+  const handleRemoveParameter = useCallback(
+    (name: string) => {
+      if (!notebook) return;
+      if (!ensureEditable()) {
+        return;
+      }
+      updateNotebook((current) => ({
+        ...current,
+        parameters: (current.parameters ?? []).filter(
+          (item) => item.name !== name
+        ),
+      }));
+      scheduleAutoSave({ markDirty: true });
+    },
+    [ensureEditable, notebook, updateNotebook, scheduleAutoSave]
+  );
+
+  const handleOpenRunDialog = useCallback(() => {
+    setRunError(null);
+    setRunResult(null);
+    setRunDialogOpen(true);
+  }, []);
+
+  const handleRunWithParameters = useCallback(
+    async (values: Record<string, unknown>) => {
+      if (!notebook || !ensureEditable()) {
+        return;
+      }
+      setRunPending(true);
+      setRunError(null);
+      setRunResult(null);
+      try {
+        // The server runs the stored copy, so flush pending edits first
+        if (dirty) {
+          clearPendingSave();
+          await saveNotebookNow();
+        }
+        setRunResult(await runNotebookWithParameters(notebook.id, values));
+      } catch (error) {
+        setRunError(
+          error instanceof Error ? error.message : "Failed to run notebook"
+        );
+      } finally {
+        setRunPending(false);
+        setRunsRefreshKey((key) => key + 1);
+      }
+    },
+    [clearPendingSave, dirty, ensureEditable, notebook, saveNotebookNow]
+  );
+
+  const handleRunTests = useCallback(async () => {
+    if (!notebook || !ensureEditable()) {
+      return;
+    }
+    setTestDialogOpen(true);
+    setTestPending(true);
+    setTestError(null);
+    try {
+      if (dirty) {
+        clearPendingSave();
+        await saveNotebookNow();
+      }
+      setTestReport(await runNotebookTests(notebook.id));
+    } catch (error) {
+      setTestError(
+        error instanceof Error ? error.message : "Failed to run tests"
+      );
+    } finally {
+      setTestPending(false);
+    }
+  }, [clearPendingSave, dirty, ensureEditable, notebook, saveNotebookNow]);
+
+  const hasTestCells = useMemo(
+    () =>
+      (notebook?.cells ?? []).some(
+        (cell) => isCodeCell(cell) && cell.metadata?.test === true
+      ),
+    [notebook?.cells]
+  );
+
+  // Saved right away rather than debounced so the server can reject a bad
+  // cron expression while the Runs panel is still open.
+  const handleSaveSchedule = useCallback(
+    async (schedule: NotebookSchedule | null) => {
+      if (!ensureEditable()) {
+        return;
+      }
+      const updated = updateNotebook((current) => ({ ...current, schedule }));
+      if (!updated) {
+        return;
+      }
+      clearPendingSave();
+      await saveNotebookNow({ notebookSnapshot: updated });
+    },
+    [clearPendingSave, ensureEditable, saveNotebookNow, updateNotebook]
+  );
+
+  // Saved immediately too: slug conflicts are reported by the server
+  const handleSaveApp = useCallback(
+    async (app: NotebookApp | null) => {
+      if (!ensureEditable()) {
+        return;
+      }
+      const updated = updateNotebook((current) => ({ ...current, app }));
+      if (!updated) {
+        return;
+      }
+      clearPendingSave();
+      await saveNotebookNow({ notebookSnapshot: updated });
+    },
+    [clearPendingSave, ensureEditable, saveNotebookNow, updateNotebook]
+  );
+
+  const appCells = useMemo(
+    () =>
+      (notebook?.cells ?? []).flatMap((cell, index) =>
+        isCodeCell(cell)
+          ? [
+              {
+                id: cell.id,
+                label: `Cell ${index + 1}: ${
+                  cell.source.split("\n")[0]?.slice(0, 40) || "(empty)"
+                }`,
+              },
+            ]
+          : []
+      ),
+    [notebook?.cells]
+  );
+
+  const handleShowRunOutputs = useCallback(() => {
+    if (!runResult) {
+      return;
+    }
+    const executed = new Map(
+      runResult.notebook.cells.map((cell) => [cell.id, cell])
+    );
+    updateNotebook((current) => ({
+      ...current,
+      cells: current.cells.map((cell) => {
+        const result = executed.get(cell.id);
+        if (!isCodeCell(cell) || !result || !isCodeCell(result)) {
+          return cell;
+        }
+        return {
+          ...cell,
+          outputs: result.outputs,
+          execution: result.execution,
+        };
+      }),
+    }));
+    scheduleAutoSave({ markDirty: true });
+    setRunDialogOpen(false);
+  }, [runResult, scheduleAutoSave, updateNotebook]);
+
   const handleAddSqlConnection = useCallback(
     ({
       driver,
@@ -3214,11 +3840,19 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
         currentUserLoading={currentUserLoading}
         exporting={exporting}
         published={Boolean(notebook.published)}
+        reactive={Boolean(notebook.reactive)}
+        strict={Boolean(notebook.strict)}
+        hasParameters={(notebook.parameters ?? []).length > 0}
+        hasTests={hasTestCells}
         publishHref={publishHref}
         publishPending={publishSubmitting}
         unpublishPending={unpublishSubmitting}
         onSave={handleSaveNow}
         onRunAll={handleRunAll}
+        onToggleReactive={handleToggleReactive}
+        onToggleStrict={handleToggleStrict}
+        onRunWithParameters={handleOpenRunDialog}
+        onRunTests={() => void handleRunTests()}
         onClearOutputs={() => setConfirmClearOutputsOpen(true)}
         onReconnect={handleReconnectKernel}
         onRestart={() => setConfirmRestartOpen(true)}
@@ -3240,6 +3874,11 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
     exporting,
     handleSaveNow,
     handleRunAll,
+    handleToggleReactive,
+    handleToggleStrict,
+    handleOpenRunDialog,
+    handleRunTests,
+    hasTestCells,
     handleReconnectKernel,
     handleOpenSharing,
     handleExportNotebook,
@@ -3256,6 +3895,7 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
       <NotebookSecondaryHeader
         value={sidebarView}
         onChange={handleSidebarChange}
+        showVariables={!isViewer}
         showAttachments={!isViewer}
         showSetup={!isViewer}
       />
@@ -3266,7 +3906,16 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
     if (!notebook) return null;
     return (
       <div className="h-full overflow-hidden">
-        {sidebarView === "attachments" ? (
+        {sidebarView === "variables" ? (
+          <VariablesPanel
+            variables={kernelVariables ?? []}
+            loaded={kernelVariables !== null}
+            connected={socketReady}
+            onRefresh={handleRefreshVariables}
+            onDelete={handleDeleteVariable}
+            canEdit={canEditNotebook}
+          />
+        ) : sidebarView === "attachments" ? (
           <AttachmentsPanel
             notebookId={notebook.id}
             attachments={attachments}
@@ -3276,8 +3925,22 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
             onAttachmentUploaded={handleAttachmentUploaded}
             canEdit={canEditNotebook}
           />
+        ) : sidebarView === "runs" ? (
+          <RunsPanel
+            notebookId={notebook.id}
+            schedule={notebook.schedule}
+            onSaveSchedule={handleSaveSchedule}
+            app={notebook.app}
+            appCells={appCells}
+            onSaveApp={handleSaveApp}
+            canEdit={canEditNotebook}
+            refreshKey={runsRefreshKey}
+          />
         ) : sidebarView === "setup" ? (
           <SetupPanel
+            notebookId={notebook.id}
+            projectId={notebook.projectId}
+            projectDefaults={projectDefaults}
             env={notebook.env}
             sql={notebook.sql}
             onRemoveDependency={handleRemoveDependency}
@@ -3285,6 +3948,9 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
             depBusy={depBusy}
             onAddVariable={handleAddVariable}
             onRemoveVariable={handleRemoveVariable}
+            parameters={notebook.parameters ?? []}
+            onSaveParameter={handleSaveParameter}
+            onRemoveParameter={handleRemoveParameter}
             onAddSqlConnection={handleAddSqlConnection}
             onUpdateSqlConnection={handleUpdateSqlConnection}
             onRemoveSqlConnection={handleRemoveSqlConnection}
@@ -3382,8 +4048,18 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
     handleRemoveSqlConnection,
     handleAddVariable,
     handleRemoveVariable,
+    handleSaveParameter,
+    handleRemoveParameter,
+    handleSaveSchedule,
+    handleSaveApp,
+    appCells,
+    runsRefreshKey,
     canEditNotebook,
     addConnectionTrigger,
+    kernelVariables,
+    socketReady,
+    handleRefreshVariables,
+    handleDeleteVariable,
   ]);
 
   const shellUser = useMemo(() => {
@@ -3442,6 +4118,8 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
         socketReady={socketReady}
         runningCellId={runningCellId}
         runQueue={runQueue}
+        staleCellIds={staleCellIds}
+        pendingInputs={pendingInputs}
         activeCellId={activeCellId}
         themeMode={theme}
         readOnly={!canEditNotebook}
@@ -3470,9 +4148,16 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
         onAttachmentUploaded={handleAttachmentUploaded}
         onClearDepOutputs={handleClearDepOutputs}
         onAbortInstall={handleAbortInstall}
-        sqlConnections={notebook?.sql?.connections ?? []}
+        sqlConnections={sqlConnections}
         onRequestAddConnection={handleRequestAddSqlConnection}
         onUiInteraction={handleUiInteraction}
+        onInputReply={handleInputReply}
+        breakpoints={breakpoints}
+        debugStates={debugStates}
+        diagnostics={diagnostics}
+        onDebugCell={handleDebugCell}
+        onToggleBreakpoint={handleToggleBreakpoint}
+        onDebugAction={handleDebugAction}
         runtimeGlobals={runtimeGlobals}
       />
       <PublishDialog
@@ -3492,6 +4177,36 @@ const NotebookView = ({ initialNotebookId }: NotebookViewProps) => {
           await handlePublishNotebookSubmit(slug);
         }}
       />
+      <RunDialog
+        open={runDialogOpen}
+        parameters={notebook?.parameters ?? []}
+        running={runPending}
+        error={runError}
+        result={runResult}
+        onOpenChange={(open) => {
+          if (!runPending) {
+            setRunDialogOpen(open);
+          }
+        }}
+        onSubmit={handleRunWithParameters}
+        onShowOutputs={canEditNotebook ? handleShowRunOutputs : undefined}
+      />
+      <TestResultsDialog
+        open={testDialogOpen}
+        running={testPending}
+        error={testError}
+        report={testReport}
+        onOpenChange={(open) => {
+          if (!testPending) {
+            setTestDialogOpen(open);
+          }
+        }}
+        onRun={handleRunTests}
+        onSelectCell={(cellId) => {
+          setTestDialogOpen(false);
+          handleOutlineJump(cellId);
+        }}
+      />
       <ConfirmDialog
         open={unpublishConfirmOpen}
         title="Unpublish notebook?"
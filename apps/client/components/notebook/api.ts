@@ -1,5 +1,14 @@
 import { clientConfig } from "@nodebooks/config/client";
-import type { Project } from "@nodebooks/notebook-schema";
+import type {
+  Notebook,
+  NotebookRun,
+  NotebookRunSummary,
+  NotebookSecret,
+  NotebookSecretScope,
+  NotebookTestReport,
+  Project,
+  ProjectDefaults,
+} from "@nodebooks/notebook-schema";
 import type { NotebookWithAccess } from "@/components/notebook/types";
 
 const rawApiBaseUrl = clientConfig().apiBaseUrl ?? "/api";
@@ -106,3 +115,228 @@ export const unpublishProject = async (
   }
   return payload.data;
 };
+
+export const getProject = async (projectId: string): Promise<Project> => {
+  const response = await fetch(
+    `${API_BASE_URL}/projects/${encodeURIComponent(projectId)}`
+  );
+  const payload = await parseJson<{
+    data?: { project?: Project };
+    error?: string;
+  }>(response);
+  if (!response.ok || !payload?.data?.project) {
+    throw new Error(payload?.error ?? "Failed to load project");
+  }
+  return payload.data.project;
+};
+
+export const saveProjectDefaults = async (
+  projectId: string,
+  defaults: ProjectDefaults
+): Promise<Project> => {
+  const response = await fetch(
+    `${API_BASE_URL}/projects/${encodeURIComponent(projectId)}/defaults`,
+    buildJsonFetchOptions("PUT", defaults)
+  );
+  const payload = await parseJson<{ data?: Project; error?: string }>(response);
+  if (!response.ok || !payload?.data) {
+    throw new Error(payload?.error ?? "Failed to save project defaults");
+  }
+  return payload.data;
+};
+
+export interface NotebookRunCellResult {
+  cellId: string;
+  index: number;
+  status: "ok" | "error" | "aborted" | "skipped";
+  durationMs: number;
+  error?: { ename: string; evalue: string };
+}
+
+export interface NotebookRunPayload {
+  runId: string;
+  notebook: Notebook;
+  cells: NotebookRunCellResult[];
+  parameters: Record<string, unknown>;
+  status: "ok" | "error";
+}
+
+export const runNotebookWithParameters = async (
+  notebookId: string,
+  parameters: Record<string, unknown>
+): Promise<NotebookRunPayload> => {
+  const response = await fetch(
+    `${API_BASE_URL}/notebooks/${encodeURIComponent(notebookId)}/runs`,
+    buildJsonFetchOptions("POST", { parameters })
+  );
+  const payload = await parseJson<{
+    data?: NotebookRunPayload;
+    error?: string;
+  }>(response);
+  if (!response.ok || !payload?.data) {
+    throw new Error(payload?.error ?? "Failed to run notebook");
+  }
+  return payload.data;
+};
+
+export const runNotebookTests = async (
+  notebookId: string
+): Promise<NotebookTestReport> => {
+  const response = await fetch(
+    `${API_BASE_URL}/notebooks/${encodeURIComponent(notebookId)}/tests`,
+    buildJsonFetchOptions("POST", {})
+  );
+  const payload = await parseJson<{
+    data?: NotebookTestReport;
+    error?: string;
+  }>(response);
+  if (!response.ok || !payload?.data) {
+    throw new Error(payload?.error ?? "Failed to run tests");
+  }
+  return payload.data;
+};
+
+export interface NotebookRunHistory {
+  runs: NotebookRunSummary[];
+  nextRunAt: string | null;
+}
+
+export const listNotebookRuns = async (
+  notebookId: string
+): Promise<NotebookRunHistory> => {
+  const response = await fetch(
+    `${API_BASE_URL}/notebooks/${encodeURIComponent(notebookId)}/runs`
+  );
+  const payload = await parseJson<{
+    data?: NotebookRunSummary[];
+    nextRunAt?: string | null;
+    error?: string;
+  }>(response);
+  if (!response.ok || !payload?.data) {
+    throw new Error(payload?.error ?? "Failed to load runs");
+  }
+  return { runs: payload.data, nextRunAt: payload.nextRunAt ?? null };
+};
+
+export const getNotebookRun = async (
+  notebookId: string,
+  runId: string
+): Promise<NotebookRun> => {
+  const response = await fetch(
+    `${API_BASE_URL}/notebooks/${encodeURIComponent(
+      notebookId
+    )}/runs/${encodeURIComponent(runId)}`
+  );
+  const payload = await parseJson<{ data?: NotebookRun; error?: string }>(
+    response
+  );
+  if (!response.ok || !payload?.data) {
+    throw new Error(payload?.error ?? "Failed to load run");
+  }
+  return payload.data;
+};
+
+// Replaces the app's API token; the plaintext is only returned this once
+export const createNotebookAppToken = async (
+  notebookId: string
+): Promise<string> => {
+  const response = await fetch(
+    `${API_BASE_URL}/notebooks/${encodeURIComponent(notebookId)}/app/token`,
+    { method: "POST" }
+  );
+  const payload = await parseJson<{
+    data?: { token: string };
+    error?: string;
+  }>(response);
+  if (!response.ok || !payload?.data) {
+    throw new Error(payload?.error ?? "Failed to create API token");
+  }
+  return payload.data.token;
+};
+
+export interface NotebookSecretList {
+  secrets: NotebookSecret[];
+  enabled: boolean;
+}
+
+export const listNotebookSecrets = async (
+  notebookId: string
+): Promise<NotebookSecretList> => {
+  const response = await fetch(
+    `${API_BASE_URL}/notebooks/${encodeURIComponent(notebookId)}/secrets`
+  );
+  const payload = await parseJson<{
+    data?: NotebookSecret[];
+    enabled?: boolean;
+    error?: string;
+  }>(response);
+  if (!response.ok || !payload?.data) {
+    throw new Error(payload?.error ?? "Failed to load secrets");
+  }
+  return { secrets: payload.data, enabled: payload.enabled ?? false };
+};
+
+// Values are write-only: the server answers with the name and scope only
+export const saveNotebookSecret = async (
+  notebookId: string,
+  name: string,
+  value: string,
+  scope: NotebookSecretScope
+): Promise<NotebookSecret> => {
+  const response = await fetch(
+    `${API_BASE_URL}/notebooks/${encodeURIComponent(
+      notebookId
+    )}/secrets/${encodeURIComponent(name)}`,
+    buildJsonFetchOptions("PUT", { value, scope })
+  );
+  const payload = await parseJson<{ data?: NotebookSecret; error?: string }>(
+    response
+  );
+  if (!response.ok || !payload?.data) {
+    throw new Error(payload?.error ?? "Failed to save secret");
+  }
+  return payload.data;
+};
+
+export const deleteNotebookSecret = async (
+  notebookId: string,
+  name: string,
+  scope: NotebookSecretScope
+): Promise<void> => {
+  const response = await fetch(
+    `${API_BASE_URL}/notebooks/${encodeURIComponent(
+      notebookId
+    )}/secrets/${encodeURIComponent(name)}?scope=${scope}`,
+    { method: "DELETE" }
+  );
+  if (!response.ok) {
+    const payload = await parseJson<{ error?: string }>(response);
+    throw new Error(payload?.error ?? "Failed to delete secret");
+  }
+};
+
+export interface NotebookDependencyStatus {
+  name: string;
+  range: string;
+  // Comes from the project's defaults
+  inherited: boolean;
+  // What the notebook's lockfile installs; null until the first install
+  locked: string | null;
+  latest: string | null;
+}
+
+export const listNotebookDependencies = async (
+  notebookId: string
+): Promise<NotebookDependencyStatus[]> => {
+  const response = await fetch(
+    `${API_BASE_URL}/notebooks/${encodeURIComponent(notebookId)}/dependencies`
+  );
+  const payload = await parseJson<{
+    data?: NotebookDependencyStatus[];
+    error?: string;
+  }>(response);
+  if (!response.ok || !payload?.data) {
+    throw new Error(payload?.error ?? "Failed to load dependencies");
+  }
+  return payload.data;
+};
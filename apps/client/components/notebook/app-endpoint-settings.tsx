@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { KeyRound } from "lucide-react";
+import {
+  Button,
+  CopyButton,
+  Input,
+  Switch,
+} from "@nodebooks/client-ui/components/ui";
+import { normalizeSlug, type NotebookApp } from "@nodebooks/notebook-schema";
+import {
+  API_BASE_URL,
+  createNotebookAppToken,
+} from "@/components/notebook/api";
+
+interface AppEndpointSettingsProps {
+  notebookId: string;
+  app?: NotebookApp | null;
+  // Code cells that can be picked as the response source
+  cells: Array<{ id: string; label: string }>;
+  onSave: (app: NotebookApp | null) => Promise<void> | void;
+  canEdit: boolean;
+}
+
+const selectClassName =
+  "w-full appearance-none rounded-md border border-input bg-background px-2 py-1.5 text-xs text-foreground shadow-sm focus-visible:outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/70 disabled:cursor-not-allowed disabled:opacity-50";
+
+const resolveEndpointUrl = (slug: string) => {
+  const path = `${API_BASE_URL}/apps/${slug}`;
+  if (/^https?:\/\//.test(path) || typeof window === "undefined") {
+    return path;
+  }
+  return `${window.location.origin}${path}`;
+};
+
+const AppEndpointSettings = ({
+  notebookId,
+  app,
+  cells,
+  onSave,
+  canEdit,
+}: AppEndpointSettingsProps) => {
+  const [enabled, setEnabled] = useState(app?.enabled ?? false);
+  const [slug, setSlug] = useState(app?.slug ?? "");
+  const [auth, setAuth] = useState<NotebookApp["auth"]>(app?.auth ?? "token");
+  const [outputCellId, setOutputCellId] = useState(app?.outputCellId ?? "");
+  const [maxConcurrency, setMaxConcurrency] = useState(
+    String(app?.maxConcurrency ?? 2)
+  );
+  const [timeoutSeconds, setTimeoutSeconds] = useState(
+    app?.timeoutMs ? String(app.timeoutMs / 1000) : ""
+  );
+  const [token, setToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEnabled(app?.enabled ?? false);
+    setSlug(app?.slug ?? "");
+    setAuth(app?.auth ?? "token");
+    setOutputCellId(app?.outputCellId ?? "");
+    setMaxConcurrency(String(app?.maxConcurrency ?? 2));
+    setTimeoutSeconds(app?.timeoutMs ? String(app.timeoutMs / 1000) : "");
+  }, [app]);
+
+  useEffect(() => {
+    setToken(null);
+  }, [notebookId]);
+
+  const draft = useMemo((): NotebookApp | null => {
+    const normalizedSlug = normalizeSlug(slug);
+    const concurrency = Number.parseInt(maxConcurrency, 10);
+    const timeout = Number.parseFloat(timeoutSeconds);
+    if (!normalizedSlug || !Number.isFinite(concurrency) || concurrency < 1) {
+      return null;
+    }
+    return {
+      enabled,
+      slug: normalizedSlug,
+      auth,
+      tokenHash: app?.tokenHash,
+      outputCellId: outputCellId || undefined,
+      maxConcurrency: concurrency,
+      timeoutMs:
+        Number.isFinite(timeout) && timeout > 0
+          ? Math.round(timeout * 1000)
+          : undefined,
+    };
+  }, [
+    app?.tokenHash,
+    auth,
+    enabled,
+    maxConcurrency,
+    outputCellId,
+    slug,
+    timeoutSeconds,
+  ]);
+
+  const dirty =
+    draft !== null &&
+    (!app ||
+      draft.enabled !== app.enabled ||
+      draft.slug !== app.slug ||
+      draft.auth !== app.auth ||
+      draft.outputCellId !== app.outputCellId ||
+      draft.maxConcurrency !== app.maxConcurrency ||
+      draft.timeoutMs !== app.timeoutMs);
+
+  const handleSave = async () => {
+    if (!draft) {
+      setError("Pick a slug and a concurrency of at least 1");
+      return;
+    }
+    setError(null);
+    await onSave(draft);
+  };
+
+  const handleGenerateToken = async () => {
+    setError(null);
+    try {
+      setToken(await createNotebookAppToken(notebookId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create token");
+    }
+  };
+
+  const hasToken = Boolean(app?.tokenHash) || token !== null;
+
+  return (
+    <section className="shrink-0 space-y-2 rounded-md border border-border p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs uppercase tracking-wide text-muted-foreground">
+          API endpoint
+        </p>
+        <Switch
+          checked={enabled}
+          onCheckedChange={setEnabled}
+          disabled={!canEdit}
+          srLabel="Serve notebook as an API endpoint"
+        />
+      </div>
+      <Input
+        value={slug}
+        onChange={(event) => setSlug(event.target.value)}
+        placeholder="my-service"
+        className="font-mono text-xs"
+        disabled={!canEdit}
+        aria-label="App slug"
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={auth}
+          onChange={(event) =>
+            setAuth(event.target.value as NotebookApp["auth"])
+          }
+          className={selectClassName}
+          disabled={!canEdit}
+          aria-label="Authentication"
+        >
+          <option value="token">API token</option>
+          <option value="public">Public</option>
+        </select>
+        <select
+          value={outputCellId}
+          onChange={(event) => setOutputCellId(event.target.value)}
+          className={selectClassName}
+          disabled={!canEdit}
+          aria-label="Response cell"
+        >
+          <option value="">Last output</option>
+          {cells.map((cell) => (
+            <option key={cell.id} value={cell.id}>
+              {cell.label}
+            </option>
+          ))}
+        </select>
+        <Input
+          type="number"
+          min={1}
+          value={maxConcurrency}
+          onChange={(event) => setMaxConcurrency(event.target.value)}
+          className="text-xs"
+          disabled={!canEdit}
+          aria-label="Concurrent requests"
+          title="Concurrent requests"
+        />
+        <Input
+          type="number"
+          min={0}
+          value={timeoutSeconds}
+          onChange={(event) => setTimeoutSeconds(event.target.value)}
+          placeholder="Timeout (s)"
+          className="text-xs"
+          disabled={!canEdit}
+          aria-label="Cell timeout in seconds"
+        />
+      </div>
+      {error ? (
+        <p className="text-xs text-rose-600">{error}</p>
+      ) : app?.enabled ? (
+        <p className="break-all font-mono text-xs text-muted-foreground">
+          POST {resolveEndpointUrl(app.slug)}
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          The JSON body is passed in as parameters; call respond() to shape the
+          response.
+        </p>
+      )}
+      {token ? (
+        <div className="flex items-center gap-2 rounded-md border border-border bg-muted/40 p-2">
+          <code className="flex-1 break-all text-xs">{token}</code>
+          <CopyButton value={token} aria-label="Copy API token" />
+        </div>
+      ) : null}
+      {canEdit ? (
+        <div className="flex justify-end gap-2">
+          {app && auth === "token" ? (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="gap-1"
+              onClick={() => void handleGenerateToken()}
+            >
+              <KeyRound className="h-3.5 w-3.5" />
+              {hasToken ? "Regenerate token" : "Create token"}
+            </Button>
+          ) : null}
+          {app ? (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => void onSave(null)}
+            >
+              Remove
+            </Button>
+          ) : null}
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => void handleSave()}
+            disabled={!dirty}
+          >
+            Save
+          </Button>
+        </div>
+      ) : null}
+    </section>
+  );
+};
+
+export default AppEndpointSettings;
@@ -10,7 +10,7 @@ const apiBase =
 
 const MAX_CHUNK_FALLBACK = 512 * 1024;
 
-const encodeBytesToBase64 = (bytes: Uint8Array) => {
+export const encodeBytesToBase64 = (bytes: Uint8Array) => {
   let binary = "";
   const chunk = 0x8000;
   for (let offset = 0; offset < bytes.length; offset += chunk) {
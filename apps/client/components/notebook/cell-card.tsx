@@ -8,6 +8,7 @@ import { Button } from "@nodebooks/client-ui/components/ui";
 import {
   ArrowDown,
   ArrowUp,
+  Bug,
   Check,
   Eraser,
   Loader2,
@@ -59,6 +60,12 @@ import {
 } from "@/components/notebook/editor-preferences";
 import { copyTextToClipboard } from "@/lib/clipboard";
 import type { UiInteractionEvent } from "@nodebooks/ui";
+import type {
+  KernelDebugAction,
+  KernelDebugPausedMessage,
+  KernelDiagnostic,
+  KernelInputRequestMessage,
+} from "@nodebooks/notebook-schema";
 import {
   getDiagnosticPolicy,
   setDiagnosticPolicy,
@@ -94,6 +101,7 @@ interface CellCardProps {
   onCloneSqlToCode: (id: string, source: string) => void;
   isRunning: boolean;
   queued?: boolean;
+  stale?: boolean;
   canRun: boolean;
   canMoveUp: boolean;
   canMoveDown: boolean;
@@ -115,10 +123,22 @@ interface CellCardProps {
     cellId: string,
     event: UiInteractionEvent
   ) => Promise<void> | void;
+  // Every cell of the notebook; tracebacks link to them
+  cellIds?: ReadonlySet<string>;
+  inputRequest?: KernelInputRequestMessage;
+  onInputReply?: (value: string | null) => void;
+  onDebug?: () => void;
+  breakpoints?: number[];
+  onToggleBreakpoint?: (line: number) => void;
+  debugState?: KernelDebugPausedMessage;
+  diagnostics?: KernelDiagnostic[];
+  onDebugAction?: (action: KernelDebugAction) => void;
 }
 
 type CodeCellMetadata = Record<string, unknown> & {
   timeoutMs?: number;
+  parameters?: boolean;
+  test?: boolean;
   editor?: MonacoEditorSettings;
 };
 
@@ -172,6 +192,7 @@ const CellCard = ({
   onCloneSqlToCode,
   isRunning,
   queued,
+  stale,
   canRun,
   canMoveUp,
   canMoveDown,
@@ -190,6 +211,15 @@ const CellCard = ({
   userAvatarUrl,
   onRequestAddConnection,
   onUiInteraction,
+  cellIds,
+  inputRequest,
+  onInputReply,
+  onDebug,
+  breakpoints,
+  onToggleBreakpoint,
+  debugState,
+  diagnostics,
+  onDebugAction,
 }: CellCardProps) => {
   const { theme } = useTheme();
   const isActive = active;
@@ -240,6 +270,8 @@ const CellCard = ({
   const [showConfig, setShowConfig] = useState(false);
   const [timeoutDraft, setTimeoutDraft] = useState("");
   const [timeoutError, setTimeoutError] = useState<string | null>(null);
+  const [parametersDraft, setParametersDraft] = useState(false);
+  const [testDraft, setTestDraft] = useState(false);
   const [editorFontSizeDraft, setEditorFontSizeDraft] = useState("");
   const [editorFontSizeSelection, setEditorFontSizeSelection] =
     useState<FontSizeSelection>("default");
@@ -367,6 +399,8 @@ const CellCard = ({
       const timeoutValue =
         typeof meta?.timeoutMs === "number" ? String(meta.timeoutMs) : "";
       setTimeoutDraft(timeoutValue);
+      setParametersDraft(meta?.parameters === true);
+      setTestDraft(meta?.test === true);
       const policy = getDiagnosticPolicy();
       const mode =
         policy.mode === "ignore-list" ? "ignore" : (policy.mode ?? "off");
@@ -658,6 +692,16 @@ const CellCard = ({
           } else if (typeof timeoutValue === "number") {
             meta.timeoutMs = timeoutValue;
           }
+          if (parametersDraft) {
+            meta.parameters = true;
+          } else {
+            delete meta.parameters;
+          }
+          if (testDraft) {
+            meta.test = true;
+          } else {
+            delete meta.test;
+          }
           const previousEditor = (current.metadata as CodeCellMetadata).editor;
           const mergedEditor = mergeEditorSettings(
             previousEditor,
@@ -726,9 +770,11 @@ const CellCard = ({
     isMarkdown,
     isTerminal,
     onChange,
+    parametersDraft,
     terminalCursorBlinkDraft,
     terminalCursorStyleDraft,
     terminalFontSizeDraft,
+    testDraft,
     timeoutDraft,
   ]);
   type MarkdownUIMeta = { ui?: { edit?: boolean } };
@@ -951,6 +997,18 @@ const CellCard = ({
               <Play className="h-4 w-4" />
             )}
           </Button>
+          {onDebug && !isRunning ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onDebug}
+              disabled={isReadOnly || aiGenerating || !canRun}
+              aria-label="Debug cell"
+              title="Debug cell (stops at breakpoints)"
+            >
+              <Bug className="h-4 w-4" />
+            </Button>
+          ) : null}
           {isRunning && !isReadOnly && (
             <Button
               variant="ghost"
@@ -1352,9 +1410,18 @@ const CellCard = ({
               onRun={onRun}
               isRunning={isRunning}
               queued={queued}
+              stale={stale}
               isGenerating={aiGenerating}
               readOnly={readOnly}
               onUiInteraction={handleUiInteraction}
+              cellIds={cellIds}
+              inputRequest={inputRequest}
+              onInputReply={onInputReply}
+              breakpoints={breakpoints}
+              onToggleBreakpoint={isReadOnly ? undefined : onToggleBreakpoint}
+              debugState={debugState}
+              diagnostics={diagnostics}
+              onDebugAction={onDebugAction}
             />
           );
         }
@@ -1519,6 +1586,32 @@ const CellCard = ({
                       Leave empty to use the workspace kernel timeout.
                     </p>
                   )}
+                  <label className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={parametersDraft}
+                      onChange={(event) =>
+                        setParametersDraft(event.target.checked)
+                      }
+                    />
+                    Parameters cell
+                  </label>
+                  <p className="text-xs text-muted-foreground">
+                    Values passed to parameterized runs are assigned right after
+                    this cell.
+                  </p>
+                  <label className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={testDraft}
+                      onChange={(event) => setTestDraft(event.target.checked)}
+                    />
+                    Test cell
+                  </label>
+                  <p className="text-xs text-muted-foreground">
+                    Reported by Run tests and nbks test. Use assert or expect
+                    from @nodebooks/ui to check results.
+                  </p>
                 </section>
               ) : null}
 
@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import clsx from "clsx";
+import { ArrowDownToLine, ArrowUpFromLine, Play, Redo2 } from "lucide-react";
+import { Badge, Button } from "@nodebooks/client-ui/components/ui";
+import type {
+  KernelDebugAction,
+  KernelDebugPausedMessage,
+} from "@nodebooks/notebook-schema";
+
+interface CellDebuggerPanelProps {
+  state: KernelDebugPausedMessage;
+  onAction: (action: KernelDebugAction) => void;
+  disabled?: boolean;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  breakpoint: "Paused on breakpoint",
+  debugger: "Paused on debugger statement",
+  step: "Paused after step",
+  pause: "Paused",
+  exception: "Paused on exception",
+};
+
+const CellDebuggerPanel = ({
+  state,
+  onAction,
+  disabled = false,
+}: CellDebuggerPanelProps) => {
+  const [selectedFrame, setSelectedFrame] = useState(0);
+  // Every pause starts back at the innermost frame
+  useEffect(() => {
+    setSelectedFrame(0);
+  }, [state]);
+  const frame = state.frames[selectedFrame] ?? state.frames[0];
+
+  return (
+    <div className="space-y-3 border-t border-border/60 bg-muted/20 px-4 py-3 text-xs">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="font-semibold text-[color:var(--chart-4)]">
+          {REASON_LABELS[state.reason] ?? "Paused"}
+        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onAction("continue")}
+            disabled={disabled}
+            aria-label="Continue"
+            title="Continue"
+          >
+            <Play className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onAction("stepOver")}
+            disabled={disabled}
+            aria-label="Step over"
+            title="Step over"
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onAction("stepInto")}
+            disabled={disabled}
+            aria-label="Step into"
+            title="Step into"
+          >
+            <ArrowDownToLine className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onAction("stepOut")}
+            disabled={disabled}
+            aria-label="Step out"
+            title="Step out"
+          >
+            <ArrowUpFromLine className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="grid gap-3 md:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+        <div>
+          <p className="mb-1 uppercase tracking-wide text-muted-foreground">
+            Call stack
+          </p>
+          <ul className="space-y-0.5">
+            {state.frames.map((item, index) => (
+              <li key={index}>
+                <button
+                  type="button"
+                  className={clsx(
+                    "flex w-full items-center justify-between gap-2 rounded px-1.5 py-0.5 text-left font-mono",
+                    index === selectedFrame
+                      ? "bg-primary/15 text-foreground"
+                      : "text-muted-foreground hover:bg-muted/40"
+                  )}
+                  onClick={() => setSelectedFrame(index)}
+                >
+                  <span className="truncate">{item.name}</span>
+                  {item.line !== undefined ? (
+                    <span className="shrink-0 text-[11px]">
+                      {item.line}:{item.column ?? 1}
+                    </span>
+                  ) : null}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="min-w-0">
+          <p className="mb-1 uppercase tracking-wide text-muted-foreground">
+            Scope
+          </p>
+          {!frame || frame.scopes.length === 0 ? (
+            <p className="text-muted-foreground">
+              Scope is only captured for the top frame.
+            </p>
+          ) : (
+            <div className="max-h-64 space-y-2 overflow-y-auto pr-1">
+              {frame.scopes.map((scope, index) => (
+                <div key={`${scope.type}-${index}`}>
+                  <p className="mb-0.5 text-[11px] font-semibold text-muted-foreground">
+                    {scope.name ? `${scope.type} · ${scope.name}` : scope.type}
+                  </p>
+                  {scope.variables.length === 0 ? (
+                    <p className="pl-2 text-muted-foreground">No variables</p>
+                  ) : (
+                    <ul className="space-y-0.5">
+                      {scope.variables.map((variable) => (
+                        <li
+                          key={variable.name}
+                          className="flex min-w-0 items-center gap-2 pl-2"
+                        >
+                          <span className="shrink-0 font-mono text-foreground">
+                            {variable.name}
+                          </span>
+                          <span
+                            className="min-w-0 flex-1 truncate font-mono text-muted-foreground"
+                            title={variable.preview}
+                          >
+                            {variable.preview}
+                          </span>
+                          <Badge
+                            variant="secondary"
+                            className="max-w-[7rem] truncate font-mono text-[10px]"
+                          >
+                            {variable.valueType}
+                          </Badge>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CellDebuggerPanel;
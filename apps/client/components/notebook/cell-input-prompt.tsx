@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { KeyRound, MessageSquareText } from "lucide-react";
+import { Button, Input } from "@nodebooks/client-ui/components/ui";
+import type { KernelInputRequestMessage } from "@nodebooks/notebook-schema";
+
+interface CellInputPromptProps {
+  request: KernelInputRequestMessage;
+  // `null` dismisses the prompt; the cell's prompt() resolves to null
+  onSubmit: (value: string | null) => void;
+  disabled?: boolean;
+}
+
+// Inline answer box for `await prompt(...)`. The value is sent to the kernel
+// and never stored in the notebook.
+const CellInputPrompt = ({
+  request,
+  onSubmit,
+  disabled = false,
+}: CellInputPromptProps) => {
+  const [value, setValue] = useState("");
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    setValue("");
+    inputRef.current?.focus();
+  }, [request.requestId]);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSubmit(value);
+    setValue("");
+  };
+
+  const Icon = request.password ? KeyRound : MessageSquareText;
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-wrap items-center gap-2 border-t border-border/60 bg-muted/20 px-4 py-3 text-sm"
+    >
+      <label
+        htmlFor={`input-${request.requestId}`}
+        className="flex items-center gap-2 text-muted-foreground"
+      >
+        <Icon className="h-3.5 w-3.5 text-primary" />
+        {request.prompt || "Input requested"}
+      </label>
+      <Input
+        ref={inputRef}
+        id={`input-${request.requestId}`}
+        type={request.password ? "password" : "text"}
+        autoComplete={request.password ? "new-password" : "off"}
+        value={value}
+        disabled={disabled}
+        onChange={(event) => setValue(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") {
+            event.preventDefault();
+            onSubmit(null);
+          }
+        }}
+        className="h-8 min-w-[12rem] flex-1"
+      />
+      <Button type="submit" size="sm" disabled={disabled}>
+        Submit
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant="ghost"
+        disabled={disabled}
+        onClick={() => onSubmit(null)}
+      >
+        Cancel
+      </Button>
+    </form>
+  );
+};
+
+export default CellInputPrompt;
@@ -10,14 +10,32 @@ import {
 } from "@nodebooks/client-ui/components/monaco";
 import type { CodeCell, NotebookCell } from "@/types/notebook";
 import type { UiInteractionEvent } from "@nodebooks/ui";
+import type {
+  CellLocation,
+  KernelDebugAction,
+  KernelDebugPausedMessage,
+  KernelDiagnostic,
+  KernelInputRequestMessage,
+} from "@nodebooks/notebook-schema";
 import { Badge, CopyButton } from "@nodebooks/client-ui/components/ui";
-import { Loader2, Zap } from "lucide-react";
+import { History, Loader2, Zap } from "lucide-react";
 import { OutputView } from "@nodebooks/client-ui/components/output";
 import { useTheme } from "@/components/theme-context";
 import {
   DEFAULT_CODE_EDITOR_SETTINGS,
   type MonacoEditorSettings,
 } from "@/components/notebook/editor-preferences";
+import CellInputPrompt from "@/components/notebook/cell-input-prompt";
+import CellDebuggerPanel from "@/components/notebook/cell-debugger-panel";
+import {
+  REVEAL_CELL_LOCATION_EVENT,
+  revealCellLocation,
+} from "@/components/notebook/utils";
+
+type EditorInstance = Parameters<OnMount>[0];
+type MonacoInstance = Parameters<OnMount>[1];
+
+const TYPE_CHECK_MARKER_OWNER = "nodebooks-typecheck";
 
 interface CodeCellViewProps {
   cell: CodeCell;
@@ -29,10 +47,19 @@ interface CodeCellViewProps {
   onRun: () => void;
   isRunning: boolean;
   queued?: boolean;
+  stale?: boolean;
   isGenerating?: boolean;
   editorKey: string;
   readOnly?: boolean;
   onUiInteraction?: (event: UiInteractionEvent) => Promise<void> | void;
+  cellIds?: ReadonlySet<string>;
+  inputRequest?: KernelInputRequestMessage;
+  onInputReply?: (value: string | null) => void;
+  breakpoints?: number[];
+  onToggleBreakpoint?: (line: number) => void;
+  debugState?: KernelDebugPausedMessage;
+  diagnostics?: KernelDiagnostic[];
+  onDebugAction?: (action: KernelDebugAction) => void;
 }
 
 const CodeCellView = ({
@@ -42,12 +69,28 @@ const CodeCellView = ({
   onRun,
   isRunning,
   queued,
+  stale = false,
   isGenerating = false,
   editorKey,
   readOnly = false,
   onUiInteraction,
+  cellIds,
+  inputRequest,
+  onInputReply,
+  breakpoints,
+  onToggleBreakpoint,
+  debugState,
+  diagnostics,
+  onDebugAction,
 }: CodeCellViewProps) => {
   const runShortcutRef = useRef(onRun);
+  const toggleBreakpointRef = useRef(onToggleBreakpoint);
+  const editorRef = useRef<EditorInstance | null>(null);
+  const monacoRef = useRef<MonacoInstance | null>(null);
+  const decorationsRef = useRef<ReturnType<
+    EditorInstance["createDecorationsCollection"]
+  > | null>(null);
+  const [editorReady, setEditorReady] = useState(false);
   // Start at roughly one visual line + padding (updated on mount)
   const [editorHeight, setEditorHeight] = useState<number>(60);
   const heightRef = useRef(0);
@@ -66,8 +109,95 @@ const CodeCellView = ({
   useEffect(() => {
     runShortcutRef.current = onRun;
   }, [onRun]);
+  useEffect(() => {
+    toggleBreakpointRef.current = onToggleBreakpoint;
+  }, [onToggleBreakpoint]);
+
+  // Only the top frame in this cell is highlighted while paused
+  const pausedLine =
+    debugState?.frames[0]?.cellId === cell.id
+      ? debugState.frames[0]?.line
+      : undefined;
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    if (!editorReady || !editor || !monaco) return;
+    const decorations = [
+      ...(breakpoints ?? []).map((line) => ({
+        range: new monaco.Range(line, 1, line, 1),
+        options: { glyphMarginClassName: "notebook-breakpoint-glyph" },
+      })),
+      ...(pausedLine !== undefined
+        ? [
+            {
+              range: new monaco.Range(pausedLine, 1, pausedLine, 1),
+              options: {
+                isWholeLine: true,
+                className: "notebook-debug-line",
+                glyphMarginClassName: "notebook-debug-glyph",
+              },
+            },
+          ]
+        : []),
+    ];
+    if (!decorationsRef.current) {
+      decorationsRef.current = editor.createDecorationsCollection(decorations);
+    } else {
+      decorationsRef.current.set(decorations);
+    }
+  }, [breakpoints, pausedLine, editorReady]);
+
+  // Server-side type-check results from strict mode
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!editorReady || !model || !monaco) return;
+    const severities = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info,
+    };
+    monaco.editor.setModelMarkers(
+      model,
+      TYPE_CHECK_MARKER_OWNER,
+      (diagnostics ?? []).map((item) => ({
+        startLineNumber: item.line,
+        startColumn: item.column,
+        endLineNumber: item.endLine,
+        endColumn: item.endColumn,
+        message: item.message,
+        code: `TS${item.code}`,
+        severity: severities[item.severity],
+        source: "strict mode",
+      }))
+    );
+  }, [diagnostics, editorReady]);
+
+  useEffect(() => {
+    const handler = (event: Event) => {
+      const location = (event as CustomEvent<CellLocation>).detail;
+      const editor = editorRef.current;
+      if (!editor || location?.cellId !== cell.id) return;
+      const position = {
+        lineNumber: location.line,
+        column: location.column,
+      };
+      editor.revealPositionInCenter(position);
+      editor.setPosition(position);
+      editor.focus();
+    };
+    window.addEventListener(REVEAL_CELL_LOCATION_EVENT, handler);
+    return () => {
+      window.removeEventListener(REVEAL_CELL_LOCATION_EVENT, handler);
+    };
+  }, [cell.id]);
 
   const handleEditorMount = useCallback<OnMount>((editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    decorationsRef.current = null;
+    setEditorReady(true);
     const run = () => runShortcutRef.current();
     editor.addAction({
       id: "nodebooks.run-cell",
@@ -79,6 +209,19 @@ const CodeCellView = ({
       run,
     });
 
+    // Clicking the gutter toggles a breakpoint on that line
+    editor.onMouseDown((event) => {
+      if (
+        event.target.type !== monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN
+      ) {
+        return;
+      }
+      const line = event.target.position?.lineNumber;
+      if (line) {
+        toggleBreakpointRef.current?.(line);
+      }
+    });
+
     // Focus bubbling to the cell container for toolbar visibility
     editor.onDidFocusEditorWidget?.((): void => {
       const el = editor.getDomNode?.();
@@ -190,6 +333,14 @@ const CodeCellView = ({
             Queued
           </span>
         ) : null}
+        {!isRunning && !isGenerating && !queued && stale ? (
+          <span
+            className="inline-flex items-center gap-1 rounded-full bg-[color-mix(in_oklch,var(--chart-4)_25%,transparent)] px-2 py-0.5 text-[10px] font-semibold text-[color:var(--chart-4)]"
+            title="Inputs changed since this cell last ran"
+          >
+            <History className="h-3 w-3" /> Stale
+          </span>
+        ) : null}
       </div>
       <div className="absolute right-3 top-3 z-10 flex items-center gap-2">
         <CopyButton
@@ -245,6 +396,7 @@ const CodeCellView = ({
                 alwaysConsumeMouseWheel: false,
               },
               overviewRulerLanes: 0,
+              glyphMargin: Boolean(onToggleBreakpoint),
             }}
           />
         </div>
@@ -258,6 +410,8 @@ const CodeCellView = ({
                 key={index}
                 output={output}
                 onInteraction={onUiInteraction}
+                cellIds={cellIds}
+                onLocationClick={revealCellLocation}
               />
             ))
           ) : (
@@ -269,6 +423,22 @@ const CodeCellView = ({
         </div>
       )}
 
+      {inputRequest && onInputReply ? (
+        <CellInputPrompt
+          request={inputRequest}
+          onSubmit={onInputReply}
+          disabled={readOnly}
+        />
+      ) : null}
+
+      {debugState && onDebugAction ? (
+        <CellDebuggerPanel
+          state={debugState}
+          onAction={onDebugAction}
+          disabled={readOnly}
+        />
+      ) : null}
+
       {isRunning && (
         <div className="flex items-center justify-end px-4 py-2 text-xs tracking-[0.2em] text-muted-foreground">
           <span className="flex items-center gap-2 text-[color:var(--chart-5)]">
@@ -0,0 +1,104 @@
+"use client";
+
+import { Download, Loader2 } from "lucide-react";
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@nodebooks/client-ui/components/ui";
+import type { Notebook } from "@/types/notebook";
+import type { ThemeMode } from "@/components/theme-context";
+import { API_BASE_URL } from "@/components/notebook/api";
+
+export const NOTEBOOK_EXPORT_FORMATS = [
+  { id: "nb.yml", extension: "nb.yml", label: "Nodebooks (.nb.yml)" },
+  { id: "ipynb", extension: "ipynb", label: "Jupyter (.ipynb)" },
+  { id: "html", extension: "html", label: "Standalone HTML (.html)" },
+  { id: "md", extension: "md", label: "Markdown (.md)" },
+  {
+    id: "script",
+    extension: "zip",
+    label: "Script with package.json (.zip)",
+    hint: "Magics and @nodebooks/ui imports are commented out; notebook-only helpers such as prompt() and display() are not available",
+  },
+] as const;
+
+export type NotebookExportFormat =
+  (typeof NOTEBOOK_EXPORT_FORMATS)[number]["id"];
+
+export const getExportExtension = (format: NotebookExportFormat) =>
+  NOTEBOOK_EXPORT_FORMATS.find((entry) => entry.id === format)?.extension ??
+  format;
+
+// HTML is rendered here with the published view's components; the server
+// produces the other formats
+export const createNotebookExport = async (
+  notebook: Notebook,
+  format: NotebookExportFormat,
+  theme: ThemeMode
+): Promise<Blob> => {
+  if (format === "html") {
+    const { renderNotebookHtml } =
+      await import("@/components/notebook/html-export");
+    return new Blob([await renderNotebookHtml(notebook, theme)], {
+      type: "text/html;charset=utf-8",
+    });
+  }
+  const res = await fetch(
+    `${API_BASE_URL}/notebooks/${notebook.id}/export?format=${format}`
+  );
+  if (!res.ok) {
+    const payload = await res.json().catch(() => null);
+    const message =
+      typeof payload?.error === "string"
+        ? payload.error
+        : "Failed to export notebook";
+    throw new Error(message);
+  }
+  return res.blob();
+};
+
+interface ExportMenuProps {
+  onExport: (format: NotebookExportFormat) => void;
+  exporting?: boolean;
+  label?: string;
+}
+
+const ExportMenu = ({
+  onExport,
+  exporting = false,
+  label = "Export notebook",
+}: ExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label={label}
+        title="Export notebook"
+        disabled={exporting}
+      >
+        {exporting ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Download className="h-4 w-4" />
+        )}
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      {NOTEBOOK_EXPORT_FORMATS.map((format) => (
+        <DropdownMenuItem
+          key={format.id}
+          title={"hint" in format ? format.hint : undefined}
+          onSelect={() => onExport(format.id)}
+        >
+          {format.label}
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default ExportMenu;
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/components/notebook/public/public-cell", () => ({
+  default: () => null,
+}));
+
+import {
+  buildStandaloneHtml,
+  snapshotElement,
+} from "@/components/notebook/html-export";
+
+describe("html export", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("inlines images and drops scripts from the snapshot", async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response("png", { headers: { "Content-Type": "image/png" } })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const element = document.createElement("div");
+    element.innerHTML = [
+      '<p>Revenue</p><img alt="chart" src="/api/notebooks/nb/attachments/a1/content">',
+      '<script>alert("x")</script>',
+      '<img alt="inline" src="data:image/png;base64,AAAA">',
+    ].join("");
+
+    const html = await snapshotElement(element);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(html).toContain("<p>Revenue</p>");
+    expect(html).toContain('src="data:image/png;base64,cG5n"');
+    expect(html).toContain('src="data:image/png;base64,AAAA"');
+    expect(html).not.toContain("<script");
+    // The live DOM is left untouched
+    expect(element.querySelector("script")).not.toBeNull();
+  });
+
+  it("keeps images it cannot fetch linked", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new TypeError("Failed to fetch");
+      })
+    );
+    const element = document.createElement("div");
+    element.innerHTML = '<img src="https://tiles.example.com/1.png">';
+
+    expect(await snapshotElement(element)).toContain(
+      'src="https://tiles.example.com/1.png"'
+    );
+  });
+
+  it("wraps the body in a standalone document", () => {
+    const html = buildStandaloneHtml({
+      title: "Q3 <Report>",
+      theme: "dark",
+      styles: "body{color:red}</style><script>",
+      body: "<section>cells</section>",
+    });
+
+    expect(html.startsWith("<!doctype html>")).toBe(true);
+    expect(html).toContain('<html lang="en" class="dark">');
+    expect(html).toContain("<title>Q3 &lt;Report&gt;</title>");
+    expect(html).toContain("body{color:red}<\\/style><script>");
+    expect(html).toContain("<section>cells</section>");
+  });
+});
@@ -0,0 +1,197 @@
+"use client";
+
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+import type { Notebook } from "@/types/notebook";
+import type { ThemeMode } from "@/components/theme-context";
+import PublicCell from "@/components/notebook/public/public-cell";
+import { EMPTY_SQL_CONNECTIONS } from "@nodebooks/client-ui/lib/utils";
+import { encodeBytesToBase64 } from "@/components/notebook/attachment-utils";
+
+// Charts and diagrams render asynchronously; the snapshot is taken once the
+// DOM has been quiet for a while, or after the timeout at the latest.
+const SETTLE_QUIET_MS = 750;
+const SETTLE_TIMEOUT_MS = 15_000;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const waitForSettle = (element: HTMLElement) =>
+  new Promise<void>((resolve) => {
+    let quietTimer: ReturnType<typeof setTimeout>;
+    const finish = () => {
+      observer.disconnect();
+      clearTimeout(quietTimer);
+      clearTimeout(deadline);
+      resolve();
+    };
+    const observer = new MutationObserver(() => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(finish, SETTLE_QUIET_MS);
+    });
+    const deadline = setTimeout(finish, SETTLE_TIMEOUT_MS);
+    observer.observe(element, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      characterData: true,
+    });
+    quietTimer = setTimeout(finish, SETTLE_QUIET_MS);
+  });
+
+const toDataUrl = async (src: string) => {
+  if (src.startsWith("data:")) {
+    return src;
+  }
+  try {
+    const response = await fetch(src, { credentials: "include" });
+    if (!response.ok) {
+      return null;
+    }
+    const mimeType =
+      response.headers.get("Content-Type")?.split(";")[0] ||
+      "application/octet-stream";
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return `data:${mimeType};base64,${encodeBytesToBase64(bytes)}`;
+  } catch {
+    // Cross-origin images without CORS stay linked
+    return null;
+  }
+};
+
+/**
+ * Copies the rendered element without anything that needs the app to run:
+ * canvases become images, images (attachments included) are inlined and
+ * scripts are dropped.
+ */
+export const snapshotElement = async (element: HTMLElement) => {
+  const clone = element.cloneNode(true) as HTMLElement;
+
+  const canvases = Array.from(element.querySelectorAll("canvas"));
+  Array.from(clone.querySelectorAll("canvas")).forEach((canvas, index) => {
+    try {
+      const image = document.createElement("img");
+      image.src = canvases[index]!.toDataURL("image/png");
+      image.width = canvases[index]!.width;
+      image.height = canvases[index]!.height;
+      image.style.cssText = canvas.style.cssText;
+      canvas.replaceWith(image);
+    } catch {
+      // A canvas tainted by cross-origin content can't be read
+    }
+  });
+
+  await Promise.all(
+    Array.from(clone.querySelectorAll("img")).map(async (image) => {
+      const src = image.getAttribute("src");
+      if (!src) {
+        return;
+      }
+      const dataUrl = await toDataUrl(image.src || src);
+      if (dataUrl) {
+        image.setAttribute("src", dataUrl);
+      }
+      image.removeAttribute("srcset");
+      image.removeAttribute("loading");
+    })
+  );
+
+  clone
+    .querySelectorAll("script, noscript, .modebar-container")
+    .forEach((node) => node.remove());
+  return clone.innerHTML;
+};
+
+// Same-origin stylesheets, i.e. the app's own CSS and what chart libraries
+// inject at runtime
+const collectStyles = () =>
+  Array.from(document.styleSheets)
+    .map((sheet) => {
+      try {
+        return Array.from(sheet.cssRules)
+          .map((rule) => rule.cssText)
+          .join("\n");
+      } catch {
+        return "";
+      }
+    })
+    .filter(Boolean)
+    .join("\n");
+
+export const buildStandaloneHtml = ({
+  title,
+  theme,
+  styles,
+  body,
+}: {
+  title: string;
+  theme: ThemeMode;
+  styles: string;
+  body: string;
+}) => `<!doctype html>
+<html lang="en"${theme === "dark" ? ' class="dark"' : ""}>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="NodeBooks">
+<title>${escapeHtml(title)}</title>
+<style>${styles.replace(/<\/style/gi, "<\\/style")}</style>
+</head>
+<body class="bg-background text-foreground">
+<article class="mx-auto w-full max-w-6xl px-6 py-12">
+<h1 class="text-3xl font-semibold">${escapeHtml(title)}</h1>
+<div class="mt-10 space-y-12">
+${body}
+</div>
+</article>
+</body>
+</html>
+`;
+
+/**
+ * Renders a notebook with the published view's cell components off screen
+ * and returns it as a single HTML file that opens without NodeBooks.
+ */
+export const renderNotebookHtml = async (
+  notebook: Notebook,
+  theme: ThemeMode
+): Promise<string> => {
+  const container = document.createElement("div");
+  container.setAttribute("aria-hidden", "true");
+  container.style.cssText =
+    "position:fixed;left:-10000px;top:0;width:1024px;pointer-events:none;";
+  container.className = "space-y-12";
+  document.body.appendChild(container);
+  const root = createRoot(container);
+  try {
+    flushSync(() => {
+      root.render(
+        <>
+          {notebook.cells.map((cell) => (
+            <PublicCell
+              key={cell.id}
+              cell={cell}
+              theme={theme}
+              connections={notebook.sql?.connections ?? EMPTY_SQL_CONNECTIONS}
+            />
+          ))}
+        </>
+      );
+    });
+    await waitForSettle(container);
+    const body = await snapshotElement(container);
+    return buildStandaloneHtml({
+      title: notebook.name,
+      theme,
+      styles: collectStyles(),
+      body,
+    });
+  } finally {
+    root.unmount();
+    container.remove();
+  }
+};
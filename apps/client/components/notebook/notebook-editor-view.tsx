@@ -1,4 +1,4 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef } from "react";
 import {
   isAiCell,
   isCodeCell,
@@ -12,6 +12,12 @@ import {
   type SqlConnection,
 } from "@/types/notebook";
 import type { UiInteractionEvent } from "@nodebooks/ui";
+import type {
+  KernelDebugAction,
+  KernelDebugPausedMessage,
+  KernelDiagnostic,
+  KernelInputRequestMessage,
+} from "@nodebooks/notebook-schema";
 
 import AddCellMenu from "@/components/notebook/add-cell-menu";
 import CellCard from "@/components/notebook/cell-card";
@@ -39,6 +45,11 @@ export interface NotebookEditorViewProps {
   socketReady: boolean;
   runningCellId: string | null;
   runQueue: string[];
+  staleCellIds: Set<string>;
+  pendingInputs: Record<string, KernelInputRequestMessage>;
+  breakpoints: Record<string, number[]>;
+  debugStates: Record<string, KernelDebugPausedMessage>;
+  diagnostics: Record<string, KernelDiagnostic[]>;
   activeCellId: string | null;
   themeMode: ThemeMode;
   readOnly: boolean;
@@ -74,6 +85,10 @@ export interface NotebookEditorViewProps {
     cellId: string,
     event: UiInteractionEvent
   ) => Promise<void> | void;
+  onInputReply(cellId: string, value: string | null): void;
+  onDebugCell(id: string): void;
+  onToggleBreakpoint(cellId: string, line: number): void;
+  onDebugAction(action: KernelDebugAction): void;
 }
 
 const NotebookEditorView = ({
@@ -84,6 +99,11 @@ const NotebookEditorView = ({
   socketReady,
   runningCellId,
   runQueue,
+  staleCellIds,
+  pendingInputs,
+  breakpoints,
+  debugStates,
+  diagnostics,
   activeCellId,
   themeMode,
   readOnly,
@@ -112,8 +132,17 @@ const NotebookEditorView = ({
   sqlConnections,
   onRequestAddConnection,
   onUiInteraction,
+  onInputReply,
+  onDebugCell,
+  onToggleBreakpoint,
+  onDebugAction,
 }: NotebookEditorViewProps) => {
   const editorRootRef = useRef<HTMLDivElement | null>(null);
+  const cells = notebook?.cells;
+  const cellIds = useMemo(
+    () => new Set((cells ?? []).map((cell) => cell.id)),
+    [cells]
+  );
 
   useEffect(() => {
     const findCellInPath = (event: MouseEvent | TouchEvent) => {
@@ -329,6 +358,8 @@ const NotebookEditorView = ({
                     onAttachmentUploaded={onAttachmentUploaded}
                     isRunning={runningCellId === cell.id}
                     queued={runQueue.includes(cell.id)}
+                    stale={staleCellIds.has(cell.id)}
+                    cellIds={cellIds}
                     canRun={cellCanRun}
                     canMoveUp={index > 0}
                     canMoveDown={index < notebook.cells.length - 1}
@@ -377,6 +408,19 @@ const NotebookEditorView = ({
                     sqlConnections={sqlConnections}
                     onRequestAddConnection={onRequestAddConnection}
                     onUiInteraction={onUiInteraction}
+                    inputRequest={pendingInputs[cell.id]}
+                    onInputReply={(value) => onInputReply(cell.id, value)}
+                    onDebug={() => {
+                      if (readOnly) return;
+                      onDebugCell(cell.id);
+                    }}
+                    breakpoints={breakpoints[cell.id]}
+                    onToggleBreakpoint={(line) =>
+                      onToggleBreakpoint(cell.id, line)
+                    }
+                    debugState={debugStates[cell.id]}
+                    diagnostics={diagnostics[cell.id]}
+                    onDebugAction={onDebugAction}
                   />
                 );
               })}
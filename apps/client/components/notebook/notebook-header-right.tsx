@@ -8,13 +8,17 @@ import { cn } from "@nodebooks/client-ui/lib/utils";
 import { Badge, badgeVariants } from "@nodebooks/client-ui/components/ui";
 import { Button } from "@nodebooks/client-ui/components/ui";
 import StatusDot from "@/components/notebook/status-dot";
+import ExportMenu, {
+  type NotebookExportFormat,
+} from "@/components/notebook/export-menu";
 import {
   Check,
   ChevronDown,
-  Download,
   Eraser,
   EyeOff,
   ExternalLink,
+  FileCheck2,
+  FlaskConical,
   Globe2,
   Loader2,
   Megaphone,
@@ -24,7 +28,9 @@ import {
   Save,
   Share2,
   ShieldCheck,
+  SlidersHorizontal,
   Trash2,
+  Workflow,
 } from "lucide-react";
 
 export interface NotebookHeaderRightProps {
@@ -39,17 +45,25 @@ export interface NotebookHeaderRightProps {
   currentUserLoading: boolean;
   exporting: boolean;
   published: boolean;
+  reactive: boolean;
+  strict: boolean;
+  hasParameters?: boolean;
+  hasTests?: boolean;
   publicSlug?: string | null;
   publishHref?: string | null;
   publishPending?: boolean;
   unpublishPending?: boolean;
   onSave(): void;
   onRunAll(): void;
+  onToggleReactive(): void;
+  onToggleStrict(): void;
+  onRunWithParameters?(): void;
+  onRunTests?(): void;
   onClearOutputs(): void;
   onReconnect(): void;
   onRestart(): void;
   onOpenSharing(): void;
-  onExport(): void;
+  onExport(format: NotebookExportFormat): void;
   onDelete(): void;
   onPublish(): void;
   onUnpublish(): void;
@@ -67,11 +81,19 @@ const NotebookHeaderRight = ({
   currentUserLoading,
   exporting,
   published,
+  reactive,
+  strict,
+  hasParameters = false,
+  hasTests = false,
   publishHref,
   publishPending,
   unpublishPending,
   onSave,
   onRunAll,
+  onToggleReactive,
+  onToggleStrict,
+  onRunWithParameters,
+  onRunTests,
   onClearOutputs,
   onReconnect,
   onRestart,
@@ -356,6 +378,66 @@ const NotebookHeaderRight = ({
           >
             <PlayCircle className="h-4 w-4" />
           </Button>
+          {hasParameters && onRunWithParameters ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onRunWithParameters}
+              disabled={!canEdit}
+              aria-label="Run with parameters"
+              title="Run with parameters"
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+            </Button>
+          ) : null}
+          {hasTests && onRunTests ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onRunTests}
+              disabled={!canEdit}
+              aria-label="Run tests"
+              title="Run tests"
+            >
+              <FlaskConical className="h-4 w-4" />
+            </Button>
+          ) : null}
+          <Button
+            variant={reactive ? "secondary" : "ghost"}
+            size="icon"
+            onClick={onToggleReactive}
+            disabled={!canEdit}
+            aria-label={
+              reactive ? "Disable reactive mode" : "Enable reactive mode"
+            }
+            aria-pressed={reactive}
+            title={
+              reactive
+                ? "Reactive mode: dependent cells re-run automatically"
+                : "Reactive mode off: dependent cells are marked stale"
+            }
+          >
+            <Workflow
+              className={cn("h-4 w-4", reactive ? "text-primary" : undefined)}
+            />
+          </Button>
+          <Button
+            variant={strict ? "secondary" : "ghost"}
+            size="icon"
+            onClick={onToggleStrict}
+            disabled={!canEdit}
+            aria-label={strict ? "Disable strict mode" : "Enable strict mode"}
+            aria-pressed={strict}
+            title={
+              strict
+                ? "Strict mode: TypeScript cells are type-checked before running"
+                : "Strict mode off: TypeScript cells run without type checking"
+            }
+          >
+            <FileCheck2
+              className={cn("h-4 w-4", strict ? "text-primary" : undefined)}
+            />
+          </Button>
           <Button
             variant="ghost"
             size="icon"
@@ -408,20 +490,7 @@ const NotebookHeaderRight = ({
               <ShieldCheck className="h-4 w-4" />
             )}
           </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={onExport}
-            aria-label="Export notebook"
-            title="Export notebook"
-            disabled={exporting}
-          >
-            {exporting ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Download className="h-4 w-4" />
-            )}
-          </Button>
+          <ExportMenu onExport={onExport} exporting={exporting} />
           {canDelete ? (
             <Button
               variant="ghost"
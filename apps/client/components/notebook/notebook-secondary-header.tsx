@@ -3,32 +3,55 @@ import {
   TabsList,
   TabsTrigger,
 } from "@nodebooks/client-ui/components/ui";
-import { ListTree, Paperclip, Settings as SettingsIcon } from "lucide-react";
+import {
+  History,
+  ListTree,
+  Paperclip,
+  Settings as SettingsIcon,
+  Variable,
+} from "lucide-react";
+
+export type NotebookSidebarView =
+  | "outline"
+  | "variables"
+  | "attachments"
+  | "setup"
+  | "runs";
 
 export interface NotebookSecondaryHeaderProps {
-  value: "outline" | "attachments" | "setup";
-  onChange(value: "outline" | "attachments" | "setup"): void;
+  value: NotebookSidebarView;
+  onChange(value: NotebookSidebarView): void;
+  showVariables?: boolean;
   showAttachments?: boolean;
   showSetup?: boolean;
+  showRuns?: boolean;
 }
 
 const NotebookSecondaryHeader = ({
   value,
   onChange,
+  showVariables = true,
   showAttachments = true,
   showSetup = true,
+  showRuns = true,
 }: NotebookSecondaryHeaderProps) => {
   return (
     <Tabs
       value={value}
-      onValueChange={(next) =>
-        onChange(next as "outline" | "attachments" | "setup")
-      }
+      onValueChange={(next) => onChange(next as NotebookSidebarView)}
     >
       <TabsList className="w-full overflow-x-auto">
         <TabsTrigger value="outline" className="flex-1 gap-1 px-3 py-1 text-xs">
           <ListTree className="h-4 w-4" /> Outline
         </TabsTrigger>
+        {showVariables ? (
+          <TabsTrigger
+            value="variables"
+            className="flex-1 gap-1 px-3 py-1 text-xs"
+          >
+            <Variable className="h-4 w-4" /> Variables
+          </TabsTrigger>
+        ) : null}
         {showAttachments ? (
           <TabsTrigger
             value="attachments"
@@ -42,6 +65,11 @@ const NotebookSecondaryHeader = ({
             <SettingsIcon className="h-4 w-4" /> Setup
           </TabsTrigger>
         ) : null}
+        {showRuns ? (
+          <TabsTrigger value="runs" className="flex-1 gap-1 px-3 py-1 text-xs">
+            <History className="h-4 w-4" /> Runs
+          </TabsTrigger>
+        ) : null}
       </TabsList>
     </Tabs>
   );
@@ -0,0 +1,97 @@
+import type { CellDependencies } from "@nodebooks/notebook-schema";
+
+interface CellLike {
+  id: string;
+  type: string;
+  metadata?: Record<string, unknown>;
+}
+
+const EMPTY_DEPENDENCIES: CellDependencies = { defines: [], reads: [] };
+
+const toNames = (value: unknown): string[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((item): item is string => typeof item === "string");
+};
+
+// Dependencies recorded by the kernel the last time the cell ran.
+export const getCellDependencies = (cell: CellLike): CellDependencies => {
+  if (cell.type !== "code") {
+    return EMPTY_DEPENDENCIES;
+  }
+  const raw = (cell.metadata as { dependencies?: unknown } | undefined)
+    ?.dependencies;
+  if (!raw || typeof raw !== "object") {
+    return EMPTY_DEPENDENCIES;
+  }
+  const { defines, reads } = raw as Record<string, unknown>;
+  return { defines: toNames(defines), reads: toNames(reads) };
+};
+
+// Cells below `cellId` that read any of `changed`, directly or through the
+// globals defined by another dependent cell. Returned in notebook order.
+export const findDependentCells = (
+  cells: CellLike[],
+  cellId: string,
+  changed: string[]
+): string[] => {
+  const start = cells.findIndex((cell) => cell.id === cellId);
+  if (start < 0 || changed.length === 0) {
+    return [];
+  }
+  const dirty = new Set(changed);
+  const dependents: string[] = [];
+  for (const cell of cells.slice(start + 1)) {
+    const { defines, reads } = getCellDependencies(cell);
+    if (!reads.some((name) => dirty.has(name))) {
+      continue;
+    }
+    dependents.push(cell.id);
+    for (const name of defines) {
+      dirty.add(name);
+    }
+  }
+  return dependents;
+};
+
+// Orders runnable cells so every cell runs after the cells defining the
+// globals it reads. Cells without recorded dependencies keep notebook order.
+export const orderCellsByDependencies = (cells: CellLike[]): string[] => {
+  const definedBy = new Map<string, number>();
+  cells.forEach((cell, index) => {
+    for (const name of getCellDependencies(cell).defines) {
+      if (!definedBy.has(name)) {
+        definedBy.set(name, index);
+      }
+    }
+  });
+
+  const upstream = cells.map((cell, index) => {
+    const sources = new Set<number>();
+    for (const name of getCellDependencies(cell).reads) {
+      const source = definedBy.get(name);
+      if (source !== undefined && source !== index) {
+        sources.add(source);
+      }
+    }
+    return sources;
+  });
+
+  const ordered: string[] = [];
+  const done = new Set<number>();
+  while (done.size < cells.length) {
+    let next = cells.findIndex(
+      (_cell, index) =>
+        !done.has(index) &&
+        Array.from(upstream[index]!).every((source) => done.has(source))
+    );
+    if (next < 0) {
+      // Cycle between cells: fall back to the first remaining cell
+      next = cells.findIndex((_cell, index) => !done.has(index));
+    }
+    done.add(next);
+    ordered.push(cells[next]!.id);
+  }
+  return ordered;
+};
@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import {
+  Badge,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Switch,
+  Textarea,
+} from "@nodebooks/client-ui/components/ui";
+import type { NotebookParameter } from "@nodebooks/notebook-schema";
+import type { NotebookRunPayload } from "@/components/notebook/api";
+
+type FormValues = Record<string, string | boolean>;
+
+interface RunDialogProps {
+  open: boolean;
+  parameters: NotebookParameter[];
+  running?: boolean;
+  error?: string | null;
+  result?: NotebookRunPayload | null;
+  onOpenChange(open: boolean): void;
+  onSubmit(values: Record<string, unknown>): Promise<void> | void;
+  onShowOutputs?(): void;
+}
+
+const initialValue = (parameter: NotebookParameter): string | boolean => {
+  const value = parameter.default;
+  if (parameter.type === "boolean") {
+    return value === true;
+  }
+  if (value === undefined) {
+    return "";
+  }
+  return parameter.type === "json"
+    ? JSON.stringify(value, null, 2)
+    : String(value);
+};
+
+const statusVariant = (status: NotebookRunPayload["status"]) =>
+  status === "ok" ? "secondary" : "destructive";
+
+const RunDialog = ({
+  open,
+  parameters,
+  running,
+  error,
+  result,
+  onOpenChange,
+  onSubmit,
+  onShowOutputs,
+}: RunDialogProps) => {
+  const [values, setValues] = useState<FormValues>({});
+
+  useEffect(() => {
+    if (open) {
+      setValues(
+        Object.fromEntries(
+          parameters.map((parameter) => [
+            parameter.name,
+            initialValue(parameter),
+          ])
+        )
+      );
+    }
+  }, [open, parameters]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    // Blank fields fall back to the parameter default on the server
+    const overrides = Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== "")
+    );
+    await onSubmit(overrides);
+  };
+
+  const ranCells = (result?.cells ?? []).filter(
+    (cell) => cell.status !== "skipped"
+  );
+  const ranCount = ranCells.length;
+  const failures = ranCells.filter((cell) => cell.status !== "ok");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Run with parameters</DialogTitle>
+            <DialogDescription>
+              Runs a copy of this notebook in a fresh kernel. Values are
+              injected after the parameters cell.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {parameters.map((parameter) => {
+              const id = `run-param-${parameter.name}`;
+              const value = values[parameter.name];
+              return (
+                <div key={parameter.name} className="space-y-1">
+                  <label
+                    htmlFor={id}
+                    className="flex items-center gap-2 text-sm font-medium text-foreground"
+                  >
+                    <span className="font-mono">{parameter.name}</span>
+                    <Badge variant="secondary" className="text-[10px]">
+                      {parameter.type}
+                    </Badge>
+                  </label>
+                  {parameter.type === "boolean" ? (
+                    <Switch
+                      checked={value === true}
+                      onCheckedChange={(checked) =>
+                        setValues((current) => ({
+                          ...current,
+                          [parameter.name]: checked,
+                        }))
+                      }
+                      srLabel={parameter.name}
+                      disabled={running}
+                    />
+                  ) : parameter.type === "json" ? (
+                    <Textarea
+                      id={id}
+                      rows={3}
+                      className="font-mono text-xs"
+                      value={typeof value === "string" ? value : ""}
+                      onChange={(event) =>
+                        setValues((current) => ({
+                          ...current,
+                          [parameter.name]: event.target.value,
+                        }))
+                      }
+                      disabled={running}
+                    />
+                  ) : (
+                    <Input
+                      id={id}
+                      type={parameter.type === "number" ? "number" : "text"}
+                      value={typeof value === "string" ? value : ""}
+                      onChange={(event) =>
+                        setValues((current) => ({
+                          ...current,
+                          [parameter.name]: event.target.value,
+                        }))
+                      }
+                      disabled={running}
+                    />
+                  )}
+                  {parameter.description ? (
+                    <p className="text-xs text-muted-foreground">
+                      {parameter.description}
+                    </p>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+          {result ? (
+            <div className="space-y-2 rounded-md border border-border bg-muted/40 p-3 text-sm">
+              <div className="flex items-center gap-2">
+                <Badge variant={statusVariant(result.status)}>
+                  {result.status === "ok" ? "Succeeded" : "Failed"}
+                </Badge>
+                <span className="text-muted-foreground">
+                  {ranCount} cells ran
+                </span>
+              </div>
+              {failures.map((cell) => (
+                <p key={cell.cellId} className="text-xs text-rose-600">
+                  Cell {cell.index + 1}:{" "}
+                  {cell.error
+                    ? `${cell.error.ename}: ${cell.error.evalue}`
+                    : cell.status}
+                </p>
+              ))}
+            </div>
+          ) : null}
+          {error ? <p className="text-sm text-rose-600">{error}</p> : null}
+          <DialogFooter>
+            {result && onShowOutputs ? (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onShowOutputs}
+                disabled={running}
+              >
+                Show outputs
+              </Button>
+            ) : null}
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => onOpenChange(false)}
+              disabled={running}
+            >
+              Close
+            </Button>
+            <Button type="submit" disabled={running}>
+              {running ? "Running…" : "Run"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RunDialog;
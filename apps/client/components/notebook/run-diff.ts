@@ -0,0 +1,114 @@
+import type { NotebookOutput, NotebookRun } from "@nodebooks/notebook-schema";
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export interface CellOutputDiff {
+  cellId: string;
+  // Position in the notebook when the run executed the cell
+  index: number | null;
+  changed: boolean;
+  lines: DiffLine[];
+}
+
+// Rich outputs are compared by their plain text (or JSON) form so runs can
+// be diffed without rendering them.
+const outputToText = (output: NotebookOutput): string => {
+  if (output.type === "stream") {
+    return output.text.replace(/\n$/, "");
+  }
+  if (output.type === "error") {
+    return `${output.ename}: ${output.evalue}`;
+  }
+  const plain = output.data["text/plain"];
+  if (typeof plain === "string") {
+    return plain;
+  }
+  const [mime, value] = Object.entries(output.data)[0] ?? [];
+  if (mime === undefined) {
+    return "";
+  }
+  return typeof value === "string"
+    ? `[${mime}] ${value}`
+    : `[${mime}] ${JSON.stringify(value)}`;
+};
+
+export const outputsToLines = (outputs: NotebookOutput[] = []) =>
+  outputs.flatMap((output) => outputToText(output).split("\n"));
+
+/** Line diff based on the longest common subsequence. */
+export const diffLines = (before: string[], after: string[]): DiffLine[] => {
+  const rows = before.length;
+  const cols = after.length;
+  const lengths: number[][] = Array.from({ length: rows + 1 }, () =>
+    new Array<number>(cols + 1).fill(0)
+  );
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = cols - 1; j >= 0; j -= 1) {
+      lengths[i]![j] =
+        before[i] === after[j]
+          ? lengths[i + 1]![j + 1]! + 1
+          : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      result.push({ type: "same", text: before[i]! });
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      result.push({ type: "removed", text: before[i]! });
+      i += 1;
+    } else {
+      result.push({ type: "added", text: after[j]! });
+      j += 1;
+    }
+  }
+  for (; i < rows; i += 1) {
+    result.push({ type: "removed", text: before[i]! });
+  }
+  for (; j < cols; j += 1) {
+    result.push({ type: "added", text: after[j]! });
+  }
+  return result;
+};
+
+/**
+ * Compares the output snapshots of two runs cell by cell, in notebook order.
+ * Cells that only one of the runs executed show up as fully added/removed.
+ */
+export const diffRunOutputs = (
+  base: NotebookRun,
+  compare: NotebookRun
+): CellOutputDiff[] => {
+  const indexes = new Map<string, number>();
+  for (const cell of [...base.cells, ...compare.cells]) {
+    indexes.set(cell.cellId, cell.index);
+  }
+  const cellIds = Array.from(
+    new Set([...Object.keys(base.outputs), ...Object.keys(compare.outputs)])
+  ).sort(
+    (a, b) =>
+      (indexes.get(a) ?? Number.MAX_SAFE_INTEGER) -
+      (indexes.get(b) ?? Number.MAX_SAFE_INTEGER)
+  );
+
+  return cellIds.map((cellId) => {
+    const lines = diffLines(
+      outputsToLines(base.outputs[cellId]),
+      outputsToLines(compare.outputs[cellId])
+    );
+    return {
+      cellId,
+      index: indexes.get(cellId) ?? null,
+      changed: lines.some((line) => line.type !== "same"),
+      lines,
+    };
+  });
+};
@@ -0,0 +1,433 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import clsx from "clsx";
+import { GitCompare, Loader2, RefreshCw, X } from "lucide-react";
+import {
+  Badge,
+  Button,
+  Input,
+  Switch,
+} from "@nodebooks/client-ui/components/ui";
+import type {
+  NotebookApp,
+  NotebookRun,
+  NotebookRunSummary,
+  NotebookSchedule,
+} from "@nodebooks/notebook-schema";
+import { getNotebookRun, listNotebookRuns } from "@/components/notebook/api";
+import AppEndpointSettings from "@/components/notebook/app-endpoint-settings";
+import { diffRunOutputs } from "@/components/notebook/run-diff";
+import { formatTimestamp } from "@/components/notebook/utils";
+
+// Five cron fields or a macro such as @daily; the server does the full check
+const CRON_SHAPE = /^(@[a-z]+|\S+(\s+\S+){4})$/i;
+
+interface RunsPanelProps {
+  notebookId: string;
+  schedule?: NotebookSchedule | null;
+  onSaveSchedule: (schedule: NotebookSchedule | null) => Promise<void> | void;
+  app?: NotebookApp | null;
+  appCells: Array<{ id: string; label: string }>;
+  onSaveApp: (app: NotebookApp | null) => Promise<void> | void;
+  canEdit: boolean;
+  // Bumped by the parent when it starts a run so the list reloads
+  refreshKey?: number;
+}
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return "—";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+};
+
+const statusVariant = (status: NotebookRunSummary["status"]) =>
+  status === "ok"
+    ? "secondary"
+    : status === "error"
+      ? "destructive"
+      : "outline";
+
+const RunsPanel = ({
+  notebookId,
+  schedule,
+  onSaveSchedule,
+  app,
+  appCells,
+  onSaveApp,
+  canEdit,
+  refreshKey = 0,
+}: RunsPanelProps) => {
+  const [runs, setRuns] = useState<NotebookRunSummary[]>([]);
+  const [nextRunAt, setNextRunAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cron, setCron] = useState(schedule?.cron ?? "");
+  const [enabled, setEnabled] = useState(schedule?.enabled ?? true);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<NotebookRun | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<
+    [NotebookRun, NotebookRun] | null
+  >(null);
+
+  useEffect(() => {
+    setCron(schedule?.cron ?? "");
+    setEnabled(schedule?.enabled ?? true);
+  }, [schedule?.cron, schedule?.enabled]);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const history = await listNotebookRuns(notebookId);
+      setRuns(history.runs);
+      setNextRunAt(history.nextRunAt);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load runs");
+    } finally {
+      setLoading(false);
+    }
+  }, [notebookId]);
+
+  useEffect(() => {
+    setSelected(null);
+    setCompareIds([]);
+    setComparison(null);
+    void refresh();
+  }, [refresh, refreshKey, schedule?.cron, schedule?.enabled]);
+
+  const handleSaveSchedule = async () => {
+    const trimmed = cron.trim();
+    if (!CRON_SHAPE.test(trimmed)) {
+      setScheduleError("Use five cron fields, e.g. 0 9 * * 1-5");
+      return;
+    }
+    setScheduleError(null);
+    await onSaveSchedule({ ...schedule, cron: trimmed, enabled });
+  };
+
+  const handleRemoveSchedule = async () => {
+    setScheduleError(null);
+    await onSaveSchedule(null);
+  };
+
+  const handleSelect = async (runId: string) => {
+    setComparison(null);
+    if (selected?.id === runId) {
+      setSelected(null);
+      return;
+    }
+    try {
+      setSelected(await getNotebookRun(notebookId, runId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load run");
+    }
+  };
+
+  const toggleCompare = (runId: string) => {
+    setComparison(null);
+    setCompareIds((current) =>
+      current.includes(runId)
+        ? current.filter((id) => id !== runId)
+        : [...current, runId].slice(-2)
+    );
+  };
+
+  const handleCompare = async () => {
+    // Older run first so additions read as what changed since then
+    const ordered = runs
+      .filter((run) => compareIds.includes(run.id))
+      .reverse()
+      .map((run) => run.id);
+    if (ordered.length !== 2) return;
+    try {
+      const [base, next] = await Promise.all(
+        ordered.map((id) => getNotebookRun(notebookId, id))
+      );
+      setSelected(null);
+      setComparison([base!, next!]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load runs");
+    }
+  };
+
+  const scheduleDirty =
+    cron.trim() !== (schedule?.cron ?? "") ||
+    enabled !== (schedule?.enabled ?? true);
+
+  return (
+    <div className="flex h-full flex-col gap-3 overflow-hidden">
+      <section className="shrink-0 space-y-2 rounded-md border border-border p-3">
+        <div className="flex items-center justify-between">
+          <p className="text-xs uppercase tracking-wide text-muted-foreground">
+            Schedule
+          </p>
+          <Switch
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            disabled={!canEdit}
+            srLabel="Enable schedule"
+          />
+        </div>
+        <Input
+          value={cron}
+          onChange={(event) => setCron(event.target.value)}
+          placeholder="0 9 * * 1-5"
+          className="font-mono text-xs"
+          disabled={!canEdit}
+          aria-label="Cron expression"
+        />
+        {scheduleError ? (
+          <p className="text-xs text-rose-600">{scheduleError}</p>
+        ) : nextRunAt ? (
+          <p className="text-xs text-muted-foreground">
+            Next run {formatTimestamp(nextRunAt)}
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Runs on the server clock using the default parameters.
+          </p>
+        )}
+        {canEdit ? (
+          <div className="flex justify-end gap-2">
+            {schedule ? (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => void handleRemoveSchedule()}
+              >
+                Remove
+              </Button>
+            ) : null}
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => void handleSaveSchedule()}
+              disabled={!scheduleDirty || cron.trim() === ""}
+            >
+              Save
+            </Button>
+          </div>
+        ) : null}
+      </section>
+
+      <AppEndpointSettings
+        notebookId={notebookId}
+        app={app}
+        cells={appCells}
+        onSave={onSaveApp}
+        canEdit={canEdit}
+      />
+
+      <div className="flex shrink-0 items-center justify-between">
+        <p className="text-xs uppercase tracking-wide text-muted-foreground">
+          Run history
+        </p>
+        <div className="flex items-center gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 px-2 text-xs"
+            onClick={() => void handleCompare()}
+            disabled={compareIds.length !== 2}
+          >
+            <GitCompare className="h-3.5 w-3.5" /> Compare
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="text-muted-foreground hover:text-foreground"
+            onClick={() => void refresh()}
+            disabled={loading}
+            aria-label="Refresh runs"
+          >
+            {loading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+      {error ? <p className="text-xs text-rose-600">{error}</p> : null}
+
+      <div className="flex-1 space-y-3 overflow-y-auto pr-1">
+        {runs.length === 0 && !loading ? (
+          <p className="text-xs text-muted-foreground">
+            No runs yet. Scheduled runs and runs with parameters show up here.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {runs.map((run) => (
+              <li
+                key={run.id}
+                className={clsx(
+                  "flex items-center gap-2 rounded-md border border-border px-2 py-1",
+                  selected?.id === run.id && "bg-muted"
+                )}
+              >
+                <input
+                  type="checkbox"
+                  className="h-3.5 w-3.5 accent-primary"
+                  checked={compareIds.includes(run.id)}
+                  onChange={() => toggleCompare(run.id)}
+                  aria-label="Select run to compare"
+                />
+                <button
+                  type="button"
+                  className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                  onClick={() => void handleSelect(run.id)}
+                >
+                  <Badge
+                    variant={statusVariant(run.status)}
+                    className="text-[10px]"
+                  >
+                    {run.status}
+                  </Badge>
+                  <span className="min-w-0 flex-1 truncate text-xs text-foreground">
+                    {formatTimestamp(run.startedAt)}
+                  </span>
+                  <span className="shrink-0 text-[11px] text-muted-foreground">
+                    {run.trigger === "schedule" ? "cron" : "manual"} ·{" "}
+                    {formatDuration(run.durationMs)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {selected ? (
+          <RunDetails run={selected} onClose={() => setSelected(null)} />
+        ) : null}
+        {comparison ? (
+          <RunComparison
+            base={comparison[0]}
+            next={comparison[1]}
+            onClose={() => setComparison(null)}
+          />
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default RunsPanel;
+
+const RunDetails = ({
+  run,
+  onClose,
+}: {
+  run: NotebookRun;
+  onClose: () => void;
+}) => (
+  <section className="space-y-2 rounded-md border border-border p-3 text-xs">
+    <div className="flex items-center justify-between">
+      <p className="font-medium text-foreground">
+        Run {formatTimestamp(run.startedAt)}
+      </p>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={onClose}
+        aria-label="Close run details"
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+    {run.error ? <p className="text-rose-600">{run.error}</p> : null}
+    {Object.keys(run.parameters).length > 0 ? (
+      <p className="font-mono text-muted-foreground">
+        {Object.entries(run.parameters)
+          .map(([name, value]) => `${name}=${JSON.stringify(value)}`)
+          .join(" ")}
+      </p>
+    ) : null}
+    <ul className="space-y-0.5">
+      {run.cells.map((cell) => (
+        <li key={cell.cellId} className="flex justify-between gap-2">
+          <span className={cell.status === "ok" ? "" : "text-rose-600"}>
+            Cell {cell.index + 1}: {cell.status}
+          </span>
+          <span className="text-muted-foreground">
+            {formatDuration(cell.durationMs)}
+          </span>
+        </li>
+      ))}
+    </ul>
+    {run.logs ? (
+      <pre className="max-h-48 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 font-mono text-[11px]">
+        {run.logs}
+      </pre>
+    ) : null}
+  </section>
+);
+
+const RunComparison = ({
+  base,
+  next,
+  onClose,
+}: {
+  base: NotebookRun;
+  next: NotebookRun;
+  onClose: () => void;
+}) => {
+  const cells = useMemo(() => diffRunOutputs(base, next), [base, next]);
+  const changed = cells.filter((cell) => cell.changed);
+
+  return (
+    <section className="space-y-2 rounded-md border border-border p-3 text-xs">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-foreground">
+          {formatTimestamp(base.startedAt)} → {formatTimestamp(next.startedAt)}
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={onClose}
+          aria-label="Close comparison"
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      {changed.length === 0 ? (
+        <p className="text-muted-foreground">Outputs are identical.</p>
+      ) : (
+        changed.map((cell) => (
+          <div key={cell.cellId} className="space-y-1">
+            <p className="text-muted-foreground">
+              {cell.index === null ? cell.cellId : `Cell ${cell.index + 1}`}
+            </p>
+            <pre className="overflow-auto rounded bg-muted p-2 font-mono text-[11px]">
+              {cell.lines.map((line, index) => (
+                <div
+                  key={index}
+                  className={clsx(
+                    line.type === "added" &&
+                      "bg-emerald-500/15 text-emerald-700 dark:text-emerald-300",
+                    line.type === "removed" &&
+                      "bg-rose-500/15 text-rose-700 dark:text-rose-300"
+                  )}
+                >
+                  {line.type === "added"
+                    ? "+ "
+                    : line.type === "removed"
+                      ? "- "
+                      : "  "}
+                  {line.text}
+                </div>
+              ))}
+            </pre>
+          </div>
+        ))
+      )}
+    </section>
+  );
+};
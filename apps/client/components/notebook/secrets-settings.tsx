@@ -0,0 +1,294 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  KeyRound,
+  Loader2,
+  Pencil,
+  Plus as PlusIcon,
+  Trash2,
+} from "lucide-react";
+import {
+  Badge,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+} from "@nodebooks/client-ui/components/ui";
+import {
+  SECRET_NAME_PATTERN,
+  type NotebookSecret,
+  type NotebookSecretScope,
+} from "@nodebooks/notebook-schema";
+import {
+  deleteNotebookSecret,
+  listNotebookSecrets,
+  saveNotebookSecret,
+} from "@/components/notebook/api";
+
+interface SecretsSettingsProps {
+  notebookId: string;
+  hasProject: boolean;
+  canEdit: boolean;
+}
+
+const SCOPE_LABELS: Record<NotebookSecretScope, string> = {
+  project: "Project",
+  notebook: "Notebook",
+  user: "Only me",
+};
+
+const selectClassName =
+  "mt-1 w-full appearance-none rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground shadow-sm focus-visible:outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/70 disabled:cursor-not-allowed disabled:opacity-50";
+
+const SecretsSettings = ({
+  notebookId,
+  hasProject,
+  canEdit,
+}: SecretsSettingsProps) => {
+  const [secrets, setSecrets] = useState<NotebookSecret[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [replacing, setReplacing] = useState<NotebookSecret | null>(null);
+  const [name, setName] = useState("");
+  const [value, setValue] = useState("");
+  const [scope, setScope] = useState<NotebookSecretScope>("notebook");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await listNotebookSecrets(notebookId);
+      setSecrets(result.secrets);
+      setEnabled(result.enabled);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load secrets");
+    } finally {
+      setLoading(false);
+    }
+  }, [notebookId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  // Viewers can still keep secrets of their own
+  const scopes: NotebookSecretScope[] = [
+    ...(canEdit ? (["notebook"] as const) : []),
+    ...(canEdit && hasProject ? (["project"] as const) : []),
+    "user",
+  ];
+
+  const openDialog = (secret?: NotebookSecret) => {
+    setReplacing(secret ?? null);
+    setName(secret?.name ?? "");
+    setScope(secret?.scope ?? scopes[0] ?? "user");
+    setValue("");
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    const trimmed = name.trim();
+    if (!SECRET_NAME_PATTERN.test(trimmed)) {
+      setFormError(
+        "Use letters, digits and underscores, not starting with a digit."
+      );
+      return;
+    }
+    try {
+      await saveNotebookSecret(notebookId, trimmed, value, scope);
+      setDialogOpen(false);
+      setValue("");
+      await refresh();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save");
+    }
+  };
+
+  const handleRemove = async (secret: NotebookSecret) => {
+    setError(null);
+    try {
+      await deleteNotebookSecret(notebookId, secret.name, secret.scope);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete secret");
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muted-foreground">
+        Secrets
+      </p>
+      <div className="mt-2 flex items-center justify-between">
+        <p className="text-[11px] text-muted-foreground">
+          Encrypted; exposed as{" "}
+          <span className="font-mono">process.env.NAME</span> and{" "}
+          <span className="font-mono">{"{{NAME}}"}</span>.
+        </p>
+        {enabled ? (
+          <Button
+            type="button"
+            variant="default"
+            size="sm"
+            className="flex items-center gap-1 px-3 text-[11px]"
+            onClick={() => openDialog()}
+          >
+            <PlusIcon className="h-3.5 w-3.5" /> Add Secret
+          </Button>
+        ) : null}
+      </div>
+      <div className="mt-2">
+        {!enabled ? (
+          <p className="text-xs text-muted-foreground">
+            Secrets are disabled. Set{" "}
+            <span className="font-mono">NODEBOOKS_SECRETS_KEY</span> on the
+            server to enable them.
+          </p>
+        ) : loading && secrets.length === 0 ? (
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" /> Loading secrets…
+          </p>
+        ) : secrets.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No secrets set.</p>
+        ) : (
+          <ul className="space-y-1">
+            {secrets.map((secret) => {
+              const editable = scopes.includes(secret.scope);
+              return (
+                <li
+                  key={secret.id}
+                  className="flex items-center gap-1 rounded-md border border-border px-2 py-1"
+                >
+                  <KeyRound className="h-3.5 w-3.5 text-muted-foreground" />
+                  <div
+                    className="flex-1 truncate font-mono text-[12px] text-muted-foreground"
+                    title={secret.name}
+                  >
+                    {secret.name}
+                  </div>
+                  <Badge variant="secondary" className="text-[10px]">
+                    {SCOPE_LABELS[secret.scope]}
+                  </Badge>
+                  {editable ? (
+                    <>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="text-muted-foreground hover:text-foreground"
+                        onClick={() => openDialog(secret)}
+                        aria-label={`Replace secret ${secret.name}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive/90"
+                        onClick={() => void handleRemove(secret)}
+                        aria-label={`Remove secret ${secret.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {error ? (
+          <p className="mt-1 text-xs text-destructive">{error}</p>
+        ) : null}
+      </div>
+      <Dialog
+        open={dialogOpen}
+        onOpenChange={(open) => (!open ? setDialogOpen(false) : undefined)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {replacing ? "Replace Secret" : "Add Secret"}
+            </DialogTitle>
+            <DialogDescription>
+              The value is encrypted on the server and cannot be read back.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="mt-1 space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void handleSubmit();
+            }}
+          >
+            <label className="block text-xs font-medium text-muted-foreground">
+              Name
+              <Input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="API_TOKEN"
+                className="mt-1 font-mono text-sm"
+                disabled={replacing !== null}
+              />
+            </label>
+            <label className="block text-xs font-medium text-muted-foreground">
+              Value
+              <Input
+                type="password"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                autoComplete="off"
+                className="mt-1 text-sm"
+              />
+            </label>
+            <label className="block text-xs font-medium text-muted-foreground">
+              Scope
+              <select
+                value={scope}
+                onChange={(e) =>
+                  setScope(e.target.value as NotebookSecretScope)
+                }
+                className={selectClassName}
+                disabled={replacing !== null}
+              >
+                {scopes.map((option) => (
+                  <option key={option} value={option}>
+                    {SCOPE_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {formError ? (
+              <p className="text-xs text-destructive">{formError}</p>
+            ) : null}
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" variant="default">
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SecretsSettings;
@@ -1,10 +1,12 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import {
   Badge,
   Button,
   Input,
+  Switch,
   Textarea,
   InputGroup,
   InputGroupInput,
@@ -17,7 +19,18 @@ import {
   Plus as PlusIcon,
   Loader2,
 } from "lucide-react";
-import type { Notebook, SqlConnection } from "@nodebooks/notebook-schema";
+import type {
+  Notebook,
+  NotebookParameter,
+  ProjectDefaults,
+  SqlConnection,
+} from "@nodebooks/notebook-schema";
+import { IDENTIFIER_PATTERN } from "@/components/notebook/runtime-globals";
+import SecretsSettings from "@/components/notebook/secrets-settings";
+import {
+  listNotebookDependencies,
+  type NotebookDependencyStatus,
+} from "@/components/notebook/api";
 import {
   Dialog,
   DialogContent,
@@ -29,13 +42,27 @@ import {
 import { Separator } from "@nodebooks/client-ui/components/ui";
 
 interface SetupPanelProps {
+  notebookId: string;
+  projectId?: string | null;
+  // Inherited values are listed read-only next to the notebook's own
+  projectDefaults?: ProjectDefaults | null;
   env: Notebook["env"];
   sql: Notebook["sql"];
   onRemoveDependency: (name: string) => Promise<void> | void;
   onAddDependencies: (raw: string) => Promise<void> | void;
   depBusy?: boolean;
-  onAddVariable: (name: string, value: string) => Promise<void> | void;
+  onAddVariable: (
+    name: string,
+    value: string,
+    sensitive: boolean
+  ) => Promise<void> | void;
   onRemoveVariable: (name: string) => Promise<void> | void;
+  parameters: NotebookParameter[];
+  onSaveParameter: (
+    parameter: NotebookParameter,
+    originalName?: string | null
+  ) => Promise<void> | void;
+  onRemoveParameter: (name: string) => Promise<void> | void;
   onAddSqlConnection: (input: {
     driver: SqlConnection["driver"];
     name: string;
@@ -51,6 +78,9 @@ interface SetupPanelProps {
 }
 
 const SetupPanel = ({
+  notebookId,
+  projectId,
+  projectDefaults,
   env,
   sql,
   onRemoveDependency,
@@ -58,6 +88,9 @@ const SetupPanel = ({
   depBusy = false,
   onAddVariable,
   onRemoveVariable,
+  parameters,
+  onSaveParameter,
+  onRemoveParameter,
   onAddSqlConnection,
   onUpdateSqlConnection,
   onRemoveSqlConnection,
@@ -70,6 +103,10 @@ const SetupPanel = ({
   const [editOriginalName, setEditOriginalName] = useState<string | null>(null);
   const [formName, setFormName] = useState("");
   const [formValue, setFormValue] = useState("");
+  const [formSensitive, setFormSensitive] = useState(false);
+  const [parameterModalOpen, setParameterModalOpen] = useState(false);
+  const [editingParameter, setEditingParameter] =
+    useState<NotebookParameter | null>(null);
   const [connectionModalOpen, setConnectionModalOpen] = useState(false);
   const [editingConnectionId, setEditingConnectionId] = useState<string | null>(
     null
@@ -79,24 +116,72 @@ const SetupPanel = ({
     useState<SqlConnection["driver"]>("postgres");
   const [connectionString, setConnectionString] = useState("");
   const [connectionError, setConnectionError] = useState<string | null>(null);
-  const dependencies = useMemo(
-    () =>
-      Object.entries(env.packages ?? {})
-        .filter(([name]) => name.trim().length > 0)
-        .map(([name, version]) => ({ name, version: String(version ?? "") })),
-    [env.packages]
-  );
-  const variables = useMemo(
-    () =>
-      Object.entries(env.variables ?? {})
-        .filter(([name]) => name.trim().length > 0)
-        .map(([name, value]) => ({ name, value: String(value ?? "") })),
-    [env.variables]
-  );
-  const connections = useMemo(
-    () => (sql.connections ?? []).map((conn) => conn),
-    [sql.connections]
-  );
+  const dependencies = useMemo(() => {
+    const own = Object.entries(env.packages ?? {})
+      .filter(([name]) => name.trim().length > 0)
+      .map(([name, version]) => ({
+        name,
+        version: String(version ?? ""),
+        inherited: false,
+      }));
+    const inherited = Object.entries(projectDefaults?.env.packages ?? {})
+      .filter(([name]) => !(name in (env.packages ?? {})))
+      .map(([name, version]) => ({ name, version, inherited: true }));
+    return [...inherited, ...own];
+  }, [env.packages, projectDefaults]);
+  const [dependencyStatus, setDependencyStatus] = useState<
+    Record<string, NotebookDependencyStatus>
+  >({});
+  useEffect(() => {
+    let cancelled = false;
+    listNotebookDependencies(notebookId)
+      .then((items) => {
+        if (!cancelled) {
+          setDependencyStatus(
+            Object.fromEntries(items.map((item) => [item.name, item]))
+          );
+        }
+      })
+      .catch(() => {
+        // Versions are informational; the list still works without them
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [notebookId, env.packages, env.lockfile]);
+  const variables = useMemo(() => {
+    const sensitive = new Set([
+      ...(env.sensitive ?? []),
+      ...(projectDefaults?.env.sensitive ?? []),
+    ]);
+    const own = Object.entries(env.variables ?? {})
+      .filter(([name]) => name.trim().length > 0)
+      .map(([name, value]) => ({
+        name,
+        value: String(value ?? ""),
+        sensitive: sensitive.has(name),
+        inherited: false,
+      }));
+    const inherited = Object.entries(projectDefaults?.env.variables ?? {})
+      .filter(([name]) => !(name in (env.variables ?? {})))
+      .map(([name, value]) => ({
+        name,
+        value,
+        sensitive: sensitive.has(name),
+        inherited: true,
+      }));
+    return [...inherited, ...own];
+  }, [env.variables, env.sensitive, projectDefaults]);
+  const connections = useMemo(() => {
+    const own = sql.connections ?? [];
+    const ids = new Set(own.map((conn) => conn.id));
+    return [
+      ...(projectDefaults?.sql.connections ?? [])
+        .filter((conn) => !ids.has(conn.id))
+        .map((conn) => ({ ...conn, inherited: true })),
+      ...own.map((conn) => ({ ...conn, inherited: false })),
+    ];
+  }, [sql.connections, projectDefaults]);
   const describeDriver = (driver: SqlConnection["driver"]) => {
     switch (driver) {
       case "postgres":
@@ -139,6 +224,18 @@ const SetupPanel = ({
   }, [canEdit, openConnectionModal, openConnectionTrigger]);
   return (
     <div className="flex h-full flex-col gap-2">
+      {projectId ? (
+        <p className="text-[11px] text-muted-foreground">
+          Items marked Project come from the{" "}
+          <Link
+            href={`/projects/${encodeURIComponent(projectId)}/settings`}
+            className="underline underline-offset-2 hover:text-foreground"
+          >
+            project defaults
+          </Link>
+          ; values set here override them.
+        </p>
+      ) : null}
       <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muted-foreground">
         Dependencies
       </p>
@@ -196,8 +293,12 @@ const SetupPanel = ({
                 key={d.name}
                 name={d.name}
                 version={d.version}
+                inherited={d.inherited}
+                status={dependencyStatus[d.name]}
                 onRemove={() => void onRemoveDependency(d.name)}
-                canEdit={canEdit}
+                onUpdate={() => void onAddDependencies(`${d.name}@latest`)}
+                canEdit={canEdit && !d.inherited}
+                busy={depBusy}
               />
             ))}
           </ul>
@@ -223,6 +324,7 @@ const SetupPanel = ({
                 setEditOriginalName(null);
                 setFormName("");
                 setFormValue("");
+                setFormSensitive(false);
                 setVarModalOpen(true);
               }}
             >
@@ -239,10 +341,14 @@ const SetupPanel = ({
                 <VariableRow
                   key={v.name}
                   name={v.name}
+                  sensitive={v.sensitive}
+                  inherited={v.inherited}
                   onEdit={() => {
-                    setEditOriginalName(v.name);
+                    // Saving an inherited variable overrides it here
+                    setEditOriginalName(v.inherited ? null : v.name);
                     setFormName(v.name);
                     setFormValue(v.value ?? "");
+                    setFormSensitive(v.sensitive);
                     setVarModalOpen(true);
                   }}
                   onRemove={() => void onRemoveVariable(v.name)}
@@ -254,6 +360,59 @@ const SetupPanel = ({
         </div>
       </div>
       <Separator className="my-2" />
+      <SecretsSettings
+        notebookId={notebookId}
+        hasProject={Boolean(projectId)}
+        canEdit={canEdit}
+      />
+      <Separator className="my-2" />
+      <div className="mt-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muted-foreground">
+          Parameters
+        </p>
+        <div className="mt-2 flex items-center justify-between">
+          <p className="text-[11px] text-muted-foreground">
+            Inputs for parameterized runs, set after the parameters cell.
+          </p>
+          {canEdit ? (
+            <Button
+              type="button"
+              variant="default"
+              size="sm"
+              className="flex items-center gap-1 px-3 text-[11px]"
+              onClick={() => {
+                setEditingParameter(null);
+                setParameterModalOpen(true);
+              }}
+            >
+              <PlusIcon className="h-3.5 w-3.5" /> Add Parameter
+            </Button>
+          ) : null}
+        </div>
+        <div className="mt-2">
+          {parameters.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              No parameters declared.
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {parameters.map((parameter) => (
+                <ParameterRow
+                  key={parameter.name}
+                  parameter={parameter}
+                  onEdit={() => {
+                    setEditingParameter(parameter);
+                    setParameterModalOpen(true);
+                  }}
+                  onRemove={() => void onRemoveParameter(parameter.name)}
+                  canEdit={canEdit}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+      <Separator className="my-2" />
       <div className="mt-2">
         <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muted-foreground">
           Database Connections
@@ -304,6 +463,11 @@ const SetupPanel = ({
                           >
                             {describeDriver(connection.driver)}
                           </Badge>
+                          {connection.inherited ? (
+                            <Badge variant="outline" className="text-[10px]">
+                              Project
+                            </Badge>
+                          ) : null}
                         </div>
                         <p className="text-xs text-muted-foreground">
                           Available to SQL cells via connection picker.
@@ -311,7 +475,7 @@ const SetupPanel = ({
                       </div>
                     </div>
                   </div>
-                  {canEdit ? (
+                  {canEdit && !connection.inherited ? (
                     <div className="flex items-center gap-2">
                       <Button
                         type="button"
@@ -348,15 +512,17 @@ const SetupPanel = ({
         title={editOriginalName ? "Edit Variable" : "Add Variable"}
         name={formName}
         value={formValue}
+        sensitive={formSensitive}
         onNameChange={setFormName}
         onValueChange={setFormValue}
+        onSensitiveChange={setFormSensitive}
         onCancel={() => setVarModalOpen(false)}
         onSubmit={async () => {
           if (!canEdit) {
             return;
           }
           const key = formName.trim();
-          await onAddVariable(key, formValue);
+          await onAddVariable(key, formValue, formSensitive);
           if (editOriginalName && editOriginalName !== key) {
             await onRemoveVariable(editOriginalName);
           }
@@ -364,6 +530,20 @@ const SetupPanel = ({
         }}
         readOnly={!canEdit}
       />
+      <ParameterDialog
+        open={parameterModalOpen}
+        parameter={editingParameter}
+        existingNames={parameters.map((parameter) => parameter.name)}
+        onCancel={() => setParameterModalOpen(false)}
+        onSubmit={async (parameter) => {
+          if (!canEdit) {
+            return;
+          }
+          await onSaveParameter(parameter, editingParameter?.name ?? null);
+          setParameterModalOpen(false);
+        }}
+        readOnly={!canEdit}
+      />
       <ConnectionDialog
         open={connectionModalOpen}
         mode={editingConnectionId ? "edit" : "create"}
@@ -418,24 +598,67 @@ const SetupPanel = ({
 interface DependencyRowProps {
   name: string;
   version?: string;
+  inherited?: boolean;
+  status?: NotebookDependencyStatus;
   onRemove: () => void;
+  onUpdate: () => void;
   canEdit: boolean;
+  busy?: boolean;
 }
 
 const DependencyRow = ({
   name,
   version,
+  inherited = false,
+  status,
   onRemove,
+  onUpdate,
   canEdit,
+  busy = false,
 }: DependencyRowProps) => {
+  const outdated = Boolean(
+    status?.locked && status.latest && status.latest !== status.locked
+  );
   return (
-    <li className="flex items-center gap-1 rounded-md border border-border px-2 py-1">
+    <li className="flex flex-wrap items-center gap-1 rounded-md border border-border px-2 py-1">
       <div className="flex-1 truncate text-sm text-foreground" title={name}>
         {name}
       </div>
+      {inherited ? (
+        <Badge variant="outline" className="text-[10px]">
+          Project
+        </Badge>
+      ) : null}
       <Badge variant="secondary" className="font-mono text-[11px]">
         {version || "latest"}
       </Badge>
+      {status?.locked ? (
+        <Badge
+          variant="outline"
+          className="font-mono text-[11px]"
+          title={
+            status.latest
+              ? `Locked to ${status.locked}, latest is ${status.latest}`
+              : `Locked to ${status.locked}`
+          }
+        >
+          {status.locked}
+          {outdated ? ` → ${status.latest}` : ""}
+        </Badge>
+      ) : null}
+      {outdated && canEdit ? (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-[11px]"
+          onClick={onUpdate}
+          disabled={busy}
+          aria-label={`Update ${name} to ${status?.latest}`}
+        >
+          Update
+        </Button>
+      ) : null}
       {canEdit ? (
         <Button
           type="button"
@@ -456,12 +679,21 @@ export default SetupPanel;
 
 interface VariableRowProps {
   name: string;
+  sensitive: boolean;
+  inherited?: boolean;
   onEdit: () => void;
   onRemove: () => void;
   canEdit: boolean;
 }
 
-const VariableRow = ({ name, onEdit, onRemove, canEdit }: VariableRowProps) => {
+const VariableRow = ({
+  name,
+  sensitive,
+  inherited = false,
+  onEdit,
+  onRemove,
+  canEdit,
+}: VariableRowProps) => {
   return (
     <li className="flex items-center gap-1 rounded-md border border-border px-2 py-1">
       <div className="flex-1 truncate text-sm text-foreground" title={name}>
@@ -469,6 +701,16 @@ const VariableRow = ({ name, onEdit, onRemove, canEdit }: VariableRowProps) => {
           {name}
         </span>
       </div>
+      {inherited ? (
+        <Badge variant="outline" className="text-[10px]">
+          Project
+        </Badge>
+      ) : null}
+      {sensitive ? (
+        <Badge variant="secondary" className="text-[10px]">
+          Sensitive
+        </Badge>
+      ) : null}
       {canEdit ? (
         <>
           <Button
@@ -477,20 +719,24 @@ const VariableRow = ({ name, onEdit, onRemove, canEdit }: VariableRowProps) => {
             size="icon"
             className="text-muted-foreground hover:text-foreground"
             onClick={onEdit}
-            aria-label={`Edit variable ${name}`}
+            aria-label={
+              inherited ? `Override variable ${name}` : `Edit variable ${name}`
+            }
           >
             <Pencil className="h-4 w-4" />
           </Button>
-          <Button
-            type="button"
-            variant="ghost"
-            size="icon"
-            className="text-destructive hover:text-destructive/90"
-            onClick={onRemove}
-            aria-label={`Remove variable ${name}`}
-          >
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          {inherited ? null : (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="text-destructive hover:text-destructive/90"
+              onClick={onRemove}
+              aria-label={`Remove variable ${name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
         </>
       ) : null}
     </li>
@@ -501,8 +747,10 @@ interface VariableDialogProps {
   title: string;
   name: string;
   value: string;
+  sensitive: boolean;
   onNameChange: (v: string) => void;
   onValueChange: (v: string) => void;
+  onSensitiveChange: (v: boolean) => void;
   onCancel: () => void;
   onSubmit: () => void | Promise<void>;
   open: boolean;
@@ -513,8 +761,10 @@ const VariableDialog = ({
   title,
   name,
   value,
+  sensitive,
   onNameChange,
   onValueChange,
+  onSensitiveChange,
   onCancel,
   onSubmit,
   open,
@@ -561,6 +811,269 @@ const VariableDialog = ({
               disabled={readOnly}
             />
           </label>
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-xs text-muted-foreground">
+              Sensitive: mask this value in outputs
+            </span>
+            <Switch
+              checked={sensitive}
+              onCheckedChange={onSensitiveChange}
+              srLabel="Sensitive"
+              disabled={readOnly}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="default" disabled={readOnly}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface ParameterRowProps {
+  parameter: NotebookParameter;
+  onEdit: () => void;
+  onRemove: () => void;
+  canEdit: boolean;
+}
+
+const ParameterRow = ({
+  parameter,
+  onEdit,
+  onRemove,
+  canEdit,
+}: ParameterRowProps) => {
+  const { name, type } = parameter;
+  return (
+    <li className="flex items-center gap-1 rounded-md border border-border px-2 py-1">
+      <div
+        className="flex-1 truncate text-sm text-foreground"
+        title={parameter.description ?? name}
+      >
+        <span className="font-mono text-[12px] text-muted-foreground">
+          {name}
+        </span>
+      </div>
+      <Badge variant="secondary" className="font-mono text-[11px]">
+        {type}
+      </Badge>
+      {canEdit ? (
+        <>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="text-muted-foreground hover:text-foreground"
+            onClick={onEdit}
+            aria-label={`Edit parameter ${name}`}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="text-destructive hover:text-destructive/90"
+            onClick={onRemove}
+            aria-label={`Remove parameter ${name}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </>
+      ) : null}
+    </li>
+  );
+};
+
+const PARAMETER_TYPES: NotebookParameter["type"][] = [
+  "string",
+  "number",
+  "boolean",
+  "json",
+];
+
+const formatParameterDefault = (parameter: NotebookParameter | null) => {
+  if (!parameter || parameter.default === undefined) {
+    return "";
+  }
+  return parameter.type === "json"
+    ? JSON.stringify(parameter.default)
+    : String(parameter.default);
+};
+
+// Reads the default field by type; throws a message suitable for the form
+const parseParameterDefault = (
+  type: NotebookParameter["type"],
+  raw: string
+): unknown => {
+  if (raw.trim() === "") {
+    return undefined;
+  }
+  switch (type) {
+    case "number": {
+      const value = Number(raw);
+      if (!Number.isFinite(value)) {
+        throw new Error("Default must be a number");
+      }
+      return value;
+    }
+    case "boolean":
+      if (raw !== "true" && raw !== "false") {
+        throw new Error("Default must be true or false");
+      }
+      return raw === "true";
+    case "json":
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new Error("Default must be valid JSON");
+      }
+    default:
+      return raw;
+  }
+};
+
+interface ParameterDialogProps {
+  open: boolean;
+  parameter: NotebookParameter | null;
+  existingNames: string[];
+  onCancel: () => void;
+  onSubmit: (parameter: NotebookParameter) => void | Promise<void>;
+  readOnly: boolean;
+}
+
+const ParameterDialog = ({
+  open,
+  parameter,
+  existingNames,
+  onCancel,
+  onSubmit,
+  readOnly,
+}: ParameterDialogProps) => {
+  const [name, setName] = useState("");
+  const [type, setType] = useState<NotebookParameter["type"]>("string");
+  const [defaultValue, setDefaultValue] = useState("");
+  const [description, setDescription] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setName(parameter?.name ?? "");
+      setType(parameter?.type ?? "string");
+      setDefaultValue(formatParameterDefault(parameter));
+      setDescription(parameter?.description ?? "");
+      setError(null);
+    }
+  }, [open, parameter]);
+
+  const handleSubmit = () => {
+    const trimmed = name.trim();
+    if (!IDENTIFIER_PATTERN.test(trimmed)) {
+      setError("Name must be a valid JavaScript identifier");
+      return;
+    }
+    if (trimmed !== parameter?.name && existingNames.includes(trimmed)) {
+      setError(`A parameter named ${trimmed} already exists`);
+      return;
+    }
+    let parsedDefault: unknown;
+    try {
+      parsedDefault = parseParameterDefault(type, defaultValue);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid default");
+      return;
+    }
+    void onSubmit({
+      name: trimmed,
+      type,
+      ...(parsedDefault !== undefined ? { default: parsedDefault } : {}),
+      ...(description.trim() ? { description: description.trim() } : {}),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(val) => (!val ? onCancel() : undefined)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {parameter ? "Edit Parameter" : "Add Parameter"}
+          </DialogTitle>
+          <DialogDescription>
+            Declared parameters can be overridden when the notebook runs
+            headlessly or from the run form.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="mt-1 space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSubmit();
+          }}
+        >
+          <label className="block text-xs font-medium text-muted-foreground">
+            Name
+            <Input
+              type="text"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              placeholder="startDate"
+              className="mt-1 font-mono text-sm"
+              disabled={readOnly}
+            />
+          </label>
+          <label className="block text-xs font-medium text-muted-foreground">
+            Type
+            <select
+              value={type}
+              onChange={(e) => {
+                setType(e.target.value as NotebookParameter["type"]);
+                setError(null);
+              }}
+              className="mt-1 flex h-9 w-full appearance-none rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground shadow-sm transition focus-visible:outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/70 focus-visible:ring-offset-0 disabled:cursor-not-allowed disabled:opacity-50"
+              disabled={readOnly}
+            >
+              {PARAMETER_TYPES.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-xs font-medium text-muted-foreground">
+            Default
+            <Input
+              type="text"
+              value={defaultValue}
+              onChange={(e) => {
+                setDefaultValue(e.target.value);
+                setError(null);
+              }}
+              placeholder={type === "json" ? '{"key": "value"}' : "optional"}
+              className="mt-1 text-sm"
+              disabled={readOnly}
+            />
+          </label>
+          <label className="block text-xs font-medium text-muted-foreground">
+            Description
+            <Input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Shown in the run form"
+              className="mt-1 text-sm"
+              disabled={readOnly}
+            />
+          </label>
+          {error ? <p className="text-xs text-rose-500">{error}</p> : null}
           <DialogFooter>
             <Button type="button" variant="outline" onClick={onCancel}>
               Cancel
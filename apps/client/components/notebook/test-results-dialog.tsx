@@ -0,0 +1,158 @@
+"use client";
+
+import {
+  Badge,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@nodebooks/client-ui/components/ui";
+import type {
+  NotebookTestCase,
+  NotebookTestReport,
+} from "@nodebooks/notebook-schema";
+
+interface TestResultsDialogProps {
+  open: boolean;
+  running?: boolean;
+  error?: string | null;
+  report?: NotebookTestReport | null;
+  onOpenChange(open: boolean): void;
+  onRun(): Promise<void> | void;
+  onSelectCell?(cellId: string): void;
+}
+
+const statusLabel: Record<NotebookTestCase["status"], string> = {
+  passed: "Passed",
+  failed: "Failed",
+  error: "Error",
+  skipped: "Skipped",
+};
+
+const statusVariant = (status: NotebookTestCase["status"]) =>
+  status === "passed"
+    ? "secondary"
+    : status === "skipped"
+      ? "outline"
+      : "destructive";
+
+const downloadReport = (report: NotebookTestReport) => {
+  const blob = new Blob([`${JSON.stringify(report, null, 2)}\n`], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${report.name || report.notebookId}-tests.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const TestResultsDialog = ({
+  open,
+  running,
+  error,
+  report,
+  onOpenChange,
+  onRun,
+  onSelectCell,
+}: TestResultsDialogProps) => {
+  const summary = report?.summary;
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Test results</DialogTitle>
+          <DialogDescription>
+            Runs a copy of this notebook in a fresh kernel and reports every
+            cell marked as a test.
+          </DialogDescription>
+        </DialogHeader>
+        {running ? (
+          <p className="text-sm text-muted-foreground">Running tests…</p>
+        ) : report && summary ? (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm">
+              <Badge
+                variant={
+                  report.status === "passed" ? "secondary" : "destructive"
+                }
+              >
+                {report.status === "passed" ? "Passed" : "Failed"}
+              </Badge>
+              <span className="text-muted-foreground">
+                {summary.passed} of {summary.total} passed
+                {summary.skipped > 0 ? `, ${summary.skipped} skipped` : ""}
+              </span>
+            </div>
+            {report.cases.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No test cells yet. Mark a code cell as a test in its settings.
+              </p>
+            ) : (
+              <ul className="max-h-80 space-y-1 overflow-y-auto">
+                {report.cases.map((entry) => (
+                  <li
+                    key={entry.cellId}
+                    className="rounded-md border border-border px-3 py-2"
+                  >
+                    <button
+                      type="button"
+                      className="flex w-full items-center gap-2 text-left text-sm"
+                      onClick={() => onSelectCell?.(entry.cellId)}
+                    >
+                      <Badge
+                        variant={statusVariant(entry.status)}
+                        className="shrink-0 text-[10px]"
+                      >
+                        {statusLabel[entry.status]}
+                      </Badge>
+                      <span className="flex-1 truncate">{entry.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {Math.round(entry.durationMs)}ms
+                      </span>
+                    </button>
+                    {entry.message && entry.status !== "passed" ? (
+                      <p className="mt-1 break-words font-mono text-xs text-rose-600">
+                        {entry.message}
+                      </p>
+                    ) : null}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : null}
+        {error ? <p className="text-sm text-rose-600">{error}</p> : null}
+        <DialogFooter>
+          {report ? (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => downloadReport(report)}
+              disabled={running}
+            >
+              Download JSON
+            </Button>
+          ) : null}
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => onOpenChange(false)}
+            disabled={running}
+          >
+            Close
+          </Button>
+          <Button type="button" onClick={() => void onRun()} disabled={running}>
+            {running ? "Running…" : "Run again"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TestResultsDialog;
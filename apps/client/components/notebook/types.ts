@@ -1,4 +1,5 @@
 import type {
+  NotebookRunSummary,
   NotebookTemplateId as SchemaNotebookTemplateId,
   Project,
   ProjectRole as SchemaProjectRole,
@@ -62,7 +63,11 @@ export interface NotebookCollaboratorSummary {
   user: SafeWorkspaceUser;
 }
 
-export type NotebookWithAccess = Notebook & { accessRole?: NotebookRole };
+export type NotebookWithAccess = Notebook & {
+  accessRole?: NotebookRole;
+  // Latest recorded run, included in notebook listings
+  lastRun?: NotebookRunSummary | null;
+};
 
 export interface ProjectCollaboratorSummary {
   id: string;
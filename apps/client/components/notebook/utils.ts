@@ -1,5 +1,6 @@
 import { isMarkdownCell, type Notebook } from "@/types/notebook";
 import type { OutlineItem } from "@/components/notebook/types";
+import type { CellLocation } from "@nodebooks/notebook-schema";
 
 export const formatTimestamp = (value: string) => {
   try {
@@ -67,3 +68,19 @@ export const buildOutlineItems = (notebook: Notebook | null | undefined) => {
   });
   return items;
 };
+
+export const REVEAL_CELL_LOCATION_EVENT = "nodebooks:reveal-cell-location";
+
+// Traceback links can point at any cell; its editor handles the event
+export const revealCellLocation = (location: CellLocation) => {
+  if (typeof window === "undefined") {
+    return;
+  }
+  const element = document.getElementById(`cell-${location.cellId}`);
+  element?.scrollIntoView({ behavior: "smooth", block: "center" });
+  window.dispatchEvent(
+    new CustomEvent<CellLocation>(REVEAL_CELL_LOCATION_EVENT, {
+      detail: location,
+    })
+  );
+};
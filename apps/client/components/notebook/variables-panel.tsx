@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import { ChevronRight, RefreshCw, Trash2 } from "lucide-react";
+import { Badge, Button } from "@nodebooks/client-ui/components/ui";
+import { DataSummary, JsonViewer } from "@nodebooks/ui";
+import type { KernelVariable } from "@nodebooks/notebook-schema";
+import { useTheme } from "@/components/theme-context";
+
+interface VariablesPanelProps {
+  variables: KernelVariable[];
+  // False until the kernel has answered at least once
+  loaded: boolean;
+  connected: boolean;
+  onRefresh: () => void;
+  onDelete: (name: string) => void;
+  canEdit: boolean;
+}
+
+const VariablesPanel = ({
+  variables,
+  loaded,
+  connected,
+  onRefresh,
+  onDelete,
+  canEdit,
+}: VariablesPanelProps) => {
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+
+  const toggle = (name: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex h-full flex-col gap-3 overflow-hidden">
+      <div className="flex shrink-0 items-center justify-between">
+        <p className="text-xs uppercase tracking-wide text-muted-foreground">
+          Kernel globals
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="text-muted-foreground hover:text-foreground"
+          onClick={onRefresh}
+          disabled={!connected}
+          aria-label="Refresh variables"
+        >
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+      {!connected ? (
+        <p className="text-xs text-muted-foreground">
+          Connect to the kernel to inspect variables.
+        </p>
+      ) : !loaded ? (
+        <p className="text-xs text-muted-foreground">Loading variables…</p>
+      ) : variables.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Run a code cell to see the variables it defines.
+        </p>
+      ) : (
+        <ul className="flex-1 space-y-1 overflow-y-auto pr-1">
+          {variables.map((variable) => (
+            <VariableRow
+              key={variable.name}
+              variable={variable}
+              open={expanded.has(variable.name)}
+              onToggle={() => toggle(variable.name)}
+              onDelete={() => onDelete(variable.name)}
+              canEdit={canEdit}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default VariablesPanel;
+
+interface VariableRowProps {
+  variable: KernelVariable;
+  open: boolean;
+  onToggle: () => void;
+  onDelete: () => void;
+  canEdit: boolean;
+}
+
+const VariableRow = ({
+  variable,
+  open,
+  onToggle,
+  onDelete,
+  canEdit,
+}: VariableRowProps) => {
+  const { theme } = useTheme();
+  const { name, valueType, shape, preview, summary } = variable;
+  const expandable = preview !== undefined || summary !== undefined;
+
+  return (
+    <li className="rounded-md border border-border">
+      <div className="flex items-center gap-1 px-2 py-1">
+        <button
+          type="button"
+          className="flex min-w-0 flex-1 items-center gap-1 text-left disabled:cursor-default"
+          onClick={onToggle}
+          disabled={!expandable}
+          aria-expanded={expandable ? open : undefined}
+        >
+          <ChevronRight
+            className={clsx(
+              "h-3.5 w-3.5 shrink-0 text-muted-foreground transition-transform",
+              open && "rotate-90",
+              !expandable && "invisible"
+            )}
+          />
+          <span
+            className="truncate font-mono text-[12px] text-foreground"
+            title={name}
+          >
+            {name}
+          </span>
+          {shape ? (
+            <span className="shrink-0 text-[11px] text-muted-foreground">
+              {shape}
+            </span>
+          ) : null}
+        </button>
+        <Badge
+          variant="secondary"
+          className="max-w-[7rem] truncate font-mono text-[11px]"
+          title={valueType}
+        >
+          {valueType}
+        </Badge>
+        {canEdit ? (
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="text-destructive hover:text-destructive/90"
+            onClick={onDelete}
+            aria-label={`Delete variable ${name}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        ) : null}
+      </div>
+      {open && expandable ? (
+        <div className="space-y-2 border-t border-border/60 px-2 py-2 text-xs">
+          {summary ? <DataSummary {...summary} /> : null}
+          {preview !== null && typeof preview === "object" ? (
+            summary ? null : (
+              <JsonViewer
+                json={preview}
+                collapsed={false}
+                maxDepth={2}
+                themeMode={theme}
+              />
+            )
+          ) : (
+            <pre className="whitespace-pre-wrap break-words font-mono text-[12px] text-foreground">
+              {typeof preview === "string" ? preview : JSON.stringify(preview)}
+            </pre>
+          )}
+        </div>
+      ) : null}
+    </li>
+  );
+};
@@ -0,0 +1,164 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@nodebooks/client-ui/components/ui";
+
+import { clientConfig } from "@nodebooks/config/client";
+const API_BASE_URL = clientConfig().apiBaseUrl;
+
+interface PackageStoreEntry {
+  hash: string;
+  packages: Record<string, string>;
+  lastUsedAt: string;
+  sizeBytes: number;
+  notebooks: number;
+}
+
+interface PackageStoreUsagePayload {
+  totalBytes: number;
+  entries: PackageStoreEntry[];
+}
+
+const formatBytes = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
+const PackageStoreUsage = () => {
+  const [usage, setUsage] = useState<PackageStoreUsagePayload | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [cleaning, setCleaning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`${API_BASE_URL}/settings/package-store`);
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+      const payload = (await response.json()) as {
+        data: PackageStoreUsagePayload;
+      };
+      setUsage(payload.data);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Unable to load package usage"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleCleanUp = useCallback(async () => {
+    setCleaning(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/settings/package-store/gc`,
+        {
+          method: "POST",
+        }
+      );
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+      const payload = (await response.json()) as {
+        data: { removed: PackageStoreEntry[]; freedBytes: number };
+      };
+      setMessage(
+        `Removed ${payload.data.removed.length} unused dependency set(s), freeing ${formatBytes(payload.data.freedBytes)}.`
+      );
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to clean up");
+    } finally {
+      setCleaning(false);
+    }
+  }, [refresh]);
+
+  const unused = usage?.entries.filter((entry) => entry.notebooks === 0) ?? [];
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold text-foreground">Package cache</h3>
+        <p className="text-sm text-muted-foreground">
+          Notebooks with the same dependencies share a single install.
+        </p>
+      </div>
+      {loading && !usage ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" /> Measuring disk usage…
+        </p>
+      ) : usage ? (
+        <div className="space-y-2">
+          <p className="text-sm text-foreground">
+            <span className="font-semibold">
+              {formatBytes(usage.totalBytes)}
+            </span>{" "}
+            in {usage.entries.length} dependency set(s)
+            {unused.length > 0 ? (
+              <span className="text-muted-foreground">
+                {" "}
+                · {unused.length} unused (
+                {formatBytes(
+                  unused.reduce((sum, entry) => sum + entry.sizeBytes, 0)
+                )}
+                )
+              </span>
+            ) : null}
+          </p>
+          {usage.entries.length > 0 ? (
+            <ul className="space-y-1">
+              {usage.entries.slice(0, 10).map((entry) => (
+                <li
+                  key={entry.hash}
+                  className="flex items-center justify-between gap-3 rounded-md border border-border px-3 py-1.5 text-xs"
+                >
+                  <span className="truncate font-mono text-muted-foreground">
+                    {Object.entries(entry.packages)
+                      .map(([name, version]) => `${name}@${version}`)
+                      .join(", ")}
+                  </span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {formatBytes(entry.sizeBytes)} · {entry.notebooks}{" "}
+                    notebook(s)
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+      {message ? (
+        <p className="text-xs text-muted-foreground">{message}</p>
+      ) : null}
+      {error ? <p className="text-xs text-destructive">{error}</p> : null}
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => void handleCleanUp()}
+        disabled={cleaning || loading || unused.length === 0}
+      >
+        {cleaning ? "Cleaning up…" : "Remove unused"}
+      </Button>
+    </div>
+  );
+};
+
+export default PackageStoreUsage;
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  findDependentCells,
+  getCellDependencies,
+  orderCellsByDependencies,
+} from "@/components/notebook/reactive";
+
+const codeCell = (id: string, defines: string[], reads: string[]) => ({
+  id,
+  type: "code",
+  metadata: { dependencies: { defines, reads } },
+});
+
+describe("reactive dependency graph", () => {
+  it("ignores cells without recorded dependencies", () => {
+    expect(
+      getCellDependencies({ id: "md", type: "markdown", metadata: {} })
+    ).toEqual({ defines: [], reads: [] });
+    expect(getCellDependencies({ id: "c", type: "code" })).toEqual({
+      defines: [],
+      reads: [],
+    });
+  });
+
+  it("finds direct and transitive dependents below a cell", () => {
+    const cells = [
+      codeCell("a", ["data"], []),
+      codeCell("b", ["total"], ["data"]),
+      codeCell("c", [], ["total"]),
+      codeCell("d", [], ["other"]),
+    ];
+    expect(findDependentCells(cells, "a", ["data"])).toEqual(["b", "c"]);
+    expect(findDependentCells(cells, "b", ["total"])).toEqual(["c"]);
+    expect(findDependentCells(cells, "c", [])).toEqual([]);
+  });
+
+  it("orders cells after the cells defining what they read", () => {
+    const cells = [
+      codeCell("report", [], ["total"]),
+      codeCell("sum", ["total"], ["rows"]),
+      codeCell("load", ["rows"], []),
+      { id: "http", type: "http", metadata: {} },
+    ];
+    expect(orderCellsByDependencies(cells)).toEqual([
+      "load",
+      "sum",
+      "report",
+      "http",
+    ]);
+  });
+
+  it("keeps notebook order when cells depend on each other", () => {
+    const cells = [codeCell("a", ["x"], ["y"]), codeCell("b", ["y"], ["x"])];
+    expect(orderCellsByDependencies(cells)).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { NotebookRun } from "@nodebooks/notebook-schema";
+import { diffLines, diffRunOutputs } from "@/components/notebook/run-diff";
+
+const run = (
+  id: string,
+  outputs: NotebookRun["outputs"],
+  cells: NotebookRun["cells"] = []
+): NotebookRun => ({
+  id,
+  notebookId: "nb",
+  trigger: "schedule",
+  status: "ok",
+  startedAt: "2026-01-01T00:00:00.000Z",
+  finishedAt: null,
+  durationMs: null,
+  parameters: {},
+  cells,
+  error: null,
+  outputs,
+  logs: "",
+});
+
+describe("run output diff", () => {
+  it("keeps common lines and marks the changes", () => {
+    expect(diffLines(["a", "b", "c"], ["a", "c", "d"])).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "same", text: "c" },
+      { type: "added", text: "d" },
+    ]);
+  });
+
+  it("compares runs cell by cell in notebook order", () => {
+    const cells = [
+      { cellId: "second", index: 1, status: "ok" as const, durationMs: 1 },
+      { cellId: "first", index: 0, status: "ok" as const, durationMs: 1 },
+    ];
+    const base = run(
+      "base",
+      {
+        first: [{ type: "stream", name: "stdout", text: "total: 1\n" }],
+        second: [{ type: "display_data", data: { "text/plain": "same" } }],
+      },
+      cells
+    );
+    const compare = run(
+      "compare",
+      {
+        first: [{ type: "stream", name: "stdout", text: "total: 2\n" }],
+        second: [{ type: "display_data", data: { "text/plain": "same" } }],
+      },
+      cells
+    );
+
+    const diff = diffRunOutputs(base, compare);
+    expect(diff.map((cell) => [cell.cellId, cell.changed])).toEqual([
+      ["first", true],
+      ["second", false],
+    ]);
+    expect(diff[0]?.lines).toEqual([
+      { type: "removed", text: "total: 1" },
+      { type: "added", text: "total: 2" },
+    ]);
+  });
+});
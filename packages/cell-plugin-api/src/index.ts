@@ -4,6 +4,8 @@ import type {
   NotebookCell,
   Notebook,
   NotebookFileCell,
+  KernelVariable,
+  ProjectDefaults,
 } from "@nodebooks/notebook-schema";
 import type { ComponentType } from "react";
 
@@ -113,6 +115,34 @@ export interface NotebookSession {
   status: "open" | "closed";
 }
 
+/**
+ * Resolves the decrypted secrets a user may use in a notebook, keyed by
+ * name. The server exposes it to backend routes as the
+ * `resolveNotebookSecrets` decoration of the Fastify instance. Secret values
+ * must never be sent back to the browser.
+ */
+export type NotebookSecretResolver = (
+  notebook: Notebook,
+  userId?: string | null
+) => Promise<Record<string, string>>;
+
+/**
+ * Returns the defaults of the project a notebook belongs to, or null for
+ * notebooks outside a project. Exposed as the `resolveProjectDefaults`
+ * decoration; backends merge them with `mergeProjectEnv` and
+ * `mergeProjectSql` from the notebook schema.
+ */
+export type ProjectDefaultsResolver = (
+  notebook: Notebook
+) => Promise<ProjectDefaults | null>;
+
+/**
+ * Returns the admin-configured redaction patterns as regular expression
+ * sources, exposed as the `getRedactionPatterns` decoration. Backends mask
+ * them, together with secrets and sensitive variables, in their responses.
+ */
+export type RedactionPatternsProvider = () => string[];
+
 /**
  * Frontend component exports for a cell type.
  */
@@ -260,6 +290,92 @@ export interface PluginMetadata {
  */
 export type PluginInitFunction = () => void | Promise<void>;
 
+/**
+ * Outcome of running code in the kernel on behalf of a magic.
+ */
+export interface MagicExecution {
+  status: "ok" | "error" | "aborted";
+  started: number;
+  ended: number;
+}
+
+/**
+ * Everything a magic can reach while it runs inside a code cell.
+ */
+export interface MagicContext {
+  /**
+   * Magic name without the leading `%` or `%%`.
+   */
+  name: string;
+
+  /**
+   * Text following the magic name on its line.
+   */
+  args: string;
+
+  /**
+   * Cell magics: the rest of the cell after the `%%` line. Empty for line magics.
+   */
+  body: string;
+
+  notebookId: string;
+  cellId: string;
+  language: "js" | "ts";
+
+  /**
+   * The notebook's sandbox directory, where packages are installed and
+   * relative paths in cells resolve.
+   */
+  workspaceDir: string;
+
+  /**
+   * Aborted when the user interrupts the cell.
+   */
+  signal: AbortSignal;
+
+  /**
+   * Run code in the notebook kernel. Its output streams into the cell, and
+   * error locations treat the code as starting on the magic's line (for
+   * cell magics, the line below it).
+   */
+  execute(code: string): Promise<MagicExecution>;
+
+  /**
+   * Globals currently defined in the kernel.
+   */
+  listVariables(): Promise<KernelVariable[]>;
+
+  /**
+   * Environment visible to the kernel (notebook variables plus `%env` overrides).
+   */
+  getEnv(): Record<string, string>;
+
+  /**
+   * Set or, without a value, clear an environment override for this session.
+   */
+  setEnv(name: string, value?: string): void;
+
+  stdout(text: string): void;
+  stderr(text: string): void;
+  display(data: Record<string, unknown>): void;
+
+  /**
+   * Replace the cell's source in the editor instead of running it.
+   */
+  setSource(source: string): void;
+}
+
+/**
+ * A `%name` line magic or `%%name` cell magic that plugins can contribute.
+ * Throwing from `run` reports the error in the cell and stops it.
+ */
+export interface MagicDefinition {
+  name: string;
+  kind: "line" | "cell";
+  description: string;
+  run(context: MagicContext): void | Promise<void>;
+}
+
 /**
  * Main plugin interface that all cell plugins must export.
  */
@@ -287,6 +403,11 @@ export interface CellPlugin {
    */
   cells: CellTypeDefinition[];
 
+  /**
+   * Optional magics available in code cells while the plugin is enabled.
+   */
+  magics?: MagicDefinition[];
+
   /**
    * Optional initialization function called once when the plugin is loaded.
    * Use this for one-time setup or side effects.
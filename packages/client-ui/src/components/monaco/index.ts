@@ -4,3 +4,4 @@ export * from "./monaco-models.js";
 export * from "./monaco-context-sync.js";
 export * from "./monaco-styles.js";
 export * from "./monaco-extra-libs.js";
+export * from "./monaco-kernel-providers.js";
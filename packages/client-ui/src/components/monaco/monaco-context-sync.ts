@@ -1,6 +1,11 @@
 "use client";
 
-import type { NotebookCell, CodeCell } from "@nodebooks/notebook-schema";
+import {
+  scanTopLevelDeclarations,
+  type CodeCell,
+  type NotebookCell,
+  type TopLevelDeclaration,
+} from "@nodebooks/notebook-schema";
 import { getMonaco } from "./monaco-setup.js";
 import { ensureCellModel, cellUri } from "./monaco-models.js";
 import {
@@ -13,44 +18,89 @@ function isCodeCell(cell: NotebookCell): cell is CodeCell {
   return cell.type === "code";
 }
 
-// Very lightweight top-level decl extraction using regex
-// This is conservative and treats names as any.
-export function buildGlobalsDts(cells: CodeCell[]): string {
-  const decls: string[] = ["// Generated by NodeBooks: notebook globals"];
-
-  for (const cell of cells) {
-    const src = cell.source ?? "";
-    // function foo() {...}
-    const fnRe = /\bfunction\s+([A-Za-z_$][\w$]*)\s*\(/g;
-    // class Foo {...}
-    const classRe = /\bclass\s+([A-Za-z_$][\w$]*)\b/g;
-    // const/let/var name = ... ; capture multiple via comma split
-    const varRe = /\b(?:const|let|var)\s+([^;\n]+)[;\n]/g;
+const IDENTIFIER_RE = /^[A-Za-z_$][\w$]*$/;
+
+// Best guess at the type of an unannotated initializer; anything we cannot
+// read at a glance stays `any`.
+const inferInitializerType = (
+  initializer: string,
+  known: Map<string, string>
+) => {
+  const value = initializer.trim();
+  if (/^-?\d[\d_]*(?:\.\d+)?(?:e-?\d+)?$/i.test(value)) return "number";
+  if (/^(?:"[^"\n]*"|'[^'\n]*'|`[^`$]*`)$/.test(value)) return "string";
+  if (value === "true" || value === "false") return "boolean";
+  if (IDENTIFIER_RE.test(value) && known.has(value)) return known.get(value)!;
+  const constructed = /^new\s+([A-Za-z_$][\w$.]*)\s*(?:<[^>]*>)?\s*\(/.exec(
+    value
+  );
+  if (constructed) return constructed[1]!;
+  if (value.startsWith("[")) return "any[]";
+  return "any";
+};
 
-    let m: RegExpExecArray | null;
-    while ((m = fnRe.exec(src))) {
-      decls.push(`declare function ${m[1]}(...args: any[]): any;`);
+// Known value types by name, so `const b = a` keeps the type `a` had then
+const describeDeclaration = (
+  declaration: TopLevelDeclaration,
+  known: Map<string, string>
+) => {
+  switch (declaration.kind) {
+    case "type":
+      return declaration.text ?? "";
+    case "class": {
+      const heritage = declaration.heritage ? ` ${declaration.heritage}` : "";
+      known.set(declaration.name, `typeof ${declaration.name}`);
+      return `declare class ${declaration.name}${heritage} { [k: string]: any }`;
     }
-    while ((m = classRe.exec(src))) {
-      decls.push(`declare class ${m[1]} { [k: string]: any }`);
+    case "function": {
+      const signature = declaration.signature ?? "(...args: any[])";
+      // Without a return annotation the signature ends at its parameters
+      const returns = !signature.endsWith(")")
+        ? ""
+        : declaration.async && !declaration.generator
+          ? ": Promise<any>"
+          : ": any";
+      known.set(declaration.name, `typeof ${declaration.name}`);
+      return `declare function ${declaration.name}${signature}${returns};`;
     }
-    while ((m = varRe.exec(src))) {
-      const names = (m[1] ?? "")
-        .split(",")
-        .map((s) => s.trim())
-        .map((s) => s.replace(/=.*/, ""))
-        .map((s) => s.replace(/\{.*\}/, ""))
-        .map((s) => s.replace(/\[.*\]/, ""))
-        .map((s) => s.trim())
-        .filter(Boolean);
-      for (const name of names) {
-        const ident = name.match(/^[A-Za-z_$][\w$]*/)?.[0];
-        if (ident) decls.push(`declare var ${ident}: any;`);
-      }
+    case "variable": {
+      // `(a: number) => void` annotations are cut at the arrow by the scan
+      const annotated =
+        declaration.typeAnnotation && !declaration.initializer?.startsWith(">")
+          ? declaration.typeAnnotation
+          : undefined;
+      const type =
+        annotated ?? inferInitializerType(declaration.initializer ?? "", known);
+      known.set(declaration.name, type);
+      return `declare var ${declaration.name}: ${type};`;
+    }
+  }
+};
+
+// Ambient declarations for what earlier cells put in the shared kernel
+// context, using the same top-level scan the runtime relies on. Later cells
+// win when a name is declared more than once.
+export function buildGlobalsDts(cells: CodeCell[]): string {
+  const values = new Map<string, string>();
+  const types = new Map<string, string>();
+  const known = new Map<string, string>();
+
+  for (const cell of cells) {
+    for (const declaration of scanTopLevelDeclarations(cell.source ?? "")) {
+      const target = declaration.kind === "type" ? types : values;
+      const text = describeDeclaration(declaration, known);
+      if (!text) continue;
+      // Re-insert so the latest definition keeps notebook order
+      target.delete(declaration.name);
+      target.set(declaration.name, text);
     }
   }
 
-  return decls.join("\n");
+  return [
+    "// Generated by NodeBooks: notebook globals",
+    ...types.values(),
+    ...values.values(),
+  ].join("\n");
 }
 
 // Collect bare module specifiers (no ./ or ../)
@@ -0,0 +1,128 @@
+"use client";
+
+import type * as MonacoEditor from "monaco-editor";
+import type {
+  KernelCompleteReply,
+  KernelCompletionMatch,
+  KernelInspectReply,
+} from "@nodebooks/notebook-schema";
+
+type MonacoT = typeof MonacoEditor;
+
+export type KernelCompletions = Omit<KernelCompleteReply, "type" | "requestId">;
+export type KernelInspection = Omit<KernelInspectReply, "type" | "requestId">;
+
+// Bridge to the live kernel of the notebook currently open. Offsets are
+// positions in the code of the cell being edited.
+export interface KernelIntrospection {
+  complete(code: string, cursorPos: number): Promise<KernelCompletions | null>;
+  inspect(code: string, cursorPos: number): Promise<KernelInspection | null>;
+}
+
+let introspection: KernelIntrospection | null = null;
+let registered = false;
+
+export function setKernelIntrospection(next: KernelIntrospection | null) {
+  introspection = next;
+}
+
+const completionKind = (
+  monaco: MonacoT,
+  kind: KernelCompletionMatch["kind"]
+) => {
+  const kinds = monaco.languages.CompletionItemKind;
+  switch (kind) {
+    case "function":
+      return kinds.Function;
+    case "method":
+      return kinds.Method;
+    case "class":
+      return kinds.Class;
+    case "property":
+      return kinds.Property;
+    default:
+      return kinds.Variable;
+  }
+};
+
+// Fence longer than any backtick run in the text so previews render verbatim
+const codeBlock = (text: string, language = "") => {
+  const longest = Math.max(
+    2,
+    ...Array.from(text.matchAll(/`+/g), (match) => match[0].length)
+  );
+  const fence = "`".repeat(longest + 1);
+  return `${fence}${language}\n${text}\n${fence}`;
+};
+
+export function registerKernelProviders(monaco: MonacoT) {
+  if (registered) return;
+  registered = true;
+
+  for (const language of ["typescript", "javascript"]) {
+    monaco.languages.registerCompletionItemProvider(language, {
+      triggerCharacters: ["."],
+      provideCompletionItems: async (model, position, _context, token) => {
+        const bridge = introspection;
+        if (!bridge) return { suggestions: [] };
+        const reply = await bridge
+          .complete(model.getValue(), model.getOffsetAt(position))
+          .catch(() => null);
+        if (!reply || token.isCancellationRequested) {
+          return { suggestions: [] };
+        }
+        const start = model.getPositionAt(reply.cursorStart);
+        const end = model.getPositionAt(reply.cursorEnd);
+        const range = new monaco.Range(
+          start.lineNumber,
+          start.column,
+          end.lineNumber,
+          end.column
+        );
+        return {
+          suggestions: reply.matches.map((match) => ({
+            label: match.label,
+            kind: completionKind(monaco, match.kind),
+            detail: match.detail ? `${match.detail} (kernel)` : "(kernel)",
+            insertText: match.label,
+            range,
+          })),
+        };
+      },
+    });
+
+    monaco.languages.registerHoverProvider(language, {
+      provideHover: async (model, position, token) => {
+        const bridge = introspection;
+        const word = model.getWordAtPosition(position);
+        if (!bridge || !word) return null;
+        const reply = await bridge
+          .inspect(model.getValue(), model.getOffsetAt(position))
+          .catch(() => null);
+        if (!reply?.found || token.isCancellationRequested) {
+          return null;
+        }
+        const contents = [
+          {
+            value: codeBlock(
+              `${reply.name ?? word.word}: ${reply.valueType ?? "unknown"}`,
+              "ts"
+            ),
+          },
+        ];
+        if (reply.preview) {
+          contents.push({ value: codeBlock(reply.preview) });
+        }
+        return {
+          range: new monaco.Range(
+            position.lineNumber,
+            word.startColumn,
+            position.lineNumber,
+            word.endColumn
+          ),
+          contents,
+        };
+      },
+    });
+  }
+}
@@ -6,6 +6,7 @@ type MonacoT = typeof MonacoEditor;
 type TSCompilerOptions = MonacoEditor.typescript.CompilerOptions;
 type TSDiagnosticsOptions = MonacoEditor.typescript.DiagnosticsOptions;
 import { ensureNodebooksUiTypes } from "./monaco-extra-libs.js";
+import { registerKernelProviders } from "./monaco-kernel-providers.js";
 
 let initialized = false;
 let monacoRef: MonacoT | null = null;
@@ -101,6 +102,9 @@ export function initMonaco(monaco: MonacoT) {
     types: ["node"],
     jsx: monaco.typescript.JsxEmit.None,
     useDefineForClassFields: false,
+    // Treat every cell as a module so its declarations stay local; what
+    // earlier cells define reaches it through the generated globals.d.ts
+    moduleDetection: 3, // ts.ModuleDetectionKind.Force
   };
 
   monaco.typescript.typescriptDefaults.setCompilerOptions(commonCompiler);
@@ -111,6 +115,17 @@ export function initMonaco(monaco: MonacoT) {
     "declare const console: any;",
     "nb:///env/console.d.ts"
   );
+  // Kernel prompt() is async and accepts { password }; overloads the DOM one
+  const promptDecl =
+    "declare function prompt(message?: string, options?: { password?: boolean }): Promise<string | null>;";
+  monaco.typescript.typescriptDefaults.addExtraLib(
+    promptDecl,
+    "nb:///env/prompt.d.ts"
+  );
+  monaco.typescript.javascriptDefaults.addExtraLib(
+    promptDecl,
+    "nb:///env/prompt.d.ts"
+  );
   // Wildcard module shim to suppress missing-module squiggles; specific libs override this
   const wildcard =
     'declare module "*" { const x: any; export = x; export default x; }';
@@ -128,6 +143,9 @@ export function initMonaco(monaco: MonacoT) {
   // Provide local types for the virtual UI helper package used in code cells
   ensureNodebooksUiTypes();
 
+  // Completions and hovers backed by the live kernel context
+  registerKernelProviders(monaco);
+
   initialized = true;
   try {
     if (typeof window !== "undefined") {
@@ -1,20 +1,66 @@
 "use client";
 
-import { useMemo } from "react";
-import type { NotebookOutput } from "@nodebooks/notebook-schema";
-import { UiDisplaySchema, NODEBOOKS_UI_MIME } from "@nodebooks/notebook-schema";
+import { Fragment, useMemo, type ReactNode } from "react";
+import type { CellLocation, NotebookOutput } from "@nodebooks/notebook-schema";
+import {
+  UiDisplaySchema,
+  NODEBOOKS_UI_MIME,
+  findCellLocations,
+} from "@nodebooks/notebook-schema";
 import { UiRenderer } from "@nodebooks/ui";
 import type { UiDisplay, UiJson } from "@nodebooks/notebook-schema";
 import type { UiInteractionEvent } from "@nodebooks/ui";
 import AnsiToHtml from "ansi-to-html";
 import { sanitizeHtmlSnippet } from "../../lib/sanitize.js";
 
+// Frames pointing into the notebook's cells become links when a handler is
+// given
+const TracebackLine = ({
+  line,
+  cellIds,
+  onLocationClick,
+}: {
+  line: string;
+  cellIds?: ReadonlySet<string>;
+  onLocationClick?: (location: CellLocation) => void;
+}) => {
+  const locations =
+    onLocationClick && cellIds ? findCellLocations(line, cellIds) : [];
+  if (locations.length === 0) {
+    return <>{line}</>;
+  }
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  for (const { start, end, ...location } of locations) {
+    parts.push(line.slice(cursor, start));
+    parts.push(
+      <button
+        key={start}
+        type="button"
+        className="cursor-pointer underline decoration-dotted underline-offset-2 hover:text-rose-900"
+        onClick={() => onLocationClick?.(location)}
+        title={`Go to line ${location.line}, column ${location.column}`}
+      >
+        {line.slice(start, end)}
+      </button>
+    );
+    cursor = end;
+  }
+  parts.push(line.slice(cursor));
+  return <>{parts}</>;
+};
+
 const OutputView = ({
   output,
   onInteraction,
+  cellIds,
+  onLocationClick,
 }: {
   output: NotebookOutput;
   onInteraction?: (event: UiInteractionEvent) => Promise<void> | void;
+  // Ids of the notebook's cells, for linking traceback frames
+  cellIds?: ReadonlySet<string>;
+  onLocationClick?: (location: CellLocation) => void;
 }) => {
   const ansiConverter = useMemo(
     () =>
@@ -81,7 +127,16 @@ const OutputView = ({
         <strong>{output.ename}:</strong> {output.evalue}
         {output.traceback.length > 0 && (
           <pre className="mt-2 whitespace-pre-wrap text-xs">
-            {output.traceback.join("\n")}
+            {output.traceback.map((line, index) => (
+              <Fragment key={index}>
+                {index > 0 ? "\n" : null}
+                <TracebackLine
+                  line={line}
+                  cellIds={cellIds}
+                  onLocationClick={onLocationClick}
+                />
+              </Fragment>
+            ))}
           </pre>
         )}
       </div>
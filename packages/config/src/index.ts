@@ -3,6 +3,7 @@ import type {
   AiConfig,
   ClientConfig,
   GlobalSettings,
+  KernelMode,
   PersistenceDriver,
   RuntimeConfig,
   ServerConfig,
@@ -28,10 +29,16 @@ const num = (v: string | undefined): number | undefined => {
 
 const persistenceSchema = z.object({
   driver: z
-    .union([z.literal("sqlite"), z.literal("postgres"), z.literal("memory")])
+    .union([
+      z.literal("sqlite"),
+      z.literal("postgres"),
+      z.literal("memory"),
+      z.literal("filesystem"),
+    ])
     .default("sqlite") as z.ZodType<PersistenceDriver>,
   sqlitePath: z.string().optional(),
   databaseUrl: z.string().optional(),
+  notebooksDir: z.string().optional(),
 });
 
 const getRuntimeOverrides = (): Partial<GlobalSettings> => {
@@ -57,6 +64,15 @@ const sanitizeKernelTimeout = (value: unknown): number | undefined => {
   return clamped;
 };
 
+const sanitizePatterns = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value.filter(
+    (item): item is string => typeof item === "string" && item.length > 0
+  );
+};
+
 const isThemeMode = (value: unknown): value is "light" | "dark" => {
   return value === "light" || value === "dark";
 };
@@ -85,6 +101,7 @@ export function loadServerConfig(
     driver,
     sqlitePath: resolvedEnv.NODEBOOKS_SQLITE_PATH ?? ".data/nodebooks.sqlite", // let store provide its internal default
     databaseUrl: resolvedEnv.DATABASE_URL,
+    notebooksDir: resolvedEnv.NODEBOOKS_NOTEBOOKS_DIR ?? ".data/notebooks",
   });
 
   const runtimeOverrides = {
@@ -106,6 +123,18 @@ export function loadServerConfig(
     num(resolvedEnv.NODEBOOKS_KERNEL_TIMEOUT_MS) ??
     10_000;
   const kernelWsHeartbeatMs = num(resolvedEnv.NODEBOOKS_KERNEL_WS_HEARTBEAT_MS);
+  const kernelMode: KernelMode =
+    resolvedEnv.NODEBOOKS_KERNEL_MODE?.toLowerCase().trim() === "sticky"
+      ? "sticky"
+      : "snapshot";
+  const kernelMaxProcesses = Math.max(
+    1,
+    num(resolvedEnv.NODEBOOKS_KERNEL_MAX_PROCESSES) ?? 8
+  );
+  const kernelIdleTimeoutMs = Math.max(
+    10_000,
+    num(resolvedEnv.NODEBOOKS_KERNEL_IDLE_TIMEOUT_MS) ?? 30 * 60_000
+  );
 
   const runtimeAi = runtimeOverrides.ai ?? {};
   const runtimeAiEnabled =
@@ -171,8 +200,14 @@ export function loadServerConfig(
     theme,
     kernelTimeoutMs,
     kernelWsHeartbeatMs,
+    kernelMode,
+    kernelMaxProcesses,
+    kernelIdleTimeoutMs,
     persistence,
     ai,
+    secretsKey: sanitizeString(resolvedEnv.NODEBOOKS_SECRETS_KEY),
+    redactionPatterns:
+      sanitizePatterns(runtimeOverrides.redactionPatterns) ?? [],
   } satisfies ServerConfig;
 }
 
@@ -212,5 +247,6 @@ export type {
   ClientConfig,
   RuntimeConfig,
   PersistenceDriver,
+  KernelMode,
   GlobalSettings,
 };
@@ -1,7 +1,11 @@
-export type PersistenceDriver = "sqlite" | "postgres" | "memory";
+export type PersistenceDriver = "sqlite" | "postgres" | "memory" | "filesystem";
 
 export type ThemeMode = "light" | "dark";
 
+// "snapshot" replays JSON-cloned globals into each run; "sticky" keeps a
+// dedicated worker per session so live objects survive between cells.
+export type KernelMode = "snapshot" | "sticky";
+
 export type AiProvider = "openai" | "heroku";
 
 export interface OpenAiConfig {
@@ -32,12 +36,21 @@ export interface ServerConfig {
   theme: "light" | "dark";
   kernelTimeoutMs: number;
   kernelWsHeartbeatMs?: number;
+  kernelMode: KernelMode;
+  kernelMaxProcesses: number;
+  kernelIdleTimeoutMs: number;
   persistence: {
     driver: PersistenceDriver;
     sqlitePath?: string;
     databaseUrl?: string;
+    // Directory of `.nb.yml` files used by the filesystem driver
+    notebooksDir?: string;
   };
   ai: AiConfig;
+  // Encrypts notebook secrets at rest; see NODEBOOKS_SECRETS_KEY
+  secretsKey?: string;
+  // Regular expressions masked in notebook outputs, e.g. API key shapes
+  redactionPatterns: string[];
 }
 
 export interface GlobalSettings {
@@ -45,6 +58,7 @@ export interface GlobalSettings {
   kernelTimeoutMs?: number;
   aiEnabled?: boolean;
   ai?: Partial<AiConfig>;
+  redactionPatterns?: string[];
   [key: string]: unknown;
 }
 
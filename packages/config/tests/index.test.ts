@@ -56,6 +56,22 @@ describe("@nodebooks/config – loadServerConfig", () => {
     expect(cfg.kernelWsHeartbeatMs).toBe(30_000);
   });
 
+  it("reads kernel process mode and limits", () => {
+    const defaults = loadServerConfig({} as NodeJS.ProcessEnv);
+    expect(defaults.kernelMode).toBe("snapshot");
+    expect(defaults.kernelMaxProcesses).toBe(8);
+    expect(defaults.kernelIdleTimeoutMs).toBe(1_800_000);
+
+    const cfg = loadServerConfig({
+      NODEBOOKS_KERNEL_MODE: "sticky",
+      NODEBOOKS_KERNEL_MAX_PROCESSES: "3",
+      NODEBOOKS_KERNEL_IDLE_TIMEOUT_MS: "60000",
+    } as NodeJS.ProcessEnv);
+    expect(cfg.kernelMode).toBe("sticky");
+    expect(cfg.kernelMaxProcesses).toBe(3);
+    expect(cfg.kernelIdleTimeoutMs).toBe(60_000);
+  });
+
   it("parses persistence options", () => {
     const cfg = loadServerConfig({
       NODEBOOKS_PERSISTENCE: "postgres",
@@ -68,6 +84,15 @@ describe("@nodebooks/config – loadServerConfig", () => {
     expect(cfg.persistence.sqlitePath).toBe("/tmp/file.sqlite");
   });
 
+  it("reads the notebooks directory for the filesystem driver", () => {
+    const cfg = loadServerConfig({
+      NODEBOOKS_PERSISTENCE: "filesystem",
+      NODEBOOKS_NOTEBOOKS_DIR: "notebooks",
+    } as NodeJS.ProcessEnv);
+    expect(cfg.persistence.driver).toBe("filesystem");
+    expect(cfg.persistence.notebooksDir).toBe("notebooks");
+  });
+
   it("prefers runtime overrides over environment variables", () => {
     runtime.__NODEBOOKS_SETTINGS__ = {
       theme: "dark",
@@ -5,6 +5,12 @@ import type {
   SessionManager,
 } from "@nodebooks/cell-plugin-api";
 import { registerHttpRoutes } from "./backend/router.js";
+export {
+  getHttpResponseGlobals,
+  HttpCellError,
+  runHttpCell,
+  type HttpCellRunOptions,
+} from "./backend/execute.js";
 
 /**
  * Backend route registration for http-cell plugin.
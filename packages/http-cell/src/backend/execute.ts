@@ -0,0 +1,518 @@
+import { isIP } from "node:net";
+import {
+  redactValue,
+  type Notebook,
+  type Redactor,
+} from "@nodebooks/notebook-schema";
+import {
+  HttpResponseSchema,
+  type HttpHeader,
+  type HttpMethod,
+  type HttpRequest,
+  type HttpResponse,
+} from "../schema.js";
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Z0-9_]+)\s*\}\}/gi;
+
+const substituteVariables = (
+  value: string,
+  variables: Record<string, string>
+) => {
+  if (!value) {
+    return "";
+  }
+  return value.replace(VARIABLE_PATTERN, (_, key: string) => {
+    const exact = variables[key] ?? variables[key.toUpperCase()] ?? "";
+    return exact;
+  });
+};
+
+const isPrivateIp = (hostname: string) => {
+  const ipType = isIP(hostname);
+  if (ipType === 0) {
+    return false;
+  }
+  if (hostname === "::1") {
+    return true;
+  }
+  if (ipType === 6) {
+    // IPv6 private range: fc00::/7, fe80::/10, ::1 already handled
+    const normalized = hostname.toLowerCase();
+    return (
+      normalized.startsWith("fc") ||
+      normalized.startsWith("fd") ||
+      normalized.startsWith("fe8") ||
+      normalized.startsWith("fe9") ||
+      normalized.startsWith("fea") ||
+      normalized.startsWith("feb")
+    );
+  }
+  const parts = hostname
+    .split(".")
+    .map((segment) => Number.parseInt(segment, 10));
+  if (parts.length !== 4 || parts.some((part) => Number.isNaN(part))) {
+    return false;
+  }
+  if (parts[0] === 10) return true;
+  if (parts[0] === 127) return true;
+  if (parts[0] === 0) return true;
+  if (parts[0] === 192 && parts[1] === 168) return true;
+  if (parts[0] === 172 && parts[1] >= 16 && parts[1] <= 31) return true;
+  if (parts[0] === 169 && parts[1] === 254) return true;
+  return false;
+};
+
+const isBlockedUrl = (target: URL) => {
+  if (!target.protocol || !["http:", "https:"].includes(target.protocol)) {
+    return true;
+  }
+  const hostname = target.hostname.toLowerCase();
+  if (
+    hostname === "localhost" ||
+    hostname === "127.0.0.1" ||
+    hostname === "0.0.0.0" ||
+    hostname === "::" ||
+    hostname === "::1"
+  ) {
+    return true;
+  }
+  if (isPrivateIp(hostname)) {
+    return true;
+  }
+  return false;
+};
+
+const escapeShellArg = (value: string) => {
+  return value.replace(/'/g, "'\\''");
+};
+
+const createHeaderId = () => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `hdr_${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const buildCurlCommand = (
+  method: HttpMethod,
+  url: string,
+  headers: HttpHeader[],
+  body: string | undefined
+) => {
+  const parts: string[] = [];
+  parts.push(`curl -X ${method.toUpperCase()}`);
+  headers.forEach((header) => {
+    if (!header.enabled) return;
+    const name = header.name.trim();
+    if (!name) return;
+    const value = header.value ?? "";
+    parts.push(`-H '${escapeShellArg(`${name}: ${value}`)}'`);
+  });
+  if (body && body.length > 0) {
+    parts.push(`--data '${escapeShellArg(body)}'`);
+  }
+  parts.push(`'${escapeShellArg(url)}'`);
+  return parts.join(" ");
+};
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+const normalizeRequest = (
+  request: HttpRequest,
+  variables: Record<string, string>
+): {
+  method: HttpMethod;
+  url: URL;
+  headers: HttpHeader[];
+  bodyText?: string;
+  curl: string;
+} => {
+  const enabledHeaders = (request.headers ?? []).filter(
+    (header) => header.enabled
+  );
+  const headers: HttpHeader[] = enabledHeaders
+    .map((header) => ({
+      ...header,
+      name: substituteVariables(header.name ?? "", variables),
+      value: substituteVariables(header.value ?? "", variables),
+    }))
+    .filter((header) => header.name.trim().length > 0);
+
+  const enabledQuery = (request.query ?? []).filter((param) => param.enabled);
+  const baseUrl = substituteVariables(request.url ?? "", variables);
+  const queryPairs = enabledQuery
+    .map((param) => ({
+      name: substituteVariables(param.name ?? "", variables),
+      value: substituteVariables(param.value ?? "", variables),
+    }))
+    .filter((param) => param.name.trim().length > 0);
+
+  let finalUrl: URL;
+  try {
+    finalUrl = new URL(baseUrl);
+  } catch {
+    throw new Error("Invalid request URL");
+  }
+
+  queryPairs.forEach((param) => {
+    finalUrl.searchParams.append(param.name, param.value);
+  });
+
+  let bodyText: string | undefined;
+  const mode = request.body?.mode ?? "none";
+  if (mode === "json") {
+    const substituted = substituteVariables(
+      request.body?.text ?? "",
+      variables
+    ).trim();
+    if (substituted.length > 0) {
+      try {
+        bodyText = JSON.stringify(JSON.parse(substituted));
+      } catch {
+        throw new Error("JSON body is not valid after substitutions");
+      }
+    } else {
+      bodyText = undefined;
+    }
+    const contentTypeHeader = headers.find(
+      (header) => header.name.toLowerCase() === "content-type"
+    );
+    if (!contentTypeHeader) {
+      headers.push({
+        id: createHeaderId(),
+        name: "Content-Type",
+        value: request.body?.contentType ?? "application/json",
+        enabled: true,
+      });
+    }
+  } else if (mode === "text") {
+    bodyText = substituteVariables(request.body?.text ?? "", variables);
+  }
+
+  const method = (request.method ?? "GET").toUpperCase() as HttpMethod;
+  const shouldSendBody =
+    bodyText !== undefined &&
+    bodyText.length > 0 &&
+    !["GET", "HEAD"].includes(method);
+
+  return {
+    method,
+    url: finalUrl,
+    headers,
+    bodyText: shouldSendBody ? bodyText : undefined,
+    curl: buildCurlCommand(
+      method,
+      finalUrl.toString(),
+      headers,
+      shouldSendBody ? bodyText : undefined
+    ),
+  };
+};
+
+interface ResponseAssignments {
+  variable?: string;
+  body?: string;
+  headers?: string;
+}
+
+const buildResponsePayload = async (
+  response: Response,
+  requestedUrl: string,
+  curl: string,
+  startedAt: number,
+  assignments: ResponseAssignments
+): Promise<HttpResponse> => {
+  const durationMs = Date.now() - startedAt;
+  const buffer = new Uint8Array(await response.arrayBuffer());
+  const size = buffer.byteLength;
+  const contentType = response.headers.get("content-type") ?? undefined;
+  const headers: HttpHeader[] = [];
+  response.headers.forEach((value, name) => {
+    headers.push({ id: createHeaderId(), name, value, enabled: true });
+  });
+
+  let bodyType: "json" | "text" | "binary" = "text";
+  let bodyText: string | undefined;
+  let bodyJson: unknown;
+  let encoding: "utf8" | "base64" | undefined;
+
+  const textDecoder = new TextDecoder();
+  if (contentType && contentType.includes("application/json")) {
+    const text = textDecoder.decode(buffer);
+    try {
+      bodyJson = JSON.parse(text);
+      bodyText = JSON.stringify(bodyJson, null, 2);
+      bodyType = "json";
+      encoding = "utf8";
+    } catch {
+      bodyText = text;
+      bodyType = "text";
+      encoding = "utf8";
+    }
+  } else if (
+    contentType &&
+    (contentType.startsWith("text/") ||
+      contentType.includes("xml") ||
+      contentType.includes("html"))
+  ) {
+    bodyText = textDecoder.decode(buffer);
+    bodyType = "text";
+    encoding = "utf8";
+  } else if (size > 0) {
+    bodyText = Buffer.from(buffer).toString("base64");
+    bodyType = "binary";
+    encoding = "base64";
+  } else {
+    bodyText = "";
+    encoding = "utf8";
+  }
+
+  return HttpResponseSchema.parse({
+    status: response.status,
+    statusText: response.statusText,
+    ok: response.ok,
+    url: response.url || requestedUrl,
+    durationMs,
+    timestamp: new Date().toISOString(),
+    headers,
+    body:
+      bodyText !== undefined
+        ? {
+            type: bodyType,
+            text: bodyText,
+            json: bodyJson,
+            size,
+            contentType,
+            encoding,
+          }
+        : undefined,
+    curl,
+    assignedVariable: assignments.variable,
+    assignedBody: assignments.body,
+    assignedHeaders: assignments.headers,
+  });
+};
+
+const buildErrorResponse = (
+  message: string,
+  curl: string,
+  assignments: ResponseAssignments
+): HttpResponse => {
+  return HttpResponseSchema.parse({
+    error: message,
+    timestamp: new Date().toISOString(),
+    curl,
+    assignedVariable: assignments.variable,
+    assignedBody: assignments.body,
+    assignedHeaders: assignments.headers,
+  });
+};
+
+// Variables marked sensitive, masked like secrets
+const getSensitiveVariables = (
+  notebook: Pick<Notebook, "env">,
+  variables: Record<string, string>
+) => {
+  const sensitive: Record<string, string> = {};
+  for (const name of notebook.env?.sensitive ?? []) {
+    if (variables[name] !== undefined) {
+      sensitive[name] = variables[name];
+    }
+  }
+  return sensitive;
+};
+
+// The curl command and URL are shown to the user and saved with the cell,
+// so secret values (raw or URL-encoded) are put back as placeholders
+const maskSecretValues = (text: string, secrets: Record<string, string>) => {
+  let masked = text;
+  for (const [name, value] of Object.entries(secrets)) {
+    if (!value) continue;
+    for (const candidate of new Set([value, encodeURIComponent(value)])) {
+      masked = masked.split(candidate).join(`{{${name}}}`);
+    }
+  }
+  return masked;
+};
+
+// Response bodies and headers can echo credentials back; binary bodies are
+// base64 and left alone
+const redactResponse = (
+  response: HttpResponse,
+  redact: Redactor
+): HttpResponse => ({
+  ...response,
+  url: response.url && redact(response.url),
+  headers: redactValue(response.headers, redact),
+  body:
+    response.body && response.body.type !== "binary"
+      ? redactValue(response.body, redact)
+      : response.body,
+});
+
+/**
+ * An HTTP cell that cannot be sent as written (bad URL, blocked host, ...).
+ */
+export class HttpCellError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HttpCellError";
+  }
+}
+
+export interface HttpCellRunOptions {
+  // With the project's variables already merged in
+  notebook: Pick<Notebook, "env">;
+  request: HttpRequest;
+  assignVariable?: string;
+  assignBody?: string;
+  assignHeaders?: string;
+  // Substituted into `{{NAME}}` placeholders; defaults to the notebook's
+  variables?: Record<string, string>;
+  // Shadow variables with the same name
+  secrets?: Record<string, string>;
+  redact?: Redactor;
+}
+
+const normalizeAssignment = (value: string | undefined | null) => {
+  const trimmed = value?.trim() ?? "";
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+/**
+ * Sends an HTTP cell's request. Requests that cannot be sent throw an
+ * {@link HttpCellError}; network failures resolve to a response with `error`
+ * set. Secrets in the URL and curl command are put back as placeholders and
+ * the response is redacted.
+ */
+export const runHttpCell = async ({
+  notebook,
+  request,
+  assignVariable,
+  assignBody,
+  assignHeaders,
+  variables = notebook.env?.variables ?? {},
+  secrets = {},
+  redact = (text) => text,
+}: HttpCellRunOptions): Promise<HttpResponse> => {
+  const assignments: ResponseAssignments = {
+    variable: normalizeAssignment(assignVariable),
+    body: normalizeAssignment(assignBody),
+    headers: normalizeAssignment(assignHeaders),
+  };
+  if (assignments.variable && !IDENTIFIER_PATTERN.test(assignments.variable)) {
+    throw new HttpCellError("Assignment target must be a valid identifier");
+  }
+  if (assignments.body && !IDENTIFIER_PATTERN.test(assignments.body)) {
+    throw new HttpCellError("Body assignment must be a valid identifier");
+  }
+  if (assignments.headers && !IDENTIFIER_PATTERN.test(assignments.headers)) {
+    throw new HttpCellError("Header assignment must be a valid identifier");
+  }
+
+  const hidden = { ...getSensitiveVariables(notebook, variables), ...secrets };
+  let normalized;
+  try {
+    normalized = normalizeRequest(request, { ...variables, ...secrets });
+  } catch (error) {
+    throw new HttpCellError(
+      error instanceof Error ? error.message : "Invalid HTTP request"
+    );
+  }
+
+  if (isBlockedUrl(normalized.url)) {
+    throw new HttpCellError("Destination URL is not allowed");
+  }
+
+  const init: RequestInit = {
+    method: normalized.method,
+    headers: normalized.headers.reduce(
+      (acc, header) => {
+        if (!header.enabled) return acc;
+        const name = header.name.trim();
+        if (!name) return acc;
+        acc[name] = header.value ?? "";
+        return acc;
+      },
+      {} as Record<string, string>
+    ),
+    body: normalized.bodyText,
+  };
+
+  const started = Date.now();
+  const url = normalized.url.toString();
+  const curl = redact(maskSecretValues(normalized.curl, hidden));
+  try {
+    const response = await fetch(url, init);
+    const payloadResponse = await buildResponsePayload(
+      response,
+      url,
+      curl,
+      started,
+      assignments
+    );
+    if (payloadResponse.url) {
+      payloadResponse.url = maskSecretValues(payloadResponse.url, hidden);
+    }
+    return redactResponse(payloadResponse, redact);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "HTTP request failed";
+    return buildErrorResponse(
+      redact(maskSecretValues(message, hidden)),
+      curl,
+      assignments
+    );
+  }
+};
+
+/**
+ * The values a successful response assigns to its variables, as the editor
+ * hands them to later code cells.
+ */
+export const getHttpResponseGlobals = (
+  response: HttpResponse
+): Record<string, unknown> => {
+  if (response.error || response.ok === false) {
+    return {};
+  }
+  const headers = Object.fromEntries(
+    response.headers.map((header) => [header.name, header.value])
+  );
+  const body = {
+    type: response.body?.type ?? null,
+    json: response.body?.json ?? null,
+    text: response.body?.text ?? null,
+    encoding: response.body?.encoding ?? null,
+    contentType: response.body?.contentType ?? null,
+    size: response.body?.size ?? null,
+  };
+  const globals: Record<string, unknown> = {};
+  if (response.assignedVariable) {
+    globals[response.assignedVariable] = {
+      status: response.status ?? null,
+      statusText: response.statusText ?? null,
+      ok: response.ok ?? null,
+      url: response.url ?? null,
+      durationMs: response.durationMs ?? null,
+      timestamp: response.timestamp ?? null,
+      headers,
+      headerList: response.headers,
+      body,
+    };
+  }
+  if (response.assignedBody) {
+    globals[response.assignedBody] = {
+      ...body,
+      status: response.status ?? null,
+      ok: response.ok ?? null,
+      url: response.url ?? null,
+      timestamp: response.timestamp ?? null,
+      headers,
+    };
+  }
+  if (response.assignedHeaders) {
+    globals[response.assignedHeaders] = headers;
+  }
+  return globals;
+};
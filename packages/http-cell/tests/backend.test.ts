@@ -172,6 +172,60 @@ describe("HTTP routes", () => {
     await app.close();
   });
 
+  it("redacts sensitive variables from responses", async () => {
+    const store = new InMemoryNotebookStore([]);
+    const collaborators = new InMemoryNotebookCollaboratorStore();
+    const notebook = createEmptyNotebook({
+      id: "nb-sensitive",
+      env: {
+        runtime: "node",
+        version: "20.10.0",
+        packages: {},
+        variables: { API_KEY: "sk-live-123456" },
+        sensitive: ["API_KEY"],
+      },
+      cells: [],
+    });
+    await store.save(notebook);
+
+    const app = Fastify();
+    app.addHook("preHandler", (req, _reply, done) => {
+      (req as typeof req & { user: SafeUser }).user = createAdminUser();
+      done();
+    });
+
+    registerHttpRoutes(app, store as never, collaborators as never);
+    await app.ready();
+
+    fetchSpy.mockResolvedValue(
+      new Response(JSON.stringify({ echo: "sk-live-123456" }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/notebooks/nb-sensitive/http",
+      payload: {
+        cellId: "cell-1",
+        request: {
+          method: "GET",
+          url: "https://example.com/echo?key={{API_KEY}}",
+        },
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(fetchSpy.mock.calls[0]?.[0]).toBe(
+      "https://example.com/echo?key=sk-live-123456"
+    );
+    expect(response.body).not.toContain("sk-live-123456");
+    const body = response.json() as { data?: { response?: HttpResponse } };
+    expect(body.data?.response?.curl).toContain("{{API_KEY}}");
+    await app.close();
+  });
+
   it("rejects invalid assignment identifiers", async () => {
     const store = new InMemoryNotebookStore([]);
     const collaborators = new InMemoryNotebookCollaboratorStore();
@@ -0,0 +1,384 @@
+// Line-based scan of the declarations a code cell makes at its top level.
+// The kernel uses it to hoist cell bindings into the shared context and the
+// editor uses it to describe those bindings to later cells.
+
+export interface TopLevelDeclaration {
+  kind: "variable" | "function" | "class" | "type";
+  name: string;
+  // 0-based first and last (inclusive) line of the declaration
+  line: number;
+  endLine: number;
+  indent: string;
+  // Variables: optional annotation, the initializer and text after its `;`
+  typeAnnotation?: string;
+  initializer?: string;
+  trailing?: string;
+  // Functions: parameters plus return annotation, e.g. `(a: number): string`
+  signature?: string;
+  async?: boolean;
+  generator?: boolean;
+  // Classes: `extends`/`implements` clause; types: the full declaration
+  heritage?: string;
+  text?: string;
+}
+
+type Quote = false | '"' | "'" | "`";
+
+const VARIABLE_RE =
+  /^(\s*)(const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::([^=;]+))?\s*=\s*/;
+const FUNCTION_RE =
+  /^(\s*)(?:export\s+)?(?:default\s+)?(?:(async)\s+)?function(\s*\*?)\s+([A-Za-z_$][\w$]*)\s*(\()/;
+const CLASS_RE = /^(\s*)class\s+([A-Za-z_$][\w$]*)\b([^{]*)/;
+const TYPE_RE =
+  /^(\s*)(?:export\s+)?(?:declare\s+)?(interface|type)\s+([A-Za-z_$][\w$]*)/;
+const EXPORT_RE = /^\s*export\s+/;
+
+const CONTINUATION_OPERATORS = [
+  "&&",
+  "||",
+  "**",
+  "??",
+  "?.",
+  "??=",
+  "&&=",
+  "||=",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "|=",
+  "&=",
+  "^=",
+  "<<=",
+  ">>=",
+  ">>>=",
+];
+
+const isLikelyContinuationLine = (line: string) => {
+  const trimmed = line.trimStart();
+  if (trimmed.length === 0) {
+    return false;
+  }
+  if (trimmed.startsWith("//") || trimmed.startsWith("/*")) {
+    return true;
+  }
+  if (trimmed.startsWith("?.") || trimmed.startsWith("??")) {
+    return true;
+  }
+  const first = trimmed[0]!;
+  // Heuristics for expression continuations
+  if (".,([{)]}:+-*/%|&^><=!?~".includes(first)) {
+    return true;
+  }
+  return CONTINUATION_OPERATORS.some((op) => trimmed.startsWith(op));
+};
+
+const stripExport = (line: string) => {
+  const prefix = line.match(EXPORT_RE)?.[0] ?? "";
+  return line.slice(prefix.length);
+};
+
+// Collects a top-level variable initializer across multiple lines until the
+// terminating semicolon that is not inside (), [], {} or strings/comments.
+const scanVariable = (
+  lines: string[],
+  startLine: number
+): TopLevelDeclaration | null => {
+  const rest = stripExport(lines[startLine] ?? "");
+  const match = rest.match(VARIABLE_RE);
+  if (!match) return null;
+  const chunks: string[] = [rest.slice(match[0].length)];
+
+  let line = startLine;
+  let inString: Quote = false;
+  let inLineComment = false;
+  let inBlockComment = false;
+  let depthParen = 0;
+  let depthBracket = 0;
+  let depthBrace = 0;
+  let found = false;
+  let trailing = "";
+  let remainder = chunks[0] ?? "";
+  while (true) {
+    const text = remainder;
+    let index = 0;
+    while (index < text.length) {
+      const ch = text[index]!;
+      const next = text[index + 1];
+      if (inLineComment) {
+        break;
+      }
+      if (inBlockComment) {
+        if (ch === "*" && next === "/") {
+          inBlockComment = false;
+          index += 2;
+          continue;
+        }
+        index++;
+        continue;
+      }
+      if (inString) {
+        if (ch === "\\") {
+          index += 2;
+          continue;
+        }
+        if ((inString === "`" && ch === "`") || ch === inString) {
+          inString = false;
+        }
+        index++;
+        continue;
+      }
+      if (ch === "/" && next === "/") {
+        inLineComment = true;
+        index += 2;
+        continue;
+      }
+      if (ch === "/" && next === "*") {
+        inBlockComment = true;
+        index += 2;
+        continue;
+      }
+      if (ch === '"' || ch === "'" || ch === "`") {
+        inString = ch;
+        index++;
+        continue;
+      }
+      if (ch === "(") depthParen++;
+      else if (ch === ")") depthParen = Math.max(0, depthParen - 1);
+      else if (ch === "[") depthBracket++;
+      else if (ch === "]") depthBracket = Math.max(0, depthBracket - 1);
+      else if (ch === "{") depthBrace++;
+      else if (ch === "}") depthBrace = Math.max(0, depthBrace - 1);
+
+      if (
+        ch === ";" &&
+        depthParen === 0 &&
+        depthBracket === 0 &&
+        depthBrace === 0
+      ) {
+        chunks[chunks.length - 1] = text.slice(0, index);
+        trailing = text.slice(index + 1);
+        found = true;
+        break;
+      }
+      index++;
+    }
+    if (found) break;
+    const nextLine = line + 1;
+    if (nextLine >= lines.length) {
+      // No terminating semicolon; treat end-of-file as end
+      break;
+    }
+    const nextRaw = lines[nextLine] ?? "";
+    if (
+      depthParen === 0 &&
+      depthBracket === 0 &&
+      depthBrace === 0 &&
+      !inString &&
+      !inBlockComment &&
+      !inLineComment &&
+      chunks.join("").trim().length > 0 &&
+      !isLikelyContinuationLine(nextRaw)
+    ) {
+      break;
+    }
+    line = nextLine;
+    remainder = "\n" + nextRaw;
+    chunks.push(remainder);
+    // Strings and block comments carry across lines
+    inLineComment = false;
+  }
+
+  return {
+    kind: "variable",
+    name: match[3]!,
+    line: startLine,
+    endLine: line,
+    indent: match[1] ?? "",
+    typeAnnotation: match[4]?.trim() || undefined,
+    initializer: chunks
+      .join("")
+      .trimEnd()
+      .replace(/;+\s*$/, ""),
+    trailing,
+  };
+};
+
+// Reads `(params)` and an optional simple return annotation starting at the
+// opening parenthesis of a function declaration.
+const readSignature = (source: string, start: number) => {
+  let depth = 0;
+  let inString: Quote = false;
+  for (let index = start; index < source.length; index++) {
+    const ch = source[index]!;
+    if (inString) {
+      if (ch === "\\") {
+        index++;
+      } else if (ch === inString) {
+        inString = false;
+      }
+      continue;
+    }
+    if (ch === '"' || ch === "'" || ch === "`") {
+      inString = ch;
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")" && --depth === 0) {
+      const params = source.slice(start, index + 1).replace(/\s+/g, " ");
+      const returns = /^\s*:\s*([^{;]+?)\s*\{/.exec(source.slice(index + 1));
+      return returns ? `${params}: ${returns[1]}` : params;
+    }
+  }
+  return undefined;
+};
+
+const endsTypeDeclaration = (line: string, next: string | undefined) => {
+  const trimmed = line.trimEnd();
+  if (/[=|&,<(]$/.test(trimmed)) {
+    return false;
+  }
+  return !/^\s*[|&]/.test(next ?? "");
+};
+
+export const scanTopLevelDeclarations = (
+  source: string
+): TopLevelDeclaration[] => {
+  const lines = source.split(/\r?\n/);
+  const lineOffsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineOffsets.push(offset);
+    offset += line.length + 1;
+  }
+  const normalized = lines.join("\n");
+  const declarations: TopLevelDeclaration[] = [];
+  let depth = 0;
+  let inBlockComment = false;
+  let inString: Quote = false;
+  let openType: { declaration: TopLevelDeclaration; opened: boolean } | null =
+    null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    if (depth === 0 && !inBlockComment && !inString) {
+      const variable = scanVariable(lines, i);
+      if (variable) {
+        // A type alias still open here was not one we could follow
+        openType = null;
+        declarations.push(variable);
+        i = variable.endLine;
+        continue;
+      }
+      const fn = line.match(FUNCTION_RE);
+      if (fn) {
+        openType = null;
+        declarations.push({
+          kind: "function",
+          name: fn[4]!,
+          line: i,
+          endLine: i,
+          indent: fn[1] ?? "",
+          async: Boolean(fn[2]),
+          generator: (fn[3] ?? "").includes("*"),
+          signature: readSignature(
+            normalized,
+            lineOffsets[i]! + fn[0].length - 1
+          ),
+        });
+        continue;
+      }
+      const cls = stripExport(line).match(CLASS_RE);
+      if (cls) {
+        openType = null;
+        declarations.push({
+          kind: "class",
+          name: cls[2]!,
+          line: i,
+          endLine: i,
+          indent: cls[1] ?? "",
+          heritage: cls[3]?.trim() || undefined,
+        });
+        continue;
+      }
+      const type: RegExpMatchArray | null = openType
+        ? null
+        : line.match(TYPE_RE);
+      if (type) {
+        openType = {
+          declaration: {
+            kind: "type",
+            name: type[3]!,
+            line: i,
+            endLine: i,
+            indent: type[1] ?? "",
+          },
+          // Type aliases may end without ever opening a brace
+          opened: type[2] === "type",
+        };
+      }
+    }
+
+    let j = 0;
+    while (j < line.length) {
+      const ch = line[j];
+      const next = line[j + 1];
+      if (!inString && !inBlockComment) {
+        if (ch === "/" && next === "*") {
+          inBlockComment = true;
+          j += 2;
+          continue;
+        }
+        if (ch === "/" && next === "/") {
+          // rest is comment
+          break;
+        }
+        if (ch === '"' || ch === "'" || ch === "`") {
+          inString = ch;
+          j++;
+          continue;
+        }
+        if (ch === "{") {
+          depth++;
+          if (openType) openType.opened = true;
+        } else if (ch === "}") depth = Math.max(0, depth - 1);
+      } else if (inBlockComment) {
+        if (ch === "*" && next === "/") {
+          inBlockComment = false;
+          j += 2;
+          continue;
+        }
+      } else if (inString) {
+        if (ch === "\\") {
+          j += 2; // escape
+          continue;
+        }
+        if (ch === inString) {
+          inString = false;
+        }
+      }
+      j++;
+    }
+
+    if (
+      openType?.opened &&
+      depth === 0 &&
+      !inBlockComment &&
+      !inString &&
+      endsTypeDeclaration(line, lines[i + 1])
+    ) {
+      const { declaration } = openType;
+      declaration.endLine = i;
+      declaration.text = lines
+        .slice(declaration.line, i + 1)
+        .join("\n")
+        .trim()
+        .replace(/^export\s+/, "");
+      declarations.push(declaration);
+      openType = null;
+    }
+  }
+
+  return declarations;
+};
@@ -39,6 +39,7 @@ export const GlobalSettingsSchema = z
     password: z.union([z.string(), z.null()]).optional(),
     aiEnabled: z.boolean().optional(),
     ai: AiSettingsSchema.optional(),
+    redactionPatterns: z.array(z.string()).optional(),
   })
   .catchall(z.unknown());
 
@@ -148,6 +149,14 @@ export const UiJsonSchema = z.object({
   maxDepth: z.number().int().positive().optional(),
 });
 
+// Emitted by `respond()`; becomes the HTTP response of a notebook app
+export const UiResponseSchema = z.object({
+  ui: z.literal("response"),
+  status: z.number().int().min(100).max(599).default(200),
+  headers: z.record(z.string(), z.string()).optional(),
+  body: z.unknown(),
+});
+
 export const UiCodeSchema = z.object({
   ui: z.literal("code"),
   code: z.string(),
@@ -582,6 +591,7 @@ function createUiDisplayUnionSchema(): ZodTypeAny {
     UiMarkdownSchema,
     UiHtmlSchema,
     UiJsonSchema,
+    UiResponseSchema,
     UiCodeSchema,
     UiTableSchema,
     UiDataSummarySchema,
@@ -608,6 +618,7 @@ export type UiDisplay =
   | UiMarkdown
   | UiHtml
   | UiJson
+  | UiResponse
   | UiCode
   | UiTable
   | UiDataSummary
@@ -631,6 +642,7 @@ export type UiImage = z.infer<typeof UiImageSchema>;
 export type UiMarkdown = z.infer<typeof UiMarkdownSchema>;
 export type UiHtml = z.infer<typeof UiHtmlSchema>;
 export type UiJson = z.infer<typeof UiJsonSchema>;
+export type UiResponse = z.infer<typeof UiResponseSchema>;
 export type UiCode = z.infer<typeof UiCodeSchema>;
 export type UiTable = z.infer<typeof UiTableSchema>;
 export type UiDataSummary = z.infer<typeof UiDataSummarySchema>;
@@ -698,6 +710,35 @@ export const ErrorOutputSchema = z.object({
   traceback: z.array(z.string()).default([]),
 });
 
+// Traceback frames inside notebook cells read `<cellId>.<js|ts>:line:col`
+// with 1-based positions, matching the names compiled cells run under.
+export interface CellLocation {
+  cellId: string;
+  line: number;
+  column: number;
+}
+
+export const formatCellLocation = (
+  location: CellLocation & { language: "js" | "ts" }
+) =>
+  `${location.cellId}.${location.language}:${location.line}:${location.column}`;
+
+// Only ids of the notebook's cells count; package and node internals frames
+// use the same `<name>.js:line:col` shape
+export const findCellLocations = (
+  text: string,
+  cellIds: ReadonlySet<string>
+): Array<CellLocation & { start: number; end: number }> =>
+  Array.from(text.matchAll(/(?<![\w./\\:-])([\w-]+)\.(?:js|ts):(\d+):(\d+)/g))
+    .filter((match) => cellIds.has(match[1]!))
+    .map((match) => ({
+      cellId: match[1]!,
+      line: Number(match[2]),
+      column: Number(match[3]),
+      start: match.index,
+      end: match.index + match[0].length,
+    }));
+
 export const NotebookOutputSchema = z.discriminatedUnion("type", [
   StreamOutputSchema,
   DisplayDataSchema,
@@ -722,6 +763,14 @@ export const SmartCellTypeSchema = z.enum(["terminal", "command"]);
 export type SmartCellType = z.infer<typeof SmartCellTypeSchema>;
 export const SMART_CELL_TYPES = SmartCellTypeSchema.options;
 
+// Globals a code cell assigns and reads, as observed by the kernel on its
+// last run. Used to build the reactive dependency graph between cells.
+export const CellDependenciesSchema = z.object({
+  defines: z.array(z.string()).default([]),
+  reads: z.array(z.string()).default([]),
+});
+export type CellDependencies = z.infer<typeof CellDependenciesSchema>;
+
 export const CodeCellSchema = z.object({
   id: z.string(),
   type: z.literal("code"),
@@ -739,6 +788,11 @@ export const CodeCellSchema = z.object({
           lineNumbers: z.enum(["off", "on"]).optional(),
         })
         .optional(),
+      dependencies: CellDependenciesSchema.optional(),
+      // Marks the cell whose values are overridden on parameterized runs
+      parameters: z.boolean().optional(),
+      // Test cells are reported as test cases by `nbks test`
+      test: z.boolean().optional(),
     })
     .catchall(z.unknown())
     .default({}),
@@ -796,11 +850,63 @@ export const NotebookCellSchema = z
 
 export type NotebookCell = z.infer<typeof NotebookCellSchema>;
 
+export const NotebookParameterTypeSchema = z.enum([
+  "string",
+  "number",
+  "boolean",
+  "json",
+]);
+export type NotebookParameterType = z.infer<typeof NotebookParameterTypeSchema>;
+
+// A typed input of a parameterized notebook. Run overrides (or the default)
+// are assigned to a global of the same name after the parameters cell.
+export const NotebookParameterSchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[A-Za-z_$][\w$]*$/,
+      "Parameter names must be valid JavaScript identifiers"
+    ),
+  type: NotebookParameterTypeSchema.default("string"),
+  default: z.unknown().optional(),
+  description: z.string().optional(),
+});
+export type NotebookParameter = z.infer<typeof NotebookParameterSchema>;
+
+// Cron schedule (5 fields, server local time) for unattended runs
+export const NotebookScheduleSchema = z.object({
+  cron: z.string().min(1),
+  enabled: z.boolean().default(true),
+  parameters: z.record(z.string(), z.unknown()).optional(),
+});
+export type NotebookSchedule = z.infer<typeof NotebookScheduleSchema>;
+
+// Serves the notebook as `POST /api/apps/:slug`
+export const NotebookAppSchema = z.object({
+  enabled: z.boolean().default(false),
+  slug: SlugSchema,
+  auth: z.enum(["token", "public"]).default("token"),
+  // sha256 of the current API token, managed by the server
+  tokenHash: z.string().optional(),
+  // Cell whose last output is returned when no cell calls respond()
+  outputCellId: z.string().optional(),
+  maxConcurrency: z.number().int().positive().default(2),
+  // Per-cell limit; falls back to the kernel timeout
+  timeoutMs: z.number().int().positive().optional(),
+});
+export type NotebookApp = z.infer<typeof NotebookAppSchema>;
+
+// A package-lock.json as npm writes it; only `packages` is ever inspected
+export const NotebookLockfileSchema = z.record(z.string(), z.unknown());
+export type NotebookLockfile = z.infer<typeof NotebookLockfileSchema>;
+
 export const NotebookFileEnvSchema = z.object({
   runtime: z.enum(["node"]).optional(),
   version: z.string().optional(),
   packages: z.record(z.string(), z.string()).optional(),
   variables: z.record(z.string(), z.string()).optional(),
+  sensitive: z.array(z.string()).optional(),
+  lockfile: NotebookLockfileSchema.optional(),
 });
 
 export const NotebookFileMarkdownCellSchema = z.object({
@@ -836,6 +942,8 @@ export const NotebookFileCodeCellSchema = z.object({
     .object({
       timeoutMs: z.number().int().positive().max(600_000).optional(),
       display: z.record(z.string(), z.unknown()).optional(),
+      parameters: z.boolean().optional(),
+      test: z.boolean().optional(),
     })
     .optional(),
   outputs: z.array(NotebookOutputSchema).optional(),
@@ -865,6 +973,10 @@ export const NotebookFileNotebookSchema = z.object({
   name: z.string().optional(),
   env: NotebookFileEnvSchema.optional(),
   sql: NotebookSqlSchema.optional(),
+  reactive: z.boolean().optional(),
+  strict: z.boolean().optional(),
+  parameters: z.array(NotebookParameterSchema).optional(),
+  schedule: NotebookScheduleSchema.optional(),
   cells: z.array(NotebookFileCellSchema).default([]),
 });
 
@@ -887,6 +999,18 @@ export const NotebookEnvSchema = z.object({
   packages: z.record(z.string(), z.string()).default({}),
   // Key-value environment variables available to code cells via process.env
   variables: z.record(z.string(), z.string()).default({}),
+  // Names of variables whose values are masked in outputs
+  sensitive: z.array(z.string()).optional(),
+  // Resolved dependency tree of the last install, reused with `npm ci`
+  lockfile: NotebookLockfileSchema.optional(),
+});
+
+// What a kernel receives: the notebook env plus decrypted secrets resolved by
+// the server for this run. Secrets never live on the notebook itself.
+export const KernelEnvSchema = NotebookEnvSchema.extend({
+  secrets: z.record(z.string(), z.string()).optional(),
+  // Admin-configured regular expressions masked in every output
+  redactionPatterns: z.array(z.string()).optional(),
 });
 
 export const NotebookSchema = z.object({
@@ -902,10 +1026,18 @@ export const NotebookSchema = z.object({
   published: z.boolean().default(false),
   publicSlug: SlugSchema.nullish(),
   authorEmail: z.string().email().optional().nullable(),
+  // Re-run dependent cells automatically after a cell executes
+  reactive: z.boolean().optional(),
+  // Type-check TypeScript cells before running them
+  strict: z.boolean().optional(),
+  parameters: z.array(NotebookParameterSchema).optional(),
+  schedule: NotebookScheduleSchema.nullish(),
+  app: NotebookAppSchema.nullish(),
 });
 
 export type Notebook = z.infer<typeof NotebookSchema>;
 export type NotebookEnv = z.infer<typeof NotebookEnvSchema>;
+export type KernelEnv = z.infer<typeof KernelEnvSchema>;
 export type CodeCell = z.infer<typeof CodeCellSchema>;
 export type MarkdownCell = z.infer<typeof MarkdownCellSchema>;
 export type UnknownCell = z.infer<typeof UnknownCellSchema>;
@@ -924,19 +1056,177 @@ export type NotebookFileNotebook = z.infer<typeof NotebookFileNotebookSchema>;
 export type NotebookFileSummary = z.infer<typeof NotebookFileSummarySchema>;
 export type NotebookFile = z.infer<typeof NotebookFileSchema>;
 
+export const NotebookRunTriggerSchema = z.enum(["manual", "schedule"]);
+export const NotebookRunStatusSchema = z.enum(["running", "ok", "error"]);
+
+export const NotebookRunCellSchema = z.object({
+  cellId: z.string(),
+  index: z.number().int().nonnegative(),
+  status: z.enum(["ok", "error", "aborted", "skipped"]),
+  durationMs: z.number().nonnegative(),
+  error: z.object({ ename: z.string(), evalue: z.string() }).optional(),
+});
+
+// One headless execution of a notebook. `outputs` snapshots every executed
+// code cell by id and `logs` keeps the streamed stdout/stderr.
+export const NotebookRunSchema = z.object({
+  id: z.string(),
+  notebookId: z.string(),
+  trigger: NotebookRunTriggerSchema,
+  status: NotebookRunStatusSchema,
+  startedAt: z.string(),
+  finishedAt: z.string().nullable().default(null),
+  durationMs: z.number().nonnegative().nullable().default(null),
+  parameters: z.record(z.string(), z.unknown()).default({}),
+  cells: z.array(NotebookRunCellSchema).default([]),
+  error: z.string().nullable().default(null),
+  outputs: z.record(z.string(), z.array(NotebookOutputSchema)).default({}),
+  logs: z.string().default(""),
+});
+
+export type NotebookRunTrigger = z.infer<typeof NotebookRunTriggerSchema>;
+export type NotebookRunStatus = z.infer<typeof NotebookRunStatusSchema>;
+export type NotebookRunCell = z.infer<typeof NotebookRunCellSchema>;
+export type NotebookRun = z.infer<typeof NotebookRunSchema>;
+export type NotebookRunSummary = Omit<NotebookRun, "outputs" | "logs">;
+
+export const toNotebookRunSummary = (run: NotebookRun): NotebookRunSummary => {
+  const { outputs: _outputs, logs: _logs, ...summary } = run;
+  return summary;
+};
+
+// "failed" is an assertion that did not hold, "error" anything else thrown
+export const NotebookTestStatusSchema = z.enum([
+  "passed",
+  "failed",
+  "error",
+  "skipped",
+]);
+
+export const NotebookTestCaseSchema = z.object({
+  cellId: z.string(),
+  index: z.number().int().nonnegative(),
+  name: z.string(),
+  // Setup cells only show up when they fail, since the tests depend on them
+  kind: z.enum(["test", "setup"]),
+  status: NotebookTestStatusSchema,
+  durationMs: z.number().nonnegative(),
+  message: z.string().optional(),
+});
+
+export const NotebookTestReportSchema = z.object({
+  notebookId: z.string(),
+  name: z.string(),
+  startedAt: z.string(),
+  durationMs: z.number().nonnegative(),
+  status: z.enum(["passed", "failed"]),
+  summary: z.object({
+    total: z.number().int().nonnegative(),
+    passed: z.number().int().nonnegative(),
+    failed: z.number().int().nonnegative(),
+    errors: z.number().int().nonnegative(),
+    skipped: z.number().int().nonnegative(),
+  }),
+  cases: z.array(NotebookTestCaseSchema),
+});
+
+export type NotebookTestStatus = z.infer<typeof NotebookTestStatusSchema>;
+export type NotebookTestCase = z.infer<typeof NotebookTestCaseSchema>;
+export type NotebookTestReport = z.infer<typeof NotebookTestReportSchema>;
+
+export const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Project secrets are shared by every notebook in the project, notebook
+// secrets by its collaborators and user secrets follow their owner around.
+export const NotebookSecretScopeSchema = z.enum([
+  "project",
+  "notebook",
+  "user",
+]);
+
+// Secrets are write-only: the API only ever returns this summary
+export const NotebookSecretSchema = z.object({
+  id: z.string(),
+  name: z.string().regex(SECRET_NAME_PATTERN),
+  scope: NotebookSecretScopeSchema,
+  scopeId: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  updatedBy: z.string().nullable().default(null),
+});
+
+export type NotebookSecretScope = z.infer<typeof NotebookSecretScopeSchema>;
+export type NotebookSecret = z.infer<typeof NotebookSecretSchema>;
+
 export const ProjectRoleSchema = z.enum(["editor", "viewer"]);
 export type ProjectRole = z.infer<typeof ProjectRoleSchema>;
 
+// Environment and SQL connections shared by every notebook in a project.
+// A notebook's own packages, variables and connections take precedence.
+export const ProjectDefaultsSchema = z.object({
+  env: z
+    .object({
+      packages: z.record(z.string(), z.string()).default({}),
+      variables: z.record(z.string(), z.string()).default({}),
+      sensitive: z.array(z.string()).optional(),
+    })
+    .default({ packages: {}, variables: {} }),
+  sql: NotebookSqlSchema.default({ connections: [] }),
+});
+export type ProjectDefaults = z.infer<typeof ProjectDefaultsSchema>;
+
 export const ProjectSchema = z.object({
   id: z.string(),
   name: z.string(),
   slug: SlugSchema,
   published: z.boolean().default(false),
+  defaults: ProjectDefaultsSchema.optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
 export type Project = z.infer<typeof ProjectSchema>;
 
+// Variables stay sensitive when a notebook overrides them
+export const mergeProjectEnv = <T extends NotebookEnv>(
+  env: T,
+  defaults?: ProjectDefaults | null
+): T => {
+  if (!defaults) {
+    return env;
+  }
+  const sensitive = Array.from(
+    new Set([...(defaults.env.sensitive ?? []), ...(env.sensitive ?? [])])
+  );
+  return {
+    ...env,
+    packages: { ...defaults.env.packages, ...env.packages },
+    variables: { ...defaults.env.variables, ...env.variables },
+    ...(sensitive.length > 0 ? { sensitive } : {}),
+  };
+};
+
+// Project connections come first; a notebook connection with the same id
+// replaces the project's
+export const mergeProjectSql = (
+  sql: NotebookSql | undefined,
+  defaults?: ProjectDefaults | null
+): NotebookSql => {
+  const own = sql?.connections ?? [];
+  if (!defaults) {
+    return { ...sql, connections: own };
+  }
+  const ids = new Set(own.map((connection) => connection.id));
+  return {
+    ...sql,
+    connections: [
+      ...defaults.sql.connections.filter(
+        (connection) => !ids.has(connection.id)
+      ),
+      ...own,
+    ],
+  };
+};
+
 export const normalizeNotebookEnvVersion = <
   T extends { runtime: NotebookEnv["runtime"]; version?: string },
 >(
@@ -1054,6 +1344,7 @@ export const KernelExecuteReplySchema = z.object({
   status: z.enum(["ok", "error", "aborted"]).default("ok"),
   execTimeMs: z.number().nonnegative(),
   globals: z.record(z.string(), z.unknown()).optional(),
+  dependencies: CellDependenciesSchema.optional(),
 });
 
 export const KernelStreamMessageSchema = StreamOutputSchema.extend({
@@ -1068,6 +1359,114 @@ export const KernelErrorMessageSchema = ErrorOutputSchema.extend({
   cellId: z.string(),
 });
 
+// Sent while a cell is suspended on `await prompt(...)`.
+export const KernelInputRequestSchema = z.object({
+  type: z.literal("input_request"),
+  cellId: z.string(),
+  requestId: z.string(),
+  prompt: z.string().default(""),
+  password: z.boolean().default(false),
+});
+
+export const KernelCompletionMatchSchema = z.object({
+  label: z.string(),
+  kind: z.enum(["variable", "function", "class", "method", "property"]),
+  detail: z.string().optional(),
+});
+
+// Completions for the live kernel context; matches replace the text between
+// cursorStart and cursorEnd.
+export const KernelCompleteReplySchema = z.object({
+  type: z.literal("complete_reply"),
+  requestId: z.string(),
+  matches: z.array(KernelCompletionMatchSchema).default([]),
+  cursorStart: z.number().int().nonnegative(),
+  cursorEnd: z.number().int().nonnegative(),
+});
+
+export const KernelInspectReplySchema = z.object({
+  type: z.literal("inspect_reply"),
+  requestId: z.string(),
+  found: z.boolean(),
+  name: z.string().optional(),
+  valueType: z.string().optional(),
+  preview: z.string().optional(),
+});
+
+// One user global as listed by the variable explorer. `preview` is a
+// JSON-safe, size-limited copy of the value.
+export const KernelVariableSchema = z.object({
+  name: z.string(),
+  valueType: z.string(),
+  shape: z.string().optional(),
+  preview: z.unknown().optional(),
+  summary: UiDataSummarySchema.omit({ ui: true }).optional(),
+});
+
+export const KernelVariablesReplySchema = z.object({
+  type: z.literal("variables_reply"),
+  variables: z.array(KernelVariableSchema).default([]),
+});
+
+export const KernelDebugVariableSchema = z.object({
+  name: z.string(),
+  valueType: z.string(),
+  preview: z.string(),
+});
+
+export const KernelDebugScopeSchema = z.object({
+  type: z.string(),
+  name: z.string().optional(),
+  variables: z.array(KernelDebugVariableSchema).default([]),
+});
+
+// Lines and columns are 1-based positions in the cell source. Frames outside
+// notebook cells (library code) only carry a name and url.
+export const KernelDebugFrameSchema = z.object({
+  name: z.string(),
+  cellId: z.string().optional(),
+  line: z.number().int().positive().optional(),
+  column: z.number().int().positive().optional(),
+  url: z.string().optional(),
+  scopes: z.array(KernelDebugScopeSchema).default([]),
+});
+
+export const KernelDebugPausedSchema = z.object({
+  type: z.literal("debug_paused"),
+  cellId: z.string(),
+  reason: z.string(),
+  frames: z.array(KernelDebugFrameSchema).default([]),
+});
+
+export const KernelDebugResumedSchema = z.object({
+  type: z.literal("debug_resumed"),
+  cellId: z.string(),
+});
+
+// Type-check results for a TS cell in strict notebooks; 1-based positions
+export const KernelDiagnosticSchema = z.object({
+  line: z.number().int().positive(),
+  column: z.number().int().positive(),
+  endLine: z.number().int().positive(),
+  endColumn: z.number().int().positive(),
+  message: z.string(),
+  code: z.number().int(),
+  severity: z.enum(["error", "warning", "info"]),
+});
+
+export const KernelDiagnosticsMessageSchema = z.object({
+  type: z.literal("diagnostics"),
+  cellId: z.string(),
+  diagnostics: z.array(KernelDiagnosticSchema).default([]),
+});
+
+// The kernel rewrote a cell's source (e.g. `%load`); replaces the editor text
+export const KernelCellSourceMessageSchema = z.object({
+  type: z.literal("cell_source"),
+  cellId: z.string(),
+  source: z.string(),
+});
+
 export const KernelServerMessageSchema = z.discriminatedUnion("type", [
   KernelHelloMessageSchema,
   KernelStatusMessageSchema,
@@ -1075,6 +1474,14 @@ export const KernelServerMessageSchema = z.discriminatedUnion("type", [
   KernelDisplayMessageSchema,
   KernelErrorMessageSchema,
   KernelExecuteReplySchema,
+  KernelInputRequestSchema,
+  KernelCompleteReplySchema,
+  KernelInspectReplySchema,
+  KernelVariablesReplySchema,
+  KernelDebugPausedSchema,
+  KernelDebugResumedSchema,
+  KernelDiagnosticsMessageSchema,
+  KernelCellSourceMessageSchema,
 ]);
 
 export const KernelExecuteRequestSchema = z.object({
@@ -1084,6 +1491,12 @@ export const KernelExecuteRequestSchema = z.object({
   language: z.enum(["js", "ts"]).default("js"),
   timeoutMs: z.number().int().positive().max(600_000).optional(),
   globals: z.record(z.string(), z.unknown()).optional(),
+  // Run under the debugger, pausing at these 1-based cell lines
+  debug: z
+    .object({
+      breakpoints: z.array(z.number().int().positive()).default([]),
+    })
+    .optional(),
 });
 
 export const KernelInterruptRequestSchema = z.object({
@@ -1102,10 +1515,59 @@ export const KernelUiEventRequestSchema = z.object({
   globals: z.record(z.string(), z.unknown()).optional(),
 });
 
+export const KernelInputReplySchema = z.object({
+  type: z.literal("input_reply"),
+  requestId: z.string(),
+  value: z.string().default(""),
+  cancelled: z.boolean().optional(),
+});
+
+export const KernelCompleteRequestSchema = z.object({
+  type: z.literal("complete_request"),
+  requestId: z.string(),
+  code: z.string(),
+  cursorPos: z.number().int().nonnegative(),
+});
+
+export const KernelInspectRequestSchema = z.object({
+  type: z.literal("inspect_request"),
+  requestId: z.string(),
+  code: z.string(),
+  cursorPos: z.number().int().nonnegative(),
+});
+
+export const KernelVariablesRequestSchema = z.object({
+  type: z.literal("variables_request"),
+});
+
+export const KernelDeleteVariableRequestSchema = z.object({
+  type: z.literal("delete_variable_request"),
+  name: z.string().min(1),
+});
+
+export const KernelDebugActionSchema = z.enum([
+  "continue",
+  "pause",
+  "stepOver",
+  "stepInto",
+  "stepOut",
+]);
+
+export const KernelDebugRequestSchema = z.object({
+  type: z.literal("debug_request"),
+  action: KernelDebugActionSchema,
+});
+
 export const KernelClientMessageSchema = z.discriminatedUnion("type", [
   KernelExecuteRequestSchema,
   KernelInterruptRequestSchema,
   KernelUiEventRequestSchema,
+  KernelInputReplySchema,
+  KernelCompleteRequestSchema,
+  KernelInspectRequestSchema,
+  KernelVariablesRequestSchema,
+  KernelDeleteVariableRequestSchema,
+  KernelDebugRequestSchema,
 ]);
 
 export type KernelHelloMessage = z.infer<typeof KernelHelloMessageSchema>;
@@ -1116,14 +1578,66 @@ export type KernelExecuteReplyMessage = z.infer<
 export type KernelStreamMessage = z.infer<typeof KernelStreamMessageSchema>;
 export type KernelDisplayMessage = z.infer<typeof KernelDisplayMessageSchema>;
 export type KernelErrorMessage = z.infer<typeof KernelErrorMessageSchema>;
+export type KernelInputRequestMessage = z.infer<
+  typeof KernelInputRequestSchema
+>;
+export type KernelCompletionMatch = z.infer<typeof KernelCompletionMatchSchema>;
+export type KernelCompleteReply = z.infer<typeof KernelCompleteReplySchema>;
+export type KernelInspectReply = z.infer<typeof KernelInspectReplySchema>;
+export type KernelVariable = z.infer<typeof KernelVariableSchema>;
+export type KernelVariablesReply = z.infer<typeof KernelVariablesReplySchema>;
+export type KernelDebugVariable = z.infer<typeof KernelDebugVariableSchema>;
+export type KernelDebugScope = z.infer<typeof KernelDebugScopeSchema>;
+export type KernelDebugFrame = z.infer<typeof KernelDebugFrameSchema>;
+export type KernelDebugPausedMessage = z.infer<typeof KernelDebugPausedSchema>;
+export type KernelDebugResumedMessage = z.infer<
+  typeof KernelDebugResumedSchema
+>;
+export type KernelDiagnostic = z.infer<typeof KernelDiagnosticSchema>;
+export type KernelDiagnosticsMessage = z.infer<
+  typeof KernelDiagnosticsMessageSchema
+>;
+export type KernelCellSourceMessage = z.infer<
+  typeof KernelCellSourceMessageSchema
+>;
 export type KernelServerMessage = z.infer<typeof KernelServerMessageSchema>;
 export type KernelExecuteRequest = z.infer<typeof KernelExecuteRequestSchema>;
 export type KernelInterruptRequest = z.infer<
   typeof KernelInterruptRequestSchema
 >;
 export type KernelUiEventRequest = z.infer<typeof KernelUiEventRequestSchema>;
+export type KernelInputReply = z.infer<typeof KernelInputReplySchema>;
+export type KernelCompleteRequest = z.infer<typeof KernelCompleteRequestSchema>;
+export type KernelInspectRequest = z.infer<typeof KernelInspectRequestSchema>;
+export type KernelVariablesRequest = z.infer<
+  typeof KernelVariablesRequestSchema
+>;
+export type KernelDeleteVariableRequest = z.infer<
+  typeof KernelDeleteVariableRequestSchema
+>;
+export type KernelDebugAction = z.infer<typeof KernelDebugActionSchema>;
+export type KernelDebugRequest = z.infer<typeof KernelDebugRequestSchema>;
 export type KernelClientMessage = z.infer<typeof KernelClientMessageSchema>;
 
+export {
+  collectSensitiveValues,
+  compileRedactionPatterns,
+  createRedactor,
+  isValidRedactionPattern,
+  redactOutput,
+  redactValue,
+  REDACTED_TEXT,
+  type Redactor,
+} from "./redaction.js";
+export {
+  getLockedVersions,
+  getLockfileFingerprint,
+  lockfileMatchesPackages,
+} from "./lockfile.js";
+export {
+  scanTopLevelDeclarations,
+  type TopLevelDeclaration,
+} from "./declarations.js";
 export {
   NotebookTemplateSummarySchema,
   NotebookTemplateBadgeSchema,
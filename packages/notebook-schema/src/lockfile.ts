@@ -0,0 +1,77 @@
+// Reads the parts of an npm package-lock.json (lockfileVersion 2 or 3) that
+// matter to a notebook: which ranges it was resolved for and the versions it
+// pinned them to.
+
+import type { NotebookLockfile } from "./index.js";
+
+interface LockedPackage {
+  version?: unknown;
+  integrity?: unknown;
+  dependencies?: unknown;
+}
+
+const lockedPackages = (
+  lockfile: NotebookLockfile
+): Record<string, LockedPackage> => {
+  const packages = lockfile.packages;
+  return packages && typeof packages === "object"
+    ? (packages as Record<string, LockedPackage>)
+    : {};
+};
+
+const rootDependencies = (lockfile: NotebookLockfile) => {
+  const dependencies = lockedPackages(lockfile)[""]?.dependencies;
+  return dependencies && typeof dependencies === "object"
+    ? (dependencies as Record<string, unknown>)
+    : {};
+};
+
+// A lockfile only applies while the notebook asks for exactly the ranges it
+// was resolved for; `npm ci` refuses anything else.
+export const lockfileMatchesPackages = (
+  lockfile: NotebookLockfile | null | undefined,
+  packages: Record<string, string>
+) => {
+  if (!lockfile) {
+    return false;
+  }
+  const locked = rootDependencies(lockfile);
+  const names = Object.keys(packages);
+  return (
+    names.length === Object.keys(locked).length &&
+    names.every((name) => locked[name] === packages[name])
+  );
+};
+
+// Top-level packages and the versions the lockfile installs for them
+export const getLockedVersions = (
+  lockfile: NotebookLockfile | null | undefined
+): Record<string, string> => {
+  if (!lockfile) {
+    return {};
+  }
+  const packages = lockedPackages(lockfile);
+  const versions: Record<string, string> = {};
+  for (const name of Object.keys(rootDependencies(lockfile))) {
+    const version = packages[`node_modules/${name}`]?.version;
+    if (typeof version === "string") {
+      versions[name] = version;
+    }
+  }
+  return versions;
+};
+
+/**
+ * Identifies the resolved tree independent of formatting and key order, so
+ * a lockfile that went through a database or YAML compares equal to the
+ * file npm wrote.
+ */
+export const getLockfileFingerprint = (lockfile: NotebookLockfile) =>
+  Object.entries(lockedPackages(lockfile))
+    .filter(([path]) => path !== "")
+    .map(
+      ([path, entry]) =>
+        `${path}@${String(entry?.version ?? "")}#${String(entry?.integrity ?? "")}`
+    )
+    .sort()
+    .join("\n");
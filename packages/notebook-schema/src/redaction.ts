@@ -0,0 +1,132 @@
+// Masks sensitive values in anything a notebook shows or saves. The kernel
+// runs it over console output, displays and errors before they leave the
+// worker, and cell backends (SQL, HTTP) over their responses.
+
+import type { KernelEnv, NotebookOutput } from "./index.js";
+
+export const REDACTED_TEXT = "[redacted]";
+
+// Shorter values ("1", "dev") would mask unrelated text all over the output
+const MIN_REDACTED_LENGTH = 4;
+
+export type Redactor = (text: string) => string;
+
+const passThrough: Redactor = (text) => text;
+
+// Values of variables marked sensitive plus every secret
+export const collectSensitiveValues = (
+  env: Pick<Partial<KernelEnv>, "variables" | "sensitive" | "secrets">
+): string[] => {
+  const values: string[] = [];
+  for (const name of env.sensitive ?? []) {
+    const value = env.variables?.[name];
+    if (typeof value === "string") {
+      values.push(value);
+    }
+  }
+  values.push(...Object.values(env.secrets ?? {}));
+  return values;
+};
+
+// Invalid patterns are dropped rather than failing the run that uses them
+export const compileRedactionPatterns = (patterns: readonly string[]) => {
+  const compiled: RegExp[] = [];
+  for (const pattern of patterns) {
+    if (!pattern.trim()) continue;
+    try {
+      compiled.push(new RegExp(pattern, "g"));
+    } catch {
+      /* ignore */
+    }
+  }
+  return compiled;
+};
+
+export const isValidRedactionPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern, "g");
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const createRedactor = ({
+  values = [],
+  patterns = [],
+}: {
+  values?: readonly string[];
+  patterns?: readonly string[];
+}): Redactor => {
+  // Longest first so a value containing another is masked as a whole
+  const literals = Array.from(
+    new Set(values.filter((value) => value.length >= MIN_REDACTED_LENGTH))
+  ).sort((a, b) => b.length - a.length);
+  const expressions = compileRedactionPatterns(patterns);
+  if (literals.length === 0 && expressions.length === 0) {
+    return passThrough;
+  }
+  return (text) => {
+    let redacted = text;
+    for (const literal of literals) {
+      if (redacted.includes(literal)) {
+        redacted = redacted.split(literal).join(REDACTED_TEXT);
+      }
+    }
+    for (const expression of expressions) {
+      expression.lastIndex = 0;
+      redacted = redacted.replace(expression, (match) =>
+        match.length > 0 ? REDACTED_TEXT : match
+      );
+    }
+    return redacted;
+  };
+};
+
+// Redacts every string inside JSON-like data; other values are kept as is
+export const redactValue = <T>(value: T, redact: Redactor): T => {
+  if (redact === passThrough) {
+    return value;
+  }
+  if (typeof value === "string") {
+    return redact(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, redact)) as T;
+  }
+  if (value && typeof value === "object") {
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+      return value;
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = redactValue(item, redact);
+    }
+    return result as T;
+  }
+  return value;
+};
+
+export const redactOutput = <T extends NotebookOutput>(
+  output: T,
+  redact: Redactor
+): T => {
+  if (redact === passThrough) {
+    return output;
+  }
+  const value: NotebookOutput = output;
+  switch (value.type) {
+    case "stream":
+      return { ...value, text: redact(value.text) } as T;
+    case "error":
+      return {
+        ...value,
+        ename: redact(value.ename),
+        evalue: redact(value.evalue),
+        traceback: value.traceback.map(redact),
+      } as T;
+    default:
+      return { ...value, data: redactValue(value.data, redact) } as T;
+  }
+};
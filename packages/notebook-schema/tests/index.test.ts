@@ -2,9 +2,21 @@ import { describe, expect, it } from "vitest";
 import {
   KernelExecuteRequestSchema,
   KernelServerMessageSchema,
+  collectSensitiveValues,
   createCodeCell,
   createEmptyNotebook,
   createMarkdownCell,
+  createRedactor,
+  findCellLocations,
+  formatCellLocation,
+  getLockedVersions,
+  getLockfileFingerprint,
+  lockfileMatchesPackages,
+  mergeProjectEnv,
+  mergeProjectSql,
+  ProjectDefaultsSchema,
+  redactOutput,
+  scanTopLevelDeclarations,
 } from "../src/index.js";
 
 describe("notebook schema", () => {
@@ -43,4 +55,221 @@ describe("notebook schema", () => {
       expect(message.name).toBe("stdout");
     }
   });
+
+  it("finds cell locations in traceback lines", () => {
+    const location = formatCellLocation({
+      cellId: "cell-1",
+      language: "ts",
+      line: 3,
+      column: 9,
+    });
+    expect(location).toBe("cell-1.ts:3:9");
+    const cellIds = new Set(["cell-1", "index"]);
+    expect(findCellLocations(`    at explode (${location})`, cellIds)).toEqual([
+      { cellId: "cell-1", line: 3, column: 9, start: 16, end: 29 },
+    ]);
+    expect(
+      findCellLocations("    at node:internal/timers:588:17", cellIds)
+    ).toEqual([]);
+    expect(
+      findCellLocations(
+        "    at parse (/app/node_modules/lib/index.js:12:5)",
+        cellIds
+      )
+    ).toEqual([]);
+    expect(
+      findCellLocations("    at run (other-cell.ts:1:1)", cellIds)
+    ).toEqual([]);
+  });
+
+  it("scans top-level declarations with their types", () => {
+    const source = [
+      "interface Order { id: number }",
+      "const orders: Order[] = [",
+      "  { id: 1 },",
+      "];",
+      "async function load(id: number): Promise<Order> {",
+      "  return orders[0]!;",
+      "}",
+      "class Cart extends Map<string, Order> {}",
+    ].join("\n");
+    expect(
+      scanTopLevelDeclarations(source).map(({ kind, name, line, endLine }) => ({
+        kind,
+        name,
+        line,
+        endLine,
+      }))
+    ).toEqual([
+      { kind: "type", name: "Order", line: 0, endLine: 0 },
+      { kind: "variable", name: "orders", line: 1, endLine: 3 },
+      { kind: "function", name: "load", line: 4, endLine: 4 },
+      { kind: "class", name: "Cart", line: 7, endLine: 7 },
+    ]);
+    const [type, variable, fn, cls] = scanTopLevelDeclarations(source);
+    expect(type?.text).toBe("interface Order { id: number }");
+    expect(variable).toMatchObject({
+      typeAnnotation: "Order[]",
+      initializer: "[\n  { id: 1 },\n]",
+    });
+    expect(fn).toMatchObject({
+      async: true,
+      signature: "(id: number): Promise<Order>",
+    });
+    expect(cls?.heritage).toBe("extends Map<string, Order>");
+  });
+});
+
+describe("redaction", () => {
+  it("masks sensitive values, secrets and patterns", () => {
+    const values = collectSensitiveValues({
+      variables: { TOKEN: "tok-123456", REGION: "eu-west" },
+      sensitive: ["TOKEN"],
+      secrets: { DB_PASSWORD: "hunter22" },
+    });
+    expect(values).toEqual(["tok-123456", "hunter22"]);
+
+    const redact = createRedactor({
+      values: [...values, "ab"],
+      patterns: ["sk-[A-Za-z0-9]{8,}", "([invalid"],
+    });
+    expect(redact("tok-123456 hunter22 sk-abcdefghij eu-west ab")).toBe(
+      "[redacted] [redacted] [redacted] eu-west ab"
+    );
+  });
+
+  it("redacts every string inside outputs", () => {
+    const redact = createRedactor({ values: ["s3cr3t!"] });
+    expect(
+      redactOutput(
+        {
+          type: "display_data",
+          data: { "application/json": { nested: ["x s3cr3t!", 1] } },
+          metadata: {},
+        },
+        redact
+      )
+    ).toEqual({
+      type: "display_data",
+      data: { "application/json": { nested: ["x [redacted]", 1] } },
+      metadata: {},
+    });
+    expect(
+      redactOutput(
+        {
+          type: "error",
+          ename: "Error",
+          evalue: "s3cr3t! rejected",
+          traceback: ["at s3cr3t!"],
+        },
+        redact
+      )
+    ).toMatchObject({
+      evalue: "[redacted] rejected",
+      traceback: ["at [redacted]"],
+    });
+  });
+});
+
+describe("project defaults", () => {
+  const defaults = ProjectDefaultsSchema.parse({
+    env: {
+      packages: { lodash: "^4.17.21", zod: "^3.0.0" },
+      variables: { DB_URL: "postgres://project", REGION: "eu" },
+      sensitive: ["DB_URL"],
+    },
+    sql: {
+      connections: [
+        { id: "shared", driver: "postgres", name: "Warehouse" },
+        { id: "replaced", driver: "postgres", name: "Project" },
+      ],
+    },
+  });
+
+  it("lets notebook env values override the project's", () => {
+    const { env } = createEmptyNotebook({
+      env: {
+        runtime: "node",
+        version: "22.0.0",
+        packages: { zod: "^4.0.0" },
+        variables: { REGION: "us" },
+      },
+    });
+    const merged = mergeProjectEnv(env, defaults);
+    expect(merged.packages).toEqual({ lodash: "^4.17.21", zod: "^4.0.0" });
+    expect(merged.variables).toEqual({
+      DB_URL: "postgres://project",
+      REGION: "us",
+    });
+    expect(merged.sensitive).toEqual(["DB_URL"]);
+    expect(mergeProjectEnv(env, null)).toBe(env);
+  });
+
+  it("adds project connections unless the notebook replaces them", () => {
+    const merged = mergeProjectSql(
+      {
+        connections: [
+          {
+            id: "replaced",
+            driver: "postgres",
+            name: "Notebook",
+            config: { connectionString: "" },
+          },
+        ],
+      },
+      defaults
+    );
+    expect(
+      merged.connections.map((connection) => [connection.id, connection.name])
+    ).toEqual([
+      ["shared", "Warehouse"],
+      ["replaced", "Notebook"],
+    ]);
+  });
+});
+
+describe("lockfiles", () => {
+  const lockfile = {
+    name: "notebook",
+    lockfileVersion: 3,
+    packages: {
+      "": { dependencies: { lodash: "^4.17.0" } },
+      "node_modules/lodash": {
+        version: "4.17.21",
+        integrity: "sha512-abc",
+      },
+    },
+  };
+
+  it("applies only to the ranges it was resolved for", () => {
+    expect(lockfileMatchesPackages(lockfile, { lodash: "^4.17.0" })).toBe(true);
+    expect(lockfileMatchesPackages(lockfile, { lodash: "4.17.21" })).toBe(
+      false
+    );
+    expect(
+      lockfileMatchesPackages(lockfile, { lodash: "^4.17.0", zod: "^4.0.0" })
+    ).toBe(false);
+    expect(lockfileMatchesPackages(undefined, {})).toBe(false);
+  });
+
+  it("reads the versions pinned for top-level packages", () => {
+    expect(getLockedVersions(lockfile)).toEqual({ lodash: "4.17.21" });
+    expect(getLockedVersions(null)).toEqual({});
+  });
+
+  it("fingerprints the resolved tree regardless of key order", () => {
+    const reordered = {
+      packages: {
+        "node_modules/lodash": {
+          integrity: "sha512-abc",
+          version: "4.17.21",
+        },
+        "": { dependencies: { lodash: "^4.0.0" } },
+      },
+      lockfileVersion: 3,
+    };
+    expect(getLockfileFingerprint(reordered)).toBe(
+      getLockfileFingerprint(lockfile)
+    );
+  });
 });
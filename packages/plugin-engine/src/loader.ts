@@ -68,9 +68,39 @@ export function validatePlugin(plugin: unknown): plugin is CellPlugin {
     }
   }
 
+  // Magics are optional
+  if (p.magics !== undefined) {
+    if (!Array.isArray(p.magics)) {
+      return false;
+    }
+    for (const magic of p.magics as unknown[]) {
+      if (!validateMagicDefinition(magic)) {
+        return false;
+      }
+    }
+  }
+
   return true;
 }
 
+/**
+ * Validates a magic definition.
+ */
+function validateMagicDefinition(magic: unknown): boolean {
+  if (!magic || typeof magic !== "object") {
+    return false;
+  }
+
+  const m = magic as Record<string, unknown>;
+  if (typeof m.name !== "string" || !/^[A-Za-z_][\w-]*$/.test(m.name)) {
+    return false;
+  }
+  if (m.kind !== "line" && m.kind !== "cell") {
+    return false;
+  }
+  return typeof m.run === "function";
+}
+
 /**
  * Validates a cell type definition.
  */
@@ -1,27 +1,37 @@
 import type {
+  CellDependencies,
+  KernelDebugAction,
   DisplayDataOutput,
-  NotebookEnv,
+  KernelEnv,
   StreamOutput,
   OutputExecution,
   CodeCell,
 } from "@nodebooks/notebook-schema";
-import type { WorkerPool } from "./pool.js";
+import type {
+  InputHandler,
+  IntrospectionRequest,
+  ReservedWorker,
+  WorkerPool,
+} from "./pool.js";
+import type { DebugRunOptions } from "./debugger.js";
 
 export interface ExecuteOptions {
   cell: CodeCell;
   code: string;
   notebookId: string;
-  env: NotebookEnv;
+  env: KernelEnv;
   onStream?: (output: StreamOutput) => void;
   onDisplay?: (output: DisplayDataOutput) => void;
+  onInput?: InputHandler;
   timeoutMs?: number;
   globals?: Record<string, unknown>;
+  debug?: DebugRunOptions;
 }
 
 export interface InvokeInteractionOptions {
   handlerId: string;
   notebookId: string;
-  env: NotebookEnv;
+  env: KernelEnv;
   event: string;
   payload?: unknown;
   componentId?: string;
@@ -40,21 +50,41 @@ export interface ExecuteResult {
   >;
   execution: OutputExecution;
   globals?: Record<string, unknown>;
+  dependencies?: CellDependencies;
+}
+
+export interface WorkerClientOptions {
+  // Pin the client to the pool's sticky kernel for this key so live objects
+  // persist between runs. Without a key the client reserves its own worker
+  // and relies on the globals snapshot to carry state.
+  kernelKey?: string;
 }
 
+let nextRequestId = 1;
+
 export class WorkerClient {
   private currentJobId: string | null = null;
-  private reserved: ReturnType<WorkerPool["reserve"]> | null = null;
-  constructor(private readonly pool: WorkerPool) {}
+  private reserved: ReservedWorker | null = null;
+  constructor(
+    private readonly pool: WorkerPool,
+    private readonly options: WorkerClientOptions = {}
+  ) {}
+
+  private worker(): ReservedWorker {
+    if (this.options.kernelKey) {
+      // Re-acquire on every job: an evicted kernel is transparently replaced
+      this.reserved = this.pool.acquireKernel(this.options.kernelKey);
+    } else if (!this.reserved) {
+      this.reserved = this.pool.reserve();
+    }
+    return this.reserved;
+  }
 
   async execute(opts: ExecuteOptions): Promise<ExecuteResult> {
     const jobId = `${opts.notebookId}:${opts.cell.id}:${Date.now()}`;
     this.currentJobId = jobId;
     try {
-      if (!this.reserved) {
-        this.reserved = this.pool.reserve();
-      }
-      const res = await this.reserved.run(jobId, {
+      const res = await this.worker().run(jobId, {
         kind: "execute",
         cell: opts.cell,
         code: opts.code,
@@ -62,6 +92,9 @@ export class WorkerClient {
         env: opts.env,
         timeoutMs: opts.timeoutMs,
         globals: opts.globals,
+        preserveContext: Boolean(this.options.kernelKey),
+        onInput: opts.onInput,
+        debug: opts.debug,
         onStdout: (text) =>
           opts.onStream?.({ type: "stream", name: "stdout", text }),
         onStderr: (text) =>
@@ -94,10 +127,7 @@ export class WorkerClient {
     const jobId = `${opts.notebookId}:${opts.handlerId}:${Date.now()}`;
     this.currentJobId = jobId;
     try {
-      if (!this.reserved) {
-        this.reserved = this.pool.reserve();
-      }
-      const res = await this.reserved.run(jobId, {
+      const res = await this.worker().run(jobId, {
         kind: "invoke",
         handlerId: opts.handlerId,
         notebookId: opts.notebookId,
@@ -108,6 +138,7 @@ export class WorkerClient {
         cellId: opts.cellId,
         timeoutMs: opts.timeoutMs,
         globals: opts.globals,
+        preserveContext: Boolean(this.options.kernelKey),
         onStdout: (text) =>
           opts.onStream?.({ type: "stream", name: "stdout", text }),
         onStderr: (text) =>
@@ -134,6 +165,50 @@ export class WorkerClient {
     }
   }
 
+  // Introspection only looks at an existing kernel; it never starts one.
+  private liveWorker(): ReservedWorker | null {
+    const key = this.options.kernelKey;
+    if (key) {
+      return this.pool.hasKernel(key) ? this.worker() : null;
+    }
+    return this.reserved;
+  }
+
+  async complete(request: IntrospectionRequest) {
+    const worker = this.liveWorker();
+    if (!worker) return null;
+    return worker.complete(
+      `complete:${Date.now()}:${nextRequestId++}`,
+      request
+    );
+  }
+
+  async inspect(request: IntrospectionRequest) {
+    const worker = this.liveWorker();
+    if (!worker) return null;
+    return worker.inspect(`inspect:${Date.now()}:${nextRequestId++}`, request);
+  }
+
+  async listVariables() {
+    const worker = this.liveWorker();
+    if (!worker) return null;
+    return worker.listVariables(`variables:${Date.now()}:${nextRequestId++}`);
+  }
+
+  async deleteVariable(name: string) {
+    const worker = this.liveWorker();
+    if (!worker) return null;
+    return worker.deleteVariable(
+      `variables:${Date.now()}:${nextRequestId++}`,
+      name
+    );
+  }
+
+  // Step/continue/pause for the run started with `debug`
+  async debug(action: KernelDebugAction) {
+    await this.liveWorker()?.debug(action);
+  }
+
   cancel() {
     const id = this.currentJobId;
     if (id) {
@@ -144,7 +219,11 @@ export class WorkerClient {
 
   release() {
     try {
-      this.reserved?.release();
+      if (this.options.kernelKey) {
+        this.pool.releaseKernel(this.options.kernelKey);
+      } else {
+        this.reserved?.release();
+      }
     } catch (err) {
       void err;
     }
@@ -0,0 +1,366 @@
+import type {
+  KernelDebugAction,
+  KernelDebugFrame,
+  KernelDebugScope,
+  KernelDebugVariable,
+} from "@nodebooks/notebook-schema";
+import {
+  decodeMappings,
+  generatedPositionFor,
+  originalPositionFor,
+  parseInlineSourceMap,
+  type DecodedMappings,
+} from "@nodebooks/runtime-protocol";
+
+export interface DebugPausedEvent {
+  reason: string;
+  frames: KernelDebugFrame[];
+}
+
+export interface DebugRunOptions {
+  // 1-based lines of the cell being run
+  breakpoints: number[];
+  onPaused: (event: DebugPausedEvent) => void;
+  onResumed: () => void;
+}
+
+interface RemoteObject {
+  type: string;
+  subtype?: string;
+  className?: string;
+  value?: unknown;
+  unserializableValue?: string;
+  description?: string;
+  objectId?: string;
+}
+
+interface CallFrame {
+  functionName: string;
+  location: { scriptId: string; lineNumber: number; columnNumber?: number };
+  scopeChain: Array<{ type: string; name?: string; object: RemoteObject }>;
+}
+
+interface PausedParams {
+  reason: string;
+  hitBreakpoints?: string[];
+  data?: { scriptId?: string };
+  callFrames: CallFrame[];
+}
+
+interface CdpMessage {
+  id?: number;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { message?: string };
+}
+
+interface ParsedScript {
+  url: string;
+  sourceMapURL?: string;
+  // Resolved lazily from the inline map the runtime attaches to cells
+  cell?: { cellId: string; mappings: DecodedMappings } | null;
+}
+
+const CONNECT_TIMEOUT_MS = 5_000;
+const MAX_SCOPE_VARIABLES = 100;
+const INTERNAL_NAME = /^__nodebooks/;
+
+const describeRemoteObject = (
+  name: string,
+  value: RemoteObject | undefined
+): KernelDebugVariable => {
+  if (!value) {
+    return { name, valueType: "undefined", preview: "undefined" };
+  }
+  const valueType =
+    value.className ??
+    (value.subtype && value.subtype !== "null" ? value.subtype : value.type);
+  let preview: string;
+  if (value.type === "string") {
+    preview = JSON.stringify(value.value);
+  } else if (value.unserializableValue) {
+    preview = value.unserializableValue;
+  } else if (value.description !== undefined) {
+    preview = value.description;
+  } else {
+    preview = String(value.value);
+  }
+  return {
+    name,
+    valueType: value.subtype === "null" ? "null" : valueType,
+    preview,
+  };
+};
+
+const describeReason = (params: PausedParams) => {
+  switch (params.reason) {
+    case "other":
+      return params.hitBreakpoints?.length ? "breakpoint" : "debugger";
+    case "debugCommand":
+      return "pause";
+    default:
+      return params.reason;
+  }
+};
+
+// Chrome DevTools Protocol session against a worker's inspector. Locations
+// are translated through the source map the runtime inlines into every
+// compiled cell, so callers only ever see cell lines.
+export class KernelDebugger {
+  private nextId = 1;
+  private readonly pending = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void }
+  >();
+  private readonly scripts = new Map<string, ParsedScript>();
+  private options: (DebugRunOptions & { cellId: string }) | null = null;
+  private instrumentationId: string | null = null;
+  private paused = false;
+  private closed = false;
+
+  private constructor(private readonly socket: WebSocket) {
+    socket.addEventListener("message", (event) => {
+      this.handleMessage(String(event.data));
+    });
+    socket.addEventListener("close", () => {
+      this.closed = true;
+      for (const { reject } of this.pending.values()) {
+        reject(new Error("Debugger connection closed"));
+      }
+      this.pending.clear();
+      if (this.paused) {
+        this.paused = false;
+        this.options?.onResumed();
+      }
+    });
+  }
+
+  static connect(url: string): Promise<KernelDebugger> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url);
+      const timer = setTimeout(() => {
+        socket.close();
+        reject(new Error("Timed out attaching the debugger"));
+      }, CONNECT_TIMEOUT_MS);
+      socket.addEventListener("open", () => {
+        clearTimeout(timer);
+        resolve(new KernelDebugger(socket));
+      });
+      socket.addEventListener("error", () => {
+        clearTimeout(timer);
+        reject(new Error("Unable to attach the debugger"));
+      });
+    });
+  }
+
+  // Breakpoints are placed once the cell's script is compiled: the runtime
+  // is stopped right before the script runs, giving us its source map.
+  async start(cellId: string, options: DebugRunOptions) {
+    this.options = { ...options, cellId };
+    await this.send("Debugger.enable");
+    await this.send("Debugger.setBlackboxPatterns", {
+      patterns: ["^node:", "/node_modules/"],
+    });
+    const result = (await this.send("Debugger.setInstrumentationBreakpoint", {
+      instrumentation: "beforeScriptExecution",
+    })) as { breakpointId?: string };
+    this.instrumentationId = result.breakpointId ?? null;
+  }
+
+  async command(action: KernelDebugAction) {
+    if (this.closed) return;
+    const method =
+      action === "continue"
+        ? "Debugger.resume"
+        : action === "pause"
+          ? "Debugger.pause"
+          : `Debugger.${action}`;
+    if (action !== "pause" && !this.paused) return;
+    await this.send(method).catch(() => undefined);
+  }
+
+  // Disabling the domain resumes a paused worker so it can finish the job
+  async detach() {
+    if (this.closed) return;
+    await this.send("Debugger.disable").catch(() => undefined);
+    this.closed = true;
+    try {
+      this.socket.close();
+    } catch (err) {
+      void err;
+    }
+  }
+
+  private send(method: string, params?: object): Promise<unknown> {
+    if (this.closed) {
+      return Promise.reject(new Error("Debugger connection closed"));
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      try {
+        this.socket.send(JSON.stringify({ id, method, params: params ?? {} }));
+      } catch (err) {
+        this.pending.delete(id);
+        reject(err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+  }
+
+  private handleMessage(raw: string) {
+    let message: CdpMessage;
+    try {
+      message = JSON.parse(raw) as CdpMessage;
+    } catch {
+      return;
+    }
+    if (typeof message.id === "number") {
+      const waiter = this.pending.get(message.id);
+      this.pending.delete(message.id);
+      if (message.error) {
+        waiter?.reject(new Error(message.error.message ?? "CDP error"));
+      } else {
+        waiter?.resolve(message.result ?? {});
+      }
+      return;
+    }
+    switch (message.method) {
+      case "Debugger.scriptParsed": {
+        const params = message.params as {
+          scriptId: string;
+          url: string;
+          sourceMapURL?: string;
+        };
+        this.scripts.set(params.scriptId, {
+          url: params.url,
+          sourceMapURL: params.sourceMapURL,
+        });
+        break;
+      }
+      case "Debugger.paused":
+        void this.handlePaused(message.params as PausedParams).catch(() =>
+          this.send("Debugger.resume").catch(() => undefined)
+        );
+        break;
+      case "Debugger.resumed":
+        if (this.paused) {
+          this.paused = false;
+          this.options?.onResumed();
+        }
+        break;
+    }
+  }
+
+  private cellScript(scriptId: string) {
+    const script = this.scripts.get(scriptId);
+    if (!script) return null;
+    if (script.cell === undefined) {
+      const map = script.sourceMapURL
+        ? parseInlineSourceMap(script.sourceMapURL)
+        : null;
+      const source = map?.sources[0];
+      const match = source ? /^(.+)\.(?:js|ts)$/.exec(source) : null;
+      script.cell =
+        map && match
+          ? { cellId: match[1]!, mappings: decodeMappings(map.mappings) }
+          : null;
+    }
+    return script.cell;
+  }
+
+  private async handlePaused(params: PausedParams) {
+    const options = this.options;
+    if (!options) {
+      await this.send("Debugger.resume");
+      return;
+    }
+    if (params.reason === "instrumentation") {
+      await this.placeBreakpoints(params.data?.scriptId);
+      await this.send("Debugger.resume");
+      return;
+    }
+
+    const frames = params.callFrames.map(
+      (frame): Omit<KernelDebugFrame, "scopes"> => {
+        const cell = this.cellScript(frame.location.scriptId);
+        const name = frame.functionName || (cell ? "<cell>" : "(anonymous)");
+        if (!cell) {
+          return { name, url: this.scripts.get(frame.location.scriptId)?.url };
+        }
+        const position = originalPositionFor(cell.mappings, {
+          line: frame.location.lineNumber,
+          column: frame.location.columnNumber ?? 0,
+        });
+        return {
+          name,
+          cellId: cell.cellId,
+          line: position ? position.line + 1 : undefined,
+          column: position ? position.column + 1 : undefined,
+        };
+      }
+    );
+
+    // Stepping past the end of a cell lands in runtime internals; keep going
+    // until notebook code is on top again.
+    const topIsCell = frames[0]?.line !== undefined;
+    if (!topIsCell) {
+      const cellBelow = frames.some((frame) => frame.line !== undefined);
+      await this.send(cellBelow ? "Debugger.stepOut" : "Debugger.resume");
+      return;
+    }
+
+    const scopes = await this.readScopes(params.callFrames[0]!);
+    this.paused = true;
+    options.onPaused({
+      reason: describeReason(params),
+      frames: frames.map((frame, index) => ({
+        ...frame,
+        scopes: index === 0 ? scopes : [],
+      })),
+    });
+  }
+
+  private async placeBreakpoints(scriptId: string | undefined) {
+    const options = this.options;
+    if (!options || !scriptId) return;
+    const cell = this.cellScript(scriptId);
+    if (!cell || cell.cellId !== options.cellId) return;
+    for (const line of new Set(options.breakpoints)) {
+      const position = generatedPositionFor(cell.mappings, line - 1);
+      if (!position) continue;
+      await this.send("Debugger.setBreakpoint", {
+        location: {
+          scriptId,
+          lineNumber: position.line,
+          columnNumber: position.column,
+        },
+      }).catch(() => undefined);
+    }
+    if (this.instrumentationId) {
+      await this.send("Debugger.removeBreakpoint", {
+        breakpointId: this.instrumentationId,
+      }).catch(() => undefined);
+      this.instrumentationId = null;
+    }
+  }
+
+  private async readScopes(frame: CallFrame): Promise<KernelDebugScope[]> {
+    const scopes: KernelDebugScope[] = [];
+    for (const scope of frame.scopeChain) {
+      if (scope.type === "global" || !scope.object.objectId) continue;
+      const result = (await this.send("Runtime.getProperties", {
+        objectId: scope.object.objectId,
+        ownProperties: true,
+      }).catch(() => null)) as {
+        result?: Array<{ name: string; value?: RemoteObject }>;
+      } | null;
+      const variables = (result?.result ?? [])
+        .filter((property) => !INTERNAL_NAME.test(property.name))
+        .slice(0, MAX_SCOPE_VARIABLES)
+        .map((property) => describeRemoteObject(property.name, property.value));
+      scopes.push({ type: scope.type, name: scope.name, variables });
+    }
+    return scopes;
+  }
+}
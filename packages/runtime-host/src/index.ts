@@ -1,2 +1,14 @@
-export { WorkerPool } from "./pool.js";
+export { WorkerPool, KernelLimitError } from "./pool.js";
+export type {
+  InputHandler,
+  IntrospectionRequest,
+  WorkerPoolOptions,
+  ReservedWorker,
+} from "./pool.js";
+export type { DebugPausedEvent, DebugRunOptions } from "./debugger.js";
 export { WorkerClient } from "./client.js";
+export type {
+  ExecuteOptions,
+  ExecuteResult,
+  WorkerClientOptions,
+} from "./client.js";
@@ -3,33 +3,72 @@ import { createRequire } from "node:module";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
 import os from "node:os";
-import type { IpcEventMessage, IpcRunCell } from "@nodebooks/runtime-protocol";
+import type {
+  IpcCloseInspector,
+  IpcComplete,
+  IpcCompleteResult,
+  IpcDeleteVariable,
+  IpcEventMessage,
+  IpcInputReply,
+  IpcInputRequest,
+  IpcInspect,
+  IpcInspectResult,
+  IpcInspectorReady,
+  IpcListVariables,
+  IpcOpenInspector,
+  IpcRunCell,
+  IpcVariables,
+} from "@nodebooks/runtime-protocol";
 import { IpcEventMessageSchema } from "@nodebooks/runtime-protocol";
-import type { CodeCell, NotebookEnv } from "@nodebooks/notebook-schema";
+import type {
+  CellDependencies,
+  CodeCell,
+  KernelEnv,
+} from "@nodebooks/notebook-schema";
 import { tryDecode, StreamKind } from "@nodebooks/runtime-protocol";
-import type { DisplayDataOutput } from "@nodebooks/notebook-schema";
+import type {
+  DisplayDataOutput,
+  KernelDebugAction,
+} from "@nodebooks/notebook-schema";
+import { KernelDebugger, type DebugRunOptions } from "./debugger.js";
 
 export interface ExecuteOptions {
   cell: CodeCell;
   code: string;
   notebookId: string;
-  env: NotebookEnv;
+  env: KernelEnv;
   globals?: Record<string, unknown>;
+  preserveContext?: boolean;
   timeoutMs?: number;
   onStdout?: (text: string) => void;
   onStderr?: (text: string) => void;
   onDisplay?: (obj: unknown) => void;
+  onInput?: InputHandler;
+  // Attach a debugger for this run (reserved and sticky workers only)
+  debug?: DebugRunOptions;
+}
+
+// Answers a prompt() raised by the cell; `null` cancels the request.
+export type InputHandler = (request: {
+  prompt: string;
+  password: boolean;
+}) => Promise<string | null>;
+
+export interface IntrospectionRequest {
+  code: string;
+  cursorPos: number;
 }
 
 export interface InvokeHandlerOptions {
   handlerId: string;
   notebookId: string;
-  env: NotebookEnv;
+  env: KernelEnv;
   event: string;
   payload?: unknown;
   componentId?: string;
   cellId?: string;
   globals?: Record<string, unknown>;
+  preserveContext?: boolean;
   timeoutMs?: number;
   onStdout?: (text: string) => void;
   onStderr?: (text: string) => void;
@@ -49,6 +88,7 @@ export interface ExecuteResult {
     error?: { name: string; message: string; stack?: string };
   };
   globals?: Record<string, unknown>;
+  dependencies?: CellDependencies;
 }
 
 export interface WorkerPoolOptions {
@@ -58,8 +98,28 @@ export interface WorkerPoolOptions {
   maxOutputBytes?: number; // cap for combined stdout/stderr/display frames
   batchMs?: number; // forwarded to worker via env NODEBOOKS_BATCH_MS
   cancelGraceMs?: number; // time from Cancel to kill
+  maxKernels?: number; // cap for sticky per-session kernels
+  kernelIdleMs?: number; // idle time before a sticky kernel is shut down
 }
 
+export type ReservedWorker = ReturnType<WorkerPool["reserve"]>;
+
+export class KernelLimitError extends Error {
+  constructor(limit: number) {
+    super(
+      `All ${limit} kernel processes are busy. Try again once another notebook finishes running.`
+    );
+    this.name = "KernelLimitError";
+  }
+}
+
+type StickyKernel = {
+  worker: ReservedWorker;
+  running: number;
+  lastUsed: number;
+  idleTimer: NodeJS.Timeout | null;
+};
+
 class WorkerHandle {
   readonly child: ChildProcess;
   busy = false;
@@ -87,6 +147,7 @@ export class WorkerPool {
   private readonly workers: WorkerHandle[] = [];
   private readonly queue: Array<() => void> = [];
   private readonly active = new Map<string, ActiveEntry>();
+  private readonly kernels = new Map<string, StickyKernel>();
 
   constructor(
     sizeOrOpts: number | WorkerPoolOptions = Math.max(
@@ -101,6 +162,8 @@ export class WorkerPool {
       maxOutputBytes: 5_000_000,
       batchMs: 25,
       cancelGraceMs: 250,
+      maxKernels: 8,
+      kernelIdleMs: 30 * 60_000,
     };
     const cfg =
       typeof sizeOrOpts === "number"
@@ -118,6 +181,134 @@ export class WorkerPool {
     this.opts.perJobTimeoutMs = timeoutMs;
   }
 
+  setKernelLimits({
+    maxKernels,
+    kernelIdleMs,
+  }: Pick<WorkerPoolOptions, "maxKernels" | "kernelIdleMs">) {
+    if (maxKernels !== undefined && Number.isFinite(maxKernels)) {
+      this.opts.maxKernels = Math.max(1, Math.trunc(maxKernels));
+    }
+    if (kernelIdleMs !== undefined && Number.isFinite(kernelIdleMs)) {
+      this.opts.kernelIdleMs = Math.max(0, kernelIdleMs);
+    }
+  }
+
+  // Sticky kernels: one long-lived dedicated worker per key (usually a
+  // notebook session) so live objects survive between cells. Kernels are shut
+  // down after `kernelIdleMs` without jobs; when `maxKernels` is reached the
+  // least recently used idle kernel is evicted to make room.
+  acquireKernel(key: string): ReservedWorker {
+    let kernel = this.kernels.get(key);
+    if (!kernel) {
+      if (this.kernels.size >= this.opts.maxKernels) {
+        this.evictIdleKernel();
+      }
+      kernel = {
+        worker: this.reserve(),
+        running: 0,
+        lastUsed: Date.now(),
+        idleTimer: null,
+      };
+      this.kernels.set(key, kernel);
+      this.scheduleKernelIdle(key, kernel);
+    }
+    const entry = kernel;
+    return {
+      run: async (jobId, opts) => {
+        if (this.kernels.get(key) !== entry) {
+          throw new Error("Kernel has been shut down");
+        }
+        entry.running += 1;
+        if (entry.idleTimer) {
+          clearTimeout(entry.idleTimer);
+          entry.idleTimer = null;
+        }
+        try {
+          return await entry.worker.run(jobId, opts);
+        } finally {
+          entry.running -= 1;
+          entry.lastUsed = Date.now();
+          this.scheduleKernelIdle(key, entry);
+        }
+      },
+      cancel: (jobId) => entry.worker.cancel(jobId),
+      complete: (jobId, request) => entry.worker.complete(jobId, request),
+      inspect: (jobId, request) => entry.worker.inspect(jobId, request),
+      listVariables: (jobId) => entry.worker.listVariables(jobId),
+      deleteVariable: (jobId, name) => entry.worker.deleteVariable(jobId, name),
+      debug: (action) => entry.worker.debug(action),
+      release: () => {
+        if (this.kernels.get(key) === entry) {
+          this.releaseKernel(key);
+        }
+      },
+    };
+  }
+
+  hasKernel(key: string) {
+    return this.kernels.has(key);
+  }
+
+  get kernelCount() {
+    return this.kernels.size;
+  }
+
+  releaseKernel(key: string) {
+    const kernel = this.kernels.get(key);
+    if (!kernel) return;
+    this.kernels.delete(key);
+    if (kernel.idleTimer) {
+      clearTimeout(kernel.idleTimer);
+      kernel.idleTimer = null;
+    }
+    kernel.worker.release();
+  }
+
+  // Stops every worker so a short-lived host (e.g. the CLI) can exit. The
+  // pool must not be used afterwards.
+  close() {
+    for (const key of Array.from(this.kernels.keys())) {
+      this.releaseKernel(key);
+    }
+    for (const worker of this.workers) {
+      try {
+        worker.child.kill();
+      } catch (err) {
+        void err;
+      }
+    }
+  }
+
+  private scheduleKernelIdle(key: string, kernel: StickyKernel) {
+    if (kernel.idleTimer) {
+      clearTimeout(kernel.idleTimer);
+    }
+    kernel.idleTimer = null;
+    if (kernel.running > 0 || this.opts.kernelIdleMs <= 0) return;
+    const timer = setTimeout(() => {
+      if (this.kernels.get(key) === kernel && kernel.running === 0) {
+        this.releaseKernel(key);
+      }
+    }, this.opts.kernelIdleMs);
+    timer.unref?.();
+    kernel.idleTimer = timer;
+  }
+
+  private evictIdleKernel() {
+    let candidate: string | null = null;
+    let oldest = Number.POSITIVE_INFINITY;
+    for (const [key, kernel] of this.kernels) {
+      if (kernel.running === 0 && kernel.lastUsed < oldest) {
+        oldest = kernel.lastUsed;
+        candidate = key;
+      }
+    }
+    if (candidate === null) {
+      throw new KernelLimitError(this.opts.maxKernels);
+    }
+    this.releaseKernel(candidate);
+  }
+
   async run(
     jobId: string,
     opts: WorkerJobOptions | ExecuteOptions
@@ -194,6 +385,11 @@ export class WorkerPool {
           }
           const msg = parsed.data as IpcEventMessage;
           switch (msg.type) {
+            case "InputRequest":
+              if (opts.kind === "execute") {
+                answerInputRequest(child, msg, opts.onInput);
+              }
+              break;
             case "Error":
               cleanup();
               reject(new Error(msg.message));
@@ -204,6 +400,7 @@ export class WorkerPool {
                 outputs: msg.outputs,
                 execution: msg.execution,
                 globals: msg.globals ?? {},
+                dependencies: msg.dependencies,
               });
               break;
           }
@@ -260,6 +457,7 @@ export class WorkerPool {
           env: opts.env,
           timeoutMs: timeout,
           globals: opts.globals,
+          preserveContext: opts.preserveContext,
         };
         child.send(payload);
       } else {
@@ -275,6 +473,7 @@ export class WorkerPool {
           cellId: opts.cellId,
           timeoutMs: timeout,
           globals: opts.globals,
+          preserveContext: opts.preserveContext,
         });
       }
     });
@@ -322,13 +521,13 @@ export class WorkerPool {
     let cancelTimer: NodeJS.Timeout | null = null;
     let rejectCurrent: ((e: unknown) => void) | null = null;
     let released = false;
-    const runOnChild = (
+    let debugSession: KernelDebugger | null = null;
+    const runJob = (
       jobId: string,
-      opts: WorkerJobOptions | ExecuteOptions
+      job: WorkerJobOptions
     ): Promise<ExecuteResult> => {
       runningJobId = jobId;
       return new Promise<ExecuteResult>((resolve, reject) => {
-        const job = this.normalizeJobOptions(opts);
         rejectCurrent = reject;
         let bytes = 0;
         const onMessage = (raw: unknown) => {
@@ -348,6 +547,14 @@ export class WorkerPool {
             const parsed = IpcEventMessageSchema.safeParse(raw);
             if (!parsed.success) return;
             const msg = parsed.data as IpcEventMessage;
+            if (msg.type === "InputRequest") {
+              answerInputRequest(
+                child,
+                msg,
+                job.kind === "execute" ? job.onInput : undefined
+              );
+              return;
+            }
             if (msg.type === "Error") {
               cleanup();
               reject(new Error(msg.message));
@@ -359,6 +566,7 @@ export class WorkerPool {
                 outputs: msg.outputs,
                 execution: msg.execution,
                 globals: msg.globals ?? {},
+                dependencies: msg.dependencies,
               });
               return;
             }
@@ -409,6 +617,8 @@ export class WorkerPool {
             env: job.env,
             timeoutMs: timeout,
             globals: job.globals,
+            preserveContext: job.preserveContext,
+            debug: Boolean(job.debug),
           };
           child.send(payload);
         } else {
@@ -424,12 +634,45 @@ export class WorkerPool {
             cellId: job.cellId,
             timeoutMs: timeout,
             globals: job.globals,
+            preserveContext: job.preserveContext,
           });
         }
       });
     };
 
+    const runOnChild = async (
+      jobId: string,
+      opts: WorkerJobOptions | ExecuteOptions
+    ): Promise<ExecuteResult> => {
+      const job = this.normalizeJobOptions(opts);
+      if (job.kind !== "execute" || !job.debug) {
+        return runJob(jobId, job);
+      }
+      const session = await attachDebugger(child, jobId);
+      try {
+        await session.start(job.cell.id, job.debug);
+      } catch (err) {
+        await detachDebugger(child, session);
+        throw err;
+      }
+      debugSession = session;
+      try {
+        return await runJob(jobId, job);
+      } finally {
+        if (debugSession === session) debugSession = null;
+        await detachDebugger(child, session);
+      }
+    };
+
+    const debug = (action: KernelDebugAction) =>
+      debugSession?.command(action) ?? Promise.resolve();
+
     const cancel = (jobId: string) => {
+      // A paused worker cannot see the Cancel message until it resumes
+      if (debugSession) {
+        void debugSession.detach();
+        debugSession = null;
+      }
       try {
         child.send({ type: "Cancel", jobId });
       } catch (err) {
@@ -471,10 +714,145 @@ export class WorkerPool {
       }
     };
 
-    return { run: runOnChild, cancel, release };
+    // Introspection is answered beside any in-flight job on the same child
+    const complete = (jobId: string, request: IntrospectionRequest) =>
+      requestIntrospection<IpcCompleteResult>(child, {
+        type: "Complete",
+        jobId,
+        ...request,
+      });
+    const inspect = (jobId: string, request: IntrospectionRequest) =>
+      requestIntrospection<IpcInspectResult>(child, {
+        type: "Inspect",
+        jobId,
+        ...request,
+      });
+
+    const listVariables = (jobId: string) =>
+      requestIntrospection<IpcVariables>(child, {
+        type: "ListVariables",
+        jobId,
+      });
+    const deleteVariable = (jobId: string, name: string) =>
+      requestIntrospection<IpcVariables>(child, {
+        type: "DeleteVariable",
+        jobId,
+        name,
+      });
+
+    return {
+      run: runOnChild,
+      cancel,
+      release,
+      complete,
+      inspect,
+      listVariables,
+      deleteVariable,
+      debug,
+    };
   }
 }
 
+// Opens the worker's inspector and connects to it over the DevTools protocol
+const attachDebugger = async (child: ChildProcess, jobId: string) => {
+  const ready = await requestIntrospection<IpcInspectorReady>(child, {
+    type: "OpenInspector",
+    jobId: `${jobId}:inspector`,
+  });
+  if (!ready?.url) {
+    throw new Error("Unable to open the kernel inspector");
+  }
+  return KernelDebugger.connect(ready.url);
+};
+
+// Disconnects and stops the worker's inspector so no port outlives the run
+const detachDebugger = async (child: ChildProcess, session: KernelDebugger) => {
+  await session.detach();
+  const message: IpcCloseInspector = { type: "CloseInspector" };
+  try {
+    child.send(message);
+  } catch (err) {
+    void err;
+  }
+};
+
+const INTROSPECTION_TIMEOUT_MS = 2_000;
+
+// Resolves null when the worker does not answer in time (e.g. it is stuck in
+// a synchronous loop) so editor requests never pile up.
+const requestIntrospection = <
+  T extends
+    | IpcCompleteResult
+    | IpcInspectResult
+    | IpcVariables
+    | IpcInspectorReady,
+>(
+  child: ChildProcess,
+  message:
+    | IpcComplete
+    | IpcInspect
+    | IpcListVariables
+    | IpcDeleteVariable
+    | IpcOpenInspector
+): Promise<T | null> =>
+  new Promise<T | null>((resolve) => {
+    const finish = (result: T | null) => {
+      clearTimeout(timer);
+      child.off("message", onMessage);
+      resolve(result);
+    };
+    const onMessage = (raw: unknown) => {
+      if (!raw || typeof raw !== "object" || !("type" in raw)) return;
+      const parsed = IpcEventMessageSchema.safeParse(raw);
+      if (!parsed.success) return;
+      const msg = parsed.data;
+      if (
+        (msg.type === "CompleteResult" ||
+          msg.type === "InspectResult" ||
+          msg.type === "Variables" ||
+          msg.type === "InspectorReady") &&
+        msg.jobId === message.jobId
+      ) {
+        finish(msg as T);
+      }
+    };
+    const timer = setTimeout(() => finish(null), INTROSPECTION_TIMEOUT_MS);
+    child.on("message", onMessage);
+    try {
+      child.send(message);
+    } catch {
+      finish(null);
+    }
+  });
+
+const answerInputRequest = (
+  child: ChildProcess,
+  request: IpcInputRequest,
+  onInput: InputHandler | undefined
+) => {
+  const reply = (value: string | null) => {
+    const message: IpcInputReply = {
+      type: "InputReply",
+      jobId: request.jobId,
+      requestId: request.requestId,
+      ...(value === null ? { cancelled: true } : { value }),
+    };
+    try {
+      child.send(message);
+    } catch {
+      /* worker already gone */
+    }
+  };
+  if (!onInput) {
+    reply(null);
+    return;
+  }
+  onInput({ prompt: request.prompt, password: request.password }).then(
+    reply,
+    () => reply(null)
+  );
+};
+
 const spawnWorker = (opts: Required<WorkerPoolOptions>): ChildProcess => {
   const req = createRequire(import.meta.url);
   type FsLike = { existsSync: (p: string) => boolean };
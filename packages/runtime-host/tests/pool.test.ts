@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import { WorkerPool } from "../src/pool.js";
 import { createCodeCell, NotebookEnvSchema } from "@nodebooks/notebook-schema";
+import type { DebugPausedEvent } from "../src/debugger.js";
 
 const makeEnv = () =>
   NotebookEnvSchema.parse({ runtime: "node", packages: {}, variables: {} });
@@ -78,3 +79,135 @@ describe("WorkerPool", () => {
     }).rejects.toThrow();
   }, 15000);
 });
+
+describe("WorkerPool sticky kernels", () => {
+  it("keeps live objects between runs on the same kernel", async () => {
+    const pool = new WorkerPool({ size: 1, perJobTimeoutMs: 5000 });
+    const env = makeEnv();
+    const cell = createCodeCell({ language: "js", source: "" });
+    const kernel = pool.acquireKernel("session-live");
+    try {
+      await kernel.run("job-define", {
+        cell,
+        code: `class Counter { n = 0; inc() { return ++this.n; } }
+const counter = new Counter();
+counter.inc();`,
+        notebookId: "nb-live",
+        env,
+        preserveContext: true,
+      });
+      let stdout = "";
+      const res = await pool.acquireKernel("session-live").run("job-use", {
+        cell,
+        code: `console.log(counter.inc(), typeof counter.inc);`,
+        notebookId: "nb-live",
+        env,
+        // Stale JSON copy sent by the client must not replace the instance
+        globals: { counter: { n: 0 } },
+        preserveContext: true,
+        onStdout: (t) => (stdout += t),
+      });
+      expect(res.execution.status).toBe("ok");
+      expect(stdout).toMatch(/2 function/);
+
+      const completion = await kernel.complete("job-complete", {
+        code: "counter.",
+        cursorPos: 8,
+      });
+      expect(completion?.matches.map((match) => match.label)).toEqual(
+        expect.arrayContaining(["inc", "n"])
+      );
+      const hover = await kernel.inspect("job-inspect", {
+        code: "counter",
+        cursorPos: 3,
+      });
+      expect(hover).toMatchObject({ found: true, valueType: "Counter" });
+    } finally {
+      kernel.release();
+    }
+    expect(pool.hasKernel("session-live")).toBe(false);
+  }, 20000);
+
+  it("pauses on cell breakpoints and steps through lines", async () => {
+    const pool = new WorkerPool({ size: 1, perJobTimeoutMs: 5000 });
+    const env = makeEnv();
+    const cell = createCodeCell({ language: "js", source: "" });
+    const worker = pool.reserve();
+    const pauses: DebugPausedEvent[] = [];
+    let waiter: (() => void) | null = null;
+    const nextPause = () =>
+      new Promise<void>((resolve) => {
+        waiter = resolve;
+      });
+    try {
+      const paused = nextPause();
+      const run = worker.run("job-debug", {
+        cell,
+        code: "let a = 1;\nlet b = a + 1;\nb;",
+        notebookId: "nb-debug",
+        env,
+        debug: {
+          breakpoints: [2],
+          onPaused: (event) => {
+            pauses.push(event);
+            waiter?.();
+          },
+          onResumed: () => {},
+        },
+      });
+      await paused;
+      expect(pauses[0]).toMatchObject({ reason: "breakpoint" });
+      expect(pauses[0]!.frames[0]).toMatchObject({
+        cellId: cell.id,
+        line: 2,
+      });
+      const variables = pauses[0]!.frames[0]!.scopes.flatMap(
+        (scope) => scope.variables
+      );
+      expect(variables).toContainEqual(
+        expect.objectContaining({ name: "a", preview: "1" })
+      );
+
+      const stepped = nextPause();
+      await worker.debug("stepOver");
+      await stepped;
+      expect(pauses[1]).toMatchObject({ reason: "step" });
+      expect(pauses[1]!.frames[0]).toMatchObject({ line: 3 });
+
+      await worker.debug("continue");
+      const res = await run;
+      expect(res.execution.status).toBe("ok");
+
+      let stdout = "";
+      const after = await worker.run("job-after-debug", {
+        cell,
+        code: 'const { url } = await import("node:inspector");\nconsole.log(String(url()));',
+        notebookId: "nb-debug",
+        env,
+        onStdout: (t) => (stdout += t),
+      });
+      expect(after.execution.status).toBe("ok");
+      expect(stdout.trim()).toBe("undefined");
+    } finally {
+      worker.release();
+    }
+  }, 20000);
+
+  it("evicts the least recently used idle kernel at the cap", () => {
+    const pool = new WorkerPool({ size: 1, maxKernels: 2 });
+    const first = pool.acquireKernel("a");
+    const second = pool.acquireKernel("b");
+    const third = pool.acquireKernel("c");
+    try {
+      expect(pool.kernelCount).toBe(2);
+      expect(pool.hasKernel("a")).toBe(false);
+      expect(pool.hasKernel("b")).toBe(true);
+      expect(pool.hasKernel("c")).toBe(true);
+    } finally {
+      first.release();
+      second.release();
+      third.release();
+    }
+    expect(pool.kernelCount).toBe(0);
+  });
+});
@@ -1,3 +1,4 @@
+import inspector from "node:inspector";
 import process from "node:process";
 import { loadRuntimeConfig } from "@nodebooks/config";
 import {
@@ -5,11 +6,24 @@ import {
   IpcRunCellSchema,
   IpcInvokeHandlerSchema,
   IpcCancelSchema,
+  IpcInputReplySchema,
+  IpcCompleteSchema,
+  IpcInspectSchema,
+  IpcListVariablesSchema,
+  IpcDeleteVariableSchema,
+  IpcOpenInspectorSchema,
+  IpcCloseInspectorSchema,
   IpcPingSchema,
   type IpcControlMessage,
   type IpcRunCell,
   type IpcInvokeHandler,
   type IpcCancel,
+  type IpcInputReply,
+  type IpcComplete,
+  type IpcInspect,
+  type IpcListVariables,
+  type IpcDeleteVariable,
+  type IpcOpenInspector,
   packText,
   StreamKind,
 } from "@nodebooks/runtime-protocol";
@@ -19,6 +33,9 @@ type RunContext = { jobId: string; cancelled: boolean };
 
 let current: RunContext | null = null;
 const runtime = new NotebookRuntime();
+// prompt() calls waiting on an InputReply from the host, keyed by requestId
+const pendingInputs = new Map<string, (value: string | null) => void>();
+let nextInputId = 1;
 
 const safeSend = (msg: unknown) => {
   try {
@@ -30,6 +47,22 @@ const safeSend = (msg: unknown) => {
   }
 };
 
+const requestInput = (
+  jobId: string,
+  request: { prompt: string; password: boolean }
+) =>
+  new Promise<string | null>((resolve) => {
+    const requestId = `${jobId}:${nextInputId++}`;
+    pendingInputs.set(requestId, resolve);
+    safeSend({
+      type: "InputRequest",
+      jobId,
+      requestId,
+      prompt: request.prompt,
+      password: request.password,
+    });
+  });
+
 const handleRun = async (payload: IpcRunCell) => {
   current = { jobId: payload.jobId, cancelled: false };
   safeSend({ type: "Ack", jobId: payload.jobId });
@@ -39,27 +72,34 @@ const handleRun = async (payload: IpcRunCell) => {
   let stderrBuf = "";
   let flushTimer: NodeJS.Timeout | null = null;
   const batchMs = loadRuntimeConfig().batchMs;
+  const flush = () => {
+    try {
+      if (stdoutBuf) {
+        const frame = packText(StreamKind.Stdout, jobIdNum, stdoutBuf);
+        safeSend(frame);
+        stdoutBuf = "";
+      }
+      if (stderrBuf) {
+        const frame = packText(StreamKind.Stderr, jobIdNum, stderrBuf);
+        safeSend(frame);
+        stderrBuf = "";
+      }
+    } finally {
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+      }
+    }
+  };
   const scheduleFlush = () => {
+    // Timers never fire while the debugger holds the thread, so output
+    // written before a breakpoint goes out right away.
+    if (payload.debug) {
+      flush();
+      return;
+    }
     if (flushTimer) return;
-    flushTimer = setTimeout(() => {
-      try {
-        if (stdoutBuf) {
-          const frame = packText(StreamKind.Stdout, jobIdNum, stdoutBuf);
-          safeSend(frame);
-          stdoutBuf = "";
-        }
-        if (stderrBuf) {
-          const frame = packText(StreamKind.Stderr, jobIdNum, stderrBuf);
-          safeSend(frame);
-          stderrBuf = "";
-        }
-      } finally {
-        if (flushTimer) {
-          clearTimeout(flushTimer);
-          flushTimer = null;
-        }
-      }
-    }, batchMs);
+    flushTimer = setTimeout(flush, batchMs);
   };
 
   try {
@@ -70,6 +110,8 @@ const handleRun = async (payload: IpcRunCell) => {
       env: payload.env,
       timeoutMs: payload.timeoutMs,
       globals: payload.globals,
+      preserveContext: payload.preserveContext,
+      debug: payload.debug,
       onStream: (stream) => {
         if (current?.cancelled) return;
         if (stream.name === "stdout") stdoutBuf += stream.text;
@@ -84,6 +126,10 @@ const handleRun = async (payload: IpcRunCell) => {
           data: display,
         });
       },
+      onInput: async (request) => {
+        if (current?.cancelled) return null;
+        return requestInput(payload.jobId, request);
+      },
     });
 
     // Convert globals to plain object - VM context objects might not serialize correctly
@@ -129,6 +175,7 @@ const handleRun = async (payload: IpcRunCell) => {
       outputs: result.outputs,
       execution: result.execution,
       globals: plainGlobals,
+      dependencies: result.dependencies,
     });
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
@@ -187,6 +234,7 @@ const handleInvoke = async (payload: IpcInvokeHandler) => {
       cellId: payload.cellId,
       timeoutMs: payload.timeoutMs,
       globals: payload.globals,
+      preserveContext: payload.preserveContext,
       onStream: (stream) => {
         if (current?.cancelled) return;
         if (stream.name === "stdout") stdoutBuf += stream.text;
@@ -260,8 +308,70 @@ const handleInvoke = async (payload: IpcInvokeHandler) => {
   }
 };
 
-const handleCancel = (_payload: IpcCancel) => {
+const handleCancel = (payload: IpcCancel) => {
   if (current) current.cancelled = true;
+  for (const [requestId, resolve] of pendingInputs) {
+    if (requestId.startsWith(`${payload.jobId}:`)) {
+      pendingInputs.delete(requestId);
+      resolve(null);
+    }
+  }
+};
+
+const handleInputReply = (payload: IpcInputReply) => {
+  const resolve = pendingInputs.get(payload.requestId);
+  if (!resolve) return;
+  pendingInputs.delete(payload.requestId);
+  resolve(payload.cancelled ? null : (payload.value ?? ""));
+};
+
+// Introspection reads the live context synchronously, so it is answered
+// even while a cell is awaiting.
+const handleComplete = (payload: IpcComplete) => {
+  const result = runtime.complete(payload.code, payload.cursorPos);
+  safeSend({ type: "CompleteResult", jobId: payload.jobId, ...result });
+};
+
+const handleInspect = (payload: IpcInspect) => {
+  const result = runtime.inspect(payload.code, payload.cursorPos);
+  safeSend({ type: "InspectResult", jobId: payload.jobId, ...result });
+};
+
+// Loopback only; the host connects right after and drives the session
+const handleOpenInspector = (payload: IpcOpenInspector) => {
+  try {
+    if (!inspector.url()) {
+      inspector.open(0, "127.0.0.1", false);
+    }
+  } catch {
+    /* reported as a missing url */
+  }
+  safeSend({
+    type: "InspectorReady",
+    jobId: payload.jobId,
+    url: inspector.url(),
+  });
+};
+
+const handleCloseInspector = () => {
+  try {
+    inspector.close();
+  } catch {
+    /* already closed */
+  }
+};
+
+const sendVariables = (jobId: string) => {
+  safeSend({ type: "Variables", jobId, variables: runtime.listVariables() });
+};
+
+const handleListVariables = (payload: IpcListVariables) => {
+  sendVariables(payload.jobId);
+};
+
+const handleDeleteVariable = (payload: IpcDeleteVariable) => {
+  runtime.deleteVariable(payload.name);
+  sendVariables(payload.jobId);
 };
 
 process.on("message", async (raw: unknown) => {
@@ -280,6 +390,34 @@ process.on("message", async (raw: unknown) => {
     handleCancel(msg as unknown as IpcCancel);
     return;
   }
+  if (IpcInputReplySchema.safeParse(msg).success) {
+    handleInputReply(msg as unknown as IpcInputReply);
+    return;
+  }
+  if (IpcCompleteSchema.safeParse(msg).success) {
+    handleComplete(msg as unknown as IpcComplete);
+    return;
+  }
+  if (IpcInspectSchema.safeParse(msg).success) {
+    handleInspect(msg as unknown as IpcInspect);
+    return;
+  }
+  if (IpcListVariablesSchema.safeParse(msg).success) {
+    handleListVariables(msg as unknown as IpcListVariables);
+    return;
+  }
+  if (IpcDeleteVariableSchema.safeParse(msg).success) {
+    handleDeleteVariable(msg as unknown as IpcDeleteVariable);
+    return;
+  }
+  if (IpcOpenInspectorSchema.safeParse(msg).success) {
+    handleOpenInspector(msg as unknown as IpcOpenInspector);
+    return;
+  }
+  if (IpcCloseInspectorSchema.safeParse(msg).success) {
+    handleCloseInspector();
+    return;
+  }
   if (IpcPingSchema.safeParse(msg).success) {
     safeSend({ type: "Pong" });
   }
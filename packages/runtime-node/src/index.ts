@@ -2,18 +2,31 @@ import fs from "node:fs";
 import { promises as fsPromises } from "node:fs";
 import { createRequire } from "node:module";
 import { dirname, join, resolve, sep } from "node:path";
-import { tmpdir } from "node:os";
 import { execFile } from "node:child_process";
 import { fileURLToPath } from "node:url";
-import { formatWithOptions, inspect, promisify } from "node:util";
+import { formatWithOptions, inspect, promisify, types } from "node:util";
 import vm from "node:vm";
 import { transform } from "esbuild";
 import { loadRuntimeConfig } from "@nodebooks/config";
+import {
+  decodeMappings,
+  encodeMappings,
+  originalPositionFor,
+  toInlineSourceMapUrl,
+  type DecodedMappings,
+  type SourceMapV3,
+} from "@nodebooks/runtime-protocol";
 import { uiHelpersDts } from "@nodebooks/ui-runtime/runtime/ui-helpers-dts";
 import { uiHelpersModuleJs } from "@nodebooks/ui-runtime/runtime/ui-helpers-module";
 
+import {
+  DEFAULT_RUNTIME_WORKSPACE_ROOT,
+  PackageStore,
+  createPackagesKey,
+  getLockfileId,
+} from "./package-store.js";
+
 const execFileAsync = promisify(execFile);
-const DEFAULT_WORKSPACE_ROOT = join(tmpdir(), "nodebooks-runtime");
 const UI_HELPER_ALIAS = "@nodebooks/ui";
 const UI_RUNTIME_PACKAGE = "@nodebooks/ui-runtime";
 // Hook used to stream UI display values from the sandboxed '@nodebooks/ui-runtime'
@@ -23,14 +36,31 @@ interface DisplayEmitOptions {
   update?: boolean;
 }
 import type {
+  CellDependencies,
   CodeCell,
+  KernelCompletionMatch,
+  KernelEnv,
+  KernelVariable,
   NotebookEnv,
+  NotebookLockfile,
   NotebookOutput,
   StreamOutput,
   OutputExecution,
   DisplayDataOutput,
+  TopLevelDeclaration,
+  Redactor,
+} from "@nodebooks/notebook-schema";
+import {
+  UiDisplaySchema,
+  NODEBOOKS_UI_MIME,
+  collectSensitiveValues,
+  createRedactor,
+  formatCellLocation,
+  lockfileMatchesPackages,
+  redactOutput,
+  redactValue,
+  scanTopLevelDeclarations,
 } from "@nodebooks/notebook-schema";
-import { UiDisplaySchema, NODEBOOKS_UI_MIME } from "@nodebooks/notebook-schema";
 
 const RUNTIME_CONFIG = loadRuntimeConfig();
 const DEFAULT_TIMEOUT_MS = RUNTIME_CONFIG.kernelTimeoutMs;
@@ -39,10 +69,18 @@ const SANITIZED_GLOBAL_SUMMARY = "[NotebookGlobal]";
 const SANITIZED_PROCESS_SUMMARY = "[Sandboxed process]";
 const GLOBAL_CONTEXT_SENTINEL = Symbol("NotebookGlobalSentinel");
 
-const formatNotebookEnv = (env: Record<string, string>) => {
+const MASKED_SECRET = "[secret]";
+
+const formatNotebookEnv = (
+  env: Record<string, string>,
+  isSecret: (key: string) => boolean
+) => {
   const entries = Object.entries(env)
     .sort(([a], [b]) => a.localeCompare(b))
-    .map(([k, v]) => `${k}: ${inspect(v, { colors: false })}`);
+    .map(
+      ([k, v]) =>
+        `${k}: ${isSecret(k) ? MASKED_SECRET : inspect(v, { colors: false })}`
+    );
   return `NotebookEnv { ${entries.join(", ")} }`;
 };
 
@@ -66,17 +104,48 @@ export interface ExecuteOptions {
   cell: CodeCell;
   code: string;
   notebookId: string;
-  env: NotebookEnv;
+  env: KernelEnv;
   onStream?: (output: StreamOutput) => void;
   onDisplay?: (output: DisplayDataOutput) => void;
+  // Answers `await prompt(...)` calls; resolve `null` when the user cancels.
+  onInput?: (request: InputRequest) => Promise<string | null>;
   timeoutMs?: number;
   globals?: Record<string, unknown>;
+  // Keep values defined by notebook code in the live context instead of
+  // replacing them with the cloned globals sent by the client.
+  preserveContext?: boolean;
+  // A debugger is attached: time spent paused must not count against the
+  // cell's time limit, so the limit is lifted for this run.
+  debug?: boolean;
+}
+
+export interface InputRequest {
+  prompt: string;
+  password: boolean;
+}
+
+export interface PromptOptions {
+  password?: boolean;
+}
+
+export interface CompletionResult {
+  matches: KernelCompletionMatch[];
+  cursorStart: number;
+  cursorEnd: number;
+}
+
+export interface InspectionResult {
+  found: boolean;
+  name?: string;
+  valueType?: string;
+  preview?: string;
 }
 
 export interface ExecuteResult {
   outputs: NotebookOutput[];
   execution: OutputExecution;
   globals?: Record<string, unknown>;
+  dependencies?: CellDependencies;
 }
 
 type UiHandlerFunction = (
@@ -94,13 +163,14 @@ type UiHandlerEntry = {
 export interface InvokeUiHandlerOptions {
   handlerId: string;
   notebookId: string;
-  env: NotebookEnv;
+  env: KernelEnv;
   event: string;
   payload?: unknown;
   componentId?: string;
   cellId?: string;
   timeoutMs?: number;
   globals?: Record<string, unknown>;
+  preserveContext?: boolean;
   onStream?: (output: StreamOutput) => void;
   onDisplay?: (output: DisplayDataOutput) => void;
 }
@@ -167,206 +237,27 @@ const shouldSnapshotValue = (value: unknown): boolean => {
 // definitions visible to following cells via the shared context.
 const rewriteTopLevelDeclarations = (source: string, _lang: "js" | "ts") => {
   const lines = source.split(/\r?\n/);
-  let depth = 0;
-  let inBlockComment = false;
-  let inString: false | '"' | "'" | "`" = false;
+  const declarations = new Map(
+    scanTopLevelDeclarations(source)
+      .filter((declaration) => declaration.kind !== "type")
+      .map((declaration) => [declaration.line, declaration])
+  );
   const result: string[] = [];
 
-  // Collect a top-level variable initializer across multiple lines until the
-  // terminating semicolon that is not inside (), [], {} or strings/comments.
-  const replaceVarMultiline = (
-    startLineIdx: number
-  ): { text: string; consumed: number } | null => {
-    const line = lines[startLineIdx] ?? "";
-    const exportRe = /^\s*export\s+/;
-    const exportPrefix = exportRe.test(line) ? line.match(exportRe)![0] : "";
-    const rest = exportPrefix ? line.slice(exportPrefix.length) : line;
-    const varRe =
-      /^(\s*)(const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=;]+)?\s*=\s*/;
-    const m = rest.match(varRe);
-    if (!m) return null;
-    const indent = m[1] ?? "";
-    const name = m[3];
-    // Start with the remainder of the first line after the initializer '='
-    const chunks: string[] = [rest.slice(m[0].length)];
-
-    const isLikelyContinuationLine = (line: string) => {
-      const trimmed = line.trimStart();
-      if (trimmed.length === 0) {
-        return false;
-      }
-      if (trimmed.startsWith("//") || trimmed.startsWith("/*")) {
-        return true;
-      }
-      if (trimmed.startsWith("?.") || trimmed.startsWith("??")) {
-        return true;
-      }
-      const first = trimmed[0]!;
-      const continuationChars =
-        ".,([{)]}:+-*/%|&^><=!?~"; /* heuristics for expression continuations */
-      if (continuationChars.includes(first)) {
-        return true;
-      }
-      const likelyOperators = [
-        "&&",
-        "||",
-        "**",
-        "??",
-        "?.",
-        "??=",
-        "&&=",
-        "||=",
-        "+=",
-        "-=",
-        "*=",
-        "/=",
-        "%=",
-        "|=",
-        "&=",
-        "^=",
-        "<<=",
-        ">>=",
-        ">>>=",
-      ];
-      return likelyOperators.some((op) => trimmed.startsWith(op));
-    };
-
-    let iLine = startLineIdx;
-    let iChar = 0;
-    let inStr: false | '"' | "'" | "`" = false;
-    let inLineComment = false;
-    let inBlkComment = false;
-    let depthParen = 0;
-    let depthBracket = 0;
-    let depthBrace = 0;
-    let found = false;
-    let tail = "";
-
-    // We already consumed the prefix on the first line, continue scanning from there
-    let remainder = chunks[0] ?? "";
-    while (true) {
-      const text = remainder;
-      iChar = 0;
-      while (iChar < text.length) {
-        const ch = text[iChar]!;
-        const next = text[iChar + 1];
-        if (inLineComment) {
-          // comment to EOL
-          break;
-        }
-        if (inBlkComment) {
-          if (ch === "*" && next === "/") {
-            inBlkComment = false;
-            iChar += 2;
-            continue;
-          }
-          iChar++;
-          continue;
-        }
-        if (inStr) {
-          if (ch === "\\") {
-            iChar += 2;
-            continue;
-          }
-          if ((inStr === "`" && ch === "`") || ch === inStr) {
-            inStr = false;
-            iChar++;
-            continue;
-          }
-          iChar++;
-          continue;
-        }
-        if (ch === "/" && next === "/") {
-          inLineComment = true;
-          iChar += 2;
-          continue;
-        }
-        if (ch === "/" && next === "*") {
-          inBlkComment = true;
-          iChar += 2;
-          continue;
-        }
-        if (ch === '"' || ch === "'") {
-          inStr = ch as '"' | "'";
-          iChar++;
-          continue;
-        }
-        if (ch === "`") {
-          inStr = "`";
-          iChar++;
-          continue;
-        }
-        if (ch === "(") depthParen++;
-        else if (ch === ")") depthParen = Math.max(0, depthParen - 1);
-        else if (ch === "[") depthBracket++;
-        else if (ch === "]") depthBracket = Math.max(0, depthBracket - 1);
-        else if (ch === "{") depthBrace++;
-        else if (ch === "}") depthBrace = Math.max(0, depthBrace - 1);
-
-        if (
-          ch === ";" &&
-          depthParen === 0 &&
-          depthBracket === 0 &&
-          depthBrace === 0
-        ) {
-          // Split expr on this semicolon
-          const before = text.slice(0, iChar);
-          const after = text.slice(iChar + 1);
-          // Replace the current chunk with the part before the semicolon
-          chunks[chunks.length - 1] = before;
-          tail = after; // remainder after ; on same line
-          found = true;
-          break;
-        }
-        iChar++;
-      }
-      if (found) break;
-      const nextIndex = iLine + 1;
-      if (nextIndex >= lines.length) {
-        // No terminating semicolon; treat end-of-file as end
-        break;
-      }
-
-      const nextRaw = lines[nextIndex] ?? "";
-      const accumulated = chunks.join("").trim();
-      if (
-        depthParen === 0 &&
-        depthBracket === 0 &&
-        depthBrace === 0 &&
-        !inStr &&
-        !inBlkComment &&
-        !inLineComment &&
-        accumulated.length > 0 &&
-        !isLikelyContinuationLine(nextRaw)
-      ) {
-        break;
-      }
-
-      iLine = nextIndex;
-      const nextChunk = "\n" + nextRaw;
-      chunks.push(nextChunk);
-      remainder = nextChunk;
-      inLineComment = false;
-      // inStr / inBlkComment carry across lines
-    }
-
-    const expr = chunks
-      .join("")
-      .trimEnd()
-      .replace(/;+\s*$/, "");
-    const assignGlobal = `${indent}globalThis.${name} = ${expr};`;
+  const replaceVariable = (declaration: TopLevelDeclaration) => {
+    const { indent, name, initializer, trailing } = declaration;
+    const assignGlobal = `${indent}globalThis.${name} = ${initializer};`;
     const local = `${indent}var ${name} = globalThis.${name};`;
     const remainderText =
-      tail && tail.trim().length > 0 ? `\n${indent}${tail.trimStart()}` : "";
-    const consumed = iLine - startLineIdx;
-    const rewritten = `${assignGlobal}\n${local}${remainderText}`;
-    return { text: rewritten, consumed };
+      trailing && trailing.trim().length > 0
+        ? `\n${indent}${trailing.trimStart()}`
+        : "";
+    return `${assignGlobal}\n${local}${remainderText}`;
   };
 
   const replaceFunction = (line: string) => {
     const fnRe =
       /^(\s*)(?:export\s+)?(?:default\s+)?(?:(async)\s+)?function(\s*\*?)\s+([A-Za-z_$][\w$]*)\s*(\()/;
-    if (!fnRe.test(line)) return null;
     return line.replace(fnRe, (_, indent, asyncKeyword, star, name, paren) => {
       const asyncPrefix = asyncKeyword ? "async " : "";
       const starSuffix = star ?? "";
@@ -374,92 +265,156 @@ const rewriteTopLevelDeclarations = (source: string, _lang: "js" | "ts") => {
     });
   };
 
-  const replaceClass = (line: string) => {
-    const exportRe = /^\s*export\s+/;
-    const exportPrefix = exportRe.test(line) ? line.match(exportRe)![0] : "";
-    const rest = exportPrefix ? line.slice(exportPrefix.length) : line;
-    const clsRe = /^(\s*)class\s+([A-Za-z_$][\w$]*)\b/;
-    const m = rest.match(clsRe);
-    if (!m) return null;
-    const indent = m[1] ?? "";
-    const name = m[2];
-    return line.replace(
+  const replaceClass = (line: string, { indent, name }: TopLevelDeclaration) =>
+    line.replace(
       new RegExp(`^${indent}(?:export\\s+)?class\\s+${name}\b`),
       `${indent}globalThis.${name} = class ${name}`
     );
-  };
 
   for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
+    const line = lines[i]!;
+    const declaration = declarations.get(i);
+    if (!declaration) {
+      result.push(line);
+      continue;
+    }
+    if (declaration.kind === "variable") {
+      result.push(replaceVariable(declaration));
+      i = declaration.endLine; // skip consumed following lines
+    } else if (declaration.kind === "function") {
+      result.push(replaceFunction(line));
+    } else {
+      result.push(replaceClass(line, declaration));
+    }
+  }
+
+  return result.join("\n");
+};
+
+// Names assigned to the shared context by a rewritten cell, i.e. the
+// `globalThis.x = ...` lines emitted by rewriteTopLevelDeclarations.
+const collectDeclaredGlobals = (rewritten: string): string[] => {
+  const names = new Set<string>();
+  const re = /^\s*globalThis\.([A-Za-z_$][\w$]*)\s*=/gm;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(rewritten))) {
+    names.add(match[1]!);
+  }
+  return Array.from(names);
+};
+
+// Best-effort scan of the identifiers referenced by a cell. Strings and
+// comments are skipped (template literal expressions are kept) and property
+// accesses such as `obj.name` do not count as references to `name`.
+const collectReferencedIdentifiers = (source: string): Set<string> => {
+  const names = new Set<string>();
+  // Each entry tracks the brace depth of an open `${...}` inside a template
+  const templateStack: number[] = [];
+  let braceDepth = 0;
+  let i = 0;
+  let prevSignificant = "";
 
-    if (depth === 0 && !inBlockComment && !inString) {
-      const replacedVar = replaceVarMultiline(i);
-      if (replacedVar !== null) {
-        result.push(replacedVar.text);
-        i += replacedVar.consumed; // skip consumed following lines
+  const skipTemplateText = () => {
+    // Scan template text until the closing backtick or the next `${`
+    while (i < source.length) {
+      const ch = source[i]!;
+      if (ch === "\\") {
+        i += 2;
         continue;
       }
-      const replacedFn = replaceFunction(line);
-      if (replacedFn !== null) {
-        result.push(replacedFn);
-        continue;
+      if (ch === "`") {
+        i++;
+        return;
       }
-      const replacedCls = replaceClass(line);
-      if (replacedCls !== null) {
-        result.push(replacedCls);
-        continue;
+      if (ch === "$" && source[i + 1] === "{") {
+        i += 2;
+        templateStack.push(braceDepth);
+        braceDepth++;
+        return;
       }
+      i++;
     }
+  };
 
-    let j = 0;
-    while (j < line.length) {
-      const ch = line[j];
-      const next = line[j + 1];
-      if (!inString && !inBlockComment) {
-        if (ch === "/" && next === "*") {
-          inBlockComment = true;
-          j += 2;
-          continue;
-        }
-        if (ch === "/" && next === "/") {
-          // rest is comment
-          break;
-        }
-        if (ch === '"' || ch === "'" || ch === "`") {
-          inString = ch as '"' | "'" | "`";
-          j++;
-          continue;
-        }
-        if (ch === "{") depth++;
-        else if (ch === "}") depth = Math.max(0, depth - 1);
-      } else if (inBlockComment) {
-        if (ch === "*" && next === "/") {
-          inBlockComment = false;
-          j += 2;
-          continue;
-        }
-      } else if (inString) {
-        if (ch === "\\") {
-          j += 2; // escape
-          continue;
-        }
-        if (ch === inString) {
-          inString = false;
-        }
+  while (i < source.length) {
+    const ch = source[i]!;
+    const next = source[i + 1];
+    if (ch === "/" && next === "/") {
+      const end = source.indexOf("\n", i);
+      i = end === -1 ? source.length : end;
+      continue;
+    }
+    if (ch === "/" && next === "*") {
+      const end = source.indexOf("*/", i + 2);
+      i = end === -1 ? source.length : end + 2;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      i++;
+      while (i < source.length && source[i] !== ch && source[i] !== "\n") {
+        i += source[i] === "\\" ? 2 : 1;
       }
-      j++;
+      i++;
+      prevSignificant = ch;
+      continue;
     }
-
-    result.push(line);
+    if (ch === "`") {
+      i++;
+      skipTemplateText();
+      prevSignificant = "`";
+      continue;
+    }
+    if (ch === "{") {
+      braceDepth++;
+    } else if (ch === "}") {
+      braceDepth = Math.max(0, braceDepth - 1);
+      if (
+        templateStack.length > 0 &&
+        templateStack[templateStack.length - 1] === braceDepth
+      ) {
+        templateStack.pop();
+        i++;
+        skipTemplateText();
+        prevSignificant = "`";
+        continue;
+      }
+    }
+    if (/[A-Za-z_$]/.test(ch)) {
+      let end = i + 1;
+      while (end < source.length && /[\w$]/.test(source[end]!)) {
+        end++;
+      }
+      const isSpread = source.slice(Math.max(0, i - 3), i) === "...";
+      if (prevSignificant !== "." || isSpread) {
+        names.add(source.slice(i, end));
+      }
+      i = end;
+      prevSignificant = "a";
+      continue;
+    }
+    if (/[0-9]/.test(ch)) {
+      // Skip numeric literals so suffixes like `1e3` or `10n` are not names
+      let end = i + 1;
+      while (end < source.length && /[\w.]/.test(source[end]!)) {
+        end++;
+      }
+      i = end;
+      prevSignificant = "0";
+      continue;
+    }
+    if (!/\s/.test(ch)) {
+      prevSignificant = ch;
+    }
+    i++;
   }
-
-  return result.join("\n");
+  return names;
 };
 
 class RuntimeConsole {
   private emitter: ((name: StreamOutput["name"], text: string) => void) | null =
     null;
   private sanitizer: ((value: unknown) => unknown) | null = null;
+  private redactor: Redactor | null = null;
 
   readonly proxy: Console = Object.assign(Object.create(console), {
     log: (...args: unknown[]) => {
@@ -489,6 +444,10 @@ class RuntimeConsole {
     this.sanitizer = fn;
   }
 
+  setRedactor(fn: Redactor | null) {
+    this.redactor = fn;
+  }
+
   private emit(name: StreamOutput["name"], args: unknown[]) {
     if (!this.emitter) {
       return;
@@ -501,16 +460,134 @@ class RuntimeConsole {
       { compact: false, breakLength: 80, colors: false },
       ...(processed as unknown[])
     )}\n`;
-    this.emitter(name, text);
+    this.emitter(name, this.redactor ? this.redactor(text) : text);
   }
 }
 
-const createExecutionError = (error: unknown) => {
-  if (error instanceof Error) {
+// Compiled cell scripts the runtime has run, keyed by their filename
+interface CellScript {
+  cellId: string;
+  language: "js" | "ts";
+  source: string;
+  mappings: DecodedMappings;
+}
+
+// Errors thrown by notebook code come from the context's realm, so
+// `instanceof Error` is false for them
+const isError = (value: unknown): value is Error => types.isNativeError(value);
+
+const STACK_FRAME = /^(\s*at (?:async )?)(?:(.+?) \()?(.+?):(\d+):(\d+)(\)?)$/;
+const RUNTIME_DIR = dirname(fileURLToPath(import.meta.url));
+
+const isRuntimeFrame = (file: string) => {
+  if (file === "node:vm") return true;
+  const path = file.startsWith("file://") ? fileURLToPath(file) : file;
+  return path.startsWith(RUNTIME_DIR + sep);
+};
+
+const containsIdentifier = (source: string, name: string) =>
+  new RegExp(`(?<![\\w$])${name.replace(/\$/g, "\\$")}(?![\\w$])`).test(source);
+
+// esbuild renames functions that clash with the globals the rewrite
+// introduces (`boom` becomes `boom2`); report the name the user wrote.
+const restoreFunctionName = (name: string, source: string) => {
+  const dot = name.lastIndexOf(".");
+  const last = name.slice(dot + 1);
+  const match = /^([A-Za-z_$][\w$]*?)\d+$/.exec(last);
+  if (
+    !match ||
+    containsIdentifier(source, last) ||
+    !containsIdentifier(source, match[1]!)
+  ) {
+    return name;
+  }
+  return `${name.slice(0, dot + 1)}${match[1]}`;
+};
+
+// Rewrites frames in compiled cells to `<cellId>.<lang>:line:col` and drops
+// the runtime's own frames; everything below the first of them belongs to
+// the host (vm, timers, the worker loop).
+const mapStackTrace = (
+  stack: string,
+  scripts: ReadonlyMap<string, CellScript>
+): string => {
+  const lines: string[] = [];
+  for (const line of stack.split("\n")) {
+    const frame = STACK_FRAME.exec(line);
+    if (!frame) {
+      lines.push(line);
+      continue;
+    }
+    const [, prefix, fn, file, lineText, columnText] = frame;
+    if (isRuntimeFrame(file!)) break;
+    if (file!.startsWith("node:internal/")) continue;
+    const script = scripts.get(file!);
+    if (!script) {
+      lines.push(line);
+      continue;
+    }
+    const position = originalPositionFor(script.mappings, {
+      line: Number(lineText) - 1,
+      column: Number(columnText) - 1,
+    });
+    // Unmapped positions are wrapper scaffolding, like the IIFE call
+    if (!position) continue;
+    const location = formatCellLocation({
+      cellId: script.cellId,
+      language: script.language,
+      line: position.line + 1,
+      column: position.column + 1,
+    });
+    lines.push(
+      fn
+        ? `${prefix}${restoreFunctionName(fn, script.source)} (${location})`
+        : `${prefix}${location}`
+    );
+  }
+  return lines.join("\n");
+};
+
+// esbuild reports syntax errors against the wrapped source
+const toCellCompileError = (
+  error: unknown,
+  cell: CodeCell,
+  wrappedSource: WrappedSource
+): Error | null => {
+  const failure = error as {
+    errors?: Array<{
+      text?: string;
+      location?: { line: number; column: number } | null;
+    }>;
+  };
+  const first = Array.isArray(failure?.errors) ? failure.errors[0] : undefined;
+  if (!first?.text) return null;
+  const compileError = new SyntaxError(first.text);
+  const position = first.location
+    ? toCellPosition(wrappedSource, {
+        line: first.location.line - 1,
+        column: first.location.column,
+      })
+    : null;
+  compileError.stack = position
+    ? `SyntaxError: ${first.text}\n    at ${formatCellLocation({
+        cellId: cell.id,
+        language: cell.language,
+        line: position.line + 1,
+        column: position.column + 1,
+      })}`
+    : `SyntaxError: ${first.text}`;
+  return compileError;
+};
+
+const createExecutionError = (
+  error: unknown,
+  scripts: ReadonlyMap<string, CellScript>
+) => {
+  if (isError(error)) {
     return {
       name: error.name,
       message: error.message,
-      stack: error.stack,
+      stack: error.stack ? mapStackTrace(error.stack, scripts) : undefined,
     };
   }
 
@@ -521,7 +598,8 @@ const createExecutionError = (error: unknown) => {
 };
 
 const toUiDisplayOutput = (
-  value: unknown
+  value: unknown,
+  redact?: Redactor
 ): (DisplayDataOutput & { metadata: Record<string, unknown> }) | null => {
   if (!value || typeof value !== "object") {
     return null;
@@ -539,7 +617,9 @@ const toUiDisplayOutput = (
     return null;
   }
   const data: Record<string, unknown> = {
-    [NODEBOOKS_UI_MIME]: parsed.data,
+    [NODEBOOKS_UI_MIME]: redact
+      ? redactValue(parsed.data, redact)
+      : parsed.data,
   };
   return {
     type: "display_data",
@@ -604,7 +684,7 @@ const toUiJsonDisplay = (value: unknown): DisplayDataOutput | null => {
   }
 };
 
-const toDisplayData = (value: unknown) => {
+const toDisplayData = (value: unknown, redact?: Redactor) => {
   const outputs: NotebookOutput[] = [];
 
   if (typeof value === "undefined") {
@@ -618,7 +698,7 @@ const toDisplayData = (value: unknown) => {
     return outputs;
   }
 
-  const uiDisplay = toUiDisplayOutput(value);
+  const uiDisplay = toUiDisplayOutput(value, redact);
   if (uiDisplay) {
     outputs.push(uiDisplay);
     return outputs;
@@ -626,7 +706,7 @@ const toDisplayData = (value: unknown) => {
 
   const uiJson = toUiJsonDisplay(value);
   if (uiJson) {
-    outputs.push(uiJson);
+    outputs.push(redact ? redactOutput(uiJson, redact) : uiJson);
     return outputs;
   }
 
@@ -635,13 +715,259 @@ const toDisplayData = (value: unknown) => {
   outputs.push({
     type: "display_data",
     data: {
-      "text/plain": plain,
+      "text/plain": redact ? redact(plain) : plain,
     },
     metadata: {},
   });
   return outputs;
 };
 
+const MAX_COMPLETIONS = 200;
+const MAX_INSPECT_PREVIEW = 2_000;
+
+interface MemberChain {
+  path: string[];
+  prefix: string;
+}
+
+// The `a.b.pre` chain that ends at the cursor on the current line: `path` is
+// the object being completed (empty for a bare identifier) and `prefix` the
+// partial name typed so far.
+const findMemberChain = (
+  code: string,
+  cursorPos: number
+): MemberChain | null => {
+  const end = Math.min(Math.max(cursorPos, 0), code.length);
+  const lineStart = code.lastIndexOf("\n", end - 1) + 1;
+  const before = code.slice(lineStart, end);
+  const match = /((?:[A-Za-z_$][\w$]*\s*\??\.\s*)*)([A-Za-z_$][\w$]*)?$/.exec(
+    before
+  );
+  if (!match) return null;
+  // Chains hanging off calls or indexing (`load().x`) cannot be resolved
+  // without running code
+  const preceding = before.slice(0, before.length - match[0].length);
+  if (/\.\s*$/.test(preceding) || /\d$/.test(preceding)) {
+    return null;
+  }
+  const path = (match[1] ?? "")
+    .split(/\??\./)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+  return { path, prefix: match[2] ?? "" };
+};
+
+interface MemberSlot {
+  value?: unknown;
+  accessor: boolean;
+}
+
+// Reads a property without invoking getters, which may have side effects.
+const readMember = (target: unknown, key: string): MemberSlot | null => {
+  if (target === null || target === undefined) return null;
+  let current: object | null = Object(target) as object;
+  while (current) {
+    const descriptor = Object.getOwnPropertyDescriptor(current, key);
+    if (descriptor) {
+      return "value" in descriptor
+        ? { value: descriptor.value, accessor: false }
+        : { accessor: true };
+    }
+    current = Object.getPrototypeOf(current) as object | null;
+  }
+  return null;
+};
+
+const listMembers = (target: unknown): Map<string, MemberSlot> => {
+  const members = new Map<string, MemberSlot>();
+  if (target === null || target === undefined) return members;
+  let current: object | null = Object(target) as object;
+  let depth = 0;
+  // Stop before the root Object.prototype (of whichever realm)
+  while (current && Object.getPrototypeOf(current) !== null && depth < 16) {
+    const indexed = Array.isArray(current) || ArrayBuffer.isView(current);
+    const names = indexed ? ["length"] : Object.getOwnPropertyNames(current);
+    for (const name of names) {
+      if (members.has(name) || !isValidGlobalIdentifier(name)) continue;
+      if (name === "constructor" && depth > 0) continue;
+      const descriptor = Object.getOwnPropertyDescriptor(current, name);
+      if (!descriptor) continue;
+      members.set(
+        name,
+        "value" in descriptor
+          ? { value: descriptor.value, accessor: false }
+          : { accessor: true }
+      );
+    }
+    current = Object.getPrototypeOf(current) as object | null;
+    depth += 1;
+  }
+  return members;
+};
+
+const isClassValue = (value: unknown) => {
+  if (typeof value !== "function") return false;
+  try {
+    return /^class\b/.test(Function.prototype.toString.call(value));
+  } catch {
+    return false;
+  }
+};
+
+const describeValueType = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  if (typeof value === "function") {
+    return isClassValue(value) ? "class" : "function";
+  }
+  if (typeof value === "object") {
+    try {
+      const proto = Object.getPrototypeOf(value) as {
+        constructor?: { name?: unknown };
+      } | null;
+      const name = proto?.constructor?.name;
+      return typeof name === "string" && name ? name : "Object";
+    } catch {
+      return "Object";
+    }
+  }
+  return typeof value;
+};
+
+const completionMatch = (
+  label: string,
+  slot: MemberSlot,
+  member: boolean
+): KernelCompletionMatch => {
+  if (slot.accessor) {
+    return { label, kind: "property", detail: "getter" };
+  }
+  const { value } = slot;
+  const kind: KernelCompletionMatch["kind"] =
+    typeof value === "function"
+      ? isClassValue(value)
+        ? "class"
+        : member
+          ? "method"
+          : "function"
+      : member
+        ? "property"
+        : "variable";
+  return { label, kind, detail: describeValueType(value) };
+};
+
+const PREVIEW_MAX_DEPTH = 3;
+const PREVIEW_MAX_ITEMS = 50;
+const PREVIEW_MAX_STRING = 500;
+const SUMMARY_MAX_ROWS = 10_000;
+const SUMMARY_MAX_COLUMNS = 20;
+
+const isPlainRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  Object.prototype.toString.call(value) === "[object Object]";
+
+const truncateString = (value: string) =>
+  value.length > PREVIEW_MAX_STRING
+    ? `${value.slice(0, PREVIEW_MAX_STRING)}…`
+    : value;
+
+const describeShape = (value: unknown): string | undefined => {
+  if (typeof value === "string") return `${value.length} chars`;
+  if (Array.isArray(value)) return `${value.length} items`;
+  if (ArrayBuffer.isView(value) && "length" in value) {
+    return `${(value as unknown as { length: number }).length} items`;
+  }
+  if (value instanceof Map || value instanceof Set) {
+    return `size ${value.size}`;
+  }
+  // Maps and Sets from the sandbox realm fail instanceof checks
+  const tag = Object.prototype.toString.call(value);
+  if (tag === "[object Map]" || tag === "[object Set]") {
+    return `size ${(value as Map<unknown, unknown>).size}`;
+  }
+  if (typeof value === "function") {
+    return `${value.length} params`;
+  }
+  if (value !== null && typeof value === "object") {
+    const keys = Object.keys(value).length;
+    return `${keys} ${keys === 1 ? "key" : "keys"}`;
+  }
+  return undefined;
+};
+
+// Schema, numeric stats and sample rows for an array of plain records.
+const summarizeRecords = (
+  value: unknown[],
+  toPreview: (item: unknown) => unknown
+): KernelVariable["summary"] | undefined => {
+  const rows = value.slice(0, SUMMARY_MAX_ROWS);
+  if (rows.length === 0 || !rows.every(isPlainRecord)) return undefined;
+  const columns: string[] = [];
+  for (const row of rows.slice(0, 100)) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key) && columns.length < SUMMARY_MAX_COLUMNS) {
+        columns.push(key);
+      }
+    }
+  }
+  const schema: Array<{ name: string; type: string; nullable?: boolean }> = [];
+  const stats: Record<
+    string,
+    {
+      count?: number;
+      min?: number;
+      max?: number;
+      mean?: number;
+      nulls?: number;
+    }
+  > = {};
+  for (const column of columns) {
+    let type: string | null = null;
+    let nulls = 0;
+    let count = 0;
+    let sum = 0;
+    let min = Number.POSITIVE_INFINITY;
+    let max = Number.NEGATIVE_INFINITY;
+    for (const row of rows) {
+      const descriptor = Object.getOwnPropertyDescriptor(row, column);
+      const cell =
+        descriptor && "value" in descriptor ? descriptor.value : null;
+      if (cell === null || cell === undefined) {
+        nulls += 1;
+        continue;
+      }
+      type ??= Array.isArray(cell) ? "array" : typeof cell;
+      if (typeof cell === "number" && Number.isFinite(cell)) {
+        count += 1;
+        sum += cell;
+        min = Math.min(min, cell);
+        max = Math.max(max, cell);
+      }
+    }
+    schema.push({
+      name: column,
+      type: type ?? "null",
+      ...(nulls > 0 ? { nullable: true } : {}),
+    });
+    if (type === "number" && count > 0) {
+      stats[column] = { count, min, max, mean: sum / count, nulls };
+    }
+  }
+  return {
+    title: `${value.length} rows`,
+    schema,
+    ...(Object.keys(stats).length > 0 ? { stats } : {}),
+    sample: rows
+      .slice(0, 5)
+      .map((row) => toPreview(row) as Record<string, unknown>),
+    ...(value.length > rows.length
+      ? { note: `Summary covers the first ${rows.length} rows` }
+      : {}),
+  };
+};
+
 export class NotebookRuntime {
   private readonly context: vm.Context;
   private readonly console = new RuntimeConsole();
@@ -650,6 +976,7 @@ export class NotebookRuntime {
     cwd: string,
     packages: Record<string, string>
   ) => Promise<void>;
+  private readonly packageStore: PackageStore;
   private readonly processProxy: NodeJS.Process;
   private readonly processInspectHandler: () => string;
   private sandboxDir: string | null = null;
@@ -660,6 +987,10 @@ export class NotebookRuntime {
   private currentEnvKey: string | null = null;
   // Per-runtime view of environment variables exposed to user code via process.env
   private exposedEnv: Record<string, string> = {};
+  // Keys of exposedEnv that hold secrets; their values are masked when printed
+  private secretKeys = new Set<string>();
+  // Masks sensitive values and admin patterns in everything a cell outputs
+  private redact: Redactor = createRedactor({});
   // Track globals injected from SQL cells so we can remove stale variables.
   private injectedGlobals = new Set<string>();
   // Track timers created during execution so we can await/cleanup them.
@@ -670,9 +1001,14 @@ export class NotebookRuntime {
   private intervalWaiters: Array<() => void> = [];
   private intervalDoneWaiters: Array<() => void> = [];
   private pendingAsyncErrors: Error[] = [];
+  private readonly cellScripts = new Map<string, CellScript>();
   private uiHandlers = new Map<string, UiHandlerEntry>();
   private nextUiHandlerId = 1;
   private activeCellId: string | null = null;
+  private inputHandler: ExecuteOptions["onInput"] | null = null;
+  // Time spent waiting on prompt() does not count against the cell timeout
+  private inputWaitMs = 0;
+  private inputWaitStartedAt: number | null = null;
   private readonly baselineGlobals: Set<string>;
   private userGlobals = new Set<string>();
 
@@ -685,9 +1021,11 @@ export class NotebookRuntime {
     } catch {
       /* ignore */
     }
-    this.workspaceRoot = options.workspaceRoot ?? DEFAULT_WORKSPACE_ROOT;
+    this.workspaceRoot =
+      options.workspaceRoot ?? DEFAULT_RUNTIME_WORKSPACE_ROOT;
     this.installDeps =
       options.installDependencies ?? defaultInstallDependencies;
+    this.packageStore = new PackageStore(this.workspaceRoot);
     fs.mkdirSync(this.workspaceRoot, { recursive: true });
 
     const createProcessInspectHandler = () => SANITIZED_PROCESS_SUMMARY;
@@ -696,6 +1034,7 @@ export class NotebookRuntime {
     this.processProxy = createProcessProxy(
       () => this.sandboxDir ?? this.workspaceRoot,
       () => this.exposedEnv,
+      (key) => this.secretKeys.has(key),
       this.processInspectHandler
     );
 
@@ -733,6 +1072,8 @@ export class NotebookRuntime {
       File: (globalThis as unknown as { File?: typeof File }).File,
       URL,
       URLSearchParams,
+      prompt: (message?: unknown, options?: PromptOptions) =>
+        this.requestInput(message, options),
     };
 
     this.context = vm.createContext(sandbox, {
@@ -972,7 +1313,9 @@ export class NotebookRuntime {
         return SANITIZED_GLOBAL_SUMMARY;
       }
       if (value.startsWith("[Object: null prototype]")) {
-        return formatNotebookEnv(this.exposedEnv);
+        return formatNotebookEnv(this.exposedEnv, (key) =>
+          this.secretKeys.has(key)
+        );
       }
     }
 
@@ -981,7 +1324,7 @@ export class NotebookRuntime {
 
   private recordAsyncError(error: unknown) {
     let normalized: Error;
-    if (error instanceof Error) {
+    if (isError(error)) {
       normalized = error;
     } else {
       const description =
@@ -994,7 +1337,11 @@ export class NotebookRuntime {
     this.pendingAsyncErrors.push(normalized);
 
     try {
-      this.console.proxy.error(normalized);
+      this.console.proxy.error(
+        normalized.stack
+          ? mapStackTrace(normalized.stack, this.cellScripts)
+          : normalized
+      );
     } catch {
       /* noop */
     }
@@ -1101,15 +1448,28 @@ export class NotebookRuntime {
     env,
     onStream,
     onDisplay,
+    onInput,
     timeoutMs,
     globals,
+    preserveContext,
+    debug = false,
   }: ExecuteOptions): Promise<ExecuteResult> {
     this.dropUiHandlersForCell(cell.id);
     this.activeCellId = cell.id;
+    this.inputHandler = onInput ?? null;
     const outputs: NotebookOutput[] = [];
     const started = Date.now();
+    const inputWaitAtStart = this.inputWaitedMs();
     const timeout = timeoutMs ?? cell.metadata.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const remainingBudget = () =>
+      Math.max(
+        0,
+        Number(timeout) -
+          (Date.now() - started - (this.inputWaitedMs() - inputWaitAtStart))
+      );
     let softWaitTimedOut = false;
+    let knownGlobals = new Set<string>();
+    let declared: string[] = [];
     this.pendingAsyncErrors = [];
 
     this.console.setEmitter((name, text) => {
@@ -1122,21 +1482,37 @@ export class NotebookRuntime {
     try {
       await this.ensureEnvironment(notebookId, env);
 
-      this.applyGlobals(globals);
+      this.applyGlobals(globals, preserveContext);
+      knownGlobals = this.listUserGlobalNames();
 
       const rewritten = rewriteTopLevelDeclarations(code, cell.language);
+      declared = collectDeclaredGlobals(rewritten);
       const wrapped =
         cell.language === "ts"
           ? wrapForTopLevelAwaitTsCapture(rewritten)
           : wrapForTopLevelAwait(rewritten);
+      const wrappedSource = describeWrappedSource(code, wrapped);
       const compiled = await transform(wrapped, {
         loader: cell.language === "ts" ? "ts" : "js",
         format: "cjs",
         target: "es2022",
-        sourcemap: false,
+        sourcemap: "external",
+        sourcefile: `${cell.id}.${cell.language}`,
         platform: "node",
         supported: { "dynamic-import": false },
+      }).catch((error: unknown) => {
+        throw toCellCompileError(error, cell, wrappedSource) ?? error;
       });
+      // Inline so debuggers (and stack traces) can find their way back to
+      // the cell from the compiled script.
+      const sourceMap = createCellSourceMap(
+        wrappedSource,
+        compiled.map,
+        `${cell.id}.${cell.language}`
+      );
+      const compiledCode = sourceMap
+        ? `${compiled.code}\n//# sourceMappingURL=${toInlineSourceMapUrl(sourceMap)}\n`
+        : compiled.code;
 
       const debugDir = process.env.NODEBOOKS_RUNTIME_DEBUG_DIR;
       if (debugDir) {
@@ -1146,7 +1522,7 @@ export class NotebookRuntime {
             debugDir,
             `${cell.id}.${cell.language}.compiled.js`
           );
-          await fsPromises.writeFile(debugPath, compiled.code, "utf8");
+          await fsPromises.writeFile(debugPath, compiledCode, "utf8");
           try {
             fs.appendFileSync(
               "/tmp/nodebooks-runtime.log",
@@ -1165,6 +1541,14 @@ export class NotebookRuntime {
       }
 
       const filename = join(this.sandboxDir, `${cell.id}.${cell.language}`);
+      if (sourceMap) {
+        this.cellScripts.set(filename, {
+          cellId: cell.id,
+          language: cell.language,
+          source: code,
+          mappings: decodeMappings(sourceMap.mappings),
+        });
+      }
       const module = { exports: {} };
       (this.context as Record<string, unknown>).module = module;
       (this.context as Record<string, unknown>).exports = module.exports;
@@ -1175,7 +1559,7 @@ export class NotebookRuntime {
       // Provide a display hook for streaming UI from helpers
       const streamDisplay = (value: unknown, options?: DisplayEmitOptions) => {
         try {
-          const uiOutput = toUiDisplayOutput(value);
+          const uiOutput = toUiDisplayOutput(value, this.redact);
           if (uiOutput) {
             const meta = uiOutput.metadata ?? {};
             if (options?.displayId) {
@@ -1195,7 +1579,7 @@ export class NotebookRuntime {
             outputs.push(uiOutput);
             return;
           }
-          const ds = toDisplayData(value);
+          const ds = toDisplayData(value, this.redact);
           for (const d of ds) {
             if (d.type === "display_data") {
               const meta = {
@@ -1255,15 +1639,20 @@ export class NotebookRuntime {
       (globalThis as Record<string, unknown>).__nodebooks_register_ui_handler =
         registerUiHandler;
 
-      const script = new vm.Script(compiled.code, {
+      const script = new vm.Script(compiledCode, {
         filename,
       });
 
-      let result = script.runInContext(this.context, {
-        timeout: Number(timeout),
-      });
+      let result = script.runInContext(
+        this.context,
+        debug ? {} : { timeout: Number(timeout) }
+      );
       if (result && typeof (result as Promise<unknown>).then === "function") {
-        result = await withTimeout(result as Promise<unknown>, Number(timeout));
+        result = debug
+          ? await (result as Promise<unknown>)
+          : await withTimeout(result as Promise<unknown>, Number(timeout), {
+              pausedMs: () => this.inputWaitedMs(),
+            });
       }
 
       // If user code scheduled timeouts, wait for them to fire before
@@ -1273,15 +1662,15 @@ export class NotebookRuntime {
       try {
         // Allow pending one-shot timers to fire and at least one tick of any
         // intervals, bounded by the original timeout budget.
-        let remaining = Math.max(0, Number(timeout) - (Date.now() - started));
+        let remaining = remainingBudget();
         if (remaining > 0) {
           await withTimeout(this.waitForPendingTimeouts(), remaining);
         }
-        remaining = Math.max(0, Number(timeout) - (Date.now() - started));
+        remaining = remainingBudget();
         if (remaining > 0) {
           await withTimeout(this.waitForIntervalFirstTicks(), remaining);
         }
-        remaining = Math.max(0, Number(timeout) - (Date.now() - started));
+        remaining = remainingBudget();
         if (remaining > 0) {
           await withTimeout(this.waitForNoIntervals(), remaining);
         }
@@ -1324,7 +1713,7 @@ export class NotebookRuntime {
         throw firstError;
       }
 
-      const displayOutputs = toDisplayData(result);
+      const displayOutputs = toDisplayData(result, this.redact);
       outputs.push(...displayOutputs);
 
       let globalsSnapshot: Record<string, unknown>;
@@ -1344,10 +1733,13 @@ export class NotebookRuntime {
           status: softWaitTimedOut ? "error" : "ok",
         },
         globals: globalsSnapshot ?? {},
+        dependencies: this.resolveDependencies(code, knownGlobals, declared),
       } satisfies ExecuteResult;
     } catch (error) {
       const ended = Date.now();
-      const details = createExecutionError(error);
+      const details = this.redactError(
+        createExecutionError(error, this.cellScripts)
+      );
       // Friendly timeout notice in output for better UX
       try {
         const msg = String(details.message || "");
@@ -1389,6 +1781,7 @@ export class NotebookRuntime {
           error: details,
         },
         globals: globalsSnapshot ?? {},
+        dependencies: this.resolveDependencies(code, knownGlobals, declared),
       } satisfies ExecuteResult;
     } finally {
       // Always clear any leftover timers to avoid leaks across cells.
@@ -1399,6 +1792,12 @@ export class NotebookRuntime {
       }
       this.pendingAsyncErrors = [];
       this.console.setEmitter(null);
+      if (preserveContext) {
+        // Values (re)declared by this cell are now owned by notebook code
+        for (const name of declared) {
+          this.injectedGlobals.delete(name);
+        }
+      }
       // Clean up display hooks
       delete (this.context as Record<string, unknown>).__nodebooks_display;
       delete (this.context as Record<string, unknown>)
@@ -1410,26 +1809,110 @@ export class NotebookRuntime {
       delete (globalThis as Record<string, unknown>)
         .__nodebooks_register_ui_handler;
       this.activeCellId = null;
+      this.inputHandler = null;
+    }
+  }
+
+  private inputWaitedMs() {
+    const current =
+      this.inputWaitStartedAt === null
+        ? 0
+        : Date.now() - this.inputWaitStartedAt;
+    return this.inputWaitMs + current;
+  }
+
+  private async requestInput(
+    message: unknown,
+    options: PromptOptions = {}
+  ): Promise<string | null> {
+    const handler = this.inputHandler;
+    if (!handler) {
+      throw new Error("prompt() is only available while a cell is running");
+    }
+    const request: InputRequest = {
+      prompt: message === undefined || message === null ? "" : String(message),
+      password: Boolean(options?.password),
+    };
+    const nested = this.inputWaitStartedAt !== null;
+    if (!nested) {
+      this.inputWaitStartedAt = Date.now();
+    }
+    let value: string | null;
+    try {
+      value = await handler(request);
+    } finally {
+      if (!nested && this.inputWaitStartedAt !== null) {
+        this.inputWaitMs += Date.now() - this.inputWaitStartedAt;
+        this.inputWaitStartedAt = null;
+      }
     }
+    // Echo like a terminal would; never echo password answers
+    const echo =
+      request.password || value === null
+        ? request.prompt
+        : `${request.prompt} ${value}`.trim();
+    if (echo) {
+      this.console.proxy.log(echo);
+    }
+    return value;
   }
 
-  private updateExposedEnv(env: NotebookEnv) {
+  private updateExposedEnv(env: KernelEnv) {
     const nextEnv: Record<string, string> = {};
+    const nextSecretKeys = new Set<string>();
     for (const [rawKey, rawValue] of Object.entries(env.variables ?? {})) {
       const key = String(rawKey).trim();
       if (!key) continue;
       nextEnv[key] = String(rawValue);
     }
+    // Secrets win over plain variables with the same name
+    for (const [rawKey, rawValue] of Object.entries(env.secrets ?? {})) {
+      const key = String(rawKey).trim();
+      if (!key) continue;
+      nextEnv[key] = String(rawValue);
+      nextSecretKeys.add(key);
+    }
     this.exposedEnv = nextEnv;
+    this.secretKeys = nextSecretKeys;
+    this.redact = createRedactor({
+      values: collectSensitiveValues(env),
+      patterns: env.redactionPatterns,
+    });
+    this.console.setRedactor(this.redact);
   }
 
-  private applyGlobals(globals?: Record<string, unknown>) {
+  // Error messages often quote the value that caused them
+  private redactError(
+    details: ReturnType<typeof createExecutionError>
+  ): ReturnType<typeof createExecutionError> {
+    return {
+      ...details,
+      name: this.redact(details.name),
+      message: this.redact(details.message),
+      ...(details.stack ? { stack: this.redact(details.stack) } : {}),
+    };
+  }
+
+  private applyGlobals(
+    globals?: Record<string, unknown>,
+    preserveContext = false
+  ) {
+    // Names owned by notebook code; in a live context these hold the real
+    // values and the client's JSON copies must not overwrite them.
+    const live = new Set<string>();
+    if (preserveContext) {
+      for (const name of this.listUserGlobalNames()) {
+        if (!this.injectedGlobals.has(name)) {
+          live.add(name);
+        }
+      }
+    }
     if (globals && typeof globals === "object") {
       const nextInjected = new Set<string>();
       const entries: Array<[string, unknown]> = [];
       for (const [key, value] of Object.entries(globals)) {
         const trimmed = String(key).trim();
-        if (!isValidGlobalIdentifier(trimmed)) {
+        if (!isValidGlobalIdentifier(trimmed) || live.has(trimmed)) {
           continue;
         }
         nextInjected.add(trimmed);
@@ -1467,6 +1950,305 @@ export class NotebookRuntime {
     }
   }
 
+  // Names currently defined by notebook code in the shared context,
+  // regardless of whether their values can be snapshotted.
+  private listUserGlobalNames(): Set<string> {
+    const names = new Set<string>(this.injectedGlobals);
+    for (const name of Object.getOwnPropertyNames(
+      this.context as Record<string, unknown>
+    )) {
+      if (this.baselineGlobals.has(name)) continue;
+      if (name.startsWith("__nodebooks")) continue;
+      if (
+        name === "module" ||
+        name === "exports" ||
+        name === "__filename" ||
+        name === "__dirname"
+      ) {
+        continue;
+      }
+      names.add(name);
+    }
+    return names;
+  }
+
+  // Completions from the live context, so `users.` lists the properties of
+  // the object a previous cell actually produced.
+  complete(code: string, cursorPos: number): CompletionResult {
+    const end = Math.min(Math.max(cursorPos, 0), code.length);
+    const chain = findMemberChain(code, end);
+    if (!chain) {
+      return { matches: [], cursorStart: end, cursorEnd: end };
+    }
+    const cursorStart = end - chain.prefix.length;
+    const matches: KernelCompletionMatch[] = [];
+    try {
+      let candidates: Map<string, MemberSlot>;
+      if (chain.path.length === 0) {
+        candidates = new Map();
+        for (const name of this.listUserGlobalNames()) {
+          const slot = readMember(this.context, name);
+          if (slot) candidates.set(name, slot);
+        }
+      } else {
+        const target = this.resolveMemberPath(chain.path);
+        candidates =
+          target && !target.accessor ? listMembers(target.value) : new Map();
+      }
+      const member = chain.path.length > 0;
+      for (const [name, slot] of candidates) {
+        if (!name.startsWith(chain.prefix)) continue;
+        matches.push(completionMatch(name, slot, member));
+      }
+    } catch {
+      /* proxies and exotic objects may throw while being introspected */
+    }
+    matches.sort((a, b) => a.label.localeCompare(b.label));
+    return {
+      matches: matches.slice(0, MAX_COMPLETIONS),
+      cursorStart,
+      cursorEnd: end,
+    };
+  }
+
+  inspect(code: string, cursorPos: number): InspectionResult {
+    const end = Math.min(Math.max(cursorPos, 0), code.length);
+    const chain = findMemberChain(code, end);
+    const rest = /^[\w$]*/.exec(code.slice(end))?.[0] ?? "";
+    const name = `${chain?.prefix ?? ""}${rest}`;
+    if (!chain || !name) {
+      return { found: false };
+    }
+    const path = [...chain.path, name];
+    try {
+      const resolved = this.resolveMemberPath(path);
+      if (!resolved) {
+        return { found: false };
+      }
+      if (resolved.accessor) {
+        return { found: true, name: path.join("."), valueType: "getter" };
+      }
+      return {
+        found: true,
+        name: path.join("."),
+        valueType: describeValueType(resolved.value),
+        preview: this.previewValue(resolved.value),
+      };
+    } catch {
+      return { found: false };
+    }
+  }
+
+  // Every user global with its type, shape and a JSON-safe preview for the
+  // variable explorer. Getters are listed but never evaluated.
+  listVariables(): KernelVariable[] {
+    const variables: KernelVariable[] = [];
+    const names = Array.from(this.listUserGlobalNames()).sort((a, b) =>
+      a.localeCompare(b)
+    );
+    for (const name of names) {
+      const slot = readMember(this.context, name);
+      if (!slot) continue;
+      if (slot.accessor) {
+        variables.push({ name, valueType: "getter" });
+        continue;
+      }
+      const { value } = slot;
+      try {
+        const summary = Array.isArray(value)
+          ? summarizeRecords(value, (row) => this.previewJson(row, 1))
+          : undefined;
+        variables.push({
+          name,
+          valueType: Array.isArray(value) ? "Array" : describeValueType(value),
+          shape: describeShape(value),
+          preview: this.previewJson(value, 0),
+          ...(summary ? { summary } : {}),
+        });
+      } catch {
+        variables.push({ name, valueType: describeValueType(value) });
+      }
+    }
+    return variables;
+  }
+
+  deleteVariable(name: string): boolean {
+    if (!this.listUserGlobalNames().has(name)) {
+      return false;
+    }
+    this.injectedGlobals.delete(name);
+    this.userGlobals.delete(name);
+    try {
+      return Reflect.deleteProperty(this.context as object, name);
+    } catch {
+      return false;
+    }
+  }
+
+  private previewJson(
+    value: unknown,
+    depth: number,
+    seen = new WeakSet<object>()
+  ): unknown {
+    if (value === undefined) return "undefined";
+    if (value === null || typeof value === "boolean") return value;
+    if (typeof value === "number") {
+      return Number.isFinite(value) ? value : String(value);
+    }
+    if (typeof value === "bigint") return `${value}n`;
+    // Redacted before truncating so a cut-off secret is still masked
+    if (typeof value === "string") return truncateString(this.redact(value));
+    if (typeof value === "symbol") return value.toString();
+    if (typeof value === "function") {
+      return `[${isClassValue(value) ? "class" : "Function"} ${value.name || "anonymous"}]`;
+    }
+    if (value === this.processProxy) return SANITIZED_PROCESS_SUMMARY;
+    if (value === this.context) return SANITIZED_GLOBAL_SUMMARY;
+    const envMeta = ENV_PROXY_META.get(value as object);
+    if (envMeta) return envMeta.maskedString();
+
+    const object = value as object;
+    if (seen.has(object)) return "[Circular]";
+    const tag = Object.prototype.toString.call(object);
+    if (tag === "[object Date]") {
+      const time = (object as Date).getTime();
+      return Number.isNaN(time)
+        ? "Invalid Date"
+        : (object as Date).toISOString();
+    }
+    if (tag === "[object RegExp]") return String(object);
+    if (tag === "[object Error]") {
+      const error = object as Error;
+      return {
+        name: this.redact(error.name),
+        message: this.redact(error.message),
+      };
+    }
+    if (tag === "[object Promise]") return "[Promise]";
+    if (ArrayBuffer.isView(object) || tag === "[object ArrayBuffer]") {
+      return `[${describeValueType(object)} ${describeShape(object) ?? ""}]`.replace(
+        " ]",
+        "]"
+      );
+    }
+    if (depth >= PREVIEW_MAX_DEPTH) {
+      return Array.isArray(object)
+        ? `[Array(${object.length})]`
+        : `[${describeValueType(object)}]`;
+    }
+
+    seen.add(object);
+    try {
+      const more = (total: number) =>
+        total > PREVIEW_MAX_ITEMS
+          ? [`… ${total - PREVIEW_MAX_ITEMS} more`]
+          : [];
+      if (Array.isArray(object)) {
+        return [
+          ...object
+            .slice(0, PREVIEW_MAX_ITEMS)
+            .map((item) => this.previewJson(item, depth + 1, seen)),
+          ...more(object.length),
+        ];
+      }
+      if (tag === "[object Map]") {
+        const map = object as Map<unknown, unknown>;
+        const entries = Array.from(map.entries()).slice(0, PREVIEW_MAX_ITEMS);
+        return [
+          ...entries.map(([key, item]) => [
+            this.previewJson(key, depth + 1, seen),
+            this.previewJson(item, depth + 1, seen),
+          ]),
+          ...more(map.size),
+        ];
+      }
+      if (tag === "[object Set]") {
+        const set = object as Set<unknown>;
+        return [
+          ...Array.from(set.values())
+            .slice(0, PREVIEW_MAX_ITEMS)
+            .map((item) => this.previewJson(item, depth + 1, seen)),
+          ...more(set.size),
+        ];
+      }
+      const result: Record<string, unknown> = {};
+      const keys = Object.keys(object);
+      for (const key of keys.slice(0, PREVIEW_MAX_ITEMS)) {
+        const descriptor = Object.getOwnPropertyDescriptor(object, key);
+        result[key] =
+          descriptor && "value" in descriptor
+            ? this.previewJson(descriptor.value, depth + 1, seen)
+            : "[Getter]";
+      }
+      if (keys.length > PREVIEW_MAX_ITEMS) {
+        result["…"] = `${keys.length - PREVIEW_MAX_ITEMS} more keys`;
+      }
+      return result;
+    } finally {
+      seen.delete(object);
+    }
+  }
+
+  private resolveMemberPath(path: string[]): MemberSlot | null {
+    let slot: MemberSlot | null = { value: this.context, accessor: false };
+    for (const key of path) {
+      if (!slot || slot.accessor) return null;
+      slot = readMember(slot.value, key);
+    }
+    return slot;
+  }
+
+  private previewValue(value: unknown): string {
+    let text: string;
+    if (typeof value === "function") {
+      const source = Function.prototype.toString.call(value);
+      text = source.split("\n")[0] ?? "";
+    } else {
+      // Strings are redacted before inspect() can cut a secret short
+      const subject = typeof value === "string" ? this.redact(value) : value;
+      text = inspect(this.sanitizeForConsole(subject), {
+        depth: 2,
+        maxArrayLength: 20,
+        maxStringLength: 200,
+        breakLength: 80,
+      });
+    }
+    text = this.redact(text);
+    return text.length > MAX_INSPECT_PREVIEW
+      ? `${text.slice(0, MAX_INSPECT_PREVIEW)}…`
+      : text;
+  }
+
+  // A cell reads the globals defined before it ran that it references and
+  // does not declare itself. It defines what it declares plus any global
+  // that appeared while it ran (e.g. `globalThis.x = 1`).
+  private resolveDependencies(
+    code: string,
+    knownBefore: Set<string>,
+    declared: string[]
+  ): CellDependencies {
+    const defines = new Set(declared);
+    try {
+      for (const name of this.listUserGlobalNames()) {
+        if (!knownBefore.has(name)) {
+          defines.add(name);
+        }
+      }
+    } catch {
+      /* ignore */
+    }
+    const reads: string[] = [];
+    for (const name of collectReferencedIdentifiers(code)) {
+      if (knownBefore.has(name) && !defines.has(name)) {
+        reads.push(name);
+      }
+    }
+    return {
+      defines: Array.from(defines).sort(),
+      reads: reads.sort(),
+    };
+  }
+
   private snapshotGlobals(): Record<string, unknown> {
     const snapshot: Record<string, unknown> = {};
     // Use both getOwnPropertyNames and Object.keys to catch all properties
@@ -1581,6 +2363,7 @@ export class NotebookRuntime {
     cellId,
     timeoutMs,
     globals,
+    preserveContext,
     onStream,
     onDisplay,
   }: InvokeUiHandlerOptions): Promise<ExecuteResult> {
@@ -1611,11 +2394,11 @@ export class NotebookRuntime {
 
     try {
       await this.ensureEnvironment(notebookId, env);
-      this.applyGlobals(globals);
+      this.applyGlobals(globals, preserveContext);
 
       const streamDisplay = (value: unknown, options?: DisplayEmitOptions) => {
         try {
-          const uiOutput = toUiDisplayOutput(value);
+          const uiOutput = toUiDisplayOutput(value, this.redact);
           if (uiOutput) {
             const meta = uiOutput.metadata ?? {};
             if (options?.displayId) {
@@ -1635,7 +2418,7 @@ export class NotebookRuntime {
             outputs.push(uiOutput);
             return;
           }
-          const ds = toDisplayData(value);
+          const ds = toDisplayData(value, this.redact);
           for (const d of ds) {
             if (d.type === "display_data") {
               const meta = {
@@ -1725,7 +2508,7 @@ export class NotebookRuntime {
         throw this.pendingAsyncErrors[0]!;
       }
 
-      const displayOutputs = toDisplayData(result);
+      const displayOutputs = toDisplayData(result, this.redact);
       outputs.push(...displayOutputs);
 
       const globalsSnapshot = this.snapshotGlobals();
@@ -1741,7 +2524,9 @@ export class NotebookRuntime {
       };
     } catch (error) {
       const ended = Date.now();
-      const details = createExecutionError(error);
+      const details = this.redactError(
+        createExecutionError(error, this.cellScripts)
+      );
       outputs.push({
         type: "error",
         ename: details.name,
@@ -1791,7 +2576,12 @@ export class NotebookRuntime {
     env: NotebookEnv
   ): Promise<void> {
     const packages = sanitizePackages(env.packages ?? {});
-    const envKey = createPackagesKey(packages);
+    const packagesKey = createPackagesKey(packages);
+    const lockId =
+      env.lockfile && lockfileMatchesPackages(env.lockfile, packages)
+        ? getLockfileId(env.lockfile)
+        : null;
+    const envKey = lockId ? `${packagesKey}#${lockId}` : packagesKey;
 
     if (
       this.currentNotebookId === notebookId &&
@@ -1802,7 +2592,11 @@ export class NotebookRuntime {
     }
 
     this.prepareQueue = this.prepareQueue.then(async () => {
-      await this.prepareNotebook(notebookId, packages, envKey);
+      await this.prepareNotebook(notebookId, packages, env.lockfile ?? null, {
+        packagesKey,
+        lockId,
+        envKey,
+      });
     });
 
     await this.prepareQueue;
@@ -1811,8 +2605,10 @@ export class NotebookRuntime {
   private async prepareNotebook(
     notebookId: string,
     packages: Record<string, string>,
-    envKey: string
+    lockfile: NotebookLockfile | null,
+    keys: { packagesKey: string; lockId: string | null; envKey: string }
   ): Promise<void> {
+    const { packagesKey, envKey } = keys;
     const sandboxDir = join(this.workspaceRoot, notebookId);
     await fsPromises.mkdir(sandboxDir, { recursive: true });
 
@@ -1823,8 +2619,10 @@ export class NotebookRuntime {
     const lockfilePath = join(sandboxDir, "package-lock.json");
 
     const metadata = await readEnvironmentMetadata(metadataPath);
-    const previousKey = metadata?.packagesKey ?? null;
-    const packagesChanged = previousKey !== envKey;
+    const packagesChanged = (metadata?.packagesKey ?? null) !== packagesKey;
+    // A lockfile other than the installed one, e.g. from an imported notebook
+    const lockChanged =
+      keys.lockId !== null && metadata?.lockId !== keys.lockId;
 
     const packageJson = createPackageJson(notebookId, packages);
     await fsPromises.writeFile(
@@ -1838,7 +2636,7 @@ export class NotebookRuntime {
       await fsPromises.rm(lockfilePath, { force: true });
       await fsPromises.writeFile(
         metadataPath,
-        JSON.stringify({ packagesKey: envKey }, null, 2)
+        JSON.stringify({ packagesKey }, null, 2)
       );
       await writeUiHelpersModule(sandboxDir);
       this.assignSandboxBindings(sandboxDir);
@@ -1848,19 +2646,33 @@ export class NotebookRuntime {
     }
 
     const hasNodeModules = await pathExists(nodeModulesPath);
+    let storeEntry = metadata?.storeEntry;
+    let lockId = metadata?.lockId;
 
-    if (packagesChanged || !hasNodeModules) {
+    if (packagesChanged || lockChanged || !hasNodeModules) {
       const list = Object.entries(packages)
         .map(([n, v]) => `${n}@${v}`)
         .join(", ");
-      this.console.proxy.log(
-        list.length > 0
-          ? `[env] Installing dependencies: ${list}`
-          : "[env] Installing dependencies"
-      );
       try {
-        await this.installDeps(sandboxDir, packages);
-        this.console.proxy.log("[env] Install complete");
+        const entry = await this.packageStore.ensure(
+          packages,
+          async (cwd, pkgs) => {
+            this.console.proxy.log(
+              list.length > 0
+                ? `[env] Installing dependencies: ${list}`
+                : "[env] Installing dependencies"
+            );
+            await this.installDeps(cwd, pkgs);
+            this.console.proxy.log("[env] Install complete");
+          },
+          lockfile
+        );
+        if (!entry.installed) {
+          this.console.proxy.log(`[env] Using cached dependencies: ${list}`);
+        }
+        await this.packageStore.link(entry.dir, sandboxDir);
+        storeEntry = entry.hash;
+        lockId = entry.lockId ?? undefined;
       } catch (error) {
         let message: string;
         if (error && typeof error === "object" && "stderr" in error) {
@@ -1882,7 +2694,7 @@ export class NotebookRuntime {
 
     await fsPromises.writeFile(
       metadataPath,
-      JSON.stringify({ packagesKey: envKey }, null, 2)
+      JSON.stringify({ packagesKey, lockId, storeEntry }, null, 2)
     );
 
     await writeUiHelpersModule(sandboxDir);
@@ -1935,11 +2747,217 @@ const sanitizePackages = (packages: Record<string, string>) => {
   return sanitized;
 };
 
-const createPackagesKey = (packages: Record<string, string>) => {
-  const entries = Object.keys(packages)
-    .sort()
-    .map((key) => [key, packages[key]]);
-  return JSON.stringify(entries);
+const WRAPPER_SCAFFOLDING =
+  /^(?:\(async\s*\(\)\s*=>\s*\{|let __nodebooks_result__;?|return __nodebooks_result__;?|\}\)\(\);?)$/;
+
+// Undo the edits made by rewriteTopLevelDeclarations and the top-level await
+// wrappers so a rewritten line compares equal to the line the user typed.
+// Lines that only exist in the wrapper normalize to "".
+const normalizeForAlignment = (line: string) =>
+  WRAPPER_SCAFFOLDING.test(line.trim())
+    ? ""
+    : line
+        .trim()
+        .replace(/;?\s*__nodebooks_result__\s*=\s*\(?$/, "")
+        .replace(/;+$/, "")
+        .replace(/^(?:return\s+)?__nodebooks_result__\s*=\s*/, "")
+        .replace(/^export\s+(?:default\s+)?/, "")
+        .replace(
+          /^(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*/,
+          "$1 = "
+        )
+        .replace(/^globalThis\.([A-Za-z_$][\w$]*)\s*=\s*/, "$1 = ")
+        .replace(
+          /^[A-Za-z_$][\w$]* = (?=(?:async\s+)?(?:function|class)\b)/,
+          ""
+        )
+        .replace(/\s+/g, " ");
+
+const ALIGN_MAX_LINES = 4000;
+
+// Maps each line of the wrapped source to a line of the cell (or -1). Lines
+// are paired with a longest-common-subsequence pass, then leftovers between
+// two pairs are matched up in order; lines the rewrite added, like
+// `var x = globalThis.x;`, inherit the line above them.
+const alignWrappedLines = (original: string, wrapped: string): number[] => {
+  const originalLines = original.split(/\r?\n/).map(normalizeForAlignment);
+  const wrappedLines = wrapped.split(/\r?\n/).map(normalizeForAlignment);
+  const result = new Array<number>(wrappedLines.length).fill(-1);
+  if (
+    originalLines.length > ALIGN_MAX_LINES ||
+    wrappedLines.length > ALIGN_MAX_LINES
+  ) {
+    return result;
+  }
+  const rows = wrappedLines.length;
+  const cols = originalLines.length;
+  const table = new Uint16Array((rows + 1) * (cols + 1));
+  const at = (i: number, j: number) => i * (cols + 1) + j;
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      const line = wrappedLines[i]!;
+      table[at(i, j)] =
+        line.length > 0 && line === originalLines[j]
+          ? table[at(i + 1, j + 1)]! + 1
+          : Math.max(table[at(i + 1, j)]!, table[at(i, j + 1)]!);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    const line = wrappedLines[i]!;
+    if (line.length > 0 && line === originalLines[j]) {
+      result[i] = j;
+      i++;
+      j++;
+    } else if (table[at(i + 1, j)]! >= table[at(i, j + 1)]!) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  let lastWrapped = -1;
+  let lastOriginal = -1;
+  for (let k = 0; k <= rows; k++) {
+    if (k < rows && result[k]! < 0) continue;
+    const nextOriginal = k < rows ? result[k]! : cols;
+    let candidate = lastOriginal + 1;
+    for (let gap = lastWrapped + 1; gap < k; gap++) {
+      while (
+        candidate < nextOriginal &&
+        originalLines[candidate]!.length === 0
+      ) {
+        candidate++;
+      }
+      if (candidate >= nextOriginal) break;
+      if (wrappedLines[gap]!.length === 0) continue;
+      result[gap] = candidate++;
+    }
+    lastWrapped = k;
+    lastOriginal = nextOriginal;
+  }
+  let previous = -1;
+  for (let k = 0; k < result.length; k++) {
+    if (result[k]! >= 0) {
+      previous = result[k]!;
+    } else if (previous >= 0 && wrappedLines[k]!.length > 0) {
+      result[k] = previous;
+    }
+  }
+  return result;
+};
+
+const commonSuffixLength = (a: string, b: string) => {
+  let length = 0;
+  while (
+    length < a.length &&
+    length < b.length &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length++;
+  }
+  return length;
+};
+
+interface WrappedSource {
+  alignment: number[];
+  originalLines: string[];
+  wrappedLines: string[];
+}
+
+const describeWrappedSource = (
+  source: string,
+  wrapped: string
+): WrappedSource => ({
+  alignment: alignWrappedLines(source, wrapped),
+  originalLines: source.split(/\r?\n/),
+  wrappedLines: wrapped.split(/\r?\n/),
+});
+
+// Zero-based position in the wrapped source -> position in the cell
+const toCellPosition = (
+  { alignment, originalLines, wrappedLines }: WrappedSource,
+  position: { line: number; column: number }
+): { line: number; column: number } | null => {
+  // The last expression is captured by appending
+  // `__nodebooks_result__ = (` to the line before it
+  const capturedAt = (wrappedLines[position.line] ?? "").search(
+    /__nodebooks_result__\s*=\s*\(?\s*$/
+  );
+  const wrappedLine =
+    capturedAt >= 0 && position.column >= capturedAt
+      ? position.line + 1
+      : position.line;
+  const line = alignment[wrappedLine] ?? -1;
+  if (line < 0) return null;
+  const originalText = originalLines[line] ?? "";
+  const indent = originalText.length - originalText.trimStart().length;
+  if (wrappedLine !== position.line) {
+    return { line, column: indent };
+  }
+  const wrappedText = wrappedLines[position.line] ?? "";
+  // The statement usually survives verbatim, e.g. inside the result capture
+  const statement = originalText.trim().replace(/;+$/, "");
+  const offset = statement ? wrappedText.indexOf(statement) : -1;
+  if (
+    offset >= 0 &&
+    position.column >= offset &&
+    position.column < offset + statement.length
+  ) {
+    return { line, column: indent + position.column - offset };
+  }
+  const suffix = commonSuffixLength(wrappedText, originalText);
+  const column =
+    position.column >= wrappedText.length - suffix
+      ? position.column - wrappedText.length + originalText.length
+      : indent;
+  return { line, column: Math.max(0, column) };
+};
+
+// Composes esbuild's map (compiled -> wrapped) with the line alignment
+// (wrapped -> cell) into a map that points straight at the cell source.
+const createCellSourceMap = (
+  wrappedSource: WrappedSource,
+  compiledMap: string | undefined,
+  sourceName: string
+): SourceMapV3 | null => {
+  if (!compiledMap) return null;
+  let parsed: SourceMapV3;
+  try {
+    parsed = JSON.parse(compiledMap) as SourceMapV3;
+  } catch {
+    return null;
+  }
+  const mappings: DecodedMappings = decodeMappings(parsed.mappings).map(
+    (segments) => {
+      const mapped: DecodedMappings[number] = [];
+      for (const segment of segments) {
+        const position = toCellPosition(wrappedSource, segment);
+        if (!position) continue;
+        const previous = mapped[mapped.length - 1];
+        if (
+          previous &&
+          previous.line === position.line &&
+          previous.column === position.column
+        ) {
+          continue;
+        }
+        mapped.push({
+          generatedColumn: segment.generatedColumn,
+          sourceIndex: 0,
+          ...position,
+        });
+      }
+      return mapped;
+    }
+  );
+  return {
+    version: 3,
+    sources: [sourceName],
+    sourcesContent: [wrappedSource.originalLines.join("\n")],
+    names: [],
+    mappings: encodeMappings(mappings),
+  };
 };
 
 // Alternate wrapper that preserves side-effects and reliably returns the value
@@ -2364,7 +3382,11 @@ const readEnvironmentMetadata = async (filePath: string) => {
     const raw = await fsPromises.readFile(filePath, "utf8");
     const parsed = JSON.parse(raw);
     if (parsed && typeof parsed === "object") {
-      return parsed as { packagesKey?: string };
+      return parsed as {
+        packagesKey?: string;
+        lockId?: string;
+        storeEntry?: string;
+      };
     }
     return null;
   } catch {
@@ -2384,6 +3406,9 @@ const ensureEntryModule = async (entryPath: string) => {
 const writeUiHelpersModule = async (sandboxDir: string) => {
   const helperSegments = UI_HELPER_ALIAS.split("/");
   const pkgDir = join(sandboxDir, "node_modules", ...helperSegments);
+  // A package of the same name would be linked from the store; replace the
+  // links rather than write through them
+  await fsPromises.rm(pkgDir, { recursive: true, force: true });
   await fsPromises.mkdir(pkgDir, { recursive: true });
 
   const pkgJsonPath = join(pkgDir, "package.json");
@@ -2782,6 +3807,7 @@ const wrapDgramModule = (mod: Record<string, unknown>) => {
 const createProcessProxy = (
   getCwd: () => string,
   getEnv: () => Record<string, string>,
+  isSecret: (key: string) => boolean,
   inspectHandler: () => string
 ): NodeJS.Process => {
   const inspectSymbol =
@@ -2815,7 +3841,7 @@ const createProcessProxy = (
       const keys = Object.keys(env).sort();
       const out: Record<string, string> = {};
       for (const k of keys) {
-        out[k] = String(env[k]);
+        out[k] = isSecret(k) ? MASKED_SECRET : String(env[k]);
       }
       return out;
     };
@@ -2996,6 +4022,46 @@ const PATH_ARG_MAP: Record<string, number[]> = {
   writeFileSync: [0],
 };
 
+// Arguments naming a file whose contents or mode the call changes, directly
+// or through a new hardlink. Files in node_modules are hardlinks into the
+// shared package store, so writing one would change it for every notebook
+// using the same packages.
+const WRITE_ARG_MAP: Record<string, number[]> = {
+  appendFile: [0],
+  appendFileSync: [0],
+  chmod: [0],
+  chmodSync: [0],
+  chown: [0],
+  chownSync: [0],
+  copyFile: [1],
+  copyFileSync: [1],
+  cp: [1],
+  cpSync: [1],
+  createWriteStream: [0],
+  link: [0],
+  linkSync: [0],
+  truncate: [0],
+  truncateSync: [0],
+  utimes: [0],
+  utimesSync: [0],
+  writeFile: [0],
+  writeFileSync: [0],
+};
+
+const isWriteFlag = (flags: unknown) => {
+  if (typeof flags === "number") {
+    return (flags & (fs.constants.O_WRONLY | fs.constants.O_RDWR)) !== 0;
+  }
+  return typeof flags === "string" && /[wa+]/.test(flags);
+};
+
+const getWrittenArgs = (method: string, args: unknown[]) => {
+  if (method === "open" || method === "openSync") {
+    return isWriteFlag(args[1]) ? [0] : [];
+  }
+  return WRITE_ARG_MAP[method] ?? [];
+};
+
 const sanitizeFsArgs = (method: string, args: unknown[], root: string) => {
   const indices = PATH_ARG_MAP[method];
   if (!indices || indices.length === 0) {
@@ -3008,6 +4074,33 @@ const sanitizeFsArgs = (method: string, args: unknown[], root: string) => {
     }
     next[index] = sanitizePathArgument(root, next[index]);
   }
+  const written = getWrittenArgs(method, next);
+  if (written.length === 0) {
+    return next;
+  }
+  // Symlinks elsewhere in the sandbox may point into node_modules, and the
+  // sandbox itself may sit below a symlinked temp directory
+  const realpath = (target: string) => {
+    try {
+      return fs.realpathSync(target);
+    } catch {
+      return target;
+    }
+  };
+  const nodeModules = join(resolve(root), "node_modules");
+  const packageDirs = [nodeModules, realpath(nodeModules)];
+  for (const index of written) {
+    const target = next[index];
+    if (typeof target !== "string") {
+      continue;
+    }
+    const real = realpath(target);
+    if (packageDirs.some((dir) => real === dir || real.startsWith(dir + sep))) {
+      throw new Error(
+        `Installed packages are read-only; cannot modify "${target}"`
+      );
+    }
+  }
   return next;
 };
 
@@ -3081,7 +4174,19 @@ const defaultInstallDependencies = async (
     return;
   }
 
-  await execFileAsync("npm", ["install", "--no-audit", "--no-fund"], {
+  // A lockfile written for exactly these packages is installed as is
+  let lockfile: NotebookLockfile | null = null;
+  try {
+    lockfile = JSON.parse(
+      await fsPromises.readFile(join(cwd, "package-lock.json"), "utf8")
+    ) as NotebookLockfile;
+  } catch {
+    lockfile = null;
+  }
+  const command = lockfileMatchesPackages(lockfile, packages)
+    ? "ci"
+    : "install";
+  await execFileAsync("npm", [command, "--no-audit", "--no-fund"], {
     cwd,
     env: { ...process.env, npm_config_update_notifier: "false" },
   });
@@ -3089,14 +4194,25 @@ const defaultInstallDependencies = async (
 
 const withTimeout = async <T>(
   promise: Promise<T>,
-  timeoutMs: number
+  timeoutMs: number,
+  options: { pausedMs?: () => number } = {}
 ): Promise<T> => {
   let timer: NodeJS.Timeout | undefined;
+  const started = Date.now();
+  const pausedAtStart = options.pausedMs?.() ?? 0;
 
   const timeoutPromise = new Promise<never>((_, reject) => {
-    timer = setTimeout(() => {
+    const check = () => {
+      // Push the deadline back by any time spent paused (e.g. on prompt())
+      const paused = (options.pausedMs?.() ?? 0) - pausedAtStart;
+      const remaining = started + timeoutMs + paused - Date.now();
+      if (remaining > 0) {
+        timer = setTimeout(check, remaining);
+        return;
+      }
       reject(new Error(`Execution timed out after ${timeoutMs}ms`));
-    }, timeoutMs);
+    };
+    timer = setTimeout(check, timeoutMs);
   });
 
   try {
@@ -0,0 +1,444 @@
+import { promises as fs } from "node:fs";
+import { createHash, randomUUID } from "node:crypto";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  getLockfileFingerprint,
+  lockfileMatchesPackages,
+  type NotebookLockfile,
+} from "@nodebooks/notebook-schema";
+
+// Dependency sets are installed once into `<workspaceRoot>/.store/<hash>` and
+// hardlinked into every notebook sandbox that asks for the same packages.
+// Linked files share one inode, so entries are made read-only once installed.
+
+export const DEFAULT_RUNTIME_WORKSPACE_ROOT = join(
+  tmpdir(),
+  "nodebooks-runtime"
+);
+
+const STORE_DIRNAME = ".store";
+const ENTRY_METADATA_FILE = ".nodebooks-store.json";
+const SANDBOX_METADATA_FILE = ".nodebooks-env.json";
+const ABANDONED_INSTALL_MS = 60 * 60 * 1000;
+
+export type PackageInstaller = (
+  cwd: string,
+  packages: Record<string, string>
+) => Promise<void>;
+
+export interface PackageStoreEntry {
+  hash: string;
+  packages: Record<string, string>;
+  createdAt: string;
+  lastUsedAt: string;
+  sizeBytes: number;
+  // Notebook sandboxes currently linked to the entry
+  notebooks: number;
+}
+
+export interface PackageStoreUsage {
+  root: string;
+  totalBytes: number;
+  entries: PackageStoreEntry[];
+}
+
+export interface PackageStoreGcOptions {
+  // Entries used more recently than this are kept even when unreferenced
+  olderThanMs?: number;
+  dryRun?: boolean;
+  now?: Date;
+}
+
+export interface PackageStoreGcResult {
+  removed: PackageStoreEntry[];
+  freedBytes: number;
+}
+
+interface EntryMetadata {
+  packagesKey: string;
+  packages: Record<string, string>;
+  // Identifies the package-lock.json the install produced
+  lockId?: string;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export const createPackagesKey = (packages: Record<string, string>) => {
+  const entries = Object.keys(packages)
+    .sort()
+    .map((key) => [key, packages[key]]);
+  return JSON.stringify(entries);
+};
+
+export const hashPackagesKey = (packagesKey: string) =>
+  createHash("sha256").update(packagesKey).digest("hex").slice(0, 32);
+
+export const getLockfileId = (lockfile: NotebookLockfile) =>
+  hashPackagesKey(getLockfileFingerprint(lockfile));
+
+const readJson = async <T>(filePath: string): Promise<T | null> => {
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, "utf8"));
+    return parsed && typeof parsed === "object" ? (parsed as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+const isErrnoException = (
+  error: unknown,
+  ...codes: string[]
+): error is NodeJS.ErrnoException =>
+  Boolean(
+    error &&
+    typeof error === "object" &&
+    "code" in error &&
+    codes.includes(String((error as NodeJS.ErrnoException).code))
+  );
+
+// Mirrors `source` into `target`, hardlinking files. Falls back to copies
+// when the two directories are on different devices.
+const linkTree = async (source: string, target: string): Promise<void> => {
+  await fs.mkdir(target, { recursive: true });
+  for (const entry of await fs.readdir(source, { withFileTypes: true })) {
+    const from = join(source, entry.name);
+    const to = join(target, entry.name);
+    if (entry.isDirectory()) {
+      await linkTree(from, to);
+    } else if (entry.isSymbolicLink()) {
+      await fs.symlink(await fs.readlink(from), to);
+    } else {
+      try {
+        await fs.link(from, to);
+      } catch (error) {
+        if (!isErrnoException(error, "EXDEV", "EPERM", "EMLINK")) {
+          throw error;
+        }
+        await fs.copyFile(from, to);
+      }
+    }
+  }
+};
+
+// Drops write permission from every file, keeping execute bits for binaries.
+// Directories stay writable so sandboxes and GC can still remove links.
+const freezeTree = async (directory: string): Promise<void> => {
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    const target = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      await freezeTree(target);
+    } else if (entry.isFile()) {
+      const { mode } = await fs.stat(target);
+      await fs.chmod(target, mode & 0o555);
+    }
+  }
+};
+
+// Inodes are counted once, so files linked twice inside an entry do not
+// inflate its size
+const measureTree = async (
+  directory: string,
+  seen = new Set<string>()
+): Promise<number> => {
+  let total = 0;
+  let entries;
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+  for (const entry of entries) {
+    const entryPath = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      total += await measureTree(entryPath, seen);
+      continue;
+    }
+    try {
+      const stats = await fs.lstat(entryPath);
+      const inode = `${stats.dev}:${stats.ino}`;
+      if (!seen.has(inode)) {
+        seen.add(inode);
+        total += stats.size;
+      }
+    } catch {
+      /* removed while measuring */
+    }
+  }
+  return total;
+};
+
+export class PackageStore {
+  readonly root: string;
+  private readonly pending = new Map<string, Promise<EntryMetadata>>();
+
+  constructor(private readonly workspaceRoot = DEFAULT_RUNTIME_WORKSPACE_ROOT) {
+    this.root = join(workspaceRoot, STORE_DIRNAME);
+  }
+
+  /**
+   * Returns the store directory holding `packages`, running `install` into a
+   * scratch directory first when no entry exists yet. A lockfile matching
+   * `packages` pins the entry to its tree; a stale one only seeds the
+   * install. `installed` tells whether this call did the install.
+   */
+  async ensure(
+    packages: Record<string, string>,
+    install: PackageInstaller,
+    lockfile?: NotebookLockfile | null
+  ): Promise<{
+    dir: string;
+    hash: string;
+    installed: boolean;
+    lockId: string | null;
+  }> {
+    const packagesKey = createPackagesKey(packages);
+    const lockId =
+      lockfile && lockfileMatchesPackages(lockfile, packages)
+        ? getLockfileId(lockfile)
+        : null;
+    const plainHash = hashPackagesKey(packagesKey);
+    // An entry resolved without a lockfile is reused when it produced the
+    // very tree the lockfile asks for
+    const candidates = lockId
+      ? [hashPackagesKey(`${packagesKey}#${lockId}`), plainHash]
+      : [plainHash];
+    for (const candidate of candidates) {
+      const metadata = await this.claim(candidate, lockId);
+      if (metadata) {
+        return {
+          dir: join(this.root, candidate),
+          hash: candidate,
+          installed: false,
+          lockId: metadata.lockId ?? null,
+        };
+      }
+    }
+    const hash = candidates[0]!;
+    let task = this.pending.get(hash);
+    const installed = !task;
+    if (!task) {
+      task = this.install(
+        hash,
+        packagesKey,
+        packages,
+        install,
+        lockfile ?? null
+      ).finally(() => {
+        this.pending.delete(hash);
+      });
+      this.pending.set(hash, task);
+    }
+    const metadata = await task;
+    return {
+      dir: join(this.root, hash),
+      hash,
+      installed,
+      lockId: metadata.lockId ?? null,
+    };
+  }
+
+  // Replaces the sandbox's node_modules with links into the store entry
+  async link(dir: string, sandboxDir: string): Promise<void> {
+    const nodeModules = join(sandboxDir, "node_modules");
+    await fs.rm(nodeModules, { recursive: true, force: true });
+    await linkTree(join(dir, "node_modules"), nodeModules);
+    const lockfile = join(sandboxDir, "package-lock.json");
+    await fs.rm(lockfile, { force: true });
+    try {
+      await fs.copyFile(join(dir, "package-lock.json"), lockfile);
+    } catch {
+      /* installers are not required to write a lockfile */
+    }
+  }
+
+  async usage(): Promise<PackageStoreUsage> {
+    const references = await this.countReferences();
+    const seen = new Set<string>();
+    const entries: PackageStoreEntry[] = [];
+    for (const hash of await this.listHashes()) {
+      const metadata = await readJson<EntryMetadata>(
+        join(this.root, hash, ENTRY_METADATA_FILE)
+      );
+      if (!metadata) {
+        continue;
+      }
+      entries.push({
+        hash,
+        packages: metadata.packages ?? {},
+        createdAt: metadata.createdAt,
+        lastUsedAt: metadata.lastUsedAt,
+        sizeBytes: await measureTree(join(this.root, hash), seen),
+        notebooks: references.get(hash) ?? 0,
+      });
+    }
+    entries.sort((a, b) => b.sizeBytes - a.sizeBytes);
+    return {
+      root: this.root,
+      totalBytes: entries.reduce((sum, entry) => sum + entry.sizeBytes, 0),
+      entries,
+    };
+  }
+
+  /**
+   * Removes entries no notebook sandbox links to, plus leftovers of installs
+   * that never finished. Linked sandboxes keep their own hardlinks, so a
+   * removed entry is simply reinstalled the next time it is needed.
+   */
+  async gc(options: PackageStoreGcOptions = {}): Promise<PackageStoreGcResult> {
+    const now = (options.now ?? new Date()).getTime();
+    const olderThanMs = options.olderThanMs ?? 0;
+    const { entries } = await this.usage();
+    const removed = entries.filter(
+      (entry) =>
+        entry.notebooks === 0 &&
+        now - Date.parse(entry.lastUsedAt) >= olderThanMs
+    );
+    if (!options.dryRun) {
+      for (const entry of removed) {
+        await fs.rm(join(this.root, entry.hash), {
+          recursive: true,
+          force: true,
+        });
+      }
+      const known = new Set(entries.map((entry) => entry.hash));
+      for (const name of await this.listHashes()) {
+        if (known.has(name)) {
+          continue;
+        }
+        // Recent scratch directories may belong to an install in progress
+        const stats = await fs.stat(join(this.root, name)).catch(() => null);
+        if (stats && now - stats.mtimeMs >= ABANDONED_INSTALL_MS) {
+          await fs.rm(join(this.root, name), { recursive: true, force: true });
+        }
+      }
+    }
+    return {
+      removed,
+      freedBytes: removed.reduce((sum, entry) => sum + entry.sizeBytes, 0),
+    };
+  }
+
+  private async install(
+    hash: string,
+    packagesKey: string,
+    packages: Record<string, string>,
+    install: PackageInstaller,
+    lockfile: NotebookLockfile | null
+  ): Promise<EntryMetadata> {
+    const dir = join(this.root, hash);
+    const scratch = join(this.root, `${hash}.tmp-${randomUUID()}`);
+    await fs.mkdir(scratch, { recursive: true });
+    try {
+      await fs.writeFile(
+        join(scratch, "package.json"),
+        JSON.stringify(
+          {
+            name: `nodebooks-store-${hash}`,
+            private: true,
+            version: "0.0.0",
+            type: "commonjs",
+            dependencies: packages,
+          },
+          null,
+          2
+        )
+      );
+      if (lockfile) {
+        await fs.writeFile(
+          join(scratch, "package-lock.json"),
+          JSON.stringify(lockfile, null, 2)
+        );
+      }
+      await install(scratch, packages);
+      await fs.mkdir(join(scratch, "node_modules"), { recursive: true });
+      await freezeTree(join(scratch, "node_modules"));
+      const resolved = await readJson<NotebookLockfile>(
+        join(scratch, "package-lock.json")
+      );
+      const now = new Date().toISOString();
+      const metadata: EntryMetadata = {
+        packagesKey,
+        packages,
+        ...(resolved ? { lockId: getLockfileId(resolved) } : {}),
+        createdAt: now,
+        lastUsedAt: now,
+      };
+      await fs.writeFile(
+        join(scratch, ENTRY_METADATA_FILE),
+        JSON.stringify(metadata, null, 2)
+      );
+      try {
+        await fs.rename(scratch, dir);
+      } catch (error) {
+        // Another process finished the same install first
+        if (!isErrnoException(error, "EEXIST", "ENOTEMPTY", "EPERM")) {
+          throw error;
+        }
+      }
+      return metadata;
+    } finally {
+      await fs.rm(scratch, { recursive: true, force: true });
+    }
+  }
+
+  // Marks the entry as used when it exists and holds the wanted tree
+  private async claim(
+    hash: string,
+    lockId: string | null
+  ): Promise<EntryMetadata | null> {
+    const metadataPath = join(this.root, hash, ENTRY_METADATA_FILE);
+    const metadata = await readJson<EntryMetadata>(metadataPath);
+    if (!metadata || (lockId && metadata.lockId !== lockId)) {
+      return null;
+    }
+    metadata.lastUsedAt = new Date().toISOString();
+    try {
+      await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2));
+    } catch {
+      /* the entry is still usable */
+    }
+    return metadata;
+  }
+
+  private async listHashes(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.root, { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name);
+    } catch {
+      return [];
+    }
+  }
+
+  // Sandboxes record the entry (or, before that, the packages key) they were
+  // last prepared with
+  private async countReferences(): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    let sandboxes;
+    try {
+      sandboxes = await fs.readdir(this.workspaceRoot, { withFileTypes: true });
+    } catch {
+      return counts;
+    }
+    for (const sandbox of sandboxes) {
+      if (!sandbox.isDirectory() || sandbox.name === STORE_DIRNAME) {
+        continue;
+      }
+      const metadata = await readJson<{
+        packagesKey?: string;
+        storeEntry?: string;
+      }>(join(this.workspaceRoot, sandbox.name, SANDBOX_METADATA_FILE));
+      const hash =
+        metadata?.storeEntry ??
+        (metadata?.packagesKey && metadata.packagesKey !== "[]"
+          ? hashPackagesKey(metadata.packagesKey)
+          : null);
+      if (hash) {
+        counts.set(hash, (counts.get(hash) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }
+}
@@ -0,0 +1,177 @@
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getLockedVersions,
+  type NotebookLockfile,
+} from "@nodebooks/notebook-schema";
+import {
+  PackageStore,
+  createPackagesKey,
+  getLockfileId,
+  type PackageInstaller,
+} from "../src/package-store.js";
+
+// Resolves every range to 1.0.0, or to what a package-lock.json pins
+const fakeInstaller: PackageInstaller = async (cwd, packages) => {
+  const existing = await fs
+    .readFile(join(cwd, "package-lock.json"), "utf8")
+    .then((raw) => JSON.parse(raw) as NotebookLockfile)
+    .catch(() => null);
+  const locked = getLockedVersions(existing);
+  for (const name of Object.keys(packages)) {
+    const moduleRoot = join(cwd, "node_modules", name);
+    await fs.mkdir(moduleRoot, { recursive: true });
+    await fs.writeFile(
+      join(moduleRoot, "index.js"),
+      `module.exports = ${JSON.stringify(name)};\n`
+    );
+  }
+  await fs.writeFile(
+    join(cwd, "package-lock.json"),
+    JSON.stringify(createLockfile(packages, locked))
+  );
+};
+
+const createLockfile = (
+  packages: Record<string, string>,
+  versions: Record<string, string> = {}
+): NotebookLockfile => ({
+  lockfileVersion: 3,
+  packages: {
+    "": { dependencies: packages },
+    ...Object.fromEntries(
+      Object.keys(packages).map((name) => [
+        `node_modules/${name}`,
+        { version: versions[name] ?? "1.0.0" },
+      ])
+    ),
+  },
+});
+
+describe("PackageStore", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(join(tmpdir(), "nodebooks-store-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const prepareSandbox = async (
+    store: PackageStore,
+    notebookId: string,
+    packages: Record<string, string>,
+    install: PackageInstaller
+  ) => {
+    const sandboxDir = join(root, notebookId);
+    await fs.mkdir(sandboxDir, { recursive: true });
+    const result = await store.ensure(packages, install);
+    await store.link(result.dir, sandboxDir);
+    await fs.writeFile(
+      join(sandboxDir, ".nodebooks-env.json"),
+      JSON.stringify({ packagesKey: createPackagesKey(packages) })
+    );
+    return { ...result, sandboxDir };
+  };
+
+  it("installs each dependency set once and links it into sandboxes", async () => {
+    const store = new PackageStore(root);
+    const install = vi.fn(fakeInstaller);
+
+    const first = await prepareSandbox(
+      store,
+      "nb-1",
+      { lodash: "^4.17.21" },
+      install
+    );
+    const second = await prepareSandbox(
+      store,
+      "nb-2",
+      { lodash: "^4.17.21" },
+      install
+    );
+
+    expect(install).toHaveBeenCalledTimes(1);
+    expect(first.installed).toBe(true);
+    expect(second.installed).toBe(false);
+    expect(second.hash).toBe(first.hash);
+
+    const [a, b] = await Promise.all(
+      [first, second].map(({ sandboxDir }) =>
+        fs.stat(join(sandboxDir, "node_modules", "lodash", "index.js"))
+      )
+    );
+    expect(a!.ino).toBe(b!.ino);
+    // Shared inodes must not be writable from any one sandbox
+    expect(a!.mode & 0o222).toBe(0);
+
+    const usage = await store.usage();
+    expect(usage.entries).toHaveLength(1);
+    expect(usage.entries[0]).toMatchObject({
+      packages: { lodash: "^4.17.21" },
+      notebooks: 2,
+    });
+    expect(usage.totalBytes).toBeGreaterThan(0);
+  });
+
+  it("collects entries no sandbox links to", async () => {
+    const store = new PackageStore(root);
+    await prepareSandbox(store, "nb-1", { lodash: "^4.17.21" }, fakeInstaller);
+    const unused = await store.ensure({ dayjs: "^1.11.0" }, fakeInstaller);
+
+    const dryRun = await store.gc({ dryRun: true });
+    expect(dryRun.removed.map((entry) => entry.hash)).toEqual([unused.hash]);
+    expect((await store.usage()).entries).toHaveLength(2);
+
+    const recent = await store.gc({ olderThanMs: 60_000 });
+    expect(recent.removed).toEqual([]);
+
+    const result = await store.gc();
+    expect(result.removed.map((entry) => entry.hash)).toEqual([unused.hash]);
+    expect(result.freedBytes).toBeGreaterThan(0);
+    expect((await store.usage()).entries).toHaveLength(1);
+  });
+
+  it("keeps entries pinned by a lockfile apart from fresh resolutions", async () => {
+    const store = new PackageStore(root);
+    const packages = { lodash: "^4.17.0" };
+    const fresh = await store.ensure(packages, fakeInstaller);
+    expect(fresh.lockId).toBe(getLockfileId(createLockfile(packages)));
+
+    // The lockfile the fresh install produced needs no second install
+    const install = vi.fn(fakeInstaller);
+    const same = await store.ensure(
+      packages,
+      install,
+      createLockfile(packages)
+    );
+    expect(same).toMatchObject({ hash: fresh.hash, installed: false });
+
+    const older = createLockfile(packages, { lodash: "4.17.0" });
+    const pinned = await store.ensure(packages, install, older);
+    expect(install).toHaveBeenCalledTimes(1);
+    expect(pinned.hash).not.toBe(fresh.hash);
+    expect(pinned.lockId).toBe(getLockfileId(older));
+
+    // A lockfile for other ranges only seeds the install, which keeps the
+    // versions it pinned
+    const stale = await store.ensure({ lodash: "^4.0.0" }, install, older);
+    expect(stale.installed).toBe(true);
+    expect(install).toHaveBeenCalledTimes(2);
+    expect(stale.lockId).toBe(getLockfileId(older));
+  });
+
+  it("leaves no entry behind when the install fails", async () => {
+    const store = new PackageStore(root);
+    await expect(
+      store.ensure({ broken: "1.0.0" }, async () => {
+        throw new Error("registry unavailable");
+      })
+    ).rejects.toThrow("registry unavailable");
+    expect(await fs.readdir(store.root)).toEqual([]);
+  });
+});
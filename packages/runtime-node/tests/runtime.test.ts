@@ -101,6 +101,110 @@ describe("NotebookRuntime", () => {
     });
   });
 
+  it("reports failed expectations as AssertionError", async () => {
+    await withRuntime(undefined, async (runtime) => {
+      const cell = createCodeCell({ id: "cell-assert", language: "ts" });
+
+      const result = await runtime.execute({
+        cell,
+        code: [
+          'import { assert, expect } from "@nodebooks/ui";',
+          "const body = JSON.parse('{\"items\":[1,2]}');",
+          "assert(body.items.length === 2);",
+          "expect(body).toEqual({ items: [1, 2] });",
+          "expect(body.items).toContain(3);",
+        ].join("\n"),
+        notebookId: "notebook-assert",
+        env: createEnv(),
+      });
+
+      expect(result.execution.status).toBe("error");
+      const error = result.outputs.find((output) => output.type === "error");
+      expect(error).toMatchObject({
+        ename: "AssertionError",
+        evalue: "Expected [1,2] to contain 3",
+      });
+    });
+  });
+
+  it("compares Sets and Maps regardless of insertion order", async () => {
+    await withRuntime(undefined, async (runtime) => {
+      const cell = createCodeCell({ id: "cell-collections", language: "js" });
+
+      const passed = await runtime.execute({
+        cell,
+        code: [
+          'import { expect } from "@nodebooks/ui";',
+          "expect(new Set([1, 2])).toEqual(new Set([2, 1]));",
+          "expect(new Set([{ id: 1 }, { id: 2 }])).toEqual(new Set([{ id: 2 }, { id: 1 }]));",
+          'expect(new Map([["a", 1], ["b", { n: 2 }]])).toEqual(new Map([["b", { n: 2 }], ["a", 1]]));',
+        ].join("\n"),
+        notebookId: "notebook-collections",
+        env: createEnv(),
+      });
+      expect(passed.execution.status).toBe("ok");
+
+      const failed = await runtime.execute({
+        cell,
+        code: [
+          'import { expect } from "@nodebooks/ui";',
+          'expect(new Map([["a", 1], ["b", 2]])).toEqual(new Map([["b", 1], ["a", 2]]));',
+        ].join("\n"),
+        notebookId: "notebook-collections",
+        env: createEnv(),
+      });
+      expect(
+        failed.outputs.find((output) => output.type === "error")
+      ).toMatchObject({ ename: "AssertionError" });
+    });
+  });
+
+  it("maps tracebacks to cell lines and drops runtime frames", async () => {
+    await withRuntime(undefined, async (runtime) => {
+      const helpers = createCodeCell({ id: "cell-helpers", language: "ts" });
+      await runtime.execute({
+        cell: helpers,
+        code: [
+          "const factor: number = 2;",
+          "function explode(n: number): never {",
+          "  throw new RangeError(`bad ${n * factor}`);",
+          "}",
+        ].join("\n"),
+        notebookId: "notebook-trace",
+        env: createEnv(),
+        preserveContext: true,
+      });
+      const cell = createCodeCell({ id: "cell-caller", language: "ts" });
+      const result = await runtime.execute({
+        cell,
+        code: "await Promise.resolve();\nexplode(1);",
+        notebookId: "notebook-trace",
+        env: createEnv(),
+        preserveContext: true,
+      });
+
+      const error = result.outputs.find((output) => output.type === "error");
+      expect(error).toMatchObject({ ename: "RangeError", evalue: "bad 2" });
+      expect(error?.type === "error" && error.traceback).toEqual([
+        "RangeError: bad 2",
+        "    at explode (cell-helpers.ts:3:9)",
+        "    at cell-caller.ts:2:1",
+      ]);
+
+      const broken = await runtime.execute({
+        cell: createCodeCell({ id: "cell-syntax", language: "ts" }),
+        code: "const ok = 1;\nconst value = ;",
+        notebookId: "notebook-trace",
+        env: createEnv(),
+      });
+      const syntax = broken.outputs.find((output) => output.type === "error");
+      expect(syntax).toMatchObject({
+        ename: "SyntaxError",
+        traceback: [expect.any(String), "    at cell-syntax.ts:2:15"],
+      });
+    });
+  });
+
   it("captures runtime globals for subsequent cells", async () => {
     await withRuntime(undefined, async (runtime) => {
       const cell = createCodeCell({ id: "cell-globals", language: "js" });
@@ -129,6 +233,177 @@ describe("NotebookRuntime", () => {
     });
   });
 
+  it("reports the globals a cell defines and reads", async () => {
+    await withRuntime(undefined, async (runtime) => {
+      const first = await runtime.execute({
+        cell: createCodeCell({ id: "cell-define", language: "ts" }),
+        code: [
+          "const rate: number = 2;",
+          "function scale(value: number) { return value * rate; }",
+        ].join("\n"),
+        notebookId: "notebook-deps",
+        env: createEnv(),
+      });
+      expect(first.dependencies).toEqual({
+        defines: ["rate", "scale"],
+        reads: [],
+      });
+
+      const second = await runtime.execute({
+        cell: createCodeCell({ id: "cell-read", language: "js" }),
+        code: [
+          "// rate is mentioned in a comment only",
+          "const label = `scaled ${scale(3)}`;",
+          "const total = label.rate ?? 'rate';",
+          "label;",
+        ].join("\n"),
+        notebookId: "notebook-deps",
+        env: createEnv(),
+      });
+      expect(second.execution.status).toBe("ok");
+      expect(second.dependencies).toEqual({
+        defines: ["label", "total"],
+        reads: ["scale"],
+      });
+    });
+  });
+
+  it("answers prompt() through the input handler without timing out", async () => {
+    await withRuntime(undefined, async (runtime) => {
+      const requests: Array<{ prompt: string; password: boolean }> = [];
+      const result = await runtime.execute({
+        cell: createCodeCell({ id: "cell-prompt", language: "js" }),
+        code: [
+          'const name = await prompt("Name?");',
+          'const key = await prompt("API key?", { password: true });',
+          "console.log(`${name}:${key.length}`);",
+        ].join("\n"),
+        notebookId: "notebook-prompt",
+        env: createEnv(),
+        timeoutMs: 200,
+        onInput: async (request) => {
+          requests.push(request);
+          // Answering takes longer than the cell timeout
+          await new Promise((resolve) => setTimeout(resolve, 150));
+          return request.password ? "s3cret" : "Ada";
+        },
+      });
+
+      expect(result.execution.status).toBe("ok");
+      expect(requests).toEqual([
+        { prompt: "Name?", password: false },
+        { prompt: "API key?", password: true },
+      ]);
+      const stdout = result.outputs
+        .filter((output) => output.type === "stream")
+        .map((output) => (output as { text: string }).text)
+        .join("");
+      expect(stdout).toContain("Name? Ada");
+      expect(stdout).toContain("API key?");
+      expect(stdout).toContain("Ada:6");
+      expect(stdout).not.toContain("s3cret");
+    });
+  });
+
+  it("completes and inspects values from the live context", async () => {
+    await withRuntime(undefined, async (runtime) => {
+      await runtime.execute({
+        cell: createCodeCell({ id: "cell-users", language: "js" }),
+        code: [
+          "const users = { list: [1, 2, 3], count: 3, reload() {} };",
+          "let reads = 0;",
+          "const guarded = { get secret() { reads += 1; return 'x'; } };",
+        ].join("\n"),
+        notebookId: "notebook-introspect",
+        env: createEnv(),
+      });
+
+      const topLevel = runtime.complete("us", 2);
+      expect(topLevel.matches.map((match) => match.label)).toEqual(["users"]);
+      expect(topLevel.cursorStart).toBe(0);
+
+      const code = "const total = users.co";
+      const members = runtime.complete(code, code.length);
+      expect(members.matches).toEqual([
+        { label: "count", kind: "property", detail: "number" },
+      ]);
+      expect(members.cursorStart).toBe(code.length - 2);
+      expect(
+        runtime.complete("users.", 6).matches.find((m) => m.label === "reload")
+      ).toMatchObject({ kind: "method" });
+      // Calls are never evaluated to complete their result
+      expect(runtime.complete("load().", 7).matches).toEqual([]);
+
+      const hover = runtime.inspect("users.list.length", 8);
+      expect(hover).toMatchObject({
+        found: true,
+        name: "users.list",
+        valueType: "Array(3)",
+      });
+      expect(hover.preview).toContain("1, 2, 3");
+
+      expect(runtime.inspect("guarded.secret", 10)).toMatchObject({
+        found: true,
+        valueType: "getter",
+      });
+      expect(runtime.complete("guarded.", 8).matches).toHaveLength(1);
+      // The getter never ran
+      expect(runtime.inspect("reads", 2).preview).toBe("0");
+      expect(runtime.inspect("missing.value", 3)).toEqual({ found: false });
+    });
+  });
+
+  it("lists user globals for the variable explorer and deletes them", async () => {
+    await withRuntime(undefined, async (runtime) => {
+      await runtime.execute({
+        cell: createCodeCell({ id: "cell-vars", language: "js" }),
+        code: [
+          "const rows = [{ id: 1, name: 'a' }, { id: 3, name: null }];",
+          "const lookup = new Map([['x', 1]]);",
+          "const nested = { a: { b: { c: { d: 1 } } } };",
+          "nested.self = nested;",
+        ].join("\n"),
+        notebookId: "notebook-variables",
+        env: createEnv(),
+      });
+
+      const variables = runtime.listVariables();
+      expect(variables.map((variable) => variable.name)).toEqual([
+        "lookup",
+        "nested",
+        "rows",
+      ]);
+      const [lookup, nested, rows] = variables;
+      expect(lookup).toMatchObject({
+        valueType: "Map",
+        shape: "size 1",
+        preview: [["x", 1]],
+      });
+      expect(nested.shape).toBe("2 keys");
+      expect(nested.preview).toEqual({
+        a: { b: { c: "[Object]" } },
+        self: "[Circular]",
+      });
+      expect(rows).toMatchObject({ valueType: "Array", shape: "2 items" });
+      expect(rows.summary?.schema).toEqual([
+        { name: "id", type: "number" },
+        { name: "name", type: "string", nullable: true },
+      ]);
+      expect(rows.summary?.stats?.id).toMatchObject({
+        min: 1,
+        max: 3,
+        mean: 2,
+      });
+
+      expect(runtime.deleteVariable("rows")).toBe(true);
+      expect(runtime.deleteVariable("rows")).toBe(false);
+      expect(runtime.listVariables().map((variable) => variable.name)).toEqual([
+        "lookup",
+        "nested",
+      ]);
+    });
+  });
+
   it("loads sandboxed dependencies using the installer hook", async () => {
     await withRuntime(
       {
@@ -170,6 +445,62 @@ describe("NotebookRuntime", () => {
     );
   });
 
+  it("keeps sandbox writes out of the shared package store", async () => {
+    await withRuntime(
+      {
+        installDependencies: async (cwd) => {
+          const moduleRoot = join(cwd, "node_modules", "shared-package");
+          await fs.mkdir(moduleRoot, { recursive: true });
+          await fs.writeFile(
+            join(moduleRoot, "index.js"),
+            "module.exports = 'original';\n"
+          );
+        },
+      },
+      async (runtime, root) => {
+        const cell = createCodeCell({ id: "cell-store", language: "js" });
+        const result = await runtime.execute({
+          cell,
+          code: [
+            "const fs = require('fs');",
+            "const file = 'node_modules/shared-package/index.js';",
+            "const errors = [];",
+            "const attempt = (write) => {",
+            "  try { write(); } catch (error) { errors.push(error.message); }",
+            "};",
+            "attempt(() => fs.writeFileSync(file, 'tampered'));",
+            "attempt(() => fs.chmodSync(file, 0o644));",
+            "attempt(() => fs.openSync(file, 'r+'));",
+            "attempt(() => fs.symlinkSync(file, 'alias.js'));",
+            "attempt(() => fs.writeFileSync('alias.js', 'tampered'));",
+            "errors;",
+          ].join("\n"),
+          notebookId: "notebook-store",
+          env: createEnv({ "shared-package": "^1.0.0" }),
+        });
+
+        const display = result.outputs.find(isDisplayData);
+        const payload = display?.data?.[NODEBOOKS_UI_MIME] as
+          | { json?: unknown }
+          | undefined;
+        const errors = payload?.json as string[];
+        expect(errors).toHaveLength(4);
+        for (const message of errors) {
+          expect(message).toContain("read-only");
+        }
+
+        const storeDir = join(root, ".store");
+        const [hash] = await fs.readdir(storeDir);
+        expect(
+          await fs.readFile(
+            join(storeDir, hash!, "node_modules", "shared-package", "index.js"),
+            "utf8"
+          )
+        ).toBe("module.exports = 'original';\n");
+      }
+    );
+  });
+
   it("registers and invokes interactive UI handlers", async () => {
     await withRuntime(undefined, async (runtime) => {
       const cell = createCodeCell({ id: "cell-ui", language: "ts" });
@@ -403,6 +734,109 @@ button;`,
     });
   });
 
+  it("exposes secrets through process.env but masks them when printed", async () => {
+    await withRuntime(undefined, async (runtime) => {
+      const cell = createCodeCell({ id: "cell-secrets", language: "js" });
+
+      const result = await runtime.execute({
+        cell,
+        code: [
+          "console.log(process.env);",
+          'process.env.API_TOKEN === "s3cr3t" && process.env.REGION;',
+        ].join("\n"),
+        notebookId: "notebook-secrets",
+        env: {
+          ...createEnv(),
+          variables: { REGION: "eu", API_TOKEN: "plain" },
+          secrets: { API_TOKEN: "s3cr3t" },
+        },
+      });
+
+      const stdout = result.outputs
+        .filter((output): output is StreamOutput => output.type === "stream")
+        .map((output) => output.text)
+        .join("");
+      expect(stdout).toContain("[secret]");
+      expect(stdout).toContain("eu");
+      expect(stdout).not.toContain("s3cr3t");
+      const display = result.outputs.find(isDisplayData);
+      const payload = display?.data?.[NODEBOOKS_UI_MIME] as
+        | { json?: unknown }
+        | undefined;
+      expect(payload?.json).toBe("eu");
+    });
+  });
+
+  it("redacts sensitive values and configured patterns from outputs", async () => {
+    await withRuntime(undefined, async (runtime) => {
+      const cell = createCodeCell({ id: "cell-redact", language: "js" });
+      const env = {
+        ...createEnv(),
+        variables: { TOKEN: "tok-123456", REGION: "eu-west" },
+        sensitive: ["TOKEN"],
+        redactionPatterns: ["sk-[A-Za-z0-9]{20,}"],
+      };
+
+      const result = await runtime.execute({
+        cell,
+        code: [
+          "console.log(`token=${process.env.TOKEN}`);",
+          'console.log("key sk-abcdefghijklmnopqrstuvwx");',
+          "({ token: process.env.TOKEN, region: process.env.REGION });",
+        ].join("\n"),
+        notebookId: "notebook-redact",
+        env,
+      });
+
+      const serialized = JSON.stringify(result.outputs);
+      expect(serialized).not.toContain("tok-123456");
+      expect(serialized).not.toContain("sk-abcdefghijklmnopqrstuvwx");
+      expect(serialized).toContain("token=[redacted]");
+      expect(serialized).toContain("key [redacted]");
+      expect(serialized).toContain("eu-west");
+
+      const failed = await runtime.execute({
+        cell,
+        code: "throw new Error(`bad token ${process.env.TOKEN}`);",
+        notebookId: "notebook-redact",
+        env,
+      });
+      const error = failed.outputs.find((output) => output.type === "error");
+      expect(error).toMatchObject({ evalue: "bad token [redacted]" });
+      expect(failed.execution.error?.message).toBe("bad token [redacted]");
+    });
+  });
+
+  it("redacts sensitive values from variable previews and hovers", async () => {
+    await withRuntime(undefined, async (runtime) => {
+      const cell = createCodeCell({ id: "cell-redact-vars", language: "js" });
+      await runtime.execute({
+        cell,
+        code: [
+          "const t = process.env.TOKEN;",
+          "const config = { token: process.env.TOKEN, region: process.env.REGION };",
+        ].join("\n"),
+        notebookId: "notebook-redact-vars",
+        env: {
+          ...createEnv(),
+          variables: { TOKEN: "tok-123456", REGION: "eu-west" },
+          sensitive: ["TOKEN"],
+        },
+      });
+
+      const serialized = JSON.stringify(runtime.listVariables());
+      expect(serialized).not.toContain("tok-123456");
+      expect(serialized).toContain("[redacted]");
+      expect(serialized).toContain("eu-west");
+
+      const hover = runtime.inspect("t", 1);
+      expect(hover).toMatchObject({ found: true, valueType: "string" });
+      expect(hover.preview).not.toContain("tok-123456");
+      expect(hover.preview).toContain("[redacted]");
+      expect(runtime.inspect("config", 6).preview).not.toContain("tok-123456");
+    });
+  });
+
   it("handles multi-line call expressions", async () => {
     await withRuntime(undefined, async (runtime) => {
       const cell = createCodeCell({ id: "cell-multiline", language: "js" });
@@ -1,2 +1,3 @@
 export * from "./kernel-ipc.js";
 export * from "./ipc-codec.js";
+export * from "./source-map.js";
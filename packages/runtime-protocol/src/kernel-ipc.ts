@@ -1,7 +1,10 @@
 import { z } from "zod";
 import {
+  CellDependenciesSchema,
   CodeCellSchema,
-  NotebookEnvSchema,
+  KernelCompletionMatchSchema,
+  KernelEnvSchema,
+  KernelVariableSchema,
   NotebookOutputSchema,
   OutputExecutionSchema,
 } from "@nodebooks/notebook-schema";
@@ -12,9 +15,12 @@ export const IpcRunCellSchema = z.object({
   cell: CodeCellSchema,
   code: z.string(),
   notebookId: z.string(),
-  env: NotebookEnvSchema,
+  env: KernelEnvSchema,
   timeoutMs: z.number().int().positive().max(600_000).optional(),
   globals: z.record(z.string(), z.unknown()).optional(),
+  preserveContext: z.boolean().optional(),
+  // Set when the host has a debugger attached to the worker's inspector
+  debug: z.boolean().optional(),
 });
 
 export const IpcInvokeHandlerSchema = z.object({
@@ -22,13 +28,14 @@ export const IpcInvokeHandlerSchema = z.object({
   jobId: z.string(),
   handlerId: z.string(),
   notebookId: z.string(),
-  env: NotebookEnvSchema,
+  env: KernelEnvSchema,
   event: z.string().min(1),
   payload: z.unknown().optional(),
   cellId: z.string().optional(),
   componentId: z.string().optional(),
   timeoutMs: z.number().int().positive().max(600_000).optional(),
   globals: z.record(z.string(), z.unknown()).optional(),
+  preserveContext: z.boolean().optional(),
 });
 
 export const IpcCancelSchema = z.object({
@@ -36,6 +43,51 @@ export const IpcCancelSchema = z.object({
   jobId: z.string(),
 });
 
+export const IpcInputReplySchema = z.object({
+  type: z.literal("InputReply"),
+  jobId: z.string(),
+  requestId: z.string(),
+  value: z.string().optional(),
+  cancelled: z.boolean().optional(),
+});
+
+// Introspection of the live context; answered even while a cell runs.
+export const IpcCompleteSchema = z.object({
+  type: z.literal("Complete"),
+  jobId: z.string(),
+  code: z.string(),
+  cursorPos: z.number().int().nonnegative(),
+});
+
+export const IpcInspectSchema = z.object({
+  type: z.literal("Inspect"),
+  jobId: z.string(),
+  code: z.string(),
+  cursorPos: z.number().int().nonnegative(),
+});
+
+export const IpcListVariablesSchema = z.object({
+  type: z.literal("ListVariables"),
+  jobId: z.string(),
+});
+
+export const IpcDeleteVariableSchema = z.object({
+  type: z.literal("DeleteVariable"),
+  jobId: z.string(),
+  name: z.string(),
+});
+
+// Opens the worker's inspector on a loopback port so the host can attach
+export const IpcOpenInspectorSchema = z.object({
+  type: z.literal("OpenInspector"),
+  jobId: z.string(),
+});
+
+// Stops the inspector once the debug session is over
+export const IpcCloseInspectorSchema = z.object({
+  type: z.literal("CloseInspector"),
+});
+
 export const IpcPingSchema = z.object({
   type: z.literal("Ping"),
 });
@@ -44,6 +96,13 @@ export const IpcControlMessageSchema = z.discriminatedUnion("type", [
   IpcRunCellSchema,
   IpcInvokeHandlerSchema,
   IpcCancelSchema,
+  IpcInputReplySchema,
+  IpcCompleteSchema,
+  IpcInspectSchema,
+  IpcListVariablesSchema,
+  IpcDeleteVariableSchema,
+  IpcOpenInspectorSchema,
+  IpcCloseInspectorSchema,
   IpcPingSchema,
 ]);
 
@@ -58,6 +117,7 @@ export const IpcResultSchema = z.object({
   outputs: z.array(NotebookOutputSchema),
   execution: OutputExecutionSchema,
   globals: z.record(z.string(), z.unknown()),
+  dependencies: CellDependenciesSchema.optional(),
 });
 
 export const IpcErrorSchema = z.object({
@@ -68,6 +128,44 @@ export const IpcErrorSchema = z.object({
   stack: z.string().optional(),
 });
 
+export const IpcInputRequestSchema = z.object({
+  type: z.literal("InputRequest"),
+  jobId: z.string(),
+  requestId: z.string(),
+  prompt: z.string(),
+  password: z.boolean(),
+});
+
+export const IpcCompleteResultSchema = z.object({
+  type: z.literal("CompleteResult"),
+  jobId: z.string(),
+  matches: z.array(KernelCompletionMatchSchema),
+  cursorStart: z.number().int().nonnegative(),
+  cursorEnd: z.number().int().nonnegative(),
+});
+
+export const IpcInspectResultSchema = z.object({
+  type: z.literal("InspectResult"),
+  jobId: z.string(),
+  found: z.boolean(),
+  name: z.string().optional(),
+  valueType: z.string().optional(),
+  preview: z.string().optional(),
+});
+
+// Answers both ListVariables and DeleteVariable with the current globals
+export const IpcVariablesSchema = z.object({
+  type: z.literal("Variables"),
+  jobId: z.string(),
+  variables: z.array(KernelVariableSchema),
+});
+
+export const IpcInspectorReadySchema = z.object({
+  type: z.literal("InspectorReady"),
+  jobId: z.string(),
+  url: z.string().optional(),
+});
+
 export const IpcPongSchema = z.object({
   type: z.literal("Pong"),
 });
@@ -76,18 +174,35 @@ export const IpcEventMessageSchema = z.discriminatedUnion("type", [
   IpcAckSchema,
   IpcResultSchema,
   IpcErrorSchema,
+  IpcInputRequestSchema,
+  IpcCompleteResultSchema,
+  IpcInspectResultSchema,
+  IpcVariablesSchema,
+  IpcInspectorReadySchema,
   IpcPongSchema,
 ]);
 
 export type IpcRunCell = z.infer<typeof IpcRunCellSchema>;
 export type IpcInvokeHandler = z.infer<typeof IpcInvokeHandlerSchema>;
 export type IpcCancel = z.infer<typeof IpcCancelSchema>;
+export type IpcInputReply = z.infer<typeof IpcInputReplySchema>;
+export type IpcComplete = z.infer<typeof IpcCompleteSchema>;
+export type IpcInspect = z.infer<typeof IpcInspectSchema>;
+export type IpcListVariables = z.infer<typeof IpcListVariablesSchema>;
+export type IpcDeleteVariable = z.infer<typeof IpcDeleteVariableSchema>;
+export type IpcOpenInspector = z.infer<typeof IpcOpenInspectorSchema>;
+export type IpcCloseInspector = z.infer<typeof IpcCloseInspectorSchema>;
 export type IpcPing = z.infer<typeof IpcPingSchema>;
 export type IpcControlMessage = z.infer<typeof IpcControlMessageSchema>;
 
 export type IpcAck = z.infer<typeof IpcAckSchema>;
 export type IpcResult = z.infer<typeof IpcResultSchema>;
 export type IpcError = z.infer<typeof IpcErrorSchema>;
+export type IpcInputRequest = z.infer<typeof IpcInputRequestSchema>;
+export type IpcCompleteResult = z.infer<typeof IpcCompleteResultSchema>;
+export type IpcInspectResult = z.infer<typeof IpcInspectResultSchema>;
+export type IpcVariables = z.infer<typeof IpcVariablesSchema>;
+export type IpcInspectorReady = z.infer<typeof IpcInspectorReadySchema>;
 export type IpcPong = z.infer<typeof IpcPongSchema>;
 export type IpcEventMessage = z.infer<typeof IpcEventMessageSchema>;
 
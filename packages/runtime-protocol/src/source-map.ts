@@ -0,0 +1,181 @@
+// Minimal Source Map v3 support. The worker attaches a map to every compiled
+// cell so the host can translate debugger locations back to the lines the
+// user wrote, without pulling in a full source-map library.
+
+export interface SourceMapV3 {
+  version: 3;
+  file?: string;
+  sources: string[];
+  sourcesContent?: Array<string | null>;
+  names: string[];
+  mappings: string;
+}
+
+// All positions are zero-based, as in the encoded mappings.
+export interface MappingSegment {
+  generatedColumn: number;
+  sourceIndex: number;
+  line: number;
+  column: number;
+}
+
+// One entry per generated line, segments sorted by generated column.
+export type DecodedMappings = MappingSegment[][];
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+const BASE64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_INDEX = new Map(
+  Array.from(BASE64, (char, index) => [char, index] as const)
+);
+const INLINE_PREFIX = "data:application/json;base64,";
+
+const decodeVlq = (segment: string): number[] => {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64_INDEX.get(char);
+    if (digit === undefined) {
+      return [];
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    const negative = value & 1;
+    value >>>= 1;
+    values.push(negative ? -value : value);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+};
+
+const encodeVlq = (input: number): string => {
+  let value = input < 0 ? (-input << 1) | 1 : input << 1;
+  let out = "";
+  do {
+    let digit = value & 31;
+    value >>>= 5;
+    if (value > 0) {
+      digit |= 32;
+    }
+    out += BASE64[digit];
+  } while (value > 0);
+  return out;
+};
+
+export const decodeMappings = (mappings: string): DecodedMappings => {
+  const lines: DecodedMappings = [];
+  let sourceIndex = 0;
+  let line = 0;
+  let column = 0;
+  for (const rawLine of mappings.split(";")) {
+    const segments: MappingSegment[] = [];
+    let generatedColumn = 0;
+    for (const raw of rawLine.split(",")) {
+      if (!raw) continue;
+      const fields = decodeVlq(raw);
+      if (fields.length === 0) continue;
+      generatedColumn += fields[0]!;
+      // Segments without a source position carry no mapping
+      if (fields.length < 4) continue;
+      sourceIndex += fields[1]!;
+      line += fields[2]!;
+      column += fields[3]!;
+      segments.push({ generatedColumn, sourceIndex, line, column });
+    }
+    segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+    lines.push(segments);
+  }
+  return lines;
+};
+
+export const encodeMappings = (lines: DecodedMappings): string => {
+  let sourceIndex = 0;
+  let line = 0;
+  let column = 0;
+  return lines
+    .map((segments) => {
+      let generatedColumn = 0;
+      return segments
+        .map((segment) => {
+          const encoded =
+            encodeVlq(segment.generatedColumn - generatedColumn) +
+            encodeVlq(segment.sourceIndex - sourceIndex) +
+            encodeVlq(segment.line - line) +
+            encodeVlq(segment.column - column);
+          generatedColumn = segment.generatedColumn;
+          sourceIndex = segment.sourceIndex;
+          line = segment.line;
+          column = segment.column;
+          return encoded;
+        })
+        .join(",");
+    })
+    .join(";");
+};
+
+export const toInlineSourceMapUrl = (map: SourceMapV3): string =>
+  `${INLINE_PREFIX}${Buffer.from(JSON.stringify(map), "utf8").toString("base64")}`;
+
+export const parseInlineSourceMap = (url: string): SourceMapV3 | null => {
+  if (!url.startsWith(INLINE_PREFIX)) {
+    return null;
+  }
+  try {
+    const json = Buffer.from(url.slice(INLINE_PREFIX.length), "base64");
+    const map = JSON.parse(json.toString("utf8")) as SourceMapV3;
+    return map && map.version === 3 && typeof map.mappings === "string"
+      ? map
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Closest segment at or before the generated column, falling back to the
+// first segment of the line.
+export const originalPositionFor = (
+  lines: DecodedMappings,
+  position: SourcePosition
+): SourcePosition | null => {
+  const segments = lines[position.line];
+  if (!segments || segments.length === 0) {
+    return null;
+  }
+  let match = segments[0]!;
+  for (const segment of segments) {
+    if (segment.generatedColumn > position.column) break;
+    match = segment;
+  }
+  return { line: match.line, column: match.column };
+};
+
+// First generated position for an original line. When nothing maps to that
+// line (blank lines, comments) the next mapped line is used instead, which
+// is how editors snap breakpoints.
+export const generatedPositionFor = (
+  lines: DecodedMappings,
+  originalLine: number
+): SourcePosition | null => {
+  let best: SourcePosition | null = null;
+  let bestOriginal = Number.POSITIVE_INFINITY;
+  for (let line = 0; line < lines.length; line++) {
+    for (const segment of lines[line]!) {
+      if (segment.line < originalLine) continue;
+      if (segment.line < bestOriginal) {
+        best = { line, column: segment.generatedColumn };
+        bestOriginal = segment.line;
+      }
+      break;
+    }
+  }
+  return best;
+};
@@ -48,4 +48,22 @@ describe("kernelIpc schemas", () => {
     const parsed = IpcEventMessageSchema.safeParse(evt);
     expect(parsed.success).toBe(true);
   });
+
+  it("parses the prompt input round trip", () => {
+    const request = IpcEventMessageSchema.safeParse({
+      type: "InputRequest",
+      jobId: "j1",
+      requestId: "r1",
+      prompt: "API key?",
+      password: true,
+    });
+    expect(request.success).toBe(true);
+    const reply = IpcControlMessageSchema.safeParse({
+      type: "InputReply",
+      jobId: "j1",
+      requestId: "r1",
+      value: "secret",
+    });
+    expect(reply.success).toBe(true);
+  });
 });
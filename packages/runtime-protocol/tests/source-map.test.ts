@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeMappings,
+  encodeMappings,
+  generatedPositionFor,
+  originalPositionFor,
+  parseInlineSourceMap,
+  toInlineSourceMapUrl,
+  type DecodedMappings,
+} from "../src/source-map.js";
+
+describe("source maps", () => {
+  const lines: DecodedMappings = [
+    [],
+    [
+      { generatedColumn: 2, sourceIndex: 0, line: 0, column: 0 },
+      { generatedColumn: 10, sourceIndex: 0, line: 0, column: 8 },
+    ],
+    [{ generatedColumn: 2, sourceIndex: 0, line: 3, column: 0 }],
+  ];
+
+  it("round-trips encoded mappings", () => {
+    expect(decodeMappings(encodeMappings(lines))).toEqual(lines);
+  });
+
+  it("parses inline source map urls", () => {
+    const map = {
+      version: 3 as const,
+      sources: ["cell.ts"],
+      names: [],
+      mappings: encodeMappings(lines),
+    };
+    expect(parseInlineSourceMap(toInlineSourceMapUrl(map))).toEqual(map);
+    expect(parseInlineSourceMap("cell.js.map")).toBeNull();
+  });
+
+  it("translates positions in both directions", () => {
+    expect(originalPositionFor(lines, { line: 1, column: 12 })).toEqual({
+      line: 0,
+      column: 8,
+    });
+    expect(originalPositionFor(lines, { line: 0, column: 0 })).toBeNull();
+    // Unmapped original lines snap to the next mapped one
+    expect(generatedPositionFor(lines, 1)).toEqual({ line: 2, column: 2 });
+    expect(generatedPositionFor(lines, 4)).toBeNull();
+  });
+});
@@ -5,6 +5,12 @@ import type {
   SessionManager,
 } from "@nodebooks/cell-plugin-api";
 import { registerSqlRoutes } from "./backend/router.js";
+export {
+  getSqlResultGlobals,
+  runSqlCell,
+  SqlCellError,
+  type SqlCellRunOptions,
+} from "./backend/execute.js";
 
 /**
  * Backend route registration for sql-cell plugin.
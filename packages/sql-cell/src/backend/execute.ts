@@ -0,0 +1,205 @@
+import { Client, type ClientConfig, types as pgTypes } from "pg";
+import {
+  redactValue,
+  type Notebook,
+  type Redactor,
+} from "@nodebooks/notebook-schema";
+import {
+  NotebookSqlSchema,
+  SqlResultSchema,
+  type SqlConnection,
+  type SqlResult,
+} from "../schema.js";
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Z0-9_]+)\s*\}\}/gi;
+
+const substituteVariables = (
+  value: string,
+  variables: Record<string, string>
+) => {
+  if (!value) {
+    return "";
+  }
+  return value.replace(VARIABLE_PATTERN, (_, key: string) => {
+    const exact = variables[key] ?? variables[key.toUpperCase()] ?? "";
+    return exact;
+  });
+};
+
+const PG_TYPE_NAME_BY_ID = (() => {
+  const map = new Map<number, string>();
+  const entries = Object.entries(pgTypes.builtins ?? {});
+  for (const [name, id] of entries) {
+    if (typeof id === "number") {
+      map.set(id, name.toLowerCase());
+    }
+  }
+  return map;
+})();
+
+const lookupPostgresTypeName = (id: number) => {
+  return PG_TYPE_NAME_BY_ID.get(id) ?? String(id);
+};
+
+const isValidVariableName = (value: string) =>
+  /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(value);
+
+const buildPostgresClient = (connectionString: string) => {
+  const config: ClientConfig = { connectionString };
+  try {
+    const url = new URL(connectionString);
+    const sslParam =
+      url.searchParams.get("sslmode") ??
+      url.searchParams.get("ssl") ??
+      undefined;
+    if (sslParam) {
+      const normalized = sslParam.trim().toLowerCase();
+      if (["disable", "false", "0"].includes(normalized)) {
+        // no-op
+      } else if (["verify-full", "verify-ca"].includes(normalized)) {
+        config.ssl = { rejectUnauthorized: true };
+      } else {
+        config.ssl = { rejectUnauthorized: false };
+      }
+    }
+  } catch {
+    // ignore malformed URLs and rely on pg defaults
+  }
+  return new Client(config);
+};
+
+const toPlainRows = (rows: Array<Record<string, unknown>>) => {
+  return rows.map((row) => ({ ...row }));
+};
+
+/**
+ * A SQL cell that cannot run as written (no query, unknown connection, ...).
+ */
+export class SqlCellError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SqlCellError";
+  }
+}
+
+export interface SqlCellRunOptions {
+  // With the project's connections and variables already merged in
+  notebook: Pick<Notebook, "env" | "sql">;
+  connectionId?: string;
+  query: string;
+  assignVariable?: string;
+  // Substituted into `{{NAME}}` placeholders; defaults to the notebook's
+  variables?: Record<string, string>;
+  // Shadow variables with the same name
+  secrets?: Record<string, string>;
+  redact?: Redactor;
+}
+
+/**
+ * Runs a SQL cell's query on one of the notebook's connections. Cells that
+ * cannot run throw a {@link SqlCellError}; a failing query resolves to a
+ * result with `error` set. Rows and errors are redacted.
+ */
+export const runSqlCell = async ({
+  notebook,
+  connectionId,
+  query,
+  assignVariable: assignRaw,
+  variables = notebook.env?.variables ?? {},
+  secrets = {},
+  redact = (text) => text,
+}: SqlCellRunOptions): Promise<SqlResult> => {
+  const queryText = query.trim();
+  if (queryText.length === 0) {
+    throw new SqlCellError("SQL query cannot be empty");
+  }
+
+  const assignTrimmed = assignRaw?.trim();
+  const assignVariable =
+    assignTrimmed && assignTrimmed.length > 0 ? assignTrimmed : undefined;
+  if (assignVariable && !isValidVariableName(assignVariable)) {
+    throw new SqlCellError("Assignment target must be a valid identifier");
+  }
+
+  const sqlConfig = NotebookSqlSchema.parse(notebook.sql ?? {});
+  const connection: SqlConnection | undefined = sqlConfig.connections.find(
+    (candidate: SqlConnection) => candidate.id === connectionId
+  );
+  if (!connection) {
+    throw new SqlCellError("Database connection not found");
+  }
+  if (connection.driver !== "postgres") {
+    throw new SqlCellError(`Unsupported SQL driver: ${connection.driver}`);
+  }
+  const rawConnectionString = connection.config.connectionString?.trim();
+  if (!rawConnectionString) {
+    throw new SqlCellError("Connection string is required");
+  }
+  const resolvedConnectionString = substituteVariables(rawConnectionString, {
+    ...variables,
+    ...secrets,
+  }).trim();
+  if (!resolvedConnectionString) {
+    throw new SqlCellError("Connection string is required");
+  }
+
+  const client = buildPostgresClient(resolvedConnectionString);
+  const started = Date.now();
+  try {
+    await client.connect();
+    const result = await client.query(queryText);
+    const durationMs = Date.now() - started;
+    const rows = toPlainRows(result.rows ?? []);
+    const columns = (result.fields ?? []).map(
+      (field: { name: string; dataTypeID: number }) => ({
+        name: field.name,
+        dataType: lookupPostgresTypeName(field.dataTypeID),
+      })
+    );
+    return SqlResultSchema.parse({
+      rowCount:
+        typeof result.rowCount === "number" ? result.rowCount : rows.length,
+      durationMs,
+      rows: redactValue(rows, redact),
+      columns,
+      assignedVariable: assignVariable,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return SqlResultSchema.parse({
+      error: redact(
+        error instanceof Error ? error.message : "Failed to execute SQL query"
+      ),
+      assignedVariable: assignVariable,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await client.end();
+    } catch {
+      // ignore disconnect failures
+    }
+  }
+};
+
+/**
+ * The value a successful result assigns to its variable, as the editor
+ * hands it to later code cells.
+ */
+export const getSqlResultGlobals = (
+  result: SqlResult
+): Record<string, unknown> => {
+  const name = result.assignedVariable;
+  if (!name || result.error) {
+    return {};
+  }
+  return {
+    [name]: {
+      rows: result.rows ?? [],
+      columns: result.columns ?? [],
+      rowCount: result.rowCount,
+      durationMs: result.durationMs,
+      timestamp: result.timestamp,
+    },
+  };
+};
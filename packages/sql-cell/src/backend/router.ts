@@ -1,32 +1,21 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import { z } from "zod";
-import { Client, type ClientConfig, types as pgTypes } from "pg";
-import type { Notebook } from "@nodebooks/notebook-schema";
+import {
+  collectSensitiveValues,
+  createRedactor,
+  mergeProjectEnv,
+  mergeProjectSql,
+  type Notebook,
+} from "@nodebooks/notebook-schema";
 import type {
   NotebookCollaboratorStore,
+  NotebookSecretResolver,
   NotebookStore,
   NotebookRole,
+  ProjectDefaultsResolver,
+  RedactionPatternsProvider,
 } from "@nodebooks/cell-plugin-api";
-import {
-  NotebookSqlSchema,
-  SqlResultSchema,
-  type SqlConnection,
-} from "../schema.js";
-
-const VARIABLE_PATTERN = /\{\{\s*([A-Z0-9_]+)\s*\}\}/gi;
-
-const substituteVariables = (
-  value: string,
-  variables: Record<string, string>
-) => {
-  if (!value) {
-    return "";
-  }
-  return value.replace(VARIABLE_PATTERN, (_, key: string) => {
-    const exact = variables[key] ?? variables[key.toUpperCase()] ?? "";
-    return exact;
-  });
-};
+import { runSqlCell, SqlCellError } from "./execute.js";
 
 const SqlExecutePayloadSchema = z.object({
   cellId: z.string(),
@@ -35,58 +24,47 @@ const SqlExecutePayloadSchema = z.object({
   assignVariable: z.string().optional(),
 });
 
-const PG_TYPE_NAME_BY_ID = (() => {
-  const map = new Map<number, string>();
-  const entries = Object.entries(pgTypes.builtins ?? {});
-  for (const [name, id] of entries) {
-    if (typeof id === "number") {
-      map.set(id, name.toLowerCase());
-    }
-  }
-  return map;
-})();
-
-const lookupPostgresTypeName = (id: number) => {
-  return PG_TYPE_NAME_BY_ID.get(id) ?? String(id);
-};
-
-const isValidVariableName = (value: string) =>
-  /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(value);
-
-const buildPostgresClient = (connectionString: string) => {
-  const config: ClientConfig = { connectionString };
-  try {
-    const url = new URL(connectionString);
-    const sslParam =
-      url.searchParams.get("sslmode") ??
-      url.searchParams.get("ssl") ??
-      undefined;
-    if (sslParam) {
-      const normalized = sslParam.trim().toLowerCase();
-      if (["disable", "false", "0"].includes(normalized)) {
-        // no-op
-      } else if (["verify-full", "verify-ca"].includes(normalized)) {
-        config.ssl = { rejectUnauthorized: true };
-      } else {
-        config.ssl = { rejectUnauthorized: false };
-      }
+// Project connections and variables are shared by all of its notebooks;
+// the notebook's own take precedence
+const withProjectDefaults = async (
+  app: FastifyInstance,
+  notebook: Notebook
+): Promise<Notebook> => {
+  const defaults = await (
+    app as FastifyInstance & {
+      resolveProjectDefaults?: ProjectDefaultsResolver;
     }
-  } catch {
-    // ignore malformed URLs and rely on pg defaults
+  ).resolveProjectDefaults?.(notebook);
+  if (!defaults) {
+    return notebook;
   }
-  return new Client(config);
+  return {
+    ...notebook,
+    env: mergeProjectEnv(notebook.env, defaults),
+    sql: mergeProjectSql(notebook.sql, defaults),
+  };
 };
 
-const toPlainRows = (rows: Array<Record<string, unknown>>) => {
-  return rows.map((row) => ({ ...row }));
-};
-
-const ensureNotebookSql = (notebook: Notebook) => {
-  return NotebookSqlSchema.parse(notebook.sql ?? {});
-};
-
-const getNotebookVariables = (notebook: Notebook) => {
-  return notebook.env?.variables ?? {};
+// Secrets shadow plain variables with the same name. Results and errors
+// are redacted before they are returned and saved with the cell.
+const getNotebookSecrets = async (
+  app: FastifyInstance,
+  notebook: Notebook,
+  userId?: string
+) => {
+  const server = app as FastifyInstance & {
+    resolveNotebookSecrets?: NotebookSecretResolver;
+    getRedactionPatterns?: RedactionPatternsProvider;
+  };
+  const secrets =
+    (await server.resolveNotebookSecrets?.(notebook, userId)) ?? {};
+  return {
+    secrets,
+    redact: createRedactor({
+      values: collectSensitiveValues({ ...notebook.env, secrets }),
+      patterns: server.getRedactionPatterns?.(),
+    }),
+  };
 };
 
 type RequestUser = {
@@ -185,90 +163,33 @@ export const registerSqlRoutes = (
       return;
     }
 
-    const queryText = payload.data.query.trim();
-    if (queryText.length === 0) {
-      void reply.code(400).send({ error: "SQL query cannot be empty" });
-      return;
-    }
-
-    const assignRaw = payload.data.assignVariable?.trim();
-    const assignVariable =
-      assignRaw && assignRaw.length > 0 ? assignRaw : undefined;
-    if (assignVariable && !isValidVariableName(assignVariable)) {
-      void reply
-        .code(400)
-        .send({ error: "Assignment target must be a valid identifier" });
-      return;
-    }
-
-    const sqlConfig = ensureNotebookSql(notebook);
-    const connection: SqlConnection | undefined = sqlConfig.connections.find(
-      (candidate: SqlConnection) => candidate.id === payload.data.connectionId
+    const inherited = await withProjectDefaults(app, notebook);
+    const { secrets, redact } = await getNotebookSecrets(
+      app,
+      inherited,
+      requestUser?.id
     );
-    if (!connection) {
-      void reply.code(400).send({ error: "Database connection not found" });
-      return;
-    }
-    if (connection.driver !== "postgres") {
-      void reply
-        .code(400)
-        .send({ error: `Unsupported SQL driver: ${connection.driver}` });
-      return;
-    }
-    const rawConnectionString = connection.config.connectionString?.trim();
-    if (!rawConnectionString) {
-      void reply.code(400).send({ error: "Connection string is required" });
-      return;
-    }
-
-    const variables = getNotebookVariables(notebook);
-    const resolvedConnectionString = substituteVariables(
-      rawConnectionString,
-      variables
-    ).trim();
-    if (!resolvedConnectionString) {
-      void reply.code(400).send({ error: "Connection string is required" });
-      return;
-    }
-
-    const client = buildPostgresClient(resolvedConnectionString);
-    const started = Date.now();
+    let result;
     try {
-      await client.connect();
-      const result = await client.query(queryText);
-      const durationMs = Date.now() - started;
-      const rows = toPlainRows(result.rows ?? []);
-      const columns = (result.fields ?? []).map(
-        (field: { name: string; dataTypeID: number }) => ({
-          name: field.name,
-          dataType: lookupPostgresTypeName(field.dataTypeID),
-        })
-      );
-      const parsedResult = SqlResultSchema.parse({
-        rowCount:
-          typeof result.rowCount === "number" ? result.rowCount : rows.length,
-        durationMs,
-        rows,
-        columns,
-        assignedVariable: assignVariable,
-        timestamp: new Date().toISOString(),
+      result = await runSqlCell({
+        notebook: inherited,
+        connectionId: payload.data.connectionId,
+        query: payload.data.query,
+        assignVariable: payload.data.assignVariable,
+        secrets,
+        redact,
       });
-      void reply.send({ data: { result: parsedResult } });
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : "Failed to execute SQL query";
-      const result = SqlResultSchema.parse({
-        error: message,
-        assignedVariable: assignVariable,
-        timestamp: new Date().toISOString(),
-      });
-      void reply.code(400).send({ data: { result }, error: message });
-    } finally {
-      try {
-        await client.end();
-      } catch {
-        // ignore disconnect failures
+      if (error instanceof SqlCellError) {
+        void reply.code(400).send({ error: error.message });
+        return;
       }
+      throw error;
+    }
+    if (result.error) {
+      void reply.code(400).send({ data: { result }, error: result.error });
+      return;
     }
+    void reply.send({ data: { result } });
   });
 };
@@ -0,0 +1,55 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs/promises";
+import type { MagicContext, MagicDefinition } from "@nodebooks/cell-plugin-api";
+
+const determineScriptCommand = (script: string): [string, string[]] => {
+  if (process.platform === "win32") {
+    return [
+      "powershell.exe",
+      ["-NoLogo", "-NonInteractive", "-Command", script],
+    ];
+  }
+  return ["/bin/sh", ["-c", script]];
+};
+
+// Runs the cell body as a script in the notebook workspace, the same
+// directory terminal cells open in, streaming output into the cell.
+const runShell = async (context: MagicContext) => {
+  if (!context.body.trim()) {
+    return;
+  }
+  await fs.mkdir(context.workspaceDir, { recursive: true });
+  const [command, args] = determineScriptCommand(context.body);
+  const child = spawn(command, args, {
+    cwd: context.workspaceDir,
+    env: {
+      ...process.env,
+      ...context.getEnv(),
+      HOME: context.workspaceDir,
+      PWD: context.workspaceDir,
+    },
+    signal: context.signal,
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  child.stdout.setEncoding("utf8");
+  child.stderr.setEncoding("utf8");
+  child.stdout.on("data", (chunk: string) => context.stdout(chunk));
+  child.stderr.on("data", (chunk: string) => context.stderr(chunk));
+
+  const code = await new Promise<number | null>((resolve, reject) => {
+    child.once("error", reject);
+    child.once("close", (exitCode) => resolve(exitCode));
+  });
+  if (code !== 0) {
+    const error = new Error(`Command exited with status ${code ?? "unknown"}`);
+    error.name = "CalledProcessError";
+    throw error;
+  }
+};
+
+export const shellMagic: MagicDefinition = {
+  name: "sh",
+  kind: "cell",
+  description: "Run the cell as a shell script in the notebook workspace",
+  run: runShell,
+};
@@ -4,6 +4,7 @@ import { CommandCellView } from "./frontend/command-cell-view.js";
 import { PublicTerminalCell } from "./frontend/public/public-terminal-cell.js";
 import { PublicCommandCell } from "./frontend/public/public-command-cell.js";
 import { registerBackendRoutes } from "./backend.js";
+import { shellMagic } from "./backend/shell-magic.js";
 import {
   pluginMetadata,
   terminalCellMetadata,
@@ -32,6 +33,7 @@ export const terminalCellsPlugin: CellPlugin = {
       enabled: () => true,
     },
   ],
+  magics: [shellMagic],
   init: async () => {
     // No initialization needed
   },
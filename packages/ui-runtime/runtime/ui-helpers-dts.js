@@ -46,6 +46,19 @@ export declare function UiJSON(
 export declare function UiJSON(
   opts: { ui?: "json"; json: unknown } & UiJsonOptions
 ): UiDisplayHandle<{ ui: "json"; json: unknown } & UiEmitless<UiJsonOptions>>;
+export type UiResponseOptions = UiEmitOptions & {
+  status?: number;
+  headers?: Record<string, string>;
+};
+export declare function UiResponse(
+  body: unknown,
+  opts?: UiResponseOptions
+): UiDisplayHandle<{
+  ui: "response";
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}>;
 export type UiCodeOptions = UiEmitOptions & { language?: string };
 export declare function UiCode(
   code: string,
@@ -476,6 +489,7 @@ export type UiHelperAliases = {
   markdown: typeof UiMarkdown;
   html: typeof UiHTML;
   json: typeof UiJSON;
+  respond: typeof UiResponse;
   code: typeof UiCode;
   table: typeof UiTable;
   dataSummary: typeof UiDataSummary;
@@ -500,6 +514,7 @@ export declare const image: typeof UiImage;
 export declare const markdown: typeof UiMarkdown;
 export declare const html: typeof UiHTML;
 export declare const json: typeof UiJSON;
+export declare const respond: typeof UiResponse;
 export declare const code: typeof UiCode;
 export declare const table: typeof UiTable;
 export declare const dataSummary: typeof UiDataSummary;
@@ -520,6 +535,37 @@ export declare const button: typeof UiButton;
 export declare const slider: typeof UiSlider;
 export declare const textInput: typeof UiTextInput;
 export declare const ui: UiHelperAliases;
+export declare class AssertionError extends Error {
+  actual?: unknown;
+  expected?: unknown;
+  constructor(
+    message: string,
+    details?: { actual?: unknown; expected?: unknown }
+  );
+}
+export declare function assert(
+  condition: unknown,
+  message?: string
+): asserts condition;
+export interface Matchers {
+  toBe(expected: unknown): void;
+  toEqual(expected: unknown): void;
+  toBeTruthy(): void;
+  toBeFalsy(): void;
+  toBeDefined(): void;
+  toBeNull(): void;
+  toBeGreaterThan(expected: number | bigint): void;
+  toBeLessThan(expected: number | bigint): void;
+  toContain(item: unknown): void;
+  toMatch(pattern: RegExp | string): void;
+  toHaveLength(length: number): void;
+  toHaveProperty(path: string | string[], value?: unknown): void;
+  toThrow(
+    expected?: RegExp | string | (new (...args: never[]) => unknown)
+  ): void;
+}
+export type Expectation = Matchers & { not: Matchers };
+export declare function expect(actual: unknown): Expectation;
 export default ui;
 `;
 
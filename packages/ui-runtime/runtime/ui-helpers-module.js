@@ -231,6 +231,20 @@ function UiJSON(jsonOrOpts, opts) {
   normalized.json = jsonOrOpts;
   return finalizeDisplay(Object.assign({ ui: "json" }, normalized), emit);
 }
+// Sets the HTTP response when the notebook runs as an app; in the editor it
+// shows up like any other display.
+function UiResponse(body, opts) {
+  const normalized = cloneData(opts || {});
+  const emit = shouldEmit(normalized);
+  const display = { ui: "response", status: 200, body };
+  if (normalized.status !== undefined) {
+    display.status = normalized.status;
+  }
+  if (normalized.headers && typeof normalized.headers === "object") {
+    display.headers = cloneData(normalized.headers);
+  }
+  return finalizeDisplay(display, emit);
+}
 function UiCode(codeOrOpts, opts) {
   if (
     codeOrOpts &&
@@ -607,11 +621,237 @@ function UiTextInput(opts) {
   return finalizeDisplay(Object.assign({ ui: "textInput" }, normalized), emit);
 }
 
+// Assertions for test cells. A failed check throws an AssertionError, which
+// test runs report as a failure rather than an error.
+class AssertionError extends Error {
+  constructor(message, details) {
+    super(message);
+    this.name = "AssertionError";
+    if (details && "actual" in details) this.actual = details.actual;
+    if (details && "expected" in details) this.expected = details.expected;
+  }
+}
+
+const isRegExp = (value) =>
+  Object.prototype.toString.call(value) === "[object RegExp]";
+const isErrorLike = (value) =>
+  value !== null &&
+  typeof value === "object" &&
+  typeof value.name === "string" &&
+  typeof value.message === "string";
+
+const describeValue = (value) => {
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "function")
+    return "[Function " + (value.name || "anonymous") + "]";
+  if (typeof value === "bigint") return String(value) + "n";
+  if (isErrorLike(value)) return value.name + ": " + value.message;
+  try {
+    const json = JSON.stringify(value);
+    return json === undefined ? String(value) : json;
+  } catch {
+    return String(value);
+  }
+};
+
+const isDeepEqual = (a, b, seen) => {
+  if (Object.is(a, b)) return true;
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null
+  ) {
+    return false;
+  }
+  // Tags instead of prototypes: cell values and host values (e.g. parsed
+  // fetch responses) come from different realms.
+  const tag = Object.prototype.toString.call(a);
+  if (tag !== Object.prototype.toString.call(b)) return false;
+  if (tag === "[object Date]") return a.getTime() === b.getTime();
+  if (tag === "[object RegExp]") return String(a) === String(b);
+  const visited = seen || new Map();
+  if (visited.get(a) === b) return true;
+  visited.set(a, b);
+  if (tag === "[object Map]" || tag === "[object Set]") {
+    if (a.size !== b.size) return false;
+    // Insertion order doesn't matter: members and keys are looked up, and
+    // object ones are matched against a deep-equal counterpart
+    const isMap = tag === "[object Map]";
+    const valueOf = (collection, key) =>
+      isMap ? collection.get(key) : undefined;
+    const unmatched = Array.from(b.keys()).filter((key) => !a.has(key));
+    return Array.from(a.keys()).every((key) => {
+      if (b.has(key)) {
+        return isDeepEqual(valueOf(a, key), valueOf(b, key), visited);
+      }
+      const index = unmatched.findIndex(
+        (other) =>
+          isDeepEqual(key, other, visited) &&
+          isDeepEqual(valueOf(a, key), valueOf(b, other), visited)
+      );
+      if (index === -1) return false;
+      unmatched.splice(index, 1);
+      return true;
+    });
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      isDeepEqual(a[key], b[key], visited)
+  );
+};
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new AssertionError(message || "Assertion failed", {
+      actual: condition,
+      expected: true,
+    });
+  }
+}
+
+const readPath = (target, path) => {
+  const segments = Array.isArray(path) ? path : String(path).split(".");
+  let current = target;
+  for (const segment of segments) {
+    if (current === null || current === undefined) return { found: false };
+    if (!(segment in Object(current))) return { found: false };
+    current = current[segment];
+  }
+  return { found: true, value: current };
+};
+
+const buildMatchers = (actual, negated) => {
+  const check = (pass, description, expected, hasExpected) => {
+    if (pass === negated) {
+      const message =
+        "Expected " +
+        describeValue(actual) +
+        (negated ? " not " : " ") +
+        description;
+      const details = { actual };
+      if (hasExpected) details.expected = expected;
+      throw new AssertionError(message, details);
+    }
+  };
+  return {
+    toBe: (expected) =>
+      check(
+        Object.is(actual, expected),
+        "to be " + describeValue(expected),
+        expected,
+        true
+      ),
+    toEqual: (expected) =>
+      check(
+        isDeepEqual(actual, expected),
+        "to equal " + describeValue(expected),
+        expected,
+        true
+      ),
+    toBeTruthy: () => check(Boolean(actual), "to be truthy"),
+    toBeFalsy: () => check(!actual, "to be falsy"),
+    toBeDefined: () => check(actual !== undefined, "to be defined"),
+    toBeNull: () => check(actual === null, "to be null"),
+    toBeGreaterThan: (expected) =>
+      check(
+        actual > expected,
+        "to be greater than " + describeValue(expected),
+        expected,
+        true
+      ),
+    toBeLessThan: (expected) =>
+      check(
+        actual < expected,
+        "to be less than " + describeValue(expected),
+        expected,
+        true
+      ),
+    toContain: (item) =>
+      check(
+        typeof actual === "string"
+          ? actual.includes(String(item))
+          : Array.isArray(actual) &&
+              actual.some((entry) => isDeepEqual(entry, item)),
+        "to contain " + describeValue(item),
+        item,
+        true
+      ),
+    toMatch: (pattern) =>
+      check(
+        typeof actual === "string" &&
+          (isRegExp(pattern)
+            ? pattern.test(actual)
+            : actual.includes(pattern)),
+        "to match " + String(pattern),
+        pattern,
+        true
+      ),
+    toHaveLength: (length) =>
+      check(
+        actual !== null && actual !== undefined && actual.length === length,
+        "to have length " + length,
+        length,
+        true
+      ),
+    toHaveProperty: (path, ...rest) => {
+      const result = readPath(actual, path);
+      if (rest.length === 0) {
+        check(result.found, "to have property " + describeValue(path));
+        return;
+      }
+      check(
+        result.found && isDeepEqual(result.value, rest[0]),
+        "to have property " +
+          describeValue(path) +
+          " equal to " +
+          describeValue(rest[0]),
+        rest[0],
+        true
+      );
+    },
+    toThrow: (expected) => {
+      let thrown = null;
+      let threw = false;
+      try {
+        actual();
+      } catch (error) {
+        threw = true;
+        thrown = error;
+      }
+      const message = isErrorLike(thrown) ? thrown.message : String(thrown);
+      const pass =
+        threw &&
+        (expected === undefined ||
+          (isRegExp(expected)
+            ? expected.test(message)
+            : typeof expected === "function"
+              ? thrown instanceof expected
+              : message.includes(String(expected))));
+      check(
+        pass,
+        expected === undefined ? "to throw" : "to throw " + String(expected)
+      );
+    },
+  };
+};
+
+function expect(actual) {
+  const matchers = buildMatchers(actual, false);
+  matchers.not = buildMatchers(actual, true);
+  return matchers;
+}
+
 const aliasEntries = {
   image: UiImage,
   markdown: UiMarkdown,
   html: UiHTML,
   json: UiJSON,
+  respond: UiResponse,
   code: UiCode,
   table: UiTable,
   dataSummary: UiDataSummary,
@@ -641,6 +881,7 @@ module.exports = Object.assign(
     UiMarkdown,
     UiHTML,
     UiJSON,
+    UiResponse,
     UiCode,
     UiTable,
     UiDataSummary,
@@ -661,6 +902,9 @@ module.exports = Object.assign(
     UiSlider,
     UiTextInput,
     ui,
+    assert,
+    expect,
+    AssertionError,
   },
   aliasEntries
 );
@@ -0,0 +1,62 @@
+"use client";
+import React from "react";
+import type { UiResponse } from "@nodebooks/notebook-schema";
+import { JsonViewer } from "./json-viewer.js";
+import { useComponentThemeMode } from "./utils.js";
+import clsx from "clsx";
+
+type HttpResponseProps = Omit<UiResponse, "ui"> & {
+  className?: string;
+  themeMode?: "light" | "dark";
+};
+
+export const HttpResponse: React.FC<HttpResponseProps> = ({
+  status,
+  headers,
+  body,
+  className,
+  themeMode,
+}) => {
+  const mode = useComponentThemeMode(themeMode);
+  const failed = status >= 400;
+  const headerEntries = Object.entries(headers ?? {});
+  return (
+    <div
+      data-theme-mode={mode}
+      className={clsx("flex flex-col gap-2 text-sm", className)}
+    >
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-semibold uppercase tracking-[0.2em] text-muted-foreground">
+          Response
+        </span>
+        <span
+          className={clsx(
+            "rounded border px-1.5 py-0.5 font-mono text-xs",
+            failed
+              ? "border-[color:var(--destructive)] text-[color:var(--destructive)]"
+              : "border-primary text-primary"
+          )}
+        >
+          {status}
+        </span>
+      </div>
+      {headerEntries.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 font-mono text-xs">
+          {headerEntries.map(([name, value]) => (
+            <React.Fragment key={name}>
+              <dt className="text-muted-foreground">{name}</dt>
+              <dd className="break-all">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+      {body !== null && typeof body === "object" ? (
+        <JsonViewer json={body} themeMode={mode} />
+      ) : (
+        <pre className="whitespace-pre-wrap break-all font-mono text-xs">
+          {body === undefined ? "" : String(body)}
+        </pre>
+      )}
+    </div>
+  );
+};
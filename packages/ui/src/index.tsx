@@ -7,6 +7,7 @@ import { Markdown } from "./components/markdown.js";
 import { HtmlBlock } from "./components/html.js";
 import { JsonViewer } from "./components/json-viewer.js";
 import { CodeBlock } from "./components/code-block.js";
+import { HttpResponse } from "./components/http-response.js";
 import { TableGrid } from "./components/table-grid.js";
 import { DataSummary } from "./components/data-summary.js";
 import { AlertCallout } from "./components/alert.js";
@@ -63,6 +64,9 @@ export const UiRenderer: React.FC<UiRendererProps> = ({
     case "code":
       inner = <CodeBlock {...display} className={className} />;
       break;
+    case "response":
+      inner = <HttpResponse {...display} className={className} />;
+      break;
     case "table":
       inner = <TableGrid {...display} className={className} />;
       break;
@@ -158,6 +162,7 @@ export { Markdown } from "./components/markdown.js";
 export { HtmlBlock } from "./components/html.js";
 export { JsonViewer } from "./components/json-viewer.js";
 export { CodeBlock } from "./components/code-block.js";
+export { HttpResponse } from "./components/http-response.js";
 export { CopyButton } from "./components/copy-button.js";
 export type { CopyButtonProps } from "./components/copy-button.js";
 export { TableGrid } from "./components/table-grid.js";